@@ -16,7 +16,10 @@ export default defineConfig({
         input: {
           index: resolve(__dirname, 'src/main/index.ts'),
           'workers/carving.worker': resolve(__dirname, 'src/main/workers/carving.worker.ts'),
-          'workers/metadata.worker': resolve(__dirname, 'src/main/workers/metadata.worker.ts')
+          'workers/metadata.worker': resolve(__dirname, 'src/main/workers/metadata.worker.ts'),
+          'workers/imaging.worker': resolve(__dirname, 'src/main/workers/imaging.worker.ts'),
+          'workers/partition-search.worker': resolve(__dirname, 'src/main/workers/partition-search.worker.ts'),
+          'workers/unlock.worker': resolve(__dirname, 'src/main/workers/unlock.worker.ts')
         }
       }
     }
@@ -5,14 +5,24 @@
  * chunks (to catch file headers that straddle a chunk boundary). For each
  * header match found by the {@link SignatureScanner}, the appropriate
  * {@link FileExtractor} is invoked to determine the file size and metadata.
+ * Matches inside a file already carved with an exact size belong to that
+ * file (a ZIP's local headers, a JPEG's thumbnail) and are skipped.
+ *
+ * When the filesystem's allocation bitmap is known, fully allocated chunks
+ * are skipped and matches in allocated blocks (live files) are dropped.
+ *
+ * Files are reported for headers starting in [startOffset, endOffset). The
+ * overlap past endOffset is read too, so that adjacent ranges of a device
+ * can be carved separately without missing headers straddling their edge.
  *
  * The engine supports pause / resume / cancel and emits events so the UI
  * can display real-time progress.
  *
  * Events:
- *   - 'progress'   : ScanProgress   - Periodic progress updates.
+ *   - 'progress'   : ScanProgress   - Progress after every chunk.
  *   - 'file-found' : RecoverableFile - A recoverable file was identified.
  *   - 'error'      : { offset: bigint, error: string } - Non-fatal error.
+ *   - 'bad-sectors': bigint[]       - Offsets of sectors that could not be read.
  *   - 'complete'   : { filesFound: number } - Scan finished.
  */
 
@@ -23,6 +33,7 @@ import { BlockReader } from '../io/block-reader'
 import { SignatureScanner, type SignatureMatch } from './signature-scanner'
 import type { ReadableDevice, FileExtractor } from './file-extractors/base-extractor'
 import { createExtractorMap } from './file-extractors'
+import type { AllocationBitmap } from '../filesystem/allocation-bitmap'
 
 import type {
   FileCategory,
@@ -36,11 +47,17 @@ import {
   type FileSignature,
   CHUNK_SIZE,
   CHUNK_OVERLAP,
-  SIGNATURE_MAP,
+  getLargestSignatureByType,
   getSignaturesByCategory,
   getSignaturesByTypes
 } from '../../shared/constants/file-signatures'
 
+/** Safety limit: if a single chunk produces more matches than this, the
+ *  remaining matches are dropped. This prevents pathologically broad
+ *  signatures (e.g. short byte sequences common in zeroed regions) from
+ *  causing unbounded memory growth. */
+const MAX_MATCHES_PER_CHUNK = 1000
+
 // ─── Types ─────────────────────────────────────────────────────
 
 export interface CarvingScanConfig {
@@ -52,6 +69,14 @@ export interface CarvingScanConfig {
   categories: FileCategory[]
   /** When provided, only these specific file types are scanned (overrides categories). */
   fileTypes?: FileType[]
+  /**
+   * Allocation bitmap of the filesystem starting at `filesystemOffset`,
+   * queried relative to it. Allocated space holds live files, so it is not
+   * carved.
+   */
+  allocationBitmap?: AllocationBitmap | null
+  /** Absolute byte offset of the filesystem; defaults to `startOffset`. */
+  filesystemOffset?: bigint
 }
 
 export interface CarvingEngineEvents {
@@ -65,7 +90,8 @@ export interface CarvingEngineEvents {
 
 /**
  * Wraps the real BlockReader to satisfy the simpler ReadableDevice interface
- * that file extractors expect.
+ * that file extractors expect. Reads take the single-attempt fast path and
+ * fall back to sector-aligned reads with retries when it fails.
  */
 function createReadableDevice(blockReader: BlockReader): ReadableDevice {
   return {
@@ -73,8 +99,12 @@ function createReadableDevice(blockReader: BlockReader): ReadableDevice {
       return blockReader.size
     },
     async read(offset: bigint, length: number): Promise<Buffer> {
-      const result = await blockReader.readAt(offset, length)
-      return result.buffer
+      try {
+        return (await blockReader.tryRead(offset, length)).buffer
+      } catch {
+        const result = await blockReader.readAt(offset, length)
+        return result.buffer
+      }
     }
   }
 }
@@ -103,6 +133,8 @@ export class CarvingEngine extends EventEmitter {
    * Start scanning the device for recoverable files.
    *
    * @param config - Scan configuration specifying the byte range and categories.
+   * @throws If the scan cannot continue; read errors in a chunk or while
+   *   extracting a file are reported through 'error' events instead.
    */
   async scan(config: CarvingScanConfig): Promise<void> {
     if (this.status === 'scanning') {
@@ -116,6 +148,9 @@ export class CarvingEngine extends EventEmitter {
       ? this.getSignaturesForTypes(config.fileTypes)
       : this.getSignaturesForCategories(config.categories)
     this.buildScanner(signatures)
+    const signatureByType = getLargestSignatureByType(signatures)
+    const bitmap = config.allocationBitmap ?? null
+    const filesystemOffset = config.filesystemOffset ?? config.startOffset
 
     const readable = createReadableDevice(this.blockReader)
     const totalBytes = config.endOffset - config.startOffset
@@ -129,6 +164,9 @@ export class CarvingEngine extends EventEmitter {
     // from the chunk overlap region.
     const foundOffsets = new Set<string>()
 
+    // End of the last file carved with an exact size.
+    let carvedUntil = 0n
+
     let currentOffset = config.startOffset
 
     try {
@@ -142,13 +180,23 @@ export class CarvingEngine extends EventEmitter {
           if (this.status === 'cancelled') break
         }
 
-        // ── Read a chunk ──
-        const remaining = Number(config.endOffset - currentOffset)
-        const readSize = Math.min(CHUNK_SIZE, remaining)
+        // The last chunk runs CHUNK_OVERLAP past endOffset, for headers straddling it.
+        const remaining = config.endOffset + BigInt(CHUNK_OVERLAP) - currentOffset
+        const readSize = remaining < BigInt(CHUNK_SIZE) ? Number(remaining) : CHUNK_SIZE
+        const advance = readSize > CHUNK_OVERLAP ? readSize - CHUNK_OVERLAP : readSize
 
+        // ── Skip chunks holding only live files ──
+        if (bitmap && bitmap.isChunkFullyAllocated(currentOffset - filesystemOffset, readSize)) {
+          currentOffset += BigInt(advance)
+          bytesScanned += BigInt(advance)
+          this.emitProgress(bytesScanned, totalBytes, filesFound, currentOffset, sectorsWithErrors, startTime)
+          continue
+        }
+
+        // ── Read a chunk ──
         let chunk: Buffer
         try {
-          const result = await this.blockReader.readAt(currentOffset, readSize)
+          const result = await this.blockReader.tryRead(currentOffset, readSize)
           chunk = result.buffer
           if (result.bytesRead === 0) {
             // End of device reached.
@@ -160,18 +208,19 @@ export class CarvingEngine extends EventEmitter {
             const result = await this.blockReader.readChunked(currentOffset, readSize)
             chunk = result.buffer
             sectorsWithErrors += result.failedSectors.length
+            if (result.failedSectors.length > 0) this.emit('bad-sectors', result.failedSectors)
           } catch (fatalErr) {
             const errMsg = fatalErr instanceof Error ? fatalErr.message : String(fatalErr)
             this.emit('error', { offset: currentOffset, error: errMsg })
             // Skip this chunk and continue.
-            currentOffset += BigInt(readSize - CHUNK_OVERLAP)
-            bytesScanned += BigInt(readSize - CHUNK_OVERLAP)
+            currentOffset += BigInt(advance)
+            bytesScanned += BigInt(advance)
             continue
           }
         }
 
         // ── Scan the chunk for signatures ──
-        const matches = this.scanner.scan(chunk, currentOffset)
+        const matches = this.scanner.scan(chunk, currentOffset, MAX_MATCHES_PER_CHUNK)
 
         // ── Process matches ──
         for (const match of matches) {
@@ -182,15 +231,19 @@ export class CarvingEngine extends EventEmitter {
           if (foundOffsets.has(offsetKey)) continue
           foundOffsets.add(offsetKey)
 
-          // Skip matches outside our scan range.
+          // Skip matches outside our scan range, inside the last carved
+          // file or in allocated blocks.
           if (match.offset < config.startOffset || match.offset >= config.endOffset) {
             continue
           }
+          if (match.offset < carvedUntil) continue
+          if (bitmap && bitmap.isByteAllocated(match.offset - filesystemOffset)) continue
 
           try {
-            const file = await this.processMatch(match, readable, signatures)
+            const file = await this.processMatch(match, readable, signatureByType)
             if (file) {
               filesFound++
+              if (!file.sizeEstimated) carvedUntil = file.offset + file.size
               this.emit('file-found', file)
             }
           } catch (err) {
@@ -201,40 +254,15 @@ export class CarvingEngine extends EventEmitter {
 
         // ── Advance to next chunk ──
         // Overlap the last CHUNK_OVERLAP bytes to catch headers that span boundaries.
-        const advance = readSize > CHUNK_OVERLAP ? readSize - CHUNK_OVERLAP : readSize
         currentOffset += BigInt(advance)
         bytesScanned += BigInt(advance)
 
-        // ── Emit progress ──
-        const percentage =
-          totalBytes > 0n
-            ? Math.min(100, Number((bytesScanned * 100n) / totalBytes))
-            : 100
-
-        const elapsedMs = Date.now() - startTime
-        const bytesPerMs = elapsedMs > 0 ? Number(bytesScanned) / elapsedMs : 0
-        const remainingBytes = Number(totalBytes - bytesScanned)
-        const estimatedTimeRemaining =
-          bytesPerMs > 0 ? Math.round(remainingBytes / bytesPerMs) : undefined
-
-        const progress: ScanProgress = {
-          bytesScanned,
-          totalBytes,
-          percentage,
-          filesFound,
-          currentSector: currentOffset / 512n,
-          estimatedTimeRemaining,
-          sectorsWithErrors
-        }
-
-        this.emit('progress', progress)
+        this.emitProgress(bytesScanned, totalBytes, filesFound, currentOffset, sectorsWithErrors, startTime)
       }
-    } catch (err) {
-      const errMsg = err instanceof Error ? err.message : String(err)
-      this.emit('error', { offset: currentOffset, error: `Fatal scan error: ${errMsg}` })
+    } finally {
+      this.status = 'idle'
     }
 
-    this.status = 'idle'
     this.emit('complete', { filesFound })
   }
 
@@ -290,6 +318,41 @@ export class CarvingEngine extends EventEmitter {
 
   // ── Private ─────────────────────────────────────────────
 
+  /**
+   * Emit a 'progress' event for the current scan position.
+   */
+  private emitProgress(
+    bytesScanned: bigint,
+    totalBytes: bigint,
+    filesFound: number,
+    currentOffset: bigint,
+    sectorsWithErrors: number,
+    startTime: number
+  ): void {
+    const percentage =
+      totalBytes > 0n
+        ? Math.min(100, Number((bytesScanned * 100n) / totalBytes))
+        : 100
+
+    const elapsedSec = (Date.now() - startTime) / 1000
+    const bytesPerSec = elapsedSec > 0 ? Number(bytesScanned) / elapsedSec : 0
+    const remainingBytes = Number(totalBytes - bytesScanned)
+    const estimatedTimeRemaining =
+      bytesPerSec > 0 ? Math.round(remainingBytes / bytesPerSec) : undefined
+
+    const progress: ScanProgress = {
+      bytesScanned,
+      totalBytes,
+      percentage,
+      filesFound,
+      currentSector: currentOffset / 512n,
+      estimatedTimeRemaining,
+      sectorsWithErrors
+    }
+
+    this.emit('progress', progress)
+  }
+
   /**
    * Wait until the engine is resumed or cancelled.
    */
@@ -347,14 +410,16 @@ export class CarvingEngine extends EventEmitter {
   /**
    * Process a single signature match: invoke the extractor and build a
    * RecoverableFile record if the extraction succeeds.
+   *
+   * @param signatureByType - Signature of each type scanned for.
    */
   private async processMatch(
     match: SignatureMatch,
     reader: ReadableDevice,
-    signatures: FileSignature[]
+    signatureByType: Map<FileType, FileSignature>
   ): Promise<RecoverableFile | null> {
-    const fileType = match.type as FileType
-    const signature = SIGNATURE_MAP.get(fileType)
+    let fileType = match.type as FileType
+    let signature = signatureByType.get(fileType)
 
     if (!signature) {
       return null
@@ -368,6 +433,14 @@ export class CarvingEngine extends EventEmitter {
     // Run the extractor.
     const result = await extractor.extract(reader, match.offset)
 
+    // Types sharing a header are scanned for under one label; the extractor
+    // may tell them apart. Files of a type not scanned for are dropped.
+    if (result.detectedType && result.detectedType !== fileType) {
+      fileType = result.detectedType
+      signature = signatureByType.get(fileType)
+      if (!signature) return null
+    }
+
     // Validate the extracted size against signature constraints.
     if (result.size < signature.minSize) {
       return null // Too small - likely a false positive.
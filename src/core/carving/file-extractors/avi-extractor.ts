@@ -12,14 +12,23 @@
  * Note: For files > 4 GB, AVI uses an extension called AVIX / OpenDML
  * which adds RIFF-AVIX chunks. We handle this by also scanning for
  * subsequent RIFF-AVIX chunks after the initial RIFF-AVI chunk.
+ *
+ * WAV and WebP files share the "RIFF" header; they are sized from the same
+ * field and reported as their own type.
  */
 
-import type { FileMetadata } from '../../../shared/types'
+import type { FileMetadata, FileType } from '../../../shared/types'
 import type { ReadableDevice, FileExtractor, ExtractionResult } from './base-extractor'
 
 /** Maximum AVI file size to consider (10 GB). */
 const MAX_SCAN_SIZE = 10n * 1024n * 1024n * 1024n
 
+/** Other RIFF form types, by the file type they identify. */
+const OTHER_RIFF_FORMS: Record<string, FileType> = {
+  WAVE: 'wav',
+  WEBP: 'webp'
+}
+
 export class AviExtractor implements FileExtractor {
   readonly name = 'AVI Extractor'
   readonly supportedTypes = ['avi'] as const
@@ -57,6 +66,14 @@ export class AviExtractor implements FileExtractor {
 
     // Validate AVI form type.
     const formType = header.subarray(8, 12).toString('ascii')
+    const otherType = OTHER_RIFF_FORMS[formType]
+    if (otherType && riffDataSize > 4 && riffDataSize !== 0xffffffff) {
+      return {
+        size: BigInt(riffDataSize) + 8n,
+        estimated: false,
+        detectedType: otherType
+      }
+    }
     if (formType !== 'AVI ' && formType !== 'AVIX') {
       throw new Error('Not an AVI file (form type: ' + formType + ')')
     }
@@ -7,7 +7,7 @@
  * a best-effort size estimate.
  */
 
-import type { FileMetadata } from '../../../shared/types'
+import type { FileMetadata, FileType } from '../../../shared/types'
 
 /**
  * Simplified reader interface used by file extractors.
@@ -31,6 +31,11 @@ export interface ExtractionResult {
   estimated: boolean
   /** Optional metadata extracted from the file structure. */
   metadata?: FileMetadata
+  /**
+   * The file's actual type, when its content shows it is another type
+   * sharing the same header (a DOCX found by the XLSX signature, say).
+   */
+  detectedType?: FileType
 }
 
 /** Interface that all file extractors must implement. */
@@ -3,6 +3,8 @@
  *
  * Each extractor knows how to parse a specific file format and determine
  * the file's boundaries (size) given a starting offset on a raw device.
+ * Types without a format-specific extractor are sized from their signature
+ * by the {@link SignatureExtractor}.
  */
 
 export type { ReadableDevice, ExtractionResult, FileExtractor } from './base-extractor'
@@ -15,9 +17,11 @@ export { AviExtractor } from './avi-extractor'
 export { HeicExtractor } from './heic-extractor'
 export { RawExtractor } from './raw-extractor'
 export { ZipExtractor } from './zip-extractor'
+export { SignatureExtractor } from './signature-extractor'
 
 import type { FileExtractor } from './base-extractor'
 import type { FileType } from '../../../shared/types'
+import { getLargestSignatureByType } from '../../../shared/constants/file-signatures'
 
 import { JpegExtractor } from './jpeg-extractor'
 import { PngExtractor } from './png-extractor'
@@ -27,9 +31,11 @@ import { AviExtractor } from './avi-extractor'
 import { HeicExtractor } from './heic-extractor'
 import { RawExtractor } from './raw-extractor'
 import { ZipExtractor } from './zip-extractor'
+import { SignatureExtractor } from './signature-extractor'
 
 /**
- * Create the default set of file extractors, one per supported file format.
+ * Create the default set of file extractors, one per supported file format,
+ * plus a signature-based extractor for every other signature type.
  *
  * @returns A map from FileType to the extractor instance that handles it.
  */
@@ -53,5 +59,11 @@ export function createExtractorMap(): Map<FileType, FileExtractor> {
     }
   }
 
+  for (const [type, signature] of getLargestSignatureByType()) {
+    if (!map.has(type)) {
+      map.set(type, new SignatureExtractor(signature))
+    }
+  }
+
   return map
 }
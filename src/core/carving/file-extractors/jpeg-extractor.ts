@@ -194,6 +194,8 @@ export class JpegExtractor implements FileExtractor {
         }
       }
 
+      if (pos + chunk.length >= maxPos) break;
+
       // Advance, but keep the last byte in case FFD9 spans chunks.
       pos += chunk.length - 1;
     }
@@ -7,7 +7,8 @@
  *
  * Strategy:
  *   1. Validate the %PDF- header.
- *   2. Scan forward for %%EOF markers, recording the position of each.
+ *   2. Scan forward for %%EOF markers, recording the position of each, up
+ *      to the next %PDF- header (the start of another file).
  *   3. Use the last %%EOF found plus any trailing whitespace/newlines.
  *   4. If no %%EOF is found, estimate based on maximum scan size.
  */
@@ -26,6 +27,9 @@ const EOF_MARKER = Buffer.from('%%EOF', 'ascii')
 /** %PDF header. */
 const PDF_HEADER = Buffer.from('%PDF', 'ascii')
 
+/** Header of a following PDF, which ends the scan. */
+const NEXT_PDF_HEADER = Buffer.from('%PDF-', 'ascii')
+
 export class PdfExtractor implements FileExtractor {
   readonly name = 'PDF Extractor'
   readonly supportedTypes = ['pdf'] as const
@@ -63,11 +67,13 @@ export class PdfExtractor implements FileExtractor {
       const chunk = await reader.read(offset + BigInt(pos), readSize)
       if (chunk.length === 0) break
 
-      // Search for all %%EOF occurrences in this chunk.
+      // Search for all %%EOF occurrences in this chunk, up to the next PDF.
+      const nextHeader = chunk.indexOf(NEXT_PDF_HEADER, pos === 0 ? 1 : 0)
+      const searchEnd = nextHeader === -1 ? chunk.length : nextHeader
       let searchStart = 0
-      while (searchStart < chunk.length) {
+      while (searchStart < searchEnd) {
         const idx = chunk.indexOf(EOF_MARKER, searchStart)
-        if (idx === -1) break
+        if (idx === -1 || idx >= searchEnd) break
 
         // %%EOF is 5 bytes. The file may have trailing newlines/whitespace.
         let endPos = pos + idx + EOF_MARKER.length
@@ -97,6 +103,8 @@ export class PdfExtractor implements FileExtractor {
         searchStart = idx + EOF_MARKER.length
       }
 
+      if (nextHeader !== -1 || pos + chunk.length >= maxPos) break
+
       // Advance with overlap to handle %%EOF spanning chunk boundaries.
       pos += chunk.length - (EOF_MARKER.length - 1)
     }
@@ -151,6 +151,8 @@ export class PngExtractor implements FileExtractor {
         }
       }
 
+      if (pos + chunk.length >= maxPos) break
+
       // Keep overlap to handle footer spanning chunks.
       pos += chunk.length - (footer.length - 1)
     }
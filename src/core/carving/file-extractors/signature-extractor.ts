@@ -0,0 +1,175 @@
+/**
+ * Signature-based File Extractor
+ *
+ * Fallback for file types without a format-specific extractor. The size is
+ * taken from whatever the container or signature offers:
+ *   - RIFF (AVI, WAV, WebP): LE32 payload size at offset 4
+ *   - ISO BMFF (MP4, MOV, HEIC, M4A): sum of the top-level boxes
+ *   - 7z: NextHeaderOffset + NextHeaderSize from the Start Header
+ *   - XZ: the stream footer magic "YZ"
+ *   - Footer-based formats (GIF, ...): the signature's footer bytes
+ *
+ * When none of these applies, the signature's maximum size is returned as
+ * an estimate.
+ */
+
+import type { ReadableDevice, FileExtractor, ExtractionResult } from './base-extractor'
+import type { FileSignature } from '../../../shared/constants/file-signatures'
+
+/** Max forward scan for footer search (100 MB). */
+const MAX_FOOTER_SCAN = 100 * 1024 * 1024
+
+/** Read chunk size for footer scanning (256 KB). */
+const FOOTER_SCAN_CHUNK = 256 * 1024
+
+/** File types using ISO BMFF box structure (ftyp-based containers). */
+const ISO_BMFF_TYPES = new Set(['mp4', 'mov', 'heic', 'm4a'])
+
+/** File types using RIFF container with size at offset 4. */
+const RIFF_TYPES = new Set(['avi', 'wav', 'webp'])
+
+/** XZ stream footer magic (last 2 bytes of every XZ stream). */
+const XZ_FOOTER_MAGIC = Buffer.from([0x59, 0x5a])
+
+/** 7z Start Header is 32 bytes; NextHeaderOffset at 12, NextHeaderSize at 20. */
+const SEVENZ_HEADER_SIZE = 32
+
+/** Sanity limit for a 7z size read from its header (100 GB). */
+const SEVENZ_MAX_SIZE = 100n * 1024n * 1024n * 1024n
+
+export class SignatureExtractor implements FileExtractor {
+  readonly name: string
+  readonly supportedTypes: readonly string[]
+  private readonly signature: FileSignature
+
+  /**
+   * @param signature - Signature of the type handled; for types with several
+   *   signatures, the one with the largest maximum size.
+   */
+  constructor(signature: FileSignature) {
+    this.signature = signature
+    this.name = `${signature.displayName} (signature)`
+    this.supportedTypes = [signature.type]
+  }
+
+  async extract(reader: ReadableDevice, offset: bigint): Promise<ExtractionResult> {
+    const sig = this.signature
+
+    try {
+      let size: bigint | null = null
+
+      if (RIFF_TYPES.has(sig.type)) {
+        size = await this.riffSize(reader, offset)
+      } else if (ISO_BMFF_TYPES.has(sig.type)) {
+        size = await this.isoBmffSize(reader, offset)
+      } else if (sig.type === '7z') {
+        size = await this.sevenZipSize(reader, offset)
+      } else if (sig.type === 'xz') {
+        size = await this.searchFooter(reader, offset, XZ_FOOTER_MAGIC)
+      }
+
+      if (size === null && sig.footer) {
+        size = await this.searchFooter(reader, offset, sig.footer)
+      }
+
+      if (size !== null && size >= sig.minSize) {
+        return { size, estimated: false }
+      }
+    } catch {
+      // Fall through to the estimate
+    }
+
+    return { size: sig.maxSize, estimated: true }
+  }
+
+  // ── Private ─────────────────────────────────────────────
+
+  /**
+   * Search forward from the file start for a footer byte sequence.
+   *
+   * @returns The file size up to the end of the footer, or null if it is
+   *   not found within the scan limit.
+   */
+  private async searchFooter(reader: ReadableDevice, fileStart: bigint, footer: Buffer): Promise<bigint | null> {
+    const maxSize = this.signature.maxSize < BigInt(MAX_FOOTER_SCAN) ? this.signature.maxSize : BigInt(MAX_FOOTER_SCAN)
+    const limit = fileStart + maxSize < reader.size ? fileStart + maxSize : reader.size
+
+    // Skip the header itself so a footer equal to the magic is not matched at 0
+    let offset = fileStart + 1n
+    while (offset < limit) {
+      const readLen = Math.min(FOOTER_SCAN_CHUNK + footer.length - 1, Number(limit - offset))
+      if (readLen < footer.length) break
+
+      const chunk = await reader.read(offset, readLen)
+      if (chunk.length < footer.length) break
+
+      const idx = chunk.indexOf(footer)
+      if (idx !== -1) {
+        return offset + BigInt(idx + footer.length) - fileStart
+      }
+      offset += BigInt(FOOTER_SCAN_CHUNK)
+    }
+
+    return null
+  }
+
+  /**
+   * RIFF layout: bytes 0-3 = "RIFF", bytes 4-7 = LE32 payload size, so the
+   * total file size is the payload size + 8. A zero payload (streaming) or
+   * 0xFFFFFFFF (RF64) gives no size.
+   */
+  private async riffSize(reader: ReadableDevice, fileStart: bigint): Promise<bigint | null> {
+    const buf = await reader.read(fileStart, 12)
+    if (buf.length < 8 || buf.readUInt32BE(0) !== 0x52494646) return null // "RIFF"
+
+    const payloadSize = buf.readUInt32LE(4)
+    if (payloadSize === 0 || payloadSize === 0xffffffff) return null
+
+    return BigInt(payloadSize) + 8n
+  }
+
+  /**
+   * Walk the top-level boxes. Box structure: 4 bytes BE size + 4 bytes type;
+   * a size of 1 means a 64-bit size follows.
+   */
+  private async isoBmffSize(reader: ReadableDevice, fileStart: bigint): Promise<bigint | null> {
+    let pos = fileStart
+    const maxScan = fileStart + BigInt(MAX_FOOTER_SCAN)
+
+    while (pos < maxScan) {
+      const header = await reader.read(pos, 16)
+      if (header.length < 8) break
+
+      let boxSize = BigInt(header.readUInt32BE(0))
+      const boxType = header.subarray(4, 8).toString('ascii')
+      if (!/^[a-zA-Z0-9 ]{4}$/.test(boxType)) break
+
+      if (boxSize === 1n) {
+        if (header.length < 16) break
+        boxSize = header.readBigUInt64BE(8)
+        if (boxSize < 16n) break
+      } else if (boxSize < 8n) {
+        // 0 = box extends to the end of the file, which is unknown here
+        break
+      }
+
+      pos += boxSize
+    }
+
+    const totalSize = pos - fileStart
+    return totalSize > 0n ? totalSize : null
+  }
+
+  /** Total = 32 + NextHeaderOffset + NextHeaderSize. */
+  private async sevenZipSize(reader: ReadableDevice, fileStart: bigint): Promise<bigint | null> {
+    const buf = await reader.read(fileStart, SEVENZ_HEADER_SIZE)
+    if (buf.length < SEVENZ_HEADER_SIZE) return null
+
+    const nextHeaderOffset = buf.readBigUInt64LE(12)
+    const nextHeaderSize = buf.readBigUInt64LE(20)
+    if (nextHeaderOffset === 0n && nextHeaderSize === 0n) return null
+
+    const total = BigInt(SEVENZ_HEADER_SIZE) + nextHeaderOffset + nextHeaderSize
+    return total > SEVENZ_MAX_SIZE ? null : total
+  }
+}
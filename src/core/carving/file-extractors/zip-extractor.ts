@@ -1,13 +1,15 @@
 /**
- * ZIP-based File Extractor (DOCX / XLSX)
+ * ZIP-based File Extractor (ZIP / DOCX / XLSX / PPTX)
  *
- * DOCX and XLSX files are ZIP archives with specific internal directory structures:
+ * DOCX, XLSX and PPTX files are ZIP archives with specific internal directory structures:
  *   - DOCX contains a "word/" directory (word/document.xml)
  *   - XLSX contains an "xl/" directory (xl/workbook.xml)
+ *   - PPTX contains a "ppt/" directory (ppt/presentation.xml)
+ * Any other archive is a plain ZIP.
  *
  * Strategy:
  *   1. Validate the PK (0x50 0x4B 0x03 0x04) local file header.
- *   2. Scan local file entries to identify docx vs xlsx content.
+ *   2. Scan local file entries to identify docx / xlsx / pptx / zip content.
  *   3. Search for the End of Central Directory record (EOCD) to get exact size.
  *   4. The EOCD signature is 0x50 0x4B 0x05 0x06.
  *   5. Total file size = EOCD offset + 22 + comment length.
@@ -34,21 +36,19 @@ const EOCD_SIGNATURE = Buffer.from([0x50, 0x4b, 0x05, 0x06])
 const ZIP64_EOCD_LOCATOR = Buffer.from([0x50, 0x4b, 0x06, 0x07])
 
 /** Patterns that identify DOCX content. */
-const DOCX_INDICATORS = ['word/', 'word\\', '[Content_Types].xml']
+const DOCX_INDICATORS = ['word/', 'word\\']
 
 /** Patterns that identify XLSX content. */
-const XLSX_INDICATORS = ['xl/', 'xl\\', '[Content_Types].xml']
+const XLSX_INDICATORS = ['xl/', 'xl\\']
 
-export interface ZipExtractionResult extends ExtractionResult {
-  /** Detected type based on zip contents. */
-  detectedType?: FileType
-}
+/** Patterns that identify PPTX content. */
+const PPTX_INDICATORS = ['ppt/', 'ppt\\']
 
 export class ZipExtractor implements FileExtractor {
-  readonly name = 'ZIP Extractor (DOCX/XLSX)'
-  readonly supportedTypes = ['docx', 'xlsx'] as const
+  readonly name = 'ZIP Extractor (ZIP/DOCX/XLSX/PPTX)'
+  readonly supportedTypes = ['zip', 'docx', 'xlsx', 'pptx'] as const
 
-  async extract(reader: ReadableDevice, offset: bigint): Promise<ZipExtractionResult> {
+  async extract(reader: ReadableDevice, offset: bigint): Promise<ExtractionResult> {
     try {
       return await this.extractViaZipParsing(reader, offset)
     } catch {
@@ -67,7 +67,7 @@ export class ZipExtractor implements FileExtractor {
   private async extractViaZipParsing(
     reader: ReadableDevice,
     offset: bigint
-  ): Promise<ZipExtractionResult> {
+  ): Promise<ExtractionResult> {
     // Validate PK header.
     const header = await reader.read(offset, Math.min(30, Number(reader.size - offset)))
     if (header.length < 30 || !header.subarray(0, 4).equals(PK_LOCAL_HEADER)) {
@@ -77,6 +77,7 @@ export class ZipExtractor implements FileExtractor {
     let detectedType: FileType | undefined
     let hasWord = false
     let hasXl = false
+    let hasPpt = false
     let pos = 0
     const maxPos = Math.min(MAX_SCAN_SIZE, Number(reader.size - offset))
 
@@ -110,6 +111,9 @@ export class ZipExtractor implements FileExtractor {
         if (!hasXl && XLSX_INDICATORS.some(ind => fileName.startsWith(ind))) {
           hasXl = true
         }
+        if (!hasPpt && PPTX_INDICATORS.some(ind => fileName.startsWith(ind))) {
+          hasPpt = true
+        }
       }
 
       // Advance past this local file entry.
@@ -135,6 +139,10 @@ export class ZipExtractor implements FileExtractor {
       detectedType = 'docx'
     } else if (hasXl) {
       detectedType = 'xlsx'
+    } else if (hasPpt) {
+      detectedType = 'pptx'
+    } else if (entryCount > 0) {
+      detectedType = 'zip'
     }
 
     // Now scan for EOCD from the current position.
@@ -162,7 +170,7 @@ export class ZipExtractor implements FileExtractor {
   private async extractViaEocdScan(
     reader: ReadableDevice,
     offset: bigint
-  ): Promise<ZipExtractionResult> {
+  ): Promise<ExtractionResult> {
     const maxPos = Math.min(MAX_SCAN_SIZE, Number(reader.size - offset))
 
     // Also try to detect type from early file entries.
@@ -172,6 +180,7 @@ export class ZipExtractor implements FileExtractor {
       const earlyStr = earlyData.toString('utf8', 0, Math.min(earlyData.length, 4096))
       if (earlyStr.includes('word/')) detectedType = 'docx'
       else if (earlyStr.includes('xl/')) detectedType = 'xlsx'
+      else if (earlyStr.includes('ppt/')) detectedType = 'pptx'
     } catch {
       // Non-critical.
     }
@@ -196,7 +205,11 @@ export class ZipExtractor implements FileExtractor {
   /**
    * Find the End of Central Directory record.
    * The EOCD is at least 22 bytes, with an optional comment of up to 65535 bytes.
-   * We scan backward from the end of the search range.
+   * We scan forward for the first EOCD whose central directory ends right
+   * where the record starts, which skips the EOCDs of ZIPs stored inside
+   * this one and stops before any ZIP following it on the device.
+   *
+   * @returns The file size up to the end of the EOCD's comment.
    */
   private async findEocd(
     reader: ReadableDevice,
@@ -204,11 +217,6 @@ export class ZipExtractor implements FileExtractor {
     searchStart: number,
     maxPos: number
   ): Promise<number | null> {
-    // EOCD must be in the last 65557 bytes (22 + 65535 comment).
-    // But we scan forward through chunks for simplicity, recording the last hit.
-    let lastEocdEnd: number | null = null
-
-    // Scan in chunks from searchStart to maxPos.
     let pos = searchStart
 
     while (pos < maxPos) {
@@ -223,37 +231,40 @@ export class ZipExtractor implements FileExtractor {
         const idx = chunk.indexOf(EOCD_SIGNATURE, searchIdx)
         if (idx === -1) break
 
-        // Validate the EOCD record.
         const eocdOffset = pos + idx
-        if (idx + 22 <= chunk.length) {
-          const commentLength = chunk.readUInt16LE(idx + 20)
-          const totalSize = eocdOffset + 22 + commentLength
-          if (totalSize <= maxPos + 65535) {
-            lastEocdEnd = totalSize
-          }
-        } else {
-          // EOCD spans chunk boundary - read more.
-          try {
-            const eocdBuf = await reader.read(fileOffset + BigInt(eocdOffset), 22)
-            if (eocdBuf.length >= 22) {
-              const commentLength = eocdBuf.readUInt16LE(20)
-              const totalSize = eocdOffset + 22 + commentLength
-              if (totalSize <= maxPos + 65535) {
-                lastEocdEnd = totalSize
-              }
-            }
-          } catch {
-            // Non-critical.
+        try {
+          // The record may span the chunk boundary.
+          const eocd = idx + 22 <= chunk.length
+            ? chunk.subarray(idx, idx + 22)
+            : await reader.read(fileOffset + BigInt(eocdOffset), 22)
+          if (eocd.length >= 22 && this.isEocdOf(eocd, eocdOffset)) {
+            return eocdOffset + 22 + eocd.readUInt16LE(20)
           }
+        } catch {
+          // Non-critical.
         }
 
         searchIdx = idx + 1
       }
 
+      if (pos + chunk.length >= maxPos) break
+
       // Advance with overlap.
       pos += chunk.length - 3
     }
 
-    return lastEocdEnd
+    return null
+  }
+
+  /**
+   * Whether an EOCD record at `eocdOffset` (relative to the file start)
+   * belongs to the file: its central directory must end at the record.
+   * ZIP64 archives keep the real values elsewhere and are accepted.
+   */
+  private isEocdOf(eocd: Buffer, eocdOffset: number): boolean {
+    const cdSize = eocd.readUInt32LE(12)
+    const cdOffset = eocd.readUInt32LE(16)
+    if (cdSize === 0xffffffff || cdOffset === 0xffffffff) return true
+    return cdOffset + cdSize === eocdOffset
   }
 }
@@ -0,0 +1,227 @@
+/**
+ * Encrypted Volumes - Unlocking and the registry of unlocked volumes.
+ *
+ * An unlocked volume is addressed by a virtual source path of the form
+ * `luks:<source path>@<byte offset>`, where the source is the device or
+ * image holding the encrypted volume. `openSourceReader` recognises the
+ * prefix and returns a decrypting reader, so scans, previews and recovery
+ * treat the volume like any other source.
+ *
+ * Master keys live only in the memory of the processes that need them.
+ * The main process registers a volume when it is unlocked and hands the
+ * key to each scan worker through its workerData; nothing is written to
+ * disk, and the passphrase itself is discarded once the key is recovered.
+ */
+
+import { SliceReader } from '../io/slice-reader'
+import type { OpenSourceOptions, SourceReader } from '../io/images'
+import { readLuksHeader, unlockLuks, type LuksSegment } from './luks'
+import { LuksReader } from './luks-reader'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** A LUKS volume whose master key has been recovered. */
+export interface UnlockedVolume {
+  /** Virtual source path of the decrypted volume */
+  path: string
+  /** Device or image holding the encrypted volume */
+  sourcePath: string
+  /** Byte offset of the LUKS header inside the source */
+  offset: bigint
+  /** Byte length of the encrypted volume, header included */
+  size: bigint
+  /** LUKS format version, for display */
+  version: 1 | 2
+  /** Volume UUID from the header */
+  uuid: string
+  /** LUKS2 label, if set */
+  label?: string
+  segment: LuksSegment
+  masterKey: Buffer
+}
+
+/** An {@link UnlockedVolume} in a form that can cross a worker boundary. */
+export interface SerializedUnlockedVolume {
+  path: string
+  sourcePath: string
+  offset: string
+  size: string
+  version: 1 | 2
+  uuid: string
+  label?: string
+  segment: {
+    offset: string
+    size: string | null
+    encryption: string
+    sectorSize: number
+    ivTweak: string
+  }
+  masterKey: string
+}
+
+/** Opens the source holding an encrypted volume. */
+export type OpenParentSource = (sourcePath: string, options: OpenSourceOptions) => Promise<SourceReader>
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const VIRTUAL_PATH_PREFIX = 'luks:'
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const unlockedVolumes = new Map<string, UnlockedVolume>()
+
+/** Whether a path is the virtual path of a decrypted volume. */
+export function isEncryptedVolumePath(sourcePath: string): boolean {
+  return sourcePath.startsWith(VIRTUAL_PATH_PREFIX)
+}
+
+/** Virtual path of the volume whose LUKS header sits at `offset` in `sourcePath`. */
+export function encryptedVolumePath(sourcePath: string, offset: bigint): string {
+  return `${VIRTUAL_PATH_PREFIX}${sourcePath}@${offset}`
+}
+
+/**
+ * The device or image a path ultimately reads from: the source of a
+ * decrypted volume, or the path itself for anything else.
+ */
+export function sourcePathOf(sourcePath: string): string {
+  if (!isEncryptedVolumePath(sourcePath)) return sourcePath
+  const registered = unlockedVolumes.get(sourcePath)
+  if (registered) return registered.sourcePath
+  const inner = sourcePath.slice(VIRTUAL_PATH_PREFIX.length)
+  const at = inner.lastIndexOf('@')
+  return at >= 0 ? inner.slice(0, at) : inner
+}
+
+export function registerUnlockedVolume(volume: UnlockedVolume): void {
+  unlockedVolumes.set(volume.path, volume)
+}
+
+export function getUnlockedVolume(path: string): UnlockedVolume | undefined {
+  return unlockedVolumes.get(path)
+}
+
+/** Forget a volume and wipe its master key from memory. */
+export function forgetUnlockedVolume(path: string): void {
+  const volume = unlockedVolumes.get(path)
+  if (!volume) return
+  volume.masterKey.fill(0)
+  unlockedVolumes.delete(path)
+}
+
+// ─── Unlocking ──────────────────────────────────────────────────
+
+/**
+ * Recover the master key of a LUKS volume from a passphrase.
+ *
+ * @param sourcePath - Device or image holding the volume.
+ * @param offset - Byte offset of the LUKS header inside the source.
+ * @param size - Byte length of the volume.
+ * @returns The unlocked volume (not yet registered), or null if the
+ *   passphrase opens no keyslot.
+ * @throws If the source holds no LUKS header or uses an unsupported cipher.
+ */
+export async function unlockVolume(
+  sourcePath: string,
+  offset: bigint,
+  size: bigint,
+  passphrase: string,
+  openParent: OpenParentSource
+): Promise<UnlockedVolume | null> {
+  const parent = await openParent(sourcePath, { sizeHint: offset + size })
+  try {
+    const volume = new SliceReader(parent, offset, size)
+    const header = await readLuksHeader(volume)
+    if (!header) throw new Error(`No LUKS header found on ${sourcePath}`)
+
+    const masterKey = await unlockLuks(volume, header, passphrase)
+    if (!masterKey) return null
+
+    return {
+      path: encryptedVolumePath(sourcePath, offset),
+      sourcePath,
+      offset,
+      size: volume.size,
+      version: header.version,
+      uuid: header.uuid,
+      label: header.label,
+      segment: header.segment,
+      masterKey,
+    }
+  } finally {
+    await parent.close()
+  }
+}
+
+/**
+ * Open the decrypted view of a registered volume.
+ *
+ * @throws If the volume has not been unlocked in this process.
+ */
+export async function openUnlockedVolume(
+  path: string,
+  openParent: OpenParentSource
+): Promise<SourceReader> {
+  const volume = unlockedVolumes.get(path)
+  if (!volume) throw new Error(`Encrypted volume ${sourcePathOf(path)} is locked`)
+
+  const parent = await openParent(volume.sourcePath, { sizeHint: volume.offset + volume.size })
+  return new LuksReader(path, parent, volume.offset, volume.size, volume.segment, volume.masterKey)
+}
+
+// ─── Serialization ──────────────────────────────────────────────
+
+/**
+ * The workerData entry a worker reading `path` needs to register the
+ * volume itself, or undefined when the path is not a decrypted volume.
+ */
+export function unlockedVolumeForWorker(path: string): SerializedUnlockedVolume | undefined {
+  const volume = unlockedVolumes.get(path)
+  return volume ? serializeUnlockedVolume(volume) : undefined
+}
+
+export function serializeUnlockedVolume(volume: UnlockedVolume): SerializedUnlockedVolume {
+  return {
+    path: volume.path,
+    sourcePath: volume.sourcePath,
+    offset: volume.offset.toString(),
+    size: volume.size.toString(),
+    version: volume.version,
+    uuid: volume.uuid,
+    label: volume.label,
+    segment: {
+      offset: volume.segment.offset.toString(),
+      size: volume.segment.size?.toString() ?? null,
+      encryption: volume.segment.encryption,
+      sectorSize: volume.segment.sectorSize,
+      ivTweak: volume.segment.ivTweak.toString(),
+    },
+    masterKey: volume.masterKey.toString('hex'),
+  }
+}
+
+export function deserializeUnlockedVolume(data: SerializedUnlockedVolume): UnlockedVolume {
+  return {
+    path: data.path,
+    sourcePath: data.sourcePath,
+    offset: BigInt(data.offset),
+    size: BigInt(data.size),
+    version: data.version,
+    uuid: data.uuid,
+    label: data.label,
+    segment: {
+      offset: BigInt(data.segment.offset),
+      size: data.segment.size !== null ? BigInt(data.segment.size) : null,
+      encryption: data.segment.encryption,
+      sectorSize: data.segment.sectorSize,
+      ivTweak: BigInt(data.segment.ivTweak),
+    },
+    masterKey: Buffer.from(data.masterKey, 'hex'),
+  }
+}
+
+// ─── Re-exports ─────────────────────────────────────────────────
+
+export { readLuksHeader, unlockLuks } from './luks'
+export type { LuksHeader, LuksKeyslot, LuksKdf, LuksSegment } from './luks'
+export { LuksReader } from './luks-reader'
@@ -0,0 +1,80 @@
+/**
+ * LUKS Decrypting Reader
+ *
+ * Presents the data segment of an unlocked LUKS volume as a plain source.
+ * Reads are widened to whole encryption sectors, decrypted with the
+ * master key and trimmed back to the requested range, so the filesystem
+ * parsers and the carving engine see the volume as if it had never been
+ * encrypted.
+ */
+
+import type { SourceReader } from '../io/images'
+import { decryptSectors, type LuksSegment } from './luks'
+
+/** LUKS IVs count 512-byte sectors whatever the encryption sector size. */
+const IV_SECTOR_SIZE = 512n
+
+export class LuksReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  private parent: SourceReader
+  /** Absolute offset of the data segment inside the parent source. */
+  private dataStart: bigint
+  private segment: LuksSegment
+  private masterKey: Buffer
+
+  /**
+   * @param path - Path the decrypted volume is known by.
+   * @param parent - Source holding the encrypted volume. Closed with this reader.
+   * @param volumeOffset - Byte offset of the LUKS header inside the parent.
+   * @param volumeSize - Byte length of the LUKS volume, header included.
+   * @param segment - Data segment from the volume header.
+   * @param masterKey - Master key recovered when the volume was unlocked.
+   */
+  constructor(
+    path: string,
+    parent: SourceReader,
+    volumeOffset: bigint,
+    volumeSize: bigint,
+    segment: LuksSegment,
+    masterKey: Buffer
+  ) {
+    this.path = path
+    this.parent = parent
+    this.dataStart = volumeOffset + segment.offset
+    this.segment = segment
+    this.masterKey = masterKey
+
+    const sectorSize = BigInt(segment.sectorSize)
+    const available = volumeSize > segment.offset ? volumeSize - segment.offset : 0n
+    const size = segment.size !== null && segment.size < available ? segment.size : available
+    this.size = size - (size % sectorSize)
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (offset >= this.size || length <= 0) return Buffer.alloc(0)
+    const end = offset + BigInt(length) < this.size ? offset + BigInt(length) : this.size
+
+    const sectorSize = BigInt(this.segment.sectorSize)
+    const alignedStart = offset - (offset % sectorSize)
+    const alignedEnd = ((end + sectorSize - 1n) / sectorSize) * sectorSize
+
+    const data = await this.parent.read(this.dataStart + alignedStart, Number(alignedEnd - alignedStart))
+    const whole = data.subarray(0, data.length - (data.length % this.segment.sectorSize))
+
+    decryptSectors(
+      whole,
+      this.segment.encryption,
+      this.masterKey,
+      this.segment.sectorSize,
+      this.segment.ivTweak + alignedStart / IV_SECTOR_SIZE
+    )
+
+    const from = Number(offset - alignedStart)
+    return whole.subarray(Math.min(from, whole.length), Math.min(from + Number(end - offset), whole.length))
+  }
+
+  async close(): Promise<void> {
+    await this.parent.close()
+  }
+}
@@ -0,0 +1,170 @@
+import { createCipheriv, createHash, pbkdf2Sync } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { afMerge, decryptSectors, readLuksHeader, unlockLuks } from './luks'
+import { BufferReader } from '../io/buffer-reader'
+
+/** Bytes 0..255, twice: the plaintext of the IEEE 1619 XTS-AES vectors */
+function ieeePlaintext(): Buffer {
+  return Buffer.from(Array.from({ length: 512 }, (_, i) => i & 0xff))
+}
+
+/** AES-XTS with an explicit IV, to check the IVs decryptSectors builds */
+function encrypt(data: Buffer, key: Buffer, iv: Buffer): Buffer {
+  const cipher = createCipheriv(key.length === 32 ? 'aes-128-xts' : 'aes-256-xts', key, iv)
+  return Buffer.concat([cipher.update(data), cipher.final()])
+}
+
+function ivOf(sector: bigint): Buffer {
+  const iv = Buffer.alloc(16)
+  iv.writeBigUInt64LE(sector)
+  return iv
+}
+
+/** The AF diffusion, written out from the LUKS specification */
+function diffuse(data: Buffer, hash: string): Buffer {
+  const digestSize = createHash(hash).digest().length
+  const blocks: Buffer[] = []
+  for (let pos = 0, block = 0; pos < data.length; pos += digestSize, block++) {
+    const index = Buffer.alloc(4)
+    index.writeUInt32BE(block)
+    const chunk = data.subarray(pos, Math.min(pos + digestSize, data.length))
+    blocks.push(createHash(hash).update(index).update(chunk).digest().subarray(0, chunk.length))
+  }
+  return Buffer.concat(blocks)
+}
+
+/** AF-split a key into stripes whose merge gives the key back. */
+function afSplit(key: Buffer, stripes: number, hash: string): Buffer {
+  const material = Buffer.alloc(key.length * stripes)
+  let merged: Buffer = Buffer.alloc(key.length)
+  for (let i = 0; i < stripes - 1; i++) {
+    const stripe = material.subarray(i * key.length, (i + 1) * key.length)
+    for (let j = 0; j < stripe.length; j++) stripe[j] = (i * 31 + j * 7) & 0xff
+    merged = diffuse(Buffer.from(merged.map((byte, j) => byte ^ stripe[j])), hash)
+  }
+  material.set(merged.map((byte, j) => byte ^ key[j]), (stripes - 1) * key.length)
+  return material
+}
+
+describe('decryptSectors', () => {
+  // IEEE 1619-2007 XTS-AES-128 vector 4, data unit 0
+  const key = Buffer.from('2718281828459045235360287471352631415926535897932384626433832795', 'hex')
+
+  it('decrypts the IEEE 1619 XTS-AES-128 test vector', () => {
+    const ciphertext = encrypt(ieeePlaintext(), key, ivOf(0n))
+    expect(ciphertext.subarray(0, 32).toString('hex')).toBe(
+      '27a7479befa1d476489f308cd4cfa6e2a96e4bbe3208ff25287dd3819616e89c'
+    )
+    expect(ciphertext.subarray(480).toString('hex')).toBe(
+      'eb4a427d1923ce3ff262735779a418f20a282df920147beabe421ee5319d0568'
+    )
+
+    decryptSectors(ciphertext, 'aes-xts-plain64', key, 512, 0n)
+    expect(ciphertext.equals(ieeePlaintext())).toBe(true)
+  })
+
+  it('uses the 64-bit sector number as the plain64 IV', () => {
+    const sector = (1n << 32n) + 5n
+    const data = Buffer.concat([
+      encrypt(ieeePlaintext(), key, ivOf(sector)),
+      encrypt(ieeePlaintext(), key, ivOf(sector + 1n))
+    ])
+
+    decryptSectors(data, 'aes-xts-plain64', key, 512, sector)
+    expect(data.equals(Buffer.concat([ieeePlaintext(), ieeePlaintext()]))).toBe(true)
+  })
+
+  it('truncates the sector number to 32 bits for a plain IV', () => {
+    const data = encrypt(ieeePlaintext(), key, ivOf(5n))
+
+    decryptSectors(data, 'aes-xts-plain', key, 512, (1n << 32n) + 5n)
+    expect(data.equals(ieeePlaintext())).toBe(true)
+  })
+
+  it('counts IVs in 512-byte sectors for larger encryption units', () => {
+    const unit = Buffer.concat(Array.from({ length: 8 }, ieeePlaintext))
+    const data = Buffer.concat([encrypt(unit, key, ivOf(16n)), encrypt(unit, key, ivOf(24n))])
+
+    decryptSectors(data, 'aes-xts-plain64', key, 4096, 16n)
+    expect(data.equals(Buffer.concat([unit, unit]))).toBe(true)
+  })
+
+  it('rejects ciphers other than AES-XTS', () => {
+    expect(() => decryptSectors(Buffer.alloc(512), 'aes-cbc-essiv:sha256', key, 512, 0n)).toThrow(
+      /only AES-XTS/
+    )
+  })
+})
+
+describe('afMerge', () => {
+  const key = Buffer.from('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff', 'hex')
+
+  it('returns a single stripe unchanged', () => {
+    expect(afMerge(Buffer.from(key), 32, 1, 'sha256').equals(key)).toBe(true)
+  })
+
+  it.each(['sha1', 'sha256'])('merges stripes diffused with %s, across partial hash blocks', (hash) => {
+    // With SHA-1 the 32-byte key spans a full and a partial 20-byte block
+    const material = afSplit(key, 4000, hash)
+
+    expect(afMerge(material, 32, 4000, hash).equals(key)).toBe(true)
+  })
+})
+
+describe('unlockLuks', () => {
+  const masterKey = Buffer.from('0f1e2d3c4b5a69788796a5b4c3d2e1f00123456789abcdeffedcba9876543210', 'hex')
+  const passphrase = 'correct horse'
+
+  /** A LUKS1 volume with one keyslot at sector 8 and its payload at sector 16 */
+  function luks1Volume(): Buffer {
+    const volume = Buffer.alloc(17 * 512)
+    volume.set([0x4c, 0x55, 0x4b, 0x53, 0xba, 0xbe], 0)
+    volume.writeUInt16BE(1, 6)
+    volume.write('aes', 8, 'ascii')
+    volume.write('xts-plain64', 40, 'ascii')
+    volume.write('sha256', 72, 'ascii')
+    volume.writeUInt32BE(16, 104)
+    volume.writeUInt32BE(32, 108)
+
+    const digestSalt = Buffer.alloc(32, 0x5a)
+    digestSalt.copy(volume, 132)
+    volume.writeUInt32BE(10, 164)
+    pbkdf2Sync(masterKey, digestSalt, 10, 20, 'sha256').copy(volume, 112)
+
+    const slotSalt = Buffer.alloc(32, 0xa5)
+    volume.writeUInt32BE(0x00ac71f3, 208)
+    volume.writeUInt32BE(10, 212)
+    slotSalt.copy(volume, 216)
+    volume.writeUInt32BE(8, 248)
+    volume.writeUInt32BE(4, 252)
+
+    const slotKey = pbkdf2Sync(passphrase, slotSalt, 10, 32, 'sha256')
+    const area = Buffer.alloc(512)
+    afSplit(masterKey, 4, 'sha256').copy(area)
+    encrypt(area, slotKey, ivOf(0n)).copy(volume, 8 * 512)
+
+    encrypt(ieeePlaintext(), masterKey, ivOf(0n)).copy(volume, 16 * 512)
+    return volume
+  }
+
+  it('recovers the master key with the passphrase', async () => {
+    const reader = new BufferReader(luks1Volume())
+    const header = await readLuksHeader(reader)
+    expect(header?.version).toBe(1)
+    expect(header?.segment.offset).toBe(8192n)
+
+    const key = await unlockLuks(reader, header!, passphrase)
+    expect(key?.equals(masterKey)).toBe(true)
+
+    const payload = Buffer.from(luks1Volume().subarray(8192))
+    decryptSectors(payload, header!.segment.encryption, key!, 512, 0n)
+    expect(payload.equals(ieeePlaintext())).toBe(true)
+  })
+
+  it('resolves to null for a wrong passphrase', async () => {
+    const reader = new BufferReader(luks1Volume())
+    const header = await readLuksHeader(reader)
+
+    expect(await unlockLuks(reader, header!, 'wrong')).toBeNull()
+  })
+})
@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest'
+import { loadAllocationBitmap } from './allocation-bitmap'
+import type { AllocationBitmap } from './allocation-bitmap'
+import { BufferReader } from '../io/buffer-reader'
+
+/** Block numbers from `from` up to, not including, `to`. */
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from }, (_, i) => from + i)
+}
+
+/** Free blocks of a bitmap whose block numbers start at `first`. */
+function freeBlocks(bitmap: AllocationBitmap, first = 0): number[] {
+  return range(first, first + bitmap.totalBlocks).filter((block) => !bitmap.isBlockAllocated(block))
+}
+
+// ─── exFAT ────────────────────────────────────────────────────
+
+describe('exFAT', () => {
+  const SECTOR = 512
+  const HEAP_SECTOR = 4
+  const TOTAL_CLUSTERS = 5000
+
+  /** Byte offset of a cluster; the heap starts with cluster 2 */
+  const clusterOffset = (cluster: number): number => (HEAP_SECTOR + cluster - 2) * SECTOR
+
+  it('follows the allocation bitmap\'s cluster chain', async () => {
+    const image = Buffer.alloc(clusterOffset(2 + TOTAL_CLUSTERS))
+    image.write('EXFAT   ', 3, 'ascii')
+    image.writeUInt32LE(1, 80) // FAT offset
+    image.writeUInt32LE(HEAP_SECTOR, 88)
+    image.writeUInt32LE(TOTAL_CLUSTERS, 92)
+    image.writeUInt32LE(2, 96) // root directory cluster
+    image[108] = 9 // 512-byte sectors
+    image[109] = 0 // one sector per cluster
+
+    // Root directory: the Allocation Bitmap entry
+    const bitmapLength = Math.ceil(TOTAL_CLUSTERS / 8)
+    const entry = clusterOffset(2)
+    image[entry] = 0x81
+    image.writeUInt32LE(3, entry + 20)
+    image.writeBigUInt64LE(BigInt(bitmapLength), entry + 24)
+
+    // The bitmap's two clusters are 3 and 7, linked in the FAT
+    image.writeUInt32LE(7, SECTOR + 3 * 4)
+    image.writeUInt32LE(0xffffffff, SECTOR + 7 * 4)
+    image.fill(0xff, clusterOffset(3), clusterOffset(4))
+    image.fill(0xff, clusterOffset(7), clusterOffset(7) + bitmapLength - SECTOR)
+    // Bit n covers cluster n + 2
+    image[clusterOffset(3) + 2] &= ~(1 << 4) // cluster 22
+    image[clusterOffset(7)] &= ~(1 << 4) // cluster 4102
+
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('exfat')
+    expect(bitmap?.totalBlocks).toBe(TOTAL_CLUSTERS)
+    expect(freeBlocks(bitmap!, 2)).toEqual([22, 4102])
+    expect(bitmap!.isByteAllocated(BigInt(clusterOffset(22)))).toBe(false)
+    expect(bitmap!.isChunkFullyAllocated(BigInt(clusterOffset(20)), 4 * SECTOR)).toBe(false)
+    expect(bitmap!.isChunkFullyAllocated(0n, HEAP_SECTOR * SECTOR)).toBe(true)
+  })
+})
+
+// ─── FAT12 / FAT16 ────────────────────────────────────────────
+
+describe('FAT12/16', () => {
+  const SECTOR = 512
+
+  /** One sector per cluster, two FATs of `fatSectors` and a one-sector root directory. */
+  function fatImage(totalSectors: number, fatSectors: number, fatCount: number): Buffer {
+    const image = Buffer.alloc(totalSectors * SECTOR)
+    image.writeUInt16LE(SECTOR, 11)
+    image[13] = 1
+    image.writeUInt16LE(1, 14)
+    image[16] = fatCount
+    image.writeUInt16LE(16, 17)
+    image.writeUInt16LE(totalSectors, 19)
+    image.writeUInt16LE(fatSectors, 22)
+    return image
+  }
+
+  it('reads packed 12-bit FAT entries', async () => {
+    // 1 reserved + 2 FATs + 1 root directory sector, then 36 clusters
+    const image = fatImage(40, 1, 2)
+    const fat = image.subarray(SECTOR, 2 * SECTOR)
+    const setEntry = (cluster: number, value: number): void => {
+      const pos = cluster + (cluster >> 1)
+      const pair = fat.readUInt16LE(pos)
+      fat.writeUInt16LE(cluster & 1 ? (pair & 0x000f) | (value << 4) : (pair & 0xf000) | value, pos)
+    }
+    setEntry(2, 0xfff)
+    setEntry(4, 5)
+    setEntry(5, 0xfff)
+    for (let cluster = 7; cluster < 38; cluster++) setEntry(cluster, 0xff7) // bad clusters
+
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('fat12')
+    expect(bitmap?.totalBlocks).toBe(36)
+    expect(freeBlocks(bitmap!, 2)).toEqual([3, 6])
+    // The data region starts at sector 4, with cluster 2
+    expect(bitmap!.isByteAllocated(BigInt(5 * SECTOR))).toBe(false)
+    expect(bitmap!.isByteAllocated(BigInt(3 * SECTOR))).toBe(true)
+  })
+
+  it('reads 16-bit FAT entries', async () => {
+    // 4100 clusters make FAT16; the FAT needs (4100 + 2) * 2 bytes
+    const image = fatImage(1 + 17 + 1 + 4100, 17, 1)
+    const fat = image.subarray(SECTOR, 18 * SECTOR)
+    for (let cluster = 2; cluster < 4102; cluster++) fat.writeUInt16LE(0xffff, cluster * 2)
+    fat.writeUInt16LE(0, 100 * 2)
+    fat.writeUInt16LE(0, 4101 * 2)
+
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('fat16')
+    expect(bitmap?.totalBlocks).toBe(4100)
+    expect(freeBlocks(bitmap!, 2)).toEqual([100, 4101])
+  })
+})
+
+// ─── XFS ──────────────────────────────────────────────────────
+
+describe('XFS', () => {
+  const BLOCK = 1024
+  const SECTOR = 512
+  const AG_BLOCKS = 64
+  const HEADER = 16 // v4 short-form B-tree block header
+
+  /** One-AG v4 volume whose by-block free-space tree is given as blocks. */
+  function xfsImage(bnoRoot: number, bnoLevel: number, nodes: Record<number, Buffer>): Buffer {
+    const image = Buffer.alloc(AG_BLOCKS * BLOCK)
+    image.write('XFSB', 0, 'latin1')
+    image.writeUInt32BE(BLOCK, 4)
+    image.writeBigUInt64BE(BigInt(AG_BLOCKS), 8)
+    image.writeUInt32BE(AG_BLOCKS, 84)
+    image.writeUInt32BE(1, 88)
+    image.writeUInt16BE(4, 100)
+    image.writeUInt16BE(SECTOR, 102)
+
+    const agf = image.subarray(SECTOR, 2 * SECTOR)
+    agf.write('XAGF', 0, 'latin1')
+    agf.writeUInt32BE(AG_BLOCKS, 12)
+    agf.writeUInt32BE(bnoRoot, 16)
+    agf.writeUInt32BE(bnoLevel, 28)
+
+    for (const [agbno, node] of Object.entries(nodes)) node.copy(image, Number(agbno) * BLOCK)
+    return image
+  }
+
+  function btreeBlock(level: number, count: number): Buffer {
+    const block = Buffer.alloc(BLOCK)
+    block.write('ABTB', 0, 'latin1')
+    block.writeUInt16BE(level, 4)
+    block.writeUInt16BE(count, 6)
+    return block
+  }
+
+  function leaf(extents: [number, number][]): Buffer {
+    const block = btreeBlock(0, extents.length)
+    extents.forEach(([start, count], i) => {
+      block.writeUInt32BE(start, HEADER + i * 8)
+      block.writeUInt32BE(count, HEADER + i * 8 + 4)
+    })
+    return block
+  }
+
+  it('reads free extents from a single leaf', async () => {
+    const image = xfsImage(2, 1, { 2: leaf([[10, 5], [40, 8]]) })
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('xfs')
+    expect(bitmap?.totalBlocks).toBe(AG_BLOCKS)
+    expect(freeBlocks(bitmap!)).toEqual([...range(10, 15), ...range(40, 48)])
+  })
+
+  it('follows node pointers, which sit after the key array, in a multi-level tree', async () => {
+    // Interior nodes hold 8-byte keys and 4-byte pointers, so the pointers
+    // start after (BLOCK - HEADER) / 12 keys.
+    const nodeMaxRecs = Math.floor((BLOCK - HEADER) / 12)
+    const root = btreeBlock(1, 2)
+    root.writeUInt32BE(10, HEADER)
+    root.writeUInt32BE(40, HEADER + 8)
+    root.writeUInt32BE(3, HEADER + nodeMaxRecs * 8)
+    root.writeUInt32BE(4, HEADER + nodeMaxRecs * 8 + 4)
+
+    const image = xfsImage(2, 2, {
+      2: root,
+      3: leaf([[10, 5]]),
+      4: leaf([[40, 8]])
+    })
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('xfs')
+    expect(freeBlocks(bitmap!)).toEqual([...range(10, 15), ...range(40, 48)])
+    expect(bitmap!.isByteAllocated(BigInt(12 * BLOCK))).toBe(false)
+    expect(bitmap!.isChunkFullyAllocated(BigInt(16 * BLOCK), 8 * BLOCK)).toBe(true)
+  })
+})
+
+// ─── HFS+ ─────────────────────────────────────────────────────
+
+describe('HFS+', () => {
+  const BLOCK = 512
+  const TOTAL_BLOCKS = 8192
+
+  it('reads the allocation file from its fork extents', async () => {
+    const image = Buffer.alloc(TOTAL_BLOCKS * BLOCK)
+    const header = image.subarray(1024, 1536)
+    header.writeUInt16BE(0x482b, 0) // "H+"
+    header.writeUInt32BE(BLOCK, 40)
+    header.writeUInt32BE(TOTAL_BLOCKS, 44)
+    // The 1 KiB allocation file in two one-block extents
+    header.writeUInt32BE(4, 128)
+    header.writeUInt32BE(1, 132)
+    header.writeUInt32BE(10, 136)
+    header.writeUInt32BE(1, 140)
+
+    image.fill(0xff, 4 * BLOCK, 5 * BLOCK)
+    image.fill(0xff, 10 * BLOCK, 11 * BLOCK)
+    // Bits run from the most significant bit of each byte
+    image[4 * BLOCK + 1] &= ~0x40 // block 9
+    image[10 * BLOCK] &= ~0x08 // block 4100
+
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('hfsplus')
+    expect(bitmap?.totalBlocks).toBe(TOTAL_BLOCKS)
+    expect(freeBlocks(bitmap!)).toEqual([9, 4100])
+  })
+})
+
+// ─── F2FS ─────────────────────────────────────────────────────
+
+describe('F2FS', () => {
+  const BLOCK = 4096
+  const BLOCKS_PER_SEGMENT = 8
+  const CP_BLOCK = 8
+  const SIT_BLOCK = 24
+  const MAIN_BLOCK = 40
+  const TOTAL_BLOCKS = 72
+  const SIT_ENTRY = 74
+
+  /** Write a SIT entry; bits of the valid map run from the top bit, one per block */
+  function sitEntry(target: Buffer, pos: number, validMap: number): void {
+    target[pos + 2] = validMap
+  }
+
+  it('reads the current SIT copy and the newer entries in the checkpoint journal', async () => {
+    const image = Buffer.alloc(TOTAL_BLOCKS * BLOCK)
+    const sb = image.subarray(1024, 1024 + 1668)
+    sb.writeUInt32LE(0xf2f52010, 0)
+    sb.writeUInt32LE(12, 16) // 4 KiB blocks
+    sb.writeUInt32LE(3, 20) // 8 blocks per segment
+    sb.writeBigUInt64LE(BigInt(TOTAL_BLOCKS), 36)
+    sb.writeUInt32LE(2, 56) // SIT segments: two copies of one
+    sb.writeUInt32LE(4, 68) // main area segments
+    sb.writeUInt32LE(CP_BLOCK, 76)
+    sb.writeUInt32LE(SIT_BLOCK, 80)
+    sb.writeUInt32LE(MAIN_BLOCK, 92)
+
+    // Checkpoint pack: header, hot/warm/cold data summaries, an unused
+    // block and the footer repeating the version
+    const cp = image.subarray(CP_BLOCK * BLOCK)
+    cp.writeBigUInt64LE(5n, 0)
+    cp.writeUInt32LE(6, 136)
+    cp.writeUInt32LE(1, 140)
+    cp.writeUInt32LE(1, 156) // SIT version bitmap size
+    cp[192] = 0x80 // SIT block 0 is current in the second copy
+    image.writeBigUInt64LE(5n, (CP_BLOCK + 5) * BLOCK)
+
+    // The stale first copy says every block is valid
+    for (let segno = 0; segno < 4; segno++) sitEntry(image, SIT_BLOCK * BLOCK + segno * SIT_ENTRY, 0xff)
+    const sit = (SIT_BLOCK + BLOCKS_PER_SEGMENT) * BLOCK
+    sitEntry(image, sit, 0xff)
+    sitEntry(image, sit + SIT_ENTRY, 0xef) // block 3 free
+    sitEntry(image, sit + 2 * SIT_ENTRY, 0x00)
+    sitEntry(image, sit + 3 * SIT_ENTRY, 0xff)
+
+    // The cold data summary's journal holds a newer entry for segment 3
+    const journal = (CP_BLOCK + 3) * BLOCK + 512 * 7
+    image.writeUInt16LE(1, journal)
+    image.writeUInt32LE(3, journal + 2)
+    sitEntry(image, journal + 6, 0x0f)
+
+    const bitmap = await loadAllocationBitmap(new BufferReader(image))
+
+    expect(bitmap?.fsType).toBe('f2fs')
+    expect(bitmap?.totalBlocks).toBe(TOTAL_BLOCKS)
+    expect(freeBlocks(bitmap!)).toEqual([51, ...range(56, 68)])
+  })
+})
@@ -1,24 +1,24 @@
 /**
  * Filesystem Allocation Bitmap
  *
- * Reads block/cluster allocation state from ext4, NTFS, or FAT32 so
- * the carving worker can skip allocated (live) regions and only scan
- * free (potentially deleted) space.
+ * Reads block/cluster allocation state from ext4, NTFS, exFAT, FAT12/16/32,
+ * XFS, HFS+ or F2FS so the carving worker can skip allocated (live)
+ * regions and only scan free (potentially deleted) space.
  *
  * A unified `AllocationBitmap` interface is returned regardless of the
  * underlying filesystem type. `loadAllocationBitmap` auto-detects the
- * filesystem by trying ext4, NTFS, then FAT32 in order.
+ * filesystem by trying ext4, NTFS, exFAT, FAT32, FAT12/16, XFS, HFS+, then
+ * F2FS in order.
  */
 
-import * as fs from 'fs'
-import { promisify } from 'util'
-
-const fsRead = promisify(fs.read)
+import { readInto } from '../io/images'
+import type { SourceReader } from '../io/images'
+import type { FileFragment } from '../../shared/types'
 
 // ─── Common interface ────────────────────────────────────────
 
 export interface AllocationBitmap {
-  /** Filesystem: 'ext4' | 'ntfs' | 'fat32' */
+  /** Filesystem: 'ext4' | 'ntfs' | 'exfat' | 'fat12' | 'fat16' | 'fat32' | 'xfs' | 'hfsplus' | 'f2fs' */
   fsType: string
   /** Block/cluster size in bytes */
   blockSize: number
@@ -32,6 +32,42 @@ export interface AllocationBitmap {
   isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean
 }
 
+// ─── Recoverability ──────────────────────────────────────────
+
+/** Blocks sampled per fragment when checking whether data was reused */
+const MAX_SAMPLED_BLOCKS = 64
+
+/**
+ * Rate a deleted file by whether its blocks were reused. Deleted data is
+ * intact only while its blocks stay free, so each fragment is sampled
+ * against the bitmap: no block allocated is 'good', some is 'partial',
+ * all is 'poor'. Without a bitmap nothing can be told, so 'partial'.
+ */
+export function assessRecoverability(
+  fragments: FileFragment[],
+  bitmap: Pick<AllocationBitmap, 'isByteAllocated'> | null,
+  blockSize: number
+): 'good' | 'partial' | 'poor' {
+  if (!bitmap) return 'partial'
+  const size = BigInt(blockSize)
+  let sampled = 0
+  let allocated = 0
+
+  for (const fragment of fragments) {
+    const blocks = (fragment.size + size - 1n) / size
+    const step = blocks > BigInt(MAX_SAMPLED_BLOCKS) ? blocks / BigInt(MAX_SAMPLED_BLOCKS) : 1n
+
+    for (let b = 0n; b < blocks; b += step) {
+      sampled++
+      if (bitmap.isByteAllocated(fragment.offset + b * size)) allocated++
+    }
+  }
+
+  if (allocated === 0) return 'good'
+  if (allocated < sampled) return 'partial'
+  return 'poor'
+}
+
 // ─── Safety caps ─────────────────────────────────────────────
 
 const MAX_BLOCK_GROUPS = 100_000
@@ -46,7 +82,7 @@ const MAX_FAT_CLUSTERS = 128_000_000
 
 const EXT4_SB_OFFSET = 1024
 const EXT4_SB_SIZE = 1024
-const EXT4_MAGIC = 0x53ef
+const EXT4_MAGIC = 0xef53
 
 interface Ext4SbInfo {
   blockSize: number
@@ -57,10 +93,10 @@ interface Ext4SbInfo {
   groupDescSize: number
 }
 
-async function parseExt4Superblock(fd: number): Promise<Ext4SbInfo | null> {
+async function parseExt4Superblock(reader: SourceReader): Promise<Ext4SbInfo | null> {
   const buf = Buffer.alloc(EXT4_SB_SIZE)
   try {
-    const r = await fsRead(fd, buf, 0, EXT4_SB_SIZE, EXT4_SB_OFFSET)
+    const r = await readInto(reader, buf, 0, EXT4_SB_SIZE, BigInt(EXT4_SB_OFFSET))
     if (r.bytesRead < 256) return null
   } catch {
     return null
@@ -90,8 +126,8 @@ async function parseExt4Superblock(fd: number): Promise<Ext4SbInfo | null> {
   return { blockSize, blocksPerGroup, blockGroupCount, firstDataBlock, is64Bit, groupDescSize }
 }
 
-async function loadExt4(fd: number): Promise<AllocationBitmap | null> {
-  const sb = await parseExt4Superblock(fd)
+async function loadExt4(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const sb = await parseExt4Superblock(reader)
   if (!sb) return null
 
   const groupCount = Math.min(sb.blockGroupCount, MAX_BLOCK_GROUPS)
@@ -104,7 +140,7 @@ async function loadExt4(fd: number): Promise<AllocationBitmap | null> {
     const gdBuf = Buffer.alloc(sb.groupDescSize)
     let gdBytesRead: number
     try {
-      const r = await fsRead(fd, gdBuf, 0, sb.groupDescSize, gdOffset)
+      const r = await readInto(reader, gdBuf, 0, sb.groupDescSize, BigInt(gdOffset))
       gdBytesRead = r.bytesRead
     } catch {
       bitmaps.push(Buffer.alloc(sb.blockSize, 0xff))
@@ -128,7 +164,7 @@ async function loadExt4(fd: number): Promise<AllocationBitmap | null> {
 
     const bitmapBuf = Buffer.alloc(sb.blockSize)
     try {
-      const r = await fsRead(fd, bitmapBuf, 0, sb.blockSize, Number(bitmapBlock * BigInt(sb.blockSize)))
+      const r = await readInto(reader, bitmapBuf, 0, sb.blockSize, bitmapBlock * BigInt(sb.blockSize))
       if (r.bytesRead < sb.blockSize) bitmapBuf.fill(0xff, r.bytesRead)
     } catch {
       bitmapBuf.fill(0xff)
@@ -187,10 +223,10 @@ interface NtfsBootInfo {
   totalClusters: number
 }
 
-async function parseNtfsBoot(fd: number): Promise<NtfsBootInfo | null> {
+async function parseNtfsBoot(reader: SourceReader): Promise<NtfsBootInfo | null> {
   const buf = Buffer.alloc(512)
   try {
-    const r = await fsRead(fd, buf, 0, 512, 0)
+    const r = await readInto(reader, buf, 0, 512, 0n)
     if (r.bytesRead < 512) return null
   } catch {
     return null
@@ -296,15 +332,15 @@ function decodeNtfsRunList(buf: Buffer, startOffset: number): Array<{ lcn: bigin
   return runs
 }
 
-async function loadNtfs(fd: number): Promise<AllocationBitmap | null> {
-  const boot = await parseNtfsBoot(fd)
+async function loadNtfs(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const boot = await parseNtfsBoot(reader)
   if (!boot) return null
 
   // Read MFT entry #6 ($Bitmap)
   const entryOffset = boot.mftStartOffset + BigInt(BITMAP_MFT_INDEX) * BigInt(boot.mftEntrySize)
   const rawEntry = Buffer.alloc(boot.mftEntrySize)
   try {
-    const r = await fsRead(fd, rawEntry, 0, boot.mftEntrySize, Number(entryOffset))
+    const r = await readInto(reader, rawEntry, 0, boot.mftEntrySize, entryOffset)
     if (r.bytesRead < boot.mftEntrySize) return null
   } catch {
     return null
@@ -359,7 +395,7 @@ async function loadNtfs(fd: number): Promise<AllocationBitmap | null> {
     if (readLen <= 0) break
 
     try {
-      const r = await fsRead(fd, bitmap, bitmapPos, readLen, Number(run.lcn * BigInt(boot.clusterSize)))
+      const r = await readInto(reader, bitmap, bitmapPos, readLen, run.lcn * BigInt(boot.clusterSize))
       bitmapPos += r.bytesRead
     } catch {
       // Leave the rest as 0xFF (allocated = conservative)
@@ -394,6 +430,147 @@ async function loadNtfs(fd: number): Promise<AllocationBitmap | null> {
   }
 }
 
+// ═══════════════════════════════════════════════════════════════
+//  exFAT
+// ═══════════════════════════════════════════════════════════════
+
+/** Allocation Bitmap directory entry type (in use). */
+const EXFAT_ENTRY_BITMAP = 0x81
+/** FAT values from here up are bad-cluster or end-of-chain markers. */
+const EXFAT_FAT_BAD = 0xfffffff7
+
+interface ExfatBootInfo {
+  bytesPerSector: number
+  clusterSize: number
+  fatOffsetSectors: number
+  /** Byte offset of cluster 2 */
+  heapStartByte: bigint
+  totalClusters: number
+  rootDirCluster: number
+}
+
+async function parseExfatBoot(reader: SourceReader): Promise<ExfatBootInfo | null> {
+  const buf = Buffer.alloc(512)
+  try {
+    const r = await readInto(reader, buf, 0, 512, 0n)
+    if (r.bytesRead < 512) return null
+  } catch {
+    return null
+  }
+
+  if (buf.subarray(3, 11).toString('ascii') !== 'EXFAT   ') return null
+
+  const fatOffsetSectors = buf.readUInt32LE(80)
+  const heapOffsetSectors = buf.readUInt32LE(88)
+  const totalClusters = buf.readUInt32LE(92)
+  const rootDirCluster = buf.readUInt32LE(96)
+  const sectorShift = buf[108]
+  const clusterShift = buf[109]
+
+  if (sectorShift < 9 || sectorShift > 12 || clusterShift > 25 - sectorShift) return null
+  if (fatOffsetSectors === 0 || heapOffsetSectors === 0 || rootDirCluster < 2) return null
+
+  const bytesPerSector = 1 << sectorShift
+  return {
+    bytesPerSector,
+    clusterSize: bytesPerSector << clusterShift,
+    fatOffsetSectors,
+    heapStartByte: BigInt(heapOffsetSectors) * BigInt(bytesPerSector),
+    totalClusters,
+    rootDirCluster,
+  }
+}
+
+async function loadExfat(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const boot = await parseExfatBoot(reader)
+  if (!boot) return null
+
+  const { clusterSize, heapStartByte, totalClusters } = boot
+  const clusterOffset = (cluster: number): bigint => heapStartByte + BigInt(cluster - 2) * BigInt(clusterSize)
+
+  // The Allocation Bitmap entry sits near the start of the root directory.
+  // TexFAT volumes carry a second bitmap (flag bit 0 set); use the first.
+  const rootBuf = Buffer.alloc(clusterSize)
+  try {
+    const r = await readInto(reader, rootBuf, 0, clusterSize, clusterOffset(boot.rootDirCluster))
+    if (r.bytesRead < 32) return null
+  } catch {
+    return null
+  }
+
+  let bitmapCluster = 0
+  let bitmapLength = 0
+  for (let pos = 0; pos + 32 <= rootBuf.length; pos += 32) {
+    const entryType = rootBuf[pos]
+    if (entryType === 0) break
+    if (entryType === EXFAT_ENTRY_BITMAP && (rootBuf[pos + 1] & 1) === 0) {
+      bitmapCluster = rootBuf.readUInt32LE(pos + 20)
+      bitmapLength = Number(rootBuf.readBigUInt64LE(pos + 24))
+      break
+    }
+  }
+  if (bitmapCluster < 2 || bitmapLength === 0) return null
+
+  // Bit n covers cluster n + 2; 1 → allocated, 0 → free.
+  const bitmapBytes = Math.min(bitmapLength, Math.ceil(totalClusters / 8))
+  if (bitmapBytes > MAX_BITMAP_BYTES) return null
+  const bitmap = Buffer.alloc(bitmapBytes, 0xff) // default allocated
+
+  // Follow the bitmap's cluster chain. A contiguous file may leave its
+  // FAT entries unused, so a missing link means the next cluster.
+  const fatEntry = Buffer.alloc(4)
+  const fatStartByte = BigInt(boot.fatOffsetSectors) * BigInt(boot.bytesPerSector)
+  let cluster = bitmapCluster
+  for (let pos = 0; pos < bitmapBytes; pos += clusterSize) {
+    const readLen = Math.min(clusterSize, bitmapBytes - pos)
+    try {
+      await readInto(reader, bitmap, pos, readLen, clusterOffset(cluster))
+    } catch {
+      // Leave this cluster's range as allocated
+    }
+
+    let next = 0
+    try {
+      const r = await readInto(reader, fatEntry, 0, 4, fatStartByte + BigInt(cluster) * 4n)
+      if (r.bytesRead === 4) next = fatEntry.readUInt32LE(0)
+    } catch { /* treat as contiguous */ }
+    cluster = next >= 2 && next < EXFAT_FAT_BAD ? next : cluster + 1
+  }
+
+  const isBlockAllocated = (clusterNumber: number): boolean => {
+    const index = clusterNumber - 2
+    if (index < 0 || index >= totalClusters) return true
+    const byteIdx = index >> 3
+    if (byteIdx >= bitmap.length) return true
+    return (bitmap[byteIdx] & (1 << (index & 7))) !== 0
+  }
+
+  return {
+    fsType: 'exfat',
+    blockSize: clusterSize,
+    totalBlocks: totalClusters,
+    isBlockAllocated,
+    isByteAllocated(byteOffset: bigint): boolean {
+      // Boot region, FAT and anything before the cluster heap → allocated
+      if (byteOffset < heapStartByte) return true
+      return isBlockAllocated(Number((byteOffset - heapStartByte) / BigInt(clusterSize)) + 2)
+    },
+    isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean {
+      const end = byteOffset + BigInt(chunkSize) - 1n
+      if (end < heapStartByte) return true
+
+      const start = byteOffset > heapStartByte ? byteOffset - heapStartByte : 0n
+      const startCluster = Number(start / BigInt(clusterSize)) + 2
+      const endCluster = Number((end - heapStartByte) / BigInt(clusterSize)) + 2
+
+      for (let c = startCluster; c <= endCluster; c++) {
+        if (!isBlockAllocated(c)) return false
+      }
+      return true
+    },
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════
 //  FAT32
 // ═══════════════════════════════════════════════════════════════
@@ -408,10 +585,10 @@ interface Fat32BootInfo {
   totalClusters: number
 }
 
-async function parseFat32Boot(fd: number): Promise<Fat32BootInfo | null> {
+async function parseFat32Boot(reader: SourceReader): Promise<Fat32BootInfo | null> {
   const buf = Buffer.alloc(512)
   try {
-    const r = await fsRead(fd, buf, 0, 512, 0)
+    const r = await readInto(reader, buf, 0, 512, 0n)
     if (r.bytesRead < 512) return null
   } catch {
     return null
@@ -454,8 +631,8 @@ async function parseFat32Boot(fd: number): Promise<Fat32BootInfo | null> {
   return { bytesPerSector, sectorsPerCluster, clusterSize, reservedSectors, fatCount, fatSizeSectors, totalClusters }
 }
 
-async function loadFat32(fd: number): Promise<AllocationBitmap | null> {
-  const boot = await parseFat32Boot(fd)
+async function loadFat32(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const boot = await parseFat32Boot(reader)
   if (!boot) return null
 
   const clusterCount = Math.min(boot.totalClusters + 2, MAX_FAT_CLUSTERS) // +2 for reserved entries 0 and 1
@@ -478,7 +655,7 @@ async function loadFat32(fd: number): Promise<AllocationBitmap | null> {
     const readLen = Math.min(FAT_READ_CHUNK, fatByteSize - pos)
     let bytesRead: number
     try {
-      const r = await fsRead(fd, fatBuf, 0, readLen, fatByteOffset + pos)
+      const r = await readInto(reader, fatBuf, 0, readLen, BigInt(fatByteOffset + pos))
       bytesRead = r.bytesRead
     } catch {
       // Leave the rest as allocated
@@ -549,33 +726,561 @@ async function loadFat32(fd: number): Promise<AllocationBitmap | null> {
   }
 }
 
+// ═══════════════════════════════════════════════════════════════
+//  FAT12 / FAT16
+// ═══════════════════════════════════════════════════════════════
+
+interface LegacyFatBootInfo {
+  fatWidth: 12 | 16
+  bytesPerSector: number
+  clusterSize: number
+  reservedSectors: number
+  fatSizeSectors: number
+  /** Byte offset of cluster 2, past the fixed root directory. */
+  dataStartByte: bigint
+  totalClusters: number
+}
+
+async function parseLegacyFatBoot(reader: SourceReader): Promise<LegacyFatBootInfo | null> {
+  const buf = Buffer.alloc(512)
+  try {
+    const r = await readInto(reader, buf, 0, 512, 0n)
+    if (r.bytesRead < 512) return null
+  } catch {
+    return null
+  }
+
+  const bytesPerSector = buf.readUInt16LE(11)
+  const sectorsPerCluster = buf[13]
+  const reservedSectors = buf.readUInt16LE(14)
+  const fatCount = buf[16]
+  const rootEntryCount = buf.readUInt16LE(17)
+  const fatSizeSectors = buf.readUInt16LE(22)
+
+  // FAT12/16 have a fixed root directory and a 16-bit FAT size
+  if (
+    bytesPerSector < 512 || bytesPerSector > 4096 ||
+    (bytesPerSector & (bytesPerSector - 1)) !== 0 ||
+    sectorsPerCluster === 0 ||
+    (sectorsPerCluster & (sectorsPerCluster - 1)) !== 0 ||
+    reservedSectors === 0 ||
+    fatCount === 0 || fatCount > 4 ||
+    rootEntryCount === 0 ||
+    fatSizeSectors === 0
+  ) return null
+
+  let totalSectors = buf.readUInt16LE(19)
+  if (totalSectors === 0) totalSectors = buf.readUInt32LE(32)
+  if (totalSectors === 0) return null
+
+  const rootDirSectors = Math.ceil((rootEntryCount * 32) / bytesPerSector)
+  const dataStart = reservedSectors + fatCount * fatSizeSectors + rootDirSectors
+  const dataSectors = totalSectors - dataStart
+  if (dataSectors <= 0) return null
+  const totalClusters = Math.floor(dataSectors / sectorsPerCluster)
+
+  // The cluster count decides the FAT width; 65525 and up is FAT32
+  if (totalClusters >= 65525) return null
+
+  return {
+    fatWidth: totalClusters < 4085 ? 12 : 16,
+    bytesPerSector,
+    clusterSize: bytesPerSector * sectorsPerCluster,
+    reservedSectors,
+    fatSizeSectors,
+    dataStartByte: BigInt(dataStart) * BigInt(bytesPerSector),
+    totalClusters,
+  }
+}
+
+async function loadLegacyFat(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const boot = await parseLegacyFatBoot(reader)
+  if (!boot) return null
+
+  const clusterCount = boot.totalClusters + 2 // +2 for reserved entries 0 and 1
+
+  // The whole FAT is small (at most 128 KB), so read it in one go.
+  const fatBytes = boot.fatSizeSectors * boot.bytesPerSector
+  const fat = Buffer.alloc(fatBytes)
+  let fatRead: number
+  try {
+    const r = await readInto(reader, fat, 0, fatBytes, BigInt(boot.reservedSectors * boot.bytesPerSector))
+    fatRead = r.bytesRead
+  } catch {
+    return null
+  }
+
+  const bitmap = Buffer.alloc(Math.ceil(clusterCount / 8), 0xff) // default allocated
+
+  for (let cluster = 2; cluster < clusterCount; cluster++) {
+    let entry: number
+    if (boot.fatWidth === 16) {
+      if (cluster * 2 + 2 > fatRead) break
+      entry = fat.readUInt16LE(cluster * 2)
+    } else {
+      // Two 12-bit entries share three bytes
+      const pos = cluster + (cluster >> 1)
+      if (pos + 2 > fatRead) break
+      const pair = fat.readUInt16LE(pos)
+      entry = cluster & 1 ? pair >> 4 : pair & 0x0fff
+    }
+    if (entry === 0) bitmap[cluster >> 3] &= ~(1 << (cluster & 7))
+  }
+
+  const { clusterSize, dataStartByte } = boot
+  const isBlockAllocated = (clusterNumber: number): boolean => {
+    if (clusterNumber < 0 || clusterNumber >= clusterCount) return true
+    return (bitmap[clusterNumber >> 3] & (1 << (clusterNumber & 7))) !== 0
+  }
+
+  return {
+    fsType: boot.fatWidth === 12 ? 'fat12' : 'fat16',
+    blockSize: clusterSize,
+    totalBlocks: boot.totalClusters,
+    isBlockAllocated,
+    isByteAllocated(byteOffset: bigint): boolean {
+      // Boot sector, FATs and the root directory → allocated
+      if (byteOffset < dataStartByte) return true
+      return isBlockAllocated(Number((byteOffset - dataStartByte) / BigInt(clusterSize)) + 2)
+    },
+    isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean {
+      const end = byteOffset + BigInt(chunkSize) - 1n
+      if (end < dataStartByte) return true
+
+      const start = byteOffset > dataStartByte ? byteOffset - dataStartByte : 0n
+      const startCluster = Number(start / BigInt(clusterSize)) + 2
+      const endCluster = Number((end - dataStartByte) / BigInt(clusterSize)) + 2
+
+      for (let c = startCluster; c <= endCluster; c++) {
+        if (!isBlockAllocated(c)) return false
+      }
+      return true
+    },
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  XFS
+// ═══════════════════════════════════════════════════════════════
+
+const XFS_SB_MAGIC = 0x58465342 // "XFSB"
+const XFS_AGF_MAGIC = 0x58414746 // "XAGF"
+/** Free-space B-tree by block number: v4 "ABTB", v5 "AB3B". */
+const XFS_BNOBT_MAGICS = [0x41425442, 0x41423342]
+/** Short-form B-tree block header: 16 bytes, 56 with v5 CRC fields. */
+const XFS_BTREE_HDR_V4 = 16
+const XFS_BTREE_HDR_V5 = 56
+/** Free-space B-tree blocks to read per AG (safety limit). */
+const MAX_XFS_BTREE_BLOCKS = 1_000_000
+
+interface XfsSbInfo {
+  blockSize: number
+  sectorSize: number
+  totalBlocks: bigint
+  agBlocks: number
+  agCount: number
+  isV5: boolean
+}
+
+async function parseXfsSuperblock(reader: SourceReader): Promise<XfsSbInfo | null> {
+  const buf = Buffer.alloc(512)
+  try {
+    const r = await readInto(reader, buf, 0, 512, 0n)
+    if (r.bytesRead < 512) return null
+  } catch {
+    return null
+  }
+
+  // XFS is big-endian throughout
+  if (buf.readUInt32BE(0) !== XFS_SB_MAGIC) return null
+
+  const blockSize = buf.readUInt32BE(4)
+  const totalBlocks = buf.readBigUInt64BE(8)
+  const agBlocks = buf.readUInt32BE(84)
+  const agCount = buf.readUInt32BE(88)
+  const version = buf.readUInt16BE(100) & 0x0f
+  const sectorSize = buf.readUInt16BE(102)
+
+  if (blockSize < 512 || blockSize > 65536 || (blockSize & (blockSize - 1)) !== 0) return null
+  if (sectorSize < 512 || sectorSize > blockSize) return null
+  if (agBlocks === 0 || agCount === 0 || agCount > MAX_BLOCK_GROUPS) return null
+
+  return { blockSize, sectorSize, totalBlocks, agBlocks, agCount, isV5: version === 5 }
+}
+
+async function loadXfs(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const sb = await parseXfsSuperblock(reader)
+  if (!sb) return null
+
+  // Blocks are numbered linearly across AGs: ag * agBlocks + agbno.
+  const totalBlocks = Number(sb.totalBlocks)
+  const bitmapBytes = Math.ceil(totalBlocks / 8)
+  if (bitmapBytes > MAX_BITMAP_BYTES) return null
+
+  const bitmap = Buffer.alloc(bitmapBytes, 0xff) // default allocated
+  const headerSize = sb.isV5 ? XFS_BTREE_HDR_V5 : XFS_BTREE_HDR_V4
+  const btreeBuf = Buffer.alloc(sb.blockSize)
+  const agfBuf = Buffer.alloc(sb.sectorSize)
+
+  const markFree = (ag: number, startBlock: number, blockCount: number): void => {
+    const first = ag * sb.agBlocks + startBlock
+    const last = Math.min(first + blockCount, totalBlocks)
+    for (let b = first; b < last; b++) bitmap[b >> 3] &= ~(1 << (b & 7))
+  }
+
+  for (let ag = 0; ag < sb.agCount; ag++) {
+    const agStart = BigInt(ag) * BigInt(sb.agBlocks) * BigInt(sb.blockSize)
+
+    // AGF in the second sector of the AG
+    try {
+      const r = await readInto(reader, agfBuf, 0, sb.sectorSize, agStart + BigInt(sb.sectorSize))
+      if (r.bytesRead < 36) continue
+    } catch {
+      continue
+    }
+    if (agfBuf.readUInt32BE(0) !== XFS_AGF_MAGIC) continue
+
+    const agLength = agfBuf.readUInt32BE(12)
+    const bnoRoot = agfBuf.readUInt32BE(16)
+    const bnoLevel = agfBuf.readUInt32BE(28)
+
+    // Walk the by-block-number free-space tree; its records are free
+    // extents (startblock, blockcount) within the AG. Interior nodes hold
+    // the same 8-byte keys, each with a 4-byte pointer.
+    const leafMaxRecs = Math.floor((sb.blockSize - headerSize) / 8)
+    const nodeMaxRecs = Math.floor((sb.blockSize - headerSize) / 12)
+    const stack: Array<{ agbno: number; level: number }> = [{ agbno: bnoRoot, level: bnoLevel - 1 }]
+    let blocksRead = 0
+
+    while (stack.length > 0 && blocksRead < MAX_XFS_BTREE_BLOCKS) {
+      const { agbno, level } = stack.pop()!
+      if (agbno === 0 || agbno >= agLength || level < 0) continue
+      blocksRead++
+
+      try {
+        const r = await readInto(reader, btreeBuf, 0, sb.blockSize, agStart + BigInt(agbno) * BigInt(sb.blockSize))
+        if (r.bytesRead < sb.blockSize) continue
+      } catch {
+        continue
+      }
+
+      if (!XFS_BNOBT_MAGICS.includes(btreeBuf.readUInt32BE(0))) continue
+      if (btreeBuf.readUInt16BE(4) !== level) continue
+      const numRecs = Math.min(btreeBuf.readUInt16BE(6), level === 0 ? leafMaxRecs : nodeMaxRecs)
+
+      for (let i = 0; i < numRecs; i++) {
+        if (level === 0) {
+          const rec = headerSize + i * 8
+          markFree(ag, btreeBuf.readUInt32BE(rec), btreeBuf.readUInt32BE(rec + 4))
+        } else {
+          // Pointers follow the full key array, not just the used keys
+          stack.push({ agbno: btreeBuf.readUInt32BE(headerSize + nodeMaxRecs * 8 + i * 4), level: level - 1 })
+        }
+      }
+    }
+  }
+
+  const blockSize = sb.blockSize
+  const isBlockAllocated = (blockNumber: number): boolean => {
+    if (blockNumber < 0 || blockNumber >= totalBlocks) return true
+    return (bitmap[blockNumber >> 3] & (1 << (blockNumber & 7))) !== 0
+  }
+
+  return {
+    fsType: 'xfs',
+    blockSize,
+    totalBlocks,
+    isBlockAllocated,
+    isByteAllocated(byteOffset: bigint): boolean {
+      return isBlockAllocated(Number(byteOffset / BigInt(blockSize)))
+    },
+    isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean {
+      const startBlock = Number(byteOffset / BigInt(blockSize))
+      const endBlock = Number((byteOffset + BigInt(chunkSize) - 1n) / BigInt(blockSize))
+      for (let b = startBlock; b <= endBlock; b++) {
+        if (!isBlockAllocated(b)) return false
+      }
+      return true
+    },
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  HFS+
+// ═══════════════════════════════════════════════════════════════
+
+const HFS_VOLUME_HEADER_OFFSET = 1024
+const HFSPLUS_SIGNATURE = 0x482b // "H+"
+const HFSX_SIGNATURE = 0x4858 // "HX"
+/** The allocation file's fork data in the volume header. */
+const HFS_ALLOCATION_FORK_OFFSET = 112
+/** Fork data keeps its first 8 extents inline. */
+const HFS_FORK_EXTENTS = 8
+
+async function loadHfsPlus(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const vh = Buffer.alloc(512)
+  try {
+    const r = await readInto(reader, vh, 0, 512, BigInt(HFS_VOLUME_HEADER_OFFSET))
+    if (r.bytesRead < 512) return null
+  } catch {
+    return null
+  }
+
+  // HFS+ is big-endian throughout
+  const signature = vh.readUInt16BE(0)
+  if (signature !== HFSPLUS_SIGNATURE && signature !== HFSX_SIGNATURE) return null
+
+  const blockSize = vh.readUInt32BE(40)
+  const totalBlocks = vh.readUInt32BE(44)
+  if (blockSize < 512 || blockSize > 65536 || (blockSize & (blockSize - 1)) !== 0) return null
+  if (totalBlocks === 0) return null
+
+  const bitmapBytes = Math.ceil(totalBlocks / 8)
+  if (bitmapBytes > MAX_BITMAP_BYTES) return null
+  const bitmap = Buffer.alloc(bitmapBytes, 0xff) // default allocated
+
+  // The allocation file is a bitmap over all allocation blocks. Extents
+  // past the first 8 live in the extents overflow file; their part of the
+  // bitmap stays marked allocated.
+  let bitmapPos = 0
+  for (let i = 0; i < HFS_FORK_EXTENTS && bitmapPos < bitmapBytes; i++) {
+    const ext = HFS_ALLOCATION_FORK_OFFSET + 16 + i * 8
+    const startBlock = vh.readUInt32BE(ext)
+    const blockCount = vh.readUInt32BE(ext + 4)
+    if (blockCount === 0) break
+
+    const readLen = Math.min(blockCount * blockSize, bitmapBytes - bitmapPos)
+    try {
+      const r = await readInto(reader, bitmap, bitmapPos, readLen, BigInt(startBlock) * BigInt(blockSize))
+      if (r.bytesRead < readLen) bitmap.fill(0xff, bitmapPos + r.bytesRead, bitmapPos + readLen)
+    } catch {
+      // Leave this extent's range as allocated
+    }
+    bitmapPos += readLen
+  }
+
+  // Bits run from the most significant bit of each byte
+  const isBlockAllocated = (blockNumber: number): boolean => {
+    if (blockNumber < 0 || blockNumber >= totalBlocks) return true
+    return (bitmap[blockNumber >> 3] & (0x80 >> (blockNumber & 7))) !== 0
+  }
+
+  return {
+    fsType: 'hfsplus',
+    blockSize,
+    totalBlocks,
+    isBlockAllocated,
+    isByteAllocated(byteOffset: bigint): boolean {
+      return isBlockAllocated(Number(byteOffset / BigInt(blockSize)))
+    },
+    isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean {
+      const startBlock = Number(byteOffset / BigInt(blockSize))
+      const endBlock = Number((byteOffset + BigInt(chunkSize) - 1n) / BigInt(blockSize))
+      for (let b = startBlock; b <= endBlock; b++) {
+        if (!isBlockAllocated(b)) return false
+      }
+      return true
+    },
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+//  F2FS
+// ═══════════════════════════════════════════════════════════════
+
+const F2FS_SUPERBLOCK_OFFSET = 1024
+const F2FS_MAGIC = 0xf2f52010
+const F2FS_BLOCK_SIZE = 4096
+const F2FS_SIT_ENTRY_SIZE = 74
+const F2FS_SIT_ENTRIES_PER_BLOCK = Math.floor(F2FS_BLOCK_SIZE / F2FS_SIT_ENTRY_SIZE)
+/** Summary blocks: 512 seven-byte entries, then a 507-byte journal. */
+const F2FS_SUM_JOURNAL_OFFSET = 512 * 7
+const F2FS_SUM_JOURNAL_SIZE = F2FS_BLOCK_SIZE - 5 - F2FS_SUM_JOURNAL_OFFSET
+const F2FS_CP_COMPACT_SUM_FLAG = 0x4
+const F2FS_CP_LARGE_NAT_BITMAP_FLAG = 0x400
+
+async function loadF2fs(reader: SourceReader): Promise<AllocationBitmap | null> {
+  const sb = Buffer.alloc(1668)
+  try {
+    const r = await readInto(reader, sb, 0, sb.length, BigInt(F2FS_SUPERBLOCK_OFFSET))
+    if (r.bytesRead < sb.length) return null
+  } catch {
+    return null
+  }
+  if (sb.readUInt32LE(0) !== F2FS_MAGIC || sb.readUInt32LE(16) !== 12) return null
+
+  const blocksPerSegment = 1 << sb.readUInt32LE(20)
+  const totalBlocks = Number(sb.readBigUInt64LE(36))
+  const segmentCountSit = sb.readUInt32LE(56)
+  const segmentCountMain = sb.readUInt32LE(68)
+  const cpBlock = sb.readUInt32LE(76)
+  const sitBlock = sb.readUInt32LE(80)
+  const mainBlock = sb.readUInt32LE(92)
+  const cpPayload = sb.readUInt32LE(1664)
+
+  const bitmapBytes = Math.ceil(totalBlocks / 8)
+  if (bitmapBytes > MAX_BITMAP_BYTES || mainBlock >= totalBlocks) return null
+
+  const readBlock = async (block: number): Promise<Buffer | null> => {
+    const buf = Buffer.alloc(F2FS_BLOCK_SIZE)
+    try {
+      const r = await readInto(reader, buf, 0, F2FS_BLOCK_SIZE, BigInt(block) * BigInt(F2FS_BLOCK_SIZE))
+      return r.bytesRead === F2FS_BLOCK_SIZE ? buf : null
+    } catch {
+      return null
+    }
+  }
+
+  // The newer of the two checkpoint packs whose last block repeats the
+  // header's version
+  let checkpoint: { start: number; header: Buffer; version: bigint } | null = null
+  for (const start of [cpBlock, cpBlock + blocksPerSegment]) {
+    const header = await readBlock(start)
+    if (!header) continue
+    const total = header.readUInt32LE(136)
+    if (total < 2 || total > blocksPerSegment) continue
+    const footer = await readBlock(start + total - 1)
+    const version = header.readBigUInt64LE(0)
+    if (!footer || footer.readBigUInt64LE(0) !== version) continue
+    if (!checkpoint || version > checkpoint.version) checkpoint = { start, header, version }
+  }
+  if (!checkpoint) return null
+
+  const { start, header } = checkpoint
+  const flags = header.readUInt32LE(132)
+  const sitBitmapSize = header.readUInt32LE(156)
+  const natBitmapSize = header.readUInt32LE(160)
+  let sitVersionBitmap: Buffer
+  if (flags & F2FS_CP_LARGE_NAT_BITMAP_FLAG) {
+    sitVersionBitmap = header.subarray(196 + natBitmapSize, 196 + natBitmapSize + sitBitmapSize)
+  } else if (cpPayload > 0) {
+    sitVersionBitmap = (await readBlock(start + 1)) ?? Buffer.alloc(0)
+  } else {
+    sitVersionBitmap = header.subarray(192, 192 + sitBitmapSize)
+  }
+
+  const bitmap = Buffer.alloc(bitmapBytes, 0xff) // default allocated
+  const applySitEntry = (segno: number, entry: Buffer, pos: number): void => {
+    if (segno >= segmentCountMain) return
+    const first = mainBlock + segno * blocksPerSegment
+    for (let b = 0; b < blocksPerSegment && first + b < totalBlocks; b++) {
+      // Valid maps run from each byte's top bit
+      const valid = (entry[pos + 2 + (b >> 3)] & (0x80 >> (b & 7))) !== 0
+      const block = first + b
+      if (valid) bitmap[block >> 3] |= 1 << (block & 7)
+      else bitmap[block >> 3] &= ~(1 << (block & 7))
+    }
+  }
+
+  // Each SIT block has two copies; the version bitmap picks the current one
+  const copyBlocks = (segmentCountSit >> 1) * blocksPerSegment
+  const sitBlocks = Math.ceil(segmentCountMain / F2FS_SIT_ENTRIES_PER_BLOCK)
+  for (let offset = 0; offset < sitBlocks; offset++) {
+    const current = offset >> 3 < sitVersionBitmap.length && (sitVersionBitmap[offset >> 3] & (0x80 >> (offset & 7))) !== 0
+    const buf = await readBlock(sitBlock + offset + (current ? copyBlocks : 0))
+    if (!buf) continue
+    for (let e = 0; e < F2FS_SIT_ENTRIES_PER_BLOCK; e++) {
+      applySitEntry(offset * F2FS_SIT_ENTRIES_PER_BLOCK + e, buf, e * F2FS_SIT_ENTRY_SIZE)
+    }
+  }
+
+  // Newer SIT entries wait in the journal of the cold data summary
+  const summaryStart = start + header.readUInt32LE(140)
+  const compact = (flags & F2FS_CP_COMPACT_SUM_FLAG) !== 0
+  const summary = await readBlock(compact ? summaryStart : summaryStart + 2)
+  if (summary) {
+    const journal = compact
+      ? summary.subarray(F2FS_SUM_JOURNAL_SIZE, 2 * F2FS_SUM_JOURNAL_SIZE)
+      : summary.subarray(F2FS_SUM_JOURNAL_OFFSET, F2FS_SUM_JOURNAL_OFFSET + F2FS_SUM_JOURNAL_SIZE)
+    const count = Math.min(journal.readUInt16LE(0), Math.floor((F2FS_SUM_JOURNAL_SIZE - 2) / (4 + F2FS_SIT_ENTRY_SIZE)))
+    for (let i = 0; i < count; i++) {
+      const pos = 2 + i * (4 + F2FS_SIT_ENTRY_SIZE)
+      applySitEntry(journal.readUInt32LE(pos), journal, pos + 4)
+    }
+  }
+
+  const blockSize = F2FS_BLOCK_SIZE
+  const isBlockAllocated = (blockNumber: number): boolean => {
+    if (blockNumber < 0 || blockNumber >= totalBlocks) return true
+    return (bitmap[blockNumber >> 3] & (1 << (blockNumber & 7))) !== 0
+  }
+
+  return {
+    fsType: 'f2fs',
+    blockSize,
+    totalBlocks,
+    isBlockAllocated,
+    isByteAllocated(byteOffset: bigint): boolean {
+      return isBlockAllocated(Number(byteOffset / BigInt(blockSize)))
+    },
+    isChunkFullyAllocated(byteOffset: bigint, chunkSize: number): boolean {
+      const startBlock = Number(byteOffset / BigInt(blockSize))
+      const endBlock = Number((byteOffset + BigInt(chunkSize) - 1n) / BigInt(blockSize))
+      for (let b = startBlock; b <= endBlock; b++) {
+        if (!isBlockAllocated(b)) return false
+      }
+      return true
+    },
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════
 //  Unified loader
 // ═══════════════════════════════════════════════════════════════
 
 /**
  * Auto-detect the filesystem and load its allocation bitmap.
- * Tries ext4 → NTFS → FAT32 in order.
+ * Tries ext4 → NTFS → exFAT → FAT32 → FAT12/16 → XFS → HFS+ → F2FS in order.
  * Returns `null` if no supported filesystem is detected or on error.
  */
-export async function loadAllocationBitmap(fd: number): Promise<AllocationBitmap | null> {
+export async function loadAllocationBitmap(reader: SourceReader): Promise<AllocationBitmap | null> {
   // Try ext4 first (superblock at 1024, distinct magic)
   try {
-    const ext4 = await loadExt4(fd)
+    const ext4 = await loadExt4(reader)
     if (ext4) return ext4
   } catch { /* not ext4 */ }
 
   // Try NTFS (boot sector "NTFS" at offset 3)
   try {
-    const ntfs = await loadNtfs(fd)
+    const ntfs = await loadNtfs(reader)
     if (ntfs) return ntfs
   } catch { /* not NTFS */ }
 
+  // Try exFAT (boot sector "EXFAT" at offset 3)
+  try {
+    const exfat = await loadExfat(reader)
+    if (exfat) return exfat
+  } catch { /* not exFAT */ }
+
   // Try FAT32 (BPB heuristic)
   try {
-    const fat32 = await loadFat32(fd)
+    const fat32 = await loadFat32(reader)
     if (fat32) return fat32
   } catch { /* not FAT32 */ }
 
+  // Try FAT12/16 (BPB with a fixed root directory)
+  try {
+    const fat = await loadLegacyFat(reader)
+    if (fat) return fat
+  } catch { /* not FAT12/16 */ }
+
+  // Try XFS (superblock magic "XFSB" at offset 0)
+  try {
+    const xfs = await loadXfs(reader)
+    if (xfs) return xfs
+  } catch { /* not XFS */ }
+
+  // Try HFS+/HFSX (volume header signature at 1024)
+  try {
+    const hfsplus = await loadHfsPlus(reader)
+    if (hfsplus) return hfsplus
+  } catch { /* not HFS+ */ }
+
+  // Try F2FS (superblock magic at 1024)
+  try {
+    const f2fs = await loadF2fs(reader)
+    if (f2fs) return f2fs
+  } catch { /* not F2FS */ }
+
   return null
 }
@@ -5,12 +5,28 @@
  * the filesystem by checking well-known magic byte sequences.
  */
 
-import type { BlockReader } from '../io/block-reader'
+import type { SourceReader } from '../io/images'
 import type { FilesystemType } from '../../shared/types'
 
 /** Minimum read size needed to cover all magic locations (superblock at 1024 + up to 256 bytes). */
 const DETECTION_READ_SIZE = 1024 + 256
 
+/** Btrfs keeps its superblock at 64 KiB, past the boot-sector read. */
+const BTRFS_SUPERBLOCK_OFFSET = 0x10000n
+
+/**
+ * Optical formats keep their volume descriptors from 32 KiB on, one per
+ * 2048-byte sector; sixteen sectors cover the UDF recognition sequence.
+ */
+const VOLUME_DESCRIPTOR_OFFSET = 0x8000n
+const VOLUME_DESCRIPTOR_READ_SIZE = 2048 * 16
+
+/** Magic at the start of a LUKS encrypted volume. */
+const LUKS_MAGIC = Buffer.from([0x4c, 0x55, 0x4b, 0x53, 0xba, 0xbe])
+
+/** LVM2 writes its physical volume label to one of the first sectors, normally the second. */
+const LVM_LABEL_SECTORS = [0, 1, 2]
+
 /**
  * Detect the filesystem type present on a block device or partition.
  *
@@ -18,7 +34,7 @@ const DETECTION_READ_SIZE = 1024 + 256
  * to avoid false positives (e.g. exFAT before FAT32 since both share
  * similar boot sector layouts).
  */
-export async function detectFilesystem(reader: BlockReader): Promise<FilesystemType> {
+export async function detectFilesystem(reader: SourceReader): Promise<FilesystemType> {
   let bootSector: Buffer
   try {
     bootSector = await reader.read(0n, DETECTION_READ_SIZE)
@@ -30,6 +46,23 @@ export async function detectFilesystem(reader: BlockReader): Promise<FilesystemT
     return 'unknown'
   }
 
+  // ── LUKS ───────────────────────────────────────────────────
+  // "LUKS\xba\xbe" at offset 0 (LUKS1 and LUKS2). Not a filesystem, but
+  // nothing else can be read from the volume until it is unlocked.
+  if (bootSector.subarray(0, 6).equals(LUKS_MAGIC)) {
+    return 'luks'
+  }
+
+  // ── LVM2 ───────────────────────────────────────────────────
+  // "LABELONE" label header with type "LVM2 001" at byte 24. Like LUKS,
+  // the logical volumes have to be mapped before anything can be read.
+  for (const sector of LVM_LABEL_SECTORS) {
+    const base = sector * 512
+    if (matchesAscii(bootSector, base, 'LABELONE') && matchesAscii(bootSector, base + 24, 'LVM2 001')) {
+      return 'lvm2'
+    }
+  }
+
   // ── exFAT ──────────────────────────────────────────────────
   // OEM name at bytes 3-10 must be "EXFAT   " (padded with spaces).
   if (matchesAscii(bootSector, 3, 'EXFAT   ')) {
@@ -54,12 +87,27 @@ export async function detectFilesystem(reader: BlockReader): Promise<FilesystemT
     return 'fat32'
   }
 
+  // ── FAT12 / FAT16 ──────────────────────────────────────────
+  // No reliable string: the variant is decided by the cluster count
+  // computed from the BPB, as the FAT specification prescribes.
+  const legacyFat = classifyLegacyFat(bootSector)
+  if (legacyFat) {
+    return legacyFat
+  }
+
+  // ── F2FS ───────────────────────────────────────────────────
+  // Superblock at offset 1024; magic 0xF2F52010 (little-endian) at its
+  // start. Checked before ext4, whose magic falls inside this superblock.
+  if (bootSector.length >= 1024 + 4 && bootSector.readUInt32LE(1024) === 0xf2f52010) {
+    return 'f2fs'
+  }
+
   // ── ext4 ───────────────────────────────────────────────────
   // Superblock starts at byte offset 1024. Magic number at relative
-  // offset 0x38 (absolute 1024 + 56 = 1080) is 0x53EF (little-endian).
+  // offset 0x38 (absolute 1024 + 56 = 1080) is 0xEF53 (stored little-endian).
   if (bootSector.length >= 1024 + 58) {
     const magic = bootSector.readUInt16LE(1024 + 0x38)
-    if (magic === 0x53ef) {
+    if (magic === 0xef53) {
       return 'ext4'
     }
   }
@@ -75,6 +123,50 @@ export async function detectFilesystem(reader: BlockReader): Promise<FilesystemT
     }
   }
 
+  // ── APFS ───────────────────────────────────────────────────
+  // Container superblock in block 0; magic "NXSB" follows the 32-byte
+  // object header.
+  if (matchesAscii(bootSector, 32, 'NXSB')) {
+    return 'apfs'
+  }
+
+  // ── XFS ────────────────────────────────────────────────────
+  // Superblock in sector 0; magic "XFSB" at offset 0.
+  if (matchesAscii(bootSector, 0, 'XFSB')) {
+    return 'xfs'
+  }
+
+  // ── UDF / ISO 9660 ────────────────────────────────────────
+  // Each descriptor carries a 5-byte identifier at offset 1. "NSR02" or
+  // "NSR03" marks UDF; a UDF bridge disc also has an ISO 9660 "CD001"
+  // primary descriptor, but the UDF tree is the complete one.
+  try {
+    const descriptors = await reader.read(VOLUME_DESCRIPTOR_OFFSET, VOLUME_DESCRIPTOR_READ_SIZE)
+    let iso9660 = false
+    for (let offset = 0; offset + 6 <= descriptors.length; offset += 2048) {
+      if (matchesAscii(descriptors, offset + 1, 'NSR02') || matchesAscii(descriptors, offset + 1, 'NSR03')) {
+        return 'udf'
+      }
+      if (offset === 0 && matchesAscii(descriptors, 1, 'CD001')) iso9660 = true
+    }
+    if (iso9660) {
+      return 'iso9660'
+    }
+  } catch {
+    // Device smaller than 32 KiB
+  }
+
+  // ── Btrfs ──────────────────────────────────────────────────
+  // Superblock at 64 KiB; magic "_BHRfS_M" at relative offset 0x40.
+  try {
+    const superblock = await reader.read(BTRFS_SUPERBLOCK_OFFSET, 0x48)
+    if (matchesAscii(superblock, 0x40, '_BHRfS_M')) {
+      return 'btrfs'
+    }
+  } catch {
+    // Device smaller than 64 KiB
+  }
+
   return 'unknown'
 }
 
@@ -124,3 +216,42 @@ function isFat32Fallback(buf: Buffer): boolean {
   const bootSig = buf.readUInt16LE(510)
   return bootSig === 0xaa55
 }
+
+/**
+ * Identify FAT12/FAT16 from the BPB. Requires a plausible BPB with a
+ * 16-bit FAT size (BPB_FATSz16, offset 22), a non-empty fixed root
+ * directory (BPB_RootEntCnt, offset 17) and either the 0x55AA boot
+ * signature or a "FAT" BS_FilSysType string at offset 54. The variant is
+ * then chosen by cluster count: under 4085 is FAT12, under 65525 FAT16.
+ */
+function classifyLegacyFat(buf: Buffer): 'fat12' | 'fat16' | null {
+  if (buf.length < 512) return null
+
+  const bytesPerSec = buf.readUInt16LE(11)
+  if (bytesPerSec < 512 || bytesPerSec > 4096 || (bytesPerSec & (bytesPerSec - 1)) !== 0) {
+    return null
+  }
+
+  const secPerClus = buf[13]
+  if (secPerClus === 0 || (secPerClus & (secPerClus - 1)) !== 0) return null
+
+  const reservedSectors = buf.readUInt16LE(14)
+  const fatCount = buf[16]
+  const rootEntryCount = buf.readUInt16LE(17)
+  const fatSz16 = buf.readUInt16LE(22)
+  if (reservedSectors === 0 || fatCount === 0 || fatCount > 4 || rootEntryCount === 0 || fatSz16 === 0) {
+    return null
+  }
+
+  if (buf.readUInt16LE(510) !== 0xaa55 && !matchesAscii(buf, 54, 'FAT')) return null
+
+  const totalSectors = buf.readUInt16LE(19) || buf.readUInt32LE(32)
+  const rootDirSectors = Math.ceil((rootEntryCount * 32) / bytesPerSec)
+  const dataSectors = totalSectors - (reservedSectors + fatCount * fatSz16 + rootDirSectors)
+  if (dataSectors <= 0) return null
+
+  const clusterCount = Math.floor(dataSectors / secPerClus)
+  if (clusterCount < 4085) return 'fat12'
+  if (clusterCount < 65525) return 'fat16'
+  return null
+}
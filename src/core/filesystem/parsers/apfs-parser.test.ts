@@ -0,0 +1,289 @@
+import { describe, expect, it } from 'vitest'
+import { ApfsParser } from './apfs-parser'
+import { BufferReader } from '../../io/buffer-reader'
+import type { RecoverableFile } from '../../../shared/types'
+
+const BLOCK = 4096
+const BLOCKS = 18
+
+const TYPE_NX_SUPERBLOCK = 0x01
+const TYPE_BTREE = 0x02
+const TYPE_BTREE_NODE = 0x03
+const TYPE_SPACEMAN = 0x05
+const TYPE_SPACEMAN_CIB = 0x07
+const TYPE_OMAP = 0x0b
+const TYPE_CHECKPOINT_MAP = 0x0c
+const TYPE_FS = 0x0d
+const TYPE_FSTREE = 0x0e
+
+const NODE_ROOT = 0x01
+const NODE_LEAF = 0x02
+const NODE_FIXED = 0x04
+
+const RECORD_INODE = 3n
+const RECORD_EXTENT = 8n
+const RECORD_DIR = 9n
+
+const FS_OID = 1026n
+const ROOT_TREE_OID = 1028n
+const SPACEMAN_OID = 1024n
+
+const CREATED = new Date('2024-03-01T12:00:00.000Z')
+
+/** Store the Fletcher-64 checksum APFS keeps in the first 8 bytes of an object. */
+function seal(block: Buffer): void {
+  const mod = 0xffffffff
+  let sum1 = 0
+  let sum2 = 0
+  for (let i = 8; i < block.length; i += 4) {
+    sum1 = (sum1 + block.readUInt32LE(i)) % mod
+    sum2 = (sum2 + sum1) % mod
+  }
+  const check1 = mod - ((sum1 + sum2) % mod)
+  const check2 = mod - ((sum1 + check1) % mod)
+  block.writeUInt32LE(check1, 0)
+  block.writeUInt32LE(check2, 4)
+}
+
+interface Entry {
+  key: Buffer
+  value: Buffer
+}
+
+const header = (type: bigint, id: bigint): Buffer => {
+  const key = Buffer.alloc(8)
+  key.writeBigUInt64LE((type << 60n) | id)
+  return key
+}
+
+/** j_inode_val_t with a data stream size and, optionally, a name xfield. */
+function inode(id: bigint, parent: bigint, size: bigint, name?: string): Entry {
+  const fields: [number, Buffer][] = []
+  if (name) fields.push([4, Buffer.from(`${name}\0`, 'utf8')])
+  const dstream = Buffer.alloc(40)
+  dstream.writeBigUInt64LE(size)
+  fields.push([8, dstream])
+
+  const table = Buffer.alloc(4 + fields.length * 4)
+  table.writeUInt16LE(fields.length, 0)
+  const data: Buffer[] = []
+  fields.forEach(([type, value], i) => {
+    table[4 + i * 4] = type
+    table.writeUInt16LE(value.length, 4 + i * 4 + 2)
+    data.push(value, Buffer.alloc(((value.length + 7) & ~7) - value.length))
+  })
+
+  const fixed = Buffer.alloc(92)
+  fixed.writeBigUInt64LE(parent, 0)
+  fixed.writeBigUInt64LE(id, 8)
+  fixed.writeBigUInt64LE(BigInt(CREATED.getTime()) * 1_000_000n, 16)
+  fixed.writeBigUInt64LE(BigInt(CREATED.getTime()) * 1_000_000n, 24)
+  fixed.writeUInt16LE(0o100644, 80)
+  return { key: header(RECORD_INODE, id), value: Buffer.concat([fixed, table, ...data]) }
+}
+
+/** A hashed directory entry naming a regular file. */
+function dirEntry(parent: bigint, fileId: bigint, name: string): Entry {
+  const raw = Buffer.from(`${name}\0`, 'utf8')
+  const lengthAndHash = Buffer.alloc(4)
+  lengthAndHash.writeUInt32LE(raw.length)
+  const value = Buffer.alloc(18)
+  value.writeBigUInt64LE(fileId, 0)
+  value.writeUInt16LE(8, 16)
+  return { key: Buffer.concat([header(RECORD_DIR, parent), lengthAndHash, raw]), value }
+}
+
+function extent(privateId: bigint, logical: bigint, length: number, block: number): Entry {
+  const key = Buffer.concat([header(RECORD_EXTENT, privateId), Buffer.alloc(8)])
+  key.writeBigUInt64LE(logical, 8)
+  const value = Buffer.alloc(16)
+  value.writeBigUInt64LE(BigInt(length), 0)
+  value.writeBigUInt64LE(BigInt(block), 8)
+  return { key, value }
+}
+
+/** omap key (oid, xid) to value (flags, size, paddr). */
+function mapping(oid: bigint, xid: bigint, paddr: number): Entry {
+  const key = Buffer.alloc(16)
+  key.writeBigUInt64LE(oid, 0)
+  key.writeBigUInt64LE(xid, 8)
+  const value = Buffer.alloc(16)
+  value.writeUInt32LE(BLOCK, 4)
+  value.writeBigUInt64LE(BigInt(paddr), 8)
+  return { key, value }
+}
+
+/** A container laid out block by block. */
+class Container {
+  readonly data = Buffer.alloc(BLOCKS * BLOCK)
+
+  block(n: number, type: number, xid: bigint, subtype = 0): Buffer {
+    const block = this.data.subarray(n * BLOCK, (n + 1) * BLOCK)
+    block.writeBigUInt64LE(BigInt(n), 8)
+    block.writeBigUInt64LE(xid, 16)
+    block.writeUInt32LE(type, 24)
+    block.writeUInt32LE(subtype, 28)
+    return block
+  }
+
+  superblock(n: number, xid: bigint): void {
+    const nx = this.block(n, TYPE_NX_SUPERBLOCK, xid)
+    nx.write('NXSB', 32, 'ascii')
+    nx.writeUInt32LE(BLOCK, 36)
+    nx.writeBigUInt64LE(BigInt(BLOCKS), 40)
+    nx.writeUInt32LE(3, 104)
+    nx.writeBigUInt64LE(1n, 112)
+    nx.writeBigUInt64LE(SPACEMAN_OID, 152)
+    nx.writeBigUInt64LE(4n, 160)
+    nx.writeUInt32LE(1, 180)
+    nx.writeBigUInt64LE(FS_OID, 184)
+    seal(nx)
+  }
+
+  /** A single-node B-tree: a root leaf, or a leaf left in free space. */
+  node(n: number, xid: bigint, subtype: number, records: Entry[], root = true): void {
+    const block = this.block(n, root ? TYPE_BTREE : TYPE_BTREE_NODE, xid, subtype)
+    const fixed = subtype === TYPE_OMAP
+    const flags = NODE_LEAF | (root ? NODE_ROOT : 0) | (fixed ? NODE_FIXED : 0)
+    const tocLength = records.length * (fixed ? 4 : 8)
+    block.writeUInt16LE(flags, 32)
+    block.writeUInt32LE(records.length, 36)
+    block.writeUInt16LE(0, 40)
+    block.writeUInt16LE(tocLength, 42)
+
+    const keyStart = 56 + tocLength
+    const valueEnd = BLOCK - (root ? 40 : 0)
+    let keyOffset = 0
+    let valueOffset = 0
+    records.forEach(({ key, value }, i) => {
+      const toc = 56 + i * (fixed ? 4 : 8)
+      valueOffset += value.length
+      key.copy(block, keyStart + keyOffset)
+      value.copy(block, valueEnd - valueOffset)
+      if (fixed) {
+        block.writeUInt16LE(keyOffset, toc)
+        block.writeUInt16LE(valueOffset, toc + 2)
+      } else {
+        block.writeUInt16LE(keyOffset, toc)
+        block.writeUInt16LE(key.length, toc + 2)
+        block.writeUInt16LE(valueOffset, toc + 4)
+        block.writeUInt16LE(value.length, toc + 6)
+      }
+      keyOffset += key.length
+    })
+    seal(block)
+  }
+
+  omap(n: number, tree: number): void {
+    const omap = this.block(n, TYPE_OMAP, 1n)
+    omap.writeBigUInt64LE(BigInt(tree), 48)
+    seal(omap)
+  }
+
+  /**
+   * The space manager, its chunk-info block and the bitmap in blocks
+   * 15-17, mapped by the checkpoint map in block 2. One chunk covers the
+   * container; `allocated` blocks are in use.
+   */
+  spaceManager(allocated: number[]): void {
+    const map = this.block(2, TYPE_CHECKPOINT_MAP, 2n)
+    map.writeUInt32LE(1, 36)
+    map.writeUInt32LE(BLOCK, 40 + 8)
+    map.writeBigUInt64LE(SPACEMAN_OID, 40 + 24)
+    map.writeBigUInt64LE(15n, 40 + 32)
+    seal(map)
+
+    const sm = this.block(15, TYPE_SPACEMAN, 2n)
+    sm.writeUInt32LE(32768, 36)
+    sm.writeUInt32LE(1, 64)
+    sm.writeUInt32LE(0x100, 80)
+    sm.writeBigUInt64LE(16n, 0x100)
+    seal(sm)
+
+    const cib = this.block(16, TYPE_SPACEMAN_CIB, 2n)
+    cib.writeUInt32LE(1, 36)
+    cib.writeBigUInt64LE(0n, 40 + 8)
+    cib.writeUInt32LE(BLOCKS, 40 + 16)
+    cib.writeBigUInt64LE(17n, 40 + 24)
+    seal(cib)
+
+    const bitmap = this.data.subarray(17 * BLOCK, 18 * BLOCK)
+    for (const b of allocated) bitmap[b >> 3] |= 1 << (b & 7)
+  }
+}
+
+/**
+ * Two checkpoints of one volume. Block 0 is a copy of the newest
+ * superblock; the descriptor area holds the xid 1 superblock, the xid 2
+ * checkpoint map and the xid 2 superblock. The volume object map points
+ * the root tree at block 9 as of xid 1 and at block 10 as of xid 2.
+ * The file data sits in blocks 12 to 14.
+ */
+function container(allocated: number[]): Container {
+  const c = new Container()
+  c.superblock(0, 2n)
+  c.superblock(1, 1n)
+  c.superblock(3, 2n)
+  c.omap(4, 5)
+  c.node(5, 1n, TYPE_OMAP, [mapping(FS_OID, 1n, 6)])
+
+  const apsb = c.block(6, TYPE_FS, 1n)
+  apsb.write('APSB', 32, 'ascii')
+  apsb.writeBigUInt64LE(7n, 128)
+  apsb.writeBigUInt64LE(ROOT_TREE_OID, 136)
+  Buffer.from('00112233445566778899aabbccddeeff', 'hex').copy(apsb, 240)
+  apsb.writeBigUInt64LE(1n, 264)
+  seal(apsb)
+
+  c.omap(7, 8)
+  c.node(8, 1n, TYPE_OMAP, [mapping(ROOT_TREE_OID, 1n, 9), mapping(ROOT_TREE_OID, 2n, 10)])
+
+  // beach.jpg (inode 16) is named by its directory entry; kept.jpg survives
+  c.node(9, 1n, TYPE_FSTREE, [
+    inode(16n, 2n, 6000n),
+    inode(17n, 2n, 100n, 'kept.jpg'),
+    extent(16n, 0n, 2 * BLOCK, 12),
+    dirEntry(2n, 16n, 'beach.jpg')
+  ])
+  c.node(10, 2n, TYPE_FSTREE, [inode(17n, 2n, 100n, 'kept.jpg')])
+
+  // A leaf no checkpoint references any more, left in a free block
+  c.node(11, 1n, TYPE_FSTREE, [inode(18n, 2n, 10n, 'orphan.png'), extent(18n, 0n, BLOCK, 14)], false)
+
+  c.spaceManager(allocated)
+  return c
+}
+
+/** Every block but the orphaned leaf in block 11 and the file data */
+const METADATA = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 16, 17]
+
+const parse = (c: Container): Promise<RecoverableFile[]> => new ApfsParser(new BufferReader(c.data)).parse()
+
+describe('ApfsParser', () => {
+  it('reports files missing from the newest tree, with names and extents from older checkpoints', async () => {
+    const files = await parse(container(METADATA))
+
+    expect(files.map((f) => [f.name, f.type, f.size, f.fragments])).toEqual([
+      ['beach.jpg', 'jpeg', 6000n, [{ offset: 12n * 4096n, size: 8192n }]],
+      ['orphan.png', 'png', 10n, [{ offset: 14n * 4096n, size: 4096n }]]
+    ])
+    expect(files[0].metadata?.createdAt).toEqual(CREATED)
+    expect(files.map((f) => f.recoverability)).toEqual(['good', 'good'])
+  })
+
+  it('checks the data blocks against the space manager bitmap', async () => {
+    // Block 13, the second block of beach.jpg, has been reused
+    const files = await parse(container([...METADATA, 13]))
+
+    expect(files.map((f) => [f.name, f.recoverability])).toEqual([
+      ['beach.jpg', 'partial'],
+      ['orphan.png', 'good']
+    ])
+  })
+
+  it('looks for orphaned leaves in free space only', async () => {
+    const files = await parse(container([...METADATA, 11]))
+
+    expect(files.map((f) => f.name)).toEqual(['beach.jpg'])
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest'
+import { BtrfsParser } from './btrfs-parser'
+import { BufferReader } from '../../io/buffer-reader'
+import { crc32c } from '../../utils/crc32'
+import type { RecoverableFile } from '../../../shared/types'
+
+const NODE = 4096
+const MIB = 1024 * 1024
+/** One chunk maps logical addresses 1:1 onto the second megabyte */
+const CHUNK_START = MIB
+
+const FSID = Buffer.from('0102030405060708090a0b0c0d0e0f10', 'hex')
+const OTHER_FSID = Buffer.from('f0e0d0c0b0a090807060504030201000', 'hex')
+
+const INODE_ITEM = 1
+const INODE_REF = 12
+const EXTENT_DATA = 108
+const ROOT_ITEM = 132
+const CHUNK_ITEM = 228
+
+const ROOT_TREE = 1n
+const CHUNK_TREE = 3n
+const FS_TREE = 5n
+
+const S_IFDIR = 0o040000
+const S_IFREG = 0o100000
+
+const WHEN = new Date('2024-05-06T07:08:09.000Z')
+
+interface Item {
+  objectId: bigint
+  type: number
+  offset: bigint
+  data: Buffer
+}
+
+/** The block at `n` nodes into the chunk */
+const at = (n: number): bigint => BigInt(CHUNK_START + n * NODE)
+
+function inodeItem(id: bigint, mode: number, size: bigint): Item {
+  const data = Buffer.alloc(160)
+  data.writeBigUInt64LE(size, 16)
+  data.writeUInt32LE(mode, 52)
+  data.writeBigUInt64LE(BigInt(WHEN.getTime() / 1000), 136)
+  data.writeBigUInt64LE(BigInt(WHEN.getTime() / 1000), 148)
+  return { objectId: id, type: INODE_ITEM, offset: 0n, data }
+}
+
+function inodeRef(id: bigint, parent: bigint, name: string): Item {
+  const raw = Buffer.from(name, 'utf8')
+  const data = Buffer.alloc(10 + raw.length)
+  data.writeUInt16LE(raw.length, 8)
+  raw.copy(data, 10)
+  return { objectId: id, type: INODE_REF, offset: parent, data }
+}
+
+function regularExtent(id: bigint, diskBytenr: bigint, length: bigint, compression = 0): Item {
+  const data = Buffer.alloc(53)
+  data.writeBigUInt64LE(length, 8)
+  data[16] = compression
+  data[20] = 1
+  data.writeBigUInt64LE(diskBytenr, 21)
+  data.writeBigUInt64LE(length, 29)
+  data.writeBigUInt64LE(length, 45)
+  return { objectId: id, type: EXTENT_DATA, offset: 0n, data }
+}
+
+function inlineExtent(id: bigint, content: Buffer): Item {
+  const data = Buffer.alloc(21 + content.length)
+  data.writeBigUInt64LE(BigInt(content.length), 8)
+  content.copy(data, 21)
+  return { objectId: id, type: EXTENT_DATA, offset: 0n, data }
+}
+
+function rootItem(treeId: bigint, bytenr: bigint): Item {
+  const data = Buffer.alloc(439)
+  data.writeBigUInt64LE(bytenr, 176)
+  return { objectId: treeId, type: ROOT_ITEM, offset: 0n, data }
+}
+
+/** A chunk item with one stripe on device 1. */
+function chunkItem(): Buffer {
+  const item = Buffer.alloc(48 + 32)
+  item.writeBigUInt64LE(BigInt(MIB), 0)
+  item.writeBigUInt64LE(0x7n, 24)
+  item.writeUInt16LE(1, 44)
+  item.writeBigUInt64LE(1n, 48)
+  item.writeBigUInt64LE(BigInt(CHUNK_START), 56)
+  return item
+}
+
+/** A two-megabyte device: the superblock, then one mixed chunk. */
+class Volume {
+  readonly data = Buffer.alloc(2 * MIB)
+
+  constructor() {
+    this.leaf(0, CHUNK_TREE, 10n, [
+      { objectId: 256n, type: CHUNK_ITEM, offset: BigInt(CHUNK_START), data: chunkItem() }
+    ])
+  }
+
+  /**
+   * A leaf at logical address `at(n)`, items packed from the end of the
+   * block. Returns the device offset of each item's data.
+   */
+  leaf(n: number, owner: bigint, generation: bigint, items: Item[], fsid = FSID): bigint[] {
+    const block = this.data.subarray(Number(at(n)), Number(at(n)) + NODE)
+    fsid.copy(block, 32)
+    block.writeBigUInt64LE(at(n), 48)
+    block.writeBigUInt64LE(generation, 80)
+    block.writeBigUInt64LE(owner, 88)
+    block.writeUInt32LE(items.length, 96)
+
+    let end = NODE - 101
+    const offsets = items.map((item, i) => {
+      const pos = 101 + i * 25
+      end -= item.data.length
+      block.writeBigUInt64LE(item.objectId, pos)
+      block[pos + 8] = item.type
+      block.writeBigUInt64LE(item.offset, pos + 9)
+      block.writeUInt32LE(end, pos + 17)
+      block.writeUInt32LE(item.data.length, pos + 21)
+      item.data.copy(block, 101 + end)
+      return at(n) + BigInt(101 + end)
+    })
+    block.writeUInt32LE(crc32c(block.subarray(32)), 0)
+    return offsets
+  }
+
+  /** The primary superblock, with one backup root pair. */
+  superblock(root: bigint, backup: { treeRoot: bigint; fsRoot: bigint }): void {
+    const sb = this.data.subarray(0x10000, 0x11000)
+    FSID.copy(sb, 0x20)
+    sb.writeBigUInt64LE(0x10000n, 0x30)
+    sb.write('_BHRfS_M', 0x40, 'ascii')
+    sb.writeBigUInt64LE(10n, 0x48)
+    sb.writeBigUInt64LE(root, 0x50)
+    sb.writeBigUInt64LE(at(0), 0x58)
+    sb.writeBigUInt64LE(BigInt(this.data.length), 0x70)
+    sb.writeUInt32LE(NODE, 0x90)
+    sb.writeUInt32LE(NODE, 0x94)
+    sb.writeBigUInt64LE(1n, 0xc9)
+
+    const key = Buffer.alloc(17)
+    key.writeBigUInt64LE(256n, 0)
+    key[8] = CHUNK_ITEM
+    key.writeBigUInt64LE(BigInt(CHUNK_START), 9)
+    const array = Buffer.concat([key, chunkItem()])
+    sb.writeUInt32LE(array.length, 0xa0)
+    array.copy(sb, 0x32b)
+
+    sb.writeBigUInt64LE(backup.treeRoot, 0xb2b)
+    sb.writeBigUInt64LE(backup.fsRoot, 0xb2b + 48)
+    sb.writeUInt32LE(crc32c(sb.subarray(32)), 0)
+  }
+
+  parse(): Promise<RecoverableFile[]> {
+    return new BtrfsParser(new BufferReader(this.data)).parse()
+  }
+}
+
+/**
+ * Generation 10 is current: its filesystem tree holds the root directory
+ * and kept.jpg. The backup root of generation 9 still lists beach.jpg,
+ * whose data extent sits at block 20 of the chunk.
+ */
+function volume(): Volume {
+  const v = new Volume()
+  v.leaf(1, ROOT_TREE, 10n, [rootItem(FS_TREE, at(2))])
+  v.leaf(2, FS_TREE, 10n, [inodeItem(256n, S_IFDIR | 0o755, 0n), inodeItem(258n, S_IFREG | 0o644, 100n)])
+  v.leaf(3, ROOT_TREE, 9n, [rootItem(FS_TREE, at(4))])
+  v.leaf(4, FS_TREE, 9n, [
+    inodeItem(256n, S_IFDIR | 0o755, 0n),
+    inodeItem(257n, S_IFREG | 0o644, 6000n),
+    inodeRef(257n, 256n, 'beach.jpg'),
+    regularExtent(257n, at(20), 8192n),
+    inodeItem(258n, S_IFREG | 0o644, 100n)
+  ])
+  v.superblock(at(1), { treeRoot: at(3), fsRoot: at(4) })
+  return v
+}
+
+describe('BtrfsParser', () => {
+  it('reads files missing from the current trees out of the backup roots', async () => {
+    const files = await volume().parse()
+
+    expect(files.map((f) => [f.name, f.type, f.size, f.fragments])).toEqual([
+      ['beach.jpg', 'jpeg', 6000n, [{ offset: at(20), size: 6000n }]]
+    ])
+    expect(files[0].metadata?.createdAt).toEqual(WHEN)
+  })
+
+  it('finds filesystem-tree leaves left in metadata space', async () => {
+    const v = volume()
+    const notes = Buffer.from('{\\rtf1 hello}')
+    const [, , inline] = v.leaf(6, FS_TREE, 7n, [
+      inodeItem(259n, S_IFREG | 0o644, BigInt(notes.length)),
+      inodeRef(259n, 256n, 'notes.rtf'),
+      inlineExtent(259n, notes),
+      inodeItem(260n, S_IFREG | 0o644, 50000n),
+      inodeRef(260n, 256n, 'clip.mp4'),
+      regularExtent(260n, at(30), 16384n, 1)
+    ])
+
+    const files = await v.parse()
+
+    expect(files.map((f) => [f.name, f.fragments, f.recoverability, f.compressed])).toEqual([
+      ['beach.jpg', [{ offset: at(20), size: 6000n }], 'partial', undefined],
+      ['notes.rtf', [{ offset: inline + 21n, size: BigInt(notes.length) }], 'partial', undefined],
+      ['clip.mp4', [], 'poor', true]
+    ])
+  })
+
+  it('ignores tree blocks stamped with another filesystem id', async () => {
+    const v = volume()
+    v.leaf(6, FS_TREE, 7n, [inodeItem(259n, S_IFREG | 0o644, 10n), inlineExtent(259n, Buffer.alloc(10))], OTHER_FSID)
+
+    expect((await v.parse()).map((f) => f.name)).toEqual(['beach.jpg'])
+  })
+})
@@ -0,0 +1,949 @@
+/**
+ * Btrfs Filesystem Parser
+ *
+ * Recovers deleted files from a Btrfs volume. Btrfs is copy-on-write:
+ * every commit writes new tree blocks and a new tree root, and the blocks
+ * of earlier generations are only freed, not erased. Records for a deleted
+ * file survive in those blocks until they are reused.
+ *
+ * Recovery strategy:
+ *   1. Read the superblock and its mirrors, then the chunk tree to map
+ *      logical addresses to device offsets
+ *   2. Walk the current root tree and every filesystem tree to learn which
+ *      inodes still exist
+ *   3. Walk the trees of the backup roots kept in each superblock
+ *   4. Scan metadata chunks and unallocated device space for tree blocks
+ *      of this filesystem: filesystem-tree leaves are read directly, and
+ *      old root-tree leaves lead to older filesystem-tree roots
+ *   5. Rebuild INODE_ITEM / INODE_REF / DIR_ITEM / EXTENT_DATA records for
+ *      regular files missing from the current trees
+ *
+ * Inline extents are returned as fragments pointing into the leaf that
+ * holds them. Compressed extents cannot be copied out as-is, so they are
+ * left out of the fragments and the file is marked `compressed`.
+ *
+ * Only single-device volumes, or the profiles that keep a full copy on
+ * each device (single, DUP, RAID1), can be mapped.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SourceReader } from '../../io/images'
+import { crc32c } from '../../utils/crc32'
+import type {
+  RecoverableFile,
+  FileFragment,
+  FileType,
+  FileCategory,
+} from '../../../shared/types'
+
+// ─── Btrfs Superblock Fields ────────────────────────────────────
+
+interface BtrfsSuperblock {
+  /** UUID stamped into every tree block header */
+  metadataUuid: string
+  generation: bigint
+  /** Logical address of the root tree */
+  root: bigint
+  /** Logical address of the chunk tree */
+  chunkRoot: bigint
+  totalBytes: bigint
+  sectorSize: number
+  nodeSize: number
+  /** 0 = crc32c; other checksum types are not verified */
+  csumType: number
+  /** Id of the device this superblock was read from */
+  devId: bigint
+  sysChunkArray: Buffer
+  backupRoots: BackupRoot[]
+}
+
+interface BackupRoot {
+  treeRoot: bigint
+  fsRoot: bigint
+}
+
+/** A chunk as seen from this device. */
+interface Chunk {
+  logical: bigint
+  length: bigint
+  /** Device offset of the copy on this device */
+  physical: bigint
+  type: bigint
+}
+
+// ─── Tree Structures ────────────────────────────────────────────
+
+interface BtrfsKey {
+  objectId: bigint
+  type: number
+  offset: bigint
+}
+
+interface LeafItem {
+  key: BtrfsKey
+  data: Buffer
+  /** Offset of `data` within the tree block */
+  dataOffset: number
+}
+
+interface KeyPtr {
+  key: BtrfsKey
+  blockPtr: bigint
+}
+
+interface TreeBlock {
+  bytenr: bigint
+  generation: bigint
+  owner: bigint
+  level: number
+  items: LeafItem[]
+  ptrs: KeyPtr[]
+}
+
+// ─── Filesystem Records ─────────────────────────────────────────
+
+interface InodeRecord {
+  size: bigint
+  mode: number
+  createdAt: Date | undefined
+  modifiedAt: Date | undefined
+  generation: bigint
+}
+
+interface NameRecord {
+  parentId: bigint
+  name: string
+  generation: bigint
+}
+
+type ExtentRecord =
+  | {
+      kind: 'inline'
+      /** Device offset of the inline data */
+      physical: bigint
+      length: bigint
+      compressed: boolean
+      generation: bigint
+    }
+  | {
+      kind: 'regular'
+      /** Logical address of the file data, already offset into the extent */
+      logical: bigint
+      length: bigint
+      compressed: boolean
+      prealloc: boolean
+      generation: bigint
+    }
+
+/** Records of one filesystem tree (the top-level tree or a subvolume). */
+interface Catalog {
+  inodes: Map<bigint, InodeRecord>
+  names: Map<bigint, NameRecord>
+  /** Keyed by inode, then file offset */
+  extents: Map<bigint, Map<bigint, ExtentRecord>>
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const SUPERBLOCK_OFFSETS = [0x10000n, 0x4000000n, 0x4000000000n]
+const SUPERBLOCK_SIZE = 4096
+const BTRFS_MAGIC = '_BHRfS_M'
+
+/** Tree block header size; leaf item data offsets are relative to its end. */
+const HEADER_SIZE = 101
+const LEAF_ITEM_SIZE = 25
+const KEY_PTR_SIZE = 33
+
+/** Item types */
+const INODE_ITEM_KEY = 1
+const INODE_REF_KEY = 12
+const DIR_ITEM_KEY = 84
+const DIR_INDEX_KEY = 96
+const EXTENT_DATA_KEY = 108
+const ROOT_ITEM_KEY = 132
+const CHUNK_ITEM_KEY = 228
+
+/** Tree ids */
+const ROOT_TREE_OBJECTID = 1n
+const FS_TREE_OBJECTID = 5n
+const FIRST_FREE_OBJECTID = 256n
+const LAST_FREE_OBJECTID = 0xffffffffffffff00n
+
+/** Chunk type flags */
+const BLOCK_GROUP_SYSTEM = 0x2n
+const BLOCK_GROUP_METADATA = 0x4n
+const BLOCK_GROUP_STRIPED = 0x8n | 0x40n | 0x80n | 0x100n // RAID0, RAID10, RAID5, RAID6
+
+/** File extent types */
+const FILE_EXTENT_INLINE = 0
+const FILE_EXTENT_PREALLOC = 2
+/** Inline extent header before the data */
+const INLINE_HEADER_SIZE = 21
+
+/** Directory entry type for regular files */
+const FT_REG_FILE = 1
+
+const S_IFMT = 0o170000
+const S_IFREG = 0o100000
+
+/** Incompat flag: tree blocks carry metadata_uuid instead of fsid */
+const INCOMPAT_METADATA_UUID = 0x400n
+
+/** Maximum tree blocks to read across all walks (safety limit) */
+const MAX_TREE_NODES = 1_000_000
+
+/** Maximum tree depth (Btrfs allows 8 levels) */
+const MAX_TREE_DEPTH = 8
+
+/** Maximum bytes to scan for stray tree blocks (safety limit) */
+const MAX_SCAN_BYTES = 8n * 1024n * 1024n * 1024n
+
+/** Bytes read per request during the raw scan */
+const SCAN_CHUNK_SIZE = 1024 * 1024
+
+/** Tree blocks kept in memory while walking trees */
+const MAX_CACHED_BLOCKS = 4096
+
+// ─── Extension to FileType mapping ──────────────────────────────
+
+const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
+  jpg: { type: 'jpeg', category: 'photo' },
+  jpeg: { type: 'jpeg', category: 'photo' },
+  png: { type: 'png', category: 'photo' },
+  heic: { type: 'heic', category: 'photo' },
+  cr2: { type: 'cr2', category: 'photo' },
+  nef: { type: 'nef', category: 'photo' },
+  arw: { type: 'arw', category: 'photo' },
+  mp4: { type: 'mp4', category: 'video' },
+  mov: { type: 'mov', category: 'video' },
+  avi: { type: 'avi', category: 'video' },
+  pdf: { type: 'pdf', category: 'document' },
+  docx: { type: 'docx', category: 'document' },
+  xlsx: { type: 'xlsx', category: 'document' },
+  rtf: { type: 'rtf', category: 'document' },
+  pptx: { type: 'pptx', category: 'document' },
+  gif: { type: 'gif', category: 'photo' },
+  webp: { type: 'webp', category: 'photo' },
+  psd: { type: 'psd', category: 'photo' },
+  mkv: { type: 'mkv', category: 'video' },
+  webm: { type: 'mkv', category: 'video' },
+  flv: { type: 'flv', category: 'video' },
+  wmv: { type: 'wmv', category: 'video' },
+  mp3: { type: 'mp3', category: 'audio' },
+  wav: { type: 'wav', category: 'audio' },
+  flac: { type: 'flac', category: 'audio' },
+  ogg: { type: 'ogg', category: 'audio' },
+  m4a: { type: 'm4a', category: 'audio' },
+  zip: { type: 'zip', category: 'archive' },
+  rar: { type: 'rar', category: 'archive' },
+  '7z': { type: '7z', category: 'archive' },
+  gz: { type: 'gz', category: 'archive' },
+  bz2: { type: 'bz2', category: 'archive' },
+  xz: { type: 'xz', category: 'archive' },
+  tar: { type: 'tar', category: 'archive' },
+  sqlite: { type: 'sqlite', category: 'database' },
+  db: { type: 'sqlite', category: 'database' },
+  dat: { type: 'bdb', category: 'database' },
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class BtrfsParser {
+  private reader: SourceReader
+  private sb: BtrfsSuperblock | null = null
+  private chunks: Chunk[] = []
+  private blockCache = new Map<bigint, TreeBlock>()
+  /** Tree blocks already parsed, as `bytenr:generation`. */
+  private visitedBlocks = new Set<string>()
+  private nodesRead = 0
+  /** Records per filesystem tree id. */
+  private catalogs = new Map<bigint, Catalog>()
+  /** Inode ids per filesystem tree in the current generation. */
+  private live = new Map<bigint, Set<bigint>>()
+  /** Whether the current root tree and all its filesystem trees were read. */
+  private liveComplete = true
+  /** Filesystem tree roots from old root-tree leaves found on disk. */
+  private strayRoots = new Map<bigint, bigint>()
+
+  constructor(reader: SourceReader) {
+    this.reader = reader
+  }
+
+  async parse(): Promise<RecoverableFile[]> {
+    const supers = await this.readSuperblocks()
+    if (supers.length === 0) return []
+    this.sb = supers[0]
+
+    if (!(await this.loadChunks())) return []
+
+    // Current trees: which inodes still exist
+    await this.walkRootTree(this.sb.root, true)
+
+    // Strategy 1: Backup roots from every superblock copy
+    const seenRoots = new Set<bigint>()
+    for (const sb of supers) {
+      for (const backup of sb.backupRoots) {
+        if (backup.treeRoot !== 0n && !seenRoots.has(backup.treeRoot)) {
+          seenRoots.add(backup.treeRoot)
+          await this.walkRootTree(backup.treeRoot, false)
+        }
+        if (backup.fsRoot !== 0n && !seenRoots.has(backup.fsRoot)) {
+          seenRoots.add(backup.fsRoot)
+          await this.walkTree(backup.fsRoot, FS_TREE_OBJECTID, null, 0)
+        }
+      }
+    }
+
+    // Strategy 2: Stray tree blocks in metadata chunks and unallocated space
+    await this.scanForTreeBlocks()
+    for (const [bytenr, treeId] of this.strayRoots) {
+      if (!seenRoots.has(bytenr)) await this.walkTree(bytenr, treeId, null, 0)
+    }
+
+    return this.collectDeletedFiles()
+  }
+
+  // ─── Superblock Parsing ─────────────────────────────────────
+
+  /**
+   * Read the primary superblock and its mirrors. Copies are returned
+   * newest first and must belong to the same filesystem as the first.
+   */
+  private async readSuperblocks(): Promise<BtrfsSuperblock[]> {
+    const supers: BtrfsSuperblock[] = []
+
+    for (const offset of SUPERBLOCK_OFFSETS) {
+      if (this.reader.size > 0n && offset + BigInt(SUPERBLOCK_SIZE) > this.reader.size) break
+
+      let buf: Buffer
+      try {
+        buf = await this.reader.read(offset, SUPERBLOCK_SIZE)
+      } catch {
+        continue
+      }
+      if (buf.length < SUPERBLOCK_SIZE) continue
+
+      const sb = parseSuperblock(buf)
+      if (!sb || (supers.length > 0 && sb.metadataUuid !== supers[0].metadataUuid)) continue
+      supers.push(sb)
+    }
+
+    return supers.sort((a, b) => (a.generation > b.generation ? -1 : a.generation < b.generation ? 1 : 0))
+  }
+
+  // ─── Chunk Mapping ──────────────────────────────────────────
+
+  /**
+   * Build the logical-to-device map: the system chunks embedded in the
+   * superblock first, since the chunk tree itself lives in them.
+   */
+  private async loadChunks(): Promise<boolean> {
+    const sb = this.sb!
+    const array = sb.sysChunkArray
+
+    let pos = 0
+    while (pos + 17 + 48 <= array.length) {
+      const key = readKey(array, pos)
+      const chunk = this.parseChunkItem(array, pos + 17, key.offset)
+      if (!chunk) break
+      pos += 17 + 48 + array.readUInt16LE(pos + 17 + 44) * 32
+      if (chunk.physical >= 0n) this.addChunk(chunk)
+    }
+    if (this.chunks.length === 0) return false
+
+    await this.walkChunkTree(sb.chunkRoot, 0)
+    return true
+  }
+
+  private async walkChunkTree(bytenr: bigint, depth: number): Promise<void> {
+    if (depth > MAX_TREE_DEPTH) return
+    const block = await this.readTreeBlock(bytenr)
+    if (!block) return
+
+    if (block.level > 0) {
+      for (const ptr of block.ptrs) await this.walkChunkTree(ptr.blockPtr, depth + 1)
+      return
+    }
+
+    for (const item of block.items) {
+      if (item.key.type !== CHUNK_ITEM_KEY) continue
+      const chunk = this.parseChunkItem(item.data, 0, item.key.offset)
+      if (chunk && chunk.physical >= 0n) this.addChunk(chunk)
+    }
+  }
+
+  /**
+   * Parse a chunk item and pick the stripe on this device. Striped
+   * profiles spread data over several devices and cannot be mapped from
+   * one of them; their physical offset is returned as -1.
+   */
+  private parseChunkItem(buf: Buffer, pos: number, logical: bigint): Chunk | null {
+    if (pos + 48 > buf.length) return null
+    const length = buf.readBigUInt64LE(pos)
+    const type = buf.readBigUInt64LE(pos + 24)
+    const numStripes = buf.readUInt16LE(pos + 44)
+    if (length === 0n || numStripes === 0 || pos + 48 + numStripes * 32 > buf.length) return null
+
+    let physical = -1n
+    if ((type & BLOCK_GROUP_STRIPED) === 0n || numStripes === 1) {
+      for (let i = 0; i < numStripes; i++) {
+        const stripe = pos + 48 + i * 32
+        if (buf.readBigUInt64LE(stripe) === this.sb!.devId) {
+          physical = buf.readBigUInt64LE(stripe + 8)
+          break
+        }
+      }
+    }
+
+    return { logical, length, physical, type }
+  }
+
+  private addChunk(chunk: Chunk): void {
+    if (this.chunks.some((c) => c.logical === chunk.logical)) return
+    this.chunks.push(chunk)
+    this.chunks.sort((a, b) => (a.logical < b.logical ? -1 : a.logical > b.logical ? 1 : 0))
+  }
+
+  /** Map a logical address to a device offset, or null if unmapped. */
+  private toPhysical(logical: bigint): bigint | null {
+    let lo = 0
+    let hi = this.chunks.length - 1
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1
+      const chunk = this.chunks[mid]
+      if (logical < chunk.logical) {
+        hi = mid - 1
+      } else if (logical >= chunk.logical + chunk.length) {
+        lo = mid + 1
+      } else {
+        return chunk.physical + (logical - chunk.logical)
+      }
+    }
+    return null
+  }
+
+  // ─── Tree Walking ───────────────────────────────────────────
+
+  /**
+   * Walk a root tree and every filesystem tree it lists. With `current`
+   * set, the inodes found are recorded as live.
+   */
+  private async walkRootTree(bytenr: bigint, current: boolean): Promise<void> {
+    const roots = new Map<bigint, bigint>()
+    const complete = await this.collectRootItems(bytenr, roots, 0)
+    if (current && !complete) this.liveComplete = false
+
+    for (const [treeId, rootBytenr] of roots) {
+      const live = current ? new Set<bigint>() : null
+      const ok = await this.walkTree(rootBytenr, treeId, live, 0)
+      if (live) {
+        this.live.set(treeId, live)
+        if (!ok) this.liveComplete = false
+      }
+    }
+  }
+
+  private async collectRootItems(
+    bytenr: bigint,
+    roots: Map<bigint, bigint>,
+    depth: number
+  ): Promise<boolean> {
+    if (depth > MAX_TREE_DEPTH) return false
+    const block = await this.readTreeBlock(bytenr)
+    if (!block) return false
+
+    if (block.level > 0) {
+      let complete = true
+      for (const ptr of block.ptrs) {
+        const ok = await this.collectRootItems(ptr.blockPtr, roots, depth + 1)
+        complete = complete && ok
+      }
+      return complete
+    }
+
+    collectFsTreeRoots(block, roots)
+    return true
+  }
+
+  /**
+   * Walk a filesystem tree, recording every leaf item. Blocks already
+   * parsed are skipped unless `live` is being collected. Returns false
+   * if part of the tree was unreadable.
+   */
+  private async walkTree(
+    bytenr: bigint,
+    treeId: bigint,
+    live: Set<bigint> | null,
+    depth: number
+  ): Promise<boolean> {
+    if (depth > MAX_TREE_DEPTH || this.nodesRead >= MAX_TREE_NODES) return false
+
+    const block = await this.readTreeBlock(bytenr)
+    if (!block) return false
+
+    const key = `${block.bytenr}:${block.generation}`
+    if (!live && this.visitedBlocks.has(key)) return true
+    this.visitedBlocks.add(key)
+    this.nodesRead++
+
+    if (block.level === 0) {
+      const physical = this.toPhysical(bytenr)
+      if (physical !== null) this.addRecords(block, physical, treeId, live)
+      return true
+    }
+
+    let complete = true
+    for (const ptr of block.ptrs) {
+      const ok = await this.walkTree(ptr.blockPtr, treeId, live, depth + 1)
+      complete = complete && ok
+    }
+    return complete
+  }
+
+  // ─── Raw Block Scanning ─────────────────────────────────────
+
+  /**
+   * Scan metadata chunks, where freed tree blocks stay until reused, and
+   * device space outside any chunk, which may hold blocks of chunks that
+   * were since removed.
+   */
+  private async scanForTreeBlocks(): Promise<void> {
+    const sb = this.sb!
+    const deviceEnd = this.reader.size > 0n ? this.reader.size : sb.totalBytes
+
+    const allocated = this.chunks
+      .filter((c) => c.physical >= 0n)
+      .map((c) => ({ start: c.physical, end: c.physical + c.length, meta: (c.type & (BLOCK_GROUP_METADATA | BLOCK_GROUP_SYSTEM)) !== 0n }))
+      .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+
+    const ranges: Array<{ start: bigint; end: bigint }> = []
+    // The first megabyte holds the superblock and boot area, never chunks.
+    let cursor = 0x100000n
+    for (const range of allocated) {
+      if (range.start > cursor) ranges.push({ start: cursor, end: range.start })
+      if (range.meta) ranges.push({ start: range.start, end: range.end })
+      if (range.end > cursor) cursor = range.end
+    }
+    if (deviceEnd > cursor) ranges.push({ start: cursor, end: deviceEnd })
+
+    let budget = MAX_SCAN_BYTES
+    for (const range of ranges) {
+      if (budget <= 0n) break
+      const end = range.end - range.start > budget ? range.start + budget : range.end
+      await this.scanRange(range.start, end)
+      budget -= end - range.start
+    }
+  }
+
+  private async scanRange(start: bigint, end: bigint): Promise<void> {
+    const sb = this.sb!
+    const step = sb.sectorSize
+
+    for (let offset = start; offset < end; offset += BigInt(SCAN_CHUNK_SIZE)) {
+      const remaining = end - offset
+      const length = remaining < BigInt(SCAN_CHUNK_SIZE + sb.nodeSize)
+        ? Number(remaining)
+        : SCAN_CHUNK_SIZE + sb.nodeSize
+
+      let buf: Buffer
+      try {
+        buf = await this.reader.read(offset, length)
+      } catch {
+        continue
+      }
+
+      for (let pos = 0; pos < SCAN_CHUNK_SIZE && pos + sb.nodeSize <= buf.length; pos += step) {
+        // Cheap header checks before the checksum.
+        if (buf.toString('hex', pos + 32, pos + 48) !== sb.metadataUuid) continue
+
+        const raw = buf.subarray(pos, pos + sb.nodeSize)
+        const block = this.parseTreeBlock(raw)
+        if (!block || block.level !== 0) continue
+
+        const key = `${block.bytenr}:${block.generation}`
+        if (this.visitedBlocks.has(key)) continue
+        this.visitedBlocks.add(key)
+
+        if (block.owner === ROOT_TREE_OBJECTID) {
+          const roots = new Map<bigint, bigint>()
+          collectFsTreeRoots(block, roots)
+          for (const [treeId, bytenr] of roots) this.strayRoots.set(bytenr, treeId)
+        } else if (isFsTree(block.owner)) {
+          this.addRecords(block, offset + BigInt(pos), block.owner, null)
+        }
+      }
+    }
+  }
+
+  // ─── Record Extraction ──────────────────────────────────────
+
+  private addRecords(
+    block: TreeBlock,
+    physical: bigint,
+    treeId: bigint,
+    live: Set<bigint> | null
+  ): void {
+    let catalog = this.catalogs.get(treeId)
+    if (!catalog) {
+      catalog = { inodes: new Map(), names: new Map(), extents: new Map() }
+      this.catalogs.set(treeId, catalog)
+    }
+    const generation = block.generation
+
+    for (const item of block.items) {
+      const { key, data } = item
+
+      switch (key.type) {
+        case INODE_ITEM_KEY: {
+          if (data.length < 160) break
+          live?.add(key.objectId)
+          const existing = catalog.inodes.get(key.objectId)
+          if (existing && existing.generation > generation) break
+          catalog.inodes.set(key.objectId, {
+            size: data.readBigUInt64LE(16),
+            mode: data.readUInt32LE(52),
+            modifiedAt: parseTimespec(data, 136),
+            createdAt: parseTimespec(data, 148),
+            generation,
+          })
+          break
+        }
+
+        case INODE_REF_KEY: {
+          // One item may hold several references; the first is enough.
+          if (data.length < 10) break
+          const nameLength = data.readUInt16LE(8)
+          if (10 + nameLength > data.length) break
+          setName(catalog, key.objectId, {
+            parentId: key.offset,
+            name: data.toString('utf8', 10, 10 + nameLength),
+            generation,
+          })
+          break
+        }
+
+        case DIR_ITEM_KEY:
+        case DIR_INDEX_KEY: {
+          let pos = 0
+          while (pos + 30 <= data.length) {
+            const target = data.readBigUInt64LE(pos)
+            const targetType = data[pos + 8]
+            const dataLength = data.readUInt16LE(pos + 25)
+            const nameLength = data.readUInt16LE(pos + 27)
+            const fileType = data[pos + 29]
+            if (pos + 30 + nameLength > data.length) break
+
+            if (targetType === INODE_ITEM_KEY && fileType === FT_REG_FILE && !catalog.names.has(target)) {
+              setName(catalog, target, {
+                parentId: key.objectId,
+                name: data.toString('utf8', pos + 30, pos + 30 + nameLength),
+                generation,
+              })
+            }
+            pos += 30 + nameLength + dataLength
+          }
+          break
+        }
+
+        case EXTENT_DATA_KEY: {
+          const extent = parseFileExtent(data, physical + BigInt(item.dataOffset), generation)
+          if (!extent) break
+
+          let extents = catalog.extents.get(key.objectId)
+          if (!extents) {
+            extents = new Map()
+            catalog.extents.set(key.objectId, extents)
+          }
+          const existing = extents.get(key.offset)
+          if (existing && existing.generation > generation) break
+          extents.set(key.offset, extent)
+          break
+        }
+      }
+    }
+  }
+
+  // ─── Result Building ────────────────────────────────────────
+
+  private collectDeletedFiles(): RecoverableFile[] {
+    const results: RecoverableFile[] = []
+
+    for (const [treeId, catalog] of this.catalogs) {
+      // A tree missing from the current root tree is a deleted subvolume,
+      // but only if the current root tree was read in full.
+      const live = this.live.get(treeId)
+      if (!live && !this.liveComplete) continue
+
+      for (const [inodeId, inode] of catalog.inodes) {
+        if (live?.has(inodeId)) continue
+        const file = this.buildRecoverableFile(inodeId, inode, catalog)
+        if (file) results.push(file)
+      }
+    }
+
+    return results
+  }
+
+  private buildRecoverableFile(
+    inodeId: bigint,
+    inode: InodeRecord,
+    catalog: Catalog
+  ): RecoverableFile | null {
+    if ((inode.mode & S_IFMT) !== S_IFREG || inode.size === 0n) return null
+
+    const extents = [...(catalog.extents.get(inodeId) ?? new Map<bigint, ExtentRecord>())]
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    if (extents.length === 0) return null
+
+    const fragments: FileFragment[] = []
+    let compressed = false
+    let firstPhysical: bigint | null = null
+
+    for (const [fileOffset, extent] of extents) {
+      if (fileOffset >= inode.size) continue
+
+      const physical = extent.kind === 'inline' ? extent.physical : this.toPhysical(extent.logical)
+      if (physical === null) continue
+      if (firstPhysical === null) firstPhysical = physical
+
+      if (extent.compressed) {
+        compressed = true
+        continue
+      }
+      if (extent.kind === 'regular' && extent.prealloc) continue
+
+      // The last extent may run past the end of the file.
+      const remaining = inode.size - fileOffset
+      const size = extent.length < remaining ? extent.length : remaining
+      fragments.push({ offset: physical, size })
+    }
+
+    if (firstPhysical === null) return null
+
+    const nameRecord = catalog.names.get(inodeId)
+    const name = nameRecord?.name ?? `btrfs_${inodeId}_recovered`
+
+    const dotIndex = name.lastIndexOf('.')
+    const extension = dotIndex >= 0 ? name.substring(dotIndex + 1).toLowerCase() : ''
+
+    const mapping = EXTENSION_MAP[extension]
+    const fileType: FileType = mapping?.type ?? 'jpeg'
+    const category: FileCategory = mapping?.category ?? 'photo'
+
+    // Freed data extents may already be reused; only the compressed case
+    // is known to be unrecoverable as-is.
+    let recoverability: 'good' | 'partial' | 'poor' = 'partial'
+    if (compressed) recoverability = 'poor'
+
+    return {
+      id: randomUUID(),
+      type: fileType,
+      category,
+      offset: fragments[0]?.offset ?? firstPhysical,
+      size: inode.size,
+      sizeEstimated: false,
+      name,
+      extension: extension || 'bin',
+      recoverability,
+      source: 'metadata',
+      fragments,
+      compressed: compressed || undefined,
+      metadata: {
+        originalName: name,
+        createdAt: inode.createdAt,
+        modifiedAt: inode.modifiedAt,
+      },
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  /** Read and verify a tree block by logical address. */
+  private async readTreeBlock(bytenr: bigint): Promise<TreeBlock | null> {
+    const cached = this.blockCache.get(bytenr)
+    if (cached) return cached
+
+    const physical = this.toPhysical(bytenr)
+    if (physical === null) return null
+
+    let buf: Buffer
+    try {
+      buf = await this.reader.read(physical, this.sb!.nodeSize)
+    } catch {
+      return null
+    }
+    if (buf.length < this.sb!.nodeSize) return null
+
+    const block = this.parseTreeBlock(buf)
+    if (!block || block.bytenr !== bytenr) return null
+
+    if (this.blockCache.size >= MAX_CACHED_BLOCKS) this.blockCache.clear()
+    this.blockCache.set(bytenr, block)
+    return block
+  }
+
+  /**
+   * Parse a tree block header and its items or key pointers. The block
+   * must carry this filesystem's UUID and, for crc32c volumes, a valid
+   * checksum.
+   */
+  private parseTreeBlock(buf: Buffer): TreeBlock | null {
+    const sb = this.sb!
+    if (buf.length < HEADER_SIZE) return null
+    if (buf.toString('hex', 32, 48) !== sb.metadataUuid) return null
+    if (sb.csumType === 0 && crc32c(buf.subarray(32)) !== buf.readUInt32LE(0)) return null
+
+    const level = buf[100]
+    const nritems = buf.readUInt32LE(96)
+    if (level > MAX_TREE_DEPTH) return null
+
+    const block: TreeBlock = {
+      bytenr: buf.readBigUInt64LE(48),
+      generation: buf.readBigUInt64LE(80),
+      owner: buf.readBigUInt64LE(88),
+      level,
+      items: [],
+      ptrs: [],
+    }
+
+    for (let i = 0; i < nritems; i++) {
+      if (level > 0) {
+        const pos = HEADER_SIZE + i * KEY_PTR_SIZE
+        if (pos + KEY_PTR_SIZE > buf.length) break
+        block.ptrs.push({ key: readKey(buf, pos), blockPtr: buf.readBigUInt64LE(pos + 17) })
+      } else {
+        const pos = HEADER_SIZE + i * LEAF_ITEM_SIZE
+        if (pos + LEAF_ITEM_SIZE > buf.length) break
+        const dataOffset = HEADER_SIZE + buf.readUInt32LE(pos + 17)
+        const size = buf.readUInt32LE(pos + 21)
+        if (dataOffset + size > buf.length) continue
+        block.items.push({
+          key: readKey(buf, pos),
+          data: buf.subarray(dataOffset, dataOffset + size),
+          dataOffset,
+        })
+      }
+    }
+
+    return block
+  }
+}
+
+// ─── Structure Parsers ──────────────────────────────────────────
+
+function parseSuperblock(buf: Buffer): BtrfsSuperblock | null {
+  if (buf.toString('ascii', 0x40, 0x48) !== BTRFS_MAGIC) return null
+
+  const csumType = buf.readUInt16LE(0xc4)
+  if (csumType === 0 && crc32c(buf.subarray(32)) !== buf.readUInt32LE(0)) return null
+
+  const sectorSize = buf.readUInt32LE(0x90)
+  const nodeSize = buf.readUInt32LE(0x94)
+  if (sectorSize < 4096 || sectorSize > 65536 || (sectorSize & (sectorSize - 1)) !== 0) return null
+  if (nodeSize < sectorSize || nodeSize > 65536 || (nodeSize & (nodeSize - 1)) !== 0) return null
+
+  const incompat = buf.readBigUInt64LE(0xbc)
+  const uuidOffset = incompat & INCOMPAT_METADATA_UUID ? 0x23b : 0x20
+
+  const sysChunkArraySize = Math.min(buf.readUInt32LE(0xa0), 0x800)
+
+  // Four rolling backup roots of 168 bytes each
+  const backupRoots: BackupRoot[] = []
+  for (let i = 0; i < 4; i++) {
+    const pos = 0xb2b + i * 168
+    backupRoots.push({
+      treeRoot: buf.readBigUInt64LE(pos),
+      fsRoot: buf.readBigUInt64LE(pos + 48),
+    })
+  }
+
+  return {
+    metadataUuid: buf.toString('hex', uuidOffset, uuidOffset + 16),
+    generation: buf.readBigUInt64LE(0x48),
+    root: buf.readBigUInt64LE(0x50),
+    chunkRoot: buf.readBigUInt64LE(0x58),
+    totalBytes: buf.readBigUInt64LE(0x70),
+    sectorSize,
+    nodeSize,
+    csumType,
+    devId: buf.readBigUInt64LE(0xc9),
+    sysChunkArray: buf.subarray(0x32b, 0x32b + sysChunkArraySize),
+    backupRoots,
+  }
+}
+
+function readKey(buf: Buffer, pos: number): BtrfsKey {
+  return {
+    objectId: buf.readBigUInt64LE(pos),
+    type: buf[pos + 8],
+    offset: buf.readBigUInt64LE(pos + 9),
+  }
+}
+
+/** Top-level tree (5) and subvolumes / snapshots (256 and up). */
+function isFsTree(id: bigint): boolean {
+  return id === FS_TREE_OBJECTID || (id >= FIRST_FREE_OBJECTID && id <= LAST_FREE_OBJECTID)
+}
+
+/** Collect the root block of every filesystem tree listed in a root-tree leaf. */
+function collectFsTreeRoots(block: TreeBlock, roots: Map<bigint, bigint>): void {
+  for (const item of block.items) {
+    if (item.key.type !== ROOT_ITEM_KEY || !isFsTree(item.key.objectId)) continue
+    if (item.data.length < 184) continue
+    roots.set(item.key.objectId, item.data.readBigUInt64LE(176))
+  }
+}
+
+/**
+ * Parse an EXTENT_DATA item. Inline data sits right after the item
+ * header, so its device offset is known from where the leaf was read.
+ */
+function parseFileExtent(data: Buffer, itemPhysical: bigint, generation: bigint): ExtentRecord | null {
+  if (data.length < INLINE_HEADER_SIZE) return null
+  const ramBytes = data.readBigUInt64LE(8)
+  const compressed = data[16] !== 0
+  const type = data[20]
+
+  if (type === FILE_EXTENT_INLINE) {
+    const stored = BigInt(data.length - INLINE_HEADER_SIZE)
+    return {
+      kind: 'inline',
+      physical: itemPhysical + BigInt(INLINE_HEADER_SIZE),
+      length: compressed ? ramBytes : stored < ramBytes ? stored : ramBytes,
+      compressed,
+      generation,
+    }
+  }
+
+  if (data.length < 53) return null
+  const diskBytenr = data.readBigUInt64LE(21)
+  // A zero disk address is a hole in a sparse file.
+  if (diskBytenr === 0n) return null
+
+  return {
+    kind: 'regular',
+    logical: diskBytenr + data.readBigUInt64LE(37),
+    length: data.readBigUInt64LE(45),
+    compressed,
+    prealloc: type === FILE_EXTENT_PREALLOC,
+    generation,
+  }
+}
+
+/** Keep the newest name seen for an inode. */
+function setName(catalog: Catalog, inodeId: bigint, record: NameRecord): void {
+  const existing = catalog.names.get(inodeId)
+  if (existing && existing.generation > record.generation) return
+  catalog.names.set(inodeId, record)
+}
+
+/**
+ * Parse a btrfs_timespec: seconds (u64) and nanoseconds (u32) since
+ * 1970-01-01 00:00:00 UTC.
+ */
+function parseTimespec(buf: Buffer, pos: number): Date | undefined {
+  const seconds = buf.readBigUInt64LE(pos)
+  if (seconds === 0n) return undefined
+  const date = new Date(Number(seconds) * 1000 + Math.floor(buf.readUInt32LE(pos + 8) / 1_000_000))
+  return isNaN(date.getTime()) ? undefined : date
+}
@@ -12,7 +12,7 @@
  */
 
 import { randomUUID } from 'crypto'
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
 import type {
   RecoverableFile,
   FileFragment,
@@ -59,6 +59,9 @@ const END_OF_DIRECTORY = 0x00
 /** Maximum entries to scan to prevent runaway reads. */
 const MAX_ENTRIES = 500_000
 
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
 /** Maximum cluster chain length. */
 const MAX_CHAIN_LENGTH = 1_000_000
 
@@ -107,19 +110,24 @@ const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }>
 // ─── Public API ─────────────────────────────────────────────────
 
 export class ExfatParser {
-  private reader: BlockReader
+  private reader: SourceReader
   private bs: ExfatBootSector | null = null
+  private onFile?: (file: RecoverableFile) => void
 
-  constructor(reader: BlockReader) {
+  constructor(reader: SourceReader) {
     this.reader = reader
   }
 
-  async parse(): Promise<RecoverableFile[]> {
+  /**
+   * @param onFile - Called with each deleted file as soon as it is found.
+   */
+  async parse(onFile?: (file: RecoverableFile) => void): Promise<RecoverableFile[]> {
+    this.onFile = onFile
     this.bs = await this.parseBootSector()
     if (!this.bs) return []
 
     const results: RecoverableFile[] = []
-    await this.scanDirectory(this.bs.rootDirCluster, results)
+    await this.scanDirectory(this.bs.rootDirCluster, [], results)
     return results
   }
 
@@ -172,7 +180,14 @@ export class ExfatParser {
 
   // ─── Directory Scanning ─────────────────────────────────────
 
-  private async scanDirectory(startCluster: number, results: RecoverableFile[]): Promise<void> {
+  /**
+   * @param folders - Names of the folders from the root down to this directory.
+   */
+  private async scanDirectory(
+    startCluster: number,
+    folders: string[],
+    results: RecoverableFile[]
+  ): Promise<void> {
     const bs = this.bs!
     const entriesPerCluster = bs.bytesPerCluster / 32
     const clusters = await this.followClusterChain(startCluster)
@@ -210,12 +225,14 @@ export class ExfatParser {
             cluster
           )
           if (file) {
+            file.location = { folders, orphaned: false }
             results.push(file)
+            this.onFile?.(file)
           }
         }
 
         // Live directory entry - check if it's a subdirectory to recurse into
-        if (entryType === (ENTRY_TYPE_FILE | INUSE_BIT)) {
+        if (entryType === (ENTRY_TYPE_FILE | INUSE_BIT) && folders.length < MAX_DIRECTORY_DEPTH) {
           const attr = clusterData.readUInt16LE(offset + 4)
           if (attr & 0x10) {
             // This is a live subdirectory; look ahead for its stream extension
@@ -226,7 +243,8 @@ export class ExfatParser {
               if (nextType === (ENTRY_TYPE_STREAM | INUSE_BIT)) {
                 const subCluster = clusterData.readUInt32LE(nextOffset + 20)
                 if (subCluster >= 2 && subCluster !== startCluster) {
-                  await this.scanDirectory(subCluster, results)
+                  const name = this.readLiveName(clusterData, offset) || `dir_${subCluster}`
+                  await this.scanDirectory(subCluster, [...folders, name], results)
                 }
               }
             }
@@ -301,23 +319,7 @@ export class ExfatParser {
 
     if (firstCluster < 2 || dataLength === 0n) return null
 
-    // Reconstruct filename from File Name entries (UTF-16LE, 15 chars per entry at offset 2)
-    let filename = ''
-    let charsRemaining = nameLen
-
-    for (const nameEntry of nameEntries) {
-      const charsInEntry = Math.min(15, charsRemaining)
-      for (let c = 0; c < charsInEntry; c++) {
-        const charOffset = 2 + c * 2
-        if (charOffset + 1 >= nameEntry.length) break
-        const charCode = nameEntry.readUInt16LE(charOffset)
-        if (charCode === 0) break
-        filename += String.fromCharCode(charCode)
-      }
-      charsRemaining -= charsInEntry
-      if (charsRemaining <= 0) break
-    }
-
+    const filename = this.assembleName(nameEntries, nameLen)
     if (!filename) return null
 
     // Extract extension
@@ -360,6 +362,47 @@ export class ExfatParser {
     }
   }
 
+  /**
+   * Read the name of a live entry set. Only the parts within this
+   * cluster are used; a set that spills into the next one is cut short.
+   */
+  private readLiveName(clusterData: Buffer, fileEntryOffset: number): string {
+    if (fileEntryOffset + 64 > clusterData.length) return ''
+    const secondaryCount = clusterData[fileEntryOffset + 1]
+    const nameLen = clusterData[fileEntryOffset + 32 + 3]
+    const nameEntries: Buffer[] = []
+
+    for (let s = 1; s < secondaryCount; s++) {
+      const pos = fileEntryOffset + 32 + s * 32
+      if (pos + 32 > clusterData.length) break
+      if (clusterData[pos] !== (ENTRY_TYPE_FILENAME | INUSE_BIT)) break
+      nameEntries.push(clusterData.subarray(pos, pos + 32))
+    }
+
+    return this.assembleName(nameEntries, nameLen)
+  }
+
+  /** Reconstruct a filename from File Name entries (UTF-16LE, 15 chars per entry at offset 2). */
+  private assembleName(nameEntries: Buffer[], nameLen: number): string {
+    let filename = ''
+    let charsRemaining = nameLen
+
+    for (const nameEntry of nameEntries) {
+      const charsInEntry = Math.min(15, charsRemaining)
+      for (let c = 0; c < charsInEntry; c++) {
+        const charOffset = 2 + c * 2
+        if (charOffset + 1 >= nameEntry.length) break
+        const charCode = nameEntry.readUInt16LE(charOffset)
+        if (charCode === 0) break
+        filename += String.fromCharCode(charCode)
+      }
+      charsRemaining -= charsInEntry
+      if (charsRemaining <= 0) break
+    }
+
+    return filename
+  }
+
   // ─── Cluster Chain ──────────────────────────────────────────
 
   private async followClusterChain(startCluster: number): Promise<number[]> {
@@ -10,13 +10,27 @@
  *   - Timestamps from i_ctime, i_mtime, i_atime
  *   - Data block mapping from the extent tree (if EXT4_EXTENTS_FL is set)
  *     or from indirect block pointers
+ *
+ * Deleting a file clears its size and block mapping, so the inode on disk
+ * rarely has anything left to recover. The jbd2 journal usually still
+ * holds older copies of the inode table and directory blocks, though.
+ * Those copies supply the pre-deletion extents and the file names.
+ *
+ * The live directory tree is walked from the root to rebuild paths.
+ * Removed entries linger in the rec_len slack of the entry before them,
+ * which gives deleted inodes their name and parent directory.
  */
 
 import { randomUUID } from 'crypto'
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
+import { assessRecoverability, loadAllocationBitmap } from '../allocation-bitmap'
+import type { AllocationBitmap } from '../allocation-bitmap'
+import { Jbd2Journal } from './jbd2-journal'
+import type { JournalBlock, JournalRun } from './jbd2-journal'
 import type {
   RecoverableFile,
   FileFragment,
+  FileLocation,
   FileType,
   FileCategory,
 } from '../../../shared/types'
@@ -44,6 +58,10 @@ interface Ext4Superblock {
   is64Bit: boolean
   /** Group descriptor size (32 or 64 bytes) */
   groupDescSize: number
+  /** Journal inode number, or 0 without an internal journal */
+  journalInode: number
+  /** Superblock backup of the journal inode's i_block, if present */
+  journalBlocksBackup: Buffer | null
 }
 
 // ─── ext4 Group Descriptor Fields ───────────────────────────────
@@ -53,14 +71,64 @@ interface Ext4GroupDescriptor {
   inodeTableBlock: bigint
 }
 
+// ─── Journal Recovery Records ───────────────────────────────────
+
+/** A run of file blocks: `length` blocks at file block `logical`. */
+interface BlockRun {
+  logical: number
+  physical: bigint
+  length: number
+}
+
+/** The newest journal copy of an inode that was still in use. */
+interface InodeSnapshot {
+  sequence: number
+  data: Buffer
+}
+
+interface JournalName {
+  name: string
+  sequence: number
+  /** Directory block the entry was found in */
+  block: bigint
+  /** Directory inode, when the block starts with its '.' entry */
+  parent?: number
+}
+
+interface InodeTableRange {
+  start: bigint
+  end: bigint
+  group: number
+}
+
+// ─── Directory Tree Records ─────────────────────────────────────
+
+/** A name in a directory: for live directories and for removed entries. */
+interface DirectoryLink {
+  name: string
+  parent: number
+}
+
+/** One entry of a directory block; `live` is false for removed entries. */
+interface DirectoryRecord {
+  inode: number
+  name: string
+  fileType: number
+  live: boolean
+}
+
 // ─── Constants ──────────────────────────────────────────────────
 
 const SUPERBLOCK_OFFSET = 1024
 const SUPERBLOCK_SIZE = 1024
-const EXT4_MAGIC = 0x53ef
+const EXT4_MAGIC = 0xef53
 
 /** Inode flags */
 const EXT4_EXTENTS_FL = 0x00080000
+const EXT4_INLINE_DATA_FL = 0x10000000
+
+/** Root directory inode */
+const EXT4_ROOT_INODE = 2
 
 /** Extent tree magic */
 const EXT4_EXTENT_MAGIC = 0xf30a
@@ -71,8 +139,31 @@ const MAX_BLOCK_GROUPS = 100_000
 /** Maximum inodes to scan per group (safety limit) */
 const MAX_INODES_PER_BATCH = 8192
 
-/** Regular file mode mask */
+/** Compat feature: filesystem has a journal */
+const EXT4_FEATURE_COMPAT_HAS_JOURNAL = 0x4
+
+/** s_jnl_backup_type value for a copy of the journal's i_block */
+const EXT3_JNL_BACKUP_BLOCKS = 1
+
+/** Extents longer than this are uninitialized (preallocated) */
+const EXT4_MAX_INIT_EXTENT_LEN = 32768
+
+/** Maximum extent tree depth (safety limit) */
+const MAX_EXTENT_DEPTH = 5
+
+/** Maximum blocks to map through indirect blocks (safety limit) */
+const MAX_MAPPED_BLOCKS = 4_000_000
+
+/** Directory entry file types (0 = no type recorded) */
+const EXT4_FT_REG_FILE = 1
+const EXT4_FT_DIR = 2
+
+/** Maximum directory blocks to read while walking the tree (safety limit) */
+const MAX_DIRECTORY_BLOCKS = 65_536
+
+/** File mode type bits */
 const S_IFREG = 0o100000
+const S_IFDIR = 0o040000
 const S_IFMT = 0o170000
 
 // ─── Extension to FileType mapping ──────────────────────────────
@@ -120,10 +211,18 @@ const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }>
 // ─── Public API ─────────────────────────────────────────────────
 
 export class Ext4Parser {
-  private reader: BlockReader
+  private reader: SourceReader
   private sb: Ext4Superblock | null = null
-
-  constructor(reader: BlockReader) {
+  /** Inode table location per block group, filled while scanning. */
+  private inodeTables: Array<bigint | null> = []
+  /** Live directories reachable from the root, by inode number. */
+  private directories = new Map<number, DirectoryLink>()
+  /** Owning directory inode of each live directory block. */
+  private directoryBlocks = new Map<bigint, number>()
+  /** Removed directory entries of regular files, by inode number. */
+  private removedEntries = new Map<number, DirectoryLink>()
+
+  constructor(reader: SourceReader) {
     this.reader = reader
   }
 
@@ -131,9 +230,13 @@ export class Ext4Parser {
     this.sb = await this.parseSuperblock()
     if (!this.sb) return []
 
-    const results: RecoverableFile[] = []
+    // Keyed by inode number so journal results can replace inode results
+    const results = new Map<number, RecoverableFile>()
     await this.scanAllGroups(results)
-    return results
+    await this.walkDirectoryTree()
+    const journalNames = await this.recoverFromJournal(results)
+    this.assignPaths(results, journalNames)
+    return [...results.values()]
   }
 
   // ─── Superblock Parsing ─────────────────────────────────────
@@ -158,6 +261,7 @@ export class Ext4Parser {
     const blocksPerGroup = buf.readUInt32LE(32)
     const inodesPerGroup = buf.readUInt32LE(40)
     const inodeSizeRaw = buf.readUInt16LE(88)
+    const featureCompat = buf.readUInt32LE(92)
     const featureIncompat = buf.readUInt32LE(96)
 
     // Block size = 1024 << s_log_block_size
@@ -183,6 +287,14 @@ export class Ext4Parser {
       if (groupDescSize < 32) groupDescSize = 32
     }
 
+    // Journal inode (s_journal_inum, 0xE0) and the i_block backup kept in
+    // s_jnl_blocks (0x10C) in case the inode itself is damaged
+    const hasJournal = (featureCompat & EXT4_FEATURE_COMPAT_HAS_JOURNAL) !== 0
+    const journalInode = hasJournal && buf.length >= 0xe4 ? buf.readUInt32LE(0xe0) : 0
+    const journalBlocksBackup = hasJournal && buf.length >= 0x148 && buf[0xfd] === EXT3_JNL_BACKUP_BLOCKS
+      ? Buffer.from(buf.subarray(0x10c, 0x10c + 60))
+      : null
+
     return {
       totalInodes,
       blockSize,
@@ -194,17 +306,20 @@ export class Ext4Parser {
       featureIncompat,
       is64Bit,
       groupDescSize,
+      journalInode,
+      journalBlocksBackup,
     }
   }
 
   // ─── Group Scanning ─────────────────────────────────────────
 
-  private async scanAllGroups(results: RecoverableFile[]): Promise<void> {
+  private async scanAllGroups(results: Map<number, RecoverableFile>): Promise<void> {
     const sb = this.sb!
     const groupCount = Math.min(sb.blockGroupCount, MAX_BLOCK_GROUPS)
 
     for (let g = 0; g < groupCount; g++) {
       const gd = await this.readGroupDescriptor(g)
+      this.inodeTables.push(gd?.inodeTableBlock ?? null)
       if (!gd) continue
 
       await this.scanGroupInodes(g, gd, results)
@@ -246,7 +361,7 @@ export class Ext4Parser {
   private async scanGroupInodes(
     groupIndex: number,
     gd: Ext4GroupDescriptor,
-    results: RecoverableFile[]
+    results: Map<number, RecoverableFile>
   ): Promise<void> {
     const sb = this.sb!
     const inodesInGroup = Math.min(sb.inodesPerGroup, MAX_INODES_PER_BATCH)
@@ -275,7 +390,7 @@ export class Ext4Parser {
         const inodeNumber = groupIndex * sb.inodesPerGroup + i + j + 1 // 1-based
         const file = this.parseInode(buf, inodeOffset, inodeNumber, sb)
         if (file) {
-          results.push(file)
+          results.set(inodeNumber, file)
         }
       }
     }
@@ -471,8 +586,386 @@ export class Ext4Parser {
     return this.mergeContiguousFragments(fragments)
   }
 
+  // ─── Journal Recovery ───────────────────────────────────────
+
+  /**
+   * Scan the journal for older copies of inode-table and directory blocks.
+   * An inode whose journal copy was still in use, but which is now deleted
+   * or reused for another file (different i_generation), is rebuilt from
+   * that copy and named from the journaled directory entries.
+   *
+   * Returns the file names found in journaled directory blocks.
+   */
+  private async recoverFromJournal(results: Map<number, RecoverableFile>): Promise<Map<number, JournalName>> {
+    const sb = this.sb!
+    const names = new Map<number, JournalName>()
+    if (sb.journalInode === 0) return names
+
+    const runs = await this.locateJournal()
+    if (runs.length === 0) return names
+
+    const tables = this.buildInodeTableIndex()
+    const snapshots = new Map<number, InodeSnapshot>()
+    // Extent tree blocks of deleted files may be reused; keep journal copies.
+    const extentBlocks = new Map<bigint, InodeSnapshot>()
+
+    const journal = new Jbd2Journal(this.reader, sb.blockSize, runs)
+    const found = await journal.scan((block) => {
+      const table = findInodeTable(tables, block.fsBlock)
+      if (table) {
+        this.collectInodeSnapshots(block, table, snapshots)
+      } else if (block.data.readUInt16LE(0) === EXT4_EXTENT_MAGIC) {
+        const existing = extentBlocks.get(block.fsBlock)
+        if (!existing || existing.sequence < block.sequence) {
+          extentBlocks.set(block.fsBlock, { sequence: block.sequence, data: block.data })
+        }
+      } else {
+        collectDirectoryNames(block, sb, names)
+      }
+    })
+    if (!found) return names
+
+    let bitmap: AllocationBitmap | null = null
+    if (snapshots.size > 0) {
+      try {
+        const loaded = await loadAllocationBitmap(this.reader)
+        if (loaded?.fsType === 'ext4') bitmap = loaded
+      } catch {
+        // Recoverability falls back to 'partial'
+      }
+    }
+
+    for (const [inodeNumber, snapshot] of snapshots) {
+      // Skip files that still exist in the same incarnation
+      const current = await this.readInode(inodeNumber)
+      if (current && isInodeInUse(current) && current.readUInt32LE(0x64) === snapshot.data.readUInt32LE(0x64)) {
+        continue
+      }
+
+      const file = await this.buildJournalFile(inodeNumber, snapshot.data, names.get(inodeNumber)?.name, extentBlocks, bitmap)
+      if (file) results.set(inodeNumber, file)
+    }
+
+    return names
+  }
+
+  /** Map the journal inode's blocks to device runs. */
+  private async locateJournal(): Promise<JournalRun[]> {
+    const sb = this.sb!
+
+    let inode = await this.readInode(sb.journalInode)
+    if ((!inode || !hasBlockMap(inode)) && sb.journalBlocksBackup) {
+      // Rebuild a minimal inode from the superblock backup of i_block
+      inode = Buffer.alloc(128)
+      sb.journalBlocksBackup.copy(inode, 0x28)
+      if (sb.journalBlocksBackup.readUInt16LE(0) === EXT4_EXTENT_MAGIC) {
+        inode.writeUInt32LE(EXT4_EXTENTS_FL, 0x20)
+      }
+    }
+    if (!inode) return []
+
+    const runs = await this.mapInodeBlocks(inode, new Map())
+    return runs.map((run) => ({
+      logical: run.logical,
+      offset: run.physical * BigInt(sb.blockSize),
+      length: run.length,
+    }))
+  }
+
+  /** Keep the newest in-use copy of each regular-file inode in a journaled inode-table block. */
+  private collectInodeSnapshots(
+    block: JournalBlock,
+    table: InodeTableRange,
+    snapshots: Map<number, InodeSnapshot>
+  ): void {
+    const sb = this.sb!
+    const inodesPerBlock = Math.floor(sb.blockSize / sb.inodeSize)
+    const firstIndex = Number(block.fsBlock - table.start) * inodesPerBlock
+
+    for (let k = 0; k < inodesPerBlock; k++) {
+      const index = firstIndex + k
+      if (index >= sb.inodesPerGroup) break
+      const inodeNumber = table.group * sb.inodesPerGroup + index + 1
+      if (inodeNumber <= 10) continue
+
+      const data = block.data.subarray(k * sb.inodeSize, (k + 1) * sb.inodeSize)
+      if ((data.readUInt16LE(0) & S_IFMT) !== S_IFREG || !isInodeInUse(data)) continue
+      if (inodeFileSize(data) === 0n || !hasBlockMap(data)) continue
+
+      const existing = snapshots.get(inodeNumber)
+      if (existing && existing.sequence >= block.sequence) continue
+      snapshots.set(inodeNumber, { sequence: block.sequence, data: Buffer.from(data) })
+    }
+  }
+
+  private async buildJournalFile(
+    inodeNumber: number,
+    inode: Buffer,
+    journalName: string | undefined,
+    extentBlocks: Map<bigint, InodeSnapshot>,
+    bitmap: AllocationBitmap | null
+  ): Promise<RecoverableFile | null> {
+    const sb = this.sb!
+    const fileSize = inodeFileSize(inode)
+    const blockSize = BigInt(sb.blockSize)
+
+    // Lay the runs out in file order and stop at the file size
+    const runs = (await this.mapInodeBlocks(inode, extentBlocks)).sort((a, b) => a.logical - b.logical)
+    const fragments: FileFragment[] = []
+    for (const run of runs) {
+      const start = BigInt(run.logical) * blockSize
+      if (start >= fileSize) break
+      const remaining = fileSize - start
+      const length = BigInt(run.length) * blockSize
+      fragments.push({
+        offset: run.physical * blockSize,
+        size: length < remaining ? length : remaining,
+      })
+    }
+    const merged = this.mergeContiguousFragments(fragments)
+    if (merged.length === 0) return null
+
+    const name = journalName ?? `inode_${inodeNumber}_deleted`
+    const extension = journalName ? extensionOf(journalName) : ''
+    const mapping = EXTENSION_MAP[extension]
+
+    return {
+      id: randomUUID(),
+      type: mapping?.type ?? 'jpeg',
+      category: mapping?.category ?? 'photo',
+      offset: merged[0].offset,
+      size: fileSize,
+      sizeEstimated: false,
+      name,
+      extension: extension || 'bin',
+      recoverability: assessRecoverability(merged, bitmap, sb.blockSize),
+      source: 'metadata',
+      fragments: merged,
+      metadata: {
+        originalName: journalName,
+        createdAt: this.parseUnixTimestamp(inode.readUInt32LE(0x0c)) ?? undefined,
+        modifiedAt: this.parseUnixTimestamp(inode.readUInt32LE(0x10)) ?? undefined,
+      },
+    }
+  }
+
+  // ─── Directory Tree ─────────────────────────────────────────
+
+  /**
+   * Walk the live directory tree breadth-first from the root, recording
+   * each directory's name and parent, which directory owns each block,
+   * and the removed file entries left in the blocks' slack.
+   */
+  private async walkDirectoryTree(): Promise<void> {
+    const sb = this.sb!
+    const queue = [EXT4_ROOT_INODE]
+    const visited = new Set(queue)
+    let blocksRead = 0
+
+    while (queue.length > 0 && blocksRead < MAX_DIRECTORY_BLOCKS) {
+      const dirInode = queue.shift()!
+      const inode = await this.readInode(dirInode)
+      if (!inode || (inode.readUInt16LE(0) & S_IFMT) !== S_IFDIR) continue
+      // Inline directories keep their entries in i_block, not in blocks
+      if (inode.readUInt32LE(0x20) & EXT4_INLINE_DATA_FL) continue
+
+      for (const run of await this.mapInodeBlocks(inode, new Map())) {
+        for (let k = 0; k < run.length && blocksRead < MAX_DIRECTORY_BLOCKS; k++) {
+          const fsBlock = run.physical + BigInt(k)
+          blocksRead++
+          const data = await this.readBlock(fsBlock)
+          if (!data) continue
+
+          this.directoryBlocks.set(fsBlock, dirInode)
+          for (const record of parseDirectoryBlock(data, sb) ?? []) {
+            if (record.live && record.fileType === EXT4_FT_DIR) {
+              if (record.name === '.' || record.name === '..' || visited.has(record.inode)) continue
+              visited.add(record.inode)
+              this.directories.set(record.inode, { name: record.name, parent: dirInode })
+              queue.push(record.inode)
+            } else if (!record.live && record.inode > 10 && isFileEntry(record)) {
+              this.removedEntries.set(record.inode, { name: record.name, parent: dirInode })
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Name deleted inodes that still carry a synthetic name and set every
+   * result's location. Journaled entries match the rebuilt inode copies,
+   * so they win over removed entries found on disk.
+   */
+  private assignPaths(results: Map<number, RecoverableFile>, journalNames: Map<number, JournalName>): void {
+    for (const [inodeNumber, file] of results) {
+      const journal = journalNames.get(inodeNumber)
+      const link = journal
+        ? { name: journal.name, parent: journal.parent ?? this.directoryBlocks.get(journal.block) }
+        : this.removedEntries.get(inodeNumber)
+
+      if (link && file.name === `inode_${inodeNumber}_deleted`) {
+        const mapping = EXTENSION_MAP[extensionOf(link.name)]
+        file.name = link.name
+        file.extension = extensionOf(link.name) || 'bin'
+        if (mapping) {
+          file.type = mapping.type
+          file.category = mapping.category
+        }
+        file.metadata = { ...file.metadata, originalName: link.name }
+      }
+
+      file.location = this.resolveLocation(link?.parent)
+    }
+  }
+
+  /**
+   * Folders from the root down to a directory inode. Directories outside
+   * the live tree, or an unknown parent, make the file orphaned.
+   */
+  private resolveLocation(parent: number | undefined): FileLocation {
+    const folders: string[] = []
+    if (parent === undefined) return { folders, orphaned: true }
+
+    // The walk records each directory once, so parent links cannot loop
+    let inode = parent
+    while (inode !== EXT4_ROOT_INODE) {
+      const directory = this.directories.get(inode)
+      if (!directory) return { folders, orphaned: true }
+      folders.unshift(directory.name)
+      inode = directory.parent
+    }
+
+    return { folders, orphaned: false }
+  }
+
+  // ─── Block Mapping ──────────────────────────────────────────
+
+  /**
+   * Map all blocks of an inode, following extent index nodes or indirect
+   * blocks on disk. Extent blocks are taken from `extentBlocks` when the
+   * journal holds a copy.
+   */
+  private async mapInodeBlocks(
+    inode: Buffer,
+    extentBlocks: Map<bigint, InodeSnapshot>
+  ): Promise<BlockRun[]> {
+    const runs: BlockRun[] = []
+    const iblock = inode.subarray(0x28, 0x28 + 60)
+
+    if (inode.readUInt32LE(0x20) & EXT4_EXTENTS_FL) {
+      await this.mapExtentNode(iblock, MAX_EXTENT_DEPTH, extentBlocks, runs)
+      return runs
+    }
+
+    // Direct pointers, then single, double and triple indirect
+    const ptrsPerBlock = this.sb!.blockSize / 4
+    let logical = 0
+    for (let i = 0; i < 15 && runs.length < MAX_MAPPED_BLOCKS; i++) {
+      const level = i < 12 ? 0 : i - 11
+      const span = ptrsPerBlock ** level
+      const block = iblock.readUInt32LE(i * 4)
+      if (block !== 0) await this.mapIndirect(BigInt(block), level, logical, runs)
+      logical += span
+    }
+    return mergeRuns(runs)
+  }
+
+  private async mapExtentNode(
+    node: Buffer,
+    depthBudget: number,
+    extentBlocks: Map<bigint, InodeSnapshot>,
+    runs: BlockRun[]
+  ): Promise<void> {
+    if (node.length < 12 || node.readUInt16LE(0) !== EXT4_EXTENT_MAGIC || depthBudget < 0) return
+
+    const entries = node.readUInt16LE(2)
+    const depth = node.readUInt16LE(6)
+
+    for (let i = 0; i < entries; i++) {
+      const pos = 12 + i * 12
+      if (pos + 12 > node.length) break
+
+      if (depth === 0) {
+        const rawLength = node.readUInt16LE(pos + 4)
+        // Uninitialized extents were allocated but never written
+        if (rawLength === 0 || rawLength > EXT4_MAX_INIT_EXTENT_LEN) continue
+        runs.push({
+          logical: node.readUInt32LE(pos),
+          physical: (BigInt(node.readUInt16LE(pos + 6)) << 32n) | BigInt(node.readUInt32LE(pos + 8)),
+          length: rawLength,
+        })
+        continue
+      }
+
+      const child = (BigInt(node.readUInt16LE(pos + 8)) << 32n) | BigInt(node.readUInt32LE(pos + 4))
+      const childNode = extentBlocks.get(child)?.data ?? await this.readBlock(child)
+      if (childNode) await this.mapExtentNode(childNode, depthBudget - 1, extentBlocks, runs)
+    }
+  }
+
+  private async mapIndirect(block: bigint, level: number, logical: number, runs: BlockRun[]): Promise<void> {
+    if (level === 0) {
+      runs.push({ logical, physical: block, length: 1 })
+      return
+    }
+
+    const data = await this.readBlock(block)
+    if (!data) return
+
+    const ptrsPerBlock = this.sb!.blockSize / 4
+    const span = ptrsPerBlock ** (level - 1)
+    for (let i = 0; i < ptrsPerBlock && runs.length < MAX_MAPPED_BLOCKS; i++) {
+      const child = data.readUInt32LE(i * 4)
+      if (child !== 0) await this.mapIndirect(BigInt(child), level - 1, logical + i * span, runs)
+    }
+  }
+
   // ─── Helpers ────────────────────────────────────────────────
 
+  private buildInodeTableIndex(): InodeTableRange[] {
+    const sb = this.sb!
+    const tableBlocks = BigInt(Math.ceil((sb.inodesPerGroup * sb.inodeSize) / sb.blockSize))
+    const ranges: InodeTableRange[] = []
+
+    this.inodeTables.forEach((start, group) => {
+      if (start !== null) ranges.push({ start, end: start + tableBlocks, group })
+    })
+    return ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+  }
+
+  private async readInode(inodeNumber: number): Promise<Buffer | null> {
+    const sb = this.sb!
+    const group = Math.floor((inodeNumber - 1) / sb.inodesPerGroup)
+    const index = (inodeNumber - 1) % sb.inodesPerGroup
+
+    let tableBlock = this.inodeTables[group] ?? null
+    if (tableBlock === null) {
+      tableBlock = (await this.readGroupDescriptor(group))?.inodeTableBlock ?? null
+    }
+    if (tableBlock === null) return null
+
+    try {
+      const buf = await this.reader.read(
+        tableBlock * BigInt(sb.blockSize) + BigInt(index) * BigInt(sb.inodeSize),
+        sb.inodeSize
+      )
+      return buf.length >= 128 ? buf : null
+    } catch {
+      return null
+    }
+  }
+
+  private async readBlock(block: bigint): Promise<Buffer | null> {
+    const blockSize = this.sb!.blockSize
+    try {
+      const buf = await this.reader.read(block * BigInt(blockSize), blockSize)
+      return buf.length === blockSize ? buf : null
+    } catch {
+      return null
+    }
+  }
+
   /**
    * Merge contiguous file fragments to reduce the fragment list.
    */
@@ -512,3 +1005,114 @@ export class Ext4Parser {
     }
   }
 }
+
+// ─── Journal Helpers ────────────────────────────────────────────
+
+function findInodeTable(ranges: InodeTableRange[], block: bigint): InodeTableRange | null {
+  let lo = 0
+  let hi = ranges.length - 1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (block < ranges[mid].start) hi = mid - 1
+    else if (block >= ranges[mid].end) lo = mid + 1
+    else return ranges[mid]
+  }
+  return null
+}
+
+/** Collect file names, live and removed, from a journaled directory block. */
+function collectDirectoryNames(block: JournalBlock, sb: Ext4Superblock, names: Map<number, JournalName>): void {
+  const records = parseDirectoryBlock(block.data, sb)
+  if (!records) return
+
+  // The first block of a directory starts with '.', naming the directory
+  const first = records[0]
+  const parent = first?.live && first.name === '.' ? first.inode : undefined
+
+  for (const record of records) {
+    if (record.inode <= 10 || !isFileEntry(record)) continue
+    const existing = names.get(record.inode)
+    if (!existing || existing.sequence < block.sequence) {
+      names.set(record.inode, { name: record.name, sequence: block.sequence, block: block.fsBlock, parent })
+    }
+  }
+}
+
+/**
+ * Parse a directory block into its entries. Removed entries are merged
+ * into the previous entry's rec_len but keep their inode number and name,
+ * so the slack after each entry is searched too. Returns null if the
+ * block is not a valid chain of records.
+ */
+function parseDirectoryBlock(data: Buffer, sb: Ext4Superblock): DirectoryRecord[] | null {
+  const found: DirectoryRecord[] = []
+
+  // A directory block is a chain of records covering the block exactly
+  let pos = 0
+  while (pos + 8 <= data.length) {
+    const recLength = data.readUInt16LE(pos + 4)
+    if (recLength < 12 || recLength % 4 !== 0 || pos + recLength > data.length) return null
+
+    let entry = pos
+    while (entry + 8 <= pos + recLength) {
+      const inode = data.readUInt32LE(entry)
+      const nameLength = data[entry + 6]
+      const size = (8 + nameLength + 3) & ~3
+      if (nameLength === 0 || entry + 8 + nameLength > pos + recLength) break
+
+      const nameBytes = data.subarray(entry + 8, entry + 8 + nameLength)
+      if (nameBytes.includes(0) || nameBytes.includes(0x2f)) break
+
+      if (inode > 0 && inode <= sb.totalInodes) {
+        found.push({ inode, name: nameBytes.toString('utf8'), fileType: data[entry + 7], live: entry === pos })
+      }
+      entry += size
+    }
+
+    pos += recLength
+  }
+
+  return pos === data.length ? found : null
+}
+
+function isFileEntry(record: DirectoryRecord): boolean {
+  return record.fileType === EXT4_FT_REG_FILE || record.fileType === 0
+}
+
+/** In use: has a mode and links, and no deletion time. */
+function isInodeInUse(inode: Buffer): boolean {
+  return inode.readUInt16LE(0) !== 0 && inode.readUInt16LE(0x1a) !== 0 && inode.readUInt32LE(0x14) === 0
+}
+
+function inodeFileSize(inode: Buffer): bigint {
+  return (BigInt(inode.readUInt32LE(0x6c)) << 32n) | BigInt(inode.readUInt32LE(0x04))
+}
+
+/** Whether i_block still maps any data (a non-empty extent root or a block pointer). */
+function hasBlockMap(inode: Buffer): boolean {
+  if (inode.readUInt32LE(0x20) & EXT4_EXTENTS_FL) {
+    return inode.readUInt16LE(0x28) === EXT4_EXTENT_MAGIC && inode.readUInt16LE(0x28 + 2) > 0
+  }
+  for (let i = 0; i < 15; i++) {
+    if (inode.readUInt32LE(0x28 + i * 4) !== 0) return true
+  }
+  return false
+}
+
+function mergeRuns(runs: BlockRun[]): BlockRun[] {
+  const merged: BlockRun[] = []
+  for (const run of runs) {
+    const last = merged[merged.length - 1]
+    if (last && last.logical + last.length === run.logical && last.physical + BigInt(last.length) === run.physical) {
+      last.length += run.length
+    } else {
+      merged.push({ ...run })
+    }
+  }
+  return merged
+}
+
+function extensionOf(name: string): string {
+  const dotIndex = name.lastIndexOf('.')
+  return dotIndex >= 0 ? name.substring(dotIndex + 1).toLowerCase() : ''
+}
@@ -0,0 +1,891 @@
+/**
+ * F2FS Filesystem Parser
+ *
+ * Recovers deleted files from F2FS, the log-structured filesystem used on
+ * Android devices and SD-based embedded systems. F2FS never updates a
+ * node block in place: every change writes a new copy and repoints the
+ * node's NAT entry, so older copies of inode and direct node blocks stay
+ * in node segments until the segment is cleaned. Deleting a file only
+ * frees its NAT entries, leaving the last copies that still map its data.
+ *
+ * Recovery strategy:
+ *   1. Read the superblock and pick the newer valid checkpoint pack
+ *   2. Load the NAT (and the NAT journal in the checkpoint summaries) to
+ *      know the current block of every node
+ *   3. Use the SIT to find node segments and read every node block in
+ *      them; a block the NAT no longer points to is stale
+ *   4. Keep the newest stale inode copy that still maps data, when the
+ *      node id is free or now holds a different inode generation; inodes
+ *      on the checkpoint's orphan list were unlinked while open and are
+ *      taken from their current copy
+ *   5. Follow the inode's direct and indirect nodes through the stale
+ *      copies written for the same inode
+ *   6. Recover names from removed entries in the live directories' dentry
+ *      blocks, falling back to the name F2FS keeps in the inode
+ *
+ * Encrypted files are skipped: without the key their data and names are
+ * unreadable. Compressed clusters are left out of the fragments.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SourceReader } from '../../io/images'
+import { assessRecoverability, loadAllocationBitmap } from '../allocation-bitmap'
+import type { AllocationBitmap } from '../allocation-bitmap'
+import type {
+  RecoverableFile,
+  FileFragment,
+  FileLocation,
+  FileType,
+  FileCategory,
+} from '../../../shared/types'
+
+// ─── F2FS Structures ────────────────────────────────────────────
+
+interface F2fsSuperblock {
+  blocksPerSegment: number
+  blockCount: number
+  segmentCountMain: number
+  segmentCountSit: number
+  segmentCountNat: number
+  cpBlock: number
+  sitBlock: number
+  natBlock: number
+  mainBlock: number
+  rootIno: number
+  /** Extra checkpoint blocks holding a large SIT version bitmap */
+  cpPayload: number
+  /** Inline xattr size is recorded per inode */
+  flexibleInlineXattr: boolean
+}
+
+interface F2fsCheckpoint {
+  /** Which copy of each NAT / SIT block is current (MSB-first bits) */
+  natBitmap: Buffer
+  sitBitmap: Buffer
+  /** Node segments still being filled */
+  currentNodeSegments: number[]
+  /** Recent NAT and SIT updates kept in the checkpoint summaries */
+  natJournal: Buffer
+  sitJournal: Buffer
+  /** Inodes unlinked while still open */
+  orphans: Set<number>
+}
+
+/** The parts of an inode node block the parser uses. */
+interface F2fsInode {
+  nid: number
+  /** Block holding this copy */
+  block: number
+  cpVersion: number
+  mode: number
+  size: bigint
+  generation: number
+  parent: number
+  name: string
+  encrypted: boolean
+  compressed: boolean
+  logClusterSize: number
+  /** Data block addresses stored in the inode */
+  addresses: number[]
+  /** Direct, direct, indirect, indirect, double indirect node ids */
+  nids: number[]
+  /** Byte offset of inline data or dentries within the block, or null */
+  inlineOffset: number | null
+  inlineSize: number
+  inlineDentry: boolean
+  modifiedAt?: Date
+  createdAt?: Date
+}
+
+/** A copy of a direct or indirect node block. */
+interface NodeCopy {
+  block: number
+  cpVersion: number
+}
+
+interface DeletedInode {
+  inode: F2fsInode
+  /** Unlinked but still open: read its nodes through the NAT */
+  orphan: boolean
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const F2FS_MAGIC = 0xf2f52010
+/** The first superblock copy; the second is one block later. */
+const SUPERBLOCK_OFFSET = 1024
+const BLOCK_SIZE = 4096
+const LOG_BLOCK_SIZE = 12
+
+/** Checkpoint flags */
+const CP_COMPACT_SUM_FLAG = 0x4
+const CP_ORPHAN_PRESENT_FLAG = 0x2
+const CP_LARGE_NAT_BITMAP_FLAG = 0x400
+
+const FEATURE_FLEXIBLE_INLINE_XATTR = 0x40
+
+/** Summary blocks: 512 seven-byte entries, then the journal */
+const SUM_ENTRIES_SIZE = 512 * 7
+const SUM_JOURNAL_SIZE = BLOCK_SIZE - 5 - SUM_ENTRIES_SIZE
+
+const NAT_ENTRY_SIZE = 9
+const NAT_ENTRIES_PER_BLOCK = Math.floor(BLOCK_SIZE / NAT_ENTRY_SIZE)
+const NAT_JOURNAL_ENTRY_SIZE = 4 + NAT_ENTRY_SIZE
+const SIT_ENTRY_SIZE = 74
+const SIT_ENTRIES_PER_BLOCK = Math.floor(BLOCK_SIZE / SIT_ENTRY_SIZE)
+const SIT_JOURNAL_ENTRY_SIZE = 4 + SIT_ENTRY_SIZE
+
+/** Segment types kept in the top six bits of a SIT entry's block count */
+const CURSEG_HOT_NODE = 3
+const CURSEG_COLD_NODE = 5
+
+/** Node block layout: 1018 addresses or node ids, then the footer */
+const ADDRS_PER_BLOCK = 1018
+const NODE_FOOTER = BLOCK_SIZE - 24
+
+/** Inode layout */
+const INODE_ADDR_OFFSET = 360
+const DEF_ADDRS_PER_INODE = 923
+const INODE_NID_OFFSET = INODE_ADDR_OFFSET + DEF_ADDRS_PER_INODE * 4
+const DEFAULT_INLINE_XATTR_ADDRS = 50
+const MAX_NAME_LENGTH = 255
+
+/** i_inline flags */
+const F2FS_INLINE_XATTR = 0x01
+const F2FS_INLINE_DATA = 0x02
+const F2FS_INLINE_DENTRY = 0x04
+const F2FS_EXTRA_ATTR = 0x20
+
+/** i_advise: the file is encrypted */
+const FADVISE_ENCRYPT_BIT = 0x04
+/** i_flags: the file is compressed */
+const F2FS_COMPR_FL = 0x04
+
+/** Special block addresses */
+const NULL_ADDR = 0
+const NEW_ADDR = 0xffffffff
+const COMPRESS_ADDR = 0xfffffffe
+
+/** Dentry block: bitmap, reserved bytes, 11-byte entries, 8-byte name slots */
+const NR_DENTRY_IN_BLOCK = 214
+const DENTRY_BITMAP_SIZE = 27
+const DENTRY_SIZE = 11
+const DENTRY_SLOT_LEN = 8
+
+const S_IFMT = 0o170000
+const S_IFREG = 0o100000
+const S_IFDIR = 0o040000
+
+/** Maximum NAT blocks to read (455 node ids each) */
+const MAX_NAT_BLOCKS = 65_536
+
+/** Maximum node segments to read */
+const MAX_NODE_SEGMENTS = 16_384
+
+/** Maximum deleted inodes to keep (safety limit) */
+const MAX_DELETED_INODES = 500_000
+
+/** Maximum directory blocks to read for names */
+const MAX_DIR_BLOCKS = 65_536
+
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
+// ─── Extension to FileType mapping ──────────────────────────────
+
+const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
+  jpg: { type: 'jpeg', category: 'photo' },
+  jpeg: { type: 'jpeg', category: 'photo' },
+  png: { type: 'png', category: 'photo' },
+  heic: { type: 'heic', category: 'photo' },
+  cr2: { type: 'cr2', category: 'photo' },
+  nef: { type: 'nef', category: 'photo' },
+  arw: { type: 'arw', category: 'photo' },
+  mp4: { type: 'mp4', category: 'video' },
+  mov: { type: 'mov', category: 'video' },
+  avi: { type: 'avi', category: 'video' },
+  pdf: { type: 'pdf', category: 'document' },
+  docx: { type: 'docx', category: 'document' },
+  xlsx: { type: 'xlsx', category: 'document' },
+  rtf: { type: 'rtf', category: 'document' },
+  pptx: { type: 'pptx', category: 'document' },
+  gif: { type: 'gif', category: 'photo' },
+  webp: { type: 'webp', category: 'photo' },
+  psd: { type: 'psd', category: 'photo' },
+  mkv: { type: 'mkv', category: 'video' },
+  webm: { type: 'mkv', category: 'video' },
+  flv: { type: 'flv', category: 'video' },
+  wmv: { type: 'wmv', category: 'video' },
+  mp3: { type: 'mp3', category: 'audio' },
+  wav: { type: 'wav', category: 'audio' },
+  flac: { type: 'flac', category: 'audio' },
+  ogg: { type: 'ogg', category: 'audio' },
+  m4a: { type: 'm4a', category: 'audio' },
+  zip: { type: 'zip', category: 'archive' },
+  rar: { type: 'rar', category: 'archive' },
+  '7z': { type: '7z', category: 'archive' },
+  gz: { type: 'gz', category: 'archive' },
+  bz2: { type: 'bz2', category: 'archive' },
+  xz: { type: 'xz', category: 'archive' },
+  tar: { type: 'tar', category: 'archive' },
+  sqlite: { type: 'sqlite', category: 'database' },
+  db: { type: 'sqlite', category: 'database' },
+  dat: { type: 'bdb', category: 'database' },
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class F2fsParser {
+  private reader: SourceReader
+  private sb: F2fsSuperblock | null = null
+  private cp: F2fsCheckpoint | null = null
+  /** Current block of every node id in use, from the NAT and its journal */
+  private nat = new Map<number, number>()
+  /** Node ids run up to the NAT's capacity */
+  private maxNid = 0
+  /** Generation of every live inode, by node id */
+  private liveGenerations = new Map<number, number>()
+  /** Newest stale inode copy that still maps data, keyed by "nid:generation" */
+  private deleted = new Map<string, DeletedInode>()
+  /** Newest stale copy of each direct and indirect node, keyed by "ino:nid" */
+  private staleNodes = new Map<string, NodeCopy>()
+  /** Directory names and parents; live copies win over stale ones */
+  private directories = new Map<number, { name: string; parent: number; live: boolean }>()
+  /** Names from removed dentries, by inode number */
+  private names = new Map<number, { name: string; parent: number }>()
+  private bitmap: AllocationBitmap | null = null
+
+  constructor(reader: SourceReader) {
+    this.reader = reader
+  }
+
+  async parse(): Promise<RecoverableFile[]> {
+    this.sb = await this.readSuperblock()
+    if (!this.sb) return []
+    this.cp = await this.readCheckpoint()
+    if (!this.cp) return []
+
+    await this.loadNat()
+    for (const segno of await this.findNodeSegments()) {
+      await this.scanNodeSegment(segno)
+    }
+
+    // A stale copy of an inode that is still live is only an older version
+    for (const [key, entry] of this.deleted) {
+      if (!entry.orphan && this.liveGenerations.get(entry.inode.nid) === entry.inode.generation) {
+        this.deleted.delete(key)
+      }
+    }
+    if (this.deleted.size === 0) return []
+
+    await this.recoverNames()
+
+    try {
+      const bitmap = await loadAllocationBitmap(this.reader)
+      if (bitmap?.fsType === 'f2fs') this.bitmap = bitmap
+    } catch {
+      // Recoverability falls back to 'partial'
+    }
+
+    const results: RecoverableFile[] = []
+    for (const entry of this.deleted.values()) {
+      const file = await this.buildRecoverableFile(entry)
+      if (file) results.push(file)
+    }
+    return results
+  }
+
+  // ─── Superblock and Checkpoint ──────────────────────────────
+
+  private async readSuperblock(): Promise<F2fsSuperblock | null> {
+    // Two copies, at 1 KiB into the first and second blocks
+    for (const offset of [SUPERBLOCK_OFFSET, BLOCK_SIZE + SUPERBLOCK_OFFSET]) {
+      const buf = await this.readBytes(BigInt(offset), 2184)
+      if (!buf || buf.length < 2184 || buf.readUInt32LE(0) !== F2FS_MAGIC) continue
+      if (buf.readUInt32LE(16) !== LOG_BLOCK_SIZE) continue
+
+      const logBlocksPerSegment = buf.readUInt32LE(20)
+      if (logBlocksPerSegment < 1 || logBlocksPerSegment > 12) continue
+
+      const sb: F2fsSuperblock = {
+        blocksPerSegment: 1 << logBlocksPerSegment,
+        blockCount: Number(buf.readBigUInt64LE(36)),
+        segmentCountMain: buf.readUInt32LE(68),
+        segmentCountSit: buf.readUInt32LE(56),
+        segmentCountNat: buf.readUInt32LE(60),
+        cpBlock: buf.readUInt32LE(76),
+        sitBlock: buf.readUInt32LE(80),
+        natBlock: buf.readUInt32LE(84),
+        mainBlock: buf.readUInt32LE(92),
+        rootIno: buf.readUInt32LE(96),
+        cpPayload: buf.readUInt32LE(1664),
+        flexibleInlineXattr: (buf.readUInt32LE(2180) & FEATURE_FLEXIBLE_INLINE_XATTR) !== 0,
+      }
+      if (sb.mainBlock === 0 || sb.mainBlock >= sb.blockCount || sb.segmentCountMain === 0) continue
+      return sb
+    }
+    return null
+  }
+
+  /**
+   * Two checkpoint packs alternate in the first two checkpoint segments.
+   * A pack is valid when its last block repeats the header's version;
+   * the newer valid pack is current.
+   */
+  private async readCheckpoint(): Promise<F2fsCheckpoint | null> {
+    const sb = this.sb!
+    let best: { start: number; header: Buffer; version: bigint } | null = null
+
+    for (const start of [sb.cpBlock, sb.cpBlock + sb.blocksPerSegment]) {
+      const header = await this.readBlock(start)
+      if (!header) continue
+      const version = header.readBigUInt64LE(0)
+      const total = header.readUInt32LE(136)
+      if (total < 2 || total > sb.blocksPerSegment) continue
+
+      const footer = await this.readBlock(start + total - 1)
+      if (!footer || footer.readBigUInt64LE(0) !== version) continue
+      if (!best || version > best.version) best = { start, header, version }
+    }
+    if (!best) return null
+
+    const { start, header } = best
+    const flags = header.readUInt32LE(132)
+    const sitSize = header.readUInt32LE(156)
+    const natSize = header.readUInt32LE(160)
+
+    // Where the version bitmaps live depends on how large they are
+    let natBitmap: Buffer
+    let sitBitmap: Buffer
+    if (flags & CP_LARGE_NAT_BITMAP_FLAG) {
+      natBitmap = header.subarray(196, 196 + natSize)
+      sitBitmap = header.subarray(196 + natSize, 196 + natSize + sitSize)
+    } else if (sb.cpPayload > 0) {
+      natBitmap = header.subarray(192, 192 + natSize)
+      sitBitmap = (await this.readBytes(BigInt(start + 1) * BigInt(BLOCK_SIZE), sitSize)) ?? Buffer.alloc(0)
+    } else {
+      sitBitmap = header.subarray(192, 192 + sitSize)
+      natBitmap = header.subarray(192 + sitSize, 192 + sitSize + natSize)
+    }
+
+    // The hot data summary carries the NAT journal and the cold data
+    // summary the SIT journal; compacted summaries pack both up front
+    const summaryStart = start + header.readUInt32LE(140)
+    let natJournal: Buffer = Buffer.alloc(SUM_JOURNAL_SIZE)
+    let sitJournal: Buffer = Buffer.alloc(SUM_JOURNAL_SIZE)
+    if (flags & CP_COMPACT_SUM_FLAG) {
+      const block = await this.readBlock(summaryStart)
+      if (block) {
+        natJournal = block.subarray(0, SUM_JOURNAL_SIZE)
+        sitJournal = block.subarray(SUM_JOURNAL_SIZE, 2 * SUM_JOURNAL_SIZE)
+      }
+    } else {
+      const hot = await this.readBlock(summaryStart)
+      const cold = await this.readBlock(summaryStart + 2)
+      if (hot) natJournal = hot.subarray(SUM_ENTRIES_SIZE, SUM_ENTRIES_SIZE + SUM_JOURNAL_SIZE)
+      if (cold) sitJournal = cold.subarray(SUM_ENTRIES_SIZE, SUM_ENTRIES_SIZE + SUM_JOURNAL_SIZE)
+    }
+
+    // Orphan blocks sit between the header (and its payload) and the summaries
+    const orphans = new Set<number>()
+    if (flags & CP_ORPHAN_PRESENT_FLAG) {
+      for (let block = start + 1 + sb.cpPayload; block < summaryStart; block++) {
+        const buf = await this.readBlock(block)
+        if (!buf) continue
+        const count = Math.min(buf.readUInt32LE(4088), 1020)
+        for (let i = 0; i < count; i++) orphans.add(buf.readUInt32LE(i * 4))
+      }
+    }
+
+    return {
+      natBitmap,
+      sitBitmap,
+      // Hot, warm and cold node logs
+      currentNodeSegments: [0, 1, 2].map((i) => header.readUInt32LE(36 + i * 4)),
+      natJournal,
+      sitJournal,
+      orphans,
+    }
+  }
+
+  // ─── NAT and SIT ────────────────────────────────────────────
+
+  private async loadNat(): Promise<void> {
+    const sb = this.sb!
+    const cp = this.cp!
+    const perSegment = sb.blocksPerSegment
+    const natBlocks = Math.min((sb.segmentCountNat >> 1) * perSegment, MAX_NAT_BLOCKS)
+    this.maxNid = natBlocks * NAT_ENTRIES_PER_BLOCK
+
+    for (let first = 0; first < natBlocks; first += perSegment) {
+      // The two copies of each NAT segment are adjacent; the version
+      // bitmap says which copy of each block is current
+      const pair = await this.readBytes(
+        BigInt(sb.natBlock + first * 2) * BigInt(BLOCK_SIZE),
+        2 * perSegment * BLOCK_SIZE
+      )
+      if (!pair) continue
+
+      for (let i = 0; i < perSegment && first + i < natBlocks; i++) {
+        const blockOffset = first + i
+        const pos = (testBit(cp.natBitmap, blockOffset) ? perSegment + i : i) * BLOCK_SIZE
+        if (pos + BLOCK_SIZE > pair.length) continue
+
+        for (let e = 0; e < NAT_ENTRIES_PER_BLOCK; e++) {
+          // version (1), ino (4), block address (4)
+          const address = pair.readUInt32LE(pos + e * NAT_ENTRY_SIZE + 5)
+          if (address !== NULL_ADDR) this.nat.set(blockOffset * NAT_ENTRIES_PER_BLOCK + e, address)
+        }
+      }
+    }
+
+    // The journal holds updates newer than the NAT blocks
+    const journal = cp.natJournal
+    const count = Math.min(journal.readUInt16LE(0), Math.floor((SUM_JOURNAL_SIZE - 2) / NAT_JOURNAL_ENTRY_SIZE))
+    for (let i = 0; i < count; i++) {
+      const pos = 2 + i * NAT_JOURNAL_ENTRY_SIZE
+      const nid = journal.readUInt32LE(pos)
+      const address = journal.readUInt32LE(pos + 4 + 5)
+      if (address === NULL_ADDR) this.nat.delete(nid)
+      else this.nat.set(nid, address)
+    }
+  }
+
+  /**
+   * Node segments, from the segment type in each SIT entry. A freed
+   * segment keeps its last type, so it is still read for stale nodes.
+   */
+  private async findNodeSegments(): Promise<number[]> {
+    const sb = this.sb!
+    const cp = this.cp!
+    const types = new Map<number, number>()
+    const sitBlocks = Math.ceil(sb.segmentCountMain / SIT_ENTRIES_PER_BLOCK)
+    const copyBlocks = (sb.segmentCountSit >> 1) * sb.blocksPerSegment
+
+    for (let offset = 0; offset < sitBlocks; offset++) {
+      const block = sb.sitBlock + offset + (testBit(cp.sitBitmap, offset) ? copyBlocks : 0)
+      const buf = await this.readBlock(block)
+      if (!buf) continue
+
+      for (let e = 0; e < SIT_ENTRIES_PER_BLOCK; e++) {
+        const segno = offset * SIT_ENTRIES_PER_BLOCK + e
+        if (segno >= sb.segmentCountMain) break
+        types.set(segno, buf.readUInt16LE(e * SIT_ENTRY_SIZE) >> 10)
+      }
+    }
+
+    const journal = cp.sitJournal
+    const count = Math.min(journal.readUInt16LE(0), Math.floor((SUM_JOURNAL_SIZE - 2) / SIT_JOURNAL_ENTRY_SIZE))
+    for (let i = 0; i < count; i++) {
+      const pos = 2 + i * SIT_JOURNAL_ENTRY_SIZE
+      types.set(journal.readUInt32LE(pos), journal.readUInt16LE(pos + 4) >> 10)
+    }
+
+    const segments = new Set(cp.currentNodeSegments.filter((segno) => segno < sb.segmentCountMain))
+    for (const [segno, type] of types) {
+      if (type >= CURSEG_HOT_NODE && type <= CURSEG_COLD_NODE) segments.add(segno)
+    }
+    return [...segments].sort((a, b) => a - b).slice(0, MAX_NODE_SEGMENTS)
+  }
+
+  // ─── Node Scanning ──────────────────────────────────────────
+
+  private async scanNodeSegment(segno: number): Promise<void> {
+    const sb = this.sb!
+    const start = sb.mainBlock + segno * sb.blocksPerSegment
+    const data = await this.readBytes(BigInt(start) * BigInt(BLOCK_SIZE), sb.blocksPerSegment * BLOCK_SIZE)
+    if (!data) return
+
+    for (let i = 0; (i + 1) * BLOCK_SIZE <= data.length; i++) {
+      const node = data.subarray(i * BLOCK_SIZE, (i + 1) * BLOCK_SIZE)
+      const block = start + i
+      const nid = node.readUInt32LE(NODE_FOOTER)
+      const ino = node.readUInt32LE(NODE_FOOTER + 4)
+      if (nid === 0 || ino === 0 || nid >= this.maxNid || ino >= this.maxNid) continue
+
+      const live = this.nat.get(nid) === block
+      // With CRC recovery the upper half holds the checkpoint's CRC
+      const cpVersion = Number(node.readBigUInt64LE(NODE_FOOTER + 12) & 0xffffffffn)
+
+      if (nid !== ino) {
+        if (live || !hasAddresses(node)) continue
+        const key = `${ino}:${nid}`
+        const existing = this.staleNodes.get(key)
+        if (!existing || cpVersion > existing.cpVersion) this.staleNodes.set(key, { block, cpVersion })
+        continue
+      }
+
+      const inode = this.parseInode(node, block, cpVersion)
+      if (inode) this.recordInode(inode, live)
+    }
+  }
+
+  private recordInode(inode: F2fsInode, live: boolean): void {
+    if ((inode.mode & S_IFMT) === S_IFDIR) {
+      if (live || !this.directories.has(inode.nid)) {
+        this.directories.set(inode.nid, { name: inode.name, parent: inode.parent, live })
+      }
+      return
+    }
+
+    // An orphan was unlinked while open; its current copy is the one to keep
+    const orphan = live && this.cp!.orphans.has(inode.nid)
+    if (live) {
+      this.liveGenerations.set(inode.nid, inode.generation)
+      if (!orphan) return
+    }
+    if (inode.encrypted || !hasData(inode)) return
+
+    const key = `${inode.nid}:${inode.generation}`
+    const existing = this.deleted.get(key)
+    if (existing && (existing.orphan || existing.inode.cpVersion >= inode.cpVersion)) return
+    if (!existing && this.deleted.size >= MAX_DELETED_INODES) return
+    this.deleted.set(key, { inode, orphan })
+  }
+
+  private parseInode(node: Buffer, block: number, cpVersion: number): F2fsInode | null {
+    const mode = node.readUInt16LE(0)
+    const type = mode & S_IFMT
+    if (type !== S_IFREG && type !== S_IFDIR) return null
+
+    const nameLength = node.readUInt32LE(88)
+    if (nameLength > MAX_NAME_LENGTH) return null
+
+    const inline = node[3]
+    // Extra attributes take the first words of the address array
+    let extraSize = 0
+    if (inline & F2FS_EXTRA_ATTR) {
+      extraSize = node.readUInt16LE(INODE_ADDR_OFFSET)
+      if (extraSize % 4 !== 0 || extraSize > 200) return null
+    }
+
+    // Inline xattrs take the last words
+    let xattrWords = 0
+    if (this.sb!.flexibleInlineXattr) {
+      if (extraSize >= 4) xattrWords = node.readUInt16LE(INODE_ADDR_OFFSET + 2)
+    } else if (inline & (F2FS_INLINE_XATTR | F2FS_INLINE_DENTRY)) {
+      xattrWords = DEFAULT_INLINE_XATTR_ADDRS
+    }
+
+    const firstAddress = extraSize / 4
+    const addressCount = DEF_ADDRS_PER_INODE - firstAddress - xattrWords
+    if (addressCount <= 1) return null
+
+    let inlineOffset: number | null = null
+    const addresses: number[] = []
+    if (inline & (F2FS_INLINE_DATA | F2FS_INLINE_DENTRY)) {
+      // One reserved word precedes the inline area
+      inlineOffset = INODE_ADDR_OFFSET + (firstAddress + 1) * 4
+    } else {
+      for (let i = 0; i < addressCount; i++) {
+        addresses.push(node.readUInt32LE(INODE_ADDR_OFFSET + (firstAddress + i) * 4))
+      }
+    }
+
+    const encrypted = (node[2] & FADVISE_ENCRYPT_BIT) !== 0
+
+    return {
+      nid: node.readUInt32LE(NODE_FOOTER),
+      block,
+      cpVersion,
+      mode,
+      size: node.readBigUInt64LE(16),
+      generation: node.readUInt32LE(68),
+      parent: node.readUInt32LE(84),
+      name: encrypted ? '' : node.toString('utf8', 92, 92 + nameLength),
+      encrypted,
+      compressed: (node.readUInt32LE(80) & F2FS_COMPR_FL) !== 0,
+      logClusterSize: extraSize >= 34 ? node[393] : 2,
+      addresses,
+      nids: [0, 1, 2, 3, 4].map((i) => node.readUInt32LE(INODE_NID_OFFSET + i * 4)),
+      inlineOffset,
+      inlineSize: (addressCount - 1) * 4,
+      inlineDentry: (inline & F2FS_INLINE_DENTRY) !== 0,
+      modifiedAt: parseTimestamp(node, 48, 64),
+      createdAt: extraSize >= 24 ? parseTimestamp(node, 372, 380) : undefined,
+    }
+  }
+
+  /**
+   * Data block addresses in file order, read through the direct and
+   * indirect nodes. Holes and missing nodes give NULL_ADDR.
+   */
+  private async dataAddresses(
+    inode: F2fsInode,
+    readNode: (nid: number) => Promise<Buffer | null>,
+    blockCount: number
+  ): Promise<number[]> {
+    const addresses = inode.addresses.slice(0, blockCount)
+
+    const pushDirect = async (nid: number): Promise<void> => {
+      const node = nid ? await readNode(nid) : null
+      for (let i = 0; i < ADDRS_PER_BLOCK && addresses.length < blockCount; i++) {
+        addresses.push(node ? node.readUInt32LE(i * 4) : NULL_ADDR)
+      }
+    }
+
+    const pushIndirect = async (nid: number, depth: number): Promise<void> => {
+      const node = nid ? await readNode(nid) : null
+      for (let i = 0; i < ADDRS_PER_BLOCK && addresses.length < blockCount; i++) {
+        const child = node ? node.readUInt32LE(i * 4) : 0
+        if (depth > 1) await pushIndirect(child, depth - 1)
+        else await pushDirect(child)
+      }
+    }
+
+    for (const nid of inode.nids.slice(0, 2)) {
+      if (addresses.length < blockCount) await pushDirect(nid)
+    }
+    for (const nid of inode.nids.slice(2, 4)) {
+      if (addresses.length < blockCount) await pushIndirect(nid, 1)
+    }
+    if (addresses.length < blockCount) await pushIndirect(inode.nids[4], 2)
+
+    return addresses
+  }
+
+  /** Read a node block, checking its footer still belongs to `ino`. */
+  private async readNode(block: number | undefined, nid: number, ino: number): Promise<Buffer | null> {
+    if (block === undefined) return null
+    const node = await this.readBlock(block)
+    if (!node || node.readUInt32LE(NODE_FOOTER) !== nid || node.readUInt32LE(NODE_FOOTER + 4) !== ino) return null
+    return node
+  }
+
+  // ─── Name Recovery ──────────────────────────────────────────
+
+  /**
+   * Removing a name only clears its bits in the dentry bitmap; the entry
+   * and its name slots stay in the block until reused.
+   */
+  private async recoverNames(): Promise<void> {
+    let blocksRead = 0
+
+    for (const [nid, directory] of this.directories) {
+      if (!directory.live) continue
+      const block = this.nat.get(nid)
+      const node = await this.readNode(block, nid, nid)
+      if (!node) continue
+      const inode = this.parseInode(node, block!, 0)
+      if (!inode || inode.encrypted) continue
+
+      if (inode.inlineDentry && inode.inlineOffset !== null) {
+        const area = node.subarray(inode.inlineOffset, inode.inlineOffset + inode.inlineSize)
+        const count = Math.floor((inode.inlineSize * 8) / ((DENTRY_SIZE + DENTRY_SLOT_LEN) * 8 + 1))
+        const bitmapSize = Math.ceil(count / 8)
+        const reserved = inode.inlineSize - (count * (DENTRY_SIZE + DENTRY_SLOT_LEN) + bitmapSize)
+        this.parseDentries(area, count, bitmapSize + reserved, nid)
+        continue
+      }
+
+      const blockCount = Number((inode.size + BigInt(BLOCK_SIZE) - 1n) / BigInt(BLOCK_SIZE))
+      const addresses = await this.dataAddresses(
+        inode,
+        (child) => this.readNode(this.nat.get(child), child, nid),
+        Math.min(blockCount, MAX_DIR_BLOCKS)
+      )
+
+      for (const address of addresses) {
+        if (!this.isDataAddress(address)) continue
+        if (blocksRead++ >= MAX_DIR_BLOCKS) return
+        const buf = await this.readBlock(address)
+        if (buf) this.parseDentries(buf, NR_DENTRY_IN_BLOCK, DENTRY_BITMAP_SIZE + 3, nid)
+      }
+    }
+  }
+
+  /** Keep the names of entries whose slots are all clear in the bitmap. */
+  private parseDentries(area: Buffer, count: number, dentryStart: number, parent: number): void {
+    const nameStart = dentryStart + count * DENTRY_SIZE
+    let slot = 0
+
+    while (slot < count) {
+      const entry = dentryStart + slot * DENTRY_SIZE
+      const ino = area.readUInt32LE(entry + 4)
+      const nameLength = area.readUInt16LE(entry + 8)
+      const slots = Math.max(1, Math.ceil(nameLength / DENTRY_SLOT_LEN))
+
+      if (testBitLe(area, slot)) {
+        slot += slots
+        continue
+      }
+      if (ino === 0 || nameLength === 0 || nameLength > MAX_NAME_LENGTH || slot + slots > count) {
+        slot++
+        continue
+      }
+
+      let free = true
+      for (let s = slot + 1; s < slot + slots; s++) {
+        if (testBitLe(area, s)) free = false
+      }
+      const nameBytes = area.subarray(nameStart + slot * DENTRY_SLOT_LEN, nameStart + slot * DENTRY_SLOT_LEN + nameLength)
+      if (!free || nameBytes.includes(0) || nameBytes.includes(0x2f)) {
+        slot++
+        continue
+      }
+
+      if (!this.names.has(ino)) this.names.set(ino, { name: nameBytes.toString('utf8'), parent })
+      slot += slots
+    }
+  }
+
+  private resolveLocation(parent: number): FileLocation {
+    const folders: string[] = []
+    let id = parent
+
+    while (id !== this.sb!.rootIno) {
+      const directory = this.directories.get(id)
+      if (!directory || folders.length >= MAX_DIRECTORY_DEPTH) {
+        return { folders, orphaned: true }
+      }
+      folders.unshift(directory.name)
+      id = directory.parent
+    }
+
+    return { folders, orphaned: false }
+  }
+
+  // ─── Result Building ────────────────────────────────────────
+
+  private async buildRecoverableFile(entry: DeletedInode): Promise<RecoverableFile | null> {
+    const { inode, orphan } = entry
+    const blockSize = BigInt(BLOCK_SIZE)
+    const fragments: FileFragment[] = []
+    let compressed = false
+
+    const push = (address: number | null): void => {
+      const last = fragments[fragments.length - 1]
+      if (address === null) {
+        if (last?.sparse) last.size += blockSize
+        else fragments.push({ offset: 0n, size: blockSize, sparse: true })
+        return
+      }
+      const offset = BigInt(address) * blockSize
+      if (last && !last.sparse && last.offset + last.size === offset) last.size += blockSize
+      else fragments.push({ offset, size: blockSize })
+    }
+
+    if (inode.inlineOffset !== null) {
+      const size = inode.size < BigInt(inode.inlineSize) ? inode.size : BigInt(inode.inlineSize)
+      fragments.push({ offset: BigInt(inode.block) * blockSize + BigInt(inode.inlineOffset), size })
+    } else {
+      const blockCount = Number((inode.size + blockSize - 1n) / blockSize)
+      const addresses = await this.dataAddresses(
+        inode,
+        (nid) => this.readNode(
+          orphan ? this.nat.get(nid) : this.staleNodes.get(`${inode.nid}:${nid}`)?.block,
+          nid,
+          inode.nid
+        ),
+        blockCount
+      )
+
+      // A compressed cluster starts with a marker and is not stored raw
+      const clusterSize = 1 << inode.logClusterSize
+      let skipUntil = 0
+      for (let i = 0; i < addresses.length; i++) {
+        if (inode.compressed && i % clusterSize === 0 && addresses[i] === COMPRESS_ADDR) {
+          compressed = true
+          skipUntil = i + clusterSize
+        }
+        push(i < skipUntil || !this.isDataAddress(addresses[i]) ? null : addresses[i])
+      }
+
+      // The last block is only partly used
+      const last = fragments[fragments.length - 1]
+      const excess = BigInt(addresses.length) * blockSize - inode.size
+      if (last && excess > 0n && excess < last.size) last.size -= excess
+    }
+
+    // Holes have no blocks on disk to find or to check
+    const stored = fragments.filter((f) => !f.sparse)
+    if (stored.length === 0) return null
+
+    const directoryEntry = this.names.get(inode.nid)
+    const name = directoryEntry?.name || inode.name || `f2fs_${inode.nid}_recovered`
+
+    const dotIndex = name.lastIndexOf('.')
+    const extension = dotIndex >= 0 ? name.substring(dotIndex + 1).toLowerCase() : ''
+
+    const mapping = EXTENSION_MAP[extension]
+    const fileType: FileType = mapping?.type ?? 'jpeg'
+    const category: FileCategory = mapping?.category ?? 'photo'
+
+    return {
+      id: randomUUID(),
+      type: fileType,
+      category,
+      offset: stored[0].offset,
+      size: fragments.reduce((sum, f) => sum + f.size, 0n),
+      sizeEstimated: false,
+      name,
+      extension: extension || 'bin',
+      // An orphan's blocks are still allocated to it
+      recoverability: orphan ? 'good' : assessRecoverability(stored, this.bitmap, BLOCK_SIZE),
+      source: 'metadata',
+      fragments,
+      compressed: compressed || undefined,
+      location: this.resolveLocation(directoryEntry?.parent ?? inode.parent),
+      metadata: {
+        originalName: name,
+        createdAt: inode.createdAt,
+        modifiedAt: inode.modifiedAt,
+      },
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private isDataAddress(address: number): boolean {
+    return address >= this.sb!.mainBlock && address < this.sb!.blockCount
+  }
+
+  private async readBlock(block: number): Promise<Buffer | null> {
+    const buf = await this.readBytes(BigInt(block) * BigInt(BLOCK_SIZE), BLOCK_SIZE)
+    return buf && buf.length === BLOCK_SIZE ? buf : null
+  }
+
+  private async readBytes(offset: bigint, length: number): Promise<Buffer | null> {
+    if (length <= 0 || offset >= this.reader.size) return null
+    try {
+      return await this.reader.read(offset, length)
+    } catch {
+      return null
+    }
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** F2FS version and valid-block bitmaps run from each byte's top bit. */
+function testBit(bitmap: Buffer, nr: number): boolean {
+  const byte = nr >> 3
+  return byte < bitmap.length && (bitmap[byte] & (0x80 >> (nr & 7))) !== 0
+}
+
+/** Dentry bitmaps use little-endian bit order. */
+function testBitLe(bitmap: Buffer, nr: number): boolean {
+  return (bitmap[nr >> 3] & (1 << (nr & 7))) !== 0
+}
+
+/** A direct or indirect node that still points somewhere. */
+function hasAddresses(node: Buffer): boolean {
+  for (let i = 0; i < ADDRS_PER_BLOCK; i++) {
+    if (node.readUInt32LE(i * 4) !== NULL_ADDR) return true
+  }
+  return false
+}
+
+/** Truncation zeroes the size and addresses before the inode is freed. */
+function hasData(inode: F2fsInode): boolean {
+  if (inode.size === 0n) return false
+  if (inode.inlineOffset !== null) return true
+  return inode.addresses.some((a) => a !== NULL_ADDR && a !== NEW_ADDR) || inode.nids.some((n) => n !== 0)
+}
+
+/** Seconds (u64) and nanoseconds (u32) since the epoch. */
+function parseTimestamp(node: Buffer, secondsOffset: number, nanosecondsOffset: number): Date | undefined {
+  const seconds = Number(node.readBigUInt64LE(secondsOffset))
+  if (seconds === 0) return undefined
+  return new Date(seconds * 1000 + Math.floor(node.readUInt32LE(nanosecondsOffset) / 1_000_000))
+}
@@ -1,27 +1,46 @@
 /**
- * FAT32 Filesystem Parser
+ * FAT Filesystem Parser
  *
  * Scans FAT32 directory entries for deleted files (first byte 0xE5) and
  * reconstructs metadata including filename, size, timestamps, and cluster
  * location to produce RecoverableFile records.
+ *
+ * FAT12 and FAT16 volumes are handled too. A zero 16-bit FAT size marks
+ * FAT32; otherwise the cluster count decides between FAT12 and FAT16, as
+ * the specification requires. FAT12/16 keep the root
+ * directory in a fixed region between the FATs and the data area rather
+ * than in a cluster chain, and use 12- or 16-bit FAT entries.
  */
 
 import { randomUUID } from 'crypto'
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
 import type { RecoverableFile, FileFragment, FileType, FileCategory } from '../../../shared/types'
 
-// ─── FAT32 BPB (BIOS Parameter Block) ──────────────────────────
+// ─── FAT BPB (BIOS Parameter Block) ────────────────────────────
+
+type FatWidth = 12 | 16 | 32
 
 interface Fat32Bpb {
+  fatWidth: FatWidth
   bytesPerSector: number
   sectorsPerCluster: number
   reservedSectors: number
   fatCount: number
   fatSizeSectors: number
+  /** FAT32 only; FAT12/16 use the fixed root directory region. */
   rootDirCluster: number
+  /** Sectors in the fixed root directory region (0 on FAT32). */
+  rootDirSectors: number
   totalSectors: number
 }
 
+interface DirectoryScanState {
+  /** Names of the folders from the root down to this directory */
+  folders: string[]
+  lfnParts: Map<number, string>
+  totalEntries: number
+}
+
 // ─── Constants ──────────────────────────────────────────────────
 
 const DIR_ENTRY_SIZE = 32
@@ -34,12 +53,21 @@ const VOLUME_LABEL_ATTRIBUTE = 0x08
 /** Maximum directory entries to scan per cluster chain to prevent infinite loops. */
 const MAX_DIR_ENTRIES = 100_000
 
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
 /** Maximum clusters to follow in a chain. */
 const MAX_CHAIN_LENGTH = 1_000_000
 
-/** FAT32 end-of-chain marker range. */
-const EOC_MIN = 0x0ffffff8
-const EOC_MAX = 0x0fffffff
+/** Cluster values at or above this are bad-cluster or end-of-chain markers. */
+const CHAIN_END: Record<FatWidth, number> = {
+  12: 0xff7,
+  16: 0xfff7,
+  32: 0x0ffffff7,
+}
+
+/** Volumes with fewer clusters than this use 12-bit FAT entries. */
+const FAT12_MAX_CLUSTERS = 4085
 
 // ─── Extension to FileType mapping ──────────────────────────────
 
@@ -86,16 +114,21 @@ const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }>
 // ─── Public API ─────────────────────────────────────────────────
 
 export class Fat32Parser {
-  private reader: BlockReader
+  private reader: SourceReader
   private bpb: Fat32Bpb | null = null
   private clusterSize = 0
   private dataRegionOffset = 0n
+  private onFile?: (file: RecoverableFile) => void
 
-  constructor(reader: BlockReader) {
+  constructor(reader: SourceReader) {
     this.reader = reader
   }
 
-  async parse(): Promise<RecoverableFile[]> {
+  /**
+   * @param onFile - Called with each deleted file as soon as it is found.
+   */
+  async parse(onFile?: (file: RecoverableFile) => void): Promise<RecoverableFile[]> {
+    this.onFile = onFile
     this.bpb = await this.parseBootSector()
     if (!this.bpb) return []
 
@@ -103,8 +136,15 @@ export class Fat32Parser {
     this.dataRegionOffset = BigInt(this.bpb.reservedSectors + this.bpb.fatCount * this.bpb.fatSizeSectors) *
       BigInt(this.bpb.bytesPerSector)
 
+    const rootDirOffset = this.dataRegionOffset
+    this.dataRegionOffset += BigInt(this.bpb.rootDirSectors * this.bpb.bytesPerSector)
+
     const results: RecoverableFile[] = []
-    await this.scanDirectory(this.bpb.rootDirCluster, results)
+    if (this.bpb.fatWidth === 32) {
+      await this.scanDirectory(this.bpb.rootDirCluster, [], results)
+    } else {
+      await this.scanRootDirectory(rootDirOffset, results)
+    }
     return results
   }
 
@@ -123,8 +163,10 @@ export class Fat32Parser {
     const sectorsPerCluster = buf[13]
     const reservedSectors = buf.readUInt16LE(14)
     const fatCount = buf[16]
-    const fatSizeSectors = buf.readUInt32LE(36)
-    const rootDirCluster = buf.readUInt32LE(44)
+    const rootEntryCount = buf.readUInt16LE(17)
+    // BPB_FATSz16 is zero on FAT32, which keeps the size at offset 36
+    const fatSz16 = buf.readUInt16LE(22)
+    const fatSizeSectors = fatSz16 || buf.readUInt32LE(36)
 
     // Sanity checks
     if (
@@ -134,8 +176,7 @@ export class Fat32Parser {
       (sectorsPerCluster & (sectorsPerCluster - 1)) !== 0 ||
       reservedSectors === 0 ||
       fatCount === 0 ||
-      fatSizeSectors === 0 ||
-      rootDirCluster < 2
+      fatSizeSectors === 0
     ) {
       return null
     }
@@ -145,28 +186,36 @@ export class Fat32Parser {
       totalSectors = buf.readUInt32LE(32)
     }
 
+    const rootDirSectors = Math.ceil((rootEntryCount * DIR_ENTRY_SIZE) / bytesPerSector)
+    const dataSectors = totalSectors - (reservedSectors + fatCount * fatSizeSectors + rootDirSectors)
+    if (dataSectors <= 0) return null
+
+    // Small FAT32 volumes exist, so FAT32 is recognised by its BPB layout
+    // rather than by cluster count.
+    const clusterCount = Math.floor(dataSectors / sectorsPerCluster)
+    const fatWidth: FatWidth = fatSz16 === 0 ? 32 : clusterCount < FAT12_MAX_CLUSTERS ? 12 : 16
+
+    const rootDirCluster = fatWidth === 32 ? buf.readUInt32LE(44) : 0
+    if (fatWidth === 32 ? rootDirCluster < 2 : rootEntryCount === 0) return null
+
     return {
+      fatWidth,
       bytesPerSector,
       sectorsPerCluster,
       reservedSectors,
       fatCount,
       fatSizeSectors,
       rootDirCluster,
+      rootDirSectors,
       totalSectors,
     }
   }
 
   // ─── Directory Scanning ─────────────────────────────────────
 
-  private async scanDirectory(startCluster: number, results: RecoverableFile[]): Promise<void> {
-    const bpb = this.bpb!
-    const entriesPerCluster = this.clusterSize / DIR_ENTRY_SIZE
+  private async scanDirectory(startCluster: number, folders: string[], results: RecoverableFile[]): Promise<void> {
     const clusters = await this.followClusterChain(startCluster)
-    let totalEntries = 0
-
-    // Collect LFN (Long File Name) entries for deleted files
-    let lfnParts: Map<number, string> = new Map()
-    let collectingDeletedLfn = false
+    const state: DirectoryScanState = { folders, lfnParts: new Map(), totalEntries: 0 }
 
     for (const cluster of clusters) {
       let clusterData: Buffer
@@ -176,62 +225,94 @@ export class Fat32Parser {
         continue
       }
 
-      for (let i = 0; i < entriesPerCluster; i++) {
-        if (++totalEntries > MAX_DIR_ENTRIES) return
+      if (!(await this.scanEntries(clusterData, state, results))) return
+    }
+  }
+
+  /**
+   * Scan the fixed-size root directory of a FAT12/16 volume, which sits
+   * between the FATs and the data region instead of in a cluster chain.
+   */
+  private async scanRootDirectory(offset: bigint, results: RecoverableFile[]): Promise<void> {
+    const bpb = this.bpb!
+    const state: DirectoryScanState = { folders: [], lfnParts: new Map(), totalEntries: 0 }
+
+    let rootData: Buffer
+    try {
+      rootData = await this.reader.read(offset, bpb.rootDirSectors * bpb.bytesPerSector)
+    } catch {
+      return
+    }
 
-        const offset = i * DIR_ENTRY_SIZE
-        if (offset + DIR_ENTRY_SIZE > clusterData.length) break
+    await this.scanEntries(rootData, state, results)
+  }
 
-        const firstByte = clusterData[offset]
+  /**
+   * Scan a run of directory entries. Returns false once the end-of-directory
+   * marker or the entry limit is reached.
+   */
+  private async scanEntries(
+    data: Buffer,
+    state: DirectoryScanState,
+    results: RecoverableFile[]
+  ): Promise<boolean> {
+    const entryCount = Math.floor(data.length / DIR_ENTRY_SIZE)
 
-        // End of directory listing
-        if (firstByte === LAST_ENTRY_MARKER) return
+    // Collect LFN (Long File Name) entries for the entry that follows them
+    const lfnParts = state.lfnParts
 
-        const attr = clusterData[offset + 11]
+    for (let i = 0; i < entryCount; i++) {
+      if (++state.totalEntries > MAX_DIR_ENTRIES) return false
 
-        // LFN entry
-        if (attr === LFN_ATTRIBUTE) {
-          const ordinal = clusterData[offset] & 0x3f
-          const isDeleted = clusterData[offset] === DELETED_MARKER || (clusterData[offset] & 0x80) !== 0
+      const offset = i * DIR_ENTRY_SIZE
+      const firstByte = data[offset]
 
-          if (isDeleted || collectingDeletedLfn) {
-            const namePart = this.extractLfnChars(clusterData, offset)
-            lfnParts.set(ordinal, namePart)
-            collectingDeletedLfn = true
-          }
-          continue
-        }
+      // End of directory listing
+      if (firstByte === LAST_ENTRY_MARKER) return false
 
-        // Volume label or special - skip
-        if (attr & VOLUME_LABEL_ATTRIBUTE) {
-          collectingDeletedLfn = false
-          lfnParts.clear()
-          continue
-        }
+      const attr = data[offset + 11]
 
-        // This is a standard 8.3 directory entry
-        if (firstByte === DELETED_MARKER) {
-          const file = this.parseDeletedEntry(clusterData, offset, lfnParts)
-          if (file) {
-            // Recursion for deleted subdirectories is not reliable, so skip
-            if (!(attr & DIRECTORY_ATTRIBUTE)) {
-              results.push(file)
-            }
+      // LFN entry
+      if (attr === LFN_ATTRIBUTE) {
+        // Deletion overwrites the ordinal byte of every LFN entry, so
+        // key parts by position; they are stored last part first.
+        const namePart = this.extractLfnChars(data, offset)
+        lfnParts.set(lfnParts.size, namePart)
+        continue
+      }
+
+      // Volume label or special - skip
+      if (attr & VOLUME_LABEL_ATTRIBUTE) {
+        lfnParts.clear()
+        continue
+      }
+
+      // This is a standard 8.3 directory entry
+      if (firstByte === DELETED_MARKER) {
+        const file = this.parseDeletedEntry(data, offset, lfnParts)
+        if (file) {
+          // Recursion for deleted subdirectories is not reliable, so skip
+          if (!(attr & DIRECTORY_ATTRIBUTE)) {
+            file.location = { folders: state.folders, orphaned: false }
+            results.push(file)
+            this.onFile?.(file)
           }
-        } else if (firstByte !== 0x2e) {
-          // Not a dot-entry; if it's a live subdirectory, recurse into it
-          if (attr & DIRECTORY_ATTRIBUTE) {
-            const subCluster = this.extractStartCluster(clusterData, offset)
-            if (subCluster >= 2) {
-              await this.scanDirectory(subCluster, results)
-            }
+        }
+      } else if (firstByte !== 0x2e) {
+        // Not a dot-entry; if it's a live subdirectory, recurse into it
+        if (attr & DIRECTORY_ATTRIBUTE && state.folders.length < MAX_DIRECTORY_DEPTH) {
+          const subCluster = this.extractStartCluster(data, offset)
+          if (subCluster >= 2) {
+            const name = this.entryName(lfnParts, this.read83Name(data, offset))
+            await this.scanDirectory(subCluster, [...state.folders, name], results)
           }
         }
-
-        collectingDeletedLfn = false
-        lfnParts.clear()
       }
+
+      lfnParts.clear()
     }
+
+    return true
   }
 
   // ─── Deleted Entry Parsing ──────────────────────────────────
@@ -250,20 +331,7 @@ export class Fat32Parser {
     // Reconstruct short name with first-char heuristic
     const shortName = this.reconstruct83Name(buf, offset)
     const extension = shortName.ext.toLowerCase()
-
-    // Use LFN if available, otherwise use short name
-    let displayName: string
-    if (lfnParts.size > 0) {
-      const sorted = [...lfnParts.entries()].sort((a, b) => a[0] - b[0])
-      displayName = sorted.map(([, v]) => v).join('')
-      // LFN may have null padding
-      displayName = displayName.replace(/\0+$/, '')
-    } else {
-      displayName = shortName.name.trim()
-      if (extension) {
-        displayName += '.' + extension
-      }
-    }
+    const displayName = this.entryName(lfnParts, shortName)
 
     // Timestamps
     const modifiedAt = this.parseDosDateTime(
@@ -316,25 +384,38 @@ export class Fat32Parser {
   private async followClusterChain(startCluster: number): Promise<number[]> {
     const bpb = this.bpb!
     const chain: number[] = []
+    const chainEnd = CHAIN_END[bpb.fatWidth]
     let current = startCluster
 
     while (chain.length < MAX_CHAIN_LENGTH) {
-      if (current < 2 || current >= EOC_MIN) break
+      if (current < 2 || current >= chainEnd) break
       chain.push(current)
 
-      // Read the FAT entry for this cluster
-      const fatOffset = BigInt(bpb.reservedSectors) * BigInt(bpb.bytesPerSector) +
-        BigInt(current) * 4n
+      // Read the FAT entry for this cluster. FAT12 packs two entries into
+      // three bytes: even clusters use the low 12 bits, odd the high 12.
+      const entryOffset = bpb.fatWidth === 12
+        ? BigInt(current + (current >> 1))
+        : BigInt(current) * BigInt(bpb.fatWidth / 8)
+      const fatOffset = BigInt(bpb.reservedSectors) * BigInt(bpb.bytesPerSector) + entryOffset
+      const entrySize = bpb.fatWidth === 32 ? 4 : 2
 
       let fatBuf: Buffer
       try {
-        fatBuf = await this.reader.read(fatOffset, 4)
+        fatBuf = await this.reader.read(fatOffset, entrySize)
       } catch {
         break
       }
-      if (fatBuf.length < 4) break
-
-      const next = fatBuf.readUInt32LE(0) & 0x0fffffff
+      if (fatBuf.length < entrySize) break
+
+      let next: number
+      if (bpb.fatWidth === 32) {
+        next = fatBuf.readUInt32LE(0) & 0x0fffffff
+      } else if (bpb.fatWidth === 16) {
+        next = fatBuf.readUInt16LE(0)
+      } else {
+        const pair = fatBuf.readUInt16LE(0)
+        next = current & 1 ? pair >> 4 : pair & 0x0fff
+      }
       if (next === current) break // avoid infinite loop
       current = next
     }
@@ -355,11 +436,36 @@ export class Fat32Parser {
   }
 
   private extractStartCluster(buf: Buffer, offset: number): number {
-    const high = buf.readUInt16LE(offset + 20)
+    // The high word is only defined on FAT32
+    const high = this.bpb!.fatWidth === 32 ? buf.readUInt16LE(offset + 20) : 0
     const low = buf.readUInt16LE(offset + 26)
     return (high << 16) | low
   }
 
+  /** Use the LFN if one was collected, otherwise the short name. */
+  private entryName(lfnParts: Map<number, string>, shortName: { name: string; ext: string }): string {
+    if (lfnParts.size > 0) {
+      const sorted = [...lfnParts.entries()].sort((a, b) => b[0] - a[0])
+      // LFN may have null padding
+      return sorted.map(([, v]) => v).join('').replace(/\0+$/, '')
+    }
+
+    const name = shortName.name.trim()
+    const extension = shortName.ext.toLowerCase()
+    return extension ? `${name}.${extension}` : name
+  }
+
+  /** The 8.3 name of a live entry. A leading 0x05 stands for 0xE5. */
+  private read83Name(buf: Buffer, offset: number): { name: string; ext: string } {
+    const nameBytes = Buffer.from(buf.subarray(offset, offset + 8))
+    if (nameBytes[0] === 0x05) nameBytes[0] = 0xe5
+
+    return {
+      name: nameBytes.toString('latin1').trimEnd(),
+      ext: buf.subarray(offset + 8, offset + 11).toString('latin1').trim(),
+    }
+  }
+
   private reconstruct83Name(buf: Buffer, offset: number): { name: string; ext: string } {
     // First byte is 0xE5 for deleted - use '_' as placeholder
     const nameBytes = Buffer.alloc(8)
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest'
+import { HfsPlusParser } from './hfsplus-parser'
+import { BufferReader } from '../../io/buffer-reader'
+import type { RecoverableFile } from '../../../shared/types'
+
+const BLOCK = 4096
+const BLOCKS = 64
+/** One allocation block per B-tree node keeps the layout simple */
+const NODE = BLOCK
+
+const EXTENTS_FILE_BLOCK = 2
+const CATALOG_FILE_BLOCK = 4
+const JOURNAL_INFO_BLOCK = 8
+const JOURNAL_BLOCK = 10
+const JOURNAL_SIZE = 8 * BLOCK
+const JOURNAL_SECTOR = 512
+
+const ROOT_FOLDER = 2
+const PHOTOS_FOLDER = 16
+
+const CREATED = new Date('2022-02-03T04:05:06.000Z')
+const HFS_EPOCH = Date.UTC(1904, 0, 1)
+
+interface Extent {
+  start: number
+  count: number
+}
+
+function catalogKey(parent: number, name: string): Buffer {
+  const key = Buffer.alloc(8 + name.length * 2)
+  key.writeUInt16BE(6 + name.length * 2, 0)
+  key.writeUInt32BE(parent, 2)
+  key.writeUInt16BE(name.length, 6)
+  for (let i = 0; i < name.length; i++) key.writeUInt16BE(name.charCodeAt(i), 8 + i * 2)
+  return key
+}
+
+function folderRecord(parent: number, name: string, folderId: number): Buffer {
+  const data = Buffer.alloc(88)
+  data.writeUInt16BE(0x0001, 0)
+  data.writeUInt32BE(folderId, 8)
+  return Buffer.concat([catalogKey(parent, name), data])
+}
+
+/** A file record whose data fork holds `extents` of a fork `totalBlocks` long. */
+function fileRecord(
+  parent: number,
+  name: string,
+  fileId: number,
+  size: number,
+  extents: Extent[],
+  totalBlocks = extents.reduce((sum, e) => sum + e.count, 0)
+): Buffer {
+  const data = Buffer.alloc(248)
+  data.writeUInt16BE(0x0002, 0)
+  data.writeUInt32BE(fileId, 8)
+  data.writeUInt32BE((CREATED.getTime() - HFS_EPOCH) / 1000, 12)
+  data.writeUInt32BE((CREATED.getTime() - HFS_EPOCH) / 1000, 16)
+  data.writeBigUInt64BE(BigInt(size), 88)
+  data.writeUInt32BE(totalBlocks, 88 + 12)
+  extents.forEach((e, i) => {
+    data.writeUInt32BE(e.start, 88 + 16 + i * 8)
+    data.writeUInt32BE(e.count, 88 + 20 + i * 8)
+  })
+  return Buffer.concat([catalogKey(parent, name), data])
+}
+
+/** An extents overflow record continuing a data fork at fork block `startBlock`. */
+function overflowRecord(fileId: number, startBlock: number, extents: Extent[]): Buffer {
+  const record = Buffer.alloc(76)
+  record.writeUInt16BE(10, 0)
+  record.writeUInt32BE(fileId, 4)
+  record.writeUInt32BE(startBlock, 8)
+  extents.forEach((e, i) => {
+    record.writeUInt32BE(e.start, 12 + i * 8)
+    record.writeUInt32BE(e.count, 16 + i * 8)
+  })
+  return record
+}
+
+/**
+ * A leaf node: its records, then `slack` left over from deleted records
+ * between the free space offset and the offset table.
+ */
+function leafNode(records: Buffer[], slack: Buffer[] = []): Buffer {
+  const node = Buffer.alloc(NODE)
+  node[8] = 0xff
+  node[9] = 1
+  node.writeUInt16BE(records.length, 10)
+
+  let pos = 14
+  records.forEach((record, i) => {
+    node.writeUInt16BE(pos, NODE - (i + 1) * 2)
+    pos += record.copy(node, pos)
+  })
+  node.writeUInt16BE(pos, NODE - (records.length + 1) * 2)
+  for (const record of slack) pos += record.copy(node, pos)
+  return node
+}
+
+/** A header node for a tree of two nodes, the second its only leaf. */
+function headerNode(): Buffer {
+  const node = Buffer.alloc(NODE)
+  node[8] = 0x01
+  node.writeUInt16BE(3, 10)
+  node.writeUInt16BE(1, 14)
+  node.writeUInt32BE(1, 14 + 2)
+  node.writeUInt32BE(1, 14 + 10)
+  node.writeUInt32BE(1, 14 + 14)
+  node.writeUInt16BE(NODE, 14 + 18)
+  node.writeUInt32BE(2, 14 + 22)
+  return node
+}
+
+/** The checksum over a block list header's first 32 bytes. */
+function journalChecksum(buf: Buffer): number {
+  let checksum = 0
+  for (const byte of buf) checksum = ((checksum << 8) ^ (checksum + byte)) | 0
+  return ~checksum >>> 0
+}
+
+/**
+ * A volume of 64 blocks: the extents overflow file in blocks 2-3, the
+ * catalog in blocks 4-5 (its leaf is node 1, block 5) and, when journaled,
+ * a little-endian journal in blocks 10-17.
+ */
+class Volume {
+  readonly data = Buffer.alloc(BLOCKS * BLOCK)
+
+  constructor(catalogLeaf: Buffer, extentsLeaf: Buffer = leafNode([])) {
+    const vh = this.data.subarray(1024, 1536)
+    vh.writeUInt16BE(0x482b, 0)
+    vh.writeUInt32BE(BLOCK, 40)
+    vh.writeUInt32BE(BLOCKS, 44)
+    this.fork(vh, 192, EXTENTS_FILE_BLOCK)
+    this.fork(vh, 272, CATALOG_FILE_BLOCK)
+
+    this.node(EXTENTS_FILE_BLOCK, headerNode())
+    this.node(EXTENTS_FILE_BLOCK + 1, extentsLeaf)
+    this.node(CATALOG_FILE_BLOCK, headerNode())
+    this.node(CATALOG_FILE_BLOCK + 1, catalogLeaf)
+  }
+
+  /**
+   * Journal one transaction that wrote `copy` over the catalog leaf. The
+   * transaction has been flushed: the journal's start and end are past it.
+   */
+  journal(copy: Buffer): void {
+    this.data.writeUInt32BE(JOURNAL_INFO_BLOCK, 1024 + 124)
+    const info = this.block(JOURNAL_INFO_BLOCK)
+    info.writeUInt32BE(0x1, 0)
+    info.writeBigUInt64BE(BigInt(JOURNAL_BLOCK * BLOCK), 36)
+    info.writeBigUInt64BE(BigInt(JOURNAL_SIZE), 44)
+
+    const journal = this.data.subarray(JOURNAL_BLOCK * BLOCK, JOURNAL_BLOCK * BLOCK + JOURNAL_SIZE)
+    const listAt = JOURNAL_SECTOR
+    const listHeaderSize = JOURNAL_SECTOR
+    const end = listAt + listHeaderSize + copy.length
+    journal.writeUInt32LE(0x4a4e4c78, 0)
+    journal.writeUInt32LE(0x12345678, 4)
+    journal.writeBigUInt64LE(BigInt(end), 8)
+    journal.writeBigUInt64LE(BigInt(end), 16)
+    journal.writeBigUInt64LE(BigInt(JOURNAL_SIZE), 24)
+    journal.writeUInt32LE(listHeaderSize, 32)
+    journal.writeUInt32LE(JOURNAL_SECTOR, 40)
+
+    const list = journal.subarray(listAt, listAt + listHeaderSize)
+    list.writeUInt16LE(listHeaderSize / 16 - 1, 0)
+    list.writeUInt16LE(2, 2)
+    list.writeUInt32LE(listHeaderSize + copy.length, 4)
+    list.writeBigUInt64LE(BigInt(((CATALOG_FILE_BLOCK + 1) * BLOCK) / JOURNAL_SECTOR), 16)
+    list.writeUInt32LE(copy.length, 24)
+    list.writeUInt32LE(journalChecksum(list.subarray(0, 32)), 8)
+    copy.copy(journal, listAt + listHeaderSize)
+  }
+
+  parse(): Promise<RecoverableFile[]> {
+    return new HfsPlusParser(new BufferReader(this.data)).parse()
+  }
+
+  /** A special file's fork data: two blocks, two nodes */
+  private fork(vh: Buffer, offset: number, start: number): void {
+    vh.writeBigUInt64BE(BigInt(2 * NODE), offset)
+    vh.writeUInt32BE(2, offset + 12)
+    vh.writeUInt32BE(start, offset + 16)
+    vh.writeUInt32BE(2, offset + 20)
+  }
+
+  private node(block: number, node: Buffer): void {
+    node.copy(this.block(block))
+  }
+
+  private block(n: number): Buffer {
+    return this.data.subarray(n * BLOCK, (n + 1) * BLOCK)
+  }
+}
+
+/** Eight single-block extents for the fork data, every other block from 20 */
+const SCATTERED = Array.from({ length: 8 }, (_, i) => ({ start: 20 + i * 2, count: 1 }))
+const MOVIE_SIZE = 10 * BLOCK - 100
+
+const liveRecords = [
+  folderRecord(ROOT_FOLDER, 'Photos', PHOTOS_FOLDER),
+  fileRecord(PHOTOS_FOLDER, 'kept.jpg', 20, 100, [{ start: 50, count: 1 }])
+]
+
+describe('HfsPlusParser', () => {
+  it('completes a deleted file from overflow extents left in leaf slack', async () => {
+    const volume = new Volume(
+      leafNode(liveRecords, [fileRecord(PHOTOS_FOLDER, 'clip.mov', 21, MOVIE_SIZE, SCATTERED, 10)]),
+      leafNode([], [overflowRecord(21, 8, [{ start: 40, count: 2 }])])
+    )
+
+    const [file, ...rest] = await volume.parse()
+
+    expect(rest).toEqual([])
+    expect(file).toMatchObject({
+      name: 'clip.mov',
+      type: 'mov',
+      size: BigInt(MOVIE_SIZE),
+      recoverability: 'good',
+      location: { folders: ['Photos'], orphaned: false },
+      metadata: { createdAt: CREATED }
+    })
+    expect(file.fragments).toEqual([
+      ...SCATTERED.map((e) => ({ offset: BigInt(e.start * BLOCK), size: BigInt(BLOCK) })),
+      { offset: BigInt(40 * BLOCK), size: BigInt(2 * BLOCK - 100) }
+    ])
+  })
+
+  it('returns the extents it could resolve when the overflow record is gone', async () => {
+    const volume = new Volume(
+      leafNode(liveRecords, [fileRecord(PHOTOS_FOLDER, 'clip.mov', 21, MOVIE_SIZE, SCATTERED, 10)])
+    )
+
+    const [file] = await volume.parse()
+
+    expect(file.fragments).toHaveLength(8)
+    expect(file.recoverability).toBe('partial')
+  })
+
+  it('rebuilds a catalog leaf from the journal copy written before the delete', async () => {
+    const volume = new Volume(leafNode(liveRecords))
+    volume.journal(
+      leafNode([...liveRecords, fileRecord(PHOTOS_FOLDER, 'report.pdf', 22, 5000, [{ start: 30, count: 2 }])])
+    )
+
+    const files = await volume.parse()
+
+    expect(files.map((f) => [f.name, f.location?.folders, f.fragments])).toEqual([
+      ['report.pdf', ['Photos'], [{ offset: BigInt(30 * BLOCK), size: 5000n }]]
+    ])
+  })
+})
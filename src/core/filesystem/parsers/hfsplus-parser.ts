@@ -5,21 +5,35 @@
  * its file metadata in a B-tree structure within the catalog file.
  *
  * Recovery strategy:
- *   1. Read the volume header at offset 1024 to locate the catalog file
- *   2. Parse the B-tree header node to understand the tree structure
- *   3. Traverse leaf nodes looking for:
- *      a. Slack space between the last record and the next node (residual data)
- *      b. Journal entries referencing deleted catalog records
- *   4. Extract file metadata from catalog file records (type 0x0200 = file record)
+ *   1. Read the volume header at offset 1024 to locate the catalog and
+ *      extents overflow files
+ *   2. Load the extents overflow B-tree: live records, plus deleted
+ *      records left in the slack space of its leaf nodes
+ *   3. Traverse the catalog leaf nodes, noting live files and folders and
+ *      collecting deleted file records (type 0x0002) from the slack space
+ *      between the last record and the record offset table
+ *   4. Replay the journal's block lists, oldest first, over the catalog
+ *      and extents overflow nodes they touch. Each rebuilt node is a copy
+ *      from an earlier transaction, before the delete, whose records are
+ *      collected the same way
+ *   5. Complete each file's first eight extents from the extents overflow
+ *      records, and rebuild its path by following the parentID in its
+ *      catalog key through the folder records (type 0x0001)
+ *
+ * A file whose overflow records are gone comes back with the extents that
+ * could be resolved; its recoverability reflects how much is missing.
  *
  * Note: HFS+ is big-endian throughout. All multi-byte values use BE reads.
+ * The journal is the exception: it is written in the byte order of the
+ * machine that mounted the volume, recorded in its header.
  */
 
 import { randomUUID } from 'crypto'
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
 import type {
   RecoverableFile,
   FileFragment,
+  FileLocation,
   FileType,
   FileCategory,
 } from '../../../shared/types'
@@ -33,10 +47,10 @@ interface HfsPlusVolumeHeader {
   blockSize: number
   /** Total blocks on the volume */
   totalBlocks: number
-  /** Catalog file extents (first 8 extent descriptors) */
-  catalogExtents: HfsPlusExtent[]
-  /** Catalog file total size in bytes */
-  catalogFileSize: bigint
+  /** Extents overflow file fork */
+  extentsFork: HfsPlusForkData
+  /** Catalog file fork */
+  catalogFork: HfsPlusForkData
   /** Journal info block offset (0 if no journal) */
   journalInfoBlock: number
 }
@@ -46,6 +60,15 @@ interface HfsPlusExtent {
   blockCount: number
 }
 
+/** A fork: its size and the extents stored with it. */
+interface HfsPlusForkData {
+  logicalSize: bigint
+  /** Allocation blocks in the fork, including those in overflow extents */
+  totalBlocks: number
+  /** The first eight extent descriptors */
+  extents: HfsPlusExtent[]
+}
+
 // ─── B-tree Structures ──────────────────────────────────────────
 
 interface BTreeHeaderRecord {
@@ -63,32 +86,151 @@ interface BTreeHeaderRecord {
   lastLeafNode: number
 }
 
+/** A B-tree file, located through its resolved extents. */
+interface BTreeFile {
+  extents: HfsPlusExtent[]
+  header: BTreeHeaderRecord
+}
+
+/** The record offsets of a node and the slack space after its records. */
+interface LeafLayout {
+  recordOffsets: number[]
+  slackStart: number
+  slackEnd: number
+}
+
+/** A live folder from the catalog, for rebuilding paths. */
+interface CatalogFolder {
+  name: string
+  parentId: number
+}
+
+/** A catalog file record, keyed by its parent folder and name. */
+interface CatalogFileRecord {
+  fileId: number
+  parentId: number
+  name: string
+  createDate: number
+  modDate: number
+  dataFork: HfsPlusForkData
+  /** Rebuilt from the journal rather than found in node slack */
+  journaled: boolean
+}
+
+// ─── Journal Structures ─────────────────────────────────────────
+
+interface JournalHeader {
+  /** Byte offset of the journal on the volume */
+  offset: bigint
+  /** Journal size in bytes, header included */
+  size: number
+  /** Offset of the oldest transaction not yet written to its home location */
+  start: number
+  /** Offset just past the newest transaction */
+  end: number
+  blockListHeaderSize: number
+  /** Sector size: block lists are aligned to it and block numbers count it */
+  sectorSize: number
+  littleEndian: boolean
+}
+
+/** A block list: one transaction's copies of metadata blocks. */
+interface JournalBlockList {
+  /** Offset of the block list header in the journal */
+  position: number
+  bytesUsed: number
+  blocks: JournalBlock[]
+}
+
+interface JournalBlock {
+  /** Home location of the block on the volume */
+  diskOffset: bigint
+  size: number
+  /** Offset of the block's data in the journal */
+  position: number
+}
+
+/** A run of journal data that lands in one B-tree node. */
+interface JournalPiece {
+  position: number
+  length: number
+}
+
 // ─── Constants ──────────────────────────────────────────────────
 
 const VOLUME_HEADER_OFFSET = 1024
 const VOLUME_HEADER_SIZE = 512
 
+/** Fork data offsets in the volume header */
+const EXTENTS_FORK_OFFSET = 192
+const CATALOG_FORK_OFFSET = 272
+
+/** Extent descriptors stored in a fork data or extents overflow record */
+const FORK_EXTENTS = 8
+
+/** Catalog node ID of the catalog file, whose own extents may overflow */
+const CATALOG_FILE_ID = 4
+
 /** HFS+ signature values */
 const HFSPLUS_SIGNATURE = 0x482b // 'H+'
 const HFSX_SIGNATURE = 0x4858    // 'HX'
 
-/** Catalog record types (big-endian) */
-const CATALOG_FILE_RECORD = 0x0200
-const CATALOG_FOLDER_RECORD = 0x0100
-const CATALOG_FILE_THREAD = 0x0400
-const CATALOG_FOLDER_THREAD = 0x0300
+/** Catalog record types (big-endian; classic HFS used 0x0100-0x0400) */
+const CATALOG_FOLDER_RECORD = 0x0001
+const CATALOG_FILE_RECORD = 0x0002
+const CATALOG_FOLDER_THREAD = 0x0003
+const CATALOG_FILE_THREAD = 0x0004
 
 /** Node types in B-tree */
 const NODE_TYPE_LEAF = 0xff
 const NODE_TYPE_INDEX = 0x00
 const NODE_TYPE_HEADER = 0x01
 
+/** Size of the node descriptor at the start of every B-tree node */
+const NODE_DESCRIPTOR_SIZE = 14
+
 /** Maximum nodes to scan (safety limit) */
 const MAX_NODES_TO_SCAN = 500_000
 
 /** Minimum valid catalog record size */
 const MIN_RECORD_SIZE = 248
 
+/** Extents overflow key: keyLength (2), forkType (1), pad (1), fileID (4), startBlock (4) */
+const EXTENTS_KEY_LENGTH = 10
+const EXTENTS_RECORD_SIZE = 2 + EXTENTS_KEY_LENGTH + FORK_EXTENTS * 8
+const FORK_TYPE_DATA = 0x00
+
+/** Catalog node ID of the root folder */
+const ROOT_FOLDER_ID = 2
+
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
+/** Journal magic 'JNLx' and the endian marker written in host byte order */
+const JOURNAL_MAGIC = 0x4a4e4c78
+const JOURNAL_ENDIAN = 0x12345678
+
+/** Journal info block flag: the journal lives on another device */
+const JOURNAL_ON_OTHER_DEVICE = 0x2
+
+/** Maximum journal size to replay */
+const MAX_JOURNAL_SIZE = 256 * 1024 * 1024
+
+/** Bytes of the journal read per request while searching for block lists */
+const JOURNAL_SCAN_CHUNK = 1024 * 1024
+
+/** Block list header bytes covered by its checksum */
+const BLOCK_LIST_CHECKSUM_SIZE = 32
+
+/** A block_info entry: bnum (8), bsize (4), next (4) */
+const BLOCK_INFO_SIZE = 16
+
+/** Block number of a block cancelled later in the same transaction */
+const KILLED_BLOCK = 0xffffffffffffffffn
+
+/** Maximum block lists to replay (safety limit) */
+const MAX_BLOCK_LISTS = 100_000
+
 // ─── Extension to FileType mapping ──────────────────────────────
 
 const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
@@ -139,10 +281,20 @@ const HFSPLUS_EPOCH_OFFSET = Date.UTC(1904, 0, 1, 0, 0, 0) // ms since Unix epoc
 // ─── Public API ─────────────────────────────────────────────────
 
 export class HfsPlusParser {
-  private reader: BlockReader
+  private reader: SourceReader
   private vh: HfsPlusVolumeHeader | null = null
-
-  constructor(reader: BlockReader) {
+  private extentsFile: BTreeFile | null = null
+  private catalogFile: BTreeFile | null = null
+  /** Live folders by catalog node ID, plus deleted ones from the journal. */
+  private folders = new Map<number, CatalogFolder>()
+  /** File IDs still in the live catalog. */
+  private liveFileIds = new Set<number>()
+  /** Deleted file records by file ID. */
+  private records = new Map<number, CatalogFileRecord>()
+  /** Data fork overflow extents, keyed by "fileID:startBlock". */
+  private overflowExtents = new Map<string, { extents: HfsPlusExtent[]; live: boolean }>()
+
+  constructor(reader: SourceReader) {
     this.reader = reader
   }
 
@@ -150,13 +302,28 @@ export class HfsPlusParser {
     this.vh = await this.parseVolumeHeader()
     if (!this.vh) return []
 
-    const results: RecoverableFile[] = []
+    // Strategy 1: Load extents overflow records, live and deleted
+    this.extentsFile = await this.openBTree(this.vh.extentsFork.extents)
+    if (this.extentsFile) {
+      await this.walkLeafNodes(this.extentsFile, (node) => this.scanExtentsLeaf(node, true))
+    }
+
+    // Strategy 2: Scan catalog B-tree leaf node slack space
+    const { extents: catalogExtents } = this.resolveExtents(CATALOG_FILE_ID, this.vh.catalogFork)
+    this.catalogFile = await this.openBTree(catalogExtents)
+    if (this.catalogFile) {
+      await this.walkLeafNodes(this.catalogFile, (node) => this.scanCatalogLeaf(node, false))
+    }
 
-    // Strategy 1: Scan catalog B-tree leaf node slack space
-    await this.scanCatalogBTree(results)
+    // Strategy 3: Replay the journal to rebuild nodes from before the delete
+    await this.replayJournal()
 
-    // Strategy 2: Check journal for deleted entries
-    await this.scanJournal(results)
+    const results: RecoverableFile[] = []
+    for (const record of this.records.values()) {
+      if (this.liveFileIds.has(record.fileId)) continue
+      const file = this.buildRecoverableFile(record)
+      if (file) results.push(file)
+    }
 
     return results
   }
@@ -186,82 +353,70 @@ export class HfsPlusParser {
     // Journal info block at offset 124 (4 bytes)
     const journalInfoBlock = buf.readUInt32BE(124)
 
-    // Catalog file size: at offset 240 in the catalog fork data
-    // The catalog fork starts at offset 272:
-    //   - logical size (8 bytes, offset 272)
-    //   - clump size (4 bytes, offset 280)
-    //   - total blocks (4 bytes, offset 284)
-    //   - extents (8 extent records, each 8 bytes, offset 288)
-    const catalogFileSize = this.readUInt64BE(buf, 272)
-
-    // Parse catalog extents (8 entries, each 8 bytes: startBlock(4) + blockCount(4))
-    const catalogExtents: HfsPlusExtent[] = []
-    for (let i = 0; i < 8; i++) {
-      const extOffset = 288 + i * 8
-      if (extOffset + 8 > buf.length) break
+    // The special files' fork data follows: allocation file at 112,
+    // extents overflow file at 192, catalog file at 272
+    const extentsFork = this.parseForkData(buf, EXTENTS_FORK_OFFSET)
+    const catalogFork = this.parseForkData(buf, CATALOG_FORK_OFFSET)
 
-      const startBlock = buf.readUInt32BE(extOffset)
-      const blockCount = buf.readUInt32BE(extOffset + 4)
-
-      if (blockCount > 0) {
-        catalogExtents.push({ startBlock, blockCount })
-      }
-    }
-
-    if (catalogExtents.length === 0) return null
+    if (catalogFork.extents.length === 0) return null
 
     return {
       signature,
       blockSize,
       totalBlocks,
-      catalogExtents,
-      catalogFileSize,
+      extentsFork,
+      catalogFork,
       journalInfoBlock,
     }
   }
 
-  // ─── Catalog B-Tree Scanning ────────────────────────────────
+  /**
+   * Parse fork data (80 bytes):
+   *   logicalSize (8)
+   *   clumpSize (4)
+   *   totalBlocks (4)
+   *   extents (8 records of 8 bytes each: startBlock (4) + blockCount (4))
+   */
+  private parseForkData(buf: Buffer, offset: number): HfsPlusForkData {
+    const extents: HfsPlusExtent[] = []
+    for (let i = 0; i < FORK_EXTENTS; i++) {
+      const extOffset = offset + 16 + i * 8
+      if (extOffset + 8 > buf.length) break
 
-  private async scanCatalogBTree(results: RecoverableFile[]): Promise<void> {
-    const vh = this.vh!
+      const startBlock = buf.readUInt32BE(extOffset)
+      const blockCount = buf.readUInt32BE(extOffset + 4)
+      if (blockCount === 0) break
 
-    // Read the first node (header node) of the catalog B-tree
-    const catalogStart = this.extentToOffset(vh.catalogExtents[0])
-    let headerNodeBuf: Buffer
-    try {
-      // First read a reasonable default node size to get the header
-      headerNodeBuf = await this.reader.read(catalogStart, 512)
-    } catch {
-      return
+      extents.push({ startBlock, blockCount })
     }
-    if (headerNodeBuf.length < 14) return
 
-    // Parse B-tree node descriptor (14 bytes)
-    const nodeType = headerNodeBuf[8]
-    if (nodeType !== NODE_TYPE_HEADER) return
-
-    const numRecords = headerNodeBuf.readUInt16BE(10)
-    if (numRecords < 1) return
-
-    // The header record starts right after the node descriptor (offset 14)
-    // B-tree header record (offset 14, 106 bytes):
-    if (headerNodeBuf.length < 120) {
-      try {
-        headerNodeBuf = await this.reader.read(catalogStart, 4096)
-      } catch {
-        return
-      }
+    return {
+      logicalSize: this.readUInt64BE(buf, offset),
+      totalBlocks: offset + 16 <= buf.length ? buf.readUInt32BE(offset + 12) : 0,
+      extents,
     }
-    if (headerNodeBuf.length < 120) return
+  }
 
-    const headerRecord = this.parseBTreeHeader(headerNodeBuf, 14)
-    if (!headerRecord) return
+  // ─── B-Tree Traversal ───────────────────────────────────────
+
+  /** Read the header node of a B-tree file. */
+  private async openBTree(extents: HfsPlusExtent[]): Promise<BTreeFile | null> {
+    if (extents.length === 0) return null
+
+    // A header node is at least 512 bytes, enough for the header record
+    const headerNodeBuf = await this.readBytes(this.extentToOffset(extents[0]), 512)
+    if (!headerNodeBuf || headerNodeBuf.length < NODE_DESCRIPTOR_SIZE + 106) return null
+
+    // Parse B-tree node descriptor (14 bytes)
+    if (headerNodeBuf[8] !== NODE_TYPE_HEADER) return null
+    if (headerNodeBuf.readUInt16BE(10) < 1) return null
 
-    // Now re-read the header node with the correct node size
-    if (headerRecord.nodeSize < 512 || headerRecord.nodeSize > 65536) return
+    // The header record starts right after the node descriptor
+    const header = this.parseBTreeHeader(headerNodeBuf, NODE_DESCRIPTOR_SIZE)
+    if (!header) return null
+    if (header.nodeSize < 512 || header.nodeSize > 65536) return null
 
-    // Traverse leaf nodes
-    await this.traverseLeafNodes(headerRecord, results)
+    return { extents, header }
   }
 
   private parseBTreeHeader(buf: Buffer, offset: number): BTreeHeaderRecord | null {
@@ -288,97 +443,185 @@ export class HfsPlusParser {
     }
   }
 
-  /**
-   * Traverse leaf nodes of the catalog B-tree looking for deleted records
-   * in the slack space between valid records and the end of the node.
-   */
-  private async traverseLeafNodes(
-    header: BTreeHeaderRecord,
-    results: RecoverableFile[]
-  ): Promise<void> {
-    const vh = this.vh!
-    let nodeIndex = header.firstLeafNode
+  /** Follow the leaf node chain of a B-tree, handing each leaf to `visit`. */
+  private async walkLeafNodes(tree: BTreeFile, visit: (nodeBuf: Buffer) => void): Promise<void> {
+    const { nodeSize } = tree.header
+    let nodeIndex = tree.header.firstLeafNode
     let nodesScanned = 0
 
     while (nodeIndex !== 0 && nodesScanned < MAX_NODES_TO_SCAN) {
       nodesScanned++
 
-      const nodeOffset = this.catalogNodeOffset(nodeIndex, header.nodeSize)
+      const nodeOffset = this.nodeOffset(tree.extents, nodeIndex, nodeSize)
       if (nodeOffset < 0n) break
 
-      let nodeBuf: Buffer
-      try {
-        nodeBuf = await this.reader.read(nodeOffset, header.nodeSize)
-      } catch {
-        break
-      }
-      if (nodeBuf.length < header.nodeSize) break
+      const nodeBuf = await this.readBytes(nodeOffset, nodeSize)
+      if (!nodeBuf || nodeBuf.length < nodeSize) break
 
       // Node descriptor (14 bytes)
       const fLink = nodeBuf.readUInt32BE(0) // forward link to next node
-      const nodeType = nodeBuf[8]
+      if (nodeBuf[8] === NODE_TYPE_LEAF) visit(nodeBuf)
+
+      nodeIndex = fLink
+    }
+  }
 
-      if (nodeType !== NODE_TYPE_LEAF) {
-        nodeIndex = fLink
-        continue
+  /**
+   * Find a leaf node's records and the slack space between the end of the
+   * last record and the record offset table.
+   */
+  private leafLayout(nodeBuf: Buffer): LeafLayout {
+    const nodeSize = nodeBuf.length
+    const numRecords = nodeBuf.readUInt16BE(10)
+
+    // Record offsets are stored at the END of the node, growing backwards
+    // Each offset is 2 bytes. The first offset (for record 0) is at
+    // nodeSize - 2, the second at nodeSize - 4, etc.
+    const recordOffsets: number[] = []
+    let lastRecordEnd = NODE_DESCRIPTOR_SIZE
+    for (let r = 0; r < numRecords; r++) {
+      const offsetPos = nodeSize - (r + 1) * 2
+      if (offsetPos < NODE_DESCRIPTOR_SIZE) break
+
+      const recordOffset = nodeBuf.readUInt16BE(offsetPos)
+      recordOffsets.push(recordOffset)
+
+      // The next record offset (or the free space offset after the last
+      // one) marks where this record ends
+      const nextOffsetPos = nodeSize - (r + 2) * 2
+      const recordEnd = nextOffsetPos >= 0
+        ? nodeBuf.readUInt16BE(nextOffsetPos)
+        : recordOffset + MIN_RECORD_SIZE
+
+      if (recordEnd > lastRecordEnd) {
+        lastRecordEnd = recordEnd
       }
+    }
 
-      const numRecords = nodeBuf.readUInt16BE(10)
-
-      // Record offsets are stored at the END of the node, growing backwards
-      // Each offset is 2 bytes. The first offset (for record 0) is at
-      // nodeSize - 2, the second at nodeSize - 4, etc.
-
-      // Find the end of the last valid record to identify slack space
-      let lastRecordEnd = 14 // After node descriptor
-      for (let r = 0; r < numRecords; r++) {
-        const offsetPos = header.nodeSize - (r + 1) * 2
-        if (offsetPos < 0 || offsetPos + 2 > nodeBuf.length) break
-
-        const recordOffset = nodeBuf.readUInt16BE(offsetPos)
-
-        // Also get the next record offset (or free space offset) to determine size
-        const nextOffsetPos = header.nodeSize - (r + 2) * 2
-        let recordEnd: number
-        if (r + 1 < numRecords && nextOffsetPos >= 0) {
-          recordEnd = nodeBuf.readUInt16BE(nextOffsetPos)
-        } else {
-          // The free space offset follows the last record offset
-          const freeSpacePos = header.nodeSize - (numRecords + 1) * 2
-          if (freeSpacePos >= 0 && freeSpacePos + 2 <= nodeBuf.length) {
-            recordEnd = nodeBuf.readUInt16BE(freeSpacePos)
-          } else {
-            recordEnd = recordOffset + MIN_RECORD_SIZE
-          }
-        }
+    return {
+      recordOffsets,
+      slackStart: lastRecordEnd,
+      slackEnd: nodeSize - (numRecords + 1) * 2,
+    }
+  }
 
-        if (recordEnd > lastRecordEnd) {
-          lastRecordEnd = recordEnd
-        }
+  // ─── Extents Overflow ───────────────────────────────────────
+
+  /**
+   * Collect data fork extents from an extents overflow leaf node. Records
+   * in the slack space, and every record of a node rebuilt from the
+   * journal, may belong to deleted files; live records replace them.
+   */
+  private scanExtentsLeaf(nodeBuf: Buffer, live: boolean): void {
+    const layout = this.leafLayout(nodeBuf)
+
+    for (const recordOffset of layout.recordOffsets) {
+      this.recordOverflowExtents(nodeBuf, recordOffset, live)
+    }
+
+    for (let pos = layout.slackStart; pos + EXTENTS_RECORD_SIZE <= layout.slackEnd; pos += 2) {
+      this.recordOverflowExtents(nodeBuf, pos, false)
+    }
+  }
+
+  /**
+   * Parse an extents overflow record: its key (keyLength, forkType, pad,
+   * fileID, startBlock) and 8 extent descriptors continuing the fork from
+   * startBlock, the fork-relative block they begin at.
+   */
+  private recordOverflowExtents(nodeBuf: Buffer, offset: number, live: boolean): void {
+    if (offset + EXTENTS_RECORD_SIZE > nodeBuf.length) return
+    if (nodeBuf.readUInt16BE(offset) !== EXTENTS_KEY_LENGTH) return
+    if (nodeBuf[offset + 2] !== FORK_TYPE_DATA || nodeBuf[offset + 3] !== 0) return
+
+    const fileId = nodeBuf.readUInt32BE(offset + 4)
+    const startBlock = nodeBuf.readUInt32BE(offset + 8)
+    // The first 8 extents are always in the fork data itself
+    if (fileId === 0 || startBlock === 0) return
+
+    const vh = this.vh!
+    const extents: HfsPlusExtent[] = []
+    for (let i = 0; i < FORK_EXTENTS; i++) {
+      const extOffset = offset + 2 + EXTENTS_KEY_LENGTH + i * 8
+      const extent = {
+        startBlock: nodeBuf.readUInt32BE(extOffset),
+        blockCount: nodeBuf.readUInt32BE(extOffset + 4),
       }
+      if (extent.blockCount === 0) break
+      if (extent.startBlock + extent.blockCount > vh.totalBlocks) return
+      extents.push(extent)
+    }
+    if (extents.length === 0) return
 
-      // Scan slack space for residual catalog file records
-      const slackStart = lastRecordEnd
-      const slackEnd = header.nodeSize - (numRecords + 1) * 2
+    const key = `${fileId}:${startBlock}`
+    const existing = this.overflowExtents.get(key)
+    if (!existing || (live && !existing.live)) {
+      this.overflowExtents.set(key, { extents, live })
+    }
+  }
 
-      if (slackEnd > slackStart + MIN_RECORD_SIZE) {
-        this.scanSlackSpace(nodeBuf, slackStart, slackEnd, results)
+  /**
+   * Complete a fork's extents from the extents overflow records, following
+   * them while the fork has blocks left to find.
+   */
+  private resolveExtents(
+    fileId: number,
+    fork: HfsPlusForkData
+  ): { extents: HfsPlusExtent[]; resolvedBlocks: number } {
+    const extents = [...fork.extents]
+    let resolvedBlocks = extents.reduce((sum, ext) => sum + ext.blockCount, 0)
+
+    if (extents.length === FORK_EXTENTS) {
+      while (resolvedBlocks < fork.totalBlocks) {
+        const overflow = this.overflowExtents.get(`${fileId}:${resolvedBlocks}`)
+        if (!overflow) break
+
+        for (const ext of overflow.extents) {
+          extents.push(ext)
+          resolvedBlocks += ext.blockCount
+        }
       }
+    }
 
-      nodeIndex = fLink
+    return { extents, resolvedBlocks }
+  }
+
+  // ─── Catalog B-Tree Scanning ────────────────────────────────
+
+  /**
+   * Collect records from a catalog leaf node. Live nodes mark their files
+   * as live and give deleted records only from their slack space; a node
+   * rebuilt from the journal gives every file record it holds, and the
+   * ones still live are dropped once the whole catalog has been read.
+   */
+  private scanCatalogLeaf(nodeBuf: Buffer, journaled: boolean): void {
+    const layout = this.leafLayout(nodeBuf)
+
+    for (const recordOffset of layout.recordOffsets) {
+      this.recordFolder(nodeBuf, recordOffset, journaled)
+
+      const record = this.parseCatalogFileRecord(nodeBuf, recordOffset, journaled)
+      if (!record) continue
+
+      if (journaled) this.addRecord(record)
+      else this.liveFileIds.add(record.fileId)
+    }
+
+    if (layout.slackEnd > layout.slackStart + MIN_RECORD_SIZE) {
+      this.scanSlackSpace(nodeBuf, layout.slackStart, layout.slackEnd, journaled)
     }
   }
 
   /**
    * Scan node slack space for remnants of deleted catalog records.
-   * We look for the catalog file record type signature (0x0200) and
+   * We look for the catalog file record type signature (0x0002) and
    * attempt to parse valid-looking records.
    */
   private scanSlackSpace(
     nodeBuf: Buffer,
     start: number,
     end: number,
-    results: RecoverableFile[]
+    journaled: boolean
   ): void {
     for (let pos = start; pos + MIN_RECORD_SIZE <= end; pos += 2) {
       // A catalog key starts with keyLength (2 bytes) followed by parentID (4 bytes)
@@ -392,125 +635,360 @@ export class HfsPlusParser {
 
       if (alignedOffset + MIN_RECORD_SIZE > end) continue
 
-      const recordType = nodeBuf.readUInt16BE(alignedOffset)
-      if (recordType !== CATALOG_FILE_RECORD) continue
+      const record = this.parseCatalogFileRecord(nodeBuf, pos, journaled)
+      if (record) this.addRecord(record)
+    }
+  }
+
+  /**
+   * Keep one record per file ID. Slack records are what was left when the
+   * file was deleted, so they win; among journal copies, replayed oldest
+   * first, the latest state before the delete wins.
+   */
+  private addRecord(record: CatalogFileRecord): void {
+    const existing = this.records.get(record.fileId)
+    if (!existing || (existing.journaled && record.journaled)) {
+      this.records.set(record.fileId, record)
+    }
+  }
+
+  // ─── Journal Replay ─────────────────────────────────────────
+
+  /**
+   * Replay the journal's block lists over the catalog and extents overflow
+   * nodes they hold copies of.
+   *
+   * The journal is a circular buffer of block lists, each holding the
+   * metadata blocks of a transaction. Block lists older than the journal's
+   * start have already been written to their home locations but stay in
+   * the buffer until it wraps around to them, so the whole buffer is
+   * searched for block list headers, not only the start..end range.
+   *
+   * A node's state after each transaction is its current contents with
+   * every journaled copy up to that transaction laid over it, and the
+   * records of each such state are collected.
+   */
+  private async replayJournal(): Promise<void> {
+    if (!this.catalogFile) return
+
+    const journal = await this.readJournalHeader()
+    if (!journal) return
+
+    const trees: [BTreeFile, (nodeBuf: Buffer) => void][] = [
+      [this.catalogFile, (nodeBuf) => this.scanCatalogLeaf(nodeBuf, true)],
+    ]
+    if (this.extentsFile) {
+      trees.push([this.extentsFile, (nodeBuf) => this.scanExtentsLeaf(nodeBuf, false)])
+    }
+
+    // Journaled data per tree, by node index and then offset in the node
+    const pieces = trees.map(() => new Map<number, Map<number, JournalPiece>>())
 
-      // Try to extract the filename from the catalog key
-      const filename = this.parseCatalogKeyName(nodeBuf, pos)
-      if (!filename) continue
+    for (const blockList of await this.findBlockLists(journal)) {
+      const touched = trees.map(() => new Set<number>())
 
-      // Parse the file record
-      const file = this.parseCatalogFileRecord(nodeBuf, alignedOffset, filename)
-      if (file) {
-        results.push(file)
+      for (const block of blockList.blocks) {
+        for (let t = 0; t < trees.length; t++) {
+          this.mapJournalBlock(trees[t][0], block, pieces[t], touched[t])
+        }
+      }
+
+      for (let t = 0; t < trees.length; t++) {
+        const [tree, visit] = trees[t]
+        for (const nodeIndex of touched[t]) {
+          const nodeBuf = await this.rebuildNode(journal, tree, nodeIndex, pieces[t].get(nodeIndex)!)
+          if (nodeBuf && nodeBuf[8] === NODE_TYPE_LEAF) visit(nodeBuf)
+        }
       }
     }
   }
 
-  // ─── Journal Scanning ──────────────────────────────────────
-
   /**
-   * Scan the HFS+ journal for deleted catalog entries.
-   * The journal contains copies of modified blocks before they were committed.
-   * Deleted file records may still be present in journal transactions.
+   * Read the journal info block and the journal header it points to.
+   *
+   * Journal info block (big-endian): flags (4), device_signature (32),
+   * offset (8), size (8). Journal header (journal byte order): magic (4),
+   * endian (4), start (8), end (8), size (8), blhdr_size (4), checksum (4),
+   * jhdr_size (4).
    */
-  private async scanJournal(results: RecoverableFile[]): Promise<void> {
+  private async readJournalHeader(): Promise<JournalHeader | null> {
     const vh = this.vh!
-    if (vh.journalInfoBlock === 0) return
+    if (vh.journalInfoBlock === 0) return null
 
-    const journalInfoOffset = BigInt(vh.journalInfoBlock) * BigInt(vh.blockSize)
+    const jiBuf = await this.readBytes(BigInt(vh.journalInfoBlock) * BigInt(vh.blockSize), 52)
+    if (!jiBuf || jiBuf.length < 52) return null
+    if (jiBuf.readUInt32BE(0) & JOURNAL_ON_OTHER_DEVICE) return null
 
-    let jiBuf: Buffer
-    try {
-      jiBuf = await this.reader.read(journalInfoOffset, 180)
-    } catch {
-      return
-    }
-    if (jiBuf.length < 180) return
-
-    // Journal info block structure (big-endian):
-    //   flags (4), device_signature (32*4=128 bytes... actually simpler)
-    //   We look for the journal header magic 0x4A4E4C78 ('JNLx')
-    // The journal info block at offset 0:
-    //   flags (4 bytes)
-    //   device_signature (4*8 = 32 bytes)
-    //   offset (8 bytes) - offset to journal header
-    //   size (8 bytes) - journal size
-
-    // Actually, the journal info block is:
-    //   flags: UInt32BE
-    //   device_signature: 32 bytes
-    //   offset: UInt64BE
-    //   size: UInt64BE
-
-    const journalOffset = this.readUInt64BE(jiBuf, 36)
+    const offset = this.readUInt64BE(jiBuf, 36)
     const journalSize = this.readUInt64BE(jiBuf, 44)
+    if (offset === 0n || journalSize === 0n || journalSize > BigInt(MAX_JOURNAL_SIZE)) return null
 
-    if (journalOffset === 0n || journalSize === 0n || journalSize > BigInt(256 * 1024 * 1024)) {
-      return
+    const buf = await this.readBytes(offset, 44)
+    if (!buf || buf.length < 44) return null
+
+    let littleEndian: boolean
+    if (buf.readUInt32BE(0) === JOURNAL_MAGIC && buf.readUInt32BE(4) === JOURNAL_ENDIAN) {
+      littleEndian = false
+    } else if (buf.readUInt32LE(0) === JOURNAL_MAGIC && buf.readUInt32LE(4) === JOURNAL_ENDIAN) {
+      littleEndian = true
+    } else {
+      return null
     }
 
-    // Read journal header to find transaction locations
-    let journalHeader: Buffer
-    try {
-      journalHeader = await this.reader.read(journalOffset, 512)
-    } catch {
-      return
-    }
-    if (journalHeader.length < 48) return
-
-    // Journal header magic: 0x4A4E4C78 ('JNLx')
-    const jhMagic = journalHeader.readUInt32BE(0)
-    if (jhMagic !== 0x4a4e4c78) return
-
-    // Journal header fields:
-    //   magic (4), endian (4), start (8), end (8), size (8), blhdr_size (4), checksum (4), jhdr_size (4)
-    const jhStart = this.readUInt64BE(journalHeader, 8)
-    const jhEnd = this.readUInt64BE(journalHeader, 16)
-    const blhdrSize = journalHeader.readUInt32BE(32)
-
-    if (blhdrSize === 0 || blhdrSize > 65536) return
-
-    // Scan journal blocks looking for catalog file record patterns
-    // This is a heuristic search through the circular journal buffer
-    const scanSize = Number(journalSize < 2n * 1024n * 1024n ? journalSize : 2n * 1024n * 1024n)
-    const chunkSize = Math.min(65536, scanSize)
-
-    for (let off = 0; off < scanSize; off += chunkSize) {
-      const readOffset = journalOffset + BigInt(off)
-      let chunk: Buffer
-      try {
-        chunk = await this.reader.read(readOffset, chunkSize)
-      } catch {
-        continue
+    const start = Number(this.readJournalUInt64(buf, 8, littleEndian))
+    const end = Number(this.readJournalUInt64(buf, 16, littleEndian))
+    const size = Number(this.readJournalUInt64(buf, 24, littleEndian))
+    const blockListHeaderSize = this.readJournalUInt(buf, 32, 4, littleEndian)
+    const sectorSize = this.readJournalUInt(buf, 40, 4, littleEndian)
+
+    if (size === 0 || size > Number(journalSize)) return null
+    if (sectorSize < 512 || sectorSize > 65536 || (sectorSize & (sectorSize - 1)) !== 0) return null
+    if (blockListHeaderSize < BLOCK_LIST_CHECKSUM_SIZE || blockListHeaderSize % BLOCK_INFO_SIZE !== 0) return null
+    if (blockListHeaderSize >= size - sectorSize) return null
+    if (start < sectorSize || start >= size || end < sectorSize || end >= size) return null
+
+    return { offset, size, start, end, blockListHeaderSize, sectorSize, littleEndian }
+  }
+
+  /**
+   * Search the journal buffer for block list headers, returning the block
+   * lists oldest first. A block list partly overwritten by a newer one is
+   * dropped.
+   */
+  private async findBlockLists(journal: JournalHeader): Promise<JournalBlockList[]> {
+    const found: JournalBlockList[] = []
+
+    for (
+      let chunkStart = journal.sectorSize;
+      chunkStart < journal.size && found.length < MAX_BLOCK_LISTS;
+      chunkStart += JOURNAL_SCAN_CHUNK
+    ) {
+      const chunk = await this.readBytes(
+        journal.offset + BigInt(chunkStart),
+        Math.min(JOURNAL_SCAN_CHUNK, journal.size - chunkStart)
+      )
+      if (!chunk) continue
+
+      // Block lists start on sector boundaries
+      for (let pos = 0; pos + BLOCK_LIST_CHECKSUM_SIZE <= chunk.length; pos += journal.sectorSize) {
+        if (!this.isBlockListHeader(journal, chunk, pos)) continue
+
+        const blockList = await this.readBlockList(journal, chunkStart + pos)
+        if (blockList) found.push(blockList)
+      }
+    }
+
+    // Age: distance past the end of the newest transaction, where the
+    // oldest surviving data begins
+    const dataSize = journal.size - journal.sectorSize
+    const age = (blockList: JournalBlockList): number =>
+      (blockList.position - journal.end + dataSize) % dataSize
+
+    found.sort((a, b) => age(b) - age(a))
+
+    const kept: JournalBlockList[] = []
+    let newerStart = dataSize
+    for (const blockList of found) {
+      if (age(blockList) + blockList.bytesUsed > newerStart) continue
+      kept.push(blockList)
+      newerStart = age(blockList)
+    }
+
+    return kept.reverse()
+  }
+
+  /**
+   * Check a block list header: max_blocks (2), num_blocks (2),
+   * bytes_used (4), checksum (4), flags (4), then block_info entries.
+   * The checksum covers the first 32 bytes with the checksum field zeroed.
+   */
+  private isBlockListHeader(journal: JournalHeader, buf: Buffer, offset: number): boolean {
+    const le = journal.littleEndian
+    const maxBlocks = this.readJournalUInt(buf, offset, 2, le)
+    const numBlocks = this.readJournalUInt(buf, offset + 2, 2, le)
+    const bytesUsed = this.readJournalUInt(buf, offset + 4, 4, le)
+
+    // num_blocks counts the first block_info, which only links block lists
+    if (numBlocks < 2 || numBlocks > maxBlocks) return false
+    if ((maxBlocks + 1) * BLOCK_INFO_SIZE > journal.blockListHeaderSize) return false
+    if (bytesUsed <= journal.blockListHeaderSize) return false
+    if (bytesUsed > journal.size - journal.sectorSize) return false
+
+    const header = Buffer.from(buf.subarray(offset, offset + BLOCK_LIST_CHECKSUM_SIZE))
+    const checksum = this.readJournalUInt(header, 8, 4, le)
+    header.fill(0, 8, 12)
+
+    return this.journalChecksum(header) === checksum
+  }
+
+  /**
+   * Read the block_info entries of a block list: bnum (8), bsize (4),
+   * next (4). The blocks' data follows the header in the same order.
+   */
+  private async readBlockList(
+    journal: JournalHeader,
+    position: number
+  ): Promise<JournalBlockList | null> {
+    const buf = await this.readJournal(journal, position, journal.blockListHeaderSize)
+    if (!buf) return null
+
+    const le = journal.littleEndian
+    const numBlocks = this.readJournalUInt(buf, 2, 2, le)
+    const bytesUsed = this.readJournalUInt(buf, 4, 4, le)
+
+    const blocks: JournalBlock[] = []
+    let dataPosition = position + journal.blockListHeaderSize
+    let total = journal.blockListHeaderSize
+
+    for (let i = 1; i < numBlocks; i++) {
+      const entry = i * BLOCK_INFO_SIZE
+      const blockNumber = this.readJournalUInt64(buf, entry, le)
+      const size = this.readJournalUInt(buf, entry + 8, 4, le)
+      if (size === 0 || total + size > bytesUsed) return null
+
+      if (blockNumber !== KILLED_BLOCK) {
+        blocks.push({
+          diskOffset: blockNumber * BigInt(journal.sectorSize),
+          size,
+          position: dataPosition,
+        })
       }
 
-      // Search for catalog file record signatures in the journal data
-      for (let pos = 0; pos + MIN_RECORD_SIZE <= chunk.length; pos += 2) {
-        const recordType = chunk.readUInt16BE(pos)
-        if (recordType !== CATALOG_FILE_RECORD) continue
+      dataPosition += size
+      total += size
+    }
 
-        // Heuristic: check if this looks like a valid file record
-        // A file record starts with recordType (2), flags (2), reserved (4),
-        // fileID (4), createDate (4), contentModDate (4), ...
-        if (pos + 88 > chunk.length) continue
+    if (total !== bytesUsed) return null
 
-        const fileId = chunk.readUInt32BE(pos + 8)
-        if (fileId < 16) continue // System file IDs are 1-15
+    return { position, bytesUsed, blocks }
+  }
 
-        const createDate = chunk.readUInt32BE(pos + 12)
-        const modDate = chunk.readUInt32BE(pos + 16)
+  /**
+   * Split a journaled block into the parts that land in each node of a
+   * B-tree file, if it belongs to that file at all.
+   */
+  private mapJournalBlock(
+    tree: BTreeFile,
+    block: JournalBlock,
+    nodes: Map<number, Map<number, JournalPiece>>,
+    touched: Set<number>
+  ): void {
+    const fileOffset = this.fileOffset(tree.extents, block.diskOffset)
+    if (fileOffset < 0n) return
+
+    const nodeSize = BigInt(tree.header.nodeSize)
+    let done = 0
+    while (done < block.size) {
+      const at = fileOffset + BigInt(done)
+      const nodeIndex = Number(at / nodeSize)
+      const within = Number(at % nodeSize)
+      const length = Math.min(block.size - done, tree.header.nodeSize - within)
+
+      let runs = nodes.get(nodeIndex)
+      if (!runs) {
+        runs = new Map()
+        nodes.set(nodeIndex, runs)
+      }
+      // Re-insert so the newest copy is laid over last
+      runs.delete(within)
+      runs.set(within, { position: block.position + done, length })
+      touched.add(nodeIndex)
 
-        // Sanity: dates should be after 2000 in HFS+ epoch
-        // HFS+ epoch is 1904, so year 2000 = ~3029529600 seconds
-        if (createDate < 3029529600 || createDate > 4500000000) continue
+      done += length
+    }
+  }
 
-        const file = this.parseJournalFileRecord(chunk, pos, fileId)
-        if (file) {
-          results.push(file)
-        }
+  /** Lay a node's journaled data over its current contents. */
+  private async rebuildNode(
+    journal: JournalHeader,
+    tree: BTreeFile,
+    nodeIndex: number,
+    runs: Map<number, JournalPiece>
+  ): Promise<Buffer | null> {
+    const { nodeSize } = tree.header
+    const nodeOffset = this.nodeOffset(tree.extents, nodeIndex, nodeSize)
+    if (nodeOffset < 0n) return null
+
+    const current = await this.readBytes(nodeOffset, nodeSize)
+    if (!current || current.length < nodeSize) return null
+
+    const nodeBuf = Buffer.from(current)
+    for (const [within, piece] of runs) {
+      const data = await this.readJournal(journal, piece.position, piece.length)
+      if (!data) return null
+      data.copy(nodeBuf, within)
+    }
+
+    return nodeBuf
+  }
+
+  /**
+   * Read from the journal buffer, wrapping from its end back to the first
+   * sector after the journal header.
+   */
+  private async readJournal(
+    journal: JournalHeader,
+    position: number,
+    length: number
+  ): Promise<Buffer | null> {
+    const dataSize = journal.size - journal.sectorSize
+    const start = journal.sectorSize + ((position - journal.sectorSize) % dataSize)
+    const first = Math.min(length, journal.size - start)
+
+    const head = await this.readBytes(journal.offset + BigInt(start), first)
+    if (!head || head.length < first) return null
+    if (first === length) return head
+
+    const tail = await this.readBytes(journal.offset + BigInt(journal.sectorSize), length - first)
+    if (!tail || tail.length < length - first) return null
+
+    return Buffer.concat([head, tail])
+  }
+
+  // ─── Folder Paths ──────────────────────────────────────────
+
+  /**
+   * Remember a folder record: its key holds the parent and name. Folders
+   * from the journal fill in deleted folders but never replace live ones.
+   */
+  private recordFolder(nodeBuf: Buffer, keyOffset: number, journaled: boolean): void {
+    if (keyOffset + 8 > nodeBuf.length) return
+
+    const keyLength = nodeBuf.readUInt16BE(keyOffset)
+    const dataOffset = keyOffset + 2 + keyLength + (keyLength % 2)
+    if (keyLength < 6 || dataOffset + 12 > nodeBuf.length) return
+    if (nodeBuf.readUInt16BE(dataOffset) !== CATALOG_FOLDER_RECORD) return
+
+    const name = this.parseCatalogKeyName(nodeBuf, keyOffset)
+    if (!name) return
+
+    const folderId = nodeBuf.readUInt32BE(dataOffset + 8)
+    if (journaled && this.folders.has(folderId)) return
+
+    this.folders.set(folderId, {
+      name,
+      parentId: nodeBuf.readUInt32BE(keyOffset + 2),
+    })
+  }
+
+  /**
+   * Walk parent IDs up to the root folder. A parent that is no longer in
+   * the catalog makes the file orphaned, keeping the folders below it.
+   */
+  private resolveLocation(parentId: number): FileLocation {
+    const folders: string[] = []
+    let id = parentId
+
+    while (id !== ROOT_FOLDER_ID) {
+      const folder = this.folders.get(id)
+      if (!folder || folders.length >= MAX_DIRECTORY_DEPTH) {
+        return { folders, orphaned: true }
       }
+      folders.unshift(folder.name)
+      id = folder.parentId
     }
+
+    return { folders, orphaned: false }
   }
 
   // ─── Catalog Record Parsers ─────────────────────────────────
@@ -544,10 +1022,10 @@ export class HfsPlusParser {
   }
 
   /**
-   * Parse a catalog file record (type 0x0200) from the B-tree.
+   * Parse a catalog file record (type 0x0002) and the key before it.
    *
    * HFS+ Catalog File Record structure (big-endian):
-   *   recordType (2): 0x0200
+   *   recordType (2): 0x0002
    *   flags (2)
    *   reserved (4)
    *   fileID (4)
@@ -563,18 +1041,18 @@ export class HfsPlusParser {
    *   reserved2 (4)
    *   dataFork: forkData (80)
    *   resourceFork: forkData (80)
-   *
-   * ForkData structure:
-   *   logicalSize (8)
-   *   clumpSize (4)
-   *   totalBlocks (4)
-   *   extents (8 records of 8 bytes each = 64 bytes)
    */
   private parseCatalogFileRecord(
     buf: Buffer,
-    offset: number,
-    filename: string
-  ): RecoverableFile | null {
+    keyOffset: number,
+    journaled: boolean
+  ): CatalogFileRecord | null {
+    if (keyOffset + 8 > buf.length) return null
+
+    const keyLength = buf.readUInt16BE(keyOffset)
+    if (keyLength < 6) return null
+
+    const offset = keyOffset + 2 + keyLength + (keyLength % 2)
     if (offset + MIN_RECORD_SIZE > buf.length) return null
 
     const recordType = buf.readUInt16BE(offset)
@@ -583,67 +1061,47 @@ export class HfsPlusParser {
     const fileId = buf.readUInt32BE(offset + 8)
     if (fileId === 0) return null
 
-    const createDate = buf.readUInt32BE(offset + 12)
-    const modDate = buf.readUInt32BE(offset + 16)
-
-    // Data fork starts at offset 88
-    const dataForkOffset = offset + 88
-    if (dataForkOffset + 80 > buf.length) return null
-
-    return this.buildRecoverableFile(buf, dataForkOffset, filename, createDate, modDate)
-  }
+    // Try to extract the filename from the catalog key
+    const name = this.parseCatalogKeyName(buf, keyOffset)
+    if (!name) return null
 
-  /**
-   * Parse a file record found in the journal.
-   * Since we don't have the catalog key, the filename is unknown.
-   */
-  private parseJournalFileRecord(
-    buf: Buffer,
-    offset: number,
-    fileId: number
-  ): RecoverableFile | null {
-    // Data fork at offset + 88
-    const dataForkOffset = offset + 88
-    if (dataForkOffset + 80 > buf.length) return null
-
-    const createDate = buf.readUInt32BE(offset + 12)
-    const modDate = buf.readUInt32BE(offset + 16)
-    const filename = `hfsplus_${fileId}_recovered`
-
-    return this.buildRecoverableFile(buf, dataForkOffset, filename, createDate, modDate)
+    return {
+      fileId,
+      parentId: buf.readUInt32BE(keyOffset + 2),
+      name,
+      createDate: buf.readUInt32BE(offset + 12),
+      modDate: buf.readUInt32BE(offset + 16),
+      // Data fork starts at offset 88
+      dataFork: this.parseForkData(buf, offset + 88),
+      journaled,
+    }
   }
 
-  private buildRecoverableFile(
-    buf: Buffer,
-    dataForkOffset: number,
-    filename: string,
-    createDate: number,
-    modDate: number
-  ): RecoverableFile | null {
+  private buildRecoverableFile(record: CatalogFileRecord): RecoverableFile | null {
     const vh = this.vh!
-    const logicalSize = this.readUInt64BE(buf, dataForkOffset)
-    if (logicalSize === 0n) return null
-
-    // Parse data fork extents (up to 8)
-    const fragments: FileFragment[] = []
-    for (let i = 0; i < 8; i++) {
-      const extOffset = dataForkOffset + 16 + i * 8
-      if (extOffset + 8 > buf.length) break
+    const fork = record.dataFork
+    if (fork.logicalSize === 0n) return null
 
-      const startBlock = buf.readUInt32BE(extOffset)
-      const blockCount = buf.readUInt32BE(extOffset + 4)
-
-      if (blockCount === 0) break
+    const { extents, resolvedBlocks } = this.resolveExtents(record.fileId, fork)
 
+    // One fragment per extent, the last trimmed to the logical size
+    const blockSize = BigInt(vh.blockSize)
+    const fragments: FileFragment[] = []
+    let remaining = fork.logicalSize
+    for (const ext of extents) {
+      if (remaining <= 0n) break
+      const size = BigInt(ext.blockCount) * blockSize
       fragments.push({
-        offset: BigInt(startBlock) * BigInt(vh.blockSize),
-        size: BigInt(blockCount) * BigInt(vh.blockSize),
+        offset: BigInt(ext.startBlock) * blockSize,
+        size: size < remaining ? size : remaining,
       })
+      remaining -= size
     }
 
     if (fragments.length === 0) return null
 
     // Extract extension
+    const filename = record.name
     const dotIndex = filename.lastIndexOf('.')
     const extension = dotIndex >= 0 ? filename.substring(dotIndex + 1).toLowerCase() : ''
 
@@ -651,25 +1109,28 @@ export class HfsPlusParser {
     const fileType: FileType = mapping?.type ?? 'jpeg'
     const category: FileCategory = mapping?.category ?? 'photo'
 
-    const createdAt = this.parseHfsPlusTimestamp(createDate)
-    const modifiedAt = this.parseHfsPlusTimestamp(modDate)
+    const createdAt = this.parseHfsPlusTimestamp(record.createDate)
+    const modifiedAt = this.parseHfsPlusTimestamp(record.modDate)
 
+    // Judge by how much of the fork the resolved extents cover
+    const neededBlocks = fork.totalBlocks || Number((fork.logicalSize + blockSize - 1n) / blockSize)
     let recoverability: 'good' | 'partial' | 'poor' = 'good'
-    if (fragments.length > 3) recoverability = 'partial'
-    if (fragments.length > 6) recoverability = 'poor'
+    if (resolvedBlocks < neededBlocks) recoverability = 'partial'
+    if (resolvedBlocks * 2 < neededBlocks) recoverability = 'poor'
 
     return {
       id: randomUUID(),
       type: fileType,
       category,
       offset: fragments[0].offset,
-      size: logicalSize,
+      size: fork.logicalSize,
       sizeEstimated: false,
       name: filename,
       extension: extension || 'bin',
       recoverability,
       source: 'metadata',
       fragments,
+      location: this.resolveLocation(record.parentId),
       metadata: {
         originalName: filename,
         createdAt: createdAt ?? undefined,
@@ -681,16 +1142,16 @@ export class HfsPlusParser {
   // ─── Helpers ────────────────────────────────────────────────
 
   /**
-   * Calculate the byte offset of a catalog B-tree node.
-   * The catalog file is described by its extent records in the volume header.
+   * Calculate the byte offset of a B-tree node.
+   * The B-tree file is described by its resolved extent records.
    */
-  private catalogNodeOffset(nodeIndex: number, nodeSize: number): bigint {
+  private nodeOffset(extents: HfsPlusExtent[], nodeIndex: number, nodeSize: number): bigint {
     const vh = this.vh!
     const byteOffset = BigInt(nodeIndex) * BigInt(nodeSize)
 
     // Find which extent contains this offset
     let extentStart = 0n
-    for (const ext of vh.catalogExtents) {
+    for (const ext of extents) {
       const extentSize = BigInt(ext.blockCount) * BigInt(vh.blockSize)
       if (byteOffset >= extentStart && byteOffset < extentStart + extentSize) {
         const relativeOffset = byteOffset - extentStart
@@ -702,6 +1163,23 @@ export class HfsPlusParser {
     return -1n
   }
 
+  /** The inverse of nodeOffset: a volume byte offset as an offset in the file. */
+  private fileOffset(extents: HfsPlusExtent[], diskOffset: bigint): bigint {
+    const blockSize = BigInt(this.vh!.blockSize)
+
+    let extentStart = 0n
+    for (const ext of extents) {
+      const diskStart = BigInt(ext.startBlock) * blockSize
+      const extentSize = BigInt(ext.blockCount) * blockSize
+      if (diskOffset >= diskStart && diskOffset < diskStart + extentSize) {
+        return extentStart + (diskOffset - diskStart)
+      }
+      extentStart += extentSize
+    }
+
+    return -1n
+  }
+
   private extentToOffset(extent: HfsPlusExtent): bigint {
     return BigInt(extent.startBlock) * BigInt(this.vh!.blockSize)
   }
@@ -735,4 +1213,31 @@ export class HfsPlusParser {
     const low = buf.readUInt32BE(offset + 4)
     return (BigInt(high) << 32n) | BigInt(low)
   }
+
+  /** Read an unsigned integer in the journal's byte order. */
+  private readJournalUInt(buf: Buffer, offset: number, size: 2 | 4, littleEndian: boolean): number {
+    return littleEndian ? buf.readUIntLE(offset, size) : buf.readUIntBE(offset, size)
+  }
+
+  private readJournalUInt64(buf: Buffer, offset: number, littleEndian: boolean): bigint {
+    return littleEndian ? buf.readBigUInt64LE(offset) : this.readUInt64BE(buf, offset)
+  }
+
+  /** The journal's checksum: a shift-and-xor over the bytes, inverted. */
+  private journalChecksum(buf: Buffer): number {
+    let checksum = 0
+    for (const byte of buf) {
+      checksum = ((checksum << 8) ^ (checksum + byte)) | 0
+    }
+    return ~checksum >>> 0
+  }
+
+  private async readBytes(offset: bigint, length: number): Promise<Buffer | null> {
+    if (length <= 0 || offset >= this.reader.size) return null
+    try {
+      return await this.reader.read(offset, length)
+    } catch {
+      return null
+    }
+  }
 }
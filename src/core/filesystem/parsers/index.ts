@@ -6,7 +6,7 @@
  * scan engine can use for metadata-based recovery.
  */
 
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
 import type { RecoverableFile, FilesystemType } from '../../../shared/types'
 
 import { Fat32Parser } from './fat32-parser'
@@ -14,6 +14,12 @@ import { ExfatParser } from './exfat-parser'
 import { NtfsParser } from './ntfs-parser'
 import { Ext4Parser } from './ext4-parser'
 import { HfsPlusParser } from './hfsplus-parser'
+import { ApfsParser } from './apfs-parser'
+import { BtrfsParser } from './btrfs-parser'
+import { XfsParser } from './xfs-parser'
+import { F2fsParser } from './f2fs-parser'
+import { Iso9660Parser } from './iso9660-parser'
+import { UdfParser } from './udf-parser'
 
 // ─── Parser Interface ───────────────────────────────────────────
 
@@ -28,10 +34,13 @@ export interface FilesystemParser {
   /**
    * Scan the filesystem for deleted/recoverable files.
    *
-   * @param reader - Block-level reader for the device or partition.
+   * @param reader - Reader positioned at the start of the volume.
+   * @param onFile - Called with each file as soon as it is found, by parsers
+   *   that can tell before the whole volume is read. Every file is still
+   *   in the returned array.
    * @returns Array of recoverable file descriptors found via metadata analysis.
    */
-  parse(reader: BlockReader): Promise<RecoverableFile[]>
+  parse(reader: SourceReader, onFile?: (file: RecoverableFile) => void): Promise<RecoverableFile[]>
 }
 
 // ─── Parser Adapters ────────────────────────────────────────────
@@ -43,48 +52,98 @@ export interface FilesystemParser {
  */
 
 class Fat32ParserAdapter implements FilesystemParser {
-  async parse(reader: BlockReader): Promise<RecoverableFile[]> {
+  async parse(reader: SourceReader, onFile?: (file: RecoverableFile) => void): Promise<RecoverableFile[]> {
     const parser = new Fat32Parser(reader)
-    return parser.parse()
+    return parser.parse(onFile)
   }
 }
 
 class ExfatParserAdapter implements FilesystemParser {
-  async parse(reader: BlockReader): Promise<RecoverableFile[]> {
+  async parse(reader: SourceReader, onFile?: (file: RecoverableFile) => void): Promise<RecoverableFile[]> {
     const parser = new ExfatParser(reader)
-    return parser.parse()
+    return parser.parse(onFile)
   }
 }
 
 class NtfsParserAdapter implements FilesystemParser {
-  async parse(reader: BlockReader): Promise<RecoverableFile[]> {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
     const parser = new NtfsParser(reader)
     return parser.parse()
   }
 }
 
 class Ext4ParserAdapter implements FilesystemParser {
-  async parse(reader: BlockReader): Promise<RecoverableFile[]> {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
     const parser = new Ext4Parser(reader)
     return parser.parse()
   }
 }
 
 class HfsPlusParserAdapter implements FilesystemParser {
-  async parse(reader: BlockReader): Promise<RecoverableFile[]> {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
     const parser = new HfsPlusParser(reader)
     return parser.parse()
   }
 }
 
+class ApfsParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new ApfsParser(reader)
+    return parser.parse()
+  }
+}
+
+class BtrfsParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new BtrfsParser(reader)
+    return parser.parse()
+  }
+}
+
+class XfsParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new XfsParser(reader)
+    return parser.parse()
+  }
+}
+
+class F2fsParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new F2fsParser(reader)
+    return parser.parse()
+  }
+}
+
+class Iso9660ParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new Iso9660Parser(reader)
+    return parser.parse()
+  }
+}
+
+class UdfParserAdapter implements FilesystemParser {
+  async parse(reader: SourceReader): Promise<RecoverableFile[]> {
+    const parser = new UdfParser(reader)
+    return parser.parse()
+  }
+}
+
 // ─── Parser Registry ────────────────────────────────────────────
 
 const PARSER_REGISTRY: ReadonlyMap<FilesystemType, FilesystemParser> = new Map([
+  ['fat12', new Fat32ParserAdapter()],
+  ['fat16', new Fat32ParserAdapter()],
   ['fat32', new Fat32ParserAdapter()],
   ['exfat', new ExfatParserAdapter()],
   ['ntfs', new NtfsParserAdapter()],
   ['ext4', new Ext4ParserAdapter()],
   ['hfs+', new HfsPlusParserAdapter()],
+  ['apfs', new ApfsParserAdapter()],
+  ['btrfs', new BtrfsParserAdapter()],
+  ['xfs', new XfsParserAdapter()],
+  ['f2fs', new F2fsParserAdapter()],
+  ['iso9660', new Iso9660ParserAdapter()],
+  ['udf', new UdfParserAdapter()],
 ])
 
 /**
@@ -97,6 +156,13 @@ export function getParser(fsType: FilesystemType): FilesystemParser | null {
   return PARSER_REGISTRY.get(fsType) ?? null
 }
 
+/**
+ * List the filesystem types that have a parser, in registry order.
+ */
+export function getSupportedFilesystems(): FilesystemType[] {
+  return [...PARSER_REGISTRY.keys()]
+}
+
 // ─── Re-exports ─────────────────────────────────────────────────
 
 export { Fat32Parser } from './fat32-parser'
@@ -104,3 +170,9 @@ export { ExfatParser } from './exfat-parser'
 export { NtfsParser } from './ntfs-parser'
 export { Ext4Parser } from './ext4-parser'
 export { HfsPlusParser } from './hfsplus-parser'
+export { ApfsParser } from './apfs-parser'
+export { BtrfsParser } from './btrfs-parser'
+export { XfsParser } from './xfs-parser'
+export { F2fsParser } from './f2fs-parser'
+export { Iso9660Parser } from './iso9660-parser'
+export { UdfParser } from './udf-parser'
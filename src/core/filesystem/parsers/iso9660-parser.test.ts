@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { Iso9660Parser } from './iso9660-parser'
+import { BufferReader } from '../../io/buffer-reader'
+import type { RecoverableFile } from '../../../shared/types'
+
+const SECTOR = 2048
+const FLAG_DIRECTORY = 0x02
+
+const RECORDED = new Date('2023-06-15T10:20:30.000Z')
+
+interface RecordSpec {
+  extent: number
+  length: number
+  name: string | Buffer
+  directory?: boolean
+  /** System Use area (Rock Ridge entries) */
+  su?: Buffer
+}
+
+/** A directory record; the name is padded to keep the System Use area even. */
+function dirRecord({ extent, length, name, directory, su = Buffer.alloc(0) }: RecordSpec): Buffer {
+  const rawName = typeof name === 'string' ? Buffer.from(name, 'latin1') : name
+  const pad = rawName.length % 2 === 0 ? 1 : 0
+  const rec = Buffer.alloc(33 + rawName.length + pad + su.length)
+  rec[0] = rec.length
+  rec.writeUInt32LE(extent, 2)
+  rec.writeUInt32BE(extent, 6)
+  rec.writeUInt32LE(length, 10)
+  rec.writeUInt32BE(length, 14)
+  rec.set(
+    [
+      RECORDED.getUTCFullYear() - 1900,
+      RECORDED.getUTCMonth() + 1,
+      RECORDED.getUTCDate(),
+      RECORDED.getUTCHours(),
+      RECORDED.getUTCMinutes(),
+      RECORDED.getUTCSeconds(),
+      0
+    ],
+    18
+  )
+  rec[25] = directory ? FLAG_DIRECTORY : 0
+  rec[32] = rawName.length
+  rawName.copy(rec, 33)
+  su.copy(rec, 33 + rawName.length + pad)
+  return rec
+}
+
+/** Builds a disc image sector by sector. */
+class IsoImage {
+  readonly data: Buffer
+
+  constructor(sectors: number) {
+    this.data = Buffer.alloc(sectors * SECTOR)
+  }
+
+  /** A primary (or Joliet supplementary) descriptor whose root is at `rootExtent`. */
+  descriptor(sector: number, rootExtent: number, volumeSpace: number, joliet = false): void {
+    const vd = this.sector(sector)
+    vd[0] = joliet ? 2 : 1
+    vd.write('CD001', 1, 'latin1')
+    vd[6] = 1
+    if (joliet) vd.set([0x25, 0x2f, 0x45], 88)
+    vd.writeUInt32LE(volumeSpace, 80)
+    vd.writeUInt16LE(SECTOR, 128)
+    dirRecord({ extent: rootExtent, length: SECTOR, name: '\0', directory: true }).copy(vd, 156)
+  }
+
+  terminator(sector: number): void {
+    const vd = this.sector(sector)
+    vd[0] = 255
+    vd.write('CD001', 1, 'latin1')
+    vd[6] = 1
+  }
+
+  /** A one-sector directory: '.', '..' and the given records. */
+  directory(sector: number, records: RecordSpec[], dotSu?: Buffer): void {
+    Buffer.concat([
+      dirRecord({ extent: sector, length: SECTOR, name: '\0', directory: true, su: dotSu }),
+      dirRecord({ extent: sector, length: SECTOR, name: '\x01', directory: true }),
+      ...records.map(dirRecord)
+    ]).copy(this.sector(sector))
+  }
+
+  parse(): Promise<RecoverableFile[]> {
+    return new Iso9660Parser(new BufferReader(this.data)).parse()
+  }
+
+  private sector(n: number): Buffer {
+    return this.data.subarray(n * SECTOR, (n + 1) * SECTOR)
+  }
+}
+
+const summary = (files: RecoverableFile[]): [string, string[], bigint, bigint][] =>
+  files.map((f) => [f.name ?? '', f.location?.folders ?? [], f.offset, f.size])
+
+describe('Iso9660Parser', () => {
+  it('walks the primary tree and strips file versions', async () => {
+    const image = new IsoImage(40)
+    image.descriptor(16, 20, 40)
+    image.terminator(17)
+    image.directory(20, [
+      { extent: 30, length: 3000, name: 'PHOTO.JPG;1' },
+      { extent: 21, length: SECTOR, name: 'DOCS', directory: true }
+    ])
+    image.directory(21, [{ extent: 33, length: 100, name: 'REPORT.PDF;1' }])
+
+    const files = await image.parse()
+
+    expect(summary(files)).toEqual([
+      ['PHOTO.JPG', [], 30n * 2048n, 3000n],
+      ['REPORT.PDF', ['DOCS'], 33n * 2048n, 100n]
+    ])
+    expect(files.map((f) => f.type)).toEqual(['jpeg', 'pdf'])
+    expect(files[0].metadata?.modifiedAt).toEqual(RECORDED)
+  })
+
+  it('prefers Joliet names over the 8.3 primary tree', async () => {
+    const image = new IsoImage(40)
+    image.descriptor(16, 20, 40)
+    image.descriptor(17, 22, 40, true)
+    image.terminator(18)
+    image.directory(20, [{ extent: 30, length: 3000, name: 'HOLIDA~1.JPG;1' }])
+    const ucs2 = Buffer.from('Holiday at the beach.jpg;1', 'utf16le').swap16()
+    image.directory(22, [{ extent: 30, length: 3000, name: ucs2 }])
+
+    expect(summary(await image.parse())).toEqual([['Holiday at the beach.jpg', [], 30n * 2048n, 3000n]])
+  })
+
+  it('reads Rock Ridge names announced by the root SP entry', async () => {
+    const image = new IsoImage(40)
+    image.descriptor(16, 20, 40)
+    image.terminator(17)
+    const sp = Buffer.from([0x53, 0x50, 7, 1, 0xbe, 0xef, 0])
+    const nm = (name: string): Buffer => {
+      const entry = Buffer.concat([Buffer.from([0x4e, 0x4d, 0, 1, 0]), Buffer.from(name, 'utf8')])
+      entry[2] = entry.length
+      return entry
+    }
+    image.directory(20, [{ extent: 30, length: 10, name: 'CAF_.JPG;1', su: nm('café.jpg') }], sp)
+
+    expect(summary(await image.parse())).toEqual([['café.jpg', [], 30n * 2048n, 10n]])
+  })
+
+  it('keeps files dropped from a later session, at their newest path otherwise', async () => {
+    // Session 1 ends at sector 40; session 2 starts after the 16-sector gap
+    const image = new IsoImage(70)
+    image.descriptor(16, 20, 40)
+    image.terminator(17)
+    image.directory(20, [
+      { extent: 30, length: 10, name: 'OLD.JPG;1' },
+      { extent: 31, length: 10, name: 'KEPT.JPG;1' }
+    ])
+    image.descriptor(56, 60, 70)
+    image.terminator(57)
+    image.directory(60, [{ extent: 21, length: SECTOR, name: 'NEW', directory: true }])
+    image.directory(21, [{ extent: 31, length: 10, name: 'MOVED.JPG;1' }])
+
+    const files = await image.parse()
+
+    expect(summary(files)).toEqual([
+      ['MOVED.JPG', ['NEW'], 31n * 2048n, 10n],
+      ['OLD.JPG', [], 30n * 2048n, 10n]
+    ])
+  })
+})
@@ -0,0 +1,575 @@
+/**
+ * ISO 9660 Filesystem Parser
+ *
+ * Lists the files on CD and DVD images. Optical filesystems never delete
+ * in place: a multi-session disc appends a new session whose directory
+ * tree replaces the previous one, so a file dropped from the new tree is
+ * still on the disc. Every session's tree is walked and each file is
+ * reported once, at its path in the newest session that still lists it.
+ *
+ * Recovery strategy:
+ *   1. Read the volume descriptor set at sector 16
+ *   2. Follow each session's volume space end to the next session's
+ *      descriptor set, searching the lead-out/lead-in gap between them
+ *   3. Walk each session's directory tree, newest session first
+ *
+ * Names come from Rock Ridge (NM entries in the System Use area of the
+ * primary tree) when present, else from the Joliet supplementary tree
+ * (UCS-2), else the plain ISO 9660 name with its ";1" version stripped.
+ *
+ * ISO 9660 stores numbers in both byte orders; the little-endian half is
+ * used throughout.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SourceReader } from '../../io/images'
+import type {
+  RecoverableFile,
+  FileFragment,
+  FileType,
+  FileCategory,
+} from '../../../shared/types'
+
+// ─── Volume Structures ──────────────────────────────────────────
+
+/** The directory trees of one session. */
+interface IsoSession {
+  /** Sector of the session's first volume descriptor */
+  sector: number
+  /** Logical block size; extents are in these units */
+  blockSize: number
+  /** End of the session's volume space, in logical blocks */
+  volumeSpaceSize: number
+  /** Root directory record of the primary volume descriptor */
+  primaryRoot: Buffer
+  /** Root directory record of the Joliet supplementary descriptor */
+  jolietRoot: Buffer | null
+}
+
+/** Which names a tree walk uses. */
+type NameSource = 'rock-ridge' | 'joliet' | 'iso9660'
+
+interface IsoDirectoryRecord {
+  extent: number
+  dataLength: number
+  flags: number
+  name: string
+  recordedAt?: Date
+  createdAt?: Date
+  /** Rock Ridge CL: a relocated directory that really lives at this extent */
+  childLink?: number
+  /** Rock Ridge RE: the relocated copy, listed again through its CL entry */
+  relocated: boolean
+}
+
+/** A file found in a session tree, keyed by its extents. */
+interface IsoFile {
+  name: string
+  folders: string[]
+  size: bigint
+  fragments: FileFragment[]
+  modifiedAt?: Date
+  createdAt?: Date
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Volume descriptors use 2048-byte sectors, starting after the system area. */
+const SECTOR_SIZE = 2048
+const SYSTEM_AREA_SECTORS = 16
+
+/** Volume descriptor types */
+const VD_PRIMARY = 1
+const VD_SUPPLEMENTARY = 2
+const VD_TERMINATOR = 255
+
+/** Directory record flags */
+const FLAG_DIRECTORY = 0x02
+const FLAG_MULTI_EXTENT = 0x80
+
+/** Length of a directory record without its name */
+const DIR_RECORD_HEADER = 33
+
+/** Rock Ridge NM flags */
+const NM_CURRENT = 0x02
+const NM_PARENT = 0x04
+
+/** Rock Ridge TF flags, in the order the timestamps are stored */
+const TF_CREATION = 0x01
+const TF_LONG_FORM = 0x80
+
+/** Maximum descriptors in one volume descriptor set */
+const MAX_DESCRIPTORS = 64
+
+/** Maximum sessions to follow */
+const MAX_SESSIONS = 99
+
+/**
+ * Sectors searched past a session's end for the next one. A CD leaves
+ * 11 400 sectors of lead-out, lead-in and pre-gap after the first
+ * session and 6 900 after later ones.
+ */
+const MAX_SESSION_GAP = 16_384
+
+/** Sectors read per request while searching for the next session */
+const SEARCH_BATCH_SECTORS = 256
+
+/** Maximum bytes of one directory to read */
+const MAX_DIRECTORY_BYTES = 16 * 1024 * 1024
+
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
+/** Maximum directory records to read per session (safety limit) */
+const MAX_RECORDS = 1_000_000
+
+/** Maximum continuation areas followed for one System Use area */
+const MAX_CONTINUATIONS = 16
+
+// ─── Extension to FileType mapping ──────────────────────────────
+
+const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
+  jpg: { type: 'jpeg', category: 'photo' },
+  jpeg: { type: 'jpeg', category: 'photo' },
+  png: { type: 'png', category: 'photo' },
+  heic: { type: 'heic', category: 'photo' },
+  cr2: { type: 'cr2', category: 'photo' },
+  nef: { type: 'nef', category: 'photo' },
+  arw: { type: 'arw', category: 'photo' },
+  mp4: { type: 'mp4', category: 'video' },
+  mov: { type: 'mov', category: 'video' },
+  avi: { type: 'avi', category: 'video' },
+  pdf: { type: 'pdf', category: 'document' },
+  docx: { type: 'docx', category: 'document' },
+  xlsx: { type: 'xlsx', category: 'document' },
+  rtf: { type: 'rtf', category: 'document' },
+  pptx: { type: 'pptx', category: 'document' },
+  gif: { type: 'gif', category: 'photo' },
+  webp: { type: 'webp', category: 'photo' },
+  psd: { type: 'psd', category: 'photo' },
+  mkv: { type: 'mkv', category: 'video' },
+  webm: { type: 'mkv', category: 'video' },
+  flv: { type: 'flv', category: 'video' },
+  wmv: { type: 'wmv', category: 'video' },
+  mp3: { type: 'mp3', category: 'audio' },
+  wav: { type: 'wav', category: 'audio' },
+  flac: { type: 'flac', category: 'audio' },
+  ogg: { type: 'ogg', category: 'audio' },
+  m4a: { type: 'm4a', category: 'audio' },
+  zip: { type: 'zip', category: 'archive' },
+  rar: { type: 'rar', category: 'archive' },
+  '7z': { type: '7z', category: 'archive' },
+  gz: { type: 'gz', category: 'archive' },
+  bz2: { type: 'bz2', category: 'archive' },
+  xz: { type: 'xz', category: 'archive' },
+  tar: { type: 'tar', category: 'archive' },
+  sqlite: { type: 'sqlite', category: 'database' },
+  db: { type: 'sqlite', category: 'database' },
+  dat: { type: 'bdb', category: 'database' },
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class Iso9660Parser {
+  private reader: SourceReader
+
+  constructor(reader: SourceReader) {
+    this.reader = reader
+  }
+
+  async parse(): Promise<RecoverableFile[]> {
+    const sessions = await this.findSessions()
+    if (sessions.length === 0) return []
+
+    // Newest session first, so files keep their latest path
+    const files = new Map<string, IsoFile>()
+    for (const session of [...sessions].reverse()) {
+      await this.walkSession(session, files)
+    }
+
+    return [...files.values()].map((file) => this.buildRecoverableFile(file))
+  }
+
+  // ─── Sessions ──────────────────────────────────────────────
+
+  private async findSessions(): Promise<IsoSession[]> {
+    const sessions: IsoSession[] = []
+    let sector = SYSTEM_AREA_SECTORS
+
+    while (sessions.length < MAX_SESSIONS) {
+      const session = await this.readDescriptorSet(sector)
+      if (!session) break
+      sessions.push(session)
+
+      const endSector = Math.ceil((session.volumeSpaceSize * session.blockSize) / SECTOR_SIZE)
+      const next = await this.findNextSession(endSector)
+      if (next === null || next <= sector) break
+      sector = next
+    }
+
+    return sessions
+  }
+
+  private async readDescriptorSet(sector: number): Promise<IsoSession | null> {
+    let primary: Buffer | null = null
+    let joliet: Buffer | null = null
+
+    for (let i = 0; i < MAX_DESCRIPTORS; i++) {
+      const buf = await this.readBytes(BigInt(sector + i) * BigInt(SECTOR_SIZE), SECTOR_SIZE)
+      if (!buf || buf.length < SECTOR_SIZE || !isVolumeDescriptor(buf)) break
+
+      const type = buf[0]
+      if (type === VD_TERMINATOR) break
+      if (type === VD_PRIMARY && !primary) primary = buf
+      else if (type === VD_SUPPLEMENTARY && !joliet && isJoliet(buf)) joliet = buf
+    }
+    if (!primary) return null
+
+    const blockSize = primary.readUInt16LE(128)
+    if (blockSize < 512 || blockSize > SECTOR_SIZE || (blockSize & (blockSize - 1)) !== 0) return null
+
+    return {
+      sector,
+      blockSize,
+      volumeSpaceSize: primary.readUInt32LE(80),
+      primaryRoot: Buffer.from(primary.subarray(156, 156 + 34)),
+      jolietRoot: joliet ? Buffer.from(joliet.subarray(156, 156 + 34)) : null,
+    }
+  }
+
+  /**
+   * Search past a session's end for the next session's primary volume
+   * descriptor. Returns its sector, or null if there is no later session.
+   */
+  private async findNextSession(endSector: number): Promise<number | null> {
+    const first = endSector + SYSTEM_AREA_SECTORS
+    const last = first + MAX_SESSION_GAP
+
+    for (let batch = first; batch < last; batch += SEARCH_BATCH_SECTORS) {
+      const count = Math.min(SEARCH_BATCH_SECTORS, last - batch)
+      const buf = await this.readBytes(BigInt(batch) * BigInt(SECTOR_SIZE), count * SECTOR_SIZE)
+      if (!buf) return null
+
+      for (let i = 0; (i + 1) * SECTOR_SIZE <= buf.length; i++) {
+        const sector = buf.subarray(i * SECTOR_SIZE, (i + 1) * SECTOR_SIZE)
+        if (sector[0] === VD_PRIMARY && isVolumeDescriptor(sector)) return batch + i
+      }
+      // Short read: past the end of the image
+      if (buf.length < count * SECTOR_SIZE) return null
+    }
+
+    return null
+  }
+
+  // ─── Directory Tree ────────────────────────────────────────
+
+  /** Walk one session's tree breadth-first, adding files not seen yet. */
+  private async walkSession(session: IsoSession, files: Map<string, IsoFile>): Promise<void> {
+    const suspSkip = await this.detectRockRidge(session)
+    let root = session.primaryRoot
+    let names: NameSource = 'iso9660'
+    if (suspSkip !== null) {
+      names = 'rock-ridge'
+    } else if (session.jolietRoot) {
+      root = session.jolietRoot
+      names = 'joliet'
+    }
+
+    const walk = { session, names, suspSkip: suspSkip ?? 0, records: 0 }
+    const queue = [{ extent: root.readUInt32LE(2), dataLength: root.readUInt32LE(10), folders: [] as string[] }]
+    const visited = new Set<number>()
+
+    while (queue.length > 0) {
+      const dir = queue.shift()!
+      if (visited.has(dir.extent) || dir.folders.length > MAX_DIRECTORY_DEPTH) continue
+      visited.add(dir.extent)
+
+      const records = await this.readDirectory(walk, dir.extent, dir.dataLength)
+      let pending: IsoFile | null = null
+
+      for (const record of records) {
+        if (record.relocated) continue
+
+        const folders = [...dir.folders, record.name]
+        if (record.childLink !== undefined) {
+          // Length unknown until the directory's own '.' record is read
+          queue.push({ extent: record.childLink, dataLength: 0, folders })
+          continue
+        }
+        if (record.flags & FLAG_DIRECTORY) {
+          queue.push({ extent: record.extent, dataLength: record.dataLength, folders })
+          continue
+        }
+
+        // A file over 4 GiB is split into sections with the same name;
+        // every section but the last has the multi-extent flag.
+        const file: IsoFile = pending?.name === record.name
+          ? pending
+          : {
+              name: record.name,
+              folders: dir.folders,
+              size: 0n,
+              fragments: [],
+              modifiedAt: record.recordedAt,
+              createdAt: record.createdAt,
+            }
+        if (record.dataLength > 0) {
+          file.fragments.push({
+            offset: BigInt(record.extent) * BigInt(session.blockSize),
+            size: BigInt(record.dataLength),
+          })
+          file.size += BigInt(record.dataLength)
+        }
+
+        pending = record.flags & FLAG_MULTI_EXTENT ? file : null
+        if (pending || file.size === 0n) continue
+
+        const key = file.fragments.map((f) => `${f.offset}+${f.size}`).join(',')
+        if (!files.has(key)) files.set(key, file)
+      }
+    }
+  }
+
+  /**
+   * Rock Ridge is announced by a SUSP "SP" entry in the root directory's
+   * '.' record. Returns the number of System Use bytes to skip in every
+   * record, or null without Rock Ridge.
+   */
+  private async detectRockRidge(session: IsoSession): Promise<number | null> {
+    const extent = session.primaryRoot.readUInt32LE(2)
+    const buf = await this.readBytes(BigInt(extent) * BigInt(session.blockSize), SECTOR_SIZE)
+    if (!buf || buf.length < DIR_RECORD_HEADER + 1) return null
+
+    const length = buf[0]
+    // '.' has a one-byte name, so its System Use area starts at 34
+    const su = DIR_RECORD_HEADER + 1
+    if (length < su + 7 || length > buf.length) return null
+    if (buf.toString('latin1', su, su + 2) !== 'SP' || buf[su + 4] !== 0xbe || buf[su + 5] !== 0xef) return null
+    return buf[su + 6]
+  }
+
+  /**
+   * Read a directory's records, skipping '.' and '..'. A zero
+   * `dataLength` is taken from the directory's own '.' record.
+   */
+  private async readDirectory(
+    walk: { session: IsoSession; names: NameSource; suspSkip: number; records: number },
+    extent: number,
+    dataLength: number
+  ): Promise<IsoDirectoryRecord[]> {
+    const offset = BigInt(extent) * BigInt(walk.session.blockSize)
+
+    if (dataLength === 0) {
+      const head = await this.readBytes(offset, SECTOR_SIZE)
+      if (!head || head.length < DIR_RECORD_HEADER + 1 || head[0] < DIR_RECORD_HEADER + 1) return []
+      dataLength = head.readUInt32LE(10)
+    }
+
+    const data = await this.readBytes(offset, Math.min(dataLength, MAX_DIRECTORY_BYTES))
+    if (!data) return []
+
+    const records: IsoDirectoryRecord[] = []
+    let pos = 0
+    while (pos < data.length && walk.records < MAX_RECORDS) {
+      const length = data[pos]
+      if (length === 0) {
+        // Records never cross a sector boundary; the rest is padding
+        pos = (Math.floor(pos / SECTOR_SIZE) + 1) * SECTOR_SIZE
+        continue
+      }
+      if (length < DIR_RECORD_HEADER + 1 || pos + length > data.length) break
+
+      walk.records++
+      const record = await this.parseRecord(walk, data.subarray(pos, pos + length))
+      if (record) records.push(record)
+      pos += length
+    }
+
+    return records
+  }
+
+  private async parseRecord(
+    walk: { session: IsoSession; names: NameSource; suspSkip: number },
+    rec: Buffer
+  ): Promise<IsoDirectoryRecord | null> {
+    const nameLength = rec[32]
+    if (DIR_RECORD_HEADER + nameLength > rec.length) return null
+
+    const rawName = rec.subarray(DIR_RECORD_HEADER, DIR_RECORD_HEADER + nameLength)
+    // '.' and '..' are the single bytes 0x00 and 0x01
+    if (nameLength === 1 && rawName[0] <= 1) return null
+
+    const name = walk.names === 'joliet' ? decodeUcs2(rawName) : rawName.toString('latin1')
+    const record: IsoDirectoryRecord = {
+      extent: rec.readUInt32LE(2),
+      dataLength: rec.readUInt32LE(10),
+      flags: rec[25],
+      name: stripVersion(name),
+      recordedAt: parseShortDate(rec, 18),
+      relocated: false,
+    }
+
+    if (walk.names === 'rock-ridge') {
+      // A padding byte keeps the System Use area at an even offset
+      const su = DIR_RECORD_HEADER + nameLength + (nameLength % 2 === 0 ? 1 : 0) + walk.suspSkip
+      if (su < rec.length) await this.applyRockRidge(walk.session, rec.subarray(su), record)
+    }
+
+    return record.name ? record : null
+  }
+
+  /** Apply the Rock Ridge entries of a System Use area to a record. */
+  private async applyRockRidge(session: IsoSession, area: Buffer, record: IsoDirectoryRecord): Promise<void> {
+    const nameParts: Buffer[] = []
+    let current: Buffer | null = area
+    let continuations = 0
+
+    while (current) {
+      let next: Buffer | null = null
+      let pos = 0
+
+      while (pos + 4 <= current.length) {
+        const signature = current.toString('latin1', pos, pos + 2)
+        const length = current[pos + 2]
+        if (length < 4 || pos + length > current.length || signature === 'ST') break
+        const entry = current.subarray(pos, pos + length)
+
+        switch (signature) {
+          case 'NM':
+            if (length > 5 && !(entry[4] & (NM_CURRENT | NM_PARENT))) nameParts.push(entry.subarray(5))
+            break
+          case 'TF':
+            this.applyTimestamps(entry, record)
+            break
+          case 'CL':
+            if (length >= 12) record.childLink = entry.readUInt32LE(4)
+            break
+          case 'RE':
+            record.relocated = true
+            break
+          case 'CE':
+            // The area goes on in another block
+            if (length >= 28 && continuations++ < MAX_CONTINUATIONS) {
+              const offset = BigInt(entry.readUInt32LE(4)) * BigInt(session.blockSize) + BigInt(entry.readUInt32LE(12))
+              next = await this.readBytes(offset, Math.min(entry.readUInt32LE(20), SECTOR_SIZE))
+            }
+            break
+        }
+        pos += length
+      }
+
+      current = next
+    }
+
+    // A name split over several NM entries is simply concatenated
+    if (nameParts.length > 0) record.name = Buffer.concat(nameParts).toString('utf8')
+  }
+
+  private applyTimestamps(entry: Buffer, record: IsoDirectoryRecord): void {
+    const flags = entry[4]
+    const size = flags & TF_LONG_FORM ? 17 : 7
+    let pos = 5
+
+    // Creation, modify, access, attributes, backup, expiration, effective
+    for (let bit = TF_CREATION; bit < TF_LONG_FORM; bit <<= 1) {
+      if (!(flags & bit)) continue
+      if (pos + size > entry.length) break
+
+      const date = size === 17 ? parseLongDate(entry, pos) : parseShortDate(entry, pos)
+      if (bit === TF_CREATION) record.createdAt = date
+      else if (bit === TF_CREATION << 1) record.recordedAt = date
+      pos += size
+    }
+  }
+
+  // ─── Result Building ───────────────────────────────────────
+
+  private buildRecoverableFile(file: IsoFile): RecoverableFile {
+    const dotIndex = file.name.lastIndexOf('.')
+    const extension = dotIndex >= 0 ? file.name.substring(dotIndex + 1).toLowerCase() : ''
+    const mapping = EXTENSION_MAP[extension]
+
+    // Unreadable sectors at the end of a damaged disc are often missing
+    // from the image altogether
+    let recoverability: 'good' | 'partial' | 'poor' = 'good'
+    for (const fragment of file.fragments) {
+      if (fragment.offset >= this.reader.size) recoverability = 'poor'
+      else if (fragment.offset + fragment.size > this.reader.size && recoverability === 'good') recoverability = 'partial'
+    }
+
+    return {
+      id: randomUUID(),
+      type: mapping?.type ?? 'jpeg',
+      category: mapping?.category ?? 'photo',
+      offset: file.fragments[0].offset,
+      size: file.size,
+      sizeEstimated: false,
+      name: file.name,
+      extension: extension || 'bin',
+      recoverability,
+      source: 'metadata',
+      fragments: file.fragments,
+      location: { folders: file.folders, orphaned: false },
+      metadata: {
+        originalName: file.name,
+        createdAt: file.createdAt,
+        modifiedAt: file.modifiedAt,
+      },
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private async readBytes(offset: bigint, length: number): Promise<Buffer | null> {
+    if (length <= 0 || offset >= this.reader.size) return null
+    try {
+      return await this.reader.read(offset, length)
+    } catch {
+      return null
+    }
+  }
+}
+
+// ─── Record Helpers ─────────────────────────────────────────────
+
+/** Standard identifier "CD001" and version 1. */
+function isVolumeDescriptor(buf: Buffer): boolean {
+  return buf.length >= 7 && buf.toString('latin1', 1, 6) === 'CD001' && buf[6] === 1
+}
+
+/** Joliet is a supplementary descriptor with a UCS-2 escape sequence. */
+function isJoliet(buf: Buffer): boolean {
+  return buf[88] === 0x25 && buf[89] === 0x2f && [0x40, 0x43, 0x45].includes(buf[90])
+}
+
+function decodeUcs2(bytes: Buffer): string {
+  const swapped = Buffer.from(bytes.subarray(0, bytes.length & ~1))
+  swapped.swap16()
+  return swapped.toString('utf16le')
+}
+
+/** Drop the ";1" file version and the dot of names without an extension. */
+function stripVersion(name: string): string {
+  return name.replace(/;\d*$/, '').replace(/\.$/, '')
+}
+
+/**
+ * Seven-byte date: years since 1900, month, day, hour, minute, second
+ * and the offset from GMT in 15-minute steps.
+ */
+function parseShortDate(buf: Buffer, offset: number): Date | undefined {
+  if (offset + 7 > buf.length || buf[offset + 1] === 0) return undefined
+  const utc = Date.UTC(1900 + buf[offset], buf[offset + 1] - 1, buf[offset + 2], buf[offset + 3], buf[offset + 4], buf[offset + 5])
+  return new Date(utc - buf.readInt8(offset + 6) * 15 * 60_000)
+}
+
+/** Seventeen-byte date: "YYYYMMDDHHMMSScc" in ASCII plus the GMT offset. */
+function parseLongDate(buf: Buffer, offset: number): Date | undefined {
+  if (offset + 17 > buf.length) return undefined
+  const digits = buf.toString('latin1', offset, offset + 16)
+  if (!/^\d{16}$/.test(digits) || digits.startsWith('0000')) return undefined
+
+  const field = (start: number, length: number): number => Number(digits.substring(start, start + length))
+  const utc = Date.UTC(field(0, 4), field(4, 2) - 1, field(6, 2), field(8, 2), field(10, 2), field(12, 2), field(14, 2) * 10)
+  return new Date(utc - buf.readInt8(offset + 16) * 15 * 60_000)
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest'
+import { Jbd2Journal } from './jbd2-journal'
+import type { JournalBlock, JournalRun } from './jbd2-journal'
+import { BufferReader } from '../../io/buffer-reader'
+
+const BLOCK = 1024
+const JOURNAL_BLOCKS = 16
+const MAGIC = 0xc03b3998
+
+const FLAG_ESCAPE = 0x1
+const FLAG_SAME_UUID = 0x2
+const FLAG_LAST_TAG = 0x8
+
+const FEATURE_64BIT = 0x2
+const FEATURE_CSUM_V3 = 0x10
+
+/** The journal is fragmented: blocks 0-7 at device block 10, 8-15 at 30 */
+const RUNS: JournalRun[] = [
+  { logical: 0, offset: BigInt(10 * BLOCK), length: 8 },
+  { logical: 8, offset: BigInt(30 * BLOCK), length: 8 }
+]
+
+interface Tag {
+  fsBlock: bigint
+  flags: number
+}
+
+/** Builds a journal block by block and places it on a device by RUNS. */
+class JournalImage {
+  readonly blocks = Array.from({ length: JOURNAL_BLOCKS }, () => Buffer.alloc(BLOCK))
+
+  constructor(private readonly incompat = 0) {
+    const sb = this.blocks[0]
+    sb.writeUInt32BE(MAGIC, 0)
+    sb.writeUInt32BE(4, 4)
+    sb.writeUInt32BE(BLOCK, 12)
+    sb.writeUInt32BE(JOURNAL_BLOCKS, 16)
+    sb.writeUInt32BE(1, 20)
+    sb.writeUInt32BE(incompat, 40)
+  }
+
+  descriptor(at: number, sequence: number, tags: Tag[]): void {
+    const block = this.header(at, 1, sequence)
+    const v3 = (this.incompat & FEATURE_CSUM_V3) !== 0
+    let pos = 12
+    for (const tag of tags) {
+      block.writeUInt32BE(Number(tag.fsBlock & 0xffffffffn), pos)
+      if (v3) {
+        block.writeUInt32BE(tag.flags, pos + 4)
+        block.writeUInt32BE(Number(tag.fsBlock >> 32n), pos + 8)
+        pos += 16
+      } else {
+        block.writeUInt16BE(tag.flags, pos + 6)
+        pos += 8
+      }
+      if (!(tag.flags & FLAG_SAME_UUID)) pos += 16
+    }
+  }
+
+  commit(at: number, sequence: number): void {
+    this.header(at, 2, sequence)
+  }
+
+  data(at: number, fill: number): void {
+    this.blocks[at].fill(fill)
+  }
+
+  reader(): BufferReader {
+    const device = Buffer.alloc(40 * BLOCK)
+    this.blocks.forEach((block, i) => {
+      const run = RUNS.find((r) => i >= r.logical && i < r.logical + r.length)!
+      block.copy(device, Number(run.offset) + (i - run.logical) * BLOCK)
+    })
+    return new BufferReader(device)
+  }
+
+  private header(at: number, type: number, sequence: number): Buffer {
+    const block = this.blocks[at]
+    block.writeUInt32BE(MAGIC, 0)
+    block.writeUInt32BE(type, 4)
+    block.writeUInt32BE(sequence, 8)
+    return block
+  }
+}
+
+async function scan(image: JournalImage, blockSize = BLOCK): Promise<JournalBlock[] | null> {
+  const found: JournalBlock[] = []
+  const ok = await new Jbd2Journal(image.reader(), blockSize, RUNS).scan((block) => found.push(block))
+  return ok ? found : null
+}
+
+describe('Jbd2Journal', () => {
+  it('yields the block copies of each transaction, across journal runs', async () => {
+    const image = new JournalImage()
+    image.descriptor(1, 5, [
+      { fsBlock: 100n, flags: 0 },
+      { fsBlock: 200n, flags: FLAG_SAME_UUID | FLAG_LAST_TAG }
+    ])
+    image.data(2, 0x11)
+    image.data(3, 0x22)
+    image.commit(4, 5)
+    image.descriptor(7, 6, [{ fsBlock: 300n, flags: FLAG_LAST_TAG }])
+    image.data(8, 0x33)
+    image.commit(9, 6)
+
+    const found = await scan(image)
+
+    expect(found?.map((b) => [b.fsBlock, b.sequence, b.data[0]])).toEqual([
+      [100n, 5, 0x11],
+      [200n, 5, 0x22],
+      [300n, 6, 0x33]
+    ])
+  })
+
+  it('stops a stale transaction at the next journal block', async () => {
+    const image = new JournalImage()
+    image.descriptor(1, 3, [
+      { fsBlock: 100n, flags: 0 },
+      { fsBlock: 101n, flags: FLAG_SAME_UUID },
+      { fsBlock: 102n, flags: FLAG_SAME_UUID | FLAG_LAST_TAG }
+    ])
+    image.data(2, 0x11)
+    image.descriptor(3, 4, [{ fsBlock: 400n, flags: FLAG_LAST_TAG }])
+    image.data(4, 0x44)
+    image.commit(5, 4)
+    image.data(6, 0x55)
+
+    const found = await scan(image)
+
+    expect(found?.map((b) => [b.fsBlock, b.sequence])).toEqual([
+      [100n, 3],
+      [400n, 4]
+    ])
+  })
+
+  it('restores the magic of escaped blocks', async () => {
+    const image = new JournalImage()
+    image.descriptor(1, 1, [{ fsBlock: 7n, flags: FLAG_ESCAPE | FLAG_LAST_TAG }])
+    image.data(2, 0x66)
+    image.blocks[2].writeUInt32BE(0, 0)
+
+    const [block] = (await scan(image))!
+
+    expect(block.data.readUInt32BE(0)).toBe(MAGIC)
+    expect(block.data[4]).toBe(0x66)
+  })
+
+  it('continues a transaction that wraps past the end of the log at the first block', async () => {
+    const image = new JournalImage()
+    image.descriptor(14, 9, [
+      { fsBlock: 500n, flags: 0 },
+      { fsBlock: 501n, flags: FLAG_SAME_UUID | FLAG_LAST_TAG }
+    ])
+    image.data(15, 0x50)
+    image.data(1, 0x51)
+
+    const found = await scan(image)
+
+    expect(found?.map((b) => [b.fsBlock, b.data[0]])).toEqual([
+      [500n, 0x50],
+      [501n, 0x51]
+    ])
+  })
+
+  it('reads 64-bit block numbers from csum v3 tags', async () => {
+    const image = new JournalImage(FEATURE_64BIT | FEATURE_CSUM_V3)
+    image.descriptor(1, 2, [
+      { fsBlock: (3n << 32n) | 9n, flags: 0 },
+      { fsBlock: 10n, flags: FLAG_SAME_UUID | FLAG_LAST_TAG }
+    ])
+    image.data(2, 0x77)
+    image.data(3, 0x78)
+
+    const found = await scan(image)
+
+    expect(found?.map((b) => b.fsBlock)).toEqual([(3n << 32n) | 9n, 10n])
+  })
+
+  it('rejects a journal whose block size does not match the filesystem', async () => {
+    expect(await scan(new JournalImage(), 4096)).toBeNull()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { UsnJournalReader } from './ntfs-journal'
+import { BufferReader } from '../../io/buffer-reader'
+import type { FileFragment } from '../../../shared/types'
+
+const CLUSTER = 4096
+
+const FILE_CREATE = 0x100
+const FILE_DELETE = 0x200
+const RENAME_OLD_NAME = 0x1000
+const DATA_EXTEND = 0x2
+const CLOSE = 0x80000000
+
+const WHEN = new Date('2024-01-02T03:04:05.000Z')
+
+interface UsnRecord {
+  major?: 2 | 3
+  record: number
+  sequence: number
+  parent: number
+  usn: bigint
+  reasons: number
+  name: string
+  directory?: boolean
+}
+
+/** A USN_RECORD_V2 or V3, padded to 8 bytes. */
+function usnRecord(r: UsnRecord): Buffer {
+  const v3 = r.major === 3
+  const shift = v3 ? 16 : 0
+  const name = Buffer.from(r.name, 'utf16le')
+  const header = v3 ? 0x4c : 0x3c
+  const rec = Buffer.alloc(Math.ceil((header + name.length) / 8) * 8)
+
+  rec.writeUInt32LE(rec.length, 0)
+  rec.writeUInt16LE(v3 ? 3 : 2, 4)
+  const reference = (record: number, sequence: number): bigint => (BigInt(sequence) << 48n) | BigInt(record)
+  rec.writeBigUInt64LE(reference(r.record, r.sequence), 8)
+  rec.writeBigUInt64LE(reference(r.parent, 1), 8 + (v3 ? 16 : 8))
+  rec.writeBigUInt64LE(r.usn, 0x18 + shift)
+  rec.writeBigUInt64LE((BigInt(WHEN.getTime()) + 11644473600000n) * 10000n, 0x20 + shift)
+  rec.writeUInt32LE(r.reasons >>> 0, 0x28 + shift)
+  rec.writeUInt32LE(r.directory ? 0x10 : 0x20, 0x34 + shift)
+  rec.writeUInt16LE(name.length, 0x38 + shift)
+  rec.writeUInt16LE(header, 0x3a + shift)
+  name.copy(rec, header)
+  return rec
+}
+
+/**
+ * A $J stream: two sparse (released) clusters, then two stored clusters
+ * that sit apart on the volume, at clusters 4 and 10.
+ */
+function journal(stream: Buffer): { reader: BufferReader; fragments: FileFragment[] } {
+  const volume = Buffer.alloc(12 * CLUSTER)
+  stream.copy(volume, 4 * CLUSTER, 0, CLUSTER)
+  stream.copy(volume, 10 * CLUSTER, CLUSTER, 2 * CLUSTER)
+  return {
+    reader: new BufferReader(volume),
+    fragments: [
+      { offset: 0n, size: BigInt(2 * CLUSTER), sparse: true },
+      { offset: BigInt(4 * CLUSTER), size: BigInt(CLUSTER) },
+      { offset: BigInt(10 * CLUSTER), size: BigInt(CLUSTER) }
+    ]
+  }
+}
+
+describe('UsnJournalReader', () => {
+  it('decodes closing and rename records, skipping intermediate ones and page padding', async () => {
+    const stream = Buffer.alloc(2 * CLUSTER)
+    let pos = 0
+    for (const record of [
+      { record: 40, sequence: 3, parent: 5, usn: 100n, reasons: FILE_CREATE, name: 'a.txt' },
+      { record: 40, sequence: 3, parent: 5, usn: 200n, reasons: FILE_CREATE | DATA_EXTEND | CLOSE, name: 'a.txt' },
+      { record: 40, sequence: 3, parent: 5, usn: 300n, reasons: RENAME_OLD_NAME, name: 'a.txt' }
+    ]) {
+      pos += usnRecord(record).copy(stream, pos)
+    }
+    // The next record starts after the zero-filled rest of the page
+    usnRecord({
+      major: 3,
+      record: 41,
+      sequence: 7,
+      parent: 5,
+      usn: 400n,
+      reasons: FILE_DELETE | CLOSE,
+      name: 'photos',
+      directory: true
+    }).copy(stream, 1024)
+
+    const { reader, fragments } = journal(stream)
+    const events = await new UsnJournalReader(reader, fragments).read()
+
+    expect(events).toEqual([
+      {
+        record: 40,
+        sequence: 3,
+        parentRecord: 5,
+        name: 'a.txt',
+        action: 'created',
+        reasons: ['DATA_EXTEND', 'FILE_CREATE', 'CLOSE'],
+        timestamp: WHEN,
+        isDirectory: false,
+        source: 'usn-journal',
+        order: 200n
+      },
+      expect.objectContaining({ record: 40, action: 'renamed', reasons: ['RENAME_OLD_NAME'], order: 300n }),
+      expect.objectContaining({ record: 41, sequence: 7, name: 'photos', action: 'deleted', isDirectory: true })
+    ])
+  })
+
+  it('joins a record split across stored fragments', async () => {
+    const stream = Buffer.alloc(2 * CLUSTER)
+    const split = usnRecord({ record: 9, sequence: 1, parent: 5, usn: 1n, reasons: CLOSE, name: 'split.doc' })
+    split.copy(stream, CLUSTER - 40)
+
+    const { reader, fragments } = journal(stream)
+    const events = await new UsnJournalReader(reader, fragments).read()
+
+    expect(events.map((e) => [e.record, e.name, e.action])).toEqual([[9, 'split.doc', 'modified']])
+  })
+
+  it('drops a record cut off by a released cluster', async () => {
+    const stream = Buffer.alloc(2 * CLUSTER)
+    const lost = usnRecord({ record: 9, sequence: 1, parent: 5, usn: 1n, reasons: CLOSE, name: 'lost.doc' })
+    const kept = usnRecord({ record: 10, sequence: 1, parent: 5, usn: 2n, reasons: CLOSE, name: 'kept.doc' })
+    lost.copy(stream, CLUSTER - 40)
+    kept.copy(stream, CLUSTER + 512)
+
+    const { reader, fragments } = journal(stream)
+    // Release the first stored cluster: the tail of lost.doc is all that is left
+    fragments[1] = { ...fragments[1], sparse: true }
+    const events = await new UsnJournalReader(reader, fragments).read()
+
+    expect(events.map((e) => e.name)).toEqual(['kept.doc'])
+  })
+})
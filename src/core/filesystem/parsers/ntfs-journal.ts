@@ -0,0 +1,467 @@
+/**
+ * NTFS Change Journals
+ *
+ * Two logs record file activity on an NTFS volume, and both outlive the
+ * MFT records they describe:
+ *
+ *   - $Extend\$UsnJrnl:$J, the update sequence number (USN) journal, keeps
+ *     one record per change: file reference, parent reference, name,
+ *     timestamp and reason flags. Old space is released by turning it
+ *     sparse, so only the stored runs are read.
+ *   - $LogFile, the transaction log, is a circular buffer of redo/undo
+ *     records. Adding and removing directory index entries carries the
+ *     whole $FILE_NAME key, so creations, renames and deletions show up
+ *     there too.
+ *
+ * The readers here only decode events; `NtfsParser` groups them per file
+ * and matches them against the MFT.
+ */
+
+import type { SourceReader } from '../../io/images'
+import type { FileFragment, FileHistoryEvent } from '../../../shared/types'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** One file event from either journal. */
+export interface NtfsJournalEvent {
+  /** MFT record number of the file */
+  record: number
+  /** Sequence number from the file reference; identifies the incarnation */
+  sequence: number
+  parentRecord: number
+  name: string
+  action: FileHistoryEvent['action']
+  reasons: string[]
+  timestamp?: Date
+  /** Real size from $FILE_NAME, when the event carries one */
+  size?: bigint
+  isDirectory: boolean
+  source: FileHistoryEvent['source']
+  /** USN or LSN; orders events from the same journal */
+  order: bigint
+}
+
+/** A stored (non-sparse) part of a stream, at its position in the stream. */
+interface StoredRange {
+  start: bigint
+  end: bigint
+  offset: bigint
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** USN_RECORD_V2 header size; V3 headers are larger */
+const USN_V2_HEADER = 0x3c
+const USN_V3_HEADER = 0x4c
+
+/** Largest plausible USN record (header plus a 255-character name) */
+const MAX_USN_RECORD = 0x250
+
+/** FILE_ATTRIBUTE_DIRECTORY */
+const USN_ATTR_DIRECTORY = 0x10
+
+/** USN reason flags, in bit order */
+const USN_REASONS: Array<[number, string]> = [
+  [0x00000001, 'DATA_OVERWRITE'],
+  [0x00000002, 'DATA_EXTEND'],
+  [0x00000004, 'DATA_TRUNCATION'],
+  [0x00000010, 'NAMED_DATA_OVERWRITE'],
+  [0x00000020, 'NAMED_DATA_EXTEND'],
+  [0x00000040, 'NAMED_DATA_TRUNCATION'],
+  [0x00000100, 'FILE_CREATE'],
+  [0x00000200, 'FILE_DELETE'],
+  [0x00000400, 'EA_CHANGE'],
+  [0x00000800, 'SECURITY_CHANGE'],
+  [0x00001000, 'RENAME_OLD_NAME'],
+  [0x00002000, 'RENAME_NEW_NAME'],
+  [0x00004000, 'INDEXABLE_CHANGE'],
+  [0x00008000, 'BASIC_INFO_CHANGE'],
+  [0x00010000, 'HARD_LINK_CHANGE'],
+  [0x00020000, 'COMPRESSION_CHANGE'],
+  [0x00040000, 'ENCRYPTION_CHANGE'],
+  [0x00080000, 'OBJECT_ID_CHANGE'],
+  [0x00100000, 'REPARSE_POINT_CHANGE'],
+  [0x00200000, 'STREAM_CHANGE'],
+  [0x00400000, 'TRANSACTED_CHANGE'],
+  [0x00800000, 'INTEGRITY_CHANGE'],
+  [0x80000000, 'CLOSE'],
+]
+
+const USN_REASON_FILE_CREATE = 0x00000100
+const USN_REASON_FILE_DELETE = 0x00000200
+const USN_REASON_RENAME_OLD_NAME = 0x00001000
+const USN_REASON_RENAME_NEW_NAME = 0x00002000
+const USN_REASON_CLOSE = 0x80000000
+
+/** $LogFile page signatures */
+const LOG_RESTART_MAGIC = 'RSTR'
+const LOG_CHKDSK_MAGIC = 'CHKD'
+const LOG_RECORD_MAGIC = 'RCRD'
+
+/** LFS record header size; the NTFS client data follows */
+const LFS_RECORD_HEADER = 0x30
+
+/** NTFS client log record header size */
+const NTFS_LOG_HEADER = 0x20
+
+/** LfsClientRecord */
+const LFS_CLIENT_RECORD = 1
+
+/** Highest NTFS log operation code */
+const MAX_LOG_OPERATION = 0x25
+
+/** Log operations that add or remove a directory index entry */
+const LOG_INDEX_OPERATIONS: Record<number, { name: string; added: boolean }> = {
+  0x0c: { name: 'AddIndexEntryRoot', added: true },
+  0x0d: { name: 'DeleteIndexEntryRoot', added: false },
+  0x0e: { name: 'AddIndexEntryAllocation', added: true },
+  0x0f: { name: 'DeleteIndexEntryAllocation', added: false },
+}
+
+/** $FILE_NAME flag set on directories */
+const FILE_NAME_FLAG_DIRECTORY = 0x10000000
+
+/** $FILE_NAME namespace for DOS-only 8.3 names */
+const FILE_NAME_NAMESPACE_DOS = 2
+
+/** Update sequence stride used by multi-sector protection */
+const FIXUP_STRIDE = 512
+
+/** Bytes read per request */
+const READ_CHUNK_BYTES = 1024 * 1024
+
+/** Maximum journal bytes to read; the USN journal keeps the newest part */
+const MAX_JOURNAL_BYTES = 256 * 1024 * 1024
+
+// ─── USN Journal ────────────────────────────────────────────────
+
+export class UsnJournalReader {
+  private reader: SourceReader
+  private ranges: StoredRange[]
+
+  /**
+   * @param reader - Reader for the NTFS volume.
+   * @param fragments - The $J stream's fragments in stream order, with
+   *   sparse fragments included.
+   */
+  constructor(reader: SourceReader, fragments: FileFragment[]) {
+    this.reader = reader
+    this.ranges = storedRanges(fragments)
+  }
+
+  async read(): Promise<NtfsJournalEvent[]> {
+    const events: NtfsJournalEvent[] = []
+
+    // Records are appended, so skip the oldest data past the size limit
+    const stored = this.ranges.reduce((sum, r) => sum + (r.end - r.start), 0n)
+    let skip = stored > BigInt(MAX_JOURNAL_BYTES) ? stored - BigInt(MAX_JOURNAL_BYTES) : 0n
+
+    let carry = Buffer.alloc(0)
+    let previousEnd = -1n
+
+    for (const range of this.ranges) {
+      // A sparse gap ends whatever record was in progress
+      if (range.start !== previousEnd) carry = Buffer.alloc(0)
+      previousEnd = range.end
+
+      let pos = range.start
+      const length = range.end - range.start
+      if (skip >= length) {
+        skip -= length
+        continue
+      }
+      // Stay 8-byte aligned so records are found where they start
+      pos += skip & ~7n
+      skip = 0n
+
+      while (pos < range.end) {
+        const n = Number(range.end - pos < BigInt(READ_CHUNK_BYTES) ? range.end - pos : BigInt(READ_CHUNK_BYTES))
+        let chunk: Buffer
+        try {
+          chunk = await this.reader.read(range.offset + (pos - range.start), n)
+        } catch {
+          carry = Buffer.alloc(0)
+          break
+        }
+
+        const data = carry.length > 0 ? Buffer.concat([carry, chunk]) : chunk
+        const consumed = parseUsnRecords(data, events)
+        carry = Buffer.from(data.subarray(consumed))
+        pos += BigInt(n)
+        if (chunk.length < n) break
+      }
+    }
+
+    return events
+  }
+}
+
+/**
+ * Decode the USN records in `data`. Returns how many bytes were consumed;
+ * a record cut off at the end is left for the next chunk.
+ */
+function parseUsnRecords(data: Buffer, events: NtfsJournalEvent[]): number {
+  let pos = 0
+
+  while (pos + 8 <= data.length) {
+    const length = data.readUInt32LE(pos)
+    const major = data.readUInt16LE(pos + 4)
+
+    // Zero padding fills the end of each page; anything else is noise
+    if (
+      length === 0 || length % 8 !== 0 || length > MAX_USN_RECORD ||
+      (major === 2 && length < USN_V2_HEADER) ||
+      (major === 3 && length < USN_V3_HEADER) ||
+      (major !== 2 && major !== 3)
+    ) {
+      pos += 8
+      continue
+    }
+    if (pos + length > data.length) break
+
+    const event = parseUsnRecord(data.subarray(pos, pos + length), major)
+    if (event) events.push(event)
+    pos += length
+  }
+
+  return pos
+}
+
+function parseUsnRecord(rec: Buffer, major: number): NtfsJournalEvent | null {
+  // V3 widens both references to 128 bits; NTFS keeps the usual 64-bit
+  // reference in the low half, so the rest of the layout just shifts.
+  const shift = major === 3 ? 16 : 0
+  const reasonFlags = rec.readUInt32LE(0x28 + shift)
+  const attributes = rec.readUInt32LE(0x34 + shift)
+  const nameLength = rec.readUInt16LE(0x38 + shift)
+  const nameOffset = rec.readUInt16LE(0x3a + shift)
+  if (nameLength === 0 || nameLength % 2 !== 0 || nameOffset + nameLength > rec.length) return null
+
+  // Changes are reported again with each new reason until the handle is
+  // closed. The closing record sums them up; the old name of a rename only
+  // appears in its own record.
+  if (!(reasonFlags & (USN_REASON_CLOSE | USN_REASON_RENAME_OLD_NAME))) return null
+
+  let action: FileHistoryEvent['action'] = 'modified'
+  if (reasonFlags & USN_REASON_FILE_DELETE) action = 'deleted'
+  else if (reasonFlags & (USN_REASON_RENAME_OLD_NAME | USN_REASON_RENAME_NEW_NAME)) action = 'renamed'
+  else if (reasonFlags & USN_REASON_FILE_CREATE) action = 'created'
+
+  return {
+    ...decodeReference(rec, 8),
+    parentRecord: decodeReference(rec, 8 + (major === 3 ? 16 : 8)).record,
+    name: rec.subarray(nameOffset, nameOffset + nameLength).toString('utf16le'),
+    action,
+    reasons: USN_REASONS.filter(([flag]) => (reasonFlags & flag) >>> 0 === flag).map(([, name]) => name),
+    timestamp: filetimeToDate(rec, 0x20 + shift),
+    isDirectory: (attributes & USN_ATTR_DIRECTORY) !== 0,
+    source: 'usn-journal',
+    order: readUInt64LE(rec, 0x18 + shift),
+  }
+}
+
+// ─── $LogFile ───────────────────────────────────────────────────
+
+export class LogFileReader {
+  private reader: SourceReader
+  private ranges: StoredRange[]
+
+  /**
+   * @param reader - Reader for the NTFS volume.
+   * @param fragments - The $LogFile data fragments in stream order.
+   */
+  constructor(reader: SourceReader, fragments: FileFragment[]) {
+    this.reader = reader
+    this.ranges = storedRanges(fragments)
+  }
+
+  async read(): Promise<NtfsJournalEvent[]> {
+    const restart = await this.readStream(0n, FIXUP_STRIDE)
+    if (!restart) return []
+
+    const magic = restart.subarray(0, 4).toString('ascii')
+    if (magic !== LOG_RESTART_MAGIC && magic !== LOG_CHKDSK_MAGIC) return []
+
+    // Two restart pages of system_page_size come first, then log pages
+    const systemPageSize = restart.readUInt32LE(0x10)
+    const logPageSize = restart.readUInt32LE(0x14)
+    if (!isPageSize(systemPageSize) || !isPageSize(logPageSize)) return []
+
+    const streamEnd = this.ranges.length > 0 ? this.ranges[this.ranges.length - 1].end : 0n
+    const end = streamEnd < BigInt(MAX_JOURNAL_BYTES) ? streamEnd : BigInt(MAX_JOURNAL_BYTES)
+    const pagesPerChunk = Math.max(1, Math.floor(READ_CHUNK_BYTES / logPageSize))
+    const events: NtfsJournalEvent[] = []
+
+    for (let pos = BigInt(systemPageSize) * 2n; pos < end; pos += BigInt(pagesPerChunk * logPageSize)) {
+      const remaining = Number((end - pos) / BigInt(logPageSize))
+      const pages = Math.min(pagesPerChunk, remaining)
+      if (pages === 0) break
+
+      const chunk = await this.readStream(pos, pages * logPageSize)
+      if (!chunk) continue
+
+      for (let p = 0; p < pages; p++) {
+        const page = chunk.subarray(p * logPageSize, (p + 1) * logPageSize)
+        if (page.subarray(0, 4).toString('ascii') !== LOG_RECORD_MAGIC) continue
+        applyFixups(page)
+        parseLogPage(page, events)
+      }
+    }
+
+    return events
+  }
+
+  /** Read a span of the stream that may cross fragments. Null if any part is missing. */
+  private async readStream(start: bigint, length: number): Promise<Buffer | null> {
+    const out = Buffer.alloc(length)
+    let done = 0
+
+    while (done < length) {
+      const pos = start + BigInt(done)
+      const range = this.ranges.find((r) => pos >= r.start && pos < r.end)
+      if (!range) return null
+
+      const available = range.end - pos
+      const n = Number(available < BigInt(length - done) ? available : BigInt(length - done))
+      try {
+        const buf = await this.reader.read(range.offset + (pos - range.start), n)
+        if (buf.length < n) return null
+        buf.copy(out, done)
+      } catch {
+        return null
+      }
+      done += n
+    }
+
+    return out
+  }
+}
+
+/**
+ * Scan a log record page for client records whose operation adds or
+ * removes a directory index entry. Records are 8-byte aligned; candidates
+ * are validated field by field since a page may start mid-record.
+ */
+function parseLogPage(page: Buffer, events: NtfsJournalEvent[]): void {
+  const usaCount = page.readUInt16LE(6)
+  let pos = (0x28 + usaCount * 2 + 7) & ~7
+
+  while (pos + LFS_RECORD_HEADER + NTFS_LOG_HEADER <= page.length) {
+    const clientLength = page.readUInt32LE(pos + 0x18)
+    const recordType = page.readUInt32LE(pos + 0x20)
+    const client = pos + LFS_RECORD_HEADER
+
+    const valid =
+      readUInt64LE(page, pos) !== 0n &&
+      recordType === LFS_CLIENT_RECORD &&
+      clientLength >= NTFS_LOG_HEADER &&
+      client + clientLength <= page.length &&
+      page.readUInt16LE(client) <= MAX_LOG_OPERATION &&
+      page.readUInt16LE(client + 2) <= MAX_LOG_OPERATION &&
+      page.readUInt16LE(client + 4) + page.readUInt16LE(client + 6) <= clientLength &&
+      page.readUInt16LE(client + 8) + page.readUInt16LE(client + 10) <= clientLength
+
+    if (!valid) {
+      pos += 8
+      continue
+    }
+
+    const redoOp = page.readUInt16LE(client)
+    const operation = LOG_INDEX_OPERATIONS[redoOp]
+    if (operation) {
+      // An added entry is in the redo data, a removed one in the undo data
+      const dataOffset = page.readUInt16LE(client + (operation.added ? 4 : 8))
+      const dataLength = page.readUInt16LE(client + (operation.added ? 6 : 10))
+      const entry = page.subarray(client + dataOffset, client + dataOffset + dataLength)
+
+      const event = parseIndexEntry(entry, operation.added, operation.name, readUInt64LE(page, pos))
+      if (event) events.push(event)
+    }
+
+    pos += LFS_RECORD_HEADER + ((clientLength + 7) & ~7)
+  }
+}
+
+/** Decode a directory index entry, whose key is a $FILE_NAME attribute. */
+function parseIndexEntry(entry: Buffer, added: boolean, operation: string, lsn: bigint): NtfsJournalEvent | null {
+  if (entry.length < 16 + 66) return null
+
+  const keyLength = entry.readUInt16LE(10)
+  const key = entry.subarray(16, 16 + keyLength)
+  if (keyLength < 66 || key.length < keyLength) return null
+
+  const nameLength = key[64]
+  const namespace = key[65]
+  if (nameLength === 0 || 66 + nameLength * 2 > key.length) return null
+  if (namespace === FILE_NAME_NAMESPACE_DOS) return null
+
+  return {
+    ...decodeReference(entry, 0),
+    parentRecord: decodeReference(key, 0).record,
+    name: key.subarray(66, 66 + nameLength * 2).toString('utf16le'),
+    action: added ? 'created' : 'deleted',
+    reasons: [operation],
+    timestamp: filetimeToDate(key, 16),
+    size: readUInt64LE(key, 48),
+    isDirectory: (key.readUInt32LE(56) & FILE_NAME_FLAG_DIRECTORY) !== 0,
+    source: 'logfile',
+    order: lsn,
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function storedRanges(fragments: FileFragment[]): StoredRange[] {
+  const ranges: StoredRange[] = []
+  let pos = 0n
+
+  for (const fragment of fragments) {
+    if (!fragment.sparse) {
+      ranges.push({ start: pos, end: pos + fragment.size, offset: fragment.offset })
+    }
+    pos += fragment.size
+  }
+
+  return ranges
+}
+
+/** Split a 64-bit MFT reference into its 48-bit record number and 16-bit sequence. */
+function decodeReference(buf: Buffer, offset: number): { record: number; sequence: number } {
+  return {
+    record: buf.readUInt32LE(offset) + buf.readUInt16LE(offset + 4) * 0x100000000,
+    sequence: buf.readUInt16LE(offset + 6),
+  }
+}
+
+/** Restore the sector tails of a multi-sector protected page in place. */
+function applyFixups(page: Buffer): void {
+  const usaOffset = page.readUInt16LE(4)
+  const usaCount = page.readUInt16LE(6)
+  if (usaCount < 2 || usaOffset + usaCount * 2 > page.length) return
+
+  for (let i = 1; i < usaCount; i++) {
+    const sectorEnd = i * FIXUP_STRIDE - 2
+    if (sectorEnd + 2 > page.length) break
+    page.writeUInt16LE(page.readUInt16LE(usaOffset + i * 2), sectorEnd)
+  }
+}
+
+function isPageSize(size: number): boolean {
+  return size >= FIXUP_STRIDE && size <= 65536 && (size & (size - 1)) === 0
+}
+
+/** Convert a Windows FILETIME (100 ns intervals since 1601) to a Date. */
+function filetimeToDate(buf: Buffer, offset: number): Date | undefined {
+  const filetime = readUInt64LE(buf, offset)
+  if (filetime === 0n) return undefined
+
+  const unixMs = filetime / 10000n - 11644473600000n
+  // Reject dates before 1970 or after 2100
+  if (unixMs < 0n || unixMs > 4102444800000n) return undefined
+  return new Date(Number(unixMs))
+}
+
+function readUInt64LE(buf: Buffer, offset: number): bigint {
+  if (offset + 8 > buf.length) return 0n
+  return (BigInt(buf.readUInt32LE(offset + 4)) << 32n) | BigInt(buf.readUInt32LE(offset))
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { NtfsParser } from './ntfs-parser'
+import { BufferReader } from '../../io/buffer-reader'
+import type { FileLocation } from '../../../shared/types'
+
+const ENTRY = 1024
+const CLUSTER = 4096
+const MFT_CLUSTER = 4
+const ROOT = 5
+
+const FLAG_IN_USE = 0x1
+const FLAG_DIRECTORY = 0x2
+
+interface Reference {
+  record: number
+  sequence: number
+}
+
+interface EntrySpec {
+  record: number
+  sequence: number
+  name: string
+  parent: Reference
+  directory?: boolean
+  inUse?: boolean
+}
+
+/** A resident attribute of `type` holding `content`, padded to 8 bytes. */
+function residentAttribute(type: number, content: Buffer): Buffer {
+  const attr = Buffer.alloc(24 + Math.ceil(content.length / 8) * 8)
+  attr.writeUInt32LE(type, 0)
+  attr.writeUInt32LE(attr.length, 4)
+  attr.writeUInt16LE(24, 10)
+  attr.writeUInt32LE(content.length, 16)
+  attr.writeUInt16LE(24, 20)
+  content.copy(attr, 24)
+  return attr
+}
+
+function fileName(name: string, parent: Reference): Buffer {
+  const content = Buffer.alloc(66 + name.length * 2)
+  content.writeUInt32LE(parent.record, 0)
+  content.writeUInt16LE(parent.sequence, 6)
+  content[64] = name.length
+  content[65] = 1
+  content.write(name, 66, 'utf16le')
+  return residentAttribute(0x30, content)
+}
+
+/**
+ * An MFT entry with its $FILE_NAME and, for files, a small resident
+ * $DATA. The update sequence array protects both 512-byte strides.
+ */
+function mftEntry(spec: EntrySpec): Buffer {
+  const entry = Buffer.alloc(ENTRY)
+  entry.write('FILE', 0, 'ascii')
+  entry.writeUInt16LE(48, 4)
+  entry.writeUInt16LE(3, 6)
+  entry.writeUInt16LE(spec.sequence, 0x10)
+  entry.writeUInt16LE(56, 0x14)
+  entry.writeUInt16LE((spec.inUse ? FLAG_IN_USE : 0) | (spec.directory ? FLAG_DIRECTORY : 0), 0x16)
+
+  const attributes = [fileName(spec.name, spec.parent)]
+  if (!spec.directory) attributes.push(residentAttribute(0x80, Buffer.from(`data of ${spec.name}`)))
+  let pos = 56
+  for (const attr of attributes) pos += attr.copy(entry, pos)
+  entry.writeUInt32LE(0xffffffff, pos)
+
+  entry.writeUInt16LE(0x0101, 48)
+  entry.writeUInt16LE(0x0101, 510)
+  entry.writeUInt16LE(0x0101, 1022)
+  return entry
+}
+
+/** A volume whose MFT starts at cluster 4 and holds the given records. */
+function volume(entries: EntrySpec[]): BufferReader {
+  const data = Buffer.alloc(MFT_CLUSTER * CLUSTER + 48 * ENTRY)
+  data.write('NTFS    ', 3, 'ascii')
+  data.writeUInt16LE(512, 11)
+  data[13] = CLUSTER / 512
+  data.writeBigInt64LE(BigInt(MFT_CLUSTER), 48)
+  data.writeInt8(-10, 64)
+
+  for (const spec of entries) mftEntry(spec).copy(data, MFT_CLUSTER * CLUSTER + spec.record * ENTRY)
+  return new BufferReader(data)
+}
+
+async function locations(entries: EntrySpec[]): Promise<Record<string, FileLocation | undefined>> {
+  const files = await new NtfsParser(volume(entries)).parse()
+  return Object.fromEntries(files.map((f) => [f.name, f.location]))
+}
+
+/** Docs sits in the root and is live */
+const docs: EntrySpec = {
+  record: 16,
+  sequence: 1,
+  name: 'Docs',
+  parent: { record: ROOT, sequence: ROOT },
+  directory: true,
+  inUse: true
+}
+
+describe('NtfsParser paths', () => {
+  it('walks up through a deleted parent whose sequence was bumped by the delete', async () => {
+    const found = await locations([
+      docs,
+      { record: 17, sequence: 3, name: 'Trip', parent: { record: 16, sequence: 1 }, directory: true },
+      { record: 18, sequence: 1, name: 'beach.jpg', parent: { record: 17, sequence: 2 } }
+    ])
+
+    expect(found).toEqual({ 'beach.jpg': { folders: ['Docs', 'Trip'], orphaned: false } })
+  })
+
+  it('keeps the folders below a parent that is gone from the MFT', async () => {
+    const found = await locations([
+      { record: 20, sequence: 2, name: 'Lost', parent: { record: 30, sequence: 1 }, directory: true },
+      { record: 21, sequence: 1, name: 'orphan.jpg', parent: { record: 20, sequence: 1 } },
+      { record: 22, sequence: 1, name: 'stray.jpg', parent: { record: 31, sequence: 4 } }
+    ])
+
+    expect(found).toEqual({
+      'orphan.jpg': { folders: ['Lost'], orphaned: true },
+      'stray.jpg': { folders: [], orphaned: true }
+    })
+  })
+
+  it('treats a parent record reused by another directory as lost', async () => {
+    const found = await locations([
+      docs,
+      { record: 17, sequence: 4, name: 'Music', parent: { record: 16, sequence: 1 }, directory: true, inUse: true },
+      { record: 18, sequence: 1, name: 'beach.jpg', parent: { record: 17, sequence: 2 } }
+    ])
+
+    expect(found).toEqual({ 'beach.jpg': { folders: [], orphaned: true } })
+  })
+})
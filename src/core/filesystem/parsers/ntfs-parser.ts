@@ -8,16 +8,38 @@
  *   - $STANDARD_INFORMATION (type 0x10) for timestamps
  *   - $FILE_NAME (type 0x30) for the filename
  *   - $DATA (type 0x80) for the data run list (fragment locations)
+ *
+ * Every $DATA attribute becomes its own result: the unnamed stream is the
+ * file itself and named streams (alternate data streams) are reported as
+ * `<file>_<stream>`. Small streams are resident, stored inside the MFT
+ * entry, and are recovered straight from it. Compressed streams keep
+ * their sparse runs so recovery can rebuild each LZNT1 compression unit.
+ *
+ * Once a deleted file's MFT record is reused, the file is gone from the
+ * MFT. The USN journal and $LogFile still remember it (see ntfs-journal).
+ * Their events become the history of matching deleted entries. Deletions
+ * with no entry left are listed as data-lost files, so users at least
+ * know the file existed.
+ *
+ * Directory entries, live or deleted, are collected during the scan so
+ * each file's parent reference can be walked up to the root to rebuild
+ * its original path. A parent whose record was reused breaks the chain
+ * and the file is marked orphaned.
  */
 
 import { randomUUID } from 'crypto'
-import type { BlockReader } from '../../io/block-reader'
+import type { SourceReader } from '../../io/images'
 import type {
   RecoverableFile,
   FileFragment,
+  FileCompression,
+  FileHistoryEvent,
+  FileLocation,
   FileType,
   FileCategory,
 } from '../../../shared/types'
+import { LogFileReader, UsnJournalReader } from './ntfs-journal'
+import type { NtfsJournalEvent } from './ntfs-journal'
 
 // ─── NTFS Boot Sector Fields ────────────────────────────────────
 
@@ -30,6 +52,37 @@ interface NtfsBootSector {
   mftEntrySize: number
 }
 
+/** One $DATA attribute of an MFT entry. */
+interface DataStream {
+  /** Stream name; empty for the unnamed (main) stream */
+  name: string
+  size: bigint
+  fragments: FileFragment[]
+  compression?: FileCompression
+}
+
+/** An MFT reference: record number plus the sequence number it expects. */
+interface MftReference {
+  record: number
+  /** Unknown for references taken from the journals */
+  sequence?: number
+}
+
+/** Results parsed from a deleted MFT entry, for matching journal events. */
+interface DeletedEntry {
+  sequence: number
+  files: RecoverableFile[]
+  parent: MftReference | null
+}
+
+/** A directory MFT entry, for rebuilding paths. */
+interface DirectoryEntry {
+  name: string
+  parent: MftReference
+  sequence: number
+  inUse: boolean
+}
+
 // ─── Constants ──────────────────────────────────────────────────
 
 const MFT_SIGNATURE = 0x454c4946 // "FILE" in little-endian
@@ -41,6 +94,12 @@ const ATTR_FILE_NAME = 0x30
 const ATTR_DATA = 0x80
 const ATTR_END_MARKER = 0xffffffff
 
+/** Attribute flags */
+const ATTR_FLAG_COMPRESSION_MASK = 0x00ff
+
+/** Fixup stride: the last 2 bytes of every 512 bytes hold the update sequence number. */
+const FIXUP_STRIDE = 512
+
 /** MFT entry flags */
 const MFT_FLAG_IN_USE = 0x01
 const MFT_FLAG_DIRECTORY = 0x02
@@ -51,6 +110,21 @@ const MAX_MFT_ENTRIES = 2_000_000
 /** First 16 MFT entries are system metadata files ($MFT, $MFTMirr, etc.). */
 const FIRST_USER_ENTRY = 16
 
+/** Fixed MFT records */
+const MFT_RECORD_LOGFILE = 2
+const MFT_RECORD_ROOT = 5
+const MFT_RECORD_EXTEND = 11
+
+/** The USN journal is the $J stream of $Extend\$UsnJrnl */
+const USN_JOURNAL_NAME = '$UsnJrnl'
+const USN_JOURNAL_STREAM = '$J'
+
+/** Maximum history events kept per file (newest win). */
+const MAX_HISTORY_EVENTS = 64
+
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
 // ─── Extension to FileType mapping ──────────────────────────────
 
 const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
@@ -96,10 +170,16 @@ const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }>
 // ─── Public API ─────────────────────────────────────────────────
 
 export class NtfsParser {
-  private reader: BlockReader
+  private reader: SourceReader
   private bs: NtfsBootSector | null = null
-
-  constructor(reader: BlockReader) {
+  /** Deleted entries with results, by MFT record number. */
+  private deletedEntries = new Map<number, DeletedEntry>()
+  /** Fragments of the $UsnJrnl:$J stream, once seen during the scan. */
+  private usnJournal: FileFragment[] | null = null
+  /** Directory entries, live and deleted, by MFT record number. */
+  private directories = new Map<number, DirectoryEntry>()
+
+  constructor(reader: SourceReader) {
     this.reader = reader
   }
 
@@ -107,7 +187,9 @@ export class NtfsParser {
     this.bs = await this.parseBootSector()
     if (!this.bs) return []
 
-    return this.scanMft()
+    const results = await this.scanMft()
+    await this.addJournalHistory(results)
+    return results
   }
 
   // ─── Boot Sector Parsing ────────────────────────────────────
@@ -196,9 +278,20 @@ export class NtfsParser {
         if (entryOffset + bs.mftEntrySize > batch.length) break
 
         const entry = batch.subarray(entryOffset, entryOffset + bs.mftEntrySize)
-        const file = this.parseMftEntry(entry, bs)
-        if (file) {
-          results.push(file)
+        const entryDiskOffset = offset + BigInt(entryOffset)
+
+        if (!this.usnJournal && this.isUsnJournalEntry(entry)) {
+          this.usnJournal = this.parseStreams(entry, entryDiskOffset, bs)
+            .find((stream) => stream.name === USN_JOURNAL_STREAM)?.fragments ?? null
+        }
+
+        const directory = this.parseDirectoryEntry(entry)
+        if (directory) this.directories.set(entryIndex + j, directory)
+
+        const parsed = this.parseMftEntry(entry, entryDiskOffset, bs)
+        if (parsed) {
+          this.deletedEntries.set(entryIndex + j, parsed)
+          results.push(...parsed.files)
         }
       }
 
@@ -206,12 +299,26 @@ export class NtfsParser {
       if (batch.length < batchBytes) break
     }
 
+    // Parents may come later in the MFT, so paths are resolved last
+    for (const { files, parent } of this.deletedEntries.values()) {
+      if (!parent) continue
+      const location = this.resolveLocation(parent)
+      for (const file of files) file.location = location
+    }
+
     return results
   }
 
   // ─── MFT Entry Parsing ─────────────────────────────────────
 
-  private parseMftEntry(entry: Buffer, bs: NtfsBootSector): RecoverableFile | null {
+  /**
+   * Parse a deleted MFT entry into one result per non-empty data stream.
+   * Returns null if the entry is not a deleted file or has no data.
+   *
+   * @param entryOffset - Byte offset of the entry on the device, used to
+   *   locate resident data.
+   */
+  private parseMftEntry(entry: Buffer, entryOffset: bigint, bs: NtfsBootSector): DeletedEntry | null {
     if (entry.length < 56) return null
 
     // Check "FILE" magic signature
@@ -229,28 +336,14 @@ export class NtfsParser {
     const fixedEntry = this.applyFixups(entry)
     if (!fixedEntry) return null
 
-    // Offset to first attribute (at offset 0x14)
-    const firstAttrOffset = fixedEntry.readUInt16LE(0x14)
-    if (firstAttrOffset < 56 || firstAttrOffset >= fixedEntry.length) return null
-
     // Parse attributes
     let filename: string | null = null
-    let fileSize = 0n
-    let fragments: FileFragment[] = []
+    let parent: MftReference | null = null
+    const streams: DataStream[] = []
     let createdAt: Date | undefined
     let modifiedAt: Date | undefined
 
-    let attrOffset = firstAttrOffset
-
-    while (attrOffset + 16 <= fixedEntry.length) {
-      const attrType = fixedEntry.readUInt32LE(attrOffset)
-      if (attrType === ATTR_END_MARKER || attrType === 0) break
-
-      const attrLength = fixedEntry.readUInt32LE(attrOffset + 4)
-      if (attrLength < 16 || attrLength > fixedEntry.length - attrOffset) break
-
-      const nonResident = fixedEntry[attrOffset + 8]
-
+    this.forEachAttribute(fixedEntry, (attrType, attrOffset, nonResident) => {
       switch (attrType) {
         case ATTR_STANDARD_INFORMATION: {
           const timestamps = this.parseStandardInformation(fixedEntry, attrOffset, nonResident)
@@ -265,60 +358,307 @@ export class NtfsParser {
           // Prefer Win32 or Win32+DOS namespace names over DOS-only names
           if (parsed && (!filename || parsed.namespace !== 2)) {
             filename = parsed.name
+            parent = parsed.parent
           }
           break
         }
         case ATTR_DATA: {
-          const dataInfo = this.parseDataAttribute(fixedEntry, attrOffset, nonResident, bs)
-          if (dataInfo) {
-            fileSize = dataInfo.size
-            fragments = dataInfo.fragments
+          const stream = this.parseDataAttribute(fixedEntry, attrOffset, nonResident, entryOffset, bs)
+          if (stream && stream.size > 0n) {
+            streams.push(stream)
           }
           break
         }
       }
+    })
+
+    if (!filename || streams.length === 0) return null
+
+    const results: RecoverableFile[] = []
+    for (const stream of streams) {
+      // Named streams are saved next to the file as `<file>_<stream>`
+      const name = stream.name ? `${filename}_${stream.name}` : filename
+      const originalName = stream.name ? `${filename}:${stream.name}` : filename
+
+      // Extract extension
+      const dotIndex = name.lastIndexOf('.')
+      const extension = dotIndex >= 0 ? name.substring(dotIndex + 1).toLowerCase() : ''
+
+      const mapping = EXTENSION_MAP[extension]
+      const fileType: FileType = mapping?.type ?? 'jpeg'
+      const category: FileCategory = mapping?.category ?? 'photo'
+
+      const stored = stream.fragments.filter((f) => !f.sparse)
+      const primaryOffset = stored.length > 0 ? stored[0].offset : 0n
+
+      // Assess recoverability based on fragment count
+      let recoverability: 'good' | 'partial' | 'poor' = 'good'
+      if (stored.length > 3) recoverability = 'partial'
+      if (stored.length > 10) recoverability = 'poor'
+      if (stored.length === 0) recoverability = 'poor'
+
+      results.push({
+        id: randomUUID(),
+        type: fileType,
+        category,
+        offset: primaryOffset,
+        size: stream.size,
+        sizeEstimated: false,
+        name,
+        extension: extension || 'bin',
+        recoverability,
+        source: 'metadata',
+        fragments: stream.fragments.length > 0 ? stream.fragments : undefined,
+        compression: stream.compression,
+        metadata: {
+          originalName,
+          createdAt,
+          modifiedAt,
+        },
+      })
+    }
+
+    return { sequence: entry.readUInt16LE(0x10), files: results, parent }
+  }
+
+  /** Name and parent of a directory entry, whether in use or not. */
+  private parseDirectoryEntry(entry: Buffer): DirectoryEntry | null {
+    if (entry.length < 56 || entry.readUInt32LE(0) !== MFT_SIGNATURE) return null
+
+    const flags = entry.readUInt16LE(0x16)
+    if (!(flags & MFT_FLAG_DIRECTORY)) return null
+
+    const fixedEntry = this.applyFixups(entry)
+    if (!fixedEntry) return null
+
+    let directory: DirectoryEntry | null = null
+    this.forEachAttribute(fixedEntry, (attrType, attrOffset, nonResident) => {
+      if (attrType !== ATTR_FILE_NAME) return
+      const parsed = this.parseFileName(fixedEntry, attrOffset, nonResident)
+      if (parsed && (!directory || parsed.namespace !== 2)) {
+        directory = {
+          name: parsed.name,
+          parent: parsed.parent,
+          sequence: entry.readUInt16LE(0x10),
+          inUse: (flags & MFT_FLAG_IN_USE) !== 0,
+        }
+      }
+    })
+    return directory
+  }
+
+  /**
+   * Walk parent references up to the root directory. A missing parent, or
+   * one whose record now holds something else, makes the file orphaned;
+   * the folders found below the break are kept.
+   */
+  private resolveLocation(parent: MftReference): FileLocation {
+    const folders: string[] = []
+    let ref = parent
+
+    while (ref.record !== MFT_RECORD_ROOT) {
+      const directory = this.directories.get(ref.record)
+      if (!directory || folders.length >= MAX_DIRECTORY_DEPTH) {
+        return { folders, orphaned: true }
+      }
+
+      // Freeing a record bumps its sequence number
+      if (ref.sequence !== undefined && directory.sequence !== ref.sequence &&
+        (directory.inUse || directory.sequence !== ((ref.sequence + 1) & 0xffff))) {
+        return { folders, orphaned: true }
+      }
+
+      folders.unshift(directory.name)
+      ref = directory.parent
+    }
+
+    return { folders, orphaned: false }
+  }
+
+  /**
+   * Call `visit` for each attribute of an entry, in order, with its type,
+   * offset and non-resident flag.
+   */
+  private forEachAttribute(
+    entry: Buffer,
+    visit: (attrType: number, attrOffset: number, nonResident: number) => void
+  ): void {
+    // Offset to first attribute (at offset 0x14)
+    const firstAttrOffset = entry.readUInt16LE(0x14)
+    if (firstAttrOffset < 56 || firstAttrOffset >= entry.length) return
+
+    let attrOffset = firstAttrOffset
+
+    while (attrOffset + 16 <= entry.length) {
+      const attrType = entry.readUInt32LE(attrOffset)
+      if (attrType === ATTR_END_MARKER || attrType === 0) break
 
+      const attrLength = entry.readUInt32LE(attrOffset + 4)
+      if (attrLength < 16 || attrLength > entry.length - attrOffset) break
+
+      visit(attrType, attrOffset, entry[attrOffset + 8])
       attrOffset += attrLength
     }
+  }
 
-    if (!filename || (fileSize === 0n && fragments.length === 0)) return null
+  /** All data streams of an entry, whether in use or not. */
+  private parseStreams(entry: Buffer, entryOffset: bigint, bs: NtfsBootSector): DataStream[] {
+    if (entry.length < 56 || entry.readUInt32LE(0) !== MFT_SIGNATURE) return []
 
-    // Extract extension
-    const dotIndex = filename.lastIndexOf('.')
-    const extension = dotIndex >= 0 ? filename.substring(dotIndex + 1).toLowerCase() : ''
+    const fixedEntry = this.applyFixups(entry)
+    if (!fixedEntry) return []
+
+    const streams: DataStream[] = []
+    this.forEachAttribute(fixedEntry, (attrType, attrOffset, nonResident) => {
+      if (attrType !== ATTR_DATA) return
+      const stream = this.parseDataAttribute(fixedEntry, attrOffset, nonResident, entryOffset, bs)
+      if (stream) streams.push(stream)
+    })
+    return streams
+  }
 
-    const mapping = EXTENSION_MAP[extension]
-    const fileType: FileType = mapping?.type ?? 'jpeg'
-    const category: FileCategory = mapping?.category ?? 'photo'
+  /**
+   * Whether an in-use entry is $Extend\$UsnJrnl. The name sits early in
+   * the entry, so fixups are not needed for the check.
+   */
+  private isUsnJournalEntry(entry: Buffer): boolean {
+    if (entry.length < 56 || entry.readUInt32LE(0) !== MFT_SIGNATURE) return false
+    if (!(entry.readUInt16LE(0x16) & MFT_FLAG_IN_USE)) return false
+
+    let found = false
+    this.forEachAttribute(entry, (attrType, attrOffset, nonResident) => {
+      if (attrType !== ATTR_FILE_NAME || found) return
+      const parsed = this.parseFileName(entry, attrOffset, nonResident)
+      found = parsed?.parent.record === MFT_RECORD_EXTEND && parsed.name === USN_JOURNAL_NAME
+    })
+    return found
+  }
+
+  // ─── Journal History ────────────────────────────────────────
+
+  /**
+   * Read the USN journal and $LogFile, attach each file's events to its
+   * deleted MFT entry, and list deletions whose entry is gone as
+   * data-lost files.
+   */
+  private async addJournalHistory(results: RecoverableFile[]): Promise<void> {
+    const events: NtfsJournalEvent[] = []
+    if (this.usnJournal) {
+      events.push(...await new UsnJournalReader(this.reader, this.usnJournal).read())
+    }
+    const logFile = await this.readSystemStream(MFT_RECORD_LOGFILE)
+    if (logFile) {
+      events.push(...await new LogFileReader(this.reader, logFile).read())
+    }
+
+    // One group per file incarnation: record number plus sequence number
+    const groups = new Map<string, NtfsJournalEvent[]>()
+    for (const event of events) {
+      if (event.isDirectory) continue
+      const key = `${event.record}:${event.sequence}`
+      const group = groups.get(key)
+      if (group) group.push(event)
+      else groups.set(key, [event])
+    }
+
+    for (const group of groups.values()) {
+      group.sort((a, b) => a.source.localeCompare(b.source) || (a.order < b.order ? -1 : a.order > b.order ? 1 : 0))
+      const deleted = this.labelRenames(group)
+      const history = this.buildHistory(group)
+
+      // Freeing an MFT record bumps its sequence number
+      const { record, sequence } = group[0]
+      const entry = this.deletedEntries.get(record)
+      if (entry && (entry.sequence === sequence || entry.sequence === ((sequence + 1) & 0xffff))) {
+        for (const file of entry.files) {
+          file.metadata = { ...file.metadata, history }
+        }
+        continue
+      }
+
+      if (deleted) results.push(this.buildLostFile(group, history))
+    }
+  }
+
+  /**
+   * $LogFile shows a rename as a removed index entry followed by an added
+   * one; relabel such pairs. Returns whether the file ended up deleted.
+   */
+  private labelRenames(group: NtfsJournalEvent[]): boolean {
+    const logEvents = group.filter((e) => e.source === 'logfile')
+    for (let i = 0; i + 1 < logEvents.length; i++) {
+      if (logEvents[i].action === 'deleted' && logEvents[i + 1].action === 'created') {
+        logEvents[i].action = 'renamed'
+        logEvents[i + 1].action = 'renamed'
+      }
+    }
 
-    const primaryOffset = fragments.length > 0 ? fragments[0].offset : 0n
+    if (group.some((e) => e.source === 'usn-journal' && e.action === 'deleted')) return true
+    return logEvents.length > 0 && logEvents[logEvents.length - 1].action === 'deleted'
+  }
 
-    // Assess recoverability based on fragment count
-    let recoverability: 'good' | 'partial' | 'poor' = 'good'
-    if (fragments.length > 3) recoverability = 'partial'
-    if (fragments.length > 10) recoverability = 'poor'
-    if (fragments.length === 0) recoverability = 'poor'
+  private buildHistory(group: NtfsJournalEvent[]): FileHistoryEvent[] {
+    const history = group.map((event): FileHistoryEvent => ({
+      action: event.action,
+      name: event.name,
+      parentRecord: event.parentRecord,
+      timestamp: event.timestamp,
+      reasons: event.reasons,
+      source: event.source,
+    }))
+
+    // Oldest first; events without a time keep their journal order at the end
+    const time = (e: FileHistoryEvent): number => e.timestamp?.getTime() ?? Number.MAX_SAFE_INTEGER
+    history.sort((a, b) => time(a) - time(b))
+    return history.slice(-MAX_HISTORY_EVENTS)
+  }
+
+  private buildLostFile(group: NtfsJournalEvent[], history: FileHistoryEvent[]): RecoverableFile {
+    const deletion = [...group].reverse().find((e) => e.action === 'deleted') ?? group[group.length - 1]
+    const name = deletion.name
+    const size = [...group].reverse().find((e) => e.size !== undefined && e.size > 0n)?.size
+
+    const dotIndex = name.lastIndexOf('.')
+    const extension = dotIndex >= 0 ? name.substring(dotIndex + 1).toLowerCase() : ''
+    const mapping = EXTENSION_MAP[extension]
 
     return {
       id: randomUUID(),
-      type: fileType,
-      category,
-      offset: primaryOffset,
-      size: fileSize,
-      sizeEstimated: fileSize === 0n,
-      name: filename,
+      type: mapping?.type ?? 'jpeg',
+      category: mapping?.category ?? 'photo',
+      offset: 0n,
+      size: size ?? 0n,
+      sizeEstimated: size === undefined,
+      name,
       extension: extension || 'bin',
-      recoverability,
+      recoverability: 'poor',
       source: 'metadata',
-      fragments: fragments.length > 0 ? fragments : undefined,
+      dataLost: true,
+      location: this.resolveLocation({ record: deletion.parentRecord }),
       metadata: {
-        originalName: filename,
-        createdAt,
-        modifiedAt,
+        originalName: name,
+        history,
       },
     }
   }
 
+  /** Unnamed data stream of a fixed system record such as $LogFile. */
+  private async readSystemStream(record: number): Promise<FileFragment[] | null> {
+    const bs = this.bs!
+    const offset = bs.mftStartOffset + BigInt(record) * BigInt(bs.mftEntrySize)
+
+    let entry: Buffer
+    try {
+      entry = await this.reader.read(offset, bs.mftEntrySize)
+    } catch {
+      return null
+    }
+    if (entry.length < bs.mftEntrySize) return null
+
+    const stream = this.parseStreams(entry, offset, bs).find((s) => s.name === '')
+    return stream && stream.fragments.length > 0 ? stream.fragments : null
+  }
+
   // ─── Attribute Parsers ──────────────────────────────────────
 
   /**
@@ -355,7 +695,7 @@ export class NtfsParser {
     entry: Buffer,
     attrOffset: number,
     nonResident: number
-  ): { name: string; namespace: number } | null {
+  ): { name: string; namespace: number; parent: MftReference } | null {
     if (nonResident !== 0) return null
 
     const contentOffset = entry.readUInt16LE(attrOffset + 20)
@@ -378,9 +718,17 @@ export class NtfsParser {
       nameChars.push(String.fromCharCode(charCode))
     }
 
+    // Parent directory reference: low 48 bits are the record number,
+    // high 16 bits its sequence number
+    const parent = {
+      record: entry.readUInt32LE(absOffset) + entry.readUInt16LE(absOffset + 4) * 0x100000000,
+      sequence: entry.readUInt16LE(absOffset + 6),
+    }
+
     return {
       name: nameChars.join(''),
       namespace,
+      parent,
     }
   }
 
@@ -392,18 +740,25 @@ export class NtfsParser {
     entry: Buffer,
     attrOffset: number,
     nonResident: number,
+    entryOffset: bigint,
     bs: NtfsBootSector
-  ): { size: bigint; fragments: FileFragment[] } | null {
+  ): DataStream | null {
+    // Attribute name: length in characters at +9, offset at +10
+    const nameLength = entry[attrOffset + 9]
+    const nameOffset = attrOffset + entry.readUInt16LE(attrOffset + 10)
+    if (nameOffset + nameLength * 2 > entry.length) return null
+    const name = entry.subarray(nameOffset, nameOffset + nameLength * 2).toString('utf16le')
+
     if (nonResident === 0) {
-      // Resident data: the file content is inline
+      // Resident data: the stream content is inline in the MFT entry
       const contentLength = entry.readUInt32LE(attrOffset + 16)
-      const contentOffset = entry.readUInt16LE(attrOffset + 20)
+      const contentStart = attrOffset + entry.readUInt16LE(attrOffset + 20)
+      if (contentStart + contentLength > entry.length) return null
+
       return {
+        name,
         size: BigInt(contentLength),
-        fragments: [{
-          offset: 0n, // Inline; offset is not meaningful on disk
-          size: BigInt(contentLength),
-        }],
+        fragments: this.residentFragments(entry, entryOffset, contentStart, contentLength),
       }
     }
 
@@ -412,6 +767,10 @@ export class NtfsParser {
     if (attrOffset + 56 > entry.length) return null
     const realSize = this.readUInt64LE(entry, attrOffset + 48)
 
+    // Attributes continued in extension records start past VCN 0 and
+    // cannot be placed without the attribute list
+    if (this.readUInt64LE(entry, attrOffset + 16) !== 0n) return null
+
     // Run list offset at attrOffset + 32 (2 bytes)
     const runListOffset = entry.readUInt16LE(attrOffset + 32)
     const runListStart = attrOffset + runListOffset
@@ -419,13 +778,94 @@ export class NtfsParser {
     if (runListStart >= entry.length) return null
 
     const fragments = this.decodeRunList(entry, runListStart, bs)
+    const bytesPerCluster = bs.bytesPerSector * bs.sectorsPerCluster
+
+    // Compressed streams are rebuilt unit by unit during recovery, which
+    // needs every run, sparse or not. Compression unit size is 2^n clusters
+    // with n at offset 34.
+    const attrFlags = entry.readUInt16LE(attrOffset + 12)
+    if (attrFlags & ATTR_FLAG_COMPRESSION_MASK) {
+      const unitShift = entry.readUInt16LE(attrOffset + 34)
+      if (unitShift > 0 && unitShift <= 8) {
+        return {
+          name,
+          size: realSize,
+          fragments,
+          compression: { format: 'lznt1', unitSize: bytesPerCluster << unitShift },
+        }
+      }
+    }
 
     return {
+      name,
       size: realSize,
-      fragments,
+      fragments: this.trimFragments(fragments, realSize),
     }
   }
 
+  /**
+   * Map resident content to its location on disk. Each 512-byte stride of
+   * the entry ends in the update sequence number on disk; the real 2 bytes
+   * sit in the update sequence array, so those spots point there instead.
+   */
+  private residentFragments(
+    entry: Buffer,
+    entryOffset: bigint,
+    start: number,
+    length: number
+  ): FileFragment[] {
+    const fixupOffset = entry.readUInt16LE(4)
+    const fixupCount = entry.readUInt16LE(6)
+    const hasFixups = fixupCount >= 2 && fixupOffset + fixupCount * 2 <= entry.length
+
+    const fragments: FileFragment[] = []
+    const push = (offset: bigint, size: number): void => {
+      const last = fragments[fragments.length - 1]
+      if (last && last.offset + last.size === offset) {
+        last.size += BigInt(size)
+      } else {
+        fragments.push({ offset, size: BigInt(size) })
+      }
+    }
+
+    let pos = start
+    const end = start + length
+    while (pos < end) {
+      const stride = Math.floor(pos / FIXUP_STRIDE) + 1
+      const sectorEnd = stride * FIXUP_STRIDE - 2
+
+      if (hasFixups && stride < fixupCount && pos >= sectorEnd) {
+        // Inside the 2 protected bytes at the end of this stride
+        const n = Math.min(end, sectorEnd + 2) - pos
+        push(entryOffset + BigInt(fixupOffset + stride * 2 + (pos - sectorEnd)), n)
+        pos += n
+        continue
+      }
+
+      const limit = hasFixups && stride < fixupCount ? sectorEnd : stride * FIXUP_STRIDE
+      const n = Math.min(end, limit) - pos
+      push(entryOffset + BigInt(pos), n)
+      pos += n
+    }
+
+    return fragments
+  }
+
+  /** Drop the slack past the real size from the final clusters. */
+  private trimFragments(fragments: FileFragment[], size: bigint): FileFragment[] {
+    const trimmed: FileFragment[] = []
+    let remaining = size
+
+    for (const fragment of fragments) {
+      if (remaining <= 0n) break
+      const take = fragment.size < remaining ? fragment.size : remaining
+      trimmed.push({ ...fragment, size: take })
+      remaining -= take
+    }
+
+    return trimmed
+  }
+
   // ─── Run List Decoder ───────────────────────────────────────
 
   /**
@@ -436,7 +876,9 @@ export class NtfsParser {
    *   - Length field (variable, unsigned): number of clusters in this run
    *   - Offset field (variable, signed): LCN delta from previous run
    *
-   * A header byte of 0x00 marks the end of the run list.
+   * A header byte of 0x00 marks the end of the run list. Runs without an
+   * offset field are sparse and kept as zero-filled fragments so the
+   * fragments stay in file order.
    */
   private decodeRunList(entry: Buffer, startOffset: number, bs: NtfsBootSector): FileFragment[] {
     const fragments: FileFragment[] = []
@@ -464,7 +906,7 @@ export class NtfsParser {
 
       if (offsetSize === 0) {
         // Sparse run (no physical location)
-        pos += offsetSize
+        fragments.push({ offset: 0n, size: runLength * bytesPerCluster, sparse: true })
         continue
       }
 
@@ -0,0 +1,742 @@
+/**
+ * UDF Filesystem Parser
+ *
+ * Lists the files on DVD, Blu-ray and packet-written UDF images, walking
+ * the directory tree from the File Set Descriptor. Deleted File Identifier
+ * Descriptors stay in their directory with the "deleted" flag set; while
+ * the File Entry they point to is intact, the file is still listed.
+ *
+ * Write-once media (CD-R, DVD±R, BD-R) use a virtual partition: every
+ * session records a new Virtual Allocation Table that maps virtual blocks
+ * to their latest physical copies, and each VAT points back to the one it
+ * replaced. Every VAT in that chain is a snapshot of the tree, so files an
+ * older session still lists are found by walking all of them, newest
+ * first.
+ *
+ * Recovery strategy:
+ *   1. Find the Anchor Volume Descriptor Pointer at block 256, trying
+ *      the common block sizes
+ *   2. Read the partitions and partition maps from the main Volume
+ *      Descriptor Sequence (physical, sparable, virtual and metadata maps)
+ *   3. For a virtual partition, follow the VAT chain back from the last
+ *      recorded block
+ *   4. Walk the directory tree from the File Set Descriptor's root
+ *
+ * Sparable partitions are read as physical ones; remapped packets are
+ * not followed.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SourceReader } from '../../io/images'
+import type {
+  RecoverableFile,
+  FileFragment,
+  FileType,
+  FileCategory,
+} from '../../../shared/types'
+
+// ─── Volume Structures ──────────────────────────────────────────
+
+interface UdfPartition {
+  /** Partition number from the partition descriptor */
+  number: number
+  /** First block of the partition on the volume */
+  start: number
+}
+
+/** A partition reference, as the logical volume's partition maps define it. */
+interface PartitionMap {
+  kind: 'physical' | 'virtual' | 'metadata'
+  partition: UdfPartition
+  /** Metadata maps: block of the metadata file's entry in the physical partition */
+  metadataFile?: number
+  /** Metadata maps: the metadata file's extents, as absolute byte ranges */
+  metadataExtents?: FileFragment[]
+}
+
+interface UdfVolume {
+  blockSize: number
+  /** Indexed by partition reference number; null for unusable maps */
+  maps: (PartitionMap | null)[]
+  /** Location of the File Set Descriptor */
+  fileSet: LogicalAddress
+  /** VAT of the snapshot being walked; virtual blocks resolve through it */
+  vat: number[] | null
+}
+
+interface LogicalAddress {
+  block: number
+  /** Partition reference number */
+  partition: number
+}
+
+/** A Virtual Allocation Table and the location of the one before it. */
+interface VirtualAllocationTable {
+  /** Absolute block of the VAT's File Entry */
+  block: number
+  entries: number[]
+  previous: number | null
+}
+
+/** The parts of a File Entry or Extended File Entry the parser uses. */
+interface UdfNode {
+  fileType: number
+  size: bigint
+  fragments: FileFragment[]
+  modifiedAt?: Date
+  createdAt?: Date
+}
+
+interface UdfFile {
+  name: string
+  folders: string[]
+  size: bigint
+  fragments: FileFragment[]
+  deleted: boolean
+  modifiedAt?: Date
+  createdAt?: Date
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Block sizes tried when looking for the anchor, most common first */
+const BLOCK_SIZES = [2048, 512, 4096, 1024]
+
+/** The anchor volume descriptor pointer is always recorded at block 256 */
+const ANCHOR_BLOCK = 256
+
+/** Descriptor tag identifiers */
+const TAG_PARTITION = 5
+const TAG_LOGICAL_VOLUME = 6
+const TAG_TERMINATOR = 8
+const TAG_ANCHOR = 2
+const TAG_FILE_SET = 256
+const TAG_FILE_IDENTIFIER = 257
+const TAG_ALLOCATION_EXTENT = 258
+const TAG_FILE_ENTRY = 261
+const TAG_EXTENDED_FILE_ENTRY = 266
+
+/** ICB file types */
+const FILE_TYPE_UNSPECIFIED = 0
+const FILE_TYPE_DIRECTORY = 4
+const FILE_TYPE_REGULAR = 5
+const FILE_TYPE_VAT = 248
+
+/** ICB tag flags: allocation descriptor type (low three bits) */
+const AD_SHORT = 0
+const AD_LONG = 1
+const AD_EXTENDED = 2
+const AD_EMBEDDED = 3
+
+/** Extent types (top two bits of the extent length) */
+const EXTENT_RECORDED = 0
+const EXTENT_NEXT = 3
+
+/** File characteristics of a File Identifier Descriptor */
+const FID_DIRECTORY = 0x02
+const FID_DELETED = 0x04
+const FID_PARENT = 0x08
+
+/** Length of a File Identifier Descriptor without its name and padding */
+const FID_HEADER = 38
+
+/** An unmapped VAT entry, and the end of the previous-VAT chain */
+const VAT_UNUSED = 0xffffffff
+
+/** Identifier recorded after the entries of a UDF 1.50 VAT */
+const VAT15_IDENTIFIER = '*UDF Virtual Alloc Tbl'
+
+/** Maximum bytes of the volume descriptor sequence to read */
+const MAX_SEQUENCE_BYTES = 64 * 2048
+
+/** Blocks searched back from the end of the image for the latest VAT */
+const MAX_VAT_SEARCH = 256
+
+/** Maximum VATs to follow back through older sessions */
+const MAX_VATS = 99
+
+/** Maximum bytes of one VAT to read (four bytes per virtual block) */
+const MAX_VAT_BYTES = 16 * 1024 * 1024
+
+/** Maximum bytes of one directory to read */
+const MAX_DIRECTORY_BYTES = 16 * 1024 * 1024
+
+/** Maximum directory nesting to follow, in case of cycles. */
+const MAX_DIRECTORY_DEPTH = 64
+
+/** Maximum file identifiers to read per tree (safety limit) */
+const MAX_ENTRIES = 1_000_000
+
+/** Maximum allocation extent descriptors followed for one file */
+const MAX_ALLOCATION_EXTENTS = 64
+
+// ─── Extension to FileType mapping ──────────────────────────────
+
+const EXTENSION_MAP: Record<string, { type: FileType; category: FileCategory }> = {
+  jpg: { type: 'jpeg', category: 'photo' },
+  jpeg: { type: 'jpeg', category: 'photo' },
+  png: { type: 'png', category: 'photo' },
+  heic: { type: 'heic', category: 'photo' },
+  cr2: { type: 'cr2', category: 'photo' },
+  nef: { type: 'nef', category: 'photo' },
+  arw: { type: 'arw', category: 'photo' },
+  mp4: { type: 'mp4', category: 'video' },
+  mov: { type: 'mov', category: 'video' },
+  avi: { type: 'avi', category: 'video' },
+  pdf: { type: 'pdf', category: 'document' },
+  docx: { type: 'docx', category: 'document' },
+  xlsx: { type: 'xlsx', category: 'document' },
+  rtf: { type: 'rtf', category: 'document' },
+  pptx: { type: 'pptx', category: 'document' },
+  gif: { type: 'gif', category: 'photo' },
+  webp: { type: 'webp', category: 'photo' },
+  psd: { type: 'psd', category: 'photo' },
+  mkv: { type: 'mkv', category: 'video' },
+  webm: { type: 'mkv', category: 'video' },
+  flv: { type: 'flv', category: 'video' },
+  wmv: { type: 'wmv', category: 'video' },
+  mp3: { type: 'mp3', category: 'audio' },
+  wav: { type: 'wav', category: 'audio' },
+  flac: { type: 'flac', category: 'audio' },
+  ogg: { type: 'ogg', category: 'audio' },
+  m4a: { type: 'm4a', category: 'audio' },
+  zip: { type: 'zip', category: 'archive' },
+  rar: { type: 'rar', category: 'archive' },
+  '7z': { type: '7z', category: 'archive' },
+  gz: { type: 'gz', category: 'archive' },
+  bz2: { type: 'bz2', category: 'archive' },
+  xz: { type: 'xz', category: 'archive' },
+  tar: { type: 'tar', category: 'archive' },
+  sqlite: { type: 'sqlite', category: 'database' },
+  db: { type: 'sqlite', category: 'database' },
+  dat: { type: 'bdb', category: 'database' },
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class UdfParser {
+  private reader: SourceReader
+
+  constructor(reader: SourceReader) {
+    this.reader = reader
+  }
+
+  async parse(): Promise<RecoverableFile[]> {
+    const volume = await this.readVolume()
+    if (!volume) return []
+
+    const files = new Map<string, UdfFile>()
+    const virtual = volume.maps.findIndex((map) => map?.kind === 'virtual')
+
+    if (virtual < 0) {
+      await this.walkTree(volume, files)
+    } else {
+      // Each VAT is a snapshot of the tree; the newest comes first
+      const seen = new Set<number>()
+      let vat = await this.findLatestVat(volume, virtual)
+      while (vat && seen.size < MAX_VATS && !seen.has(vat.block)) {
+        seen.add(vat.block)
+        volume.vat = vat.entries
+        await this.walkTree(volume, files)
+        vat = vat.previous === null ? null : await this.loadVat(volume, virtual, vat.previous)
+      }
+    }
+
+    return [...files.values()].map((file) => this.buildRecoverableFile(file))
+  }
+
+  // ─── Volume Descriptors ────────────────────────────────────
+
+  private async readVolume(): Promise<UdfVolume | null> {
+    for (const blockSize of BLOCK_SIZES) {
+      const anchor = await this.readBytes(BigInt(ANCHOR_BLOCK * blockSize), blockSize)
+      if (!anchor || !isTag(anchor, TAG_ANCHOR) || anchor.readUInt32LE(12) !== ANCHOR_BLOCK) continue
+
+      // Main sequence first, then the reserve copy
+      for (const extent of [16, 24]) {
+        const volume = await this.readDescriptorSequence(
+          blockSize,
+          anchor.readUInt32LE(extent + 4),
+          anchor.readUInt32LE(extent)
+        )
+        if (volume) return volume
+      }
+    }
+    return null
+  }
+
+  private async readDescriptorSequence(
+    blockSize: number,
+    location: number,
+    length: number
+  ): Promise<UdfVolume | null> {
+    const data = await this.readBytes(BigInt(location) * BigInt(blockSize), Math.min(length, MAX_SEQUENCE_BYTES))
+    if (!data) return null
+
+    const partitions = new Map<number, UdfPartition>()
+    let logicalVolume: Buffer | null = null
+
+    for (let pos = 0; pos + blockSize <= data.length; pos += blockSize) {
+      const descriptor = data.subarray(pos)
+      const tagId = descriptor.readUInt16LE(0)
+      if (!isTag(descriptor, tagId) || tagId === TAG_TERMINATOR) break
+
+      if (tagId === TAG_PARTITION) {
+        const number = descriptor.readUInt16LE(22)
+        if (!partitions.has(number)) partitions.set(number, { number, start: descriptor.readUInt32LE(188) })
+      } else if (tagId === TAG_LOGICAL_VOLUME && !logicalVolume) {
+        logicalVolume = descriptor
+      }
+    }
+    if (!logicalVolume || logicalVolume.readUInt32LE(212) !== blockSize) return null
+
+    const volume: UdfVolume = {
+      blockSize,
+      maps: this.readPartitionMaps(logicalVolume, partitions),
+      // File set descriptor: long_ad in the logical volume contents use
+      fileSet: { block: logicalVolume.readUInt32LE(252), partition: logicalVolume.readUInt16LE(256) },
+      vat: null,
+    }
+
+    for (const map of volume.maps) {
+      if (map?.kind === 'metadata') await this.loadMetadataFile(volume, map)
+    }
+
+    return volume
+  }
+
+  private readPartitionMaps(logicalVolume: Buffer, partitions: Map<number, UdfPartition>): (PartitionMap | null)[] {
+    const maps: (PartitionMap | null)[] = []
+    const count = logicalVolume.readUInt32LE(268)
+    let pos = 440
+
+    for (let i = 0; i < count && pos + 6 <= logicalVolume.length; i++) {
+      const type = logicalVolume[pos]
+      const length = logicalVolume[pos + 1]
+      if (length < 6 || pos + length > logicalVolume.length) break
+
+      let map: PartitionMap | null = null
+      if (type === 1) {
+        const partition = partitions.get(logicalVolume.readUInt16LE(pos + 4))
+        if (partition) map = { kind: 'physical', partition }
+      } else if (type === 2 && length >= 64) {
+        const identifier = logicalVolume.toString('latin1', pos + 5, pos + 28).replace(/\0+$/, '')
+        const partition = partitions.get(logicalVolume.readUInt16LE(pos + 38))
+        if (partition) {
+          if (identifier === '*UDF Virtual Partition') {
+            map = { kind: 'virtual', partition }
+          } else if (identifier === '*UDF Metadata Partition') {
+            map = { kind: 'metadata', partition, metadataFile: logicalVolume.readUInt32LE(pos + 40) }
+          } else {
+            map = { kind: 'physical', partition }
+          }
+        }
+      }
+
+      maps.push(map)
+      pos += length
+    }
+
+    return maps
+  }
+
+  /**
+   * UDF 2.50 keeps File Entries and directories in a metadata partition:
+   * the contents of a metadata file recorded in the physical partition.
+   */
+  private async loadMetadataFile(volume: UdfVolume, map: PartitionMap): Promise<void> {
+    const physical = this.physicalReference(volume, map.partition)
+    if (physical < 0 || map.metadataFile === undefined) return
+    const node = await this.readNode(volume, { block: map.metadataFile, partition: physical })
+    if (node) map.metadataExtents = node.fragments
+  }
+
+  // ─── Virtual Allocation Tables ─────────────────────────────
+
+  /** The latest VAT's File Entry is the last block recorded. */
+  private async findLatestVat(volume: UdfVolume, virtual: number): Promise<VirtualAllocationTable | null> {
+    const last = Number(this.reader.size / BigInt(volume.blockSize)) - 1
+    for (let block = last; block >= 0 && block > last - MAX_VAT_SEARCH; block--) {
+      const vat = await this.loadVat(volume, virtual, block)
+      if (vat) return vat
+    }
+    return null
+  }
+
+  /**
+   * Read the VAT whose File Entry is at an absolute block. UDF 2.x
+   * records it as its own file type with a header; UDF 1.50 as a plain
+   * file ending in an identifier and the previous VAT's location. Older
+   * VAT locations are taken as blocks of the underlying physical partition.
+   */
+  private async loadVat(volume: UdfVolume, virtual: number, block: number): Promise<VirtualAllocationTable | null> {
+    const partition = volume.maps[virtual]!.partition
+    const physical = this.physicalReference(volume, partition)
+    if (physical < 0 || block < partition.start) return null
+
+    const node = await this.readNode(volume, { block: block - partition.start, partition: physical })
+    if (!node) return null
+    if (node.fileType !== FILE_TYPE_VAT && node.fileType !== FILE_TYPE_UNSPECIFIED) return null
+
+    const data = await this.readFileData(node, MAX_VAT_BYTES)
+    let entries: Buffer
+    let previous: number
+
+    if (node.fileType === FILE_TYPE_VAT) {
+      if (data.length < 152) return null
+      entries = data.subarray(data.readUInt16LE(0))
+      previous = data.readUInt32LE(132)
+    } else {
+      const trailer = data.length - 36
+      if (trailer < 0 || data.toString('latin1', trailer + 1, trailer + 1 + VAT15_IDENTIFIER.length) !== VAT15_IDENTIFIER) {
+        return null
+      }
+      entries = data.subarray(0, trailer)
+      previous = data.readUInt32LE(trailer + 32)
+    }
+
+    const table: number[] = []
+    for (let pos = 0; pos + 4 <= entries.length; pos += 4) table.push(entries.readUInt32LE(pos))
+
+    return {
+      block,
+      entries: table,
+      previous: previous === VAT_UNUSED ? null : partition.start + previous,
+    }
+  }
+
+  // ─── Directory Tree ────────────────────────────────────────
+
+  /** Walk the tree breadth-first from the root, adding files not seen yet. */
+  private async walkTree(volume: UdfVolume, files: Map<string, UdfFile>): Promise<void> {
+    const fileSetOffset = this.resolve(volume, volume.fileSet)
+    if (fileSetOffset === null) return
+    const fileSet = await this.readBytes(fileSetOffset, volume.blockSize)
+    if (!fileSet || !isTag(fileSet, TAG_FILE_SET)) return
+
+    const root = { block: fileSet.readUInt32LE(404), partition: fileSet.readUInt16LE(408) }
+    const queue = [{ icb: root, folders: [] as string[], deleted: false }]
+    const visited = new Set<string>()
+    let entries = 0
+
+    while (queue.length > 0 && entries < MAX_ENTRIES) {
+      const dir = queue.shift()!
+      const key = `${dir.icb.partition}:${dir.icb.block}`
+      if (visited.has(key) || dir.folders.length > MAX_DIRECTORY_DEPTH) continue
+      visited.add(key)
+
+      const node = await this.readNode(volume, dir.icb)
+      if (!node || node.fileType !== FILE_TYPE_DIRECTORY) continue
+      const data = await this.readFileData(node, MAX_DIRECTORY_BYTES)
+
+      let pos = 0
+      while (pos + FID_HEADER <= data.length && entries < MAX_ENTRIES) {
+        const identifier = data.subarray(pos)
+        if (!isTag(identifier, TAG_FILE_IDENTIFIER)) break
+        entries++
+
+        const characteristics = identifier[18]
+        const nameLength = identifier[19]
+        const icb = { block: identifier.readUInt32LE(24), partition: identifier.readUInt16LE(28) }
+        const nameStart = FID_HEADER + identifier.readUInt16LE(36)
+        const name = decodeCs0(identifier.subarray(nameStart, nameStart + nameLength))
+        // Descriptors are padded to a multiple of four bytes
+        pos += (nameStart + nameLength + 3) & ~3
+
+        if (characteristics & FID_PARENT || !name) continue
+        // A strict deleter zeroes the ICB as well
+        if (icb.block === 0 && icb.partition === 0 && characteristics & FID_DELETED) continue
+
+        const deleted = dir.deleted || (characteristics & FID_DELETED) !== 0
+        if (characteristics & FID_DIRECTORY) {
+          queue.push({ icb, folders: [...dir.folders, name], deleted })
+        } else {
+          await this.addFile(volume, files, icb, name, dir.folders, deleted)
+        }
+      }
+    }
+  }
+
+  private async addFile(
+    volume: UdfVolume,
+    files: Map<string, UdfFile>,
+    icb: LogicalAddress,
+    name: string,
+    folders: string[],
+    deleted: boolean
+  ): Promise<void> {
+    const node = await this.readNode(volume, icb)
+    if (!node || node.fileType !== FILE_TYPE_REGULAR || node.size === 0n) return
+
+    // Files are keyed by their data, so a file every session lists once
+    // keeps the newest path; a live copy wins over a deleted one
+    const key = node.fragments.map((f) => (f.sparse ? `~${f.size}` : `${f.offset}+${f.size}`)).join(',')
+    const existing = files.get(key)
+    if (existing && (deleted || !existing.deleted)) return
+
+    files.set(key, {
+      name,
+      folders,
+      size: node.size,
+      fragments: node.fragments,
+      deleted,
+      modifiedAt: node.modifiedAt,
+      createdAt: node.createdAt,
+    })
+  }
+
+  // ─── File Entries ──────────────────────────────────────────
+
+  /** Read a File Entry or Extended File Entry and map its extents. */
+  private async readNode(volume: UdfVolume, address: LogicalAddress): Promise<UdfNode | null> {
+    const offset = this.resolve(volume, address)
+    if (offset === null) return null
+    const entry = await this.readBytes(offset, volume.blockSize)
+    if (!entry || entry.length < 176) return null
+
+    const tagId = entry.readUInt16LE(0)
+    if (tagId !== TAG_FILE_ENTRY && tagId !== TAG_EXTENDED_FILE_ENTRY) return null
+    if (!isTag(entry, tagId) || entry.readUInt32LE(12) !== address.block) return null
+
+    const extended = tagId === TAG_EXTENDED_FILE_ENTRY
+    const header = extended ? 216 : 176
+    const eaLength = entry.readUInt32LE(header - 8)
+    const adLength = entry.readUInt32LE(header - 4)
+    const adStart = header + eaLength
+    if (adStart + adLength > entry.length) return null
+
+    const size = entry.readBigUInt64LE(56)
+    const adType = entry.readUInt16LE(34) & 0x07
+
+    let fragments: FileFragment[]
+    if (adType === AD_EMBEDDED) {
+      // Small files live in the entry itself
+      fragments = [{ offset: offset + BigInt(adStart), size: BigInt(Math.min(adLength, Number(size))) }]
+    } else {
+      const extents = await this.readAllocation(volume, entry.subarray(adStart, adStart + adLength), adType, address.partition)
+      fragments = trimFragments(extents, size)
+    }
+
+    return {
+      fileType: entry[27],
+      size,
+      fragments,
+      modifiedAt: parseTimestamp(entry, extended ? 92 : 84),
+      createdAt: extended ? parseTimestamp(entry, 104) : undefined,
+    }
+  }
+
+  /**
+   * Map allocation descriptors to absolute byte ranges, following
+   * allocation extent descriptors when the list goes on elsewhere.
+   * Short descriptors are relative to the entry's own partition.
+   */
+  private async readAllocation(
+    volume: UdfVolume,
+    descriptors: Buffer,
+    adType: number,
+    partition: number
+  ): Promise<FileFragment[]> {
+    const size = adType === AD_SHORT ? 8 : adType === AD_LONG ? 16 : adType === AD_EXTENDED ? 20 : 0
+    if (size === 0) return []
+
+    const fragments: FileFragment[] = []
+    let area: Buffer | null = descriptors
+    let continuations = 0
+
+    while (area) {
+      let next: Buffer | null = null
+
+      for (let pos = 0; pos + size <= area.length; pos += size) {
+        const raw = area.readUInt32LE(pos)
+        const length = raw & 0x3fffffff
+        const type = raw >>> 30
+        if (length === 0) break
+
+        const address: LogicalAddress = adType === AD_SHORT
+          ? { block: area.readUInt32LE(pos + 4), partition }
+          : adType === AD_LONG
+            ? { block: area.readUInt32LE(pos + 4), partition: area.readUInt16LE(pos + 8) }
+            : { block: area.readUInt32LE(pos + 12), partition: area.readUInt16LE(pos + 16) }
+
+        if (type === EXTENT_NEXT) {
+          if (continuations++ >= MAX_ALLOCATION_EXTENTS) break
+          const offset = this.resolve(volume, address)
+          const extent = offset === null ? null : await this.readBytes(offset, volume.blockSize)
+          if (extent && isTag(extent, TAG_ALLOCATION_EXTENT)) {
+            next = extent.subarray(24, 24 + extent.readUInt32LE(20))
+          }
+          break
+        }
+
+        const offset = type === EXTENT_RECORDED ? this.resolve(volume, address) : null
+        fragments.push(offset === null
+          ? { offset: 0n, size: BigInt(length), sparse: true }
+          : { offset, size: BigInt(length) })
+      }
+
+      area = next
+    }
+
+    return fragments
+  }
+
+  private async readFileData(node: UdfNode, maxBytes: number): Promise<Buffer> {
+    const parts: Buffer[] = []
+    let total = 0
+
+    for (const fragment of node.fragments) {
+      if (total >= maxBytes) break
+      const length = Math.min(Number(fragment.size), maxBytes - total)
+      const data = fragment.sparse
+        ? Buffer.alloc(length)
+        : await this.readBytes(fragment.offset, length)
+      if (!data) break
+      parts.push(data)
+      total += data.length
+      if (data.length < length) break
+    }
+
+    return Buffer.concat(parts)
+  }
+
+  // ─── Address Translation ───────────────────────────────────
+
+  /**
+   * Absolute byte offset of a logical block. Only the extent's first
+   * block is translated: extents are contiguous on the physical partition.
+   */
+  private resolve(volume: UdfVolume, address: LogicalAddress): bigint | null {
+    const map = volume.maps[address.partition]
+    if (!map) return null
+    const blockSize = BigInt(volume.blockSize)
+
+    switch (map.kind) {
+      case 'physical':
+        return BigInt(map.partition.start + address.block) * blockSize
+      case 'virtual': {
+        const physical = volume.vat?.[address.block]
+        if (physical === undefined || physical === VAT_UNUSED) return null
+        return BigInt(map.partition.start + physical) * blockSize
+      }
+      case 'metadata': {
+        let offset = BigInt(address.block) * blockSize
+        for (const extent of map.metadataExtents ?? []) {
+          if (offset < extent.size) return extent.sparse ? null : extent.offset + offset
+          offset -= extent.size
+        }
+        return null
+      }
+    }
+  }
+
+  /** Reference of the physical map for a partition, or -1. */
+  private physicalReference(volume: UdfVolume, partition: UdfPartition): number {
+    return volume.maps.findIndex((map) => map?.kind === 'physical' && map.partition.number === partition.number)
+  }
+
+  // ─── Result Building ───────────────────────────────────────
+
+  private buildRecoverableFile(file: UdfFile): RecoverableFile {
+    const dotIndex = file.name.lastIndexOf('.')
+    const extension = dotIndex >= 0 ? file.name.substring(dotIndex + 1).toLowerCase() : ''
+    const mapping = EXTENSION_MAP[extension]
+
+    // A deleted file's blocks are free for reuse
+    let recoverability: 'good' | 'partial' | 'poor' = file.deleted ? 'partial' : 'good'
+    for (const fragment of file.fragments) {
+      if (fragment.sparse) continue
+      if (fragment.offset >= this.reader.size) recoverability = 'poor'
+      else if (fragment.offset + fragment.size > this.reader.size && recoverability === 'good') recoverability = 'partial'
+    }
+
+    const firstStored = file.fragments.find((f) => !f.sparse)
+
+    return {
+      id: randomUUID(),
+      type: mapping?.type ?? 'jpeg',
+      category: mapping?.category ?? 'photo',
+      offset: firstStored?.offset ?? 0n,
+      size: file.size,
+      sizeEstimated: false,
+      name: file.name,
+      extension: extension || 'bin',
+      recoverability,
+      source: 'metadata',
+      fragments: file.fragments,
+      location: { folders: file.folders, orphaned: false },
+      metadata: {
+        originalName: file.name,
+        createdAt: file.createdAt,
+        modifiedAt: file.modifiedAt,
+      },
+    }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private async readBytes(offset: bigint, length: number): Promise<Buffer | null> {
+    if (length <= 0 || offset >= this.reader.size) return null
+    try {
+      return await this.reader.read(offset, length)
+    } catch {
+      return null
+    }
+  }
+}
+
+// ─── Descriptor Helpers ─────────────────────────────────────────
+
+/** Check a descriptor tag's identifier and header checksum. */
+function isTag(buf: Buffer, id: number): boolean {
+  if (buf.length < 16 || buf.readUInt16LE(0) !== id) return false
+  let sum = 0
+  for (let i = 0; i < 16; i++) {
+    if (i !== 4) sum += buf[i]
+  }
+  return (sum & 0xff) === buf[4]
+}
+
+/** OSTA compressed Unicode: 8-bit or big-endian 16-bit characters. */
+function decodeCs0(bytes: Buffer): string {
+  if (bytes.length < 2) return ''
+  if (bytes[0] === 8) return bytes.toString('latin1', 1)
+  if (bytes[0] !== 16) return ''
+
+  const chars = Buffer.from(bytes.subarray(1, 1 + ((bytes.length - 1) & ~1)))
+  chars.swap16()
+  return chars.toString('utf16le')
+}
+
+/** Cut the extent list down to the file's information length. */
+function trimFragments(extents: FileFragment[], size: bigint): FileFragment[] {
+  const fragments: FileFragment[] = []
+  let remaining = size
+
+  for (const extent of extents) {
+    if (remaining <= 0n) break
+    const length = extent.size < remaining ? extent.size : remaining
+    fragments.push({ ...extent, size: length })
+    remaining -= length
+  }
+
+  return fragments
+}
+
+/**
+ * ECMA-167 timestamp: type and time zone (minutes from UTC in the low
+ * twelve bits, -2047 when unspecified), then year, month, day, hour,
+ * minute, second and centiseconds.
+ */
+function parseTimestamp(buf: Buffer, offset: number): Date | undefined {
+  if (offset + 12 > buf.length) return undefined
+  const year = buf.readUInt16LE(offset + 2)
+  if (year === 0) return undefined
+
+  const typeAndZone = buf.readUInt16LE(offset)
+  let zone = typeAndZone & 0x0fff
+  if (zone & 0x0800) zone -= 0x1000
+
+  const utc = Date.UTC(year, buf[offset + 4] - 1, buf[offset + 5], buf[offset + 6], buf[offset + 7], buf[offset + 8], buf[offset + 9] * 10)
+  return new Date(zone === -2047 ? utc : utc - zone * 60_000)
+}
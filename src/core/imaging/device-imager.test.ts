@@ -0,0 +1,144 @@
+import { mkdtemp, open, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { DeviceImager } from './device-imager'
+import { RescueMap, readMapfile } from './mapfile'
+import { BlockReader, BlockReaderError } from '../io/block-reader'
+import type { ReadResult } from '../io/block-reader'
+
+const SECTOR = 512
+const DEVICE_SECTORS = 64
+const CLUSTER = 8 * SECTOR
+
+/** Sectors 20 and 21 cannot be read */
+const BAD_START = 20n * 512n
+const BAD_END = 22n * 512n
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'imager-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+/**
+ * A device with a bad area. Every read start is recorded, and `onRead`
+ * runs before each one so a test can stop the job mid-pass.
+ */
+class FailingDevice extends BlockReader {
+  reads: bigint[] = []
+  onRead: () => void = () => {}
+
+  override async tryRead(offset: bigint, length: number): Promise<ReadResult> {
+    this.check(offset, length)
+    return super.tryRead(offset, length)
+  }
+
+  override async readAt(offset: bigint, length: number): Promise<ReadResult> {
+    this.check(offset, length)
+    return super.readAt(offset, length)
+  }
+
+  private check(offset: bigint, length: number): void {
+    this.reads.push(offset)
+    this.onRead()
+    if (offset < BAD_END && offset + BigInt(length) > BAD_START) {
+      throw new BlockReaderError(`Read of ${length} bytes at offset ${offset} failed`, 'READ_FAILED')
+    }
+  }
+}
+
+/** Every sector holds its own number, so misplaced data shows. */
+function deviceContents(): Buffer {
+  const data = Buffer.alloc(DEVICE_SECTORS * SECTOR)
+  for (let s = 0; s < DEVICE_SECTORS; s++) data.fill(s + 1, s * SECTOR, (s + 1) * SECTOR)
+  return data
+}
+
+async function openDevice(path: string): Promise<FailingDevice> {
+  const device = new FailingDevice()
+  await device.open(path)
+  return device
+}
+
+/** One imaging run into `imagePath`, as the imaging worker does it. */
+async function image(device: FailingDevice, imagePath: string, mapfilePath: string, map: RescueMap, resumed: boolean): Promise<void> {
+  const output = await open(imagePath, resumed ? 'r+' : 'w+')
+  try {
+    await output.truncate(Number(map.size))
+    const imager = new DeviceImager(device, output, map, { clusterSize: CLUSTER, mapfilePath, resumed })
+    if (!resumed) {
+      // Stop after the third cluster read, the one that hits the bad area
+      device.onRead = () => {
+        if (device.reads.length === 3) imager.cancel()
+      }
+    }
+    await imager.run()
+  } finally {
+    await output.close()
+  }
+}
+
+describe('DeviceImager', () => {
+  it('resumes a cancelled job from its map file and keeps the bad area', async () => {
+    const source = deviceContents()
+    const devicePath = join(dir, 'device.img')
+    const imagePath = join(dir, 'copy.img')
+    const mapfilePath = join(dir, 'copy.map')
+    await writeFile(devicePath, source)
+    const size = BigInt(source.length)
+
+    const first = await openDevice(devicePath)
+    await image(first, imagePath, mapfilePath, new RescueMap(size), false)
+    await first.close()
+
+    // The failed cluster is non-trimmed and the one after it was skipped
+    const saved = await readMapfile(mapfilePath, size)
+    expect(saved?.currentPhase).toBe('?')
+    expect(saved?.currentPos).toBe(4n * BigInt(CLUSTER))
+    expect(saved?.blocks).toEqual([
+      { pos: 0n, size: 2n * BigInt(CLUSTER), status: '+' },
+      { pos: 2n * BigInt(CLUSTER), size: BigInt(CLUSTER), status: '*' },
+      { pos: 3n * BigInt(CLUSTER), size: size - 3n * BigInt(CLUSTER), status: '?' }
+    ])
+
+    const second = await openDevice(devicePath)
+    await image(second, imagePath, mapfilePath, saved!, true)
+    await second.close()
+
+    // Nothing rescued in the first run is read again
+    expect(second.reads.every((offset) => offset >= 2n * BigInt(CLUSTER))).toBe(true)
+
+    const finished = await readMapfile(mapfilePath, size)
+    expect(finished?.currentPhase).toBe('+')
+    expect(finished?.blocks).toEqual([
+      { pos: 0n, size: BAD_START, status: '+' },
+      { pos: BAD_START, size: BAD_END - BAD_START, status: '-' },
+      { pos: BAD_END, size: size - BAD_END, status: '+' }
+    ])
+
+    const expected = Buffer.from(source)
+    expected.fill(0, Number(BAD_START), Number(BAD_END))
+    expect((await readFile(imagePath)).equals(expected)).toBe(true)
+  })
+
+  it('reads a saved map with bad areas back as it was written', () => {
+    const map = new RescueMap(1n << 32n)
+    map.mark(0n, 0x10000n, '+')
+    map.mark(0x10000n, 0x400n, '-')
+    map.mark(0x10400n, 0x1fc00n, '/')
+    map.currentPos = 0x10400n
+    map.currentPhase = '/'
+    map.currentPass = 1
+
+    const reloaded = RescueMap.parse(map.toString(['Source: /dev/sdz']), map.size)
+
+    expect(reloaded.blocks).toEqual(map.blocks)
+    expect([reloaded.currentPos, reloaded.currentPhase, reloaded.currentPass]).toEqual([0x10400n, '/', 1])
+    expect(reloaded.totals()['-']).toBe(0x400n)
+  })
+})
@@ -0,0 +1,444 @@
+/**
+ * DeviceImager - ddrescue-style imaging of a failing device.
+ *
+ * Copies a device to a raw image file while reading every area as few
+ * times as possible, in the same order GNU ddrescue uses:
+ *
+ *   1. Copying  - read large clusters with no retries, skipping ahead
+ *                 (exponentially) after each error; a second copying pass
+ *                 then reads the areas that were skipped.
+ *   2. Trimming - for each failed cluster, read sector by sector inwards
+ *                 from both edges until the first error on each side.
+ *   3. Scraping - read the remaining untrimmed middle sector by sector.
+ *   4. Retrying - optionally re-read bad sectors with full retries.
+ *
+ * The state of every byte lives in a {@link RescueMap} that is saved
+ * periodically as a GNU ddrescue-compatible map file, so a stopped job
+ * resumes where it left off and unreadable areas are never re-read
+ * needlessly.
+ *
+ * Events:
+ *   - 'progress' : ImagingProgress - Periodic progress updates.
+ *   - 'complete' : { cancelled: boolean; progress: ImagingProgress }
+ */
+
+import { EventEmitter } from 'events'
+import type { FileHandle } from 'node:fs/promises'
+
+import { BlockReader } from '../io/block-reader'
+import { RescueMap, writeMapfile } from './mapfile'
+import type { BlockStatus, MapPhase } from './mapfile'
+import type { ImagingPhase, ImagingProgress } from '../../shared/types'
+import { SECTOR_SIZE } from '../../shared/constants/file-signatures'
+
+// ─── Types ─────────────────────────────────────────────────────
+
+export interface DeviceImagerOptions {
+  /** Bytes read per attempt in the copying passes. Default: 64 KiB. */
+  clusterSize?: number
+  /** Number of retry passes over bad sectors. Default: 0. */
+  retryPasses?: number
+  /** Where to persist the rescue map. Not persisted when omitted. */
+  mapfilePath?: string
+  /** Minimum interval between periodic map saves. Default: 30 s. */
+  saveIntervalMs?: number
+  /** Whether the map was loaded from an earlier run. */
+  resumed?: boolean
+}
+
+export interface DeviceImagerEvents {
+  progress: [ImagingProgress]
+  complete: [{ cancelled: boolean; progress: ImagingProgress }]
+}
+
+// ─── Constants ─────────────────────────────────────────────────
+
+const DEFAULT_CLUSTER_SIZE = 64 * 1024
+const DEFAULT_SAVE_INTERVAL_MS = 30_000
+const PROGRESS_INTERVAL_MS = 250
+
+/** Largest skip after a read error during the first copying pass. */
+const MAX_SKIP_SIZE = 1024n * 1024n * 1024n
+
+const SECTOR_SIZE_BIG = BigInt(SECTOR_SIZE)
+
+/** Map file status character for each phase. */
+const PHASE_STATUS: Record<ImagingPhase, MapPhase> = {
+  copying: '?',
+  trimming: '*',
+  scraping: '/',
+  retrying: '-',
+  finished: '+'
+}
+
+// ─── DeviceImager ──────────────────────────────────────────────
+
+export class DeviceImager extends EventEmitter {
+  private readonly reader: BlockReader
+  private readonly output: FileHandle
+  private readonly map: RescueMap
+  private readonly clusterSize: number
+  private readonly retryPasses: number
+  private readonly mapfilePath?: string
+  private readonly saveIntervalMs: number
+  private readonly resumed: boolean
+
+  private status: 'idle' | 'imaging' | 'paused' | 'cancelled' = 'idle'
+  private pausePromise: Promise<void> | null = null
+  private pauseResolve: (() => void) | null = null
+
+  private phase: ImagingPhase = 'copying'
+  private pass = 1
+  private lastSave = 0
+  private lastProgress = 0
+  private rateWindowStart = 0
+  private rateWindowBytes = 0n
+  private readRate = 0
+
+  constructor(reader: BlockReader, output: FileHandle, map: RescueMap, options: DeviceImagerOptions = {}) {
+    super()
+    this.reader = reader
+    this.output = output
+    this.map = map
+    this.clusterSize = Math.max(SECTOR_SIZE, options.clusterSize ?? DEFAULT_CLUSTER_SIZE)
+    this.retryPasses = options.retryPasses ?? 0
+    this.mapfilePath = options.mapfilePath
+    this.saveIntervalMs = options.saveIntervalMs ?? DEFAULT_SAVE_INTERVAL_MS
+    this.resumed = options.resumed ?? false
+  }
+
+  // ── Public API ──────────────────────────────────────────
+
+  /**
+   * Run all passes until the device is fully imaged, every remaining
+   * area is known bad, or the job is cancelled.
+   *
+   * Write errors on the destination are fatal and rethrown; the map is
+   * saved first so no completed work is lost.
+   */
+  async run(): Promise<void> {
+    if (this.status !== 'idle') {
+      throw new Error('Imaging is already in progress')
+    }
+    this.status = 'imaging'
+    this.lastSave = Date.now()
+    this.rateWindowStart = Date.now()
+
+    try {
+      // Resuming mid-copy continues from the saved position; everything
+      // before it is picked up by the second copying pass.
+      const resumeFrom = this.map.currentPhase === '?' ? this.map.currentPos : 0n
+
+      await this.runPhase('copying', 1, () => this.copyPass(resumeFrom, true))
+      await this.runPhase('copying', 2, () => this.copyPass(0n, false))
+      await this.runPhase('trimming', 1, () => this.trimPass())
+      await this.runPhase('scraping', 1, () => this.sectorPass('/', false))
+      for (let pass = 1; pass <= this.retryPasses; pass++) {
+        await this.runPhase('retrying', pass, () => this.sectorPass('-', true))
+      }
+
+      if (!this.isCancelled()) {
+        this.setPhase('finished', 1)
+      }
+    } finally {
+      await this.saveMap()
+    }
+
+    const cancelled = this.isCancelled()
+    this.status = 'idle'
+    const progress = this.buildProgress()
+    this.emit('progress', progress)
+    this.emit('complete', { cancelled, progress })
+  }
+
+  /**
+   * Pause imaging. The job blocks before its next read until
+   * {@link resume} is called; the map is saved while paused.
+   */
+  pause(): void {
+    if (this.status !== 'imaging') return
+
+    this.status = 'paused'
+    this.pausePromise = new Promise<void>(resolve => {
+      this.pauseResolve = resolve
+    })
+  }
+
+  /**
+   * Resume paused imaging.
+   */
+  resume(): void {
+    if (this.status !== 'paused') return
+
+    this.status = 'imaging'
+    if (this.pauseResolve) {
+      this.pauseResolve()
+      this.pauseResolve = null
+      this.pausePromise = null
+    }
+  }
+
+  /**
+   * Stop imaging. The map is saved so the job can be resumed later.
+   */
+  cancel(): void {
+    if (this.status === 'idle') return
+
+    this.status = 'cancelled'
+
+    // If paused, unblock the wait so the loop can exit.
+    if (this.pauseResolve) {
+      this.pauseResolve()
+      this.pauseResolve = null
+      this.pausePromise = null
+    }
+  }
+
+  // ── Passes ──────────────────────────────────────────────
+
+  /**
+   * Copy non-tried areas cluster by cluster. Failed clusters become
+   * non-trimmed; with `skipping`, the area after a failure is left
+   * non-tried for the next pass, doubling the skip on consecutive errors.
+   */
+  private async copyPass(from: bigint, skipping: boolean): Promise<void> {
+    let pos = from
+    let skip = BigInt(this.clusterSize)
+    const maxSkip = this.maxSkipSize()
+
+    for (let block = this.map.nextBlock('?', pos); block; block = this.map.nextBlock('?', pos)) {
+      if (!(await this.checkpoint(block.pos))) return
+
+      const length = block.size < BigInt(this.clusterSize) ? Number(block.size) : this.clusterSize
+      const data = await this.tryRead(block.pos, length)
+
+      if (data && data.length > 0) {
+        await this.rescue(block.pos, data)
+        pos = block.pos + BigInt(data.length)
+        skip = BigInt(this.clusterSize)
+      } else {
+        this.map.mark(block.pos, BigInt(length), '*')
+        pos = block.pos + BigInt(length)
+        if (skipping) {
+          pos += skip
+          skip = skip * 2n > maxSkip ? maxSkip : skip * 2n
+        }
+      }
+    }
+  }
+
+  /**
+   * Trim each non-trimmed area from both edges, sector by sector, up to
+   * the first failure on each side. What remains in the middle is left
+   * for scraping.
+   */
+  private async trimPass(): Promise<void> {
+    let pos = 0n
+
+    for (let block = this.map.nextBlock('*', pos); block; block = this.map.nextBlock('*', pos)) {
+      let lo = block.pos
+      let hi = block.pos + block.size
+      pos = hi
+
+      // Leading edge.
+      while (lo < hi) {
+        if (!(await this.checkpoint(lo))) return
+        const length = this.sectorLength(lo, hi)
+        const data = await this.tryRead(lo, length)
+        if (data && data.length === length) {
+          await this.rescue(lo, data)
+          lo += BigInt(length)
+        } else {
+          this.map.mark(lo, BigInt(length), '-')
+          lo += BigInt(length)
+          break
+        }
+      }
+
+      // Trailing edge.
+      while (hi > lo) {
+        if (!(await this.checkpoint(hi))) return
+        const start = this.sectorStartBefore(hi, lo)
+        const length = Number(hi - start)
+        const data = await this.tryRead(start, length)
+        if (data && data.length === length) {
+          await this.rescue(start, data)
+          hi = start
+        } else {
+          this.map.mark(start, BigInt(length), '-')
+          hi = start
+          break
+        }
+      }
+
+      if (hi > lo) this.map.mark(lo, hi - lo, '/')
+    }
+  }
+
+  /**
+   * Read every sector of the areas with `status` one at a time. Scraping
+   * uses single attempts; retry passes go through the reader's full
+   * retry-with-backoff path.
+   */
+  private async sectorPass(status: BlockStatus, withRetries: boolean): Promise<void> {
+    let pos = 0n
+
+    for (let block = this.map.nextBlock(status, pos); block; block = this.map.nextBlock(status, pos)) {
+      const end = block.pos + block.size
+      for (let sector = block.pos; sector < end;) {
+        if (!(await this.checkpoint(sector))) return
+        const length = this.sectorLength(sector, end)
+        const data = withRetries
+          ? await this.readWithRetries(sector, length)
+          : await this.tryRead(sector, length)
+
+        if (data && data.length === length) {
+          await this.rescue(sector, data)
+        } else {
+          this.map.mark(sector, BigInt(length), '-')
+        }
+        sector += BigInt(length)
+      }
+      pos = end
+    }
+  }
+
+  // ── Private ─────────────────────────────────────────────
+
+  /** Read through a method so checks after an await are not narrowed away. */
+  private isCancelled(): boolean {
+    return this.status === 'cancelled'
+  }
+
+  private async runPhase(phase: ImagingPhase, pass: number, body: () => Promise<void>): Promise<void> {
+    if (this.isCancelled()) return
+    this.setPhase(phase, pass)
+    await body()
+    await this.saveMap()
+  }
+
+  private setPhase(phase: ImagingPhase, pass: number): void {
+    this.phase = phase
+    this.pass = pass
+    this.map.currentPhase = PHASE_STATUS[phase]
+    this.map.currentPass = pass
+    this.emitProgress(true)
+  }
+
+  /**
+   * Called before every read: honours pause/cancel, saves the map on
+   * schedule and emits throttled progress.
+   *
+   * @returns false if the job was cancelled.
+   */
+  private async checkpoint(position: bigint): Promise<boolean> {
+    this.map.currentPos = position
+
+    if (this.status === 'paused') {
+      await this.saveMap()
+      this.emitProgress(true)
+      if (this.pausePromise) await this.pausePromise
+    }
+    if (this.isCancelled()) return false
+
+    if (Date.now() - this.lastSave >= this.saveIntervalMs) {
+      await this.saveMap()
+    }
+    this.emitProgress(false)
+    return true
+  }
+
+  private async tryRead(offset: bigint, length: number): Promise<Buffer | null> {
+    try {
+      return (await this.reader.tryRead(offset, length)).buffer
+    } catch {
+      return null
+    }
+  }
+
+  private async readWithRetries(offset: bigint, length: number): Promise<Buffer | null> {
+    try {
+      return (await this.reader.readAt(offset, length)).buffer
+    } catch {
+      return null
+    }
+  }
+
+  /** Write rescued data to the image and mark it finished. */
+  private async rescue(offset: bigint, data: Buffer): Promise<void> {
+    try {
+      await this.output.write(data, 0, data.length, Number(offset))
+    } catch (err) {
+      throw new Error(
+        `Failed to write image at offset ${offset}: ${err instanceof Error ? err.message : String(err)}`
+      )
+    }
+    this.map.mark(offset, BigInt(data.length), '+')
+    this.rateWindowBytes += BigInt(data.length)
+  }
+
+  private async saveMap(): Promise<void> {
+    this.lastSave = Date.now()
+    if (!this.mapfilePath) return
+    await writeMapfile(this.mapfilePath, this.map, [
+      `Source: ${this.reader.path}`,
+      `Current time: ${new Date().toISOString()}`
+    ])
+  }
+
+  private emitProgress(force: boolean): void {
+    const now = Date.now()
+    if (!force && now - this.lastProgress < PROGRESS_INTERVAL_MS) return
+    this.lastProgress = now
+
+    const windowMs = now - this.rateWindowStart
+    if (windowMs >= 1000) {
+      this.readRate = Math.round((Number(this.rateWindowBytes) * 1000) / windowMs)
+      this.rateWindowStart = now
+      this.rateWindowBytes = 0n
+    }
+
+    this.emit('progress', this.buildProgress())
+  }
+
+  private buildProgress(): ImagingProgress {
+    const totals = this.map.totals()
+    const totalBytes = this.map.size
+
+    return {
+      phase: this.phase,
+      pass: this.pass,
+      currentPosition: this.map.currentPos,
+      totalBytes,
+      rescuedBytes: totals['+'],
+      nonTriedBytes: totals['?'],
+      nonTrimmedBytes: totals['*'],
+      nonScrapedBytes: totals['/'],
+      badBytes: totals['-'],
+      badAreas: this.map.count('-'),
+      percentage: totalBytes > 0n ? Number((totals['+'] * 10000n) / totalBytes) / 100 : 100,
+      readRate: this.readRate,
+      resumed: this.resumed
+    }
+  }
+
+  /** ddrescue caps the skip at 1 GiB or 1% of the device, whichever is smaller. */
+  private maxSkipSize(): bigint {
+    const onePercent = this.map.size / 100n
+    const cap = onePercent < MAX_SKIP_SIZE ? onePercent : MAX_SKIP_SIZE
+    return cap > BigInt(this.clusterSize) ? cap : BigInt(this.clusterSize)
+  }
+
+  /** Length of the sector starting at `pos`, clipped to `end`. */
+  private sectorLength(pos: bigint, end: bigint): number {
+    const next = pos - (pos % SECTOR_SIZE_BIG) + SECTOR_SIZE_BIG
+    return Number((next < end ? next : end) - pos)
+  }
+
+  /** Start of the sector ending at `end`, clipped to `floor`. */
+  private sectorStartBefore(end: bigint, floor: bigint): bigint {
+    const remainder = end % SECTOR_SIZE_BIG
+    const start = end - (remainder === 0n ? SECTOR_SIZE_BIG : remainder)
+    return start > floor ? start : floor
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Rescue Map - GNU ddrescue-compatible map file.
+ *
+ * Tracks the state of every byte range of a device being imaged so an
+ * interrupted job can resume exactly where it stopped, and so the map can
+ * be handed to (or taken from) GNU ddrescue itself.
+ *
+ * File format (comments start with '#'):
+ *
+ *   # current_pos  current_status  current_pass
+ *   0x00120000     ?               1
+ *   #      pos        size  status
+ *   0x00000000  0x00120000  +
+ *   0x00120000  0x0FEE0000  ?
+ *
+ * Block status characters:
+ *   '?' non-tried     '*' non-trimmed   '/' non-scraped
+ *   '-' bad sector    '+' finished (rescued)
+ */
+
+import * as fs from 'node:fs/promises'
+
+// ─── Types ────────────────────────────────────────────────────
+
+export type BlockStatus = '?' | '*' | '/' | '-' | '+'
+
+/** Phase recorded in the status line ('F'/'G' are ddrescue fill/generate modes). */
+export type MapPhase = '?' | '*' | '/' | '-' | 'F' | 'G' | '+'
+
+export interface MapBlock {
+  pos: bigint
+  size: bigint
+  status: BlockStatus
+}
+
+export type MapTotals = Record<BlockStatus, bigint>
+
+export class MapfileError extends Error {
+  public readonly code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    this.name = 'MapfileError'
+    this.code = code
+  }
+}
+
+// ─── Constants ────────────────────────────────────────────────
+
+const BLOCK_STATUSES: ReadonlySet<string> = new Set(['?', '*', '/', '-', '+'])
+const MAP_PHASES: ReadonlySet<string> = new Set(['?', '*', '/', '-', 'F', 'G', '+'])
+
+// ─── RescueMap ────────────────────────────────────────────────
+
+/**
+ * In-memory rescue map: an ordered list of contiguous blocks covering
+ * [0, size) with adjacent blocks of equal status always merged.
+ */
+export class RescueMap {
+  readonly size: bigint
+  currentPos = 0n
+  currentPhase: MapPhase = '?'
+  currentPass = 1
+  private list: MapBlock[]
+
+  constructor(size: bigint) {
+    this.size = size
+    this.list = size > 0n ? [{ pos: 0n, size, status: '?' }] : []
+  }
+
+  /**
+   * Parse a map file.
+   *
+   * Ranges the file does not cover are treated as non-tried, as ddrescue
+   * does.
+   *
+   * @throws {MapfileError} If the text is not a valid map file, or it
+   *   describes a larger device than `size`.
+   */
+  static parse(text: string, size: bigint): RescueMap {
+    const map = new RescueMap(size)
+    let sawStatusLine = false
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim()
+      if (line === '' || line.startsWith('#')) continue
+
+      const fields = line.split(/\s+/)
+      if (!sawStatusLine) {
+        if (fields.length < 2 || !MAP_PHASES.has(fields[1])) {
+          throw new MapfileError(`Invalid map file status line: "${line}"`, 'INVALID_STATUS_LINE')
+        }
+        map.currentPos = parseNumber(fields[0], line)
+        map.currentPhase = fields[1] as MapPhase
+        map.currentPass = fields[2] ? Number(parseNumber(fields[2], line)) : 1
+        sawStatusLine = true
+        continue
+      }
+
+      if (fields.length < 3 || !BLOCK_STATUSES.has(fields[2])) {
+        throw new MapfileError(`Invalid map file block line: "${line}"`, 'INVALID_BLOCK_LINE')
+      }
+      const pos = parseNumber(fields[0], line)
+      const blockSize = parseNumber(fields[1], line)
+      if (pos + blockSize > size) {
+        throw new MapfileError(`Map file describes a device larger than ${size} bytes`, 'SIZE_MISMATCH')
+      }
+      map.mark(pos, blockSize, fields[2] as BlockStatus)
+    }
+
+    if (!sawStatusLine) {
+      throw new MapfileError('Map file has no status line', 'INVALID_STATUS_LINE')
+    }
+    return map
+  }
+
+  /** Serialize in ddrescue's format. */
+  toString(header: string[] = []): string {
+    const lines = [
+      '# Mapfile. Created by Slash Restore (GNU ddrescue compatible)',
+      ...header.map((h) => `# ${h}`),
+      '# current_pos  current_status  current_pass',
+      `${hex(this.currentPos)}     ${this.currentPhase}               ${this.currentPass}`,
+      '#      pos        size  status'
+    ]
+    for (const block of this.list) {
+      lines.push(`${hex(block.pos)}  ${hex(block.size)}  ${block.status}`)
+    }
+    return lines.join('\n') + '\n'
+  }
+
+  /** Blocks in ascending order. */
+  get blocks(): readonly MapBlock[] {
+    return this.list
+  }
+
+  /**
+   * Set the status of [pos, pos + size), splitting and merging blocks as
+   * needed.
+   */
+  mark(pos: bigint, size: bigint, status: BlockStatus): void {
+    if (size <= 0n) return
+    const end = pos + size > this.size ? this.size : pos + size
+    if (pos >= end) return
+
+    const first = this.indexAt(pos)
+    let last = first
+    while (last < this.list.length - 1 && this.list[last].pos + this.list[last].size < end) last++
+
+    const replacement: MapBlock[] = []
+    const head = this.list[first]
+    if (head.pos < pos) {
+      replacement.push({ pos: head.pos, size: pos - head.pos, status: head.status })
+    }
+    replacement.push({ pos, size: end - pos, status })
+    const tail = this.list[last]
+    const tailEnd = tail.pos + tail.size
+    if (tailEnd > end) {
+      replacement.push({ pos: end, size: tailEnd - end, status: tail.status })
+    }
+
+    this.list.splice(first, last - first + 1, ...replacement)
+    this.mergeAround(first, first + replacement.length - 1)
+  }
+
+  /**
+   * First block with `status` that ends after `from`, clipped to start at
+   * `from`.
+   */
+  nextBlock(status: BlockStatus, from = 0n): MapBlock | null {
+    if (from >= this.size) return null
+    for (let i = this.indexAt(from); i < this.list.length; i++) {
+      const block = this.list[i]
+      if (block.status !== status) continue
+      const start = block.pos > from ? block.pos : from
+      return { pos: start, size: block.pos + block.size - start, status }
+    }
+    return null
+  }
+
+  /** Status of the byte at `pos`. */
+  statusAt(pos: bigint): BlockStatus {
+    return this.list[this.indexAt(pos)].status
+  }
+
+  /** Total bytes per status. */
+  totals(): MapTotals {
+    const totals: MapTotals = { '?': 0n, '*': 0n, '/': 0n, '-': 0n, '+': 0n }
+    for (const block of this.list) totals[block.status] += block.size
+    return totals
+  }
+
+  /** Number of blocks with the given status (e.g. bad areas for '-'). */
+  count(status: BlockStatus): number {
+    return this.list.reduce((n, b) => (b.status === status ? n + 1 : n), 0)
+  }
+
+  // ── Private ─────────────────────────────────────────────
+
+  /** Index of the block containing `pos` (binary search). */
+  private indexAt(pos: bigint): number {
+    let lo = 0
+    let hi = this.list.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (this.list[mid].pos <= pos) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  private mergeAround(from: number, to: number): void {
+    const start = Math.max(0, from - 1)
+    const end = Math.min(this.list.length - 1, to + 1)
+    for (let i = end; i > start; i--) {
+      const prev = this.list[i - 1]
+      const cur = this.list[i]
+      if (prev.status === cur.status) {
+        prev.size += cur.size
+        this.list.splice(i, 1)
+      }
+    }
+  }
+}
+
+// ─── File I/O ─────────────────────────────────────────────────
+
+/**
+ * Load a map file, or return null if it does not exist.
+ *
+ * @throws {MapfileError} If the file exists but cannot be parsed.
+ */
+export async function readMapfile(mapfilePath: string, size: bigint): Promise<RescueMap | null> {
+  let text: string
+  try {
+    text = await fs.readFile(mapfilePath, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw err
+  }
+  return RescueMap.parse(text, size)
+}
+
+/**
+ * Write a map file atomically (temp file + rename) so a crash mid-write
+ * never leaves a truncated map behind.
+ */
+export async function writeMapfile(mapfilePath: string, map: RescueMap, header: string[] = []): Promise<void> {
+  const tmpPath = `${mapfilePath}.tmp`
+  await fs.writeFile(tmpPath, map.toString(header), 'utf8')
+  await fs.rename(tmpPath, mapfilePath)
+}
+
+// ─── Helpers ──────────────────────────────────────────────────
+
+function hex(value: bigint): string {
+  return `0x${value.toString(16).toUpperCase().padStart(8, '0')}`
+}
+
+function parseNumber(text: string, line: string): bigint {
+  try {
+    return BigInt(text)
+  } catch {
+    throw new MapfileError(`Invalid number "${text}" in map file line: "${line}"`, 'INVALID_NUMBER')
+  }
+}
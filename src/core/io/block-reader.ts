@@ -7,6 +7,8 @@ import {
   MAX_READ_RETRIES,
   RETRY_BACKOFF_MS
 } from '../../shared/constants/file-signatures'
+import { openSourceReader, detectImageFormat, isDiskImagePath } from './images'
+import type { SourceReader } from './images'
 
 // ─── Error Types ──────────────────────────────────────────────
 
@@ -69,6 +71,13 @@ export interface BlockReaderStats {
 
 const SECTOR_SIZE_BIG = BigInt(SECTOR_SIZE)
 
+/**
+ * I/O unit for container and virtual-disk sources. Their data is already
+ * decoded in blocks, so per-sector reads would only add overhead; a failed
+ * unit is zero-filled and reported by its first offset.
+ */
+const SOURCE_READ_UNIT = 64 * 1024
+
 /** Round a bigint offset down to the nearest sector boundary. */
 function alignDown(offset: bigint): bigint {
   return offset - (offset % SECTOR_SIZE_BIG)
@@ -101,6 +110,7 @@ function sleep(ms: number): Promise<void> {
  */
 export class BlockReader {
   private handle: FileHandle | null = null
+  private source: SourceReader | null = null
   private devicePath: string = ''
   private deviceSize: bigint = 0n
 
@@ -116,7 +126,7 @@ export class BlockReader {
 
   /** Whether the reader currently holds an open file handle. */
   get isOpen(): boolean {
-    return this.handle !== null
+    return this.handle !== null || this.source !== null
   }
 
   /** Absolute path of the currently opened device or image. */
@@ -147,12 +157,19 @@ export class BlockReader {
   /**
    * Open a block device or image file for reading.
    *
+   * Raw devices and raw images are read directly. Container and virtual
+   * disk formats (E01, VHD, VHDX, VMDK, qcow2, split raw sets) are opened
+   * through the image source registry and read in their logical address
+   * space.
+   *
    * @param path Absolute path to the block device or disk image.
+   * @param sizeHint Size reported by device enumeration, used when the OS
+   *   reports a zero size (block devices on Linux).
    * @throws {BlockReaderError} If the reader is already open or the path
    *   cannot be accessed.
    */
-  async open(path: string): Promise<void> {
-    if (this.handle) {
+  async open(path: string, sizeHint?: bigint): Promise<void> {
+    if (this.isOpen) {
       throw new BlockReaderError(
         'Reader is already open. Call close() before opening a new device.',
         'ALREADY_OPEN'
@@ -160,14 +177,19 @@ export class BlockReader {
     }
 
     try {
-      this.handle = await fs.open(path, 'r')
-
-      const stat = await this.handle.stat()
-      // For regular files stat.size is accurate.
-      // For block devices on Linux stat.size is 0 -- callers should use
-      // an ioctl or /sys/block/<dev>/size to obtain the real size and
-      // pass it separately.  We store whatever stat reports.
-      this.deviceSize = BigInt(stat.size)
+      if (isDiskImagePath(path) && detectImageFormat(path) !== 'raw') {
+        this.source = await openSourceReader(path)
+        this.deviceSize = this.source.size
+      } else {
+        this.handle = await fs.open(path, 'r')
+
+        const stat = await this.handle.stat()
+        // For regular files stat.size is accurate.
+        // For block devices on Linux stat.size is 0 -- callers should use
+        // an ioctl or /sys/block/<dev>/size to obtain the real size and
+        // pass it separately (or as `sizeHint`).
+        this.deviceSize = stat.size > 0 ? BigInt(stat.size) : sizeHint ?? 0n
+      }
       this.devicePath = path
 
       // Reset statistics for the new session
@@ -204,6 +226,18 @@ export class BlockReader {
    * re-opened with a different path via {@link open}.
    */
   async close(): Promise<void> {
+    if (this.source) {
+      try {
+        await this.source.close()
+      } catch {
+        // Same as below: nothing actionable for the caller.
+      } finally {
+        this.source = null
+        this.devicePath = ''
+        this.deviceSize = 0n
+      }
+    }
+
     if (this.handle) {
       try {
         await this.handle.close()
@@ -253,10 +287,10 @@ export class BlockReader {
     for (
       let sectorOffset = alignedStart;
       sectorOffset < alignedEnd;
-      sectorOffset += SECTOR_SIZE_BIG
+      sectorOffset += BigInt(this.readUnit)
     ) {
       const bufPos = Number(sectorOffset - alignedStart)
-      const toRead = Math.min(SECTOR_SIZE, alignedLength - bufPos)
+      const toRead = Math.min(this.readUnit, alignedLength - bufPos)
       rawBytesRead += await this.readSectorWithRetry(
         sectorOffset,
         alignedBuffer,
@@ -280,6 +314,47 @@ export class BlockReader {
     return { buffer: result, bytesRead: available }
   }
 
+  /**
+   * Read `length` bytes at `offset` with a single attempt: no alignment,
+   * no retries, no backoff.
+   *
+   * This is the fast path for imaging, where hammering a failing area
+   * with retries early on does more harm than good; the caller decides
+   * when (and whether) to come back to the area.
+   *
+   * @throws {BlockReaderError} With code `READ_FAILED` if the read fails.
+   */
+  async tryRead(offset: bigint, length: number): Promise<ReadResult> {
+    this.ensureOpen()
+
+    if (length <= 0) {
+      return { buffer: Buffer.alloc(0), bytesRead: 0 }
+    }
+
+    let buffer: Buffer
+    let bytesRead: number
+    try {
+      if (this.source) {
+        buffer = await this.source.read(offset, length)
+        bytesRead = buffer.length
+      } else {
+        buffer = Buffer.alloc(length)
+        bytesRead = (await this.handle!.read(buffer, 0, length, Number(offset))).bytesRead
+      }
+    } catch (err) {
+      throw new BlockReaderError(
+        `Read of ${length} bytes at offset ${offset} failed`,
+        'READ_FAILED',
+        err
+      )
+    }
+
+    this.stats.totalReads++
+    this.stats.totalBytesRead += BigInt(bytesRead)
+
+    return { buffer: bytesRead < buffer.length ? buffer.subarray(0, bytesRead) : buffer, bytesRead }
+  }
+
   /**
    * Read a large region in configurable chunks.
    *
@@ -343,9 +418,14 @@ export class BlockReader {
 
   // ── Private ─────────────────────────────────────────────
 
+  /** Bytes issued per read: one sector for raw I/O, larger for decoded sources. */
+  private get readUnit(): number {
+    return this.source ? SOURCE_READ_UNIT : SECTOR_SIZE
+  }
+
   /** Throw if the reader has no open file handle. */
   private ensureOpen(): void {
-    if (!this.handle) {
+    if (!this.isOpen) {
       throw new BlockReaderError(
         'BlockReader is not open. Call open() first.',
         'NOT_OPEN'
@@ -372,10 +452,10 @@ export class BlockReader {
     for (
       let sectorOffset = alignedStart;
       sectorOffset < alignedEnd;
-      sectorOffset += SECTOR_SIZE_BIG
+      sectorOffset += BigInt(this.readUnit)
     ) {
       const bufPos = Number(sectorOffset - alignedStart)
-      const toRead = Math.min(SECTOR_SIZE, alignedLength - bufPos)
+      const toRead = Math.min(this.readUnit, alignedLength - bufPos)
 
       try {
         rawBytesRead += await this.readSectorWithRetry(
@@ -405,8 +485,8 @@ export class BlockReader {
   }
 
   /**
-   * Read a single sector with up to {@link MAX_READ_RETRIES} retries
-   * using exponential backoff.
+   * Read a single sector (or read unit, for decoded sources) with up to
+   * {@link MAX_READ_RETRIES} retries using exponential backoff.
    *
    * @returns Number of bytes actually read from the OS.
    * @throws {BadSectorError} When all retries are exhausted.
@@ -421,6 +501,12 @@ export class BlockReader {
 
     for (let attempt = 0; attempt <= MAX_READ_RETRIES; attempt++) {
       try {
+        if (this.source) {
+          const data = await this.source.read(sectorOffset, bytesToRead)
+          data.copy(buffer, bufferPosition)
+          return data.length
+        }
+
         // Node's fs.FileHandle.read accepts a numeric position.
         // For offsets beyond Number.MAX_SAFE_INTEGER (> 8 PB) this
         // would lose precision, but no physical disk reaches that today.
@@ -0,0 +1,31 @@
+/**
+ * Buffer Reader
+ *
+ * Exposes a buffer held in memory as a source. Used to run parsers, image
+ * readers and allocation bitmaps over small hand-built volumes in tests.
+ */
+
+import type { SourceReader } from './images'
+
+export class BufferReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  private data: Buffer
+
+  constructor(data: Buffer, path = 'memory') {
+    this.data = data
+    this.path = path
+    this.size = BigInt(data.length)
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (offset >= this.size) return Buffer.alloc(0)
+    const start = Number(offset)
+    return Buffer.from(this.data.subarray(start, Math.min(start + length, this.data.length)))
+  }
+
+  /** Nothing to release. */
+  async close(): Promise<void> {
+    // Nothing to release.
+  }
+}
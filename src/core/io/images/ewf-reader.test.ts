@@ -0,0 +1,133 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { deflateSync } from 'node:zlib'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { EwfImageReader } from './ewf-reader'
+
+/** One 512-byte sector per chunk keeps the image small */
+const CHUNK = 512
+const DESCRIPTOR = 76
+const SIGNATURE = Buffer.from([0x45, 0x56, 0x46, 0x09, 0x0d, 0x0a, 0xff, 0x00])
+
+const MD5 = '0123456789abcdef0123456789abcdef'
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'ewf-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+/** A media chunk: every byte holds the chunk's index */
+const chunk = (index: number): Buffer => Buffer.alloc(CHUNK, index + 1)
+
+/** Stored uncompressed: the data and a 4-byte checksum, not verified on read */
+const raw = (data: Buffer): Buffer => Buffer.concat([data, Buffer.alloc(4)])
+
+/**
+ * Lays out one E01 segment: the file header, then sections linked forward
+ * by the descriptor's next offset. "next" and "done" point at themselves.
+ */
+class Segment {
+  private parts: Buffer[] = []
+  private offset = 13
+
+  constructor(number: number) {
+    const header = Buffer.alloc(13)
+    SIGNATURE.copy(header)
+    header[8] = 1
+    header.writeUInt16LE(number, 9)
+    this.parts.push(header)
+  }
+
+  /** Add a section and return the file offset of its data. */
+  section(type: string, data: Buffer = Buffer.alloc(0)): number {
+    const descriptor = Buffer.alloc(DESCRIPTOR)
+    descriptor.write(type, 0, 'ascii')
+    const last = type === 'next' || type === 'done'
+    descriptor.writeBigUInt64LE(BigInt(last ? this.offset : this.offset + DESCRIPTOR + data.length), 16)
+    descriptor.writeBigUInt64LE(BigInt(DESCRIPTOR + data.length), 24)
+    this.parts.push(descriptor, data)
+    const dataOffset = this.offset + DESCRIPTOR
+    this.offset = dataOffset + data.length
+    return dataOffset
+  }
+
+  /** A "sectors" section of stored chunks, then the "table" that locates them. */
+  chunks(stored: Buffer[], compressed: boolean[]): void {
+    const start = this.section('sectors', Buffer.concat(stored))
+    const table = Buffer.alloc(24 + stored.length * 4)
+    table.writeUInt32LE(stored.length, 0)
+    let pos = start
+    stored.forEach((data, i) => {
+      table.writeUInt32LE((pos | (compressed[i] ? 0x80000000 : 0)) >>> 0, 24 + i * 4)
+      pos += data.length
+    })
+    this.section('table', table)
+  }
+
+  async write(path: string): Promise<void> {
+    await writeFile(path, Buffer.concat(this.parts))
+  }
+}
+
+/** A SMART-style 94-byte volume section. */
+function volume(sectors: number): Buffer {
+  const data = Buffer.alloc(94)
+  data.writeUInt32LE(1, 8)
+  data.writeUInt32LE(CHUNK, 12)
+  data.writeUInt32LE(sectors, 16)
+  return data
+}
+
+/** Chunks 0-1 in image.E01 (0 compressed), chunk 2 and the MD5 in image.E02. */
+async function writeImage(at: string, segments = [1, 2]): Promise<void> {
+  await mkdir(at, { recursive: true })
+
+  const first = new Segment(1)
+  first.section('volume', volume(3))
+  first.chunks([deflateSync(chunk(0)), raw(chunk(1))], [true, false])
+  first.section('next')
+
+  const second = new Segment(2)
+  second.chunks([raw(chunk(2))], [false])
+  second.section('hash', Buffer.from(MD5, 'hex'))
+  second.section('done')
+
+  if (segments.includes(1)) await first.write(join(at, 'image.E01'))
+  if (segments.includes(2)) await second.write(join(at, 'image.E02'))
+}
+
+describe('EwfImageReader', () => {
+  it('reads compressed and stored chunks across segments', async () => {
+    await writeImage(join(dir, 'full'))
+    const reader = await EwfImageReader.open(join(dir, 'full', 'image.E01'))
+    const expected = Buffer.concat([chunk(0), chunk(1), chunk(2)])
+
+    expect(reader.formatVersion).toBe(1)
+    expect(reader.size).toBe(BigInt(3 * CHUNK))
+    expect((await reader.read(0n, 3 * CHUNK)).equals(expected)).toBe(true)
+    expect((await reader.read(500n, 600)).equals(expected.subarray(500, 1100))).toBe(true)
+    expect(reader.storedHashes).toEqual({ md5: MD5 })
+    await reader.close()
+  })
+
+  it('opens the set from any of its segments', async () => {
+    await writeImage(join(dir, 'any'))
+    const reader = await EwfImageReader.open(join(dir, 'any', 'image.E02'))
+
+    expect((await reader.read(BigInt(2 * CHUNK), CHUNK)).equals(chunk(2))).toBe(true)
+    await reader.close()
+  })
+
+  it('rejects a set with a missing segment', async () => {
+    await writeImage(join(dir, 'missing'), [2])
+    const opening = EwfImageReader.open(join(dir, 'missing', 'image.E02'))
+
+    await expect(opening).rejects.toThrow(/segment 1 of image is missing/)
+  })
+})
@@ -0,0 +1,646 @@
+/**
+ * EWF (Expert Witness Format) Reader
+ *
+ * Reads EnCase evidence containers: EWF-E01 (EnCase 1-6, "EVF" signature)
+ * and EWF2-Ex01 (EnCase 7+, "EVF2" signature). The media is stored as a
+ * sequence of fixed-size chunks, each optionally zlib-compressed, spread
+ * over numbered segment files (image.E01, image.E02, ... / image.Ex01, ...).
+ *
+ * On open, every segment's section chain is walked to build a chunk table
+ * mapping chunk number -> (segment, file offset, stored size, flags). Reads
+ * then decompress only the chunks they touch, with a small LRU cache so
+ * sequential scans do not inflate the same chunk twice.
+ *
+ * The acquisition hashes stored in the container (hash/digest sections for
+ * E01, MD5/SHA1 hash sections for Ex01) are exposed via `storedHashes` so a
+ * caller can verify the image after reading it in full.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import * as zlib from 'zlib'
+import { promisify } from 'util'
+import type { SourceReader } from './index'
+import type { ReadResult } from '../block-reader'
+
+const fsOpen = promisify(fs.open)
+const fsRead = promisify(fs.read)
+const fsFstat = promisify(fs.fstat)
+const fsClose = promisify(fs.close)
+const fsReaddir = promisify(fs.readdir)
+const inflate = promisify(zlib.inflate)
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** Hashes recorded by the acquisition tool, as lowercase hex. */
+export interface EwfStoredHashes {
+  md5?: string
+  sha1?: string
+}
+
+interface EwfSegment {
+  path: string
+  fd: number
+  size: bigint
+  number: number
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const EWF1_SIGNATURE = Buffer.from([0x45, 0x56, 0x46, 0x09, 0x0d, 0x0a, 0xff, 0x00])
+const EWF2_SIGNATURE = Buffer.from([0x45, 0x56, 0x46, 0x32, 0x0d, 0x0a, 0x81, 0x00])
+
+const EWF1_FILE_HEADER_SIZE = 13
+const EWF1_SECTION_DESCRIPTOR_SIZE = 76
+const EWF1_TABLE_HEADER_SIZE = 24
+const EWF1_COMPRESSED_FLAG = 0x80000000
+const EWF1_OFFSET_MASK = 0x7fffffff
+
+const EWF2_FILE_HEADER_SIZE = 32
+const EWF2_SECTION_DESCRIPTOR_SIZE = 64
+const EWF2_TABLE_HEADER_SIZE = 32
+const EWF2_TABLE_ENTRY_SIZE = 16
+
+/** EWF2 section type codes. */
+const EWF2_SECTION_DEVICE_INFO = 0x01
+const EWF2_SECTION_CASE_DATA = 0x02
+const EWF2_SECTION_SECTOR_TABLE = 0x04
+const EWF2_SECTION_MD5_HASH = 0x08
+const EWF2_SECTION_SHA1_HASH = 0x09
+
+/** EWF2 section data flags. */
+const EWF2_DATA_ENCRYPTED = 0x02
+
+/** EWF2 chunk flags. */
+const EWF2_CHUNK_COMPRESSED = 0x01
+const EWF2_CHUNK_HAS_CHECKSUM = 0x02
+const EWF2_CHUNK_PATTERN_FILL = 0x04
+
+/** EWF2 compression methods (file header). */
+const EWF2_COMPRESSION_BZIP2 = 2
+
+/** Default chunk geometry: 64 sectors of 512 bytes. */
+const DEFAULT_SECTORS_PER_CHUNK = 64
+const DEFAULT_BYTES_PER_SECTOR = 512
+
+/** Guard against corrupt section chains. */
+const MAX_SECTIONS_PER_SEGMENT = 1_000_000
+
+/** Number of decompressed chunks kept in memory. */
+const CHUNK_CACHE_SIZE = 64
+
+/** Segment extensions: E01..E99, EAA..EZZ, ... and Ex01.., Lx01.. for EWF2. */
+const SEGMENT_EXTENSION_PATTERN = /^\.(?:[a-z]x?)(?:\d{2}|[a-z]{2})$/i
+
+// ─── Chunk table ────────────────────────────────────────────────
+
+/**
+ * Growable struct-of-arrays mapping chunk number to its stored location.
+ * Typed arrays keep multi-terabyte images (tens of millions of chunks)
+ * within a reasonable memory budget.
+ */
+class ChunkTable {
+  private segment = new Uint16Array(1024)
+  private offset = new Float64Array(1024)
+  private storedSize = new Uint32Array(1024)
+  private flags = new Uint8Array(1024)
+  private present = new Uint8Array(1024)
+  count = 0
+
+  set(chunk: number, segment: number, offset: bigint, storedSize: number, flags: number): void {
+    this.ensureCapacity(chunk + 1)
+    this.segment[chunk] = segment
+    this.offset[chunk] = Number(offset)
+    this.storedSize[chunk] = storedSize
+    this.flags[chunk] = flags
+    this.present[chunk] = 1
+    if (chunk + 1 > this.count) this.count = chunk + 1
+  }
+
+  get(chunk: number): { segment: number; offset: number; storedSize: number; flags: number } | null {
+    if (chunk < 0 || chunk >= this.count || !this.present[chunk]) return null
+    return {
+      segment: this.segment[chunk],
+      offset: this.offset[chunk],
+      storedSize: this.storedSize[chunk],
+      flags: this.flags[chunk]
+    }
+  }
+
+  private ensureCapacity(needed: number): void {
+    if (needed <= this.segment.length) return
+    let capacity = this.segment.length
+    while (capacity < needed) capacity *= 2
+
+    const grow = <T extends Uint16Array | Float64Array | Uint32Array | Uint8Array>(
+      old: T,
+      make: (n: number) => T
+    ): T => {
+      const next = make(capacity)
+      next.set(old)
+      return next
+    }
+    this.segment = grow(this.segment, (n) => new Uint16Array(n))
+    this.offset = grow(this.offset, (n) => new Float64Array(n))
+    this.storedSize = grow(this.storedSize, (n) => new Uint32Array(n))
+    this.flags = grow(this.flags, (n) => new Uint8Array(n))
+    this.present = grow(this.present, (n) => new Uint8Array(n))
+  }
+}
+
+/** Internal chunk flags shared by both format versions. */
+const CHUNK_COMPRESSED = 0x01
+const CHUNK_CHECKSUMMED = 0x02
+const CHUNK_PATTERN = 0x04
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class EwfImageReader implements SourceReader {
+  readonly path: string
+  private segments: EwfSegment[]
+  private chunks = new ChunkTable()
+  private chunkSize = DEFAULT_SECTORS_PER_CHUNK * DEFAULT_BYTES_PER_SECTOR
+  private mediaSize = 0n
+  private hashes: EwfStoredHashes = {}
+  private version: 1 | 2 = 1
+  private bzip2 = false
+  private patterns = new Map<number, Buffer>()
+  private cache = new Map<number, Buffer>()
+  private closed = false
+
+  private constructor(imagePath: string, segments: EwfSegment[]) {
+    this.path = imagePath
+    this.segments = segments
+  }
+
+  /**
+   * Open an EWF container from any of its segment files.
+   *
+   * @throws If the file is not EWF, segments are missing, or the container
+   *   uses a feature this reader does not support (encryption, bzip2).
+   */
+  static async open(imagePath: string): Promise<EwfImageReader> {
+    const segments = await EwfImageReader.openSegments(imagePath)
+    const reader = new EwfImageReader(segments[0].path, segments)
+    try {
+      await reader.index()
+    } catch (err) {
+      await reader.close()
+      throw err
+    }
+    return reader
+  }
+
+  /** Logical media size in bytes. */
+  get size(): bigint {
+    return this.mediaSize
+  }
+
+  /** MD5/SHA1 recorded at acquisition time, if present. */
+  get storedHashes(): EwfStoredHashes {
+    return { ...this.hashes }
+  }
+
+  /** Format generation: 1 for E01, 2 for Ex01. */
+  get formatVersion(): 1 | 2 {
+    return this.version
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (this.closed) {
+      throw new Error(`EWF reader for ${this.path} has been closed`)
+    }
+    if (offset >= this.mediaSize || length <= 0) return Buffer.alloc(0)
+
+    const end = offset + BigInt(length) > this.mediaSize ? this.mediaSize : offset + BigInt(length)
+    const out = Buffer.alloc(Number(end - offset))
+    const chunkSizeBig = BigInt(this.chunkSize)
+
+    let position = offset
+    while (position < end) {
+      const chunk = Number(position / chunkSizeBig)
+      const within = Number(position % chunkSizeBig)
+      const data = await this.readChunk(chunk)
+      const take = Math.min(this.chunkSize - within, Number(end - position))
+      data.copy(out, Number(position - offset), within, within + take)
+      position += BigInt(take)
+    }
+
+    return out
+  }
+
+  /** BlockReader-compatible variant of {@link read}. */
+  async readAt(offset: bigint, length: number): Promise<ReadResult> {
+    const buffer = await this.read(offset, length)
+    return { buffer, bytesRead: buffer.length }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.cache.clear()
+    this.patterns.clear()
+    await Promise.allSettled(this.segments.map((s) => fsClose(s.fd)))
+  }
+
+  // ─── Segment discovery ──────────────────────────────────────
+
+  /**
+   * Find every segment belonging to the same evidence set and order them
+   * by the segment number stored in each file header (not by name, since
+   * the E99 -> EAA rollover does not sort lexically).
+   */
+  private static async openSegments(imagePath: string): Promise<EwfSegment[]> {
+    const dir = path.dirname(imagePath)
+    const ext = path.extname(imagePath)
+    const stem = path.basename(imagePath, ext)
+
+    let names: string[]
+    try {
+      names = await fsReaddir(dir)
+    } catch {
+      names = [path.basename(imagePath)]
+    }
+
+    const candidates = names.filter((name) => {
+      const e = path.extname(name)
+      return path.basename(name, e) === stem && SEGMENT_EXTENSION_PATTERN.test(e)
+    })
+    if (!candidates.includes(path.basename(imagePath))) candidates.push(path.basename(imagePath))
+
+    const segments: EwfSegment[] = []
+    let signature: Buffer | null = null
+    try {
+      for (const name of candidates) {
+        const segPath = path.join(dir, name)
+        const fd = await fsOpen(segPath, 'r')
+        const header = Buffer.alloc(EWF2_FILE_HEADER_SIZE)
+        const { bytesRead } = await fsRead(fd, header, 0, header.length, 0)
+        const sig = header.subarray(0, 8)
+        const isEwf = bytesRead >= EWF1_FILE_HEADER_SIZE && (sig.equals(EWF1_SIGNATURE) || sig.equals(EWF2_SIGNATURE))
+        if (!isEwf || (signature && !sig.equals(signature))) {
+          await fsClose(fd)
+          continue
+        }
+        signature = Buffer.from(sig)
+
+        const number = sig.equals(EWF1_SIGNATURE) ? header.readUInt16LE(9) : header.readUInt32LE(12)
+        const stat = await fsFstat(fd)
+        segments.push({ path: segPath, fd, size: BigInt(stat.size), number })
+      }
+    } catch (err) {
+      await Promise.allSettled(segments.map((s) => fsClose(s.fd)))
+      throw err
+    }
+
+    if (segments.length === 0) {
+      throw new Error(`${imagePath} is not an EWF (E01/Ex01) evidence file`)
+    }
+
+    segments.sort((a, b) => a.number - b.number)
+    for (let i = 0; i < segments.length; i++) {
+      if (segments[i].number !== i + 1) {
+        await Promise.allSettled(segments.map((s) => fsClose(s.fd)))
+        throw new Error(`EWF segment ${i + 1} of ${stem} is missing`)
+      }
+    }
+
+    return segments
+  }
+
+  // ─── Indexing ───────────────────────────────────────────────
+
+  private async index(): Promise<void> {
+    const sig = await this.readFrom(0, 0n, 8)
+    this.version = sig.equals(EWF2_SIGNATURE) ? 2 : 1
+
+    if (this.version === 1) {
+      for (let i = 0; i < this.segments.length; i++) await this.indexEwf1Segment(i)
+    } else {
+      const header = await this.readFrom(0, 0n, EWF2_FILE_HEADER_SIZE)
+      this.bzip2 = header.readUInt16LE(10) === EWF2_COMPRESSION_BZIP2
+      for (let i = 0; i < this.segments.length; i++) await this.indexEwf2Segment(i)
+    }
+
+    // Media size falls back to the chunk count when no volume/device
+    // information section recorded it.
+    if (this.mediaSize === 0n) {
+      this.mediaSize = BigInt(this.chunks.count) * BigInt(this.chunkSize)
+    }
+  }
+
+  /**
+   * Walk the forward-linked section chain of an E01 segment.
+   */
+  private async indexEwf1Segment(segIndex: number): Promise<void> {
+    const segment = this.segments[segIndex]
+    let offset = BigInt(EWF1_FILE_HEADER_SIZE)
+    let sectorsEnd: bigint | null = null
+
+    for (let n = 0; n < MAX_SECTIONS_PER_SEGMENT; n++) {
+      if (offset + BigInt(EWF1_SECTION_DESCRIPTOR_SIZE) > segment.size) break
+
+      const desc = await this.readFrom(segIndex, offset, EWF1_SECTION_DESCRIPTOR_SIZE)
+      const type = desc.toString('ascii', 0, 16).replace(/\0.*$/s, '')
+      const next = desc.readBigUInt64LE(16)
+      const sectionSize = desc.readBigUInt64LE(24)
+      const dataOffset = offset + BigInt(EWF1_SECTION_DESCRIPTOR_SIZE)
+      const dataSize = sectionSize > BigInt(EWF1_SECTION_DESCRIPTOR_SIZE)
+        ? sectionSize - BigInt(EWF1_SECTION_DESCRIPTOR_SIZE)
+        : 0n
+
+      switch (type) {
+        case 'volume':
+        case 'disk':
+          await this.parseEwf1Volume(segIndex, dataOffset, dataSize)
+          break
+        case 'sectors':
+          sectorsEnd = offset + sectionSize
+          break
+        case 'table':
+          await this.parseEwf1Table(segIndex, dataOffset, sectorsEnd ?? offset)
+          break
+        case 'hash': {
+          const data = await this.readFrom(segIndex, dataOffset, 16)
+          if (data.length === 16) this.hashes.md5 = toHex(data)
+          break
+        }
+        case 'digest': {
+          const data = await this.readFrom(segIndex, dataOffset, 36)
+          if (data.length === 36) {
+            if (!isZero(data.subarray(0, 16))) this.hashes.md5 = toHex(data.subarray(0, 16))
+            if (!isZero(data.subarray(16, 36))) this.hashes.sha1 = toHex(data.subarray(16, 36))
+          }
+          break
+        }
+      }
+
+      if (type === 'done' || type === 'next') break
+      // "next"/"done" point at themselves; anything else must move forward.
+      if (next <= offset) break
+      offset = next
+    }
+  }
+
+  private async parseEwf1Volume(segIndex: number, dataOffset: bigint, dataSize: bigint): Promise<void> {
+    const data = await this.readFrom(segIndex, dataOffset, 24)
+    if (data.length < 20) return
+
+    const sectorsPerChunk = data.readUInt32LE(8) || DEFAULT_SECTORS_PER_CHUNK
+    const bytesPerSector = data.readUInt32LE(12) || DEFAULT_BYTES_PER_SECTOR
+    // EnCase volumes (1052 bytes) store a 64-bit sector count; SMART
+    // volumes (94 bytes) only a 32-bit one.
+    const sectorCount = dataSize >= 1052n && data.length >= 24
+      ? data.readBigUInt64LE(16)
+      : BigInt(data.readUInt32LE(16))
+
+    this.chunkSize = sectorsPerChunk * bytesPerSector
+    this.mediaSize = sectorCount * BigInt(bytesPerSector)
+  }
+
+  /**
+   * Parse an E01 "table" section. Entries are 32-bit offsets relative to
+   * the table's base offset; the top bit marks a compressed chunk. Stored
+   * sizes are the distance to the next entry, and the final chunk ends at
+   * the end of the preceding "sectors" section.
+   */
+  private async parseEwf1Table(segIndex: number, dataOffset: bigint, chunkDataEnd: bigint): Promise<void> {
+    const header = await this.readFrom(segIndex, dataOffset, EWF1_TABLE_HEADER_SIZE)
+    if (header.length < EWF1_TABLE_HEADER_SIZE) return
+
+    const entryCount = header.readUInt32LE(0)
+    const baseOffset = header.readBigUInt64LE(8)
+    if (entryCount === 0) return
+
+    const entries = await this.readFrom(segIndex, dataOffset + BigInt(EWF1_TABLE_HEADER_SIZE), entryCount * 4)
+    const available = Math.floor(entries.length / 4)
+
+    const firstChunk = this.chunks.count
+    for (let i = 0; i < available; i++) {
+      const raw = entries.readUInt32LE(i * 4)
+      const compressed = (raw & EWF1_COMPRESSED_FLAG) !== 0
+      const start = baseOffset + BigInt(raw & EWF1_OFFSET_MASK)
+
+      let end: bigint
+      if (i + 1 < available) {
+        end = baseOffset + BigInt(entries.readUInt32LE((i + 1) * 4) & EWF1_OFFSET_MASK)
+      } else {
+        end = chunkDataEnd
+      }
+      const storedSize = end > start ? Number(end - start) : this.chunkSize + 4
+
+      this.chunks.set(
+        firstChunk + i,
+        segIndex,
+        start,
+        storedSize,
+        compressed ? CHUNK_COMPRESSED : CHUNK_CHECKSUMMED
+      )
+    }
+  }
+
+  /**
+   * Walk the backward-linked section chain of an Ex01 segment. EWF2 stores
+   * each section descriptor after its data, so the walk starts from the
+   * last descriptor at the end of the file.
+   */
+  private async indexEwf2Segment(segIndex: number): Promise<void> {
+    const segment = this.segments[segIndex]
+    const tables: Array<{ dataOffset: bigint; dataSize: bigint }> = []
+
+    let descOffset = segment.size - BigInt(EWF2_SECTION_DESCRIPTOR_SIZE)
+    for (let n = 0; n < MAX_SECTIONS_PER_SEGMENT; n++) {
+      if (descOffset < BigInt(EWF2_FILE_HEADER_SIZE)) break
+
+      const desc = await this.readFrom(segIndex, descOffset, EWF2_SECTION_DESCRIPTOR_SIZE)
+      if (desc.length < EWF2_SECTION_DESCRIPTOR_SIZE) break
+
+      const type = desc.readUInt32LE(0)
+      const dataFlags = desc.readUInt32LE(4)
+      const previous = desc.readBigUInt64LE(8)
+      const dataSize = desc.readBigUInt64LE(16)
+      const dataOffset = descOffset - dataSize
+
+      if (dataFlags & EWF2_DATA_ENCRYPTED) {
+        throw new Error('Encrypted Ex01 containers are not supported')
+      }
+
+      switch (type) {
+        case EWF2_SECTION_DEVICE_INFO:
+        case EWF2_SECTION_CASE_DATA:
+          await this.parseEwf2Metadata(segIndex, dataOffset, dataSize)
+          break
+        case EWF2_SECTION_SECTOR_TABLE:
+          tables.push({ dataOffset, dataSize })
+          break
+        case EWF2_SECTION_MD5_HASH: {
+          const data = await this.readFrom(segIndex, dataOffset, 16)
+          if (data.length === 16 && !isZero(data)) this.hashes.md5 = toHex(data)
+          break
+        }
+        case EWF2_SECTION_SHA1_HASH: {
+          const data = await this.readFrom(segIndex, dataOffset, 20)
+          if (data.length === 20 && !isZero(data)) this.hashes.sha1 = toHex(data)
+          break
+        }
+      }
+
+      if (previous === 0n || previous >= descOffset) break
+      descOffset = previous
+    }
+
+    // Tables were collected back to front; chunk numbers are explicit in
+    // each table header, so order only matters for the chunk-size probe.
+    for (const table of tables.reverse()) {
+      await this.parseEwf2Table(segIndex, table.dataOffset)
+    }
+  }
+
+  /**
+   * Device information and case data are zlib-compressed UTF-16 text in a
+   * tab-separated "keys line / values line" layout. Only the geometry keys
+   * are needed here.
+   */
+  private async parseEwf2Metadata(segIndex: number, dataOffset: bigint, dataSize: bigint): Promise<void> {
+    if (dataSize === 0n || dataSize > 16n * 1024n * 1024n) return
+    const raw = await this.readFrom(segIndex, dataOffset, Number(dataSize))
+
+    let text: string
+    try {
+      text = (await inflate(raw)).toString('utf16le').replace(/^﻿/, '')
+    } catch {
+      return
+    }
+
+    const lines = text.split(/\r?\n/)
+    const values = new Map<string, string>()
+    for (let i = 0; i + 1 < lines.length; i++) {
+      const keys = lines[i].split('\t')
+      const vals = lines[i + 1].split('\t')
+      if (keys.length > 1 && keys.length === vals.length) {
+        keys.forEach((k, idx) => values.set(k.trim(), vals[idx].trim()))
+      }
+    }
+
+    const bytesPerSector = parseInt(values.get('bp') ?? values.get('b') ?? '', 10)
+    const sectorsPerChunk = parseInt(values.get('sb') ?? values.get('sc') ?? '', 10)
+    const totalSectors = values.get('ts')
+
+    const bps = bytesPerSector > 0 ? bytesPerSector : DEFAULT_BYTES_PER_SECTOR
+    if (sectorsPerChunk > 0) this.chunkSize = sectorsPerChunk * bps
+    if (totalSectors && /^\d+$/.test(totalSectors)) {
+      this.mediaSize = BigInt(totalSectors) * BigInt(bps)
+    }
+  }
+
+  private async parseEwf2Table(segIndex: number, dataOffset: bigint): Promise<void> {
+    const header = await this.readFrom(segIndex, dataOffset, EWF2_TABLE_HEADER_SIZE)
+    if (header.length < EWF2_TABLE_HEADER_SIZE) return
+
+    const firstChunk = Number(header.readBigUInt64LE(0))
+    const entryCount = header.readUInt32LE(8)
+    if (entryCount === 0) return
+
+    const entries = await this.readFrom(
+      segIndex,
+      dataOffset + BigInt(EWF2_TABLE_HEADER_SIZE),
+      entryCount * EWF2_TABLE_ENTRY_SIZE
+    )
+    const available = Math.floor(entries.length / EWF2_TABLE_ENTRY_SIZE)
+
+    for (let i = 0; i < available; i++) {
+      const pos = i * EWF2_TABLE_ENTRY_SIZE
+      const chunkOffset = entries.readBigUInt64LE(pos)
+      const storedSize = entries.readUInt32LE(pos + 8)
+      const flags = entries.readUInt32LE(pos + 12)
+
+      let internal = 0
+      if (flags & EWF2_CHUNK_COMPRESSED) internal |= CHUNK_COMPRESSED
+      if (flags & EWF2_CHUNK_HAS_CHECKSUM) internal |= CHUNK_CHECKSUMMED
+      if (flags & EWF2_CHUNK_PATTERN_FILL) {
+        // The 8-byte fill pattern is stored in place of the chunk offset.
+        internal |= CHUNK_PATTERN
+        this.patterns.set(firstChunk + i, Buffer.from(entries.subarray(pos, pos + 8)))
+      }
+
+      this.chunks.set(firstChunk + i, segIndex, chunkOffset, storedSize, internal)
+    }
+  }
+
+  // ─── Chunk access ───────────────────────────────────────────
+
+  private async readChunk(chunk: number): Promise<Buffer> {
+    const cached = this.cache.get(chunk)
+    if (cached) {
+      // Refresh LRU position.
+      this.cache.delete(chunk)
+      this.cache.set(chunk, cached)
+      return cached
+    }
+
+    const data = await this.loadChunk(chunk)
+    this.cache.set(chunk, data)
+    if (this.cache.size > CHUNK_CACHE_SIZE) {
+      const oldest = this.cache.keys().next().value as number
+      this.cache.delete(oldest)
+    }
+    return data
+  }
+
+  private async loadChunk(chunk: number): Promise<Buffer> {
+    const entry = this.chunks.get(chunk)
+    // Chunks missing from every table (e.g. an interrupted acquisition)
+    // read as zeros.
+    if (!entry) return Buffer.alloc(this.chunkSize)
+
+    const out = Buffer.alloc(this.chunkSize)
+
+    const pattern = entry.flags & CHUNK_PATTERN ? this.patterns.get(chunk) : undefined
+    if (pattern) {
+      for (let i = 0; i < out.length; i += 8) pattern.copy(out, i)
+      return out
+    }
+
+    const stored = await this.readFrom(entry.segment, BigInt(entry.offset), entry.storedSize)
+
+    if (entry.flags & CHUNK_COMPRESSED) {
+      if (this.bzip2) {
+        throw new Error('bzip2-compressed Ex01 chunks are not supported')
+      }
+      try {
+        const inflated = await inflate(stored)
+        inflated.copy(out, 0, 0, Math.min(inflated.length, out.length))
+      } catch {
+        // Corrupt chunk: leave zero-filled, like an unreadable sector.
+      }
+      return out
+    }
+
+    // Uncompressed chunks carry a trailing 4-byte Adler-32 checksum.
+    const payload = entry.flags & CHUNK_CHECKSUMMED && stored.length > this.chunkSize
+      ? stored.subarray(0, stored.length - 4)
+      : stored
+    payload.copy(out, 0, 0, Math.min(payload.length, out.length))
+    return out
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private async readFrom(segIndex: number, offset: bigint, length: number): Promise<Buffer> {
+    const segment = this.segments[segIndex]
+    if (offset >= segment.size || length <= 0) return Buffer.alloc(0)
+    const clamped = Math.min(length, Number(segment.size - offset))
+    const buffer = Buffer.alloc(clamped)
+    const { bytesRead } = await fsRead(segment.fd, buffer, 0, clamped, Number(offset))
+    return bytesRead < clamped ? buffer.subarray(0, bytesRead) : buffer
+  }
+}
+
+function toHex(buf: Buffer): string {
+  return buf.toString('hex')
+}
+
+function isZero(buf: Buffer): boolean {
+  for (const b of buf) if (b !== 0) return false
+  return true
+}
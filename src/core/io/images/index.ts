@@ -0,0 +1,272 @@
+/**
+ * Disk Image Sources - Unified reader interface and format registry.
+ *
+ * Scans, previews and recovery all read from a "source": a physical device,
+ * a partition, or a disk image file. Every source is exposed through the
+ * same minimal `SourceReader` interface so that the carving and metadata
+ * workers never need to know how the bytes are stored on the host.
+ *
+ * `openSourceReader` picks the right backend for a path. Plain devices and
+ * single raw images are read directly; split raw sets (.001/.002/...) are
+ * stitched together into one contiguous address space; EnCase evidence
+ * files (E01/Ex01) are decompressed chunk by chunk; virtual disks (VHD,
+ * VHDX, VMDK, qcow2) are translated through their allocation tables, with
+ * unallocated regions reading as zeros. Unlocked LUKS volumes are addressed
+ * by a virtual `luks:` path and decrypted sector by sector on top of the
+ * source that holds them; assembled RAID arrays are addressed by a virtual
+ * `raid:` path and read across their member sources; LVM logical volumes
+ * are addressed by a virtual `lvm:` path and mapped onto the sources
+ * holding their physical volumes. Virtual sources can be stacked, such as
+ * a logical volume on an assembled array.
+ */
+
+import { RawImageReader } from './raw-image-reader'
+import { EwfImageReader } from './ewf-reader'
+import { VhdImageReader } from './vhd-reader'
+import { VhdxImageReader } from './vhdx-reader'
+import { VmdkImageReader } from './vmdk-reader'
+import { Qcow2ImageReader } from './qcow2-reader'
+import {
+  deserializeUnlockedVolume,
+  isEncryptedVolumePath,
+  openUnlockedVolume,
+  registerUnlockedVolume,
+  sourcePathOf,
+  unlockedVolumeForWorker,
+} from '../../encryption'
+import type { SerializedUnlockedVolume } from '../../encryption'
+import { isRaidArrayPath, openRaidArray, raidArrayForWorker, raidMemberPaths, registerRaidArrays } from '../../raid'
+import type { SerializedRaidArray } from '../../raid'
+import {
+  isLogicalVolumePath,
+  logicalVolumeForWorker,
+  logicalVolumeSourcePaths,
+  openLogicalVolume,
+  registerLogicalVolumes,
+} from '../../lvm'
+import type { SerializedRegisteredVolume } from '../../lvm'
+
+// ─── Reader Interface ───────────────────────────────────────────
+
+/**
+ * Read-only view of a device or disk image.
+ *
+ * Structurally compatible with the `ReadableDevice` interface used by the
+ * file extractors, so a SourceReader can be handed to them directly.
+ */
+export interface SourceReader {
+  /** Path the reader was opened from (first segment for split sets). */
+  readonly path: string
+  /** Total logical size of the source in bytes. */
+  readonly size: bigint
+  /**
+   * Read `length` bytes starting at logical byte `offset`.
+   *
+   * May return fewer bytes near the end of the source. I/O errors from the
+   * underlying file are propagated unchanged (including `code: 'EIO'`) so
+   * callers can account for bad sectors themselves.
+   */
+  read(offset: bigint, length: number): Promise<Buffer>
+  /** Release all underlying file handles. */
+  close(): Promise<void>
+}
+
+/** Options accepted by {@link openSourceReader}. */
+export interface OpenSourceOptions {
+  /**
+   * Size reported by device enumeration. Block devices report a zero
+   * stat size on Linux, so this is used when the backend cannot determine
+   * the size itself.
+   */
+  sizeHint?: bigint
+}
+
+// ─── Format Registry ────────────────────────────────────────────
+
+/** Storage formats a source can be opened from. */
+export type ImageFormat = 'raw' | 'split-raw' | 'ewf' | 'vhd' | 'vhdx' | 'vmdk' | 'qcow2' | 'luks' | 'raid' | 'lvm'
+
+type ImageOpener = (imagePath: string, options: OpenSourceOptions) => Promise<SourceReader>
+
+const IMAGE_OPENERS: ReadonlyMap<ImageFormat, ImageOpener> = new Map<ImageFormat, ImageOpener>([
+  ['raw', (p, o) => RawImageReader.open(p, o.sizeHint)],
+  ['split-raw', (p, o) => RawImageReader.openSplit(p, o.sizeHint)],
+  ['ewf', (p) => EwfImageReader.open(p)],
+  ['vhd', (p) => VhdImageReader.open(p)],
+  ['vhdx', (p) => VhdxImageReader.open(p)],
+  ['vmdk', (p) => VmdkImageReader.open(p)],
+  ['qcow2', (p) => Qcow2ImageReader.open(p)],
+  ['luks', (p) => openUnlockedVolume(p, openSourceReader)],
+  ['raid', (p) => openRaidArray(p, openSourceReader)],
+  ['lvm', (p) => openLogicalVolume(p, openSourceReader)],
+])
+
+/** Human-readable description of each format, shown as the device model. */
+export const IMAGE_FORMAT_LABELS: Readonly<Record<ImageFormat, string>> = {
+  'raw': 'Disk image',
+  'split-raw': 'Split disk image',
+  'ewf': 'EnCase evidence file',
+  'vhd': 'Virtual PC disk (VHD)',
+  'vhdx': 'Hyper-V disk (VHDX)',
+  'vmdk': 'VMware disk (VMDK)',
+  'qcow2': 'QEMU disk (qcow2)',
+  'luks': 'LUKS encrypted volume',
+  'raid': 'Virtual RAID array',
+  'lvm': 'LVM logical volume',
+}
+
+/** File extensions offered in the "Open image…" dialog. */
+export const IMAGE_FILE_EXTENSIONS: readonly string[] = [
+  'img', 'dd', 'raw', 'bin', 'ima', '001', 'E01', 'e01', 'Ex01', 'ex01',
+  'vhd', 'vhdx', 'vmdk', 'qcow2', 'qcow', 'iso',
+]
+
+/** Split raw segments are numbered with a three-digit extension. */
+const SPLIT_SEGMENT_PATTERN = /\.\d{3}$/
+
+/** EWF segments: .E01, .E02, ... (EWF1) and .Ex01, .Ex02, ... (EWF2). */
+const EWF_SEGMENT_PATTERN = /\.ex?\d{2}$/i
+
+/** Virtual-disk formats are identified by their conventional extension. */
+const VIRTUAL_DISK_EXTENSIONS: ReadonlyMap<string, ImageFormat> = new Map<string, ImageFormat>([
+  ['.vhd', 'vhd'],
+  ['.vhdx', 'vhdx'],
+  ['.vmdk', 'vmdk'],
+  ['.qcow2', 'qcow2'],
+  ['.qcow', 'qcow2'],
+])
+
+/**
+ * Determine the storage format of a source from its path.
+ */
+export function detectImageFormat(sourcePath: string): ImageFormat {
+  if (isEncryptedVolumePath(sourcePath)) return 'luks'
+  if (isRaidArrayPath(sourcePath)) return 'raid'
+  if (isLogicalVolumePath(sourcePath)) return 'lvm'
+  if (SPLIT_SEGMENT_PATTERN.test(sourcePath)) return 'split-raw'
+  if (EWF_SEGMENT_PATTERN.test(sourcePath)) return 'ewf'
+
+  const ext = sourcePath.slice(sourcePath.lastIndexOf('.')).toLowerCase()
+  const virtualFormat = VIRTUAL_DISK_EXTENSIONS.get(ext)
+  if (virtualFormat) return virtualFormat
+
+  return 'raw'
+}
+
+/**
+ * Whether a path refers to an image file rather than a physical device.
+ */
+export function isDiskImagePath(sourcePath: string): boolean {
+  return !sourcePath.startsWith('/dev/') && !sourcePath.startsWith('\\\\.\\')
+}
+
+/** Whether a path is a decrypted volume, an assembled array or a logical volume. */
+export function isVirtualSourcePath(sourcePath: string): boolean {
+  return virtualSourceParents(sourcePath) !== null
+}
+
+/**
+ * The devices and image files a source reads from: the source itself, or
+ * for a virtual source (a decrypted volume, an assembled array or a
+ * logical volume) the paths underneath it.
+ */
+export function underlyingSourcePaths(sourcePath: string): string[] {
+  const parents = virtualSourceParents(sourcePath)
+  if (!parents) return [sourcePath]
+  return [...new Set(parents.flatMap(underlyingSourcePaths))]
+}
+
+/**
+ * Open a device or disk image for reading.
+ *
+ * @param sourcePath - Device path or path to an image file (any segment of a split set).
+ * @param options - Optional size hint for block devices.
+ * @returns A reader over the whole logical source.
+ */
+export async function openSourceReader(
+  sourcePath: string,
+  options: OpenSourceOptions = {}
+): Promise<SourceReader> {
+  const format = detectImageFormat(sourcePath)
+  const opener = IMAGE_OPENERS.get(format)!
+  return opener(sourcePath, options)
+}
+
+// ─── Virtual Sources ────────────────────────────────────────────
+
+/**
+ * Registered virtual sources, as handed to a worker thread. Workers start
+ * with empty registries, so a worker reading a virtual source needs it and
+ * every virtual source beneath it.
+ */
+export interface VirtualSources {
+  unlockedVolumes: SerializedUnlockedVolume[]
+  raidArrays: SerializedRaidArray[]
+  logicalVolumes: SerializedRegisteredVolume[]
+}
+
+/**
+ * The virtual sources a worker reading `sourcePath` must register. Empty
+ * for a device or image file.
+ */
+export function virtualSourcesForWorker(sourcePath: string): VirtualSources {
+  const sources: VirtualSources = { unlockedVolumes: [], raidArrays: [], logicalVolumes: [] }
+
+  const collect = (path: string): void => {
+    const volume = unlockedVolumeForWorker(path)
+    if (volume) sources.unlockedVolumes.push(volume)
+    const array = raidArrayForWorker(path)
+    if (array) sources.raidArrays.push(array)
+    const logical = logicalVolumeForWorker(path)
+    if (logical) sources.logicalVolumes.push(logical)
+
+    for (const parent of virtualSourceParents(path) ?? []) collect(parent)
+  }
+
+  collect(sourcePath)
+  return sources
+}
+
+/** Register the virtual sources a worker received in its workerData. */
+export function registerVirtualSources(sources: VirtualSources): void {
+  for (const volume of sources.unlockedVolumes) registerUnlockedVolume(deserializeUnlockedVolume(volume))
+  registerRaidArrays(sources.raidArrays)
+  registerLogicalVolumes(sources.logicalVolumes)
+}
+
+/** Paths a virtual source reads from directly, or null for a device or image file. */
+function virtualSourceParents(sourcePath: string): string[] | null {
+  if (isEncryptedVolumePath(sourcePath)) return [sourcePathOf(sourcePath)]
+  if (isRaidArrayPath(sourcePath)) return raidMemberPaths(sourcePath)
+  if (isLogicalVolumePath(sourcePath)) return logicalVolumeSourcePaths(sourcePath)
+  return null
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * `fs.read`-style convenience wrapper: read from a SourceReader into an
+ * existing buffer and report how many bytes were filled.
+ */
+export async function readInto(
+  reader: SourceReader,
+  target: Buffer,
+  targetOffset: number,
+  length: number,
+  position: bigint
+): Promise<{ bytesRead: number }> {
+  const data = await reader.read(position, length)
+  data.copy(target, targetOffset, 0, Math.min(data.length, length))
+  return { bytesRead: Math.min(data.length, length) }
+}
+
+// ─── Re-exports ─────────────────────────────────────────────────
+
+export { RawImageReader } from './raw-image-reader'
+export { EwfImageReader } from './ewf-reader'
+export type { EwfStoredHashes } from './ewf-reader'
+export { VhdImageReader } from './vhd-reader'
+export { VhdxImageReader } from './vhdx-reader'
+export { VmdkImageReader } from './vmdk-reader'
+export { Qcow2ImageReader } from './qcow2-reader'
+export { SliceReader } from '../slice-reader'
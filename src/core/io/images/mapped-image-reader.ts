@@ -0,0 +1,134 @@
+/**
+ * Mapped Image Reader
+ *
+ * Shared base for virtual-disk formats (VHD, VHDX, VMDK, qcow2) that store
+ * the guest disk as fixed-size blocks located through an allocation table.
+ * A subclass only answers "where does the virtual byte at `offset` live?"
+ * by returning a run — a host file range, a stretch of zeros for
+ * unallocated space, or bytes it has already decoded — and this class
+ * stitches runs together into a plain `SourceReader.read`.
+ */
+
+import * as fs from 'fs'
+import { promisify } from 'util'
+import type { SourceReader } from './index'
+
+const fsRead = promisify(fs.read)
+const fsClose = promisify(fs.close)
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/**
+ * A contiguous run of virtual bytes starting at the requested offset.
+ * `length` may extend past the end of the request; it is clamped by the
+ * caller.
+ */
+export type MappedRun =
+  | { kind: 'file'; fd: number; offset: number; length: number }
+  | { kind: 'zero'; length: number }
+  | { kind: 'data'; data: Buffer; length: number }
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Number of allocation tables (L2 / grain tables) kept in memory. */
+const TABLE_CACHE_SIZE = 128
+
+// ─── Base Class ─────────────────────────────────────────────────
+
+export abstract class MappedImageReader implements SourceReader {
+  readonly path: string
+  abstract readonly size: bigint
+  /** Every host file descriptor opened for this image, closed together. */
+  protected fds: number[] = []
+  private tableCache = new Map<string, Buffer>()
+  private closed = false
+
+  protected constructor(imagePath: string) {
+    this.path = imagePath
+  }
+
+  /**
+   * Map a virtual offset (always < size) to the run that contains it.
+   */
+  protected abstract mapRun(offset: bigint): Promise<MappedRun>
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (this.closed) {
+      throw new Error(`Image reader for ${this.path} has been closed`)
+    }
+    if (offset >= this.size || length <= 0) return Buffer.alloc(0)
+
+    const end = offset + BigInt(length) > this.size ? this.size : offset + BigInt(length)
+    const out = Buffer.alloc(Number(end - offset))
+
+    let position = offset
+    while (position < end) {
+      const run = await this.mapRun(position)
+      const filled = Number(position - offset)
+      const take = Math.min(run.length, out.length - filled)
+      if (take <= 0) break
+
+      if (run.kind === 'file') {
+        const { bytesRead } = await fsRead(run.fd, out, filled, take, run.offset)
+        // A truncated host file reads as zeros past its end.
+        if (bytesRead < take) out.fill(0, filled + bytesRead, filled + take)
+      } else if (run.kind === 'data') {
+        run.data.copy(out, filled, 0, Math.min(take, run.data.length))
+      }
+      // 'zero' runs are already zero-filled.
+
+      position += BigInt(take)
+    }
+
+    return out
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.tableCache.clear()
+    await Promise.allSettled(this.fds.map((fd) => fsClose(fd)))
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  /**
+   * Load an allocation table through a small LRU cache. Tables are keyed by
+   * host location so identical tables are never loaded twice.
+   */
+  protected async readTable(fd: number, offset: number, length: number): Promise<Buffer> {
+    const key = `${fd}:${offset}`
+    const cached = this.tableCache.get(key)
+    if (cached) {
+      this.tableCache.delete(key)
+      this.tableCache.set(key, cached)
+      return cached
+    }
+
+    const table = await readFileRange(fd, offset, length)
+    this.tableCache.set(key, table)
+    if (this.tableCache.size > TABLE_CACHE_SIZE) {
+      const oldest = this.tableCache.keys().next().value as string
+      this.tableCache.delete(oldest)
+    }
+    return table
+  }
+
+  /** Run length from `offset` to the end of its block, capped by the disk end. */
+  protected runToBlockEnd(offset: bigint, blockSize: number): number {
+    const within = Number(offset % BigInt(blockSize))
+    const toBlockEnd = blockSize - within
+    const toDiskEnd = this.size - offset
+    return BigInt(toBlockEnd) < toDiskEnd ? toBlockEnd : Number(toDiskEnd)
+  }
+}
+
+/**
+ * Read `length` bytes from a host file. Bytes past end of file read as
+ * zeros so a truncated image fails soft rather than throwing.
+ */
+export async function readFileRange(fd: number, offset: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length)
+  await fsRead(fd, buffer, 0, length, offset)
+  return buffer
+}
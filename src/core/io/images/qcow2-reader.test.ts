@@ -0,0 +1,87 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { deflateRawSync } from 'node:zlib'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { Qcow2ImageReader } from './qcow2-reader'
+
+/** 512-byte clusters: 64 entries per L2 table */
+const CLUSTER_BITS = 9
+const CLUSTER = 1 << CLUSTER_BITS
+
+const COPIED = 1n << 63n
+const COMPRESSED = 1n << 62n
+const ZERO = 1n
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'qcow2-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function openImage(image: Buffer, name: string): Promise<Qcow2ImageReader> {
+  const path = join(dir, `${name}.qcow2`)
+  await writeFile(path, image)
+  return Qcow2ImageReader.open(path)
+}
+
+/** Compressed cluster contents: a repeating byte pattern */
+const pattern = Buffer.from(Array.from({ length: CLUSTER }, (_, i) => i % 7))
+
+/**
+ * A four-cluster disk. Host clusters: header, L1, L2, then the data of
+ * guest cluster 0, a stale cluster behind a zero-flagged entry and the
+ * compressed stream of guest cluster 3. Guest cluster 1 is unallocated.
+ */
+function qcow2Image(version = 3): Buffer {
+  const image = Buffer.alloc(6 * CLUSTER)
+  image.writeUInt32BE(0x514649fb, 0)
+  image.writeUInt32BE(version, 4)
+  image.writeUInt32BE(CLUSTER_BITS, 20)
+  image.writeBigUInt64BE(BigInt(4 * CLUSTER), 24)
+  image.writeUInt32BE(1, 36)
+  image.writeBigUInt64BE(BigInt(CLUSTER), 40)
+
+  image.writeBigUInt64BE(BigInt(2 * CLUSTER) | COPIED, CLUSTER)
+
+  const l2 = 2 * CLUSTER
+  image.writeBigUInt64BE(BigInt(3 * CLUSTER) | COPIED, l2)
+  image.writeBigUInt64BE(BigInt(4 * CLUSTER) | ZERO, l2 + 16)
+  // Compressed: host byte offset in the low 61 bits, no extra sectors
+  image.writeBigUInt64BE(BigInt(5 * CLUSTER) | COMPRESSED, l2 + 24)
+
+  image.fill(0xaa, 3 * CLUSTER, 4 * CLUSTER)
+  image.fill(0xff, 4 * CLUSTER, 5 * CLUSTER)
+  deflateRawSync(pattern).copy(image, 5 * CLUSTER)
+  return image
+}
+
+describe('Qcow2ImageReader', () => {
+  it('reads allocated, unallocated, zero-flagged and compressed clusters', async () => {
+    const reader = await openImage(qcow2Image(), 'disk')
+    const expected = Buffer.concat([Buffer.alloc(CLUSTER, 0xaa), Buffer.alloc(2 * CLUSTER), pattern])
+
+    expect(reader.size).toBe(BigInt(4 * CLUSTER))
+    expect((await reader.read(0n, 4 * CLUSTER)).equals(expected)).toBe(true)
+    expect((await reader.read(BigInt(3 * CLUSTER + 100), 50)).equals(pattern.subarray(100, 150))).toBe(true)
+    await reader.close()
+  })
+
+  it('reads version 2 images', async () => {
+    const reader = await openImage(qcow2Image(2), 'v2')
+
+    expect((await reader.read(0n, CLUSTER)).equals(Buffer.alloc(CLUSTER, 0xaa))).toBe(true)
+    await reader.close()
+  })
+
+  it('rejects images with a backing file', async () => {
+    const image = qcow2Image()
+    image.writeBigUInt64BE(BigInt(CLUSTER - 16), 8)
+
+    await expect(openImage(image, 'backed')).rejects.toThrow(/backing file/)
+  })
+})
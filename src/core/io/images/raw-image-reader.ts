@@ -0,0 +1,189 @@
+/**
+ * Raw Image Reader
+ *
+ * Reads raw (dd-style) sources: block devices, single .img/.dd files, and
+ * split sets where the image was cut into numbered segments
+ * (disk.001, disk.002, ...). Segments are concatenated in order into one
+ * logical address space; a read that straddles a segment boundary is
+ * served from both files transparently.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import type { SourceReader } from './index'
+
+const fsOpen = promisify(fs.open)
+const fsRead = promisify(fs.read)
+const fsFstat = promisify(fs.fstat)
+const fsClose = promisify(fs.close)
+const fsAccess = promisify(fs.access)
+
+// ─── Types ──────────────────────────────────────────────────────
+
+interface ImageSegment {
+  path: string
+  fd: number
+  /** Logical offset of the first byte of this segment. */
+  start: bigint
+  size: bigint
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Upper bound on split segments, to stop runaway directory probing. */
+const MAX_SPLIT_SEGMENTS = 10_000
+
+/** Some platforms limit single read sizes on raw devices. */
+const MAX_SINGLE_READ = 1024 * 1024
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class RawImageReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  private segments: ImageSegment[]
+  private closed = false
+
+  private constructor(imagePath: string, segments: ImageSegment[]) {
+    this.path = imagePath
+    this.segments = segments
+    this.size = segments.reduce((total, s) => total + s.size, 0n)
+  }
+
+  /**
+   * Open a single raw device or image file.
+   *
+   * @param imagePath - Device path or image file path.
+   * @param sizeHint - Size to use when fstat reports 0 (block devices).
+   */
+  static async open(imagePath: string, sizeHint?: bigint): Promise<RawImageReader> {
+    const fd = await fsOpen(imagePath, 'r')
+    let size = 0n
+    try {
+      const stat = await fsFstat(fd)
+      size = stat.size > 0 ? BigInt(stat.size) : 0n
+    } catch {
+      size = 0n
+    }
+    if (size === 0n && sizeHint) size = sizeHint
+
+    return new RawImageReader(imagePath, [{ path: imagePath, fd, start: 0n, size }])
+  }
+
+  /**
+   * Open a split raw set from any of its segments.
+   *
+   * Numbering may start at .000 or .001; segments are collected in order
+   * until the first missing number.
+   */
+  static async openSplit(segmentPath: string, sizeHint?: bigint): Promise<RawImageReader> {
+    const paths = await RawImageReader.findSegments(segmentPath)
+    if (paths.length <= 1) return RawImageReader.open(segmentPath, sizeHint)
+
+    const segments: ImageSegment[] = []
+    let start = 0n
+    try {
+      for (const segPath of paths) {
+        const fd = await fsOpen(segPath, 'r')
+        const stat = await fsFstat(fd).catch(async (err) => {
+          await fsClose(fd)
+          throw err
+        })
+        const size = BigInt(stat.size)
+        segments.push({ path: segPath, fd, start, size })
+        start += size
+      }
+    } catch (err) {
+      await Promise.allSettled(segments.map((s) => fsClose(s.fd)))
+      throw err
+    }
+
+    return new RawImageReader(paths[0], segments)
+  }
+
+  /**
+   * List every segment of the split set that `segmentPath` belongs to.
+   */
+  static async findSegments(segmentPath: string): Promise<string[]> {
+    const ext = path.extname(segmentPath)
+    const base = segmentPath.slice(0, -ext.length)
+    const width = ext.length - 1
+
+    const segmentName = (n: number): string => `${base}.${String(n).padStart(width, '0')}`
+    const exists = async (p: string): Promise<boolean> => {
+      try {
+        await fsAccess(p, fs.constants.R_OK)
+        return true
+      } catch {
+        return false
+      }
+    }
+
+    const first = (await exists(segmentName(0))) ? 0 : 1
+    const paths: string[] = []
+    for (let n = first; n < first + MAX_SPLIT_SEGMENTS; n++) {
+      const candidate = segmentName(n)
+      if (!(await exists(candidate))) break
+      paths.push(candidate)
+    }
+
+    return paths.length > 0 ? paths : [segmentPath]
+  }
+
+  /** Paths of all segments backing this reader. */
+  get segmentPaths(): string[] {
+    return this.segments.map((s) => s.path)
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (this.closed) {
+      throw new Error(`Image reader for ${this.path} has been closed`)
+    }
+
+    const buffer = Buffer.alloc(length)
+    let filled = 0
+    let position = offset
+
+    while (filled < length) {
+      const segment = this.findSegment(position)
+      if (!segment) break
+
+      const segmentOffset = position - segment.start
+      const segmentRemaining = segment.size - segmentOffset
+      const wanted = Math.min(length - filled, MAX_SINGLE_READ)
+      const chunk = BigInt(wanted) < segmentRemaining ? wanted : Number(segmentRemaining)
+
+      const result = await fsRead(segment.fd, buffer, filled, chunk, Number(segmentOffset))
+      if (result.bytesRead === 0) break
+
+      filled += result.bytesRead
+      position += BigInt(result.bytesRead)
+    }
+
+    return filled < length ? buffer.subarray(0, filled) : buffer
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    await Promise.allSettled(this.segments.map((s) => fsClose(s.fd)))
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private findSegment(position: bigint): ImageSegment | null {
+    // A single segment with unknown size (block device without a hint) is
+    // read until the OS reports end of file.
+    if (this.segments.length === 1 && this.segments[0].size === 0n) {
+      return { ...this.segments[0], size: position + BigInt(MAX_SINGLE_READ) }
+    }
+
+    for (const segment of this.segments) {
+      if (position >= segment.start && position < segment.start + segment.size) {
+        return segment
+      }
+    }
+    return null
+  }
+}
@@ -0,0 +1,102 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { VhdImageReader } from './vhd-reader'
+
+const BLOCK = 4096
+const DISK_SIZE = 4 * BLOCK
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'vhd-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function openImage(image: Buffer, name: string): Promise<VhdImageReader> {
+  const path = join(dir, `${name}.vhd`)
+  await writeFile(path, image)
+  return VhdImageReader.open(path)
+}
+
+function footer(diskType: number, dataOffset: bigint): Buffer {
+  const footer = Buffer.alloc(512)
+  footer.write('conectix', 0, 'ascii')
+  footer.writeBigUInt64BE(dataOffset, 16)
+  footer.writeBigUInt64BE(BigInt(DISK_SIZE), 48)
+  footer.writeUInt32BE(diskType, 60)
+  return footer
+}
+
+/** A block of guest data: every byte holds the block's index */
+const block = (index: number): Buffer => Buffer.alloc(BLOCK, index + 1)
+
+/**
+ * Footer copy, dynamic header at 512 and the BAT at 1536, then blocks 0
+ * and 2 at sectors 4 and 13, each a sector bitmap and the block's data.
+ */
+function dynamicImage(): Buffer {
+  const header = Buffer.alloc(1024)
+  header.write('cxsparse', 0, 'ascii')
+  header.writeBigUInt64BE(1536n, 16)
+  header.writeUInt32BE(4, 28)
+  header.writeUInt32BE(BLOCK, 32)
+
+  const bat = Buffer.alloc(512, 0xff)
+  bat.writeUInt32BE(4, 0)
+  bat.writeUInt32BE(13, 8)
+
+  const bitmap = Buffer.alloc(512, 0xff)
+  return Buffer.concat([
+    footer(3, 512n),
+    header,
+    bat,
+    bitmap,
+    block(0),
+    bitmap,
+    block(2),
+    footer(3, 512n)
+  ])
+}
+
+describe('VhdImageReader', () => {
+  it('reads a fixed disk as the data before its footer', async () => {
+    const data = Buffer.concat([block(0), block(1), block(2), block(3)])
+    const reader = await openImage(Buffer.concat([data, footer(2, 0xffffffffffffffffn)]), 'fixed')
+
+    expect(reader.isFixed).toBe(true)
+    expect(reader.size).toBe(BigInt(DISK_SIZE))
+    expect((await reader.read(0n, DISK_SIZE + 512)).equals(data)).toBe(true)
+    await reader.close()
+  })
+
+  it('locates dynamic blocks through the BAT and reads unallocated ones as zeros', async () => {
+    const reader = await openImage(dynamicImage(), 'dynamic')
+    const expected = Buffer.concat([block(0), Buffer.alloc(BLOCK), block(2), Buffer.alloc(BLOCK)])
+
+    expect(reader.isFixed).toBe(false)
+    expect(reader.size).toBe(BigInt(DISK_SIZE))
+    expect((await reader.read(0n, DISK_SIZE)).equals(expected)).toBe(true)
+    expect((await reader.read(BigInt(BLOCK - 10), 20)).equals(expected.subarray(BLOCK - 10, BLOCK + 10))).toBe(true)
+    await reader.close()
+  })
+
+  it('falls back to the footer copy at the start of a dynamic disk', async () => {
+    const image = dynamicImage()
+    image.fill(0, image.length - 512)
+    const reader = await openImage(image, 'dynamic-truncated')
+
+    expect((await reader.read(0n, BLOCK)).equals(block(0))).toBe(true)
+    await reader.close()
+  })
+
+  it('rejects differencing disks', async () => {
+    await expect(openImage(Buffer.concat([footer(4, 512n), footer(4, 512n)]), 'differencing')).rejects.toThrow(
+      /Differencing VHDs are not supported/
+    )
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * VHD Reader
+ *
+ * Reads Microsoft Virtual PC / Hyper-V Generation 1 disks (.vhd). A fixed
+ * VHD is the raw disk followed by a 512-byte footer. A dynamic VHD keeps
+ * a copy of the footer at offset 0, a dynamic disk header, and a Block
+ * Allocation Table (BAT) of 32-bit sector offsets; each allocated block is
+ * a sector bitmap followed by the block data. Blocks absent from the BAT
+ * read as zeros. All on-disk integers are big-endian.
+ *
+ * Differencing disks need their parent chain and are rejected.
+ */
+
+import * as fs from 'fs'
+import { promisify } from 'util'
+import { MappedImageReader, readFileRange } from './mapped-image-reader'
+import type { MappedRun } from './mapped-image-reader'
+
+const fsOpen = promisify(fs.open)
+const fsFstat = promisify(fs.fstat)
+const fsClose = promisify(fs.close)
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const FOOTER_SIZE = 512
+const FOOTER_COOKIE = 'conectix'
+const DYNAMIC_HEADER_SIZE = 1024
+const DYNAMIC_HEADER_COOKIE = 'cxsparse'
+
+const DISK_TYPE_FIXED = 2
+const DISK_TYPE_DYNAMIC = 3
+const DISK_TYPE_DIFFERENCING = 4
+
+const SECTOR_SIZE = 512
+const BAT_UNUSED = 0xffffffff
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class VhdImageReader extends MappedImageReader {
+  readonly size: bigint
+  private fd: number
+  private fixed: boolean
+  private blockSize = 0
+  private bitmapSize = 0
+  private bat: Buffer = Buffer.alloc(0)
+
+  private constructor(imagePath: string, fd: number, size: bigint, fixed: boolean) {
+    super(imagePath)
+    this.fd = fd
+    this.fds.push(fd)
+    this.size = size
+    this.fixed = fixed
+  }
+
+  /**
+   * Open a fixed or dynamic VHD.
+   *
+   * @throws If the footer is missing or the disk is a differencing disk.
+   */
+  static async open(imagePath: string): Promise<VhdImageReader> {
+    const fd = await fsOpen(imagePath, 'r')
+    let reader: VhdImageReader | null = null
+    try {
+      const stat = await fsFstat(fd)
+      const fileSize = stat.size
+      if (fileSize < FOOTER_SIZE) {
+        throw new Error(`${imagePath} is too small to be a VHD`)
+      }
+
+      // The footer lives in the last sector; dynamic disks also keep a copy
+      // at offset 0 which is used if the trailing one is damaged.
+      let footer = await readFileRange(fd, fileSize - FOOTER_SIZE, FOOTER_SIZE)
+      if (footer.toString('ascii', 0, 8) !== FOOTER_COOKIE) {
+        footer = await readFileRange(fd, 0, FOOTER_SIZE)
+      }
+      if (footer.toString('ascii', 0, 8) !== FOOTER_COOKIE) {
+        throw new Error(`${imagePath} is not a VHD (missing footer)`)
+      }
+
+      const dataOffset = footer.readBigUInt64BE(16)
+      const currentSize = footer.readBigUInt64BE(48)
+      const diskType = footer.readUInt32BE(60)
+
+      if (diskType === DISK_TYPE_DIFFERENCING) {
+        throw new Error('Differencing VHDs are not supported; open the parent disk or merge the chain first')
+      }
+      if (diskType !== DISK_TYPE_FIXED && diskType !== DISK_TYPE_DYNAMIC) {
+        throw new Error(`Unsupported VHD disk type ${diskType}`)
+      }
+
+      if (diskType === DISK_TYPE_FIXED) {
+        reader = new VhdImageReader(imagePath, fd, currentSize, true)
+        return reader
+      }
+
+      const header = await readFileRange(fd, Number(dataOffset), DYNAMIC_HEADER_SIZE)
+      if (header.toString('ascii', 0, 8) !== DYNAMIC_HEADER_COOKIE) {
+        throw new Error(`${imagePath} has a corrupt dynamic disk header`)
+      }
+
+      const tableOffset = Number(header.readBigUInt64BE(16))
+      const maxTableEntries = header.readUInt32BE(28)
+      const blockSize = header.readUInt32BE(32)
+      if (blockSize === 0 || blockSize % SECTOR_SIZE !== 0) {
+        throw new Error(`${imagePath} has an invalid VHD block size (${blockSize})`)
+      }
+
+      reader = new VhdImageReader(imagePath, fd, currentSize, false)
+      reader.blockSize = blockSize
+      // One bit per sector, padded to a whole sector.
+      const bitmapBytes = Math.ceil(blockSize / SECTOR_SIZE / 8)
+      reader.bitmapSize = Math.ceil(bitmapBytes / SECTOR_SIZE) * SECTOR_SIZE
+      reader.bat = await readFileRange(fd, tableOffset, maxTableEntries * 4)
+      return reader
+    } catch (err) {
+      if (reader) await reader.close()
+      else await fsClose(fd)
+      throw err
+    }
+  }
+
+  /** Whether this is a fixed (non-sparse) VHD. */
+  get isFixed(): boolean {
+    return this.fixed
+  }
+
+  protected async mapRun(offset: bigint): Promise<MappedRun> {
+    if (this.fixed) {
+      const length = this.size - offset
+      return { kind: 'file', fd: this.fd, offset: Number(offset), length: Number(length) }
+    }
+
+    const block = Number(offset / BigInt(this.blockSize))
+    const within = Number(offset % BigInt(this.blockSize))
+    const length = this.runToBlockEnd(offset, this.blockSize)
+
+    const entry = block * 4 + 4 <= this.bat.length ? this.bat.readUInt32BE(block * 4) : BAT_UNUSED
+    if (entry === BAT_UNUSED) return { kind: 'zero', length }
+
+    const dataStart = entry * SECTOR_SIZE + this.bitmapSize
+    return { kind: 'file', fd: this.fd, offset: dataStart + within, length }
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * VMDK Reader
+ *
+ * Reads VMware virtual disks. A VMDK is described by a text descriptor that
+ * lists one or more extents; the descriptor is either a small standalone
+ * .vmdk file (split "twoGbMaxExtentSparse" / flat disks) or embedded in the
+ * single sparse file of a "monolithicSparse" disk.
+ *
+ * Sparse extents start with a "KDMV" header and locate data through a two
+ * level table: the grain directory (GD) points at grain tables (GT), whose
+ * entries give the sector of each allocated grain. A zero entry means the
+ * grain was never written and reads as zeros. Flat extents are raw files and
+ * ZERO extents are pure holes. All integers are little-endian.
+ *
+ * Stream-optimized (compressed) disks and differencing (child) disks are
+ * rejected.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { promisify } from 'util'
+import { MappedImageReader, readFileRange } from './mapped-image-reader'
+import type { MappedRun } from './mapped-image-reader'
+
+const fsOpen = promisify(fs.open)
+const fsFstat = promisify(fs.fstat)
+const fsClose = promisify(fs.close)
+
+// ─── Types ──────────────────────────────────────────────────────
+
+interface VmdkExtent {
+  type: 'sparse' | 'flat' | 'zero'
+  /** Virtual byte offset of the first byte of this extent. */
+  start: bigint
+  size: bigint
+  fd: number
+  /** Flat extents: byte offset of the extent data inside its file. */
+  fileOffset: number
+  /** Sparse extents: grain size in bytes. */
+  grainSize: number
+  /** Sparse extents: entries per grain table. */
+  gtEntries: number
+  /** Sparse extents: grain directory (sector offsets of grain tables). */
+  gd: Buffer
+}
+
+interface SparseHeader {
+  capacity: bigint
+  grainSize: number
+  descriptorOffset: number
+  descriptorSize: number
+  gtEntries: number
+  gdOffset: bigint
+  flags: number
+}
+
+interface DescriptorExtent {
+  sectors: bigint
+  type: string
+  fileName: string
+  offset: number
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const SECTOR_SIZE = 512
+const SPARSE_MAGIC = 0x564d444b // "KDMV"
+const GD_AT_END = 0xffffffffffffffffn
+const FLAG_COMPRESSED = 1 << 16
+
+/** Largest standalone descriptor we are willing to read. */
+const MAX_DESCRIPTOR_SIZE = 1024 * 1024
+
+const NO_PARENT_CID = 'ffffffff'
+
+const EXTENT_LINE = /^\s*(RW|RDONLY|NOACCESS)\s+(\d+)\s+(\w+)(?:\s+"([^"]*)"(?:\s+(\d+))?)?/
+
+// ─── Public API ─────────────────────────────────────────────────
+
+export class VmdkImageReader extends MappedImageReader {
+  readonly size: bigint
+  private extents: VmdkExtent[]
+
+  private constructor(imagePath: string, extents: VmdkExtent[], fds: number[]) {
+    super(imagePath)
+    this.extents = extents
+    this.fds.push(...fds)
+    this.size = extents.reduce((total, e) => total + e.size, 0n)
+  }
+
+  /**
+   * Open a VMDK from its descriptor file or its monolithic sparse file.
+   *
+   * @throws If the disk is stream-optimized, a child disk, or an extent
+   *   file is missing.
+   */
+  static async open(imagePath: string): Promise<VmdkImageReader> {
+    const opened = new Map<string, number>()
+    const openFile = async (filePath: string): Promise<number> => {
+      const resolved = path.resolve(filePath)
+      const existing = opened.get(resolved)
+      if (existing !== undefined) return existing
+      const fd = await fsOpen(resolved, 'r')
+      opened.set(resolved, fd)
+      return fd
+    }
+
+    try {
+      const fd = await openFile(imagePath)
+      const head = await readFileRange(fd, 0, SECTOR_SIZE)
+
+      let descriptorText: string
+      if (head.readUInt32LE(0) === SPARSE_MAGIC) {
+        const header = parseSparseHeader(head)
+        if (header.descriptorSize === 0) {
+          // Bare sparse extent without an embedded descriptor.
+          const extent = await VmdkImageReader.loadSparseExtent(fd, 0n, header.capacity * BigInt(SECTOR_SIZE), imagePath)
+          return new VmdkImageReader(imagePath, [extent], [...opened.values()])
+        }
+        const raw = await readFileRange(fd, header.descriptorOffset * SECTOR_SIZE, header.descriptorSize * SECTOR_SIZE)
+        descriptorText = raw.toString('utf8').replace(/\0+$/, '')
+      } else {
+        const stat = await fsFstat(fd)
+        if (stat.size > MAX_DESCRIPTOR_SIZE) {
+          throw new Error(`${imagePath} is not a VMDK descriptor or sparse extent`)
+        }
+        descriptorText = (await readFileRange(fd, 0, stat.size)).toString('utf8')
+      }
+
+      const descriptor = parseDescriptor(descriptorText)
+      if (descriptor.createType.toLowerCase().includes('streamoptimized')) {
+        throw new Error('Stream-optimized VMDKs are not supported; convert the disk to a sparse or flat VMDK first')
+      }
+      if (descriptor.parentCID && descriptor.parentCID.toLowerCase() !== NO_PARENT_CID) {
+        throw new Error('Child (differencing) VMDKs are not supported; open the parent disk or consolidate snapshots first')
+      }
+      if (descriptor.extents.length === 0) {
+        throw new Error(`${imagePath} does not list any VMDK extents`)
+      }
+
+      const dir = path.dirname(imagePath)
+      const extents: VmdkExtent[] = []
+      let start = 0n
+      for (const entry of descriptor.extents) {
+        const size = entry.sectors * BigInt(SECTOR_SIZE)
+        const type = entry.type.toUpperCase()
+
+        if (type === 'ZERO') {
+          extents.push({ type: 'zero', start, size, fd: -1, fileOffset: 0, grainSize: 0, gtEntries: 0, gd: Buffer.alloc(0) })
+        } else if (type === 'FLAT' || type === 'VMFS') {
+          const extentFd = await openFile(path.join(dir, entry.fileName))
+          extents.push({
+            type: 'flat', start, size, fd: extentFd,
+            fileOffset: entry.offset * SECTOR_SIZE, grainSize: 0, gtEntries: 0, gd: Buffer.alloc(0)
+          })
+        } else if (type === 'SPARSE') {
+          const extentFd = await openFile(path.join(dir, entry.fileName))
+          extents.push(await VmdkImageReader.loadSparseExtent(extentFd, start, size, entry.fileName))
+        } else {
+          throw new Error(`Unsupported VMDK extent type ${entry.type}`)
+        }
+        start += size
+      }
+
+      return new VmdkImageReader(imagePath, extents, [...opened.values()])
+    } catch (err) {
+      await Promise.allSettled([...opened.values()].map((fd) => fsClose(fd)))
+      throw err
+    }
+  }
+
+  protected async mapRun(offset: bigint): Promise<MappedRun> {
+    const extent = this.findExtent(offset)
+    const within = offset - extent.start
+    const toExtentEnd = Number(extent.size - within)
+
+    switch (extent.type) {
+      case 'zero':
+        return { kind: 'zero', length: toExtentEnd }
+      case 'flat':
+        return { kind: 'file', fd: extent.fd, offset: extent.fileOffset + Number(within), length: toExtentEnd }
+    }
+
+    const grain = Number(within / BigInt(extent.grainSize))
+    const withinGrain = Number(within % BigInt(extent.grainSize))
+    const length = Math.min(extent.grainSize - withinGrain, toExtentEnd)
+
+    const gdIndex = Math.floor(grain / extent.gtEntries)
+    const gtIndex = grain % extent.gtEntries
+    const gtSector = gdIndex * 4 + 4 <= extent.gd.length ? extent.gd.readUInt32LE(gdIndex * 4) : 0
+    if (gtSector === 0) return { kind: 'zero', length }
+
+    const gt = await this.readTable(extent.fd, gtSector * SECTOR_SIZE, extent.gtEntries * 4)
+    const grainSector = gt.readUInt32LE(gtIndex * 4)
+    // 0 = never allocated, 1 = explicitly zeroed grain.
+    if (grainSector <= 1) return { kind: 'zero', length }
+
+    return { kind: 'file', fd: extent.fd, offset: grainSector * SECTOR_SIZE + withinGrain, length }
+  }
+
+  // ─── Helpers ────────────────────────────────────────────────
+
+  private findExtent(offset: bigint): VmdkExtent {
+    for (const extent of this.extents) {
+      if (offset < extent.start + extent.size) return extent
+    }
+    return this.extents[this.extents.length - 1]
+  }
+
+  private static async loadSparseExtent(
+    fd: number,
+    start: bigint,
+    size: bigint,
+    name: string
+  ): Promise<VmdkExtent> {
+    const head = await readFileRange(fd, 0, SECTOR_SIZE)
+    if (head.readUInt32LE(0) !== SPARSE_MAGIC) {
+      throw new Error(`VMDK extent ${name} is not a sparse extent`)
+    }
+
+    const header = parseSparseHeader(head)
+    if (header.gdOffset === GD_AT_END || header.flags & FLAG_COMPRESSED) {
+      throw new Error('Stream-optimized VMDKs are not supported; convert the disk to a sparse or flat VMDK first')
+    }
+    if (header.grainSize === 0 || header.gtEntries === 0) {
+      throw new Error(`VMDK extent ${name} has an invalid sparse header`)
+    }
+
+    const grainBytes = header.grainSize * SECTOR_SIZE
+    const grains = Number((header.capacity + BigInt(header.grainSize) - 1n) / BigInt(header.grainSize))
+    const gdEntries = Math.ceil(grains / header.gtEntries)
+    const gd = await readFileRange(fd, Number(header.gdOffset) * SECTOR_SIZE, gdEntries * 4)
+
+    return {
+      type: 'sparse',
+      start,
+      size,
+      fd,
+      fileOffset: 0,
+      grainSize: grainBytes,
+      gtEntries: header.gtEntries,
+      gd
+    }
+  }
+}
+
+// ─── Parsing ────────────────────────────────────────────────────
+
+function parseSparseHeader(head: Buffer): SparseHeader {
+  return {
+    flags: head.readUInt32LE(8),
+    capacity: head.readBigUInt64LE(12),
+    grainSize: Number(head.readBigUInt64LE(20)),
+    descriptorOffset: Number(head.readBigUInt64LE(28)),
+    descriptorSize: Number(head.readBigUInt64LE(36)),
+    gtEntries: head.readUInt32LE(44),
+    gdOffset: head.readBigUInt64LE(56)
+  }
+}
+
+function parseDescriptor(text: string): {
+  createType: string
+  parentCID: string | null
+  extents: DescriptorExtent[]
+} {
+  let createType = ''
+  let parentCID: string | null = null
+  const extents: DescriptorExtent[] = []
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trimStart().startsWith('#')) continue
+
+    const extent = EXTENT_LINE.exec(line)
+    if (extent) {
+      extents.push({
+        sectors: BigInt(extent[2]),
+        type: extent[3],
+        fileName: extent[4] ?? '',
+        offset: extent[5] ? parseInt(extent[5], 10) : 0
+      })
+      continue
+    }
+
+    const eq = line.indexOf('=')
+    if (eq < 0) continue
+    const key = line.slice(0, eq).trim()
+    const value = line.slice(eq + 1).trim().replace(/^"|"$/g, '')
+    if (key === 'createType') createType = value
+    else if (key === 'parentCID') parentCID = value
+  }
+
+  return { createType, parentCID, extents }
+}
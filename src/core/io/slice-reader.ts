@@ -0,0 +1,43 @@
+/**
+ * Slice Reader
+ *
+ * Exposes a byte window of another source as if it were a device of its
+ * own. Used to address a partition inside a disk image by offset: parsers
+ * and allocation bitmaps see the partition starting at byte 0, while the
+ * caller translates results back with {@link SliceReader.start}.
+ */
+
+import type { SourceReader } from './images'
+
+export class SliceReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  /** Absolute offset of the window inside the parent source. */
+  readonly start: bigint
+  private parent: SourceReader
+
+  /**
+   * @param parent - Underlying source. Not closed by this reader.
+   * @param start - Absolute byte offset where the window begins.
+   * @param length - Window length in bytes; clamped to the parent size.
+   */
+  constructor(parent: SourceReader, start: bigint, length: bigint) {
+    this.parent = parent
+    this.path = parent.path
+    this.start = start
+    const available = parent.size > start ? parent.size - start : 0n
+    this.size = parent.size > 0n && length > available ? available : length
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (offset >= this.size) return Buffer.alloc(0)
+    const remaining = this.size - offset
+    const clamped = BigInt(length) < remaining ? length : Number(remaining)
+    return this.parent.read(this.start + offset, clamped)
+  }
+
+  /** The parent owns the file handles, so closing a slice is a no-op. */
+  async close(): Promise<void> {
+    // Nothing to release.
+  }
+}
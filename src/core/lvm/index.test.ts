@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest'
+import { detectLogicalVolumes, openLogicalVolume, registerLogicalVolume } from './index'
+import type { OpenPvSource } from './index'
+import { BufferReader } from '../io/buffer-reader'
+import { crc32 } from '../utils/crc32'
+import type { SourceWindow } from '../../shared/types'
+
+const KiB = 1024
+const PV_SIZE = 64 * KiB
+/** First physical extent: 32 sectors in, after the metadata area */
+const PE_START = 16 * KiB
+/** Extent size: 8 sectors */
+const EXTENT = 4 * KiB
+/** Stripe unit of the striped volume: 2 sectors */
+const STRIPE = KiB
+
+const UUIDS = ['Pv0aaaaaaaaaaaaaaaaaaaaaaaaaaaaa', 'Pv1bbbbbbbbbbbbbbbbbbbbbbbbbbbbb']
+
+/** LVM's CRC: the reflected IEEE CRC-32 seeded with 0xf597a6cf, no final XOR */
+const lvmCrc = (data: Buffer): number => ~crc32(data, ~0xf597a6cf >>> 0) >>> 0
+
+/** Metadata for the volume group, generation `seqno`, with the given LVs. */
+function vgText(seqno: number, lvs: string): string {
+  const pvs = UUIDS.map(
+    (uuid, i) => `pv${i} {\nid = "${uuid.slice(0, 6)}-${uuid.slice(6)}"\npe_start = ${PE_START / 512}\n}\n`
+  )
+  return (
+    `vg0 {\nid = "vg0-uuid"\nseqno = ${seqno}\nextent_size = ${EXTENT / 512}\n` +
+    `physical_volumes {\n${pvs.join('')}}\n` +
+    `logical_volumes {\n${lvs}}\n}\n`
+  )
+}
+
+// Striped over both PVs, 4 extents; the 1 KiB chunks alternate between them
+const DATA_LV = `data {
+id = "lv-data"
+status = ["READ", "WRITE", "VISIBLE"]
+segment1 {
+start_extent = 0
+extent_count = 4
+type = "striped"
+stripe_count = 2
+stripe_size = ${STRIPE / 512}
+stripes = ["pv0", 0, "pv1", 0]
+}
+}
+`
+
+// Linear on pv0 from its fifth extent; removed in generation 2
+const OLD_LV = `old {
+id = "lv-old"
+status = ["READ", "WRITE", "VISIBLE"]
+segment1 {
+start_extent = 0
+extent_count = 2
+type = "striped"
+stripe_count = 1
+stripes = ["pv0", 4]
+}
+}
+`
+
+// LVM-internal volumes are not listed
+const HIDDEN_LV = `lvol0_pmspare {
+id = "lv-spare"
+status = ["READ", "WRITE"]
+segment1 {
+start_extent = 0
+extent_count = 1
+type = "striped"
+stripe_count = 1
+stripes = ["pv1", 6]
+}
+}
+`
+
+/** A 1 KiB chunk of the striped volume: every byte holds the chunk's index */
+const dataChunk = (index: number): Buffer => Buffer.alloc(STRIPE, index + 1)
+
+/**
+ * A PV: label in sector 1, a metadata area at 4 KiB whose circular buffer
+ * holds generation 1 followed by the current generation 2, then extents.
+ */
+function pvImage(pv: number): Buffer {
+  const image = Buffer.alloc(PV_SIZE)
+
+  const label = image.subarray(512, 1024)
+  label.write('LABELONE', 0, 'latin1')
+  label.writeBigUInt64LE(1n, 8)
+  label.writeUInt32LE(32, 20)
+  label.write('LVM2 001', 24, 'latin1')
+  label.write(UUIDS[pv], 32, 'latin1')
+  label.writeBigUInt64LE(BigInt(PV_SIZE), 64)
+  label.writeBigUInt64LE(BigInt(PE_START), 72)
+  label.writeBigUInt64LE(4096n, 104)
+  label.writeBigUInt64LE(8192n, 112)
+  label.writeUInt32LE(lvmCrc(label.subarray(20)), 16)
+
+  const older = vgText(1, DATA_LV + OLD_LV)
+  const current = vgText(2, DATA_LV + HIDDEN_LV)
+  const mda = image.subarray(4096, PE_START)
+  mda.write(' LVM2 x[5A%r0N*>', 4, 'latin1')
+  mda.writeUInt32LE(1, 20)
+  mda.writeBigUInt64LE(4096n, 24)
+  mda.writeBigUInt64LE(8192n, 32)
+  mda.writeBigUInt64LE(BigInt(512 + older.length + 1), 40)
+  mda.writeBigUInt64LE(BigInt(current.length), 48)
+  mda.write(older, 512, 'latin1')
+  mda.write(current, 512 + older.length + 1, 'latin1')
+  mda.writeUInt32LE(lvmCrc(mda.subarray(4, 512)), 0)
+
+  // Chunks 0, 2, 4... of the striped volume on pv0 and 1, 3, 5... on pv1
+  for (let row = 0; row < 8; row++) {
+    dataChunk(row * 2 + pv).copy(image, PE_START + row * STRIPE)
+  }
+  if (pv === 0) image.fill(0xee, PE_START + 4 * EXTENT, PE_START + 6 * EXTENT)
+  return image
+}
+
+const images: Record<string, Buffer> = { 'pv0.img': pvImage(0), 'pv1.img': pvImage(1) }
+const openSource: OpenPvSource = async (path) => new BufferReader(images[path], path)
+const pvWindow = (path: string): SourceWindow => ({ path, start: 0n, size: BigInt(PV_SIZE) })
+
+describe('detectLogicalVolumes', () => {
+  it('maps current volumes, then volumes removed since an older generation', async () => {
+    const volumes = await detectLogicalVolumes([pvWindow('pv0.img'), pvWindow('pv1.img')], openSource)
+
+    expect(volumes).toEqual([
+      {
+        vgName: 'vg0',
+        name: 'data',
+        id: 'lv-data',
+        seqno: 2,
+        deleted: false,
+        segments: [
+          {
+            start: 0n,
+            size: BigInt(4 * EXTENT),
+            stripeSize: STRIPE,
+            stripes: [
+              { source: { path: 'pv0.img', start: 0n }, offset: BigInt(PE_START) },
+              { source: { path: 'pv1.img', start: 0n }, offset: BigInt(PE_START) }
+            ]
+          }
+        ]
+      },
+      {
+        vgName: 'vg0',
+        name: 'old',
+        id: 'lv-old',
+        seqno: 1,
+        deleted: true,
+        segments: [
+          {
+            start: 0n,
+            size: BigInt(2 * EXTENT),
+            stripeSize: 0,
+            stripes: [{ source: { path: 'pv0.img', start: 0n }, offset: BigInt(PE_START + 4 * EXTENT) }]
+          }
+        ]
+      }
+    ])
+  })
+
+  it('leaves the stripes of a PV that was not found without a source', async () => {
+    const volumes = await detectLogicalVolumes([pvWindow('pv0.img')], openSource)
+
+    expect(volumes[0].segments[0].stripes.map((s) => s.source?.path ?? null)).toEqual(['pv0.img', null])
+  })
+})
+
+describe('openLogicalVolume', () => {
+  it('reads a striped volume chunk by chunk across its PVs', async () => {
+    const [data] = await detectLogicalVolumes([pvWindow('pv0.img'), pvWindow('pv1.img')], openSource)
+    const reader = await openLogicalVolume(registerLogicalVolume(data), openSource)
+    const expected = Buffer.concat(Array.from({ length: 16 }, (_, i) => dataChunk(i)))
+
+    expect(reader.size).toBe(BigInt(4 * EXTENT))
+    expect((await reader.read(0n, 4 * EXTENT)).equals(expected)).toBe(true)
+    expect((await reader.read(1500n, 3000)).equals(expected.subarray(1500, 4500))).toBe(true)
+    await reader.close()
+  })
+
+  it('reads a removed linear volume from its old extents', async () => {
+    const volumes = await detectLogicalVolumes([pvWindow('pv0.img'), pvWindow('pv1.img')], openSource)
+    const reader = await openLogicalVolume(registerLogicalVolume(volumes[1]), openSource)
+
+    expect((await reader.read(0n, 2 * EXTENT)).equals(Buffer.alloc(2 * EXTENT, 0xee))).toBe(true)
+    await reader.close()
+  })
+
+  it('reads the chunks of a missing PV as zeros', async () => {
+    const [data] = await detectLogicalVolumes([pvWindow('pv0.img')], openSource)
+    const reader = await openLogicalVolume(registerLogicalVolume(data), openSource)
+    const expected = Buffer.concat([dataChunk(0), Buffer.alloc(STRIPE)])
+
+    expect((await reader.read(0n, 2 * STRIPE)).equals(expected)).toBe(true)
+    await reader.close()
+  })
+})
@@ -0,0 +1,335 @@
+/**
+ * LVM2 - Logical volumes mapped from their physical volumes.
+ *
+ * A disk or partition used by LVM is a physical volume (PV): a label, a
+ * metadata area and a run of fixed-size extents. The volume group's text
+ * metadata maps the extents of every logical volume (LV) onto the PVs,
+ * so scanning a PV directly mixes all of its logical volumes together.
+ *
+ * Detection reads the label and metadata areas of every candidate window,
+ * including the older metadata generations left in each area's circular
+ * buffer. Volumes in the newest generation are current; volumes only found
+ * in older generations were removed, and their extents are read from the
+ * newest generation that still describes them. A removed volume's extents
+ * may since have been reused by another volume.
+ *
+ * A logical volume is addressed by a virtual source path of the form
+ * `lvm:<id>`, where the id is derived from its layout. `openSourceReader`
+ * recognises the prefix and returns a reader over the volume, so scans,
+ * previews and recovery treat it like any other source. Volumes are
+ * registered in the main process when the user opens them and handed to
+ * workers through their workerData.
+ */
+
+import { createHash } from 'crypto'
+import { SliceReader } from '../io/slice-reader'
+import type { OpenSourceOptions, SourceReader } from '../io/images'
+import type { LogicalVolume, LvmSegment, SourceWindow } from '../../shared/types'
+import { readMetadataArea, readPvLabel } from './pv-label'
+import { findVolumeGroupGenerations, parseVolumeGroup } from './metadata'
+import type { LvmLvMetadata, VolumeGroupMetadata } from './metadata'
+import { LvmReader, logicalVolumeSize } from './lvm-reader'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** A {@link LogicalVolume} in a form that can cross a worker or IPC boundary. */
+export interface SerializedLogicalVolume extends Omit<LogicalVolume, 'segments'> {
+  segments: {
+    start: string
+    size: string
+    stripeSize: number
+    stripes: { source: { path: string; start: string } | null; offset: string }[]
+  }[]
+}
+
+/** A registered volume, as handed to workers. */
+export interface SerializedRegisteredVolume {
+  path: string
+  volume: SerializedLogicalVolume
+}
+
+/** Opens the device or image holding a physical volume. */
+export type OpenPvSource = (sourcePath: string, options: OpenSourceOptions) => Promise<SourceReader>
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const VIRTUAL_PATH_PREFIX = 'lvm:'
+
+const SECTOR_SIZE = 512n
+
+/** Segment types read by {@link LvmReader}; "striped" with one stripe is linear */
+const SUPPORTED_SEGMENT_TYPES = new Set(['striped', 'linear'])
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const logicalVolumes = new Map<string, LogicalVolume>()
+
+/** Whether a path is the virtual path of a logical volume. */
+export function isLogicalVolumePath(sourcePath: string): boolean {
+  return sourcePath.startsWith(VIRTUAL_PATH_PREFIX)
+}
+
+/** Virtual path of a volume; the same layout gives the same path. */
+export function logicalVolumePath(volume: LogicalVolume): string {
+  const id = createHash('sha1')
+    .update(JSON.stringify(serializeLogicalVolume(volume)))
+    .digest('hex')
+    .slice(0, 12)
+  return `${VIRTUAL_PATH_PREFIX}${id}`
+}
+
+/**
+ * Register a volume and return its virtual path.
+ *
+ * @throws If the layout is not a valid linear or striped mapping.
+ */
+export function registerLogicalVolume(volume: LogicalVolume): string {
+  logicalVolumeSize(volume)
+  const path = logicalVolumePath(volume)
+  logicalVolumes.set(path, volume)
+  return path
+}
+
+export function getLogicalVolume(path: string): LogicalVolume | undefined {
+  return logicalVolumes.get(path)
+}
+
+/** Paths holding the found PVs of a volume, or [] if it is not registered. */
+export function logicalVolumeSourcePaths(path: string): string[] {
+  const volume = logicalVolumes.get(path)
+  if (!volume) return []
+  return [...new Set(volume.segments.flatMap((s) => s.stripes.flatMap((st) => (st.source ? [st.source.path] : []))))]
+}
+
+/**
+ * Open a registered volume.
+ *
+ * @throws If the volume has not been opened in this process.
+ */
+export async function openLogicalVolume(path: string, openSource: OpenPvSource): Promise<SourceReader> {
+  const volume = logicalVolumes.get(path)
+  if (!volume) throw new Error(`Logical volume ${path} has not been opened`)
+
+  const parents = new Map<string, SourceReader>()
+  try {
+    const sources: (SourceReader | null)[][] = []
+    for (const segment of volume.segments) {
+      const readers: (SourceReader | null)[] = []
+      for (const stripe of segment.stripes) {
+        if (!stripe.source) {
+          readers.push(null)
+          continue
+        }
+        const end = stripe.source.start + stripe.offset + stripeLength(segment)
+        let parent = parents.get(stripe.source.path)
+        if (!parent) {
+          parent = await openSource(stripe.source.path, { sizeHint: end })
+          parents.set(stripe.source.path, parent)
+        }
+        const start = stripe.source.start
+        readers.push(new SliceReader(parent, start, (parent.size > end ? parent.size : end) - start))
+      }
+      sources.push(readers)
+    }
+    return new LvmReader(path, volume, sources, [...parents.values()])
+  } catch (err) {
+    for (const reader of parents.values()) await reader.close()
+    throw err
+  }
+}
+
+// ─── Detection ──────────────────────────────────────────────────
+
+/**
+ * Look for LVM2 physical volumes on a set of candidate windows and map the
+ * logical volumes their metadata describes.
+ *
+ * When the same PV is found in several windows (a RAID1 member and the
+ * assembled array, say), the first window is used; callers list preferred
+ * windows first.
+ *
+ * @returns Linear and striped volumes: those of the newest metadata
+ *   generation of each volume group, then removed volumes recovered from
+ *   older generations.
+ */
+export async function detectLogicalVolumes(
+  candidates: SourceWindow[],
+  openSource: OpenPvSource
+): Promise<LogicalVolume[]> {
+  const pvWindows = new Map<string, SourceWindow>()
+  const generations = new Map<string, VolumeGroupMetadata>()
+
+  for (const candidate of candidates) {
+    let found: { uuid: string; texts: VolumeGroupMetadata[] } | null = null
+    try {
+      const parent = await openSource(candidate.path, { sizeHint: candidate.start + candidate.size })
+      try {
+        found = await readPhysicalVolume(new SliceReader(parent, candidate.start, candidate.size))
+      } finally {
+        await parent.close()
+      }
+    } catch {
+      // Unreadable candidates simply contribute no PV
+    }
+    if (!found || pvWindows.has(found.uuid)) continue
+
+    pvWindows.set(found.uuid, candidate)
+    for (const vg of found.texts) {
+      generations.set(`${vg.id}:${vg.seqno}`, vg)
+    }
+  }
+
+  const byGroup = new Map<string, VolumeGroupMetadata[]>()
+  for (const vg of generations.values()) {
+    byGroup.set(vg.id, [...(byGroup.get(vg.id) ?? []), vg])
+  }
+
+  const volumes: LogicalVolume[] = []
+  for (const group of byGroup.values()) {
+    group.sort((a, b) => b.seqno - a.seqno)
+    const seen = new Set(group[0].lvs.map((lv) => lv.id))
+
+    for (const lv of group[0].lvs) {
+      const volume = toLogicalVolume(group[0], lv, false, pvWindows)
+      if (volume) volumes.push(volume)
+    }
+
+    for (const vg of group.slice(1)) {
+      for (const lv of vg.lvs) {
+        if (seen.has(lv.id)) continue
+        seen.add(lv.id)
+        const volume = toLogicalVolume(vg, lv, true, pvWindows)
+        if (volume) volumes.push(volume)
+      }
+    }
+  }
+
+  return volumes
+}
+
+/** Read a PV's label and every metadata generation in its metadata areas. */
+async function readPhysicalVolume(
+  reader: SourceReader
+): Promise<{ uuid: string; texts: VolumeGroupMetadata[] } | null> {
+  const label = await readPvLabel(reader)
+  if (!label) return null
+
+  const texts: VolumeGroupMetadata[] = []
+  for (const area of label.metadataAreas) {
+    const text = await readMetadataArea(reader, area)
+    if (!text) continue
+    const current = text.current ? parseVolumeGroup(text.current) : null
+    if (current) texts.push(current)
+    texts.push(...findVolumeGroupGenerations(text.buffer))
+  }
+
+  return { uuid: label.uuid, texts }
+}
+
+/**
+ * Map a volume's extents to the windows holding its PVs.
+ *
+ * @returns The volume, or null if it is internal to LVM (not visible), uses
+ *   an unsupported segment type or has an inconsistent layout.
+ */
+function toLogicalVolume(
+  vg: VolumeGroupMetadata,
+  lv: LvmLvMetadata,
+  deleted: boolean,
+  pvWindows: Map<string, SourceWindow>
+): LogicalVolume | null {
+  if (!lv.status.includes('VISIBLE') || lv.segments.length === 0) return null
+
+  const extent = BigInt(vg.extentSize) * SECTOR_SIZE
+  const segments: LvmSegment[] = []
+
+  for (const segment of lv.segments) {
+    if (!SUPPORTED_SEGMENT_TYPES.has(segment.type) || segment.stripes.length === 0) return null
+
+    const stripes = []
+    for (const stripe of segment.stripes) {
+      const pv = vg.pvs.find((p) => p.name === stripe.pv)
+      if (!pv) return null
+      const window = pvWindows.get(pv.uuid)
+      stripes.push({
+        source: window ? { path: window.path, start: window.start } : null,
+        offset: BigInt(pv.peStart) * SECTOR_SIZE + BigInt(stripe.startExtent) * extent,
+      })
+    }
+
+    segments.push({
+      start: BigInt(segment.startExtent) * extent,
+      size: BigInt(segment.extentCount) * extent,
+      stripeSize: segment.stripeSize * Number(SECTOR_SIZE),
+      stripes,
+    })
+  }
+
+  const volume: LogicalVolume = { vgName: vg.name, name: lv.name, id: lv.id, seqno: vg.seqno, deleted, segments }
+  try {
+    logicalVolumeSize(volume)
+  } catch {
+    return null
+  }
+  return volume
+}
+
+// ─── Serialization ──────────────────────────────────────────────
+
+/** A registered volume, for a worker to register in turn. */
+export function logicalVolumeForWorker(path: string): SerializedRegisteredVolume | undefined {
+  const volume = logicalVolumes.get(path)
+  return volume && { path, volume: serializeLogicalVolume(volume) }
+}
+
+/** Register the volumes a worker received in its workerData. */
+export function registerLogicalVolumes(volumes: SerializedRegisteredVolume[]): void {
+  for (const { path, volume } of volumes) {
+    logicalVolumes.set(path, deserializeLogicalVolume(volume))
+  }
+}
+
+export function serializeLogicalVolume(volume: LogicalVolume): SerializedLogicalVolume {
+  return {
+    ...volume,
+    segments: volume.segments.map((segment) => ({
+      start: segment.start.toString(),
+      size: segment.size.toString(),
+      stripeSize: segment.stripeSize,
+      stripes: segment.stripes.map((stripe) => ({
+        source: stripe.source && { path: stripe.source.path, start: stripe.source.start.toString() },
+        offset: stripe.offset.toString(),
+      })),
+    })),
+  }
+}
+
+export function deserializeLogicalVolume(data: SerializedLogicalVolume): LogicalVolume {
+  return {
+    ...data,
+    segments: data.segments.map((segment) => ({
+      start: BigInt(segment.start),
+      size: BigInt(segment.size),
+      stripeSize: segment.stripeSize,
+      stripes: segment.stripes.map((stripe) => ({
+        source: stripe.source && { path: stripe.source.path, start: BigInt(stripe.source.start) },
+        offset: BigInt(stripe.offset),
+      })),
+    })),
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** Bytes of a segment stored on each of its stripes. */
+function stripeLength(segment: LvmSegment): bigint {
+  return segment.size / BigInt(segment.stripes.length)
+}
+
+// ─── Re-exports ─────────────────────────────────────────────────
+
+export { readPvLabel, readMetadataArea } from './pv-label'
+export type { PvLabel, DiskLocation, MetadataAreaText } from './pv-label'
+export { parseLvmConfig, parseVolumeGroup, findVolumeGroupGenerations } from './metadata'
+export type { VolumeGroupMetadata, LvmLvMetadata, LvmSegmentMetadata, LvmPvMetadata } from './metadata'
+export { LvmReader, logicalVolumeSize } from './lvm-reader'
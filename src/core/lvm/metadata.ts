@@ -0,0 +1,285 @@
+/**
+ * LVM2 Text Metadata
+ *
+ * Volume group metadata is stored as text in LVM's configuration syntax:
+ *
+ *   vg0 {
+ *     id = "Xr1ySd-..."
+ *     seqno = 7
+ *     extent_size = 8192          # in 512-byte sectors
+ *     physical_volumes {
+ *       pv0 { id = "..." pe_start = 2048 pe_count = 255 }
+ *     }
+ *     logical_volumes {
+ *       data {
+ *         id = "..."
+ *         status = ["READ", "WRITE", "VISIBLE"]
+ *         segment1 {
+ *           start_extent = 0
+ *           extent_count = 100
+ *           type = "striped"
+ *           stripe_count = 2
+ *           stripe_size = 128       # in sectors
+ *           stripes = ["pv0", 0, "pv1", 0]
+ *         }
+ *       }
+ *     }
+ *   }
+ *   contents = "Text Format Volume Group"
+ *
+ * `seqno` is incremented on every change, which orders the generations
+ * found in a metadata area's circular buffer.
+ */
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export type LvmConfigValue = string | number | LvmConfigValue[] | LvmConfigSection
+
+export interface LvmConfigSection {
+  [key: string]: LvmConfigValue
+}
+
+export interface LvmPvMetadata {
+  /** Name the PV is referred to by in segments ("pv0"). */
+  name: string
+  /** PV uuid without dashes. */
+  uuid: string
+  /** Sector of the first physical extent. */
+  peStart: number
+}
+
+export interface LvmSegmentMetadata {
+  startExtent: number
+  extentCount: number
+  type: string
+  /** Stripe unit in sectors; 0 for linear segments. */
+  stripeSize: number
+  /** PV name and first physical extent of each stripe. */
+  stripes: { pv: string; startExtent: number }[]
+}
+
+export interface LvmLvMetadata {
+  name: string
+  id: string
+  status: string[]
+  segments: LvmSegmentMetadata[]
+}
+
+/** One generation of a volume group's metadata. */
+export interface VolumeGroupMetadata {
+  name: string
+  id: string
+  seqno: number
+  /** Extent size in sectors. */
+  extentSize: number
+  pvs: LvmPvMetadata[]
+  lvs: LvmLvMetadata[]
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** Candidate start of a volume group: a top-level section opening followed by its id */
+const VG_START_PATTERN = /(?:^|[\n\0])([A-Za-z0-9_.+-]+) \{\n\s*id = "/g
+
+// ─── Volume Group ───────────────────────────────────────────────
+
+/**
+ * Parse the text of one metadata generation.
+ *
+ * @returns The volume group, or null if the text is not complete, valid
+ *   volume group metadata.
+ */
+export function parseVolumeGroup(text: string): VolumeGroupMetadata | null {
+  let root: LvmConfigSection
+  try {
+    root = parseLvmConfig(text)
+  } catch {
+    return null
+  }
+
+  for (const [name, value] of Object.entries(root)) {
+    if (!isSection(value)) continue
+    const vg = toVolumeGroup(name, value)
+    if (vg) return vg
+  }
+  return null
+}
+
+/**
+ * Find every metadata generation left in a circular metadata buffer. Copies
+ * whose beginning has been overwritten by a later write are skipped.
+ *
+ * @returns Generations in the order found; the same seqno may appear twice.
+ */
+export function findVolumeGroupGenerations(buffer: string): VolumeGroupMetadata[] {
+  const generations: VolumeGroupMetadata[] = []
+
+  for (const match of buffer.matchAll(VG_START_PATTERN)) {
+    const start = match.index! + match[0].indexOf(match[1])
+    const end = buffer.indexOf('\0', start)
+    const vg = parseVolumeGroup(buffer.slice(start, end === -1 ? undefined : end))
+    if (vg) generations.push(vg)
+  }
+
+  return generations
+}
+
+function toVolumeGroup(name: string, section: LvmConfigSection): VolumeGroupMetadata | null {
+  const id = section.id
+  const seqno = section.seqno
+  const extentSize = section.extent_size
+  const pvSection = section.physical_volumes
+  if (typeof id !== 'string' || typeof seqno !== 'number' || typeof extentSize !== 'number') return null
+  if (!isSection(pvSection) || extentSize <= 0) return null
+
+  const pvs: LvmPvMetadata[] = []
+  for (const [pvName, pv] of Object.entries(pvSection)) {
+    if (!isSection(pv) || typeof pv.id !== 'string' || typeof pv.pe_start !== 'number') return null
+    pvs.push({ name: pvName, uuid: pv.id.replace(/-/g, ''), peStart: pv.pe_start })
+  }
+
+  const lvs: LvmLvMetadata[] = []
+  const lvSection = section.logical_volumes
+  if (isSection(lvSection)) {
+    for (const [lvName, lv] of Object.entries(lvSection)) {
+      if (!isSection(lv) || typeof lv.id !== 'string') return null
+      lvs.push({
+        name: lvName,
+        id: lv.id,
+        status: Array.isArray(lv.status) ? lv.status.filter((s): s is string => typeof s === 'string') : [],
+        segments: Object.entries(lv)
+          .filter(([key, value]) => /^segment\d+$/.test(key) && isSection(value))
+          .map(([, value]) => toSegment(value as LvmConfigSection))
+          .sort((a, b) => a.startExtent - b.startExtent),
+      })
+    }
+  }
+
+  return { name, id, seqno, extentSize, pvs, lvs }
+}
+
+function toSegment(section: LvmConfigSection): LvmSegmentMetadata {
+  const stripes: { pv: string; startExtent: number }[] = []
+  const list = Array.isArray(section.stripes) ? section.stripes : []
+  for (let i = 0; i + 1 < list.length; i += 2) {
+    if (typeof list[i] === 'string' && typeof list[i + 1] === 'number') {
+      stripes.push({ pv: list[i] as string, startExtent: list[i + 1] as number })
+    }
+  }
+
+  return {
+    startExtent: typeof section.start_extent === 'number' ? section.start_extent : 0,
+    extentCount: typeof section.extent_count === 'number' ? section.extent_count : 0,
+    type: typeof section.type === 'string' ? section.type : '',
+    stripeSize: stripes.length > 1 && typeof section.stripe_size === 'number' ? section.stripe_size : 0,
+    stripes,
+  }
+}
+
+// ─── Config Syntax ──────────────────────────────────────────────
+
+/**
+ * Parse LVM configuration syntax: `key = value` assignments and nested
+ * `name { ... }` sections, where a value is a number, a quoted string or
+ * a bracketed list of values. `#` starts a comment.
+ *
+ * @throws On malformed or unbalanced input.
+ */
+export function parseLvmConfig(text: string): LvmConfigSection {
+  return new ConfigParser(text).parseEntries(false)
+}
+
+class ConfigParser {
+  private pos = 0
+
+  constructor(private readonly text: string) {}
+
+  parseEntries(nested: boolean): LvmConfigSection {
+    const section: LvmConfigSection = {}
+
+    for (;;) {
+      this.skipSpace()
+      if (this.pos >= this.text.length) {
+        if (nested) throw new Error('Unterminated section')
+        return section
+      }
+      if (this.text[this.pos] === '}') {
+        if (!nested) throw new Error(`Unbalanced '}' at ${this.pos}`)
+        this.pos++
+        return section
+      }
+
+      const key = this.parseIdentifier()
+      this.skipSpace()
+      const next = this.text[this.pos++]
+      if (next === '{') section[key] = this.parseEntries(true)
+      else if (next === '=') section[key] = this.parseValue()
+      else throw new Error(`Expected '=' or '{' after ${key}`)
+    }
+  }
+
+  private parseValue(): LvmConfigValue {
+    this.skipSpace()
+    const c = this.text[this.pos]
+
+    if (c === '"') return this.parseString()
+
+    if (c === '[') {
+      this.pos++
+      const list: LvmConfigValue[] = []
+      for (;;) {
+        this.skipSpace()
+        if (this.text[this.pos] === ']') {
+          this.pos++
+          return list
+        }
+        list.push(this.parseValue())
+        this.skipSpace()
+        if (this.text[this.pos] === ',') this.pos++
+      }
+    }
+
+    const match = /^-?\d+(?:\.\d+)?/.exec(this.text.slice(this.pos, this.pos + 32))
+    if (!match) throw new Error(`Unexpected value at ${this.pos}`)
+    this.pos += match[0].length
+    return Number(match[0])
+  }
+
+  private parseString(): string {
+    let value = ''
+    this.pos++
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos++]
+      if (c === '"') return value
+      value += c === '\\' ? this.text[this.pos++] : c
+    }
+    throw new Error('Unterminated string')
+  }
+
+  private parseIdentifier(): string {
+    const match = /^[A-Za-z0-9_.+-]+/.exec(this.text.slice(this.pos, this.pos + 256))
+    if (!match) throw new Error(`Expected identifier at ${this.pos}`)
+    this.pos += match[0].length
+    return match[0]
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.text.length) {
+      const c = this.text[this.pos]
+      if (c === '#') {
+        const eol = this.text.indexOf('\n', this.pos)
+        this.pos = eol === -1 ? this.text.length : eol + 1
+      } else if (c === ' ' || c === '\t' || c === '\n' || c === '\r') {
+        this.pos++
+      } else {
+        break
+      }
+    }
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function isSection(value: LvmConfigValue | undefined): value is LvmConfigSection {
+  return typeof value === 'object' && !Array.isArray(value)
+}
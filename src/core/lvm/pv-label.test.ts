@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import { readMetadataArea, readPvLabel } from './pv-label'
+import { BufferReader } from '../io/buffer-reader'
+
+/** LVM's calc_crc, bit by bit: seeded with 0xf597a6cf, no final inversion. */
+function referenceCrc(data: Buffer): number {
+  let crc = 0xf597a6cf
+  for (const byte of data) {
+    crc ^= byte
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (crc & 1 ? 0xedb88320 : 0)
+  }
+  return crc >>> 0
+}
+
+const UUID = 'AbCdEfGhIjKlMnOpQrStUvWxYz012345'
+
+/** A PV with its label in the second sector and one metadata area at 4 KiB. */
+function pvImage(metadata: string): Buffer {
+  const image = Buffer.alloc(16 * 1024)
+
+  const label = image.subarray(512, 1024)
+  label.write('LABELONE', 0, 'latin1')
+  label.writeBigUInt64LE(1n, 8)
+  label.writeUInt32LE(32, 20)
+  label.write('LVM2 001', 24, 'latin1')
+  label.write(UUID, 32, 'latin1')
+  label.writeBigUInt64LE(BigInt(image.length), 64)
+  label.writeBigUInt64LE(8192n, 72) // data area
+  label.writeBigUInt64LE(0n, 80)
+  label.writeBigUInt64LE(4096n, 104) // metadata area, after the data areas' terminator
+  label.writeBigUInt64LE(4096n, 112)
+  label.writeUInt32LE(referenceCrc(label.subarray(20)), 16)
+
+  const mda = image.subarray(4096, 8192)
+  mda.write(' LVM2 x[5A%r0N*>', 4, 'latin1')
+  mda.writeUInt32LE(1, 20)
+  mda.writeBigUInt64LE(4096n, 24)
+  mda.writeBigUInt64LE(4096n, 32)
+  mda.writeBigUInt64LE(512n, 40)
+  mda.writeBigUInt64LE(BigInt(metadata.length), 48)
+  mda.write(metadata, 512, 'latin1')
+  mda.writeUInt32LE(referenceCrc(mda.subarray(4, 512)), 0)
+
+  return image
+}
+
+describe('readPvLabel', () => {
+  it('reads a label whose CRC matches LVM', async () => {
+    const label = await readPvLabel(new BufferReader(pvImage('vg0 {\n}\n')))
+
+    expect(label).toEqual({
+      uuid: UUID,
+      deviceSize: 16384n,
+      dataAreas: [{ offset: 8192n, size: 0n }],
+      metadataAreas: [{ offset: 4096n, size: 4096n }]
+    })
+  })
+
+  it('rejects a label whose CRC does not match', async () => {
+    const image = pvImage('vg0 {\n}\n')
+    image[512 + 40] ^= 0xff
+
+    expect(await readPvLabel(new BufferReader(image))).toBeNull()
+  })
+})
+
+describe('readMetadataArea', () => {
+  it('reads the current metadata text', async () => {
+    const text = 'vg0 {\nid = "x"\nseqno = 3\n}\n'
+    const area = await readMetadataArea(new BufferReader(pvImage(text)), { offset: 4096n, size: 4096n })
+
+    expect(area?.current).toBe(text)
+    expect(area?.buffer.startsWith(text)).toBe(true)
+  })
+})
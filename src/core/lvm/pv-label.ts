@@ -0,0 +1,194 @@
+/**
+ * LVM2 Physical Volume Label
+ *
+ * Every LVM2 physical volume carries a 512-byte label in one of its first
+ * four sectors (normally the second):
+ *
+ *   label_header (32 bytes)
+ *     id[8]        "LABELONE"
+ *     sector u64   sector the label was written to
+ *     crc u32      CRC over the rest of the sector (from offset 20)
+ *     offset u32   offset of the pv_header from the start of the label
+ *     type[8]      "LVM2 001"
+ *   pv_header
+ *     uuid[32]     PV uuid, without dashes
+ *     size u64     device size in bytes
+ *     disk_locn[]  data areas, terminated by an all-zero entry
+ *     disk_locn[]  metadata areas, terminated by an all-zero entry
+ *
+ * A disk_locn is an { offset u64, size u64 } pair in bytes from the start
+ * of the PV. All fields are little-endian.
+ *
+ * Each metadata area starts with an mda_header, followed by a circular
+ * text buffer holding the volume group metadata:
+ *
+ *   checksum u32   CRC over the rest of the 512-byte header
+ *   magic[16]      " LVM2 x[5A%r0N*>"
+ *   version u32    1
+ *   start u64      offset of the area from the start of the PV
+ *   size u64       size of the area including this header
+ *   raw_locn[]     { offset u64, size u64, checksum u32, flags u32 },
+ *                  terminated by an all-zero entry
+ *
+ * The first raw_locn points at the current metadata text, relative to the
+ * start of the area. A text that runs past the end of the area continues
+ * right after the header. Each update is written after the previous one,
+ * so older generations of the metadata stay in the buffer until it wraps
+ * around and overwrites them.
+ */
+
+import type { SourceReader } from '../io/images'
+import { crc32 } from '../utils/crc32'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** A byte range inside a physical volume. */
+export interface DiskLocation {
+  offset: bigint
+  size: bigint
+}
+
+export interface PvLabel {
+  /** PV uuid without dashes. */
+  uuid: string
+  /** Device size recorded in the label, in bytes. */
+  deviceSize: bigint
+  dataAreas: DiskLocation[]
+  metadataAreas: DiskLocation[]
+}
+
+/** Text read from a metadata area. */
+export interface MetadataAreaText {
+  /** The text the area's header points at, if any. */
+  current: string | null
+  /**
+   * The whole circular buffer after the header, as latin1 text. Older
+   * metadata generations are found by searching it.
+   */
+  buffer: string
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const SECTOR_SIZE = 512
+
+/** Sectors searched for the label */
+const LABEL_SCAN_SECTORS = 4
+
+const LABEL_ID = 'LABELONE'
+const LABEL_TYPE = 'LVM2 001'
+
+/** Bytes of the PV uuid */
+const UUID_LENGTH = 32
+
+const MDA_HEADER_SIZE = 512
+const MDA_MAGIC = ' LVM2 x[5A%r0N*>'
+
+/** Set on a raw_locn whose metadata copy is disabled */
+const RAW_LOCN_IGNORED = 0x1
+
+/** Upper bound on a metadata area read into memory */
+const MAX_METADATA_AREA = 64 * 1024 * 1024
+
+/** Initial value of LVM's CRC-32 (no final inversion) */
+const INITIAL_CRC = 0xf597a6cf
+
+// ─── Label ──────────────────────────────────────────────────────
+
+/**
+ * Read the LVM2 label of a physical volume.
+ *
+ * @returns The label, or null if the source holds no valid LVM2 label.
+ */
+export async function readPvLabel(reader: SourceReader): Promise<PvLabel | null> {
+  const head = await reader.read(0n, SECTOR_SIZE * LABEL_SCAN_SECTORS)
+
+  for (let sector = 0; sector < LABEL_SCAN_SECTORS; sector++) {
+    const base = sector * SECTOR_SIZE
+    if (head.length < base + SECTOR_SIZE) break
+    if (head.toString('latin1', base, base + 8) !== LABEL_ID) continue
+    if (head.toString('latin1', base + 24, base + 32) !== LABEL_TYPE) continue
+    if (head.readBigUInt64LE(base + 8) !== BigInt(sector)) continue
+    if (lvmCrc(head.subarray(base + 20, base + SECTOR_SIZE)) !== head.readUInt32LE(base + 16)) continue
+
+    const pvOffset = base + head.readUInt32LE(base + 20)
+    if (pvOffset + UUID_LENGTH + 8 > base + SECTOR_SIZE) continue
+
+    const uuid = head.toString('latin1', pvOffset, pvOffset + UUID_LENGTH)
+    const deviceSize = head.readBigUInt64LE(pvOffset + UUID_LENGTH)
+
+    let pos = pvOffset + UUID_LENGTH + 8
+    const dataAreas = readLocations(head, pos, base + SECTOR_SIZE)
+    pos += (dataAreas.length + 1) * 16
+    const metadataAreas = readLocations(head, pos, base + SECTOR_SIZE)
+
+    return { uuid, deviceSize, dataAreas, metadataAreas }
+  }
+
+  return null
+}
+
+/** Read a zero-terminated disk_locn list. */
+function readLocations(buf: Buffer, pos: number, end: number): DiskLocation[] {
+  const locations: DiskLocation[] = []
+  while (pos + 16 <= end) {
+    const offset = buf.readBigUInt64LE(pos)
+    const size = buf.readBigUInt64LE(pos + 8)
+    if (offset === 0n && size === 0n) break
+    locations.push({ offset, size })
+    pos += 16
+  }
+  return locations
+}
+
+// ─── Metadata Area ──────────────────────────────────────────────
+
+/**
+ * Read a metadata area: the current text and the whole circular buffer.
+ *
+ * @returns The area's text, or null if no valid mda_header is found.
+ */
+export async function readMetadataArea(
+  reader: SourceReader,
+  area: DiskLocation
+): Promise<MetadataAreaText | null> {
+  if (area.size <= BigInt(MDA_HEADER_SIZE) || area.size > BigInt(MAX_METADATA_AREA)) return null
+
+  const header = await reader.read(area.offset, MDA_HEADER_SIZE)
+  if (header.length < MDA_HEADER_SIZE) return null
+  if (header.toString('latin1', 4, 20) !== MDA_MAGIC) return null
+  if (lvmCrc(header.subarray(4)) !== header.readUInt32LE(0)) return null
+
+  const data = await reader.read(area.offset, Number(area.size))
+  const buffer = data.toString('latin1', MDA_HEADER_SIZE)
+
+  // First raw_locn: the current metadata
+  const offset = header.readBigUInt64LE(40)
+  const size = header.readBigUInt64LE(48)
+  const flags = header.readUInt32LE(60)
+
+  let current: string | null = null
+  if (size > 0n && !(flags & RAW_LOCN_IGNORED) && offset >= BigInt(MDA_HEADER_SIZE) && offset < BigInt(data.length)) {
+    const start = Number(offset)
+    const length = Number(size)
+    const first = Math.min(length, data.length - start)
+    const text = Buffer.concat([
+      data.subarray(start, start + first),
+      data.subarray(MDA_HEADER_SIZE, MDA_HEADER_SIZE + length - first),
+    ])
+    current = text.toString('latin1').replace(/\0[\s\S]*$/, '')
+  }
+
+  return { current, buffer }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * LVM's CRC-32: the reflected IEEE polynomial with a custom seed and no
+ * final XOR. crc32 inverts on the way in and out, so the seed and the
+ * result are inverted to cancel that.
+ */
+function lvmCrc(data: Buffer): number {
+  return ~crc32(data, ~INITIAL_CRC >>> 0) >>> 0
+}
@@ -0,0 +1,236 @@
+/**
+ * GPT Partition Table Parser
+ *
+ * Reads the GUID Partition Table. The primary header lives in LBA 1 and a
+ * backup copy in the last LBA of the disk; each header points at its own
+ * copy of the partition entry array. Both the header and the array are
+ * protected by CRC-32, so a damaged primary can be detected and the backup
+ * used instead, which is common on disks whose first sectors were
+ * overwritten.
+ *
+ * Logical block size is not recorded anywhere in GPT, so the header is
+ * probed at 512 and 4096 bytes (4Kn disks).
+ */
+
+import type { BlockReader } from '../io/block-reader'
+import type { PartitionEntry } from './index'
+import { crc32 } from '../utils/crc32'
+import { formatGuid } from '../utils/guid'
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const GPT_SIGNATURE = 'EFI PART'
+const MIN_HEADER_SIZE = 92
+const MIN_ENTRY_SIZE = 128
+/** Sanity limit on the partition entry array (the spec minimum is 16 KiB). */
+const MAX_ENTRY_ARRAY_SIZE = 4 * 1024 * 1024
+
+/** Logical block sizes to probe for the primary header. */
+export const GPT_SECTOR_SIZES = [512, 4096]
+
+/** Well-known partition type GUIDs. */
+const GPT_TYPE_NAMES: Record<string, string> = {
+  'c12a7328-f81f-11d2-ba4b-00a0c93ec93b': 'EFI system',
+  '21686148-6449-6e6f-744e-656564454649': 'BIOS boot',
+  'e3c9e316-0b5c-4db8-817d-f92df00215ae': 'Microsoft reserved',
+  'ebd0a0a2-b9e5-4433-87c0-68b6b72699c7': 'Microsoft basic data',
+  'de94bba4-06d1-4d40-a16a-bfd50179d6ac': 'Windows recovery',
+  '5808c8aa-7e8f-42e0-85d2-e1e90434cfb3': 'Windows LDM metadata',
+  'af9b60a0-1431-4f62-bc68-3311714a69ad': 'Windows LDM data',
+  '0fc63daf-8483-4772-8e79-3d69d8477de4': 'Linux filesystem',
+  '0657fd6d-a4ab-43c4-84e5-0933c84b4f4f': 'Linux swap',
+  'e6d6d379-f507-44c2-a23c-238f2a3df928': 'Linux LVM',
+  'a19d880f-05fc-4d3b-a006-743f0f84911e': 'Linux RAID',
+  'ca7d7ccb-63ed-4c53-861c-1742536059cc': 'Linux LUKS',
+  '933ac7e1-2eb4-4f13-b844-0e14e2aef915': 'Linux /home',
+  '4f68bce3-e8cd-4db1-96e7-fbcaf984b709': 'Linux root (x86-64)',
+  '48465300-0000-11aa-aa11-00306543ecac': 'Apple HFS+',
+  '7c3457ef-0000-11aa-aa11-00306543ecac': 'Apple APFS',
+  '426f6f74-0000-11aa-aa11-00306543ecac': 'Apple boot',
+  '516e7cb4-6ecf-11d6-8ff8-00022d09712b': 'FreeBSD data',
+  '516e7cba-6ecf-11d6-8ff8-00022d09712b': 'FreeBSD ZFS',
+  '6a898cc3-1dd2-11b2-99a6-080020736631': 'ZFS'
+}
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export interface GptHeader {
+  /** LBA this header was read from. */
+  myLba: bigint
+  /** LBA of the other copy of the header. */
+  alternateLba: bigint
+  firstUsableLba: bigint
+  lastUsableLba: bigint
+  diskGuid: string
+  entriesLba: bigint
+  entryCount: number
+  entrySize: number
+  entriesCrc: number
+}
+
+export interface GptReadResult {
+  sectorSize: number
+  diskGuid: string
+  partitions: PartitionEntry[]
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+/**
+ * Whether LBA 1 carries a GPT signature at any supported sector size.
+ * Cheap check used to choose between GPT and MBR.
+ */
+export async function probeGpt(reader: BlockReader): Promise<number | null> {
+  for (const sectorSize of GPT_SECTOR_SIZES) {
+    const sector = await readSector(reader, BigInt(sectorSize), 8)
+    if (sector && sector.toString('ascii', 0, 8) === GPT_SIGNATURE) return sectorSize
+  }
+  return null
+}
+
+/**
+ * Read a GPT, falling back to the backup header and array when the
+ * primary ones are damaged.
+ *
+ * @param sectorSize - Logical block size found by {@link probeGpt}, or
+ *   null to look for a backup header only (primary LBA 1 is unreadable
+ *   or wiped).
+ * @returns null when neither copy is valid.
+ */
+export async function readGpt(
+  reader: BlockReader,
+  sectorSize: number | null,
+  warnings: string[]
+): Promise<GptReadResult | null> {
+  const sizes = sectorSize ? [sectorSize] : GPT_SECTOR_SIZES
+
+  for (const size of sizes) {
+    const primary = await readHeader(reader, 1n, size)
+    const lastLba = reader.size > 0n ? reader.size / BigInt(size) - 1n : 0n
+    const backupLba = primary?.alternateLba ?? lastLba
+    const backup = backupLba > 1n ? await readHeader(reader, backupLba, size) : null
+
+    if (primary && !backup) {
+      warnings.push('Backup GPT header is missing or damaged')
+    }
+
+    // Prefer the primary, but only together with an intact entry array.
+    for (const [header, label] of [[primary, 'primary'], [backup, 'backup']] as const) {
+      if (!header) continue
+      const entries = await readEntryArray(reader, header, size)
+      if (!entries) continue
+      if (label === 'backup') {
+        warnings.push(primary
+          ? 'Primary GPT partition array is damaged; using the backup copy'
+          : 'Primary GPT header is damaged; using the backup copy')
+      }
+      return {
+        sectorSize: size,
+        diskGuid: header.diskGuid,
+        partitions: parseEntries(reader, entries, header, size)
+      }
+    }
+  }
+
+  return null
+}
+
+/** Human-readable name of a GPT partition type GUID. */
+export function gptTypeName(typeGuid: string): string {
+  return GPT_TYPE_NAMES[typeGuid] ?? typeGuid
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * Read and validate the header at `lba`: signature, size, CRC and that
+ * it actually describes itself as living at `lba`.
+ */
+async function readHeader(reader: BlockReader, lba: bigint, sectorSize: number): Promise<GptHeader | null> {
+  const sector = await readSector(reader, lba * BigInt(sectorSize), sectorSize)
+  if (!sector || sector.length < MIN_HEADER_SIZE) return null
+  if (sector.toString('ascii', 0, 8) !== GPT_SIGNATURE) return null
+
+  const headerSize = sector.readUInt32LE(12)
+  if (headerSize < MIN_HEADER_SIZE || headerSize > sector.length) return null
+
+  const copy = Buffer.from(sector.subarray(0, headerSize))
+  const storedCrc = copy.readUInt32LE(16)
+  copy.writeUInt32LE(0, 16)
+  if (crc32(copy) !== storedCrc) return null
+
+  const header: GptHeader = {
+    myLba: sector.readBigUInt64LE(24),
+    alternateLba: sector.readBigUInt64LE(32),
+    firstUsableLba: sector.readBigUInt64LE(40),
+    lastUsableLba: sector.readBigUInt64LE(48),
+    diskGuid: formatGuid(sector, 56),
+    entriesLba: sector.readBigUInt64LE(72),
+    entryCount: sector.readUInt32LE(80),
+    entrySize: sector.readUInt32LE(84),
+    entriesCrc: sector.readUInt32LE(88)
+  }
+
+  if (header.myLba !== lba) return null
+  if (header.entrySize < MIN_ENTRY_SIZE || header.entrySize % 8 !== 0) return null
+  if (header.entryCount * header.entrySize > MAX_ENTRY_ARRAY_SIZE) return null
+  return header
+}
+
+/** Read the partition entry array of `header` and check its CRC. */
+async function readEntryArray(reader: BlockReader, header: GptHeader, sectorSize: number): Promise<Buffer | null> {
+  const length = header.entryCount * header.entrySize
+  const array = await readSector(reader, header.entriesLba * BigInt(sectorSize), length)
+  if (!array || array.length < length) return null
+  return crc32(array) === header.entriesCrc ? array : null
+}
+
+function parseEntries(reader: BlockReader, array: Buffer, header: GptHeader, sectorSize: number): PartitionEntry[] {
+  const partitions: PartitionEntry[] = []
+
+  for (let i = 0; i < header.entryCount; i++) {
+    const pos = i * header.entrySize
+    const typeGuid = formatGuid(array, pos)
+    if (typeGuid === '00000000-0000-0000-0000-000000000000') continue
+
+    const firstLba = array.readBigUInt64LE(pos + 32)
+    const lastLba = array.readBigUInt64LE(pos + 40)
+    if (lastLba < firstLba) continue
+
+    const offset = firstLba * BigInt(sectorSize)
+    let size = (lastLba - firstLba + 1n) * BigInt(sectorSize)
+    if (reader.size > 0n) {
+      if (offset >= reader.size) continue
+      if (offset + size > reader.size) size = reader.size - offset
+    }
+
+    const name = array
+      .subarray(pos + 56, pos + 128)
+      .toString('utf16le')
+      .replace(/\0.*$/s, '')
+
+    partitions.push({
+      index: i + 1,
+      scheme: 'gpt',
+      kind: 'primary',
+      offset,
+      size,
+      typeGuid,
+      typeName: gptTypeName(typeGuid),
+      partitionGuid: formatGuid(array, pos + 16),
+      name: name || undefined,
+      attributes: array.readBigUInt64LE(pos + 48)
+    })
+  }
+
+  return partitions
+}
+
+async function readSector(reader: BlockReader, offset: bigint, length: number): Promise<Buffer | null> {
+  if (reader.size > 0n && offset + BigInt(length) > reader.size) return null
+  try {
+    return (await reader.readAt(offset, length)).buffer
+  } catch {
+    return null
+  }
+}
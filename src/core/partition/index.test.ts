@@ -0,0 +1,206 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { readPartitionTable } from './index'
+import type { PartitionTable } from './index'
+import { BlockReader } from '../io/block-reader'
+import { crc32 } from '../utils/crc32'
+
+const SECTOR = 512
+const DISK_SECTORS = 128
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'partition-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function readTable(disk: Buffer, name: string): Promise<PartitionTable | null> {
+  const path = join(dir, `${name}.img`)
+  await writeFile(path, disk)
+  const reader = new BlockReader()
+  await reader.open(path)
+  try {
+    return await readPartitionTable(reader)
+  } finally {
+    await reader.close()
+  }
+}
+
+/** Write one 16-byte MBR / EBR entry and the boot signature. */
+function setEntry(
+  sector: Buffer,
+  slot: number,
+  typeCode: number,
+  lbaStart: number,
+  sectorCount: number,
+  status = 0
+): void {
+  const pos = 446 + slot * 16
+  sector[pos] = status
+  sector[pos + 4] = typeCode
+  sector.writeUInt32LE(lbaStart, pos + 8)
+  sector.writeUInt32LE(sectorCount, pos + 12)
+  sector.writeUInt16LE(0xaa55, 510)
+}
+
+const sectorAt = (disk: Buffer, lba: number): Buffer => disk.subarray(lba * SECTOR, (lba + 1) * SECTOR)
+
+/** Inverse of the parser's GUID formatting: first three groups little-endian. */
+function guidBytes(text: string): Buffer {
+  const hex = text.replace(/-/g, '')
+  const buf = Buffer.from(hex, 'hex')
+  buf.writeUInt32LE(parseInt(hex.slice(0, 8), 16), 0)
+  buf.writeUInt16LE(parseInt(hex.slice(8, 12), 16), 4)
+  buf.writeUInt16LE(parseInt(hex.slice(12, 16), 16), 6)
+  return buf
+}
+
+// ─── MBR ────────────────────────────────────────────────────────
+
+describe('readPartitionTable (MBR)', () => {
+  function mbrDisk(): Buffer {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    const mbr = sectorAt(disk, 0)
+    mbr.writeUInt32LE(0xdeadbeef, 440)
+    setEntry(mbr, 0, 0x0c, 8, 16, 0x80)
+    setEntry(mbr, 1, 0x05, 32, 80)
+    // Runs 92 sectors past the end of the disk
+    setEntry(mbr, 2, 0x83, 120, 100)
+
+    // EBR chain: logical entries are relative to their EBR, links to the
+    // extended partition
+    setEntry(sectorAt(disk, 32), 0, 0x83, 2, 10)
+    setEntry(sectorAt(disk, 32), 1, 0x05, 32, 40)
+    setEntry(sectorAt(disk, 64), 0, 0x07, 2, 20)
+    return disk
+  }
+
+  it('lists primary and logical partitions in on-disk order', async () => {
+    const table = await readTable(mbrDisk(), 'mbr')
+
+    expect(table?.scheme).toBe('mbr')
+    expect(table?.diskSignature).toBe(0xdeadbeef)
+    expect(table?.warnings).toEqual([])
+    expect(
+      table?.partitions.map((p) => [p.index, p.kind, p.typeCode, p.offset / 512n, p.size / 512n])
+    ).toEqual([
+      [1, 'primary', 0x0c, 8n, 16n],
+      [5, 'logical', 0x83, 34n, 10n],
+      [6, 'logical', 0x07, 66n, 20n],
+      [3, 'primary', 0x83, 120n, 8n]
+    ])
+    expect(table?.partitions[0].bootable).toBe(true)
+    expect(table?.partitions[0].typeName).toBe('FAT32 (LBA)')
+  })
+
+  it('stops at an extended partition chain that loops', async () => {
+    const disk = mbrDisk()
+    setEntry(sectorAt(disk, 64), 1, 0x05, 0, 40)
+
+    const table = await readTable(disk, 'mbr-loop')
+
+    expect(table?.partitions.filter((p) => p.kind === 'logical')).toHaveLength(2)
+    expect(table?.warnings).toEqual(['Extended partition chain is corrupt at sector 32'])
+  })
+
+  it('does not take a bare filesystem boot sector for an MBR', async () => {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    disk.write('NTFS    ', 3, 'ascii')
+    disk.writeUInt16LE(0xaa55, 510)
+
+    expect(await readTable(disk, 'bare')).toBeNull()
+  })
+})
+
+// ─── GPT ────────────────────────────────────────────────────────
+
+describe('readPartitionTable (GPT)', () => {
+  const diskGuid = '5f1b4e2a-3c6d-4e8f-9a0b-1c2d3e4f5a6b'
+  const linuxGuid = '0fc63daf-8483-4772-8e79-3d69d8477de4'
+  const partitionGuid = '11223344-5566-7788-99aa-bbccddeeff00'
+
+  function writeHeader(disk: Buffer, lba: number, alternate: number, entriesLba: number, entries: Buffer): void {
+    const header = sectorAt(disk, lba)
+    header.write('EFI PART', 0, 'ascii')
+    header.writeUInt32LE(0x00010000, 8)
+    header.writeUInt32LE(92, 12)
+    header.writeBigUInt64LE(BigInt(lba), 24)
+    header.writeBigUInt64LE(BigInt(alternate), 32)
+    header.writeBigUInt64LE(3n, 40)
+    header.writeBigUInt64LE(BigInt(DISK_SECTORS - 3), 48)
+    guidBytes(diskGuid).copy(header, 56)
+    header.writeBigUInt64LE(BigInt(entriesLba), 72)
+    header.writeUInt32LE(4, 80)
+    header.writeUInt32LE(128, 84)
+    header.writeUInt32LE(crc32(entries), 88)
+    header.writeUInt32LE(crc32(header.subarray(0, 92)), 16)
+    entries.copy(disk, entriesLba * SECTOR)
+  }
+
+  /** Protective MBR, primary header and array at LBA 1-2, backups at the end. */
+  function gptDisk(): Buffer {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    setEntry(sectorAt(disk, 0), 0, 0xee, 1, DISK_SECTORS - 1)
+
+    const entries = Buffer.alloc(4 * 128)
+    guidBytes(linuxGuid).copy(entries, 0)
+    guidBytes(partitionGuid).copy(entries, 16)
+    entries.writeBigUInt64LE(3n, 32)
+    entries.writeBigUInt64LE(99n, 40)
+    entries.writeBigUInt64LE(1n << 60n, 48)
+    entries.write('root', 56, 'utf16le')
+
+    writeHeader(disk, 1, DISK_SECTORS - 1, 2, entries)
+    writeHeader(disk, DISK_SECTORS - 1, 1, DISK_SECTORS - 2, entries)
+    return disk
+  }
+
+  it('reads the partition entries behind a protective MBR', async () => {
+    const table = await readTable(gptDisk(), 'gpt')
+
+    expect(table?.scheme).toBe('gpt')
+    expect(table?.sectorSize).toBe(512)
+    expect(table?.diskGuid).toBe(diskGuid)
+    expect(table?.warnings).toEqual([])
+    expect(table?.partitions).toEqual([
+      {
+        index: 1,
+        scheme: 'gpt',
+        kind: 'primary',
+        offset: 3n * 512n,
+        size: 97n * 512n,
+        typeGuid: linuxGuid,
+        typeName: 'Linux filesystem',
+        partitionGuid,
+        name: 'root',
+        attributes: 1n << 60n
+      }
+    ])
+  })
+
+  it('falls back to the backup header when the primary is wiped', async () => {
+    const disk = gptDisk()
+    sectorAt(disk, 1).fill(0)
+
+    const table = await readTable(disk, 'gpt-backup')
+
+    expect(table?.partitions.map((p) => p.name)).toEqual(['root'])
+    expect(table?.warnings).toEqual(['Primary GPT header is damaged; using the backup copy'])
+  })
+
+  it('falls back to the backup array when the primary array fails its CRC', async () => {
+    const disk = gptDisk()
+    sectorAt(disk, 2)[200] ^= 0xff
+
+    const table = await readTable(disk, 'gpt-array')
+
+    expect(table?.partitions.map((p) => p.name)).toEqual(['root'])
+    expect(table?.warnings).toEqual(['Primary GPT partition array is damaged; using the backup copy'])
+  })
+})
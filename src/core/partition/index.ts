@@ -0,0 +1,123 @@
+/**
+ * Partition Tables - MBR and GPT parsing straight from the disk.
+ *
+ * Physical devices get a partition list from the operating system, but
+ * images, unmounted or damaged disks and devices the OS refuses to
+ * enumerate do not. This module reads the partition table itself through
+ * a {@link BlockReader} and returns each partition as a byte window
+ * (offset + size), which scans address with `startOffset` / `endOffset`.
+ *
+ * GPT takes precedence over MBR: a GPT disk carries a protective (or
+ * hybrid) MBR in sector 0 purely for legacy tools. If LBA 1 is damaged,
+ * the backup GPT at the end of the disk is used.
+ */
+
+import type { BlockReader } from '../io/block-reader'
+import { MBR_SECTOR_SIZE, TYPE_GPT_PROTECTIVE, parseMbrSector, readMbrPartitions } from './mbr'
+import { probeGpt, readGpt } from './gpt'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export type PartitionScheme = 'mbr' | 'gpt'
+
+export interface PartitionEntry {
+  /**
+   * 1-based partition number: MBR primaries are 1-4 and logical
+   * partitions 5 upwards; GPT partitions use their slot in the array.
+   */
+  index: number
+  scheme: PartitionScheme
+  /** 'logical' only for partitions inside an MBR extended partition. */
+  kind: 'primary' | 'logical'
+  /** Absolute byte offset of the first sector. */
+  offset: bigint
+  /** Length in bytes. */
+  size: bigint
+  /** Human-readable partition type, e.g. "FAT32 (LBA)" or "Linux filesystem". */
+  typeName: string
+  /** MBR partition type code (0x07 = NTFS/exFAT, 0x0C = FAT32 LBA, ...). */
+  typeCode?: number
+  /** GPT partition type GUID (lowercase canonical form). */
+  typeGuid?: string
+  /** GPT unique partition GUID. */
+  partitionGuid?: string
+  /** GPT partition name. */
+  name?: string
+  /** GPT attribute flags. */
+  attributes?: bigint
+  /** MBR active (boot) flag. */
+  bootable?: boolean
+}
+
+export interface PartitionTable {
+  scheme: PartitionScheme
+  /** Logical block size the table is expressed in. */
+  sectorSize: number
+  /** GPT disk GUID. */
+  diskGuid?: string
+  /** MBR disk signature. */
+  diskSignature?: number
+  /** Partitions in on-disk order. */
+  partitions: PartitionEntry[]
+  /**
+   * Problems found while reading, e.g. a damaged primary GPT that was
+   * replaced by the backup, or a broken extended partition chain.
+   */
+  warnings: string[]
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+/**
+ * Read the partition table of a disk or disk image.
+ *
+ * @param reader - Open reader positioned on the whole disk.
+ * @returns The table, or null if the disk has neither a valid GPT nor an
+ *   MBR (e.g. a bare filesystem or a wiped disk).
+ */
+export async function readPartitionTable(reader: BlockReader): Promise<PartitionTable | null> {
+  const warnings: string[] = []
+
+  let sector0: Buffer | null = null
+  try {
+    sector0 = (await reader.readAt(0n, MBR_SECTOR_SIZE)).buffer
+  } catch {
+    warnings.push('Cannot read sector 0')
+  }
+  const mbr = sector0 ? parseMbrSector(sector0) : null
+  const protective = mbr?.entries.some((e) => e.typeCode === TYPE_GPT_PROTECTIVE) ?? false
+
+  // A GPT signature in LBA 1 wins; with only a protective MBR left, the
+  // primary header may be gone, so look for the backup too.
+  const gptSectorSize = await probeGpt(reader)
+  if (gptSectorSize !== null || protective || !mbr) {
+    const gpt = await readGpt(reader, gptSectorSize, warnings)
+    if (gpt) {
+      return {
+        scheme: 'gpt',
+        sectorSize: gpt.sectorSize,
+        diskGuid: gpt.diskGuid,
+        partitions: gpt.partitions,
+        warnings
+      }
+    }
+  }
+
+  if (!mbr) return null
+
+  const partitions = await readMbrPartitions(reader, mbr, warnings)
+  if (protective && partitions.length === 0) {
+    warnings.push('Disk has a protective MBR but no valid GPT')
+  }
+
+  return {
+    scheme: 'mbr',
+    sectorSize: MBR_SECTOR_SIZE,
+    diskSignature: mbr.diskSignature,
+    partitions,
+    warnings
+  }
+}
+
+export { mbrTypeName } from './mbr'
+export { gptTypeName } from './gpt'
@@ -0,0 +1,126 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { LostPartitionFinder } from './lost-partitions'
+import { BlockReader } from '../io/block-reader'
+import type { LostPartitionCandidate } from '../../shared/types'
+
+const SECTOR = 512
+const DISK_SECTORS = 512
+
+const FAT_RESERVED_SECTORS = 32
+const FAT_BACKUP_BOOT_SECTOR = 6
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'lost-partitions-test-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function search(disk: Buffer, name: string): Promise<LostPartitionCandidate[]> {
+  const path = join(dir, `${name}.img`)
+  await writeFile(path, disk)
+  const reader = new BlockReader()
+  await reader.open(path)
+  try {
+    return await new LostPartitionFinder(reader).search()
+  } finally {
+    await reader.close()
+  }
+}
+
+const sectorAt = (disk: Buffer, lba: number): Buffer => disk.subarray(lba * SECTOR, (lba + 1) * SECTOR)
+
+/** An MBR listing one FAT32 (LBA) partition. */
+function writeMbr(disk: Buffer, lbaStart: number, sectorCount: number): void {
+  const mbr = sectorAt(disk, 0)
+  mbr[446 + 4] = 0x0c
+  mbr.writeUInt32LE(lbaStart, 446 + 8)
+  mbr.writeUInt32LE(sectorCount, 446 + 12)
+  mbr.writeUInt16LE(0xaa55, 510)
+}
+
+/**
+ * A FAT32 volume at `lba`: boot sector, backup boot sector and the first
+ * FAT entries. `primary: false` leaves the boot sector wiped.
+ */
+function writeFat32(disk: Buffer, lba: number, sectors: number, label: string, primary = true): void {
+  const boot = Buffer.alloc(SECTOR)
+  boot.set([0xeb, 0x58, 0x90])
+  boot.write('MSDOS5.0', 3, 'ascii')
+  boot.writeUInt16LE(SECTOR, 11)
+  boot[13] = 1
+  boot.writeUInt16LE(FAT_RESERVED_SECTORS, 14)
+  boot[16] = 2
+  boot[21] = 0xf8
+  boot.writeUInt32LE(sectors, 32)
+  boot.writeUInt32LE(1, 36)
+  boot.writeUInt16LE(FAT_BACKUP_BOOT_SECTOR, 50)
+  boot.write(label.padEnd(11), 71, 'latin1')
+  boot.writeUInt16LE(0xaa55, 510)
+
+  if (primary) boot.copy(sectorAt(disk, lba))
+  boot.copy(sectorAt(disk, lba + FAT_BACKUP_BOOT_SECTOR))
+  sectorAt(disk, lba + FAT_RESERVED_SECTORS).set([0xf8, 0xff, 0xff, 0x0f])
+}
+
+/** An ext4 volume at `lba` with 1 KiB blocks: just its primary superblock. */
+function writeExt4(disk: Buffer, lba: number, blocks: number, label: string): void {
+  const sb = sectorAt(disk, lba + 2)
+  sb.writeUInt32LE(16, 0)
+  sb.writeUInt32LE(blocks, 4)
+  sb.writeUInt32LE(1, 20)
+  sb.writeUInt32LE(8192, 32)
+  sb.writeUInt32LE(16, 40)
+  sb.writeUInt16LE(0xef53, 56)
+  sb.writeUInt32LE(1, 76)
+  sb.write(label, 120, 'utf8')
+}
+
+const summary = (candidates: LostPartitionCandidate[]): [string, bigint, bigint, string | undefined, boolean][] =>
+  candidates.map((c) => [c.filesystem, c.offset / 512n, c.size / 512n, c.label, c.inPartitionTable])
+
+describe('LostPartitionFinder', () => {
+  it('finds filesystems in space the partition table does not cover', async () => {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    writeMbr(disk, 8, 64)
+    writeFat32(disk, 8, 64, 'LISTED')
+    writeExt4(disk, 320, 64, 'lost-root')
+
+    expect(summary(await search(disk, 'unallocated'))).toEqual([
+      ['fat32', 8n, 64n, 'LISTED', true],
+      ['ext4', 320n, 128n, 'lost-root', false]
+    ])
+  })
+
+  it('places a volume whose boot sector is wiped by its backup and FAT', async () => {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    writeFat32(disk, 200, 100, 'CAMERA', false)
+
+    const [candidate, ...rest] = await search(disk, 'backup-only')
+
+    expect(rest).toEqual([])
+    expect(candidate).toMatchObject({
+      filesystem: 'fat32',
+      offset: 200n * 512n,
+      label: 'CAMERA',
+      inPartitionTable: false,
+      evidence: ['Backup boot sector (sector 6)', 'File allocation table']
+    })
+  })
+
+  it('clips a candidate that runs past the end of the device', async () => {
+    const disk = Buffer.alloc(DISK_SECTORS * SECTOR)
+    writeFat32(disk, 400, 1000, 'TRUNCATED')
+
+    const [candidate] = await search(disk, 'past-end')
+
+    expect(candidate.size).toBe(BigInt((DISK_SECTORS - 400) * SECTOR))
+    expect(candidate.evidence).toContain('Extends past the end of the device')
+  })
+})
@@ -0,0 +1,591 @@
+/**
+ * LostPartitionFinder - Searches a whole device for filesystems that are no
+ * longer listed in its partition table.
+ *
+ * When a card is repartitioned or its MBR / GPT is wiped, the filesystems
+ * themselves are usually still intact. Every sector of the device is
+ * checked for the structures a filesystem leaves at a fixed distance from
+ * its start:
+ *
+ *   - FAT32 boot sector, and its backup (normally sector 6)
+ *   - exFAT boot sector, and the backup boot region (sector 12)
+ *   - NTFS boot sector, and its backup in the last sector of the volume
+ *   - ext2/3/4 superblock at +1024, and the backups in later block groups
+ *   - HFS+ / HFSX volume header at +1024, and the alternate header 1024
+ *     bytes before the end of the volume
+ *
+ * A backup copy is indistinguishable from a primary by content alone, so
+ * each hit proposes every start it could imply. Hits that agree on a
+ * start are merged, and a candidate's confidence grows with the number of
+ * independent copies found and with a check of the structures the boot
+ * sector points at (the FAT, the $MFT). Candidates whose evidence is fully
+ * explained by a stronger candidate are dropped, which removes the phantom
+ * starts a backup copy would otherwise suggest.
+ *
+ * The finder supports pause / resume / cancel. Cancelling still resolves
+ * the hits seen so far into candidates.
+ *
+ * Events:
+ *   - 'progress' : PartitionSearchProgress - Periodic progress updates.
+ *   - 'complete' : { candidates: LostPartitionCandidate[]; cancelled: boolean }
+ */
+
+import { EventEmitter } from 'events'
+import { randomUUID } from 'crypto'
+
+import type { BlockReader } from '../io/block-reader'
+import { readPartitionTable, type PartitionEntry } from './index'
+import { CHUNK_SIZE, SECTOR_SIZE } from '../../shared/constants/file-signatures'
+import type {
+  FilesystemType,
+  LostPartitionCandidate,
+  PartitionSearchProgress
+} from '../../shared/types'
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const BOOT_SIGNATURE = 0xaa55
+const EXT_MAGIC = 0xef53
+const HFS_PLUS_SIGNATURE = 0x482b
+const HFSX_SIGNATURE = 0x4858
+
+/** exFAT keeps a full copy of its 12-sector boot region right after it. */
+const EXFAT_BACKUP_BOOT_SECTOR = 12
+
+/** Upper bound on recorded hits, for devices full of filesystem images. */
+const MAX_HITS = 10_000
+
+/** Minimum interval between progress events. */
+const PROGRESS_INTERVAL_MS = 250
+
+/** Confidence contributed by each kind of evidence. */
+const SCORE_PRIMARY = 40
+const SCORE_BACKUP = 30
+const SCORE_STRUCTURE = 20
+const SCORE_EXTRA_BACKUPS = 10
+const SCORE_FITS_DEVICE = 10
+const PENALTY_PAST_END = 30
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/**
+ * A read that confirms the filesystem beyond its boot sector, e.g. the
+ * media byte at the start of the FAT.
+ */
+interface StructureProbe {
+  /** Offset relative to the start of the filesystem. */
+  offset: bigint
+  length: number
+  description: string
+  matches: (data: Buffer) => boolean
+}
+
+/** One interpretation of one signature found on the device. */
+interface SignatureHit {
+  filesystem: FilesystemType
+  /** Filesystem start implied by this hit. */
+  start: bigint
+  /** Filesystem size recorded in the structure. */
+  size: bigint
+  copy: 'primary' | 'backup'
+  /** Absolute offset of the sector the structure was found in. */
+  sector: bigint
+  description: string
+  label?: string
+  /**
+   * How far the true start may lie before `start`. Only the HFS+
+   * alternate header needs this: it sits at the end of the partition,
+   * which can be up to one allocation block past the end of the volume.
+   */
+  slack?: bigint
+  probe?: StructureProbe
+}
+
+interface CandidateGroup {
+  filesystem: FilesystemType
+  start: bigint
+  hits: SignatureHit[]
+}
+
+// ─── LostPartitionFinder ────────────────────────────────────────
+
+export class LostPartitionFinder extends EventEmitter {
+  private readonly reader: BlockReader
+
+  private status: 'idle' | 'searching' | 'paused' | 'cancelled' = 'idle'
+  private pausePromise: Promise<void> | null = null
+  private pauseResolve: (() => void) | null = null
+
+  constructor(reader: BlockReader) {
+    super()
+    this.reader = reader
+  }
+
+  // ── Public API ──────────────────────────────────────────
+
+  /**
+   * Walk the device and return the candidate partitions, ordered by offset.
+   *
+   * @param size - Device size in bytes; defaults to the reader's size.
+   */
+  async search(size: bigint = this.reader.size): Promise<LostPartitionCandidate[]> {
+    if (this.status === 'searching' || this.status === 'paused') {
+      throw new Error('A partition search is already in progress')
+    }
+    this.status = 'searching'
+
+    const hits: SignatureHit[] = []
+    const startTime = Date.now()
+    let lastProgressTime = 0
+    let signaturesFound = 0
+    let sectorsWithErrors = 0
+    let offset = 0n
+
+    while (offset < size) {
+      await this.waitForResume()
+      if (this.isCancelled()) break
+
+      const readSize = Number(size - offset < BigInt(CHUNK_SIZE) ? size - offset : BigInt(CHUNK_SIZE))
+      let chunk: Buffer
+      try {
+        chunk = (await this.reader.readAt(offset, readSize)).buffer
+      } catch {
+        // Damaged area: fall back to a sector-by-sector read that
+        // zero-fills what cannot be read.
+        const result = await this.reader.readChunked(offset, readSize)
+        chunk = result.buffer
+        sectorsWithErrors += result.failedSectors.length
+      }
+      if (chunk.length === 0) break
+
+      for (let pos = 0; pos + SECTOR_SIZE <= chunk.length; pos += SECTOR_SIZE) {
+        const sector = chunk.subarray(pos, pos + SECTOR_SIZE)
+        const found = matchSector(sector, offset + BigInt(pos))
+        if (found.length === 0) continue
+        signaturesFound++
+        if (hits.length < MAX_HITS) hits.push(...found)
+      }
+
+      offset += BigInt(chunk.length)
+
+      const now = Date.now()
+      if (now - lastProgressTime >= PROGRESS_INTERVAL_MS || offset >= size) {
+        lastProgressTime = now
+        const rate = now > startTime ? Number(offset) / ((now - startTime) / 1000) : 0
+        const progress: PartitionSearchProgress = {
+          bytesScanned: offset,
+          totalBytes: size,
+          percentage: size > 0n ? Math.min(100, Number((offset * 100n) / size)) : 100,
+          signaturesFound,
+          estimatedTimeRemaining: rate > 0 ? Math.round(Number(size - offset) / rate) : undefined,
+          sectorsWithErrors
+        }
+        this.emit('progress', progress)
+      }
+    }
+
+    const cancelled = this.isCancelled()
+    const candidates = await this.resolve(hits, size)
+    this.status = 'idle'
+    this.emit('complete', { candidates, cancelled })
+    return candidates
+  }
+
+  /**
+   * Pause the search at the next chunk boundary.
+   */
+  pause(): void {
+    if (this.status !== 'searching') return
+
+    this.status = 'paused'
+    this.pausePromise = new Promise<void>((resolve) => {
+      this.pauseResolve = resolve
+    })
+  }
+
+  /**
+   * Resume a paused search.
+   */
+  resume(): void {
+    if (this.status !== 'paused') return
+
+    this.status = 'searching'
+    this.releasePause()
+  }
+
+  /**
+   * Stop the search at the next chunk boundary. Hits found so far are
+   * still turned into candidates.
+   */
+  cancel(): void {
+    if (this.status === 'idle') return
+
+    this.status = 'cancelled'
+    this.releasePause()
+  }
+
+  // ── Private ─────────────────────────────────────────────
+
+  private isCancelled(): boolean {
+    return this.status === 'cancelled'
+  }
+
+  private async waitForResume(): Promise<void> {
+    if (this.pausePromise) {
+      await this.pausePromise
+    }
+  }
+
+  private releasePause(): void {
+    if (this.pauseResolve) {
+      this.pauseResolve()
+      this.pauseResolve = null
+      this.pausePromise = null
+    }
+  }
+
+  /**
+   * Merge hits that imply the same filesystem start, score each group and
+   * drop groups whose evidence is already accounted for.
+   */
+  private async resolve(hits: SignatureHit[], deviceSize: bigint): Promise<LostPartitionCandidate[]> {
+    const groups = groupHits(hits).filter((g) => g.start >= 0n && (deviceSize <= 0n || g.start < deviceSize))
+
+    let known: PartitionEntry[] = []
+    try {
+      known = (await readPartitionTable(this.reader))?.partitions ?? []
+    } catch {
+      // No readable table: every candidate is a lost partition.
+    }
+
+    const scored: { candidate: LostPartitionCandidate; sectors: bigint[] }[] = []
+    for (const group of groups) {
+      scored.push({
+        candidate: await this.scoreGroup(group, deviceSize, known),
+        sectors: group.hits.map((h) => h.sector)
+      })
+    }
+
+    // Strongest first; a candidate survives only if at least one of its
+    // signatures is not already claimed by a stronger one.
+    scored.sort((a, b) => b.candidate.confidence - a.candidate.confidence || compareBigInt(a.candidate.offset, b.candidate.offset))
+    const claimed = new Set<bigint>()
+    const accepted: LostPartitionCandidate[] = []
+    for (const { candidate, sectors } of scored) {
+      if (sectors.every((s) => claimed.has(s))) continue
+      for (const s of sectors) claimed.add(s)
+      accepted.push(candidate)
+    }
+
+    return accepted.sort((a, b) => compareBigInt(a.offset, b.offset))
+  }
+
+  private async scoreGroup(group: CandidateGroup, deviceSize: bigint, known: PartitionEntry[]): Promise<LostPartitionCandidate> {
+    const primary = group.hits.find((h) => h.copy === 'primary')
+    const backups = group.hits.filter((h) => h.copy === 'backup')
+    const reference = primary ?? group.hits[0]
+
+    const evidence = [...new Set(group.hits.map((h) => h.description))]
+    let confidence = 0
+    if (primary) confidence += SCORE_PRIMARY
+    if (backups.length > 0) confidence += SCORE_BACKUP
+    if (backups.length > 1) confidence += SCORE_EXTRA_BACKUPS
+
+    const probe = group.hits.find((h) => h.probe)?.probe
+    if (probe && (await this.runProbe(group.start, probe, deviceSize))) {
+      confidence += SCORE_STRUCTURE
+      evidence.push(probe.description)
+    }
+
+    let size = reference.size
+    if (deviceSize > 0n && group.start + size > deviceSize) {
+      confidence -= PENALTY_PAST_END
+      size = deviceSize - group.start
+      evidence.push('Extends past the end of the device')
+    } else {
+      confidence += SCORE_FITS_DEVICE
+    }
+
+    return {
+      id: randomUUID(),
+      offset: group.start,
+      size,
+      filesystem: group.filesystem,
+      label: group.hits.find((h) => h.label)?.label,
+      confidence: Math.max(0, Math.min(100, confidence)),
+      evidence,
+      inPartitionTable: known.some((p) => p.offset === group.start)
+    }
+  }
+
+  private async runProbe(start: bigint, probe: StructureProbe, deviceSize: bigint): Promise<boolean> {
+    const at = start + probe.offset
+    if (deviceSize > 0n && at + BigInt(probe.length) > deviceSize) return false
+    try {
+      const { buffer } = await this.reader.readAt(at, probe.length)
+      return buffer.length >= probe.length && probe.matches(buffer)
+    } catch {
+      return false
+    }
+  }
+}
+
+// ─── Signature matching ─────────────────────────────────────────
+
+/**
+ * Every interpretation of the structure found in one sector, if any.
+ */
+function matchSector(sector: Buffer, at: bigint): SignatureHit[] {
+  if (sector.readUInt16LE(510) === BOOT_SIGNATURE) {
+    const oem = sector.toString('ascii', 3, 11)
+    if (oem === 'EXFAT   ') return matchExfat(sector, at)
+    if (oem === 'NTFS    ') return matchNtfs(sector, at)
+    const fat = matchFat32(sector, at)
+    if (fat.length > 0) return fat
+  }
+
+  if (sector.readUInt16LE(56) === EXT_MAGIC) return matchExtSuperblock(sector, at)
+
+  const hfsSignature = sector.readUInt16BE(0)
+  if (hfsSignature === HFS_PLUS_SIGNATURE || hfsSignature === HFSX_SIGNATURE) {
+    return matchHfsPlus(sector, at)
+  }
+
+  return []
+}
+
+function matchFat32(sector: Buffer, at: bigint): SignatureHit[] {
+  const bytesPerSector = sector.readUInt16LE(11)
+  const sectorsPerCluster = sector[13]
+  const reservedSectors = sector.readUInt16LE(14)
+  const fatCount = sector[16]
+  const media = sector[21]
+  const totalSectors = sector.readUInt32LE(32)
+  const backupBootSector = sector.readUInt16LE(50)
+
+  if (!isPowerOfTwo(bytesPerSector) || bytesPerSector < 512 || bytesPerSector > 4096) return []
+  if (!isPowerOfTwo(sectorsPerCluster)) return []
+  if (reservedSectors === 0 || (fatCount !== 1 && fatCount !== 2)) return []
+  // FAT32: no fixed root directory, 16-bit FAT size zero, 32-bit one set.
+  if (sector.readUInt16LE(17) !== 0 || sector.readUInt16LE(22) !== 0) return []
+  if (sector.readUInt32LE(36) === 0 || totalSectors === 0) return []
+
+  const rawLabel = sector.toString('latin1', 71, 82).trim()
+  const label = rawLabel && rawLabel !== 'NO NAME' ? rawLabel : undefined
+  const size = BigInt(totalSectors) * BigInt(bytesPerSector)
+  const probe: StructureProbe = {
+    offset: BigInt(reservedSectors * bytesPerSector),
+    length: 4,
+    description: 'File allocation table',
+    matches: (fat) => fat[0] === media && fat[1] === 0xff && fat[2] === 0xff && (fat[3] & 0x0f) === 0x0f
+  }
+
+  const hits: SignatureHit[] = [
+    { filesystem: 'fat32', start: at, size, copy: 'primary', sector: at, description: 'Boot sector', label, probe }
+  ]
+  if (backupBootSector > 0 && backupBootSector < reservedSectors) {
+    hits.push({
+      filesystem: 'fat32',
+      start: at - BigInt(backupBootSector * bytesPerSector),
+      size,
+      copy: 'backup',
+      sector: at,
+      description: `Backup boot sector (sector ${backupBootSector})`,
+      label,
+      probe
+    })
+  }
+  return hits
+}
+
+function matchExfat(sector: Buffer, at: bigint): SignatureHit[] {
+  // The legacy BPB area must be zeroed so FAT drivers refuse the volume.
+  for (let i = 11; i < 64; i++) {
+    if (sector[i] !== 0) return []
+  }
+
+  const bytesPerSectorShift = sector[108]
+  const sectorsPerClusterShift = sector[109]
+  const fatCount = sector[110]
+  const volumeLength = sector.readBigUInt64LE(72)
+  const fatOffset = sector.readUInt32LE(80)
+
+  if (bytesPerSectorShift < 9 || bytesPerSectorShift > 12) return []
+  if (sectorsPerClusterShift > 25 - bytesPerSectorShift) return []
+  if ((fatCount !== 1 && fatCount !== 2) || volumeLength === 0n || fatOffset < 24) return []
+
+  const bytesPerSector = 1 << bytesPerSectorShift
+  const size = volumeLength * BigInt(bytesPerSector)
+  const probe: StructureProbe = {
+    offset: BigInt(fatOffset) * BigInt(bytesPerSector),
+    length: 8,
+    description: 'File allocation table',
+    matches: (fat) => fat.readUInt32LE(0) === 0xfffffff8 && fat.readUInt32LE(4) === 0xffffffff
+  }
+
+  return [
+    { filesystem: 'exfat', start: at, size, copy: 'primary', sector: at, description: 'Boot sector', probe },
+    {
+      filesystem: 'exfat',
+      start: at - BigInt(EXFAT_BACKUP_BOOT_SECTOR * bytesPerSector),
+      size,
+      copy: 'backup',
+      sector: at,
+      description: 'Backup boot region',
+      probe
+    }
+  ]
+}
+
+function matchNtfs(sector: Buffer, at: bigint): SignatureHit[] {
+  const bytesPerSector = sector.readUInt16LE(11)
+  const rawSectorsPerCluster = sector[13]
+  const totalSectors = sector.readBigUInt64LE(40)
+  const mftCluster = sector.readBigUInt64LE(48)
+
+  if (!isPowerOfTwo(bytesPerSector) || bytesPerSector < 512 || bytesPerSector > 4096) return []
+  // Values above 0x80 encode 2^(256 - n) sectors per cluster.
+  const sectorsPerCluster = rawSectorsPerCluster > 0x80 ? 2 ** (256 - rawSectorsPerCluster) : rawSectorsPerCluster
+  if (!isPowerOfTwo(sectorsPerCluster)) return []
+  if (totalSectors === 0n || mftCluster === 0n) return []
+
+  // The recorded sector count excludes the backup boot sector at the end.
+  const sectorSize = BigInt(bytesPerSector)
+  const size = (totalSectors + 1n) * sectorSize
+  const clusterSize = BigInt(bytesPerSector * sectorsPerCluster)
+  const probe: StructureProbe = {
+    offset: mftCluster * clusterSize,
+    length: 4,
+    description: 'Master File Table',
+    matches: (mft) => mft.toString('ascii', 0, 4) === 'FILE'
+  }
+
+  return [
+    { filesystem: 'ntfs', start: at, size, copy: 'primary', sector: at, description: 'Boot sector', probe },
+    {
+      filesystem: 'ntfs',
+      start: at - totalSectors * sectorSize,
+      size,
+      copy: 'backup',
+      sector: at,
+      description: 'Backup boot sector (end of volume)',
+      probe
+    }
+  ]
+}
+
+function matchExtSuperblock(sector: Buffer, at: bigint): SignatureHit[] {
+  const inodeCount = sector.readUInt32LE(0)
+  const firstDataBlock = sector.readUInt32LE(20)
+  const logBlockSize = sector.readUInt32LE(24)
+  const blocksPerGroup = sector.readUInt32LE(32)
+  const inodesPerGroup = sector.readUInt32LE(40)
+  const revision = sector.readUInt32LE(76)
+  const groupNumber = sector.readUInt16LE(90)
+  const incompat = sector.readUInt32LE(96)
+
+  if (logBlockSize > 6 || revision > 1) return []
+  const blockSize = 1024 << logBlockSize
+  if (firstDataBlock !== (blockSize === 1024 ? 1 : 0)) return []
+  if (inodeCount === 0 || inodesPerGroup === 0) return []
+  if (blocksPerGroup === 0 || blocksPerGroup > blockSize * 8) return []
+
+  // INCOMPAT_64BIT adds the high half of the block count.
+  let blockCount = BigInt(sector.readUInt32LE(4))
+  if (incompat & 0x80) blockCount |= BigInt(sector.readUInt32LE(0x150)) << 32n
+  if (blockCount === 0n) return []
+
+  const label = sector.subarray(120, 136).toString('utf8').replace(/\0.*$/s, '') || undefined
+  const size = blockCount * BigInt(blockSize)
+
+  // The primary always sits 1024 bytes in; backups start their group.
+  if (groupNumber === 0) {
+    return [{ filesystem: 'ext4', start: at - 1024n, size, copy: 'primary', sector: at, description: 'Superblock', label }]
+  }
+  const block = BigInt(groupNumber) * BigInt(blocksPerGroup) + BigInt(firstDataBlock)
+  return [{
+    filesystem: 'ext4',
+    start: at - block * BigInt(blockSize),
+    size,
+    copy: 'backup',
+    sector: at,
+    description: `Backup superblock (group ${groupNumber})`,
+    label
+  }]
+}
+
+function matchHfsPlus(sector: Buffer, at: bigint): SignatureHit[] {
+  const signature = sector.readUInt16BE(0)
+  const version = sector.readUInt16BE(2)
+  const blockSize = sector.readUInt32BE(40)
+  const totalBlocks = sector.readUInt32BE(44)
+  const freeBlocks = sector.readUInt32BE(48)
+
+  if (version !== (signature === HFS_PLUS_SIGNATURE ? 4 : 5)) return []
+  if (!isPowerOfTwo(blockSize) || blockSize < 512) return []
+  if (totalBlocks === 0 || freeBlocks > totalBlocks) return []
+
+  const size = BigInt(totalBlocks) * BigInt(blockSize)
+  return [
+    { filesystem: 'hfs+', start: at - 1024n, size, copy: 'primary', sector: at, description: 'Volume header' },
+    {
+      filesystem: 'hfs+',
+      start: at + 1024n - size,
+      size,
+      copy: 'backup',
+      sector: at,
+      description: 'Alternate volume header',
+      slack: BigInt(blockSize)
+    }
+  ]
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * Group hits by filesystem and implied start. A hit with slack joins a
+ * group of the same filesystem and size that starts within the slack.
+ */
+function groupHits(hits: SignatureHit[]): CandidateGroup[] {
+  const groups = new Map<string, CandidateGroup>()
+  const loose: SignatureHit[] = []
+
+  for (const hit of hits) {
+    if (hit.slack) {
+      loose.push(hit)
+      continue
+    }
+    const key = `${hit.filesystem}:${hit.start}`
+    const group = groups.get(key)
+    if (group) group.hits.push(hit)
+    else groups.set(key, { filesystem: hit.filesystem, start: hit.start, hits: [hit] })
+  }
+
+  for (const hit of loose) {
+    const slack = hit.slack ?? 0n
+    const match = [...groups.values()].find((g) =>
+      g.filesystem === hit.filesystem &&
+      g.start <= hit.start &&
+      g.start >= hit.start - slack &&
+      g.hits.some((h) => h.size === hit.size)
+    )
+    if (match) {
+      match.hits.push(hit)
+      continue
+    }
+    const key = `${hit.filesystem}:${hit.start}`
+    const group = groups.get(key)
+    if (group) group.hits.push(hit)
+    else groups.set(key, { filesystem: hit.filesystem, start: hit.start, hits: [hit] })
+  }
+
+  return [...groups.values()]
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
@@ -0,0 +1,232 @@
+/**
+ * MBR Partition Table Parser
+ *
+ * Reads the classic DOS partition table: four primary entries at byte 446
+ * of sector 0, followed by the chain of Extended Boot Records (EBRs) inside
+ * an extended partition. Each EBR describes one logical partition (entry 0,
+ * relative to the EBR itself) and links to the next EBR (entry 1, relative
+ * to the start of the extended partition).
+ *
+ * Logical partitions are numbered from 5 upwards, as Linux does.
+ */
+
+import type { BlockReader } from '../io/block-reader'
+import type { PartitionEntry } from './index'
+
+// ─── Constants ──────────────────────────────────────────────────
+
+/** MBR geometry is always expressed in 512-byte sectors. */
+export const MBR_SECTOR_SIZE = 512
+
+const PARTITION_TABLE_OFFSET = 446
+const PARTITION_ENTRY_SIZE = 16
+const BOOT_SIGNATURE = 0xaa55
+
+/** Protective MBR of a GPT disk. */
+export const TYPE_GPT_PROTECTIVE = 0xee
+/** Extended partition containers (CHS, LBA and Linux variants). */
+const EXTENDED_TYPES = new Set([0x05, 0x0f, 0x85])
+
+/** Upper bound on the EBR chain, in case it loops or is corrupt. */
+const MAX_LOGICAL_PARTITIONS = 128
+
+/** Common partition type codes. */
+const MBR_TYPE_NAMES: Record<number, string> = {
+  0x01: 'FAT12',
+  0x04: 'FAT16 (<32 MB)',
+  0x06: 'FAT16',
+  0x07: 'NTFS / exFAT',
+  0x0b: 'FAT32',
+  0x0c: 'FAT32 (LBA)',
+  0x0e: 'FAT16 (LBA)',
+  0x11: 'Hidden FAT12',
+  0x14: 'Hidden FAT16 (<32 MB)',
+  0x16: 'Hidden FAT16',
+  0x17: 'Hidden NTFS / exFAT',
+  0x1b: 'Hidden FAT32',
+  0x1c: 'Hidden FAT32 (LBA)',
+  0x1e: 'Hidden FAT16 (LBA)',
+  0x27: 'Windows recovery',
+  0x82: 'Linux swap',
+  0x83: 'Linux',
+  0x8e: 'Linux LVM',
+  0xa5: 'FreeBSD',
+  0xa8: 'Apple UFS',
+  0xab: 'Apple boot',
+  0xaf: 'HFS / HFS+',
+  0xee: 'GPT protective',
+  0xef: 'EFI system',
+  0xfd: 'Linux RAID'
+}
+
+// ─── Types ──────────────────────────────────────────────────────
+
+interface RawMbrEntry {
+  status: number
+  typeCode: number
+  lbaStart: number
+  sectorCount: number
+}
+
+export interface MbrSector {
+  /** 32-bit disk signature at byte 440. */
+  diskSignature: number
+  entries: RawMbrEntry[]
+}
+
+// ─── Public API ─────────────────────────────────────────────────
+
+/**
+ * Parse sector 0 as an MBR.
+ *
+ * Returns null when the sector is not an MBR, including when it is the
+ * boot sector of a bare (unpartitioned) filesystem, which also ends in
+ * 0x55AA.
+ */
+export function parseMbrSector(sector: Buffer): MbrSector | null {
+  if (sector.length < MBR_SECTOR_SIZE) return null
+  if (sector.readUInt16LE(510) !== BOOT_SIGNATURE) return null
+  if (looksLikeVolumeBootRecord(sector)) return null
+
+  const entries = readEntries(sector)
+  if (entries.some((e) => e.status !== 0x00 && e.status !== 0x80)) return null
+
+  return { diskSignature: sector.readUInt32LE(440), entries }
+}
+
+/**
+ * List the primary and logical partitions described by an MBR.
+ *
+ * Extended containers themselves are not listed. Partitions that start
+ * past the end of the device are dropped and those that run past it are
+ * truncated.
+ */
+export async function readMbrPartitions(
+  reader: BlockReader,
+  mbr: MbrSector,
+  warnings: string[]
+): Promise<PartitionEntry[]> {
+  const partitions: PartitionEntry[] = []
+
+  for (let i = 0; i < mbr.entries.length; i++) {
+    const entry = mbr.entries[i]
+    if (entry.typeCode === 0 || entry.sectorCount === 0 || entry.lbaStart === 0) continue
+    if (entry.typeCode === TYPE_GPT_PROTECTIVE) continue
+
+    if (EXTENDED_TYPES.has(entry.typeCode)) {
+      partitions.push(...(await readLogicalPartitions(reader, entry.lbaStart, entry.sectorCount, warnings)))
+      continue
+    }
+
+    const partition = toPartition(reader, i + 1, 'primary', entry, BigInt(entry.lbaStart))
+    if (partition) partitions.push(partition)
+  }
+
+  return partitions
+}
+
+/** Human-readable name of an MBR partition type code. */
+export function mbrTypeName(typeCode: number): string {
+  return MBR_TYPE_NAMES[typeCode] ?? `Type 0x${typeCode.toString(16).padStart(2, '0')}`
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * Walk the EBR chain of an extended partition.
+ */
+async function readLogicalPartitions(
+  reader: BlockReader,
+  extendedStart: number,
+  extendedSectors: number,
+  warnings: string[]
+): Promise<PartitionEntry[]> {
+  const partitions: PartitionEntry[] = []
+  const visited = new Set<number>()
+  const extendedEnd = extendedStart + extendedSectors
+  let ebrLba = extendedStart
+
+  while (partitions.length < MAX_LOGICAL_PARTITIONS) {
+    if (visited.has(ebrLba) || ebrLba < extendedStart || ebrLba >= extendedEnd) {
+      warnings.push(`Extended partition chain is corrupt at sector ${ebrLba}`)
+      break
+    }
+    visited.add(ebrLba)
+
+    let sector: Buffer
+    try {
+      sector = (await reader.readAt(BigInt(ebrLba) * BigInt(MBR_SECTOR_SIZE), MBR_SECTOR_SIZE)).buffer
+    } catch {
+      warnings.push(`Cannot read extended boot record at sector ${ebrLba}`)
+      break
+    }
+    if (sector.length < MBR_SECTOR_SIZE || sector.readUInt16LE(510) !== BOOT_SIGNATURE) {
+      warnings.push(`Missing extended boot record at sector ${ebrLba}`)
+      break
+    }
+
+    const [logical, next] = readEntries(sector)
+    if (logical.typeCode !== 0 && logical.sectorCount > 0) {
+      const index = 5 + partitions.length
+      const partition = toPartition(reader, index, 'logical', logical, BigInt(ebrLba) + BigInt(logical.lbaStart))
+      if (partition) partitions.push(partition)
+    }
+
+    if (!EXTENDED_TYPES.has(next.typeCode) || next.sectorCount === 0) break
+    ebrLba = extendedStart + next.lbaStart
+  }
+
+  return partitions
+}
+
+function readEntries(sector: Buffer): RawMbrEntry[] {
+  const entries: RawMbrEntry[] = []
+  for (let i = 0; i < 4; i++) {
+    const pos = PARTITION_TABLE_OFFSET + i * PARTITION_ENTRY_SIZE
+    entries.push({
+      status: sector[pos],
+      typeCode: sector[pos + 4],
+      lbaStart: sector.readUInt32LE(pos + 8),
+      sectorCount: sector.readUInt32LE(pos + 12)
+    })
+  }
+  return entries
+}
+
+function toPartition(
+  reader: BlockReader,
+  index: number,
+  kind: 'primary' | 'logical',
+  entry: RawMbrEntry,
+  startLba: bigint
+): PartitionEntry | null {
+  const offset = startLba * BigInt(MBR_SECTOR_SIZE)
+  let size = BigInt(entry.sectorCount) * BigInt(MBR_SECTOR_SIZE)
+  if (reader.size > 0n) {
+    if (offset >= reader.size) return null
+    if (offset + size > reader.size) size = reader.size - offset
+  }
+
+  return {
+    index,
+    scheme: 'mbr',
+    kind,
+    offset,
+    size,
+    typeCode: entry.typeCode,
+    typeName: mbrTypeName(entry.typeCode),
+    bootable: entry.status === 0x80
+  }
+}
+
+/**
+ * Filesystem boot sectors share the 0x55AA signature with MBRs. Recognise
+ * the common ones by their OEM / type strings.
+ */
+function looksLikeVolumeBootRecord(sector: Buffer): boolean {
+  const oem = sector.toString('ascii', 3, 11)
+  if (oem === 'NTFS    ' || oem === 'EXFAT   ') return true
+  if (sector.toString('ascii', 82, 87) === 'FAT32') return true
+  if (sector.toString('ascii', 54, 57) === 'FAT') return true
+  return false
+}
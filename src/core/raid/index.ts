@@ -0,0 +1,273 @@
+/**
+ * Virtual RAID - Assembly of RAID arrays from loose member disks.
+ *
+ * An assembled array is addressed by a virtual source path of the form
+ * `raid:<id>`, where the id is derived from the array geometry and its
+ * members. `openSourceReader` recognises the prefix and returns a reader
+ * over the whole array, so scans, previews and recovery treat it like any
+ * other source; a LUKS volume on the array unlocks the same way as one on
+ * a disk.
+ *
+ * Arrays are registered in the main process when the user assembles them
+ * and handed to the workers reading from them through their workerData. The geometry comes
+ * from the user or from the members' Linux md superblocks.
+ */
+
+import { createHash } from 'crypto'
+import { SliceReader } from '../io/slice-reader'
+import type { OpenSourceOptions, SourceReader } from '../io/images'
+import type { RaidConfig, RaidMember, SourceWindow } from '../../shared/types'
+import { mdLayoutName, readMdSuperblock } from './md-superblock'
+import type { MdSuperblock } from './md-superblock'
+import { RaidReader, arraySize } from './raid-reader'
+
+// ─── Types ──────────────────────────────────────────────────────
+
+/** A {@link RaidConfig} in a form that can cross a worker or IPC boundary. */
+export interface SerializedRaidConfig {
+  level: RaidConfig['level']
+  layout: RaidConfig['layout']
+  chunkSize: number
+  members: ({ path: string; start: string; dataOffset: string; dataSize: string } | null)[]
+  name?: string
+}
+
+/** A registered array, as handed to workers. */
+export interface SerializedRaidArray {
+  path: string
+  config: SerializedRaidConfig
+}
+
+/** Opens a member device or image. */
+export type OpenMemberSource = (sourcePath: string, options: OpenSourceOptions) => Promise<SourceReader>
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const VIRTUAL_PATH_PREFIX = 'raid:'
+
+/** md levels that can be assembled */
+const SUPPORTED_MD_LEVELS = new Set([0, 1, 5])
+
+// ─── Registry ───────────────────────────────────────────────────
+
+const raidArrays = new Map<string, RaidConfig>()
+
+/** Whether a path is the virtual path of an assembled array. */
+export function isRaidArrayPath(sourcePath: string): boolean {
+  return sourcePath.startsWith(VIRTUAL_PATH_PREFIX)
+}
+
+/** Virtual path of an array; the same geometry and members give the same path. */
+export function raidArrayPath(config: RaidConfig): string {
+  const id = createHash('sha1')
+    .update(JSON.stringify({ ...serializeRaidConfig(config), name: undefined }))
+    .digest('hex')
+    .slice(0, 12)
+  return `${VIRTUAL_PATH_PREFIX}${id}`
+}
+
+/**
+ * Register an array and return its virtual path.
+ *
+ * @throws If the members cannot form an array of the configured level.
+ */
+export function registerRaidArray(config: RaidConfig): string {
+  arraySize(config)
+  const path = raidArrayPath(config)
+  raidArrays.set(path, config)
+  return path
+}
+
+export function getRaidArray(path: string): RaidConfig | undefined {
+  return raidArrays.get(path)
+}
+
+/** Paths of the present members of an array, or [] if it is not registered. */
+export function raidMemberPaths(path: string): string[] {
+  const config = raidArrays.get(path)
+  if (!config) return []
+  return [...new Set(config.members.flatMap((m) => (m ? [m.path] : [])))]
+}
+
+/**
+ * Open a registered array.
+ *
+ * @throws If the array has not been assembled in this process.
+ */
+export async function openRaidArray(path: string, openMember: OpenMemberSource): Promise<SourceReader> {
+  const config = raidArrays.get(path)
+  if (!config) throw new Error(`RAID array ${path} has not been assembled`)
+
+  const opened: SourceReader[] = []
+  try {
+    const members = []
+    for (const member of config.members) {
+      if (!member) {
+        members.push(null)
+        continue
+      }
+      const reader = await openMember(member.path, {
+        sizeHint: member.start + member.dataOffset + member.dataSize,
+      })
+      opened.push(reader)
+      members.push({ reader, dataStart: member.start + member.dataOffset })
+    }
+    return new RaidReader(path, config, members)
+  } catch (err) {
+    for (const reader of opened) await reader.close()
+    throw err
+  }
+}
+
+// ─── md Detection ───────────────────────────────────────────────
+
+/**
+ * Look for Linux md superblocks on a set of candidates and assemble the
+ * arrays they describe.
+ *
+ * Members are placed in their recorded slots; slots with no member found
+ * are left empty. Members whose event count lags behind the rest of their
+ * array dropped out before it failed and would return stale data, so they
+ * are left out when the array can be read without them.
+ *
+ * @returns One configuration per array of a supported level.
+ */
+export async function detectMdArrays(
+  candidates: SourceWindow[],
+  openMember: OpenMemberSource
+): Promise<RaidConfig[]> {
+  const found = new Map<string, { candidate: SourceWindow; sb: MdSuperblock }[]>()
+
+  for (const candidate of candidates) {
+    let sb: MdSuperblock | null = null
+    try {
+      const parent = await openMember(candidate.path, { sizeHint: candidate.start + candidate.size })
+      try {
+        sb = await readMdSuperblock(new SliceReader(parent, candidate.start, candidate.size))
+      } finally {
+        await parent.close()
+      }
+    } catch {
+      // Unreadable candidates simply contribute no member
+    }
+    if (!sb || sb.role === null) continue
+
+    const members = found.get(sb.arrayUuid) ?? []
+    members.push({ candidate, sb })
+    found.set(sb.arrayUuid, members)
+  }
+
+  const arrays: RaidConfig[] = []
+  for (const [uuid, members] of found) {
+    const config = assembleMdArray(uuid, members)
+    if (config) arrays.push(config)
+  }
+  return arrays
+}
+
+function assembleMdArray(
+  uuid: string,
+  found: { candidate: SourceWindow; sb: MdSuperblock }[]
+): RaidConfig | null {
+  const newest = found.reduce((a, b) => (b.sb.events > a.sb.events ? b : a)).sb
+  if (!SUPPORTED_MD_LEVELS.has(newest.level)) return null
+
+  const layout = newest.level === 5 ? mdLayoutName(newest.layout) : 'left-symmetric'
+  if (!layout) return null
+
+  // The freshest member for each slot
+  const slots: ({ candidate: SourceWindow; sb: MdSuperblock } | null)[] =
+    new Array(newest.raidDisks).fill(null)
+  for (const entry of found) {
+    const role = entry.sb.role!
+    if (role >= slots.length) continue
+    if (!slots[role] || entry.sb.events > slots[role]!.sb.events) slots[role] = entry
+  }
+
+  const toMember = (entry: { candidate: SourceWindow; sb: MdSuperblock } | null): RaidMember | null =>
+    entry && {
+      path: entry.candidate.path,
+      start: entry.candidate.start,
+      dataOffset: entry.sb.dataOffset,
+      dataSize: entry.sb.dataSize > 0n ? entry.sb.dataSize : entry.candidate.size - entry.sb.dataOffset,
+    }
+
+  const config: RaidConfig = {
+    level: newest.level as RaidConfig['level'],
+    layout,
+    chunkSize: newest.chunkSize,
+    members: slots.map(toMember),
+    name: newest.name ?? `md ${uuid.slice(0, 8)}`,
+  }
+
+  const current = {
+    ...config,
+    members: slots.map((entry) => (entry && entry.sb.events === newest.events ? toMember(entry) : null)),
+  }
+  return canAssemble(current) ? current : config
+}
+
+function canAssemble(config: RaidConfig): boolean {
+  try {
+    arraySize(config)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ─── Serialization ──────────────────────────────────────────────
+
+/** A registered array, for a worker to register in turn. */
+export function raidArrayForWorker(path: string): SerializedRaidArray | undefined {
+  const config = raidArrays.get(path)
+  return config && { path, config: serializeRaidConfig(config) }
+}
+
+/** Register the arrays a worker received in its workerData. */
+export function registerRaidArrays(arrays: SerializedRaidArray[]): void {
+  for (const { path, config } of arrays) {
+    raidArrays.set(path, deserializeRaidConfig(config))
+  }
+}
+
+export function serializeRaidConfig(config: RaidConfig): SerializedRaidConfig {
+  return {
+    level: config.level,
+    layout: config.layout,
+    chunkSize: config.chunkSize,
+    members: config.members.map((m) =>
+      m && {
+        path: m.path,
+        start: m.start.toString(),
+        dataOffset: m.dataOffset.toString(),
+        dataSize: m.dataSize.toString(),
+      }
+    ),
+    name: config.name,
+  }
+}
+
+export function deserializeRaidConfig(data: SerializedRaidConfig): RaidConfig {
+  return {
+    level: data.level,
+    layout: data.layout,
+    chunkSize: data.chunkSize,
+    members: data.members.map((m) =>
+      m && {
+        path: m.path,
+        start: BigInt(m.start),
+        dataOffset: BigInt(m.dataOffset),
+        dataSize: BigInt(m.dataSize),
+      }
+    ),
+    name: data.name,
+  }
+}
+
+// ─── Re-exports ─────────────────────────────────────────────────
+
+export { readMdSuperblock, mdLayoutName } from './md-superblock'
+export type { MdSuperblock } from './md-superblock'
+export { RaidReader, arraySize } from './raid-reader'
+export type { RaidMemberSource } from './raid-reader'
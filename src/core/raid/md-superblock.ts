@@ -0,0 +1,227 @@
+/**
+ * Linux md Superblock Parsing
+ *
+ * Every member of a Linux software RAID array (mdadm) carries a superblock
+ * describing the whole array: its UUID, level, layout and chunk size, the
+ * number of disks, and the role of this member. Reading it from each loose
+ * disk is enough to put the array back together in the right order.
+ *
+ * Two superblock families exist:
+ *   - v0.90: 4 KiB, host byte order, in the last 64 KiB-aligned 64 KiB of
+ *     the device; the data starts at offset 0
+ *   - v1.x: little-endian, at the end of the device (1.0), at offset 0
+ *     (1.1) or at 4 KiB (1.2, the mdadm default); the data starts at the
+ *     offset recorded in the superblock
+ */
+
+import type { SourceReader } from '../io/images'
+import type { RaidLayout } from '../../shared/types'
+
+// ─── Superblock Structure ───────────────────────────────────────
+
+export interface MdSuperblock {
+  /** Superblock version, e.g. "0.90" or "1.2" */
+  version: string
+  /** Array UUID as 32 hex digits; identical on every member */
+  arrayUuid: string
+  /** Array name (v1.x only) */
+  name?: string
+  /** RAID level: 0, 1, 4, 5, 6, 10, or -1 for linear */
+  level: number
+  /** md layout code; for RAID5 see {@link mdLayoutName} */
+  layout: number
+  /** Chunk size in bytes */
+  chunkSize: number
+  /** Number of member slots in the array */
+  raidDisks: number
+  /** Slot of this member, or null for spares and faulty members */
+  role: number | null
+  /** Event counter; stale members have a lower count */
+  events: bigint
+  /** Byte offset of the array data on this member */
+  dataOffset: bigint
+  /** Bytes of array data on this member */
+  dataSize: bigint
+}
+
+// ─── Constants ──────────────────────────────────────────────────
+
+const MD_MAGIC = 0xa92b4efc
+
+/** v0.90 superblocks sit in a reserved 64 KiB area at the end of the device */
+const MD_RESERVED_BYTES = 65536n
+const MD_SB_090_SIZE = 4096
+
+/** Word offsets in a v0.90 superblock */
+const SB090_LEVEL = 7
+const SB090_SIZE_KB = 8
+const SB090_RAID_DISKS = 10
+const SB090_UUID_WORDS = [5, 13, 14, 15]
+/** The event counter is a 64-bit value in host byte order */
+const SB090_EVENTS = 39
+const SB090_LAYOUT = 64
+const SB090_CHUNK_SIZE = 65
+/** this_disk descriptor: number, major, minor, raid_disk, state */
+const SB090_THIS_DISK = 992
+const SB090_DISK_FAULTY = 0x1
+
+/** Byte offset of the v1.2 superblock */
+const SB1_2_OFFSET = 4096n
+/** Fixed part of a v1.x superblock, before the role table */
+const SB1_FIXED_SIZE = 256
+/** Upper bound on the role table, to stop a corrupt max_dev early */
+const MAX_MD_DEVICES = 1920
+
+/** v1.x role table entries that are not slots */
+const ROLE_SPARE = 0xffff
+
+/** md RAID5 layout codes */
+const MD_LAYOUTS: readonly RaidLayout[] = [
+  'left-asymmetric',
+  'right-asymmetric',
+  'left-symmetric',
+  'right-symmetric',
+]
+
+// ─── Detection ──────────────────────────────────────────────────
+
+/**
+ * Look for an md superblock on a member.
+ *
+ * @param reader - The member device, partition or image.
+ * @returns The superblock, or null if the member carries none.
+ */
+export async function readMdSuperblock(reader: SourceReader): Promise<MdSuperblock | null> {
+  const size = reader.size
+  if (size < MD_RESERVED_BYTES * 2n) return null
+
+  // v1.x: 1.2 is by far the most common, then 1.1 and 1.0
+  const end10 = ((size / 512n - 16n) & ~7n) * 512n
+  const v1Candidates: [string, bigint][] = [['1.2', SB1_2_OFFSET], ['1.1', 0n], ['1.0', end10]]
+  for (const [version, offset] of v1Candidates) {
+    const sb = await readSuperblock1(reader, offset, version)
+    if (sb) return sb
+  }
+
+  const offset090 = (size & ~(MD_RESERVED_BYTES - 1n)) - MD_RESERVED_BYTES
+  return readSuperblock090(reader, offset090)
+}
+
+/** Name of an md RAID5 layout code, or null for codes not supported here. */
+export function mdLayoutName(layout: number): RaidLayout | null {
+  return MD_LAYOUTS[layout] ?? null
+}
+
+// ─── v1.x ───────────────────────────────────────────────────────
+
+/**
+ * mdp_superblock_1 (little-endian):
+ *   magic (0), major_version (4), feature_map (8), set_uuid (16),
+ *   set_name (32), level (72), layout (76), size (80), chunksize (88),
+ *   raid_disks (92), data_offset (128), data_size (136), super_offset (144),
+ *   dev_number (160), events (200), sb_csum (216), max_dev (220),
+ *   dev_roles (256, u16 each)
+ */
+async function readSuperblock1(
+  reader: SourceReader,
+  offset: bigint,
+  version: string
+): Promise<MdSuperblock | null> {
+  const head = await readBytes(reader, offset, SB1_FIXED_SIZE)
+  if (!head || head.length < SB1_FIXED_SIZE) return null
+  if (head.readUInt32LE(0) !== MD_MAGIC || head.readUInt32LE(4) !== 1) return null
+  if (head.readBigUInt64LE(144) !== offset / 512n) return null
+
+  const maxDev = head.readUInt32LE(220)
+  if (maxDev > MAX_MD_DEVICES) return null
+
+  const buf = await readBytes(reader, offset, SB1_FIXED_SIZE + maxDev * 2)
+  if (!buf || buf.length < SB1_FIXED_SIZE + maxDev * 2) return null
+  if (superblock1Checksum(buf) !== buf.readUInt32LE(216)) return null
+
+  const devNumber = buf.readUInt32LE(160)
+  const role = devNumber < maxDev ? buf.readUInt16LE(SB1_FIXED_SIZE + devNumber * 2) : ROLE_SPARE
+  const name = readCString(buf, 32, 32)
+
+  return {
+    version,
+    arrayUuid: buf.subarray(16, 32).toString('hex'),
+    name: name || undefined,
+    level: buf.readInt32LE(72),
+    layout: buf.readUInt32LE(76),
+    chunkSize: buf.readUInt32LE(88) * 512,
+    raidDisks: buf.readUInt32LE(92),
+    role: role < buf.readUInt32LE(92) ? role : null,
+    events: buf.readBigUInt64LE(200),
+    dataOffset: buf.readBigUInt64LE(128) * 512n,
+    dataSize: buf.readBigUInt64LE(136) * 512n,
+  }
+}
+
+/** Sum of the superblock's 32-bit words, folded to 32 bits, with sb_csum as zero. */
+function superblock1Checksum(buf: Buffer): number {
+  let sum = 0n
+  for (let i = 0; i + 4 <= buf.length; i += 4) {
+    if (i === 216) continue
+    sum += BigInt(buf.readUInt32LE(i))
+  }
+  if (buf.length % 4 === 2) sum += BigInt(buf.readUInt16LE(buf.length - 2))
+  return Number(((sum & 0xffffffffn) + (sum >> 32n)) & 0xffffffffn)
+}
+
+// ─── v0.90 ──────────────────────────────────────────────────────
+
+/**
+ * mdp_super_t: 1024 32-bit words in the byte order of the machine that
+ * created the array, which the magic reveals.
+ */
+async function readSuperblock090(reader: SourceReader, offset: bigint): Promise<MdSuperblock | null> {
+  const buf = await readBytes(reader, offset, MD_SB_090_SIZE)
+  if (!buf || buf.length < MD_SB_090_SIZE) return null
+
+  let littleEndian: boolean
+  if (buf.readUInt32LE(0) === MD_MAGIC) littleEndian = true
+  else if (buf.readUInt32BE(0) === MD_MAGIC) littleEndian = false
+  else return null
+
+  const word = (index: number): number =>
+    littleEndian ? buf.readUInt32LE(index * 4) : buf.readUInt32BE(index * 4)
+  if (word(1) !== 0 || word(2) !== 90) return null
+
+  const uuid = Buffer.alloc(16)
+  SB090_UUID_WORDS.forEach((w, i) => uuid.writeUInt32BE(word(w), i * 4))
+
+  const raidDisks = word(SB090_RAID_DISKS)
+  const thisRole = word(SB090_THIS_DISK + 3)
+  const faulty = (word(SB090_THIS_DISK + 4) & SB090_DISK_FAULTY) !== 0
+
+  return {
+    version: '0.90',
+    arrayUuid: uuid.toString('hex'),
+    level: word(SB090_LEVEL) | 0,
+    layout: word(SB090_LAYOUT),
+    chunkSize: word(SB090_CHUNK_SIZE),
+    raidDisks,
+    role: !faulty && thisRole < raidDisks ? thisRole : null,
+    events: littleEndian ? buf.readBigUInt64LE(SB090_EVENTS * 4) : buf.readBigUInt64BE(SB090_EVENTS * 4),
+    dataOffset: 0n,
+    dataSize: BigInt(word(SB090_SIZE_KB)) * 1024n,
+  }
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+function readCString(buf: Buffer, offset: number, length: number): string {
+  const field = buf.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end >= 0 ? end : field.length).toString('utf8')
+}
+
+async function readBytes(reader: SourceReader, offset: bigint, length: number): Promise<Buffer | null> {
+  if (offset < 0n || offset >= reader.size) return null
+  try {
+    return await reader.read(offset, length)
+  } catch {
+    return null
+  }
+}
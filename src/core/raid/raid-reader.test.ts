@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { RaidReader } from './raid-reader'
+import type { RaidMemberSource } from './raid-reader'
+import { BufferReader } from '../io/buffer-reader'
+import type { RaidConfig, RaidLayout, RaidLevel } from '../../shared/types'
+
+const CHUNK = 512
+/** Bytes of array data on each member, after DATA_OFFSET */
+const MEMBER_DATA = 4 * CHUNK
+const DATA_OFFSET = 1024
+
+/** A chunk of array data: every byte holds the chunk's index */
+const dataChunk = (index: number): Buffer => Buffer.alloc(CHUNK, index + 1)
+
+/**
+ * Build members from a layout table: one row per stripe, one cell per
+ * disk, each a data chunk index or 'P' for the row's parity.
+ */
+function buildMembers(rows: (number | 'P')[][]): Buffer[] {
+  const disks = rows[0].length
+  const members = Array.from({ length: disks }, () => Buffer.alloc(DATA_OFFSET + MEMBER_DATA))
+
+  rows.forEach((row, r) => {
+    const parity = Buffer.alloc(CHUNK)
+    for (const cell of row) {
+      if (cell === 'P') continue
+      const chunk = dataChunk(cell)
+      for (let i = 0; i < CHUNK; i++) parity[i] ^= chunk[i]
+    }
+    row.forEach((cell, disk) => {
+      const chunk = cell === 'P' ? parity : dataChunk(cell)
+      chunk.copy(members[disk], DATA_OFFSET + r * CHUNK)
+    })
+  })
+  return members
+}
+
+function openArray(level: RaidLevel, layout: RaidLayout, members: (Buffer | null)[]): RaidReader {
+  const config: RaidConfig = {
+    level,
+    layout,
+    chunkSize: CHUNK,
+    members: members.map((member, i) =>
+      member ? { path: `disk${i}`, start: 0n, dataOffset: BigInt(DATA_OFFSET), dataSize: BigInt(MEMBER_DATA) } : null
+    )
+  }
+  const sources = members.map((member, i): RaidMemberSource | null =>
+    member ? { reader: new BufferReader(member, `disk${i}`), dataStart: BigInt(DATA_OFFSET) } : null
+  )
+  return new RaidReader('raid:test', config, sources)
+}
+
+/** The array's data chunks in order */
+function expectedData(chunks: number): Buffer {
+  return Buffer.concat(Array.from({ length: chunks }, (_, i) => dataChunk(i)))
+}
+
+// Parity rotation of a four-disk RAID5 array, as md lays it out
+const RAID5_LAYOUTS: Record<RaidLayout, (number | 'P')[][]> = {
+  'left-asymmetric': [
+    [0, 1, 2, 'P'],
+    [3, 4, 'P', 5],
+    [6, 'P', 7, 8],
+    ['P', 9, 10, 11]
+  ],
+  'right-asymmetric': [
+    ['P', 0, 1, 2],
+    [3, 'P', 4, 5],
+    [6, 7, 'P', 8],
+    [9, 10, 11, 'P']
+  ],
+  'left-symmetric': [
+    [0, 1, 2, 'P'],
+    [4, 5, 'P', 3],
+    [8, 'P', 6, 7],
+    ['P', 9, 10, 11]
+  ],
+  'right-symmetric': [
+    ['P', 0, 1, 2],
+    [5, 'P', 3, 4],
+    [7, 8, 'P', 6],
+    [9, 10, 11, 'P']
+  ]
+}
+
+describe('RaidReader', () => {
+  it('stripes RAID0 chunks across every member in turn', async () => {
+    const members = buildMembers([
+      [0, 1, 2],
+      [3, 4, 5],
+      [6, 7, 8],
+      [9, 10, 11]
+    ])
+    const array = openArray(0, 'left-symmetric', members)
+
+    expect(array.size).toBe(BigInt(12 * CHUNK))
+    expect((await array.read(0n, 12 * CHUNK)).equals(expectedData(12))).toBe(true)
+  })
+
+  it('reads RAID1 from any member left', async () => {
+    const mirror = Buffer.concat([Buffer.alloc(DATA_OFFSET), expectedData(4)])
+    const array = openArray(1, 'left-symmetric', [null, mirror])
+
+    expect(array.size).toBe(BigInt(MEMBER_DATA))
+    expect((await array.read(0n, MEMBER_DATA)).equals(expectedData(4))).toBe(true)
+  })
+
+  describe.each(Object.keys(RAID5_LAYOUTS) as RaidLayout[])('RAID5 %s', (layout) => {
+    const members = buildMembers(RAID5_LAYOUTS[layout])
+
+    it('reads data chunks from the members md puts them on', async () => {
+      const array = openArray(5, layout, members)
+
+      expect(array.size).toBe(BigInt(12 * CHUNK))
+      expect((await array.read(0n, 12 * CHUNK)).equals(expectedData(12))).toBe(true)
+    })
+
+    it('rebuilds the chunks of a missing member from parity', async () => {
+      const array = openArray(5, layout, [members[0], null, members[2], members[3]])
+
+      expect((await array.read(0n, 12 * CHUNK)).equals(expectedData(12))).toBe(true)
+    })
+
+    it('reads a range that starts and ends inside chunks', async () => {
+      const array = openArray(5, layout, members)
+
+      const data = await array.read(BigInt(CHUNK + 100), 3 * CHUNK)
+      expect(data.equals(expectedData(12).subarray(CHUNK + 100, 4 * CHUNK + 100))).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * RAID Array Reader
+ *
+ * Presents a set of member disks as the array they once formed. Logical
+ * offsets are split into chunks and each chunk is read from the member
+ * that holds it:
+ *   - RAID0 stripes chunks across all members in turn
+ *   - RAID1 mirrors the whole array on every member
+ *   - RAID5 stripes chunks across all members but one per row, which holds
+ *     the row's parity; the parity member rotates as md's layouts describe
+ *
+ * A RAID5 array missing one member is read in degraded mode: the missing
+ * chunk is the XOR of the other chunks in its row, parity included. The
+ * same reconstruction covers a read error on a member when all others are
+ * present.
+ */
+
+import type { SourceReader } from '../io/images'
+import type { RaidConfig, RaidMember } from '../../shared/types'
+
+/** A member source and where the array data starts inside it. */
+export interface RaidMemberSource {
+  reader: SourceReader
+  /** Byte offset of the array data inside the reader */
+  dataStart: bigint
+}
+
+export class RaidReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  private config: RaidConfig
+  private members: (RaidMemberSource | null)[]
+  private chunk: bigint
+
+  /**
+   * @param path - Path the array is known by.
+   * @param config - Array geometry.
+   * @param members - One source per member slot, in disk order; null for a
+   *   missing member. Closed with this reader.
+   * @throws If too many members are missing for the level.
+   */
+  constructor(path: string, config: RaidConfig, members: (RaidMemberSource | null)[]) {
+    this.path = path
+    this.config = config
+    this.members = members
+    this.chunk = BigInt(config.chunkSize)
+    this.size = arraySize(config)
+  }
+
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    if (offset >= this.size || length <= 0) return Buffer.alloc(0)
+    const end = offset + BigInt(length) < this.size ? offset + BigInt(length) : this.size
+    const out = Buffer.alloc(Number(end - offset))
+
+    if (this.config.level === 1) {
+      const data = await this.readMirror(offset, out.length)
+      data.copy(out)
+      return out
+    }
+
+    let pos = offset
+    while (pos < end) {
+      const chunkIndex = pos / this.chunk
+      const within = pos % this.chunk
+      const span = Number(this.chunk - within < end - pos ? this.chunk - within : end - pos)
+
+      const { disk, row } = this.locate(chunkIndex)
+      const data = await this.readMember(disk, row * this.chunk + within, span)
+      data.copy(out, Number(pos - offset))
+      pos += BigInt(span)
+    }
+
+    return out
+  }
+
+  async close(): Promise<void> {
+    for (const member of this.members) {
+      await member?.reader.close()
+    }
+  }
+
+  // ─── Layout ─────────────────────────────────────────────────────
+
+  /** Member and row holding a data chunk. */
+  private locate(chunkIndex: bigint): { disk: number; row: bigint } {
+    const disks = BigInt(this.members.length)
+
+    if (this.config.level === 0) {
+      return { disk: Number(chunkIndex % disks), row: chunkIndex / disks }
+    }
+
+    const dataDisks = disks - 1n
+    const row = chunkIndex / dataDisks
+    const dataIndex = Number(chunkIndex % dataDisks)
+    const n = this.members.length
+    const rotation = Number(row % disks)
+
+    switch (this.config.layout) {
+      case 'left-asymmetric': {
+        const parity = n - 1 - rotation
+        return { disk: dataIndex < parity ? dataIndex : dataIndex + 1, row }
+      }
+      case 'right-asymmetric': {
+        const parity = rotation
+        return { disk: dataIndex < parity ? dataIndex : dataIndex + 1, row }
+      }
+      case 'left-symmetric': {
+        const parity = n - 1 - rotation
+        return { disk: (parity + 1 + dataIndex) % n, row }
+      }
+      case 'right-symmetric': {
+        const parity = rotation
+        return { disk: (parity + 1 + dataIndex) % n, row }
+      }
+    }
+  }
+
+  // ─── Member I/O ─────────────────────────────────────────────────
+
+  private async readMember(disk: number, offset: bigint, length: number): Promise<Buffer> {
+    const member = this.members[disk]
+    if (!member) {
+      if (this.config.level === 5) return this.reconstruct(disk, offset, length)
+      return Buffer.alloc(length)
+    }
+
+    try {
+      return await readExactly(member, offset, length)
+    } catch (err) {
+      if (this.config.level === 5 && this.members.every((m) => m !== null)) {
+        return this.reconstruct(disk, offset, length)
+      }
+      throw err
+    }
+  }
+
+  /** Rebuild a RAID5 chunk from the rest of its row. */
+  private async reconstruct(disk: number, offset: bigint, length: number): Promise<Buffer> {
+    const result = Buffer.alloc(length)
+    for (let i = 0; i < this.members.length; i++) {
+      if (i === disk) continue
+      const member = this.members[i]
+      if (!member) throw new Error('RAID5 array is missing more than one member')
+
+      const data = await readExactly(member, offset, length)
+      for (let j = 0; j < length; j++) result[j] ^= data[j]
+    }
+    return result
+  }
+
+  /** Read from the first mirror that answers. */
+  private async readMirror(offset: bigint, length: number): Promise<Buffer> {
+    let lastError: unknown = new Error('RAID1 array has no members')
+    for (const member of this.members) {
+      if (!member) continue
+      try {
+        return await readExactly(member, offset, length)
+      } catch (err) {
+        lastError = err
+      }
+    }
+    throw lastError
+  }
+}
+
+/**
+ * Logical size of an array: each member contributes whole chunks up to
+ * the smallest member's data size.
+ *
+ * @throws If the members cannot form an array of the configured level.
+ */
+export function arraySize(config: RaidConfig): bigint {
+  const { level, members } = config
+  const present = members.filter((m): m is RaidMember => m !== null)
+  const missing = members.length - present.length
+
+  if (level === 0 && (members.length < 1 || missing > 0)) {
+    throw new Error('RAID0 needs every member')
+  }
+  if (level === 1 && present.length < 1) {
+    throw new Error('RAID1 needs at least one member')
+  }
+  if (level === 5 && (members.length < 3 || missing > 1)) {
+    throw new Error('RAID5 needs at least three members, with at most one missing')
+  }
+  if (level !== 1 && (config.chunkSize <= 0 || config.chunkSize % 512 !== 0)) {
+    throw new Error(`Invalid chunk size ${config.chunkSize}`)
+  }
+
+  const smallest = present.reduce((min, m) => (m.dataSize < min ? m.dataSize : min), present[0].dataSize)
+  if (level === 1) return smallest
+
+  const chunk = BigInt(config.chunkSize)
+  const perMember = smallest - (smallest % chunk)
+  const dataDisks = BigInt(level === 5 ? members.length - 1 : members.length)
+  return perMember * dataDisks
+}
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/** Read a member range, padding a short read past its end with zeros. */
+async function readExactly(member: RaidMemberSource, offset: bigint, length: number): Promise<Buffer> {
+  const data = await member.reader.read(member.dataStart + offset, length)
+  if (data.length >= length) return data
+  const padded = Buffer.alloc(length)
+  data.copy(padded)
+  return padded
+}
@@ -0,0 +1,48 @@
+/**
+ * CRC-32 (IEEE 802.3, reflected polynomial 0xEDB88320).
+ *
+ * The checksum used by GPT headers and partition arrays, zip and PNG.
+ * CRC-32C (Castagnoli, reflected polynomial 0x82F63B78) is the variant
+ * Btrfs and ext4 use for metadata checksums.
+ */
+
+const TABLE = buildTable(0xedb88320)
+const TABLE_C = buildTable(0x82f63b78)
+
+function buildTable(polynomial: number): Uint32Array {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? polynomial ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+}
+
+function update(table: Uint32Array, data: Uint8Array, previous: number): number {
+  let crc = ~previous >>> 0
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return ~crc >>> 0
+}
+
+/**
+ * Compute the CRC-32 of `data`.
+ *
+ * @param previous - CRC of the preceding bytes, to checksum data in pieces.
+ */
+export function crc32(data: Uint8Array, previous = 0): number {
+  return update(TABLE, data, previous)
+}
+
+/**
+ * Compute the CRC-32C of `data`.
+ *
+ * @param previous - CRC of the preceding bytes, to checksum data in pieces.
+ */
+export function crc32c(data: Uint8Array, previous = 0): number {
+  return update(TABLE_C, data, previous)
+}
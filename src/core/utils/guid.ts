@@ -0,0 +1,13 @@
+/**
+ * GUIDs as stored on disk by GPT and VHDX: the first three fields
+ * little-endian, the last eight bytes in order.
+ */
+
+/** Format an on-disk (mixed-endian) GUID as lowercase canonical text. */
+export function formatGuid(buf: Buffer, offset: number): string {
+  const hex = (start: number, end: number): string => buf.subarray(offset + start, offset + end).toString('hex')
+  const d1 = buf.readUInt32LE(offset).toString(16).padStart(8, '0')
+  const d2 = buf.readUInt16LE(offset + 4).toString(16).padStart(4, '0')
+  const d3 = buf.readUInt16LE(offset + 6).toString(16).padStart(4, '0')
+  return `${d1}-${d2}-${d3}-${hex(8, 10)}-${hex(10, 16)}`
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { decompressLznt1 } from './lznt1'
+
+/** A chunk header: stored size minus 1, signature 3 and the compressed flag */
+function chunk(data: number[], compressed = true): number[] {
+  const header = (data.length - 1) | 0x3000 | (compressed ? 0x8000 : 0)
+  return [header & 0xff, header >> 8, ...data]
+}
+
+const bytes = (text: string): number[] => [...Buffer.from(text, 'latin1')]
+
+describe('decompressLznt1', () => {
+  it('copies an uncompressed chunk', () => {
+    const input = Uint8Array.from(chunk(bytes('abcd'), false))
+
+    expect(decompressLznt1(input, 4).toString('latin1')).toBe('abcd')
+  })
+
+  it('expands an overlapping back-reference', () => {
+    // Three literals, then 9 bytes from 3 back: offset and length split 4/12
+    const input = Uint8Array.from(chunk([0x08, ...bytes('abc'), 0x06, 0x20]))
+
+    expect(decompressLznt1(input, 12).toString('latin1')).toBe('abcabcabcabc')
+  })
+
+  it('gives back-references more offset bits further into the chunk', () => {
+    // After 17 bytes a token splits 5/11: 5 bytes from 17 back is 0x8002
+    const input = Uint8Array.from(
+      chunk([
+        0x00, ...bytes('ABCDEFGH'),
+        0x00, ...bytes('IJKLMNOP'),
+        0x02, ...bytes('Q'), 0x02, 0x80
+      ])
+    )
+
+    expect(decompressLznt1(input, 22).toString('latin1')).toBe('ABCDEFGHIJKLMNOPQABCDE')
+  })
+
+  it('starts each chunk on a 4 KiB boundary, zero-filling short chunks', () => {
+    const input = Uint8Array.from([
+      ...chunk([0x08, ...bytes('xyz'), 0x00, 0x20]),
+      ...chunk(bytes('tail'), false)
+    ])
+    const out = decompressLznt1(input, 4096 + 4)
+
+    expect(out.toString('latin1', 0, 6)).toBe('xyzxyz')
+    expect(out.subarray(6, 4096).every((byte) => byte === 0)).toBe(true)
+    expect(out.toString('latin1', 4096)).toBe('tail')
+  })
+
+  it('keeps what decoded cleanly when a back-reference points before the chunk', () => {
+    const input = Uint8Array.from(chunk([0x02, ...bytes('a'), 0x00, 0xf0]))
+    const out = decompressLznt1(input, 8)
+
+    expect(out[0]).toBe('a'.charCodeAt(0))
+    expect(out.subarray(1).every((byte) => byte === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * LZNT1 decompression, the codec behind NTFS file compression.
+ *
+ * Compressed data is a series of chunks, each expanding to at most 4 KiB.
+ * A chunk starts with a 16-bit header: bits 0-11 hold the stored size
+ * minus 1 and bit 15 is set if the chunk is compressed. Compressed chunks
+ * alternate a flag byte with eight items: a literal byte for a clear bit,
+ * or a 16-bit back-reference for a set bit. The split between offset and
+ * length bits in a back-reference depends on the position in the chunk.
+ */
+
+const CHUNK_SIZE = 4096
+const CHUNK_COMPRESSED = 0x8000
+const CHUNK_SIZE_MASK = 0x0fff
+
+/**
+ * Decompress `input` into a buffer of `outputSize` bytes. Output past the
+ * end of the compressed data stays zero; corrupt chunks end decoding early
+ * rather than throwing, so whatever decoded cleanly is kept.
+ */
+export function decompressLznt1(input: Uint8Array, outputSize: number): Buffer {
+  const out = Buffer.alloc(outputSize)
+  let inPos = 0
+  let chunkStart = 0
+
+  while (inPos + 2 <= input.length && chunkStart < outputSize) {
+    const header = input[inPos] | (input[inPos + 1] << 8)
+    if (header === 0) break
+
+    const storedSize = (header & CHUNK_SIZE_MASK) + 1
+    const dataStart = inPos + 2
+    const dataEnd = Math.min(dataStart + storedSize, input.length)
+    const chunkEnd = Math.min(chunkStart + CHUNK_SIZE, outputSize)
+
+    if (header & CHUNK_COMPRESSED) {
+      if (!decompressChunk(input, dataStart, dataEnd, out, chunkStart, chunkEnd)) break
+    } else {
+      out.set(input.subarray(dataStart, Math.min(dataEnd, dataStart + chunkEnd - chunkStart)), chunkStart)
+    }
+
+    // A chunk that expands to less than 4 KiB is followed by zeros
+    inPos = dataStart + storedSize
+    chunkStart += CHUNK_SIZE
+  }
+
+  return out
+}
+
+function decompressChunk(
+  input: Uint8Array,
+  start: number,
+  end: number,
+  out: Buffer,
+  chunkStart: number,
+  chunkEnd: number
+): boolean {
+  let inPos = start
+  let outPos = chunkStart
+
+  while (inPos < end && outPos < chunkEnd) {
+    const flags = input[inPos++]
+
+    for (let bit = 0; bit < 8 && inPos < end && outPos < chunkEnd; bit++) {
+      if ((flags & (1 << bit)) === 0) {
+        out[outPos++] = input[inPos++]
+        continue
+      }
+
+      if (inPos + 2 > end) return false
+      const token = input[inPos] | (input[inPos + 1] << 8)
+      inPos += 2
+
+      // Offset bits grow with the distance into the chunk, from 4 up to 12
+      let offsetShift = 12
+      for (let i = outPos - chunkStart - 1; i >= 0x10; i >>= 1) offsetShift--
+
+      const back = (token >> offsetShift) + 1
+      const length = (token & (0xfff >> (12 - offsetShift))) + 3
+      if (back > outPos - chunkStart) return false
+
+      // Byte-by-byte: the source may overlap the bytes being written
+      for (let i = 0; i < length && outPos < chunkEnd; i++) {
+        out[outPos] = out[outPos - back]
+        outPos++
+      }
+    }
+  }
+
+  return true
+}
@@ -4,7 +4,10 @@ import { is } from '@electron-toolkit/utils'
 
 import { registerAllHandlers } from './ipc'
 import { ScanManager } from './services/scan-manager'
+import { SessionStore } from './services/session-store'
 import { RecoveryManager } from './services/recovery-manager'
+import { ImagingManager } from './services/imaging-manager'
+import { PartitionSearchManager } from './services/partition-search-manager'
 import { DiskReaderService } from './services/disk-reader'
 import { PrivilegeManager } from './services/privilege/index'
 
@@ -14,6 +17,8 @@ let mainWindow: BrowserWindow | null = null
 let scanManager: ScanManager
 let recoveryManager: RecoveryManager
 let privilegeManager: PrivilegeManager
+let imagingManager: ImagingManager
+let partitionSearchManager: PartitionSearchManager
 
 // ─── Window Creation ────────────────────────────────────────
 
@@ -75,10 +80,21 @@ function initializeServices(): void {
   privilegeManager = new PrivilegeManager()
   scanManager = new ScanManager()
   scanManager.setPrivilegeManager(privilegeManager)
+  scanManager.setSessionStore(new SessionStore(join(app.getPath('userData'), 'scan-sessions')))
   const diskReader = new DiskReaderService(privilegeManager)
   recoveryManager = new RecoveryManager(diskReader)
-
-  registerAllHandlers(ipcMain, { scanManager, recoveryManager, privilegeManager })
+  imagingManager = new ImagingManager()
+  imagingManager.setPrivilegeManager(privilegeManager)
+  partitionSearchManager = new PartitionSearchManager()
+  partitionSearchManager.setPrivilegeManager(privilegeManager)
+
+  registerAllHandlers(ipcMain, {
+    scanManager,
+    recoveryManager,
+    privilegeManager,
+    imagingManager,
+    partitionSearchManager
+  })
 }
 
 // ─── App Lifecycle ──────────────────────────────────────────
@@ -115,6 +131,16 @@ app.on('window-all-closed', () => {
   }
 })
 
+// Save a last checkpoint of running scans before quitting, so they can be
+// resumed from where they stopped
+let disposed = false
+app.on('before-quit', (event) => {
+  if (disposed || !scanManager) return
+  event.preventDefault()
+  disposed = true
+  scanManager.dispose().finally(() => app.quit())
+})
+
 // ─── Process Error Handling ─────────────────────────────────
 
 process.on('uncaughtException', (error: Error) => {
@@ -1,7 +1,43 @@
 import type { IpcMain } from 'electron'
+import { dialog, BrowserWindow } from 'electron'
 import { IpcChannels } from '../../shared/types'
-import type { DeviceInfo, PartitionInfo } from '../../shared/types'
+import type { DeviceInfo, PartitionInfo, UnlockVolumeRequest } from '../../shared/types'
 import { enumerateDevices } from '../services/device-enumeration'
+import { describeImageSource } from '../services/device-enumeration/image'
+import { describeUnlockedVolume, unlockEncryptedVolume } from '../services/encrypted-volumes'
+import { assembleRaidArray, detectRaidArrays } from '../services/raid-arrays'
+import { findLogicalVolumes, openLogicalVolumeDevice } from '../services/logical-volumes'
+import type { PrivilegeManager } from '../services/privilege'
+import { IMAGE_FILE_EXTENSIONS } from '../../core/io/images'
+import { deserializeRaidConfig, serializeRaidConfig } from '../../core/raid'
+import type { SerializedRaidConfig } from '../../core/raid'
+import { deserializeLogicalVolume, serializeLogicalVolume } from '../../core/lvm'
+import type { SerializedLogicalVolume } from '../../core/lvm'
+
+// ─── Opened Disk Images ──────────────────────────────────────
+// Images opened by the user are not discovered by the OS enumeration, so
+// they are remembered here (keyed by path) and appended to every listing.
+
+const openedImages = new Map<string, DeviceInfo>()
+
+// Unlocked encrypted volumes are remembered the same way, for as long as
+// the app runs; their keys are never persisted.
+const unlockedDevices = new Map<string, DeviceInfo>()
+
+// Assembled RAID arrays and opened LVM logical volumes, likewise.
+const assembledArrays = new Map<string, DeviceInfo>()
+const logicalVolumeDevices = new Map<string, DeviceInfo>()
+
+async function listDevices(): Promise<DeviceInfo[]> {
+  const devices = await enumerateDevices()
+  return [
+    ...devices,
+    ...openedImages.values(),
+    ...assembledArrays.values(),
+    ...unlockedDevices.values(),
+    ...logicalVolumeDevices.values(),
+  ]
+}
 
 // ─── BigInt Serialization ────────────────────────────────────
 // Electron's IPC uses structured clone, which does not support bigint.
@@ -25,6 +61,15 @@ function serializePartition(partition: PartitionInfo): SerializedPartitionInfo {
   }
 }
 
+function deserializeUnlockRequest(raw: Record<string, unknown>): UnlockVolumeRequest {
+  return {
+    sourcePath: raw.sourcePath as string,
+    offset: BigInt((raw.offset as string | undefined) ?? '0'),
+    size: BigInt((raw.size as string | undefined) ?? '0'),
+    passphrase: raw.passphrase as string,
+  }
+}
+
 function serializeDevice(device: DeviceInfo): SerializedDeviceInfo {
   return {
     ...device,
@@ -35,10 +80,10 @@ function serializeDevice(device: DeviceInfo): SerializedDeviceInfo {
 
 // ─── Handler Registration ────────────────────────────────────
 
-export function registerDeviceHandlers(ipcMain: IpcMain): void {
+export function registerDeviceHandlers(ipcMain: IpcMain, privilegeManager?: PrivilegeManager): void {
   ipcMain.handle(IpcChannels.DEVICE_LIST, async () => {
     try {
-      const devices = await enumerateDevices()
+      const devices = await listDevices()
       return { success: true, devices: devices.map(serializeDevice) }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
@@ -51,11 +96,139 @@ export function registerDeviceHandlers(ipcMain: IpcMain): void {
       // Force re-enumerate by calling the same function.
       // The underlying platform module always queries the OS fresh;
       // a future caching layer can honour a forceRefresh flag here.
-      const devices = await enumerateDevices()
+      const devices = await listDevices()
       return { success: true, devices: devices.map(serializeDevice) }
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error)
       return { success: false, error: message, devices: [] }
     }
   })
+
+  // With a path (e.g. an image just written by an imaging job) the image
+  // is opened directly; otherwise the user picks one.
+  ipcMain.handle(IpcChannels.DEVICE_OPEN_IMAGE, async (_event, imagePath?: string) => {
+    try {
+      if (imagePath) {
+        const device = await describeImageSource(imagePath)
+        openedImages.set(device.path, device)
+        return { success: true, device: serializeDevice(device) }
+      }
+
+      const win = BrowserWindow.getAllWindows()[0] ?? null
+      const options: Electron.OpenDialogOptions = {
+        properties: ['openFile'],
+        title: 'Open disk image',
+        filters: [
+          { name: 'Disk images', extensions: [...IMAGE_FILE_EXTENSIONS] },
+          { name: 'All files', extensions: ['*'] },
+        ],
+      }
+
+      const result = win
+        ? await dialog.showOpenDialog(win, options)
+        : await dialog.showOpenDialog(options)
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: true, device: null }
+      }
+
+      const device = await describeImageSource(result.filePaths[0])
+      openedImages.set(device.path, device)
+      return { success: true, device: serializeDevice(device) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, device: null }
+    }
+  })
+
+  // A wrong passphrase is not an error: the device is null and the user
+  // can try again.
+  ipcMain.handle(IpcChannels.DEVICE_UNLOCK, async (_event, rawRequest: Record<string, unknown>) => {
+    try {
+      const request = deserializeUnlockRequest(rawRequest)
+      if (privilegeManager) {
+        const granted = await privilegeManager.grantDeviceAccess(request.sourcePath)
+        if (!granted) {
+          throw new Error(`Cannot obtain read access to ${request.sourcePath}. Please elevate privileges.`)
+        }
+      }
+
+      const volume = await unlockEncryptedVolume(request)
+      if (!volume) return { success: true, device: null }
+
+      const device = await describeUnlockedVolume(volume)
+      unlockedDevices.set(device.path, device)
+      return { success: true, device: serializeDevice(device) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, device: null }
+    }
+  })
+
+  // Detection only reads members it already has access to; it never
+  // prompts for privileges.
+  ipcMain.handle(IpcChannels.DEVICE_DETECT_RAID, async () => {
+    try {
+      const arrays = await detectRaidArrays(await listDevices())
+      return { success: true, arrays: arrays.map(serializeRaidConfig) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, arrays: [] }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.DEVICE_ASSEMBLE_RAID, async (_event, rawConfig: SerializedRaidConfig) => {
+    try {
+      const config = deserializeRaidConfig(rawConfig)
+      if (privilegeManager) {
+        for (const member of config.members) {
+          if (!member) continue
+          const granted = await privilegeManager.grantDeviceAccess(member.path)
+          if (!granted) {
+            throw new Error(`Cannot obtain read access to ${member.path}. Please elevate privileges.`)
+          }
+        }
+      }
+
+      const device = await assembleRaidArray(config)
+      assembledArrays.set(device.path, device)
+      return { success: true, device: serializeDevice(device) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, device: null }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.DEVICE_DETECT_LVM, async () => {
+    try {
+      const volumes = await findLogicalVolumes(await listDevices())
+      return { success: true, volumes: volumes.map(serializeLogicalVolume) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, volumes: [] }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.DEVICE_OPEN_LVM, async (_event, rawVolume: SerializedLogicalVolume) => {
+    try {
+      const volume = deserializeLogicalVolume(rawVolume)
+      if (privilegeManager) {
+        const stripes = volume.segments.flatMap((segment) => segment.stripes)
+        const paths = new Set(stripes.flatMap((stripe) => (stripe.source ? [stripe.source.path] : [])))
+        for (const path of paths) {
+          const granted = await privilegeManager.grantDeviceAccess(path)
+          if (!granted) {
+            throw new Error(`Cannot obtain read access to ${path}. Please elevate privileges.`)
+          }
+        }
+      }
+
+      const device = await openLogicalVolumeDevice(volume)
+      logicalVolumeDevices.set(device.path, device)
+      return { success: true, device: serializeDevice(device) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message, device: null }
+    }
+  })
 }
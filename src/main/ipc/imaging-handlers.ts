@@ -0,0 +1,116 @@
+import type { IpcMain, BrowserWindow } from 'electron'
+import { BrowserWindow as BW } from 'electron'
+import type { ImagingConfig, ImagingProgress } from '../../shared/types'
+import { IpcChannels } from '../../shared/types'
+
+// ─── ImagingManager interface ────────────────────────────────
+// Minimal interface so this module does not depend on the concrete class.
+
+export interface ImagingManager {
+  start(config: ImagingConfig): Promise<string>
+  pause(jobId: string): void
+  resume(jobId: string): void
+  cancel(jobId: string): void
+  on(event: 'progress', cb: (jobId: string, progress: ImagingProgress) => void): void
+  on(event: 'complete', cb: (jobId: string, result: { imagePath: string; cancelled: boolean }) => void): void
+  on(event: 'error', cb: (jobId: string, error: string) => void): void
+  on(event: string, cb: (...args: unknown[]) => void): void
+}
+
+// ─── BigInt Serialization ────────────────────────────────────
+
+function deserializeImagingConfig(raw: Record<string, unknown>): ImagingConfig {
+  return {
+    devicePath: raw.devicePath as string,
+    deviceSize: raw.deviceSize != null ? BigInt(raw.deviceSize as string) : 0n,
+    imagePath: raw.imagePath as string,
+    mapfilePath: raw.mapfilePath as string | undefined,
+  }
+}
+
+function serializeImagingProgress(progress: ImagingProgress): Record<string, unknown> {
+  return {
+    ...progress,
+    currentPosition: progress.currentPosition.toString(),
+    totalBytes: progress.totalBytes.toString(),
+    rescuedBytes: progress.rescuedBytes.toString(),
+    nonTriedBytes: progress.nonTriedBytes.toString(),
+    nonTrimmedBytes: progress.nonTrimmedBytes.toString(),
+    nonScrapedBytes: progress.nonScrapedBytes.toString(),
+    badBytes: progress.badBytes.toString(),
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+function getMainWindow(): BrowserWindow | null {
+  const windows = BW.getAllWindows()
+  return windows.length > 0 ? windows[0] : null
+}
+
+function sendToRenderer(channel: string, ...args: unknown[]): void {
+  const win = getMainWindow()
+  if (win && !win.isDestroyed()) {
+    win.webContents.send(channel, ...args)
+  }
+}
+
+// ─── Handler Registration ────────────────────────────────────
+
+export function registerImagingHandlers(ipcMain: IpcMain, imagingManager: ImagingManager): void {
+  imagingManager.on('progress', (jobId: string, progress: ImagingProgress) => {
+    sendToRenderer(IpcChannels.IMAGING_PROGRESS, { jobId, progress: serializeImagingProgress(progress) })
+  })
+
+  imagingManager.on('complete', (jobId: string, result: { imagePath: string; cancelled: boolean }) => {
+    sendToRenderer(IpcChannels.IMAGING_COMPLETE, { jobId, ...result })
+  })
+
+  imagingManager.on('error', (jobId: string, error: string) => {
+    console.error('[imaging] error:', jobId, error)
+    sendToRenderer(IpcChannels.IMAGING_ERROR, { jobId, message: error })
+  })
+
+  // Request / response handlers
+  ipcMain.handle(IpcChannels.IMAGING_START, async (_event, rawConfig: Record<string, unknown>) => {
+    try {
+      const config = deserializeImagingConfig(rawConfig)
+      const jobId = await imagingManager.start(config)
+      return { success: true, jobId }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('[imaging] start failed:', message)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.IMAGING_PAUSE, async (_event, jobId: string) => {
+    try {
+      imagingManager.pause(jobId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.IMAGING_RESUME, async (_event, jobId: string) => {
+    try {
+      imagingManager.resume(jobId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.IMAGING_CANCEL, async (_event, jobId: string) => {
+    try {
+      imagingManager.cancel(jobId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+}
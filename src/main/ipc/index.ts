@@ -6,6 +6,8 @@ import { registerDeviceHandlers } from './device-handlers'
 import { registerScanHandlers, type ScanManager } from './scan-handlers'
 import { registerRecoveryHandlers, type RecoveryManager } from './recovery-handlers'
 import { registerPrivilegeHandlers } from './privilege-handlers'
+import { registerImagingHandlers, type ImagingManager } from './imaging-handlers'
+import { registerPartitionSearchHandlers, type PartitionSearchManager } from './partition-search-handlers'
 import type { PrivilegeManager } from '../services/privilege'
 import { registerPreviewHandlers } from './preview-handlers'
 
@@ -15,16 +17,20 @@ export interface IpcServices {
   scanManager: ScanManager
   recoveryManager: RecoveryManager
   privilegeManager: PrivilegeManager
+  imagingManager: ImagingManager
+  partitionSearchManager: PartitionSearchManager
 }
 
 // ─── Register all IPC handlers ───────────────────────────────
 
 export function registerAllHandlers(ipcMain: IpcMain, services: IpcServices): void {
-  registerDeviceHandlers(ipcMain)
+  registerDeviceHandlers(ipcMain, services.privilegeManager)
   registerScanHandlers(ipcMain, services.scanManager)
   registerRecoveryHandlers(ipcMain, services.recoveryManager)
   registerPrivilegeHandlers(ipcMain, services.privilegeManager)
   registerPreviewHandlers(ipcMain)
+  registerImagingHandlers(ipcMain, services.imagingManager)
+  registerPartitionSearchHandlers(ipcMain, services.partitionSearchManager)
 
   // Dialog handler -- lets the renderer open a native directory picker
   ipcMain.handle(IpcChannels.DIALOG_SELECT_DIRECTORY, async () => {
@@ -45,6 +51,30 @@ export function registerAllHandlers(ipcMain: IpcMain, services: IpcServices): vo
     return { success: true, path: result.filePaths[0] }
   })
 
+  // Dialog handler -- lets the renderer pick where a device image is written
+  ipcMain.handle(IpcChannels.DIALOG_SELECT_IMAGE_DESTINATION, async (_event, defaultName?: string) => {
+    const win = BrowserWindow.getAllWindows()[0] ?? null
+    const options: Electron.SaveDialogOptions = {
+      title: 'Save device image',
+      defaultPath: join(app.getPath('documents'), defaultName ?? 'device.img'),
+      filters: [
+        { name: 'Raw disk image', extensions: ['img', 'dd', 'raw'] },
+        { name: 'All files', extensions: ['*'] },
+      ],
+      properties: ['createDirectory', 'showOverwriteConfirmation'],
+    }
+
+    const result = win
+      ? await dialog.showSaveDialog(win, options)
+      : await dialog.showSaveDialog(options)
+
+    if (result.canceled || !result.filePath) {
+      return { success: true, path: null }
+    }
+
+    return { success: true, path: result.filePath }
+  })
+
   // Default recovery path — ~/Documents/SlashRestore Recovery
   ipcMain.handle(IpcChannels.DIALOG_DEFAULT_RECOVERY_PATH, () => {
     const documentsDir = app.getPath('documents')
@@ -56,3 +86,5 @@ export function registerAllHandlers(ipcMain: IpcMain, services: IpcServices): vo
 export type { ScanManager } from './scan-handlers'
 export type { RecoveryManager } from './recovery-handlers'
 export type { PrivilegeManager } from '../services/privilege'
+export type { ImagingManager } from './imaging-handlers'
+export type { PartitionSearchManager } from './partition-search-handlers'
@@ -0,0 +1,133 @@
+import type { IpcMain, BrowserWindow } from 'electron'
+import { BrowserWindow as BW } from 'electron'
+import type {
+  LostPartitionCandidate,
+  PartitionSearchConfig,
+  PartitionSearchProgress
+} from '../../shared/types'
+import { IpcChannels } from '../../shared/types'
+
+// ─── PartitionSearchManager interface ────────────────────────
+// Minimal interface so this module does not depend on the concrete class.
+
+interface PartitionSearchResult {
+  candidates: LostPartitionCandidate[]
+  cancelled: boolean
+}
+
+export interface PartitionSearchManager {
+  start(config: PartitionSearchConfig): Promise<string>
+  pause(searchId: string): void
+  resume(searchId: string): void
+  cancel(searchId: string): void
+  on(event: 'progress', cb: (searchId: string, progress: PartitionSearchProgress) => void): void
+  on(event: 'complete', cb: (searchId: string, result: PartitionSearchResult) => void): void
+  on(event: 'error', cb: (searchId: string, error: string) => void): void
+  on(event: string, cb: (...args: unknown[]) => void): void
+}
+
+// ─── BigInt Serialization ────────────────────────────────────
+
+function deserializePartitionSearchConfig(raw: Record<string, unknown>): PartitionSearchConfig {
+  return {
+    devicePath: raw.devicePath as string,
+    deviceSize: raw.deviceSize != null ? BigInt(raw.deviceSize as string) : 0n,
+  }
+}
+
+function serializePartitionSearchProgress(progress: PartitionSearchProgress): Record<string, unknown> {
+  return {
+    ...progress,
+    bytesScanned: progress.bytesScanned.toString(),
+    totalBytes: progress.totalBytes.toString(),
+  }
+}
+
+function serializeCandidate(candidate: LostPartitionCandidate): Record<string, unknown> {
+  return {
+    ...candidate,
+    offset: candidate.offset.toString(),
+    size: candidate.size.toString(),
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────
+
+function getMainWindow(): BrowserWindow | null {
+  const windows = BW.getAllWindows()
+  return windows.length > 0 ? windows[0] : null
+}
+
+function sendToRenderer(channel: string, ...args: unknown[]): void {
+  const win = getMainWindow()
+  if (win && !win.isDestroyed()) {
+    win.webContents.send(channel, ...args)
+  }
+}
+
+// ─── Handler Registration ────────────────────────────────────
+
+export function registerPartitionSearchHandlers(ipcMain: IpcMain, searchManager: PartitionSearchManager): void {
+  searchManager.on('progress', (searchId: string, progress: PartitionSearchProgress) => {
+    sendToRenderer(IpcChannels.PARTITION_SEARCH_PROGRESS, {
+      searchId,
+      progress: serializePartitionSearchProgress(progress),
+    })
+  })
+
+  searchManager.on('complete', (searchId: string, result: PartitionSearchResult) => {
+    sendToRenderer(IpcChannels.PARTITION_SEARCH_COMPLETE, {
+      searchId,
+      candidates: result.candidates.map(serializeCandidate),
+      cancelled: result.cancelled,
+    })
+  })
+
+  searchManager.on('error', (searchId: string, error: string) => {
+    console.error('[partition-search] error:', searchId, error)
+    sendToRenderer(IpcChannels.PARTITION_SEARCH_ERROR, { searchId, message: error })
+  })
+
+  // Request / response handlers
+  ipcMain.handle(IpcChannels.PARTITION_SEARCH_START, async (_event, rawConfig: Record<string, unknown>) => {
+    try {
+      const config = deserializePartitionSearchConfig(rawConfig)
+      const searchId = await searchManager.start(config)
+      return { success: true, searchId }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('[partition-search] start failed:', message)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.PARTITION_SEARCH_PAUSE, async (_event, searchId: string) => {
+    try {
+      searchManager.pause(searchId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.PARTITION_SEARCH_RESUME, async (_event, searchId: string) => {
+    try {
+      searchManager.resume(searchId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.PARTITION_SEARCH_CANCEL, async (_event, searchId: string) => {
+    try {
+      searchManager.cancel(searchId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+}
@@ -1,11 +1,12 @@
 import type { IpcMain } from 'electron'
 import { IpcChannels } from '../../shared/types'
-import * as fs from 'node:fs'
+import { openSourceReader } from '../../core/io/images'
+import type { SourceReader } from '../../core/io/images'
 
 // ─── Helpers ─────────────────────────────────────────────────
 
 /**
- * Read `length` bytes from a file descriptor starting at `offset`.
+ * Read `length` bytes from a device or disk image starting at `offset`.
  * Returns a Buffer of the data read.
  */
 async function readBytesFromDevice(
@@ -13,34 +14,20 @@ async function readBytesFromDevice(
   offset: bigint,
   length: number,
 ): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    fs.open(devicePath, 'r', (err, fd) => {
-      if (err) {
-        reject(new Error(`Failed to open device: ${err.message}`))
-        return
-      }
-
-      const buffer = Buffer.alloc(length)
-      // fs.read supports position as a number. For offsets beyond
-      // Number.MAX_SAFE_INTEGER we would need a native addon; for now
-      // we convert and guard.
-      const posNumber = Number(offset)
-      if (offset > BigInt(Number.MAX_SAFE_INTEGER)) {
-        fs.close(fd, () => {})
-        reject(new Error('Offset exceeds safe integer range. Native addon required.'))
-        return
-      }
+  let reader: SourceReader
+  try {
+    reader = await openSourceReader(devicePath)
+  } catch (err) {
+    throw new Error(`Failed to open device: ${err instanceof Error ? err.message : String(err)}`)
+  }
 
-      fs.read(fd, buffer, 0, length, posNumber, (readErr, bytesRead) => {
-        fs.close(fd, () => {})
-        if (readErr) {
-          reject(new Error(`Failed to read data: ${readErr.message}`))
-          return
-        }
-        resolve(buffer.subarray(0, bytesRead))
-      })
-    })
-  })
+  try {
+    return await reader.read(offset, length)
+  } catch (err) {
+    throw new Error(`Failed to read data: ${err instanceof Error ? err.message : String(err)}`)
+  } finally {
+    await reader.close()
+  }
 }
 
 /**
@@ -40,6 +40,7 @@ function deserializeFileFragment(raw: Record<string, unknown>): FileFragment {
   return {
     offset: BigInt(raw.offset as string),
     size: BigInt(raw.size as string),
+    sparse: raw.sparse as boolean | undefined,
   }
 }
 
@@ -60,6 +61,10 @@ function deserializeRecoverableFile(raw: Record<string, unknown>): RecoverableFi
     fragments: raw.fragments
       ? (raw.fragments as Record<string, unknown>[]).map(deserializeFileFragment)
       : undefined,
+    compressed: raw.compressed as boolean | undefined,
+    compression: raw.compression as RecoverableFile['compression'],
+    dataLost: raw.dataLost as boolean | undefined,
+    location: raw.location as RecoverableFile['location'],
   }
 }
 
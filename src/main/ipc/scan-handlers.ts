@@ -1,6 +1,12 @@
 import type { IpcMain, BrowserWindow } from 'electron'
 import { BrowserWindow as BW } from 'electron'
-import type { ScanConfig, ScanProgress, RecoverableFile, FileFragment } from '../../shared/types'
+import type {
+  ScanConfig,
+  ScanProgress,
+  RecoverableFile,
+  FileFragment,
+  SavedScanSession
+} from '../../shared/types'
 import { IpcChannels } from '../../shared/types'
 
 // ─── ScanManager interface ───────────────────────────────────
@@ -11,6 +17,10 @@ export interface ScanManager {
   pause(sessionId: string): void
   resume(sessionId: string): void
   cancel(sessionId: string): void
+  resumeFromCheckpoint(sessionId: string): Promise<void>
+  listSessions(): Promise<SavedScanSession[]>
+  readSessionFiles(sessionId: string, position: number): Promise<{ files: RecoverableFile[]; next: number | null }>
+  deleteSession(sessionId: string): Promise<void>
   on(event: 'progress', cb: (sessionId: string, progress: ScanProgress) => void): void
   on(event: 'file-found', cb: (sessionId: string, file: RecoverableFile) => void): void
   on(event: 'complete', cb: (sessionId: string, filesFound: number) => void): void
@@ -44,6 +54,7 @@ function deserializeScanConfig(raw: Record<string, unknown>): ScanConfig {
     deviceSize: raw.deviceSize != null ? BigInt(raw.deviceSize as string) : undefined,
     startOffset: raw.startOffset != null ? BigInt(raw.startOffset as string) : undefined,
     endOffset: raw.endOffset != null ? BigInt(raw.endOffset as string) : undefined,
+    carvingWorkers: typeof raw.carvingWorkers === 'number' ? raw.carvingWorkers : undefined,
   }
 }
 
@@ -59,10 +70,28 @@ function serializeScanProgress(progress: ScanProgress): Record<string, unknown>
   }
 }
 
+function serializeScanConfig(config: ScanConfig): Record<string, unknown> {
+  return {
+    ...config,
+    deviceSize: config.deviceSize?.toString(),
+    startOffset: config.startOffset?.toString(),
+    endOffset: config.endOffset?.toString(),
+  }
+}
+
+function serializeSavedSession(session: SavedScanSession): Record<string, unknown> {
+  return {
+    ...session,
+    config: serializeScanConfig(session.config),
+    progress: serializeScanProgress(session.progress),
+  }
+}
+
 function serializeFileFragment(fragment: FileFragment): Record<string, unknown> {
   return {
     offset: fragment.offset.toString(),
     size: fragment.size.toString(),
+    sparse: fragment.sparse,
   }
 }
 
@@ -171,4 +200,47 @@ export function registerScanHandlers(ipcMain: IpcMain, scanManager: ScanManager)
       return { success: false, error: message }
     }
   })
+
+  // ── Saved sessions ────────────────────────────────────────
+
+  ipcMain.handle(IpcChannels.SESSIONS_LIST, async () => {
+    try {
+      const sessions = await scanManager.listSessions()
+      return { success: true, sessions: sessions.map(serializeSavedSession) }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.SESSIONS_FILES, async (_event, sessionId: string, position: number) => {
+    try {
+      const page = await scanManager.readSessionFiles(sessionId, position)
+      return { success: true, files: page.files.map(serializeRecoverableFile), next: page.next }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.SESSIONS_RESUME, async (_event, sessionId: string) => {
+    try {
+      await scanManager.resumeFromCheckpoint(sessionId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('[scan] resume from checkpoint failed:', message)
+      return { success: false, error: message }
+    }
+  })
+
+  ipcMain.handle(IpcChannels.SESSIONS_DELETE, async (_event, sessionId: string) => {
+    try {
+      await scanManager.deleteSession(sessionId)
+      return { success: true }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return { success: false, error: message }
+    }
+  })
 }
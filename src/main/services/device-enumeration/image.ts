@@ -0,0 +1,97 @@
+/**
+ * Disk image sources.
+ *
+ * Describes a disk image file (raw .img/.dd, a split .001/.002 set, an
+ * EnCase E01/Ex01 evidence container or a VHD/VHDX/VMDK/qcow2 virtual
+ * disk) as a DeviceInfo so it can be selected and scanned exactly like a
+ * physical disk. Partitions found in the image's MBR or GPT are listed with
+ * the image path as their path and their byte offset inside the image;
+ * scans address them by offset window instead of a device node.
+ */
+
+import * as path from 'path'
+import { createHash } from 'crypto'
+import type { DeviceInfo, PartitionInfo } from '../../../shared/types'
+import {
+  openSourceReader,
+  detectImageFormat,
+  SliceReader,
+  EwfImageReader,
+  IMAGE_FORMAT_LABELS
+} from '../../../core/io/images'
+import { detectFilesystem } from '../../../core/filesystem/fs-detector'
+import { BlockReader } from '../../../core/io/block-reader'
+import { readPartitionTable } from '../../../core/partition'
+import type { PartitionEntry } from '../../../core/partition'
+
+/**
+ * Open a disk image and describe it as a device.
+ *
+ * @param imagePath - Path to the image file (any segment of a split set).
+ * @returns A DeviceInfo with type 'image' and any MBR/GPT partitions.
+ * @throws If the image cannot be opened or is empty.
+ */
+export async function describeImageSource(imagePath: string): Promise<DeviceInfo> {
+  const reader = await openSourceReader(imagePath)
+
+  try {
+    if (reader.size === 0n) {
+      throw new Error(`Disk image ${imagePath} is empty`)
+    }
+
+    const id = `image-${createHash('sha1').update(reader.path).digest('hex').slice(0, 12)}`
+    const entries = await readImagePartitions(imagePath)
+
+    const partitions: PartitionInfo[] = []
+    for (const entry of entries) {
+      const fsType = await detectFilesystem(new SliceReader(reader, entry.offset, entry.size))
+      partitions.push({
+        id: `${id}-p${entry.index}`,
+        path: reader.path,
+        label: entry.name ?? `Partition ${entry.index}`,
+        size: entry.size,
+        offset: entry.offset,
+        filesystem: fsType !== 'unknown' ? fsType : undefined
+      })
+    }
+
+    // A bare filesystem image (no partition table) carries its filesystem
+    // at offset 0.
+    const wholeFs = partitions.length === 0 ? await detectFilesystem(reader) : 'unknown'
+    const isEvidence = reader instanceof EwfImageReader
+
+    return {
+      id,
+      name: path.basename(reader.path),
+      path: reader.path,
+      size: reader.size,
+      type: 'image',
+      model: IMAGE_FORMAT_LABELS[detectImageFormat(imagePath)],
+      removable: false,
+      readOnly: true,
+      mountPoints: [],
+      filesystem: wholeFs !== 'unknown' ? wholeFs : undefined,
+      partitions,
+      storedHashes: isEvidence ? reader.storedHashes : undefined
+    }
+  } finally {
+    await reader.close()
+  }
+}
+
+/**
+ * Read the image's partition table. An unreadable or missing table just
+ * means the image is scanned as a whole.
+ */
+async function readImagePartitions(imagePath: string): Promise<PartitionEntry[]> {
+  const blockReader = new BlockReader()
+  try {
+    await blockReader.open(imagePath)
+    const table = await readPartitionTable(blockReader)
+    return table?.partitions ?? []
+  } catch {
+    return []
+  } finally {
+    await blockReader.close()
+  }
+}
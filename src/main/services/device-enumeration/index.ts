@@ -5,7 +5,7 @@
  * This is the single entry point for the rest of the application.
  */
 
-import type { DeviceInfo } from '../../../shared/types'
+import type { DeviceInfo, SourceWindow } from '../../../shared/types'
 
 /**
  * Enumerate all block devices on the current platform.
@@ -37,3 +37,27 @@ export async function enumerateDevices(): Promise<DeviceInfo[]> {
       )
   }
 }
+
+/**
+ * Every device and its partitions as windows into the paths that hold
+ * them. Partitions inside disk images share the image path and are
+ * addressed by offset.
+ */
+export function sourceWindows(devices: DeviceInfo[]): SourceWindow[] {
+  const windows: SourceWindow[] = []
+
+  for (const device of devices) {
+    windows.push({ path: device.path, start: 0n, size: device.size })
+
+    for (const partition of device.partitions) {
+      const byOffset = partition.path === device.path
+      windows.push({
+        path: partition.path,
+        start: byOffset ? partition.offset : 0n,
+        size: partition.size
+      })
+    }
+  }
+
+  return windows
+}
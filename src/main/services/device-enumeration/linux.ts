@@ -43,7 +43,14 @@ function mapFilesystemType(fstype: string | null): FilesystemType | undefined {
     ntfs: 'ntfs',
     ext4: 'ext4',
     'hfsplus': 'hfs+',
-    apfs: 'apfs'
+    apfs: 'apfs',
+    btrfs: 'btrfs',
+    xfs: 'xfs',
+    f2fs: 'f2fs',
+    iso9660: 'iso9660',
+    udf: 'udf',
+    crypto_luks: 'luks',
+    lvm2_member: 'lvm2'
   }
 
   return mapping[normalized] ?? 'unknown'
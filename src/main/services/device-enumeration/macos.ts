@@ -68,10 +68,14 @@ function mapFilesystemType(content: string): FilesystemType | undefined {
   const normalized = content.toLowerCase()
 
   if (normalized.includes('fat32') || normalized.includes('dos_fat_32')) return 'fat32'
+  if (normalized.includes('dos_fat_16')) return 'fat16'
+  if (normalized.includes('dos_fat_12')) return 'fat12'
   if (normalized.includes('exfat') || normalized.includes('ef_system')) return 'exfat'
   if (normalized.includes('ntfs') || normalized.includes('windows_ntfs')) return 'ntfs'
   if (normalized.includes('hfs') || normalized.includes('apple_hfs')) return 'hfs+'
   if (normalized.includes('apfs') || normalized.includes('apple_apfs')) return 'apfs'
+  if (normalized.includes('luks')) return 'luks'
+  if (normalized.includes('lvm')) return 'lvm2'
   if (normalized.includes('ext4') || normalized.includes('linux')) return 'ext4'
 
   return 'unknown'
@@ -99,6 +99,7 @@ async function getPartitionFilesystem(
     const fsType = stdout.trim().toLowerCase()
 
     const mapping: Record<string, FilesystemType> = {
+      fat: 'fat16',
       fat32: 'fat32',
       exfat: 'exfat',
       ntfs: 'ntfs',
@@ -10,6 +10,8 @@ import * as fs from 'fs'
 import { promisify } from 'util'
 import { execFile } from 'child_process'
 import type { BlockReader } from '../../../core/io/block-reader'
+import { openSourceReader, isDiskImagePath } from '../../../core/io/images'
+import type { SourceReader } from '../../../core/io/images'
 import { PrivilegeManager } from '../privilege'
 
 const execFileAsync = promisify(execFile)
@@ -169,7 +171,7 @@ class FileBlockReader implements BlockReader {
  * path exists at a time. Checks for sufficient privileges before opening.
  */
 export class DiskReaderService {
-  private readers = new Map<string, FileBlockReader>()
+  private readers = new Map<string, SourceReader>()
   private privilegeManager: PrivilegeManager
 
   constructor(privilegeManager: PrivilegeManager) {
@@ -182,10 +184,13 @@ export class DiskReaderService {
    * If the device is already open, returns the existing reader. Otherwise,
    * checks for sufficient privileges and opens a new reader.
    *
+   * Disk images (including split .001/.002 sets) are opened through the
+   * image source registry; physical devices use FileBlockReader.
+   *
    * @param devicePath - Absolute path to the block device or image file.
-   * @returns A BlockReader instance for the device.
+   * @returns A reader for the device.
    */
-  async openDevice(devicePath: string): Promise<BlockReader> {
+  async openDevice(devicePath: string): Promise<SourceReader> {
     const existing = this.readers.get(devicePath)
     if (existing) return existing
 
@@ -200,7 +205,9 @@ export class DiskReaderService {
       )
     }
 
-    const reader = await FileBlockReader.open(devicePath)
+    const reader = isDiskImagePath(devicePath)
+      ? await openSourceReader(devicePath)
+      : await FileBlockReader.open(devicePath)
     this.readers.set(devicePath, reader)
     return reader
   }
@@ -0,0 +1,98 @@
+/**
+ * Encrypted volumes - Unlocks LUKS volumes for scanning.
+ *
+ * The passphrase is handed to an unlock worker thread, which runs the key
+ * derivation and returns the recovered master key. The key is registered
+ * in this process only; scan and partition search workers receive it with
+ * their workerData. Neither the passphrase nor the key is ever written to
+ * disk.
+ *
+ * An unlocked volume is described as a read-only 'image' device whose path
+ * is the volume's virtual `luks:` path, so the rest of the app selects,
+ * scans and recovers from it like any opened disk image.
+ */
+
+import { Worker } from 'worker_threads'
+import * as path from 'path'
+import type { DeviceInfo, UnlockVolumeRequest } from '../../shared/types'
+import {
+  deserializeUnlockedVolume,
+  registerUnlockedVolume
+} from '../../core/encryption'
+import type { SerializedUnlockedVolume, UnlockedVolume } from '../../core/encryption'
+import { virtualSourcesForWorker } from '../../core/io/images'
+import { describeImageSource } from './device-enumeration/image'
+
+/** Messages sent from the unlock worker to the main thread. */
+interface UnlockWorkerMessage {
+  type: 'complete' | 'error'
+  data: { volume: SerializedUnlockedVolume | null } | { error: string }
+}
+
+/**
+ * Recover a volume's master key from a passphrase and register it.
+ *
+ * @returns The unlocked volume, or null if the passphrase is wrong.
+ * @throws If the source holds no LUKS volume or uses an unsupported cipher.
+ */
+export function unlockEncryptedVolume(request: UnlockVolumeRequest): Promise<UnlockedVolume | null> {
+  const workerPath = path.resolve(__dirname, 'workers/unlock.worker.js')
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(workerPath, {
+      workerData: {
+        sourcePath: request.sourcePath,
+        offset: request.offset.toString(),
+        size: request.size.toString(),
+        passphrase: request.passphrase,
+        virtualSources: virtualSourcesForWorker(request.sourcePath)
+      }
+    })
+
+    let settled = false
+
+    worker.on('message', (msg: UnlockWorkerMessage) => {
+      settled = true
+      if (msg.type === 'error') {
+        reject(new Error((msg.data as { error: string }).error))
+        return
+      }
+
+      const { volume } = msg.data as { volume: SerializedUnlockedVolume | null }
+      if (!volume) {
+        resolve(null)
+        return
+      }
+
+      const unlocked = deserializeUnlockedVolume(volume)
+      registerUnlockedVolume(unlocked)
+      resolve(unlocked)
+    })
+
+    worker.on('error', (err) => {
+      settled = true
+      reject(new Error(`Unlock worker error: ${err.message}`))
+    })
+
+    worker.on('exit', (code) => {
+      if (!settled) reject(new Error(`Unlock worker exited unexpectedly (code ${code})`))
+    })
+  })
+}
+
+/**
+ * Describe an unlocked volume as a device.
+ *
+ * @returns A read-only DeviceInfo of type 'image' addressing the decrypted
+ *   data, with the filesystem or partitions found inside it.
+ */
+export async function describeUnlockedVolume(volume: UnlockedVolume): Promise<DeviceInfo> {
+  const device = await describeImageSource(volume.path)
+  const source = path.basename(volume.sourcePath)
+
+  return {
+    ...device,
+    name: volume.label ? `${volume.label} (${source}, unlocked)` : `${source} (unlocked)`,
+    model: `LUKS${volume.version} encrypted volume`
+  }
+}
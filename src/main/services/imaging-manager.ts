@@ -0,0 +1,224 @@
+/**
+ * ImagingManager - Orchestrates device imaging jobs.
+ *
+ * Each job copies a device to a raw image file in an imaging worker
+ * thread, keeping a ddrescue-compatible map file next to the image so a
+ * stopped job can be started again and resume where it left off. Events
+ * are emitted for the IPC layer to forward to the renderer process.
+ */
+
+import { Worker } from 'worker_threads'
+import { EventEmitter } from 'events'
+import { v4 as uuidv4 } from 'uuid'
+import * as path from 'path'
+import type { ImagingConfig, ImagingProgress, ImagingStatus } from '../../shared/types'
+import type { PrivilegeManager } from './privilege'
+import type { WorkerControl } from './scan-manager'
+
+/** Messages sent from the imaging worker to the main thread. */
+export interface ImagingWorkerMessage {
+  type: 'progress' | 'complete' | 'error'
+  jobId: string
+  data?: ImagingProgress | { cancelled: boolean } | { error: string }
+}
+
+/**
+ * Events emitted by ImagingManager.
+ */
+export interface ImagingManagerEvents {
+  progress: (jobId: string, progress: ImagingProgress) => void
+  complete: (jobId: string, result: { imagePath: string; cancelled: boolean }) => void
+  error: (jobId: string, error: string) => void
+}
+
+interface ImagingJob {
+  id: string
+  config: ImagingConfig
+  status: ImagingStatus
+  worker: Worker | null
+  progress?: ImagingProgress
+  error?: string
+}
+
+export class ImagingManager extends EventEmitter {
+  private jobs = new Map<string, ImagingJob>()
+  private privilegeManager: PrivilegeManager | null = null
+
+  setPrivilegeManager(pm: PrivilegeManager): void {
+    this.privilegeManager = pm
+  }
+
+  /**
+   * Start (or resume) imaging a device.
+   *
+   * If the map file already exists the worker resumes from it; the image
+   * file is written in place.
+   *
+   * @returns The job ID (UUID) for tracking this job.
+   */
+  async start(config: ImagingConfig): Promise<string> {
+    if (path.resolve(config.imagePath) === path.resolve(config.devicePath)) {
+      throw new Error('The image file cannot be the device being imaged')
+    }
+    for (const job of this.jobs.values()) {
+      const active = job.status === 'imaging' || job.status === 'paused'
+      if (active && path.resolve(job.config.imagePath) === path.resolve(config.imagePath)) {
+        throw new Error(`${config.imagePath} is already being written by another imaging job`)
+      }
+    }
+
+    const jobId = uuidv4()
+    const job: ImagingJob = { id: jobId, config, status: 'imaging', worker: null }
+    this.jobs.set(jobId, job)
+
+    try {
+      if (this.privilegeManager) {
+        const granted = await this.privilegeManager.grantDeviceAccess(config.devicePath)
+        if (!granted) {
+          throw new Error(`Cannot obtain read access to ${config.devicePath}. Please elevate privileges.`)
+        }
+      }
+
+      console.log('[imaging] Imaging', config.devicePath, 'to', config.imagePath)
+      job.worker = this.spawnWorker(jobId, config)
+    } catch (err) {
+      job.status = 'error'
+      job.error = err instanceof Error ? err.message : 'Failed to start imaging worker'
+      this.emit('error', jobId, job.error)
+    }
+
+    return jobId
+  }
+
+  /**
+   * Pause a running job. The worker saves its map file while paused.
+   */
+  pause(jobId: string): void {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'imaging') return
+
+    job.status = 'paused'
+    this.sendControlMessage(job, { type: 'pause' })
+  }
+
+  /**
+   * Resume a paused job.
+   */
+  resume(jobId: string): void {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status !== 'paused') return
+
+    job.status = 'imaging'
+    this.sendControlMessage(job, { type: 'resume' })
+  }
+
+  /**
+   * Stop a job. Unlike a scan, the worker is asked to stop rather than
+   * terminated, so it can save the map file before it exits; 'complete'
+   * is emitted (with `cancelled: true`) once it has.
+   */
+  cancel(jobId: string): void {
+    const job = this.jobs.get(jobId)
+    if (!job || (job.status !== 'imaging' && job.status !== 'paused')) return
+
+    job.status = 'cancelled'
+    this.sendControlMessage(job, { type: 'cancel' })
+  }
+
+  /**
+   * Stop all jobs. Call during shutdown.
+   */
+  async dispose(): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.worker) {
+        try {
+          job.worker.postMessage({ type: 'cancel' } satisfies WorkerControl)
+          await job.worker.terminate()
+        } catch {
+          // Worker may have already exited.
+        }
+      }
+    }
+    this.jobs.clear()
+    this.removeAllListeners()
+  }
+
+  // ─── Private ──────────────────────────────────────────────────
+
+  private spawnWorker(jobId: string, config: ImagingConfig): Worker {
+    const workerPath = path.resolve(__dirname, 'workers/imaging.worker.js')
+
+    const worker = new Worker(workerPath, {
+      workerData: {
+        jobId,
+        devicePath: config.devicePath,
+        deviceSize: config.deviceSize.toString(),
+        imagePath: config.imagePath,
+        mapfilePath: config.mapfilePath ?? `${config.imagePath}.map`
+      }
+    })
+
+    worker.on('message', (msg: ImagingWorkerMessage) => {
+      this.handleWorkerMessage(jobId, msg)
+    })
+
+    worker.on('error', (err) => {
+      console.error('[imaging] worker error:', err.message)
+      this.fail(jobId, `Imaging worker error: ${err.message}`)
+    })
+
+    worker.on('exit', (code) => {
+      const job = this.jobs.get(jobId)
+      if (!job) return
+      job.worker = null
+      if (job.status === 'imaging' || job.status === 'paused') {
+        this.fail(jobId, `Imaging worker exited unexpectedly (code ${code})`)
+      }
+    })
+
+    return worker
+  }
+
+  private handleWorkerMessage(jobId: string, msg: ImagingWorkerMessage): void {
+    const job = this.jobs.get(jobId)
+    if (!job) return
+
+    switch (msg.type) {
+      case 'progress': {
+        job.progress = msg.data as ImagingProgress
+        this.emit('progress', jobId, job.progress)
+        break
+      }
+
+      case 'complete': {
+        const { cancelled } = msg.data as { cancelled: boolean }
+        job.status = cancelled ? 'cancelled' : 'completed'
+        console.log(`[imaging] Job ${cancelled ? 'stopped' : 'complete'}:`, job.config.imagePath)
+        this.emit('complete', jobId, { imagePath: job.config.imagePath, cancelled })
+        break
+      }
+
+      case 'error': {
+        this.fail(jobId, (msg.data as { error: string }).error)
+        break
+      }
+    }
+  }
+
+  private fail(jobId: string, error: string): void {
+    const job = this.jobs.get(jobId)
+    if (!job || job.status === 'error') return
+
+    job.status = 'error'
+    job.error = error
+    this.emit('error', jobId, error)
+  }
+
+  private sendControlMessage(job: ImagingJob, msg: WorkerControl): void {
+    try {
+      job.worker?.postMessage(msg)
+    } catch {
+      // Worker may have already exited.
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Logical volumes - Maps LVM2 logical volumes for scanning.
+ *
+ * Physical volumes are looked for on every listed device and partition,
+ * including assembled arrays and unlocked volumes, since LVM commonly sits
+ * on md RAID (most Linux NAS boxes) or inside LUKS. Each logical volume,
+ * current or removed, can then be opened on its own.
+ *
+ * An opened volume is described as a read-only 'image' device whose path
+ * is the volume's virtual `lvm:` path, so the rest of the app selects,
+ * scans and recovers from it like any opened disk image.
+ */
+
+import type { DeviceInfo, LogicalVolume } from '../../shared/types'
+import { isVirtualSourcePath, openSourceReader } from '../../core/io/images'
+import { detectLogicalVolumes, isLogicalVolumePath, registerLogicalVolume } from '../../core/lvm'
+import { sourceWindows } from './device-enumeration'
+import { describeImageSource } from './device-enumeration/image'
+
+/**
+ * Find the logical volumes described by the LVM metadata on all devices.
+ *
+ * @returns Current volumes of each volume group, then removed ones.
+ */
+export async function findLogicalVolumes(devices: DeviceInfo[]): Promise<LogicalVolume[]> {
+  // Assembled arrays and unlocked volumes first: a PV on a RAID1 array is
+  // also visible on each member disk, and the array is the one to read.
+  const windows = sourceWindows(devices).filter((w) => !isLogicalVolumePath(w.path))
+  const ordered = [
+    ...windows.filter((w) => isVirtualSourcePath(w.path)),
+    ...windows.filter((w) => !isVirtualSourcePath(w.path))
+  ]
+  return detectLogicalVolumes(ordered, openSourceReader)
+}
+
+/**
+ * Register a logical volume and describe it as a device.
+ *
+ * @throws If the volume's layout is invalid or its sources cannot be opened.
+ */
+export async function openLogicalVolumeDevice(volume: LogicalVolume): Promise<DeviceInfo> {
+  const path = registerLogicalVolume(volume)
+  const device = await describeImageSource(path)
+
+  const first = volume.segments[0]
+  const missing = volume.segments.some((s) => s.stripes.some((st) => st.source === null))
+  const layout = [
+    first.stripes.length > 1
+      ? `striped, ${first.stripes.length} × ${first.stripeSize / 1024} KiB`
+      : 'linear',
+    volume.segments.length > 1 ? `${volume.segments.length} segments` : null,
+    missing ? 'physical volumes missing' : null
+  ].filter(Boolean).join(', ')
+
+  return {
+    ...device,
+    name: `${volume.vgName}/${volume.name}${volume.deleted ? ' (deleted)' : ''}`,
+    model: `LVM2 logical volume (${layout})`
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * PartitionSearchManager - Orchestrates lost partition searches.
+ *
+ * Each search walks a whole device in a partition search worker thread,
+ * looking for filesystem boot sectors, superblocks and volume headers
+ * that the partition table no longer points at. Events are emitted for
+ * the IPC layer to forward to the renderer process.
+ */
+
+import { Worker } from 'worker_threads'
+import { EventEmitter } from 'events'
+import { v4 as uuidv4 } from 'uuid'
+import * as path from 'path'
+import type {
+  LostPartitionCandidate,
+  PartitionSearchConfig,
+  PartitionSearchProgress,
+  PartitionSearchStatus
+} from '../../shared/types'
+import type { PrivilegeManager } from './privilege'
+import type { WorkerControl } from './scan-manager'
+import { virtualSourcesForWorker } from '../../core/io/images'
+
+export interface PartitionSearchResult {
+  candidates: LostPartitionCandidate[]
+  cancelled: boolean
+}
+
+/** Messages sent from the partition search worker to the main thread. */
+export interface PartitionSearchWorkerMessage {
+  type: 'progress' | 'complete' | 'error'
+  searchId: string
+  data?: PartitionSearchProgress | PartitionSearchResult | { error: string }
+}
+
+/**
+ * Events emitted by PartitionSearchManager.
+ */
+export interface PartitionSearchManagerEvents {
+  progress: (searchId: string, progress: PartitionSearchProgress) => void
+  complete: (searchId: string, result: PartitionSearchResult) => void
+  error: (searchId: string, error: string) => void
+}
+
+interface PartitionSearch {
+  id: string
+  config: PartitionSearchConfig
+  status: PartitionSearchStatus
+  worker: Worker | null
+  error?: string
+}
+
+export class PartitionSearchManager extends EventEmitter {
+  private searches = new Map<string, PartitionSearch>()
+  private privilegeManager: PrivilegeManager | null = null
+
+  setPrivilegeManager(pm: PrivilegeManager): void {
+    this.privilegeManager = pm
+  }
+
+  /**
+   * Start searching a device for lost partitions.
+   *
+   * @returns The search ID (UUID) for tracking this search.
+   */
+  async start(config: PartitionSearchConfig): Promise<string> {
+    const searchId = uuidv4()
+    const search: PartitionSearch = { id: searchId, config, status: 'searching', worker: null }
+    this.searches.set(searchId, search)
+
+    try {
+      if (this.privilegeManager) {
+        const granted = await this.privilegeManager.grantDeviceAccess(config.devicePath)
+        if (!granted) {
+          throw new Error(`Cannot obtain read access to ${config.devicePath}. Please elevate privileges.`)
+        }
+      }
+
+      console.log('[partition-search] Searching', config.devicePath)
+      search.worker = this.spawnWorker(searchId, config)
+    } catch (err) {
+      search.status = 'error'
+      search.error = err instanceof Error ? err.message : 'Failed to start partition search worker'
+      this.emit('error', searchId, search.error)
+    }
+
+    return searchId
+  }
+
+  /**
+   * Pause a running search.
+   */
+  pause(searchId: string): void {
+    const search = this.searches.get(searchId)
+    if (!search || search.status !== 'searching') return
+
+    search.status = 'paused'
+    this.sendControlMessage(search, { type: 'pause' })
+  }
+
+  /**
+   * Resume a paused search.
+   */
+  resume(searchId: string): void {
+    const search = this.searches.get(searchId)
+    if (!search || search.status !== 'paused') return
+
+    search.status = 'searching'
+    this.sendControlMessage(search, { type: 'resume' })
+  }
+
+  /**
+   * Stop a search. The worker still resolves the signatures it has seen
+   * into candidates, so 'complete' is emitted (with `cancelled: true`)
+   * once it has.
+   */
+  cancel(searchId: string): void {
+    const search = this.searches.get(searchId)
+    if (!search || (search.status !== 'searching' && search.status !== 'paused')) return
+
+    search.status = 'cancelled'
+    this.sendControlMessage(search, { type: 'cancel' })
+  }
+
+  /**
+   * Stop all searches. Call during shutdown.
+   */
+  async dispose(): Promise<void> {
+    for (const search of this.searches.values()) {
+      if (search.worker) {
+        try {
+          await search.worker.terminate()
+        } catch {
+          // Worker may have already exited.
+        }
+      }
+    }
+    this.searches.clear()
+    this.removeAllListeners()
+  }
+
+  // ─── Private ──────────────────────────────────────────────────
+
+  private spawnWorker(searchId: string, config: PartitionSearchConfig): Worker {
+    const workerPath = path.resolve(__dirname, 'workers/partition-search.worker.js')
+
+    const worker = new Worker(workerPath, {
+      workerData: {
+        searchId,
+        devicePath: config.devicePath,
+        deviceSize: config.deviceSize.toString(),
+        virtualSources: virtualSourcesForWorker(config.devicePath)
+      }
+    })
+
+    worker.on('message', (msg: PartitionSearchWorkerMessage) => {
+      this.handleWorkerMessage(searchId, msg)
+    })
+
+    worker.on('error', (err) => {
+      console.error('[partition-search] worker error:', err.message)
+      this.fail(searchId, `Partition search worker error: ${err.message}`)
+    })
+
+    worker.on('exit', (code) => {
+      const search = this.searches.get(searchId)
+      if (!search) return
+      search.worker = null
+      if (search.status === 'searching' || search.status === 'paused') {
+        this.fail(searchId, `Partition search worker exited unexpectedly (code ${code})`)
+      }
+    })
+
+    return worker
+  }
+
+  private handleWorkerMessage(searchId: string, msg: PartitionSearchWorkerMessage): void {
+    const search = this.searches.get(searchId)
+    if (!search) return
+
+    switch (msg.type) {
+      case 'progress': {
+        this.emit('progress', searchId, msg.data as PartitionSearchProgress)
+        break
+      }
+
+      case 'complete': {
+        const result = msg.data as PartitionSearchResult
+        search.status = result.cancelled ? 'cancelled' : 'completed'
+        console.log(`[partition-search] ${result.candidates.length} candidates on`, search.config.devicePath)
+        this.emit('complete', searchId, result)
+        break
+      }
+
+      case 'error': {
+        this.fail(searchId, (msg.data as { error: string }).error)
+        break
+      }
+    }
+  }
+
+  private fail(searchId: string, error: string): void {
+    const search = this.searches.get(searchId)
+    if (!search || search.status === 'error') return
+
+    search.status = 'error'
+    search.error = error
+    this.emit('error', searchId, error)
+  }
+
+  private sendControlMessage(search: PartitionSearch, msg: WorkerControl): void {
+    try {
+      search.worker?.postMessage(msg)
+    } catch {
+      // Worker may have already exited.
+    }
+  }
+}
@@ -15,6 +15,7 @@ import { execFile } from 'child_process'
 import * as fs from 'fs'
 import * as path from 'path'
 import { promisify } from 'util'
+import { underlyingSourcePaths } from '../../../core/io/images'
 import type { PrivilegeStatus } from '../../../shared/types'
 
 const fsAccess = promisify(fs.access)
@@ -176,6 +177,16 @@ export class PrivilegeManager {
    * falls back to a single pkexec call.
    */
   async grantDeviceAccess(devicePath: string): Promise<boolean> {
+    // Decrypted volumes and assembled arrays are read through the devices
+    // underneath them
+    const underlying = underlyingSourcePaths(devicePath)
+    if (underlying.length !== 1 || underlying[0] !== devicePath) {
+      for (const p of underlying) {
+        if (!(await this.grantDeviceAccess(p))) return false
+      }
+      return true
+    }
+
     const paths = [devicePath, ...this.discoverPartitionPaths(devicePath)]
     const toGrant: string[] = []
 
@@ -0,0 +1,53 @@
+/**
+ * RAID arrays - Assembles virtual RAID arrays from member sources.
+ *
+ * Members are devices, partitions or disk images, such as the loose disks
+ * of a dead NAS or images taken from them. The geometry is either entered
+ * by the user or read from the Linux md superblocks on the members.
+ *
+ * An assembled array is described as a read-only 'image' device whose
+ * path is the array's virtual `raid:` path, so the rest of the app selects,
+ * scans, previews and recovers from it like any opened disk image.
+ */
+
+import type { DeviceInfo, RaidConfig } from '../../shared/types'
+import { isVirtualSourcePath, openSourceReader } from '../../core/io/images'
+import { detectMdArrays, registerRaidArray } from '../../core/raid'
+import { sourceWindows } from './device-enumeration'
+import { describeImageSource } from './device-enumeration/image'
+
+/**
+ * Assemble an array and describe it as a device.
+ *
+ * @throws If the members cannot form an array of the configured level or
+ *   cannot be opened.
+ */
+export async function assembleRaidArray(config: RaidConfig): Promise<DeviceInfo> {
+  const path = registerRaidArray(config)
+  const device = await describeImageSource(path)
+
+  const disks = config.members.length
+  const missing = config.members.filter((m) => m === null).length
+  const geometry = [
+    `${disks} disks${missing > 0 ? `, ${missing} missing` : ''}`,
+    config.level === 5 ? config.layout : null,
+    config.level !== 1 ? `${config.chunkSize / 1024} KiB chunks` : null,
+  ].filter(Boolean).join(', ')
+
+  return {
+    ...device,
+    name: config.name ?? `RAID${config.level} array`,
+    model: `RAID${config.level} (${geometry})`
+  }
+}
+
+/**
+ * Look for md superblocks on every device and partition.
+ *
+ * @returns The arrays found, with their members in disk order.
+ */
+export async function detectRaidArrays(devices: DeviceInfo[]): Promise<RaidConfig[]> {
+  // Members are disks, partitions or images, never other virtual sources
+  const candidates = sourceWindows(devices).filter((w) => !isVirtualSourcePath(w.path))
+  return detectMdArrays(candidates, openSourceReader)
+}
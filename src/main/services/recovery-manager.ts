@@ -15,8 +15,11 @@ import * as path from 'path'
 import { promisify } from 'util'
 import { execFile } from 'child_process'
 import { v4 as uuidv4 } from 'uuid'
-import type { BlockReader } from '../../core/io/block-reader'
+import type { SourceReader } from '../../core/io/images'
+import { decompressLznt1 } from '../../core/utils/lznt1'
 import type {
+  FileCompression,
+  FileFragment,
   RecoverableFile,
   RecoveryConfig,
   RecoveryProgress,
@@ -35,6 +38,9 @@ const execFileAsync = promisify(execFile)
 /** Chunk size for reading from source device during recovery (1 MB). */
 const RECOVERY_CHUNK_SIZE = 1024 * 1024
 
+/** Folder for files whose original parent directory is lost. */
+const ORPHANS_DIR = '$Orphans'
+
 /**
  * Events emitted by RecoveryManager.
  */
@@ -142,14 +148,14 @@ export class RecoveryManager extends EventEmitter {
    * Core recovery loop: iterate over files, read from source, write to dest.
    */
   private async recoverFiles(config: RecoveryConfig, recoveryId: string): Promise<void> {
-    const { files, destinationPath, conflictStrategy, sourceDevicePath } = config
+    const { files, destinationPath, conflictStrategy, preserveStructure, sourceDevicePath } = config
     const errors: RecoveryError[] = []
     let completedFiles = 0
     let totalBytesWritten = 0n
 
     const totalBytes = files.reduce((sum, f) => sum + f.size, 0n)
 
-    let reader: BlockReader
+    let reader: SourceReader
     try {
       reader = await this.diskReader.openDevice(sourceDevicePath)
     } catch (err) {
@@ -173,7 +179,8 @@ export class RecoveryManager extends EventEmitter {
           reader,
           file,
           destinationPath,
-          conflictStrategy
+          conflictStrategy,
+          preserveStructure
         )
         totalBytesWritten += bytesWritten
       } catch (err) {
@@ -228,20 +235,37 @@ export class RecoveryManager extends EventEmitter {
    * Recover a single file from the source device.
    *
    * Reads the file data in chunks and writes to the destination. If the file
-   * has fragments, reads each fragment in sequence.
+   * has fragments, reads each fragment in sequence; sparse fragments are
+   * written as zeros and compressed files are decompressed unit by unit.
+   *
+   * Files go into a folder per category, or, with `preserveStructure`, into
+   * their original folders when the filesystem recorded them. Files whose
+   * parent directory is lost go under `$Orphans`.
    *
    * @returns The number of bytes written.
    */
   private async recoverSingleFile(
-    reader: BlockReader,
+    reader: SourceReader,
     file: RecoverableFile,
     destinationPath: string,
-    conflictStrategy: 'rename' | 'overwrite' | 'skip'
+    conflictStrategy: 'rename' | 'overwrite' | 'skip',
+    preserveStructure: boolean
   ): Promise<bigint> {
-    const fileName = file.name ?? `recovered_${file.id}.${file.extension}`
+    if (file.dataLost) {
+      throw new Error('File data is lost; only its name is known from the filesystem journal')
+    }
+
+    const fileName = sanitizePathSegment(file.name ?? `recovered_${file.id}.${file.extension}`)
     let outputPath: string
 
-    if (file.category) {
+    if (preserveStructure && file.location) {
+      // Recreate the original directory tree.
+      const folders = file.location.folders.map(sanitizePathSegment)
+      if (file.location.orphaned) folders.unshift(ORPHANS_DIR)
+      const originalDir = path.join(destinationPath, ...folders)
+      await fsMkdir(originalDir, { recursive: true })
+      outputPath = path.join(originalDir, fileName)
+    } else if (file.category) {
       // Organize by category subdirectory.
       const categoryDir = path.join(destinationPath, file.category)
       await fsMkdir(categoryDir, { recursive: true })
@@ -261,6 +285,10 @@ export class RecoveryManager extends EventEmitter {
     const writeStream = fs.createWriteStream(outputPath)
 
     try {
+      if (file.compression) {
+        return await this.writeCompressedFile(reader, file, file.compression, writeStream)
+      }
+
       const fragments = file.fragments ?? [{ offset: file.offset, size: file.size }]
 
       for (const fragment of fragments) {
@@ -284,18 +312,11 @@ export class RecoveryManager extends EventEmitter {
               : BigInt(RECOVERY_CHUNK_SIZE)
           )
 
-          const data = await reader.read(fragmentOffset, chunkSize)
+          const data = fragment.sparse
+            ? Buffer.alloc(chunkSize)
+            : await reader.read(fragmentOffset, chunkSize)
 
-          await new Promise<void>((resolve, reject) => {
-            const canContinue = writeStream.write(data, (err) => {
-              if (err) reject(err)
-            })
-            if (canContinue) {
-              resolve()
-            } else {
-              writeStream.once('drain', resolve)
-            }
-          })
+          await this.writeChunk(writeStream, data)
 
           bytesWritten += BigInt(data.length)
           fragmentOffset += BigInt(data.length)
@@ -314,6 +335,98 @@ export class RecoveryManager extends EventEmitter {
     return bytesWritten
   }
 
+  /**
+   * Write a compressed file one compression unit at a time, trimmed to
+   * the file size.
+   *
+   * @returns The number of bytes written.
+   */
+  private async writeCompressedFile(
+    reader: SourceReader,
+    file: RecoverableFile,
+    compression: FileCompression,
+    writeStream: fs.WriteStream
+  ): Promise<bigint> {
+    const unitSize = BigInt(compression.unitSize)
+    let bytesWritten = 0n
+    let unit: FileFragment[] = []
+    let unitFilled = 0n
+
+    const flushUnit = async (): Promise<void> => {
+      const data = await this.readCompressionUnit(reader, unit, compression)
+      const remaining = file.size - bytesWritten
+      const out = remaining < BigInt(data.length) ? data.subarray(0, Number(remaining)) : data
+      await this.writeChunk(writeStream, out)
+      bytesWritten += BigInt(out.length)
+      unit = []
+      unitFilled = 0n
+    }
+
+    for (const fragment of file.fragments ?? []) {
+      let fragmentOffset = fragment.offset
+      let remaining = fragment.size
+
+      while (remaining > 0n && bytesWritten < file.size) {
+        if (this.cancelled) return bytesWritten
+
+        // Wait if paused.
+        if (this.paused && this.pausePromise) {
+          await this.pausePromise
+          if (this.cancelled) return bytesWritten
+        }
+
+        // Split fragments at compression unit boundaries
+        const take = remaining < unitSize - unitFilled ? remaining : unitSize - unitFilled
+        unit.push({ offset: fragmentOffset, size: take, sparse: fragment.sparse })
+        unitFilled += take
+        fragmentOffset += take
+        remaining -= take
+
+        if (unitFilled === unitSize) await flushUnit()
+      }
+    }
+
+    if (unit.length > 0 && bytesWritten < file.size) await flushUnit()
+    return bytesWritten
+  }
+
+  /**
+   * Read one compression unit. A fully sparse unit is zeros and a unit
+   * without a sparse part is stored raw; otherwise the stored part holds
+   * the compressed data.
+   */
+  private async readCompressionUnit(
+    reader: SourceReader,
+    unit: FileFragment[],
+    compression: FileCompression
+  ): Promise<Buffer> {
+    const stored: Buffer[] = []
+    for (const piece of unit) {
+      if (!piece.sparse) stored.push(await reader.read(piece.offset, Number(piece.size)))
+    }
+
+    if (stored.length === 0) return Buffer.alloc(compression.unitSize)
+    const data = Buffer.concat(stored)
+    if (stored.length === unit.length) return data
+    return decompressLznt1(data, compression.unitSize)
+  }
+
+  /**
+   * Write a chunk, waiting for the stream to drain when its buffer is full.
+   */
+  private async writeChunk(writeStream: fs.WriteStream, data: Buffer): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const canContinue = writeStream.write(data, (err) => {
+        if (err) reject(err)
+      })
+      if (canContinue) {
+        resolve()
+      } else {
+        writeStream.once('drain', resolve)
+      }
+    })
+  }
+
   /**
    * Resolve the output file path based on the conflict strategy.
    *
@@ -488,3 +601,12 @@ export class RecoveryManager extends EventEmitter {
     }
   }
 }
+
+/**
+ * Make a folder or file name from the source filesystem safe to create:
+ * path separators, characters Windows rejects and `.`/`..` are replaced.
+ */
+function sanitizePathSegment(name: string): string {
+  const cleaned = name.replace(/[\\/:*?"<>|\x00-\x1f]/g, '_').trim()
+  return cleaned === '' || cleaned === '.' || cleaned === '..' ? '_' : cleaned
+}
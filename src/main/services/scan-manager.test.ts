@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { combineProgress, planCarvingRanges } from './scan-manager'
+import type { SessionRun, WorkerProgress } from './scan-manager'
+import { CHUNK_SIZE } from '../../shared/constants/file-signatures'
+import type { ScanConfig, ScanProgress, ScanSession } from '../../shared/types'
+
+const MiB = 1024n * 1024n
+const GiB = 1024n * MiB
+
+function config(overrides: Partial<ScanConfig>): ScanConfig {
+  return { devicePath: '/dev/sdx', scanType: 'deep', fileCategories: ['photo'], ...overrides }
+}
+
+function progress(bytesScanned: bigint, totalBytes: bigint, sectorsWithErrors = 0): ScanProgress {
+  return {
+    bytesScanned,
+    totalBytes,
+    percentage: Number((bytesScanned * 100n) / totalBytes),
+    filesFound: 0,
+    currentSector: 0n,
+    sectorsWithErrors
+  }
+}
+
+describe('planCarvingRanges', () => {
+  it('splits the window into contiguous ranges, one per worker', () => {
+    const ranges = planCarvingRanges(config({ startOffset: GiB, endOffset: 2n * GiB, carvingWorkers: 4 }))
+
+    expect(ranges.map((r) => [r.start, r.end])).toEqual([
+      [GiB, GiB + 256n * MiB],
+      [GiB + 256n * MiB, GiB + 512n * MiB],
+      [GiB + 512n * MiB, GiB + 768n * MiB],
+      [GiB + 768n * MiB, 2n * GiB]
+    ])
+    expect(ranges.every((r) => r.next === r.start && !r.done)).toBe(true)
+  })
+
+  it('puts range edges on chunk boundaries and covers the whole window', () => {
+    const end = 3n * GiB + 12345n
+    const ranges = planCarvingRanges(config({ endOffset: end, carvingWorkers: 7 }))
+
+    expect(ranges).toHaveLength(7)
+    expect(ranges[0].start).toBe(0n)
+    expect(ranges[ranges.length - 1].end).toBe(end)
+    for (let i = 1; i < ranges.length; i++) {
+      expect(ranges[i].start).toBe(ranges[i - 1].end)
+      expect(ranges[i].start % BigInt(CHUNK_SIZE)).toBe(0n)
+    }
+  })
+
+  it('gives each worker at least 256 MiB', () => {
+    expect(planCarvingRanges(config({ endOffset: 100n * MiB, carvingWorkers: 8 }))).toHaveLength(1)
+    expect(planCarvingRanges(config({ endOffset: 600n * MiB, carvingWorkers: 8 }))).toHaveLength(3)
+  })
+
+  it('caps the number of workers', () => {
+    expect(planCarvingRanges(config({ endOffset: 64n * GiB, carvingWorkers: 100 }))).toHaveLength(16)
+  })
+
+  it('leaves the last range open when the window runs to the end of the source', () => {
+    const ranges = planCarvingRanges(config({ deviceSize: GiB, carvingWorkers: 2 }))
+
+    expect(ranges.map((r) => [r.start, r.end])).toEqual([
+      [0n, 512n * MiB],
+      [512n * MiB, null]
+    ])
+  })
+
+  it('carves a source of unknown size with a single worker', () => {
+    expect(planCarvingRanges(config({ carvingWorkers: 4 }))).toEqual([
+      { start: 0n, end: null, next: 0n, done: false }
+    ])
+  })
+})
+
+describe('combineProgress', () => {
+  const startedAt = Date.UTC(2024, 0, 1)
+
+  function session(): ScanSession {
+    return {
+      id: 'session',
+      config: config({ endOffset: 2n * GiB }),
+      status: 'scanning',
+      progress: progress(0n, 2n * GiB),
+      foundFiles: [],
+      startedAt
+    }
+  }
+
+  function carving(bytesScanned: bigint, totalBytes: bigint, sectorsWithErrors = 0): WorkerProgress {
+    return { workerType: 'carving', progress: progress(bytesScanned, totalBytes, sectorsWithErrors) }
+  }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('adds up the carving workers\' ranges and weighs metadata parsing into the percentage', () => {
+    vi.useFakeTimers({ now: startedAt + 10_000 })
+    const entries: WorkerProgress[] = [
+      carving(GiB, GiB, 2),
+      carving(0n, GiB, 1),
+      { workerType: 'metadata', progress: { ...progress(0n, 2n * GiB), percentage: 50 } }
+    ]
+
+    const combined = combineProgress(session(), entries, undefined, entries[0].progress, 42)
+
+    expect(combined.bytesScanned).toBe(GiB)
+    expect(combined.totalBytes).toBe(2n * GiB)
+    // Carving 1 of 2 GiB, metadata half of 2 GiB
+    expect(combined.percentage).toBe(50)
+    expect(combined.sectorsWithErrors).toBe(3)
+    expect(combined.filesFound).toBe(42)
+    // 1 GiB in 10 s leaves 10 s for the other 1 GiB
+    expect(combined.estimatedTimeRemaining).toBe(10)
+  })
+
+  it('counts ranges finished before a resume and times the rate from the resume', () => {
+    vi.useFakeTimers({ now: startedAt + 3_600_000 + 10_000 })
+    const run: SessionRun = {
+      startedAt: startedAt + 3_600_000,
+      bytesDone: GiB,
+      bytesAtStart: GiB + 256n * MiB,
+      sectorsBefore: 5
+    }
+    // The unfinished range had 256 MiB carved before the resume
+    const entries = [carving(512n * MiB, GiB)]
+
+    const combined = combineProgress(session(), entries, run, entries[0].progress, 0)
+
+    expect(combined.bytesScanned).toBe(GiB + 512n * MiB)
+    expect(combined.totalBytes).toBe(2n * GiB)
+    expect(combined.percentage).toBe(75)
+    expect(combined.sectorsWithErrors).toBe(5)
+    // 256 MiB in the 10 s since the resume leaves 20 s for 512 MiB
+    expect(combined.estimatedTimeRemaining).toBe(20)
+  })
+})
@@ -2,32 +2,46 @@
  * ScanManager - Orchestrates data recovery scan sessions.
  *
  * Creates and manages worker threads for two types of scanning:
- * 1. File carving: raw byte-level signature scanning (carving worker)
+ * 1. File carving: raw byte-level signature scanning (carving workers)
  * 2. Metadata parsing: filesystem-level file enumeration (metadata worker)
  *
+ * Carving is CPU-bound on fast sources (NVMe, RAID), so the scan range is
+ * split into contiguous ranges, each carved by a worker of its own. Their
+ * progress is combined into the session's.
+ *
  * Each scan session is identified by a UUID and tracks its lifecycle
  * (start, pause, resume, cancel) along with aggregated results. Events
  * are emitted for the IPC layer to forward to the renderer process.
+ *
+ * With a {@link SessionStore} set, sessions are saved to disk as they run:
+ * found files as they arrive, and every few seconds a checkpoint of how
+ * far each carving worker got. A session cut short by a cancel, a crash or
+ * closing the app can be reopened, or carried on from its checkpoint.
  */
 
 import { Worker } from 'worker_threads'
 import { EventEmitter } from 'events'
 import { v4 as uuidv4 } from 'uuid'
+import * as os from 'os'
 import * as path from 'path'
 import type {
   ScanConfig,
   ScanSession,
   ScanStatus,
   ScanProgress,
-  RecoverableFile
+  RecoverableFile,
+  SavedScanSession
 } from '../../shared/types'
 import type { PrivilegeManager } from './privilege'
+import type { CarvingRange, SessionFilesPage, SessionRecord, SessionStore } from './session-store'
+import { isVirtualSourcePath, virtualSourcesForWorker } from '../../core/io/images'
+import { CHUNK_SIZE } from '../../shared/constants/file-signatures'
 
 /** Messages sent from worker threads to the main thread. */
 export interface WorkerMessage {
-  type: 'progress' | 'file-found' | 'files-batch' | 'complete' | 'error'
+  type: 'progress' | 'file-found' | 'files-batch' | 'bad-sectors' | 'complete' | 'error'
   sessionId: string
-  data?: ScanProgress | RecoverableFile | RecoverableFile[] | { error: string }
+  data?: ScanProgress | RecoverableFile | RecoverableFile[] | bigint[] | { error: string }
 }
 
 /** Messages sent from the main thread to worker threads. */
@@ -53,10 +67,184 @@ export interface ScanManagerEvents {
  * Results are streamed to the renderer via IPC as they arrive, so the
  * main-thread array is only used for post-scan access. Once the cap is
  * reached, new files are still deduplicated, counted, and emitted to
- * the renderer, but not stored in the array.
+ * the renderer, but not stored in the array. Saved sessions keep every
+ * file on disk.
  */
 const MAX_FILES_IN_MEMORY = 50_000
 
+/** How often a running session's checkpoint is saved. */
+const CHECKPOINT_INTERVAL_MS = 10_000
+
+/** Most carving workers started for one scan. */
+const MAX_CARVING_WORKERS = 16
+
+/** Most carving workers started by default. */
+const MAX_DEFAULT_CARVING_WORKERS = 8
+
+/**
+ * Smallest range given to a carving worker (256 MB). Each worker opens the
+ * source and loads the allocation bitmap on its own, so small scans use
+ * fewer workers.
+ */
+const MIN_CARVING_RANGE = 256n * 1024n * 1024n
+
+/** Latest progress reported by one worker of a session. */
+export interface WorkerProgress {
+  workerType: 'carving' | 'metadata'
+  progress: ScanProgress
+  /** Carving workers: the range carved and where the worker started in it. */
+  carving?: { range: CarvingRange; from: bigint }
+}
+
+/** The current run of a session: since it was started or last resumed. */
+export interface SessionRun {
+  startedAt: number
+  /** Bytes of the ranges finished in earlier runs. */
+  bytesDone: bigint
+  /** Bytes carved in earlier runs, finished ranges included. */
+  bytesAtStart: bigint
+  sectorsBefore: number
+}
+
+/**
+ * Default number of carving workers: one per CPU core, leaving a core for
+ * the main process and metadata parsing.
+ */
+export function defaultCarvingWorkerCount(): number {
+  return Math.max(1, Math.min(os.availableParallelism() - 1, MAX_DEFAULT_CARVING_WORKERS))
+}
+
+/**
+ * Split [start, end) into at most `count` contiguous ranges of at least
+ * {@link MIN_CARVING_RANGE}, with edges on chunk boundaries. The carving
+ * engine reads past the end of its range far enough to find the headers
+ * straddling an edge, so nothing is lost between ranges.
+ */
+function carvingRanges(start: bigint, end: bigint, count: number): CarvingRange[] {
+  const size = end - start
+  const chunk = BigInt(CHUNK_SIZE)
+  const n = BigInt(Math.max(1, Math.min(count, Number((size + MIN_CARVING_RANGE - 1n) / MIN_CARVING_RANGE))))
+  const step = ((size + n - 1n) / n + chunk - 1n) / chunk * chunk
+
+  const ranges: CarvingRange[] = []
+  for (let rangeStart = start; rangeStart < end; rangeStart += step) {
+    ranges.push({
+      start: rangeStart,
+      end: rangeStart + step < end ? rangeStart + step : end,
+      next: rangeStart,
+      done: false
+    })
+  }
+  return ranges
+}
+
+/**
+ * Plan the carving ranges of a new scan: the scan window split across the
+ * configured number of workers. A source of unknown size is carved by a
+ * single worker, which finds the end itself.
+ */
+export function planCarvingRanges(config: ScanConfig): CarvingRange[] {
+  const start = config.startOffset ?? 0n
+  const end = config.endOffset ?? config.deviceSize ?? 0n
+  const count = Math.min(config.carvingWorkers ?? defaultCarvingWorkerCount(), MAX_CARVING_WORKERS)
+  const ranges = end > start && count > 1
+    ? carvingRanges(start, end, count)
+    : [{ start, end, next: start, done: false }]
+
+  // Without an end offset the window runs to the end of the source, whose
+  // size the last worker knows better than the enumerated size.
+  if (config.endOffset === undefined) ranges[ranges.length - 1].end = null
+  return ranges
+}
+
+/**
+ * Record how far a carving worker got in its range, and turn its progress,
+ * which covers what it carved since it started, into progress over the
+ * whole range.
+ */
+function advanceRange(entry: WorkerProgress, progress: ScanProgress): ScanProgress {
+  if (!entry.carving) return progress
+  const { range, from } = entry.carving
+  range.next = from + progress.bytesScanned
+
+  const before = from - range.start
+  if (before === 0n) return progress
+  const bytesScanned = progress.bytesScanned + before
+  const totalBytes = progress.totalBytes + before
+  return {
+    ...progress,
+    bytesScanned,
+    totalBytes,
+    percentage: Number((bytesScanned * 100n) / (totalBytes || 1n))
+  }
+}
+
+/**
+ * Combine the latest progress of every worker of a session. Carving
+ * workers cover disjoint ranges, so their bytes add up to the sweep shown
+ * to the user; the percentage weighs every worker, metadata parsing
+ * included, by the bytes it covers. Each worker reports cumulative
+ * counts, so sector errors are summed over the workers' latest reports.
+ */
+export function combineProgress(
+  session: ScanSession,
+  entries: WorkerProgress[],
+  run: SessionRun | undefined,
+  latest: ScanProgress,
+  filesFound: number
+): ScanProgress {
+  const carving = entries.filter((e) => e.workerType === 'carving')
+  const sweep = carving.length > 0 ? carving : entries
+  // Ranges finished before the scan was resumed have no worker
+  const bytesDone = carving.length > 0 ? run?.bytesDone ?? 0n : 0n
+
+  let bytesScanned = bytesDone
+  let totalBytes = bytesDone
+  for (const { progress } of sweep) {
+    bytesScanned += progress.bytesScanned
+    totalBytes += progress.totalBytes
+  }
+
+  let weight = Number(bytesDone)
+  let done = Number(bytesDone)
+  let sectorsWithErrors = run?.sectorsBefore ?? 0
+  for (const { progress } of entries) {
+    const bytes = Number(progress.totalBytes)
+    weight += bytes
+    done += (bytes * progress.percentage) / 100
+    sectorsWithErrors += progress.sectorsWithErrors ?? 0
+  }
+
+  const elapsedSec = (Date.now() - (run?.startedAt ?? session.startedAt)) / 1000
+  const carvedNow = Number(bytesScanned - (run?.bytesAtStart ?? 0n))
+  const rate = elapsedSec > 0 ? carvedNow / elapsedSec : 0
+  const remaining = totalBytes > bytesScanned ? totalBytes - bytesScanned : 0n
+
+  return {
+    bytesScanned,
+    totalBytes: totalBytes || session.progress.totalBytes,
+    percentage: weight > 0 ? Math.min(100, Math.floor((done * 100) / weight)) : 0,
+    filesFound,
+    currentSector: latest.currentSector,
+    estimatedTimeRemaining: rate > 0 ? Math.round(Number(remaining) / rate) : undefined,
+    sectorsWithErrors
+  }
+}
+
+/** Whether a decrypted volume, array or logical volume is open in this app session. */
+function isVirtualSourceOpen(sourcePath: string): boolean {
+  const sources = virtualSourcesForWorker(sourcePath)
+  return sources.unlockedVolumes.length + sources.raidArrays.length + sources.logicalVolumes.length > 0
+}
+
+/**
+ * Key used to drop duplicate results, e.g. a file found by both carving
+ * and metadata. Data-lost files have no location, so each stands alone.
+ */
+function dedupKey(file: RecoverableFile): string {
+  return file.dataLost ? file.id : `${file.offset}:${file.type}`
+}
+
 export class ScanManager extends EventEmitter {
   private sessions = new Map<string, ScanSession>()
   private workers = new Map<string, Worker[]>()
@@ -66,18 +254,30 @@ export class ScanManager extends EventEmitter {
   private seenFiles = new Map<string, Set<string>>()
   /** Accurate file count even when foundFiles is capped. */
   private fileCounts = new Map<string, number>()
+  /** Latest progress of each worker, combined into the session's. */
+  private workerProgress = new Map<string, Map<Worker, WorkerProgress>>()
+  /** Carving ranges per session, saved as its checkpoint. */
+  private ranges = new Map<string, CarvingRange[]>()
+  private runs = new Map<string, SessionRun>()
+  /** When each session was last saved. */
+  private lastSaved = new Map<string, number>()
   private privilegeManager: PrivilegeManager | null = null
+  private sessionStore: SessionStore | null = null
 
   setPrivilegeManager(pm: PrivilegeManager): void {
     this.privilegeManager = pm
   }
 
+  setSessionStore(store: SessionStore): void {
+    this.sessionStore = store
+  }
+
   /**
    * Start a new scan session.
    *
-   * Spawns one or two worker threads depending on the scan type:
-   * - quick scan: metadata worker only (filesystem-level enumeration)
-   * - deep scan: both carving and metadata workers
+   * Spawns worker threads depending on the scan type:
+   * - quick scan: metadata worker, plus carving workers as a fallback
+   * - deep scan: carving workers only
    *
    * @param config - Scan configuration specifying device, type, and file categories.
    * @returns The session ID (UUID) for tracking this scan.
@@ -105,13 +305,146 @@ export class ScanManager extends EventEmitter {
     this.sessions.set(sessionId, session)
     this.seenFiles.set(sessionId, new Set())
     this.fileCounts.set(sessionId, 0)
+    this.workerProgress.set(sessionId, new Map())
+    this.runs.set(sessionId, { startedAt: now, bytesDone: 0n, bytesAtStart: 0n, sectorsBefore: 0 })
+
+    const devicePath = config.partitionPath ?? config.devicePath
+    console.log('[scan] Starting scan on', devicePath, 'size:', config.deviceSize?.toString(), 'type:', config.scanType)
+    await this.launch(sessionId, session)
+
+    return sessionId
+  }
+
+  /**
+   * Carry on with a saved session from its last checkpoint. The files
+   * found so far are reloaded so they are not reported twice, and the
+   * unfinished carving ranges are carved from where they stopped; a quick
+   * scan parses the filesystem again.
+   *
+   * @throws If the session is running, finished, or on a virtual source
+   *   that has not been opened again since the app started.
+   */
+  async resumeFromCheckpoint(sessionId: string): Promise<void> {
+    if (!this.sessionStore) throw new Error('Scan sessions are not being saved')
+    const current = this.sessions.get(sessionId)
+    if (current && (current.status === 'scanning' || current.status === 'paused')) {
+      throw new Error('This scan is already running')
+    }
+
+    const record = await this.sessionStore.load(sessionId)
+    if (!record) throw new Error('Scan session not found')
+    if (!record.ranges.some((range) => !range.done)) {
+      throw new Error('This scan has already finished')
+    }
+
+    const { config } = record
+    const devicePath = config.partitionPath ?? config.devicePath
+    if (isVirtualSourcePath(devicePath) && !isVirtualSourceOpen(devicePath)) {
+      throw new Error(`${devicePath} is not open. Unlock or assemble it again, then resume the scan.`)
+    }
+
+    await this.sessionStore.trimFiles(sessionId)
+    const seen = new Set<string>()
+    const foundFiles: RecoverableFile[] = []
+    for (let position: number | null = 0; position !== null; ) {
+      const page = await this.sessionStore.readFiles(sessionId, position)
+      for (const file of page.files) {
+        seen.add(dedupKey(file))
+        if (foundFiles.length < MAX_FILES_IN_MEMORY) foundFiles.push(file)
+      }
+      position = page.next
+    }
 
+    const session: ScanSession = {
+      id: sessionId,
+      config,
+      status: 'scanning',
+      progress: { ...record.progress, filesFound: seen.size, estimatedTimeRemaining: undefined },
+      foundFiles,
+      startedAt: record.startedAt
+    }
+
+    let bytesDone = 0n
+    let bytesAtStart = 0n
+    for (const range of record.ranges) {
+      if (range.done) bytesDone += range.next - range.start
+      bytesAtStart += range.next - range.start
+    }
+
+    this.sessions.set(sessionId, session)
+    this.seenFiles.set(sessionId, seen)
+    this.fileCounts.set(sessionId, seen.size)
+    this.workerProgress.set(sessionId, new Map())
+    this.completedWorkers.delete(sessionId)
+    this.runs.set(sessionId, {
+      startedAt: Date.now(),
+      bytesDone,
+      bytesAtStart,
+      sectorsBefore: record.progress.sectorsWithErrors
+    })
+
+    console.log(`[scan] Resuming scan ${sessionId} on ${devicePath} with ${seen.size} files found so far`)
+    await this.launch(sessionId, session, record.ranges)
+  }
+
+  /**
+   * Saved sessions, most recent first. Sessions running in this app
+   * session are reported as they are now rather than as last saved.
+   */
+  async listSessions(): Promise<SavedScanSession[]> {
+    if (!this.sessionStore) return []
+    const records = await this.sessionStore.list()
+
+    return records.map((saved) => {
+      const session = this.sessions.get(saved.id)
+      const record = session ? this.toRecord(session) : saved
+      const running = !!session && (session.status === 'scanning' || session.status === 'paused')
+      return {
+        id: record.id,
+        config: record.config,
+        status: record.status,
+        progress: record.progress,
+        startedAt: record.startedAt,
+        completedAt: record.completedAt,
+        error: record.error,
+        filesFound: record.filesFound,
+        running,
+        resumable: !running && record.ranges.some((range) => !range.done)
+      }
+    })
+  }
+
+  /**
+   * Read a page of a saved session's found files, starting at `position`
+   * (0 for the first page).
+   */
+  async readSessionFiles(sessionId: string, position: number): Promise<SessionFilesPage> {
+    if (!this.sessionStore) return { files: [], next: null }
+    return this.sessionStore.readFiles(sessionId, position)
+  }
+
+  /** Delete a saved session that is not running. */
+  async deleteSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (session && (session.status === 'scanning' || session.status === 'paused')) {
+      throw new Error('Stop the scan before deleting it')
+    }
+    this.forgetSession(sessionId)
+    await this.sessionStore?.remove(sessionId)
+  }
+
+  /**
+   * Get read access to the source and spawn the session's workers, then
+   * save the session. A resumed session passes its saved carving ranges,
+   * of which only the unfinished ones are carved.
+   */
+  private async launch(sessionId: string, session: ScanSession, ranges?: CarvingRange[]): Promise<void> {
+    const config = session.config
     const sessionWorkers: Worker[] = []
 
     try {
       // Ensure we have read access to the device
       const devicePath = config.partitionPath ?? config.devicePath
-      console.log('[scan] Starting scan on', devicePath, 'size:', config.deviceSize?.toString(), 'type:', config.scanType)
       if (this.privilegeManager) {
         const granted = await this.privilegeManager.grantDeviceAccess(devicePath)
         if (!granted) {
@@ -121,15 +454,13 @@ export class ScanManager extends EventEmitter {
 
       if (config.scanType === 'deep') {
         // Deep scan: carving only (signature-based, works on any filesystem)
-        const carvingWorker = this.spawnCarvingWorker(sessionId, config)
-        sessionWorkers.push(carvingWorker)
+        sessionWorkers.push(...this.spawnCarvingWorkers(sessionId, config, ranges))
       } else {
         // Quick scan: metadata first, then carving as fallback
         const metadataWorker = this.spawnMetadataWorker(sessionId, config)
         sessionWorkers.push(metadataWorker)
         // Also run carving so the user gets results even on unsupported filesystems
-        const carvingWorker = this.spawnCarvingWorker(sessionId, config)
-        sessionWorkers.push(carvingWorker)
+        sessionWorkers.push(...this.spawnCarvingWorkers(sessionId, config, ranges))
       }
 
       this.workers.set(sessionId, sessionWorkers)
@@ -140,7 +471,7 @@ export class ScanManager extends EventEmitter {
       this.emit('error', sessionId, session.error)
     }
 
-    return sessionId
+    this.saveSession(sessionId)
   }
 
   /**
@@ -152,6 +483,7 @@ export class ScanManager extends EventEmitter {
 
     session.status = 'paused'
     this.sendControlMessage(sessionId, { type: 'pause' })
+    this.saveSession(sessionId)
   }
 
   /**
@@ -163,6 +495,7 @@ export class ScanManager extends EventEmitter {
 
     session.status = 'scanning'
     this.sendControlMessage(sessionId, { type: 'resume' })
+    this.saveSession(sessionId)
   }
 
   /**
@@ -181,6 +514,7 @@ export class ScanManager extends EventEmitter {
 
     this.sendControlMessage(sessionId, { type: 'cancel' })
     this.terminateWorkers(sessionId)
+    this.saveSession(sessionId)
 
     const fileCount = this.fileCounts.get(sessionId) ?? session.foundFiles.length
     this.emit('complete', sessionId, fileCount)
@@ -206,6 +540,8 @@ export class ScanManager extends EventEmitter {
    * Clean up all sessions and workers. Call during shutdown.
    */
   async dispose(): Promise<void> {
+    // A last checkpoint first, so a resumed scan loses no progress
+    const saves = [...this.workers.keys()].map((sessionId) => this.saveSession(sessionId))
     for (const sessionId of this.workers.keys()) {
       this.terminateWorkers(sessionId)
     }
@@ -213,12 +549,31 @@ export class ScanManager extends EventEmitter {
     this.workers.clear()
     this.seenFiles.clear()
     this.fileCounts.clear()
+    this.workerProgress.clear()
+    this.ranges.clear()
+    this.runs.clear()
+    this.lastSaved.clear()
     this.removeAllListeners()
+    await Promise.all(saves)
   }
 
   // ─── Private ──────────────────────────────────────────────────
 
-  private spawnCarvingWorker(sessionId: string, config: ScanConfig): Worker {
+  /**
+   * Spawn the carving workers of a scan, one per unfinished range: the
+   * saved ranges of a resumed session, or else the scan window split
+   * across the configured number of workers.
+   */
+  private spawnCarvingWorkers(sessionId: string, config: ScanConfig, saved?: CarvingRange[]): Worker[] {
+    const ranges = saved ?? planCarvingRanges(config)
+    this.ranges.set(sessionId, ranges)
+
+    const pending = ranges.filter((range) => !range.done)
+    console.log(`[scan] Carving with ${pending.length} worker(s)`)
+    return pending.map((range) => this.spawnCarvingWorker(sessionId, config, range))
+  }
+
+  private spawnCarvingWorker(sessionId: string, config: ScanConfig, range: CarvingRange): Worker {
     const workerPath = path.resolve(__dirname, 'workers/carving.worker.js')
 
     const worker = new Worker(workerPath, {
@@ -230,11 +585,14 @@ export class ScanManager extends EventEmitter {
         deviceSize: (config.deviceSize ?? config.endOffset ?? 0n).toString(),
         startOffset: config.startOffset?.toString() ?? '0',
         endOffset: config.endOffset?.toString() ?? '0',
-        scanType: config.scanType
+        range: { start: range.next.toString(), end: range.end?.toString() ?? '0' },
+        scanType: config.scanType,
+        virtualSources: virtualSourcesForWorker(config.partitionPath ?? config.devicePath)
       }
     })
 
-    this.attachWorkerListeners(worker, sessionId, 'carving')
+    const rangeEnd = range.end ?? config.deviceSize ?? 0n
+    this.attachWorkerListeners(worker, sessionId, 'carving', rangeEnd > range.next ? rangeEnd - range.next : 0n, range)
     return worker
   }
 
@@ -248,9 +606,12 @@ export class ScanManager extends EventEmitter {
         fileCategories: config.fileCategories,
         fileTypes: config.fileTypes,
         deviceSize: (config.deviceSize ?? 0n).toString(),
+        startOffset: config.startOffset?.toString() ?? '0',
+        endOffset: config.endOffset?.toString() ?? '0',
         filesystemType: undefined,
         // For quick scan on whole device, try each partition
-        scanPartitions: !config.partitionPath
+        scanPartitions: !config.partitionPath,
+        virtualSources: virtualSourcesForWorker(config.partitionPath ?? config.devicePath)
       }
     })
 
@@ -258,13 +619,35 @@ export class ScanManager extends EventEmitter {
     return worker
   }
 
+  /**
+   * @param expectedBytes - Bytes the worker is expected to cover, weighing
+   *   its progress until it reports its own total.
+   * @param range - The range a carving worker carves, from `range.next` on.
+   */
   private attachWorkerListeners(
     worker: Worker,
     sessionId: string,
-    workerType: 'carving' | 'metadata'
+    workerType: 'carving' | 'metadata',
+    expectedBytes: bigint = 0n,
+    range?: CarvingRange
   ): void {
+    const entry: WorkerProgress = {
+      workerType,
+      progress: {
+        bytesScanned: 0n,
+        totalBytes: expectedBytes,
+        percentage: 0,
+        filesFound: 0,
+        currentSector: 0n,
+        sectorsWithErrors: 0
+      },
+      carving: range && { range, from: range.next }
+    }
+    entry.progress = advanceRange(entry, entry.progress)
+    this.workerProgress.get(sessionId)?.set(worker, entry)
+
     worker.on('message', (msg: WorkerMessage) => {
-      this.handleWorkerMessage(sessionId, msg)
+      this.handleWorkerMessage(sessionId, msg, worker)
     })
 
     worker.on('error', (err) => {
@@ -285,35 +668,31 @@ export class ScanManager extends EventEmitter {
     })
   }
 
-  private handleWorkerMessage(sessionId: string, msg: WorkerMessage): void {
+  private handleWorkerMessage(sessionId: string, msg: WorkerMessage, worker: Worker): void {
     const session = this.sessions.get(sessionId)
     if (!session) return
 
     switch (msg.type) {
       case 'progress': {
-        const progress = msg.data as ScanProgress
-        // Merge progress: take the maximum values across workers.
-        session.progress = {
-          bytesScanned:
-            progress.bytesScanned > session.progress.bytesScanned
-              ? progress.bytesScanned
-              : session.progress.bytesScanned,
-          totalBytes: progress.totalBytes || session.progress.totalBytes,
-          percentage: Math.max(progress.percentage, session.progress.percentage),
-          filesFound: session.foundFiles.length,
-          currentSector: progress.currentSector,
-          estimatedTimeRemaining: progress.estimatedTimeRemaining,
-          sectorsWithErrors:
-            session.progress.sectorsWithErrors + (progress.sectorsWithErrors ?? 0)
-        }
+        const entry = this.workerProgress.get(sessionId)?.get(worker)
+        if (!entry) break
+        entry.progress = advanceRange(entry, msg.data as ScanProgress)
+        session.progress = combineProgress(
+          session,
+          [...(this.workerProgress.get(sessionId)?.values() ?? [])],
+          this.runs.get(sessionId),
+          entry.progress,
+          this.fileCounts.get(sessionId) ?? session.foundFiles.length
+        )
         this.emit('progress', sessionId, session.progress)
+        this.checkpoint(sessionId)
         break
       }
 
       case 'file-found': {
         const file = msg.data as RecoverableFile
         const seen = this.seenFiles.get(sessionId)!
-        const key = `${file.offset}:${file.type}`
+        const key = dedupKey(file)
         if (!seen.has(key)) {
           seen.add(key)
           const count = (this.fileCounts.get(sessionId) ?? 0) + 1
@@ -322,6 +701,7 @@ export class ScanManager extends EventEmitter {
             session.foundFiles.push(file)
           }
           session.progress.filesFound = count
+          this.sessionStore?.appendFiles(sessionId, [file])
           this.emit('file-found', sessionId, file)
         }
         break
@@ -330,26 +710,36 @@ export class ScanManager extends EventEmitter {
       case 'files-batch': {
         const files = msg.data as RecoverableFile[]
         const seen = this.seenFiles.get(sessionId)!
-        let count = this.fileCounts.get(sessionId) ?? 0
+        const added: RecoverableFile[] = []
         for (const file of files) {
-          const key = `${file.offset}:${file.type}`
+          const key = dedupKey(file)
           if (!seen.has(key)) {
             seen.add(key)
-            count++
+            added.push(file)
             if (session.foundFiles.length < MAX_FILES_IN_MEMORY) {
               session.foundFiles.push(file)
             }
             this.emit('file-found', sessionId, file)
           }
         }
+        const count = (this.fileCounts.get(sessionId) ?? 0) + added.length
         this.fileCounts.set(sessionId, count)
         session.progress.filesFound = count
+        this.sessionStore?.appendFiles(sessionId, added)
+        break
+      }
+
+      case 'bad-sectors': {
+        this.sessionStore?.appendBadSectors(sessionId, msg.data as bigint[])
         break
       }
 
       case 'complete': {
         // Track worker completion. When all workers for a session finish,
         // mark the session as completed.
+        const carving = this.workerProgress.get(sessionId)?.get(worker)?.carving
+        if (carving) carving.range.done = true
+
         const wCount = (this.completedWorkers.get(sessionId) ?? 0) + 1
         this.completedWorkers.set(sessionId, wCount)
 
@@ -360,6 +750,7 @@ export class ScanManager extends EventEmitter {
           session.progress.percentage = 100
           const fileCount = this.fileCounts.get(sessionId) ?? session.foundFiles.length
           console.log(`[scan] All workers complete. Found ${fileCount} files.`)
+          this.saveSession(sessionId)
           this.emit('complete', sessionId, fileCount)
           this.terminateWorkers(sessionId)
         }
@@ -369,6 +760,7 @@ export class ScanManager extends EventEmitter {
       case 'error': {
         const errorData = msg.data as { error: string }
         session.error = errorData.error
+        this.saveSession(sessionId)
         this.emit('error', sessionId, errorData.error)
         break
       }
@@ -400,10 +792,51 @@ export class ScanManager extends EventEmitter {
       session.status = 'completed'
       session.completedAt = Date.now()
       session.progress.percentage = 100
+      this.saveSession(sessionId)
       this.emit('complete', sessionId, session.foundFiles.length)
     }
   }
 
+  /** Save the session if its last save is older than CHECKPOINT_INTERVAL_MS. */
+  private checkpoint(sessionId: string): void {
+    if (Date.now() - (this.lastSaved.get(sessionId) ?? 0) >= CHECKPOINT_INTERVAL_MS) {
+      this.saveSession(sessionId)
+    }
+  }
+
+  private async saveSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (!session || !this.sessionStore) return
+    this.lastSaved.set(sessionId, Date.now())
+    await this.sessionStore.save(this.toRecord(session))
+  }
+
+  private toRecord(session: ScanSession): SessionRecord {
+    return {
+      id: session.id,
+      config: session.config,
+      status: session.status,
+      progress: session.progress,
+      startedAt: session.startedAt,
+      completedAt: session.completedAt,
+      error: session.error,
+      filesFound: this.fileCounts.get(session.id) ?? session.foundFiles.length,
+      ranges: this.ranges.get(session.id) ?? []
+    }
+  }
+
+  /** Drop everything kept in memory for a session that is not running. */
+  private forgetSession(sessionId: string): void {
+    this.sessions.delete(sessionId)
+    this.completedWorkers.delete(sessionId)
+    this.seenFiles.delete(sessionId)
+    this.fileCounts.delete(sessionId)
+    this.workerProgress.delete(sessionId)
+    this.ranges.delete(sessionId)
+    this.runs.delete(sessionId)
+    this.lastSaved.delete(sessionId)
+  }
+
   private sendControlMessage(sessionId: string, msg: WorkerControl): void {
     const sessionWorkers = this.workers.get(sessionId)
     if (!sessionWorkers) return
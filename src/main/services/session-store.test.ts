@@ -0,0 +1,161 @@
+import { appendFile, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SessionStore } from './session-store'
+import type { SessionRecord } from './session-store'
+import type { RecoverableFile } from '../../shared/types'
+
+const SESSION = '0b6f3c1e-2a4d-4e5f-8a9b-0c1d2e3f4a5b'
+const OLDER_SESSION = '7d8e9f0a-1b2c-4d3e-9f4a-5b6c7d8e9f0a'
+
+let root: string
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'session-store-test-'))
+})
+
+afterEach(async () => {
+  vi.restoreAllMocks()
+  await rm(root, { recursive: true, force: true })
+})
+
+function record(id: string, startedAt: number, overrides: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    id,
+    config: {
+      devicePath: '/dev/sdx',
+      scanType: 'deep',
+      fileCategories: ['photo'],
+      deviceSize: 64n << 30n,
+      startOffset: 1n << 20n
+    },
+    status: 'paused',
+    progress: {
+      bytesScanned: 5n << 30n,
+      totalBytes: 64n << 30n,
+      percentage: 7.8,
+      filesFound: 2,
+      currentSector: 10485760n,
+      sectorsWithErrors: 1
+    },
+    startedAt,
+    filesFound: 2,
+    ranges: [
+      { start: 1n << 20n, end: 32n << 30n, next: 5n << 30n, done: false },
+      { start: 32n << 30n, end: null, next: 32n << 30n, done: false }
+    ],
+    ...overrides
+  }
+}
+
+function file(n: number, name = `IMG_${n}.jpg`): RecoverableFile {
+  return {
+    id: `file-${n}`,
+    type: 'jpeg',
+    category: 'photo',
+    offset: BigInt(n) * 4096n + (1n << 40n),
+    size: 2048n,
+    sizeEstimated: false,
+    name,
+    extension: 'jpg',
+    metadata: { createdAt: new Date('2023-04-05T06:07:08.000Z'), cameraModel: 'X100' },
+    recoverability: 'good',
+    source: 'carving',
+    fragments: [{ offset: BigInt(n) * 4096n, size: 2048n }]
+  }
+}
+
+/** Every file in the session, read page by page. */
+async function readAll(store: SessionStore, id: string): Promise<{ files: RecoverableFile[]; pages: number }> {
+  const files: RecoverableFile[] = []
+  let pages = 0
+  let position: number | null = 0
+  while (position !== null) {
+    const page = await store.readFiles(id, position)
+    files.push(...page.files)
+    position = page.next
+    pages++
+  }
+  return { files, pages }
+}
+
+describe('SessionStore', () => {
+  it('reloads a saved session with its bigints and found files intact', async () => {
+    const store = new SessionStore(root)
+    await store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, [file(1), file(2)])
+    await store.save(record(SESSION, 1000))
+
+    const reopened = new SessionStore(root)
+
+    expect(await reopened.load(SESSION)).toEqual(record(SESSION, 1000))
+    expect(await reopened.readFiles(SESSION, 0)).toEqual({ files: [file(1), file(2)], next: null })
+  })
+
+  it('writes files queued before a checkpoint ahead of it', async () => {
+    const store = new SessionStore(root)
+    await store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, [file(1)])
+    const saved = store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, [file(2)])
+    await saved
+
+    expect((await new SessionStore(root).readFiles(SESSION, 0)).files).toEqual([file(1)])
+    expect((await store.readFiles(SESSION, 0)).files).toEqual([file(1), file(2)])
+  })
+
+  it('pages through a file index larger than one read', async () => {
+    const store = new SessionStore(root)
+    // About 1 KiB a line: 6000 lines take two pages
+    const files = Array.from({ length: 6000 }, (_, n) => file(n, `${'x'.repeat(800)}_${n}.jpg`))
+    await store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, files)
+
+    const { files: read, pages } = await readAll(store, SESSION)
+
+    expect(pages).toBe(2)
+    expect(read).toEqual(files)
+  })
+
+  it('drops a line cut short by a crash before appending again', async () => {
+    const store = new SessionStore(root)
+    await store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, [file(1), file(2)])
+    await store.save(record(SESSION, 1000))
+    await appendFile(join(root, SESSION, 'files.ndjson'), '{"id":"file-3","type":"jp')
+
+    await store.trimFiles(SESSION)
+    store.appendFiles(SESSION, [file(4)])
+
+    expect((await readAll(store, SESSION)).files).toEqual([file(1), file(2), file(4)])
+  })
+
+  it('lists sessions newest first and skips ones it cannot read', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const store = new SessionStore(root)
+    await store.save(record(OLDER_SESSION, 1000, { status: 'completed', completedAt: 2000 }))
+    await store.save(record(SESSION, 3000))
+    await mkdir(join(root, 'c0ffee00-0000-4000-8000-000000000000'))
+    await writeFile(join(root, 'c0ffee00-0000-4000-8000-000000000000', 'session.json'), '{"id":')
+    await mkdir(join(root, 'not-a-session'))
+
+    const sessions = await new SessionStore(root).list()
+
+    expect(sessions.map((s) => [s.id, s.status])).toEqual([
+      [SESSION, 'paused'],
+      [OLDER_SESSION, 'completed']
+    ])
+  })
+
+  it('forgets a removed session', async () => {
+    const store = new SessionStore(root)
+    await store.save(record(SESSION, 1000))
+    store.appendFiles(SESSION, [file(1)])
+
+    await store.remove(SESSION)
+
+    expect(await store.load(SESSION)).toBeNull()
+    expect(await store.readFiles(SESSION, 0)).toEqual({ files: [], next: null })
+  })
+})
@@ -0,0 +1,363 @@
+/**
+ * SessionStore - Scan sessions saved to disk.
+ *
+ * Each session gets a directory of its own under the store's root:
+ *
+ *   <id>/session.json   config, status, progress and carving checkpoint
+ *   <id>/files.ndjson   found files, one JSON object per line
+ *   <id>/bad-sectors    byte offsets of unreadable sectors, one per line
+ *
+ * Found files and bad sectors are appended as they arrive, so a session
+ * keeps every result however many the scan manager holds in memory, and
+ * session.json is replaced atomically at each checkpoint. Writes for a
+ * session are queued in order: a checkpoint is only saved once every file
+ * found before it is on disk, so resuming from it loses nothing.
+ *
+ * Only paths and offsets are saved. A virtual source (an unlocked LUKS
+ * volume, an assembled array) has to be opened again before a session on
+ * it is resumed, so no key material reaches the disk.
+ */
+
+import * as fs from 'node:fs/promises'
+import * as path from 'path'
+import type {
+  FileMetadata,
+  RecoverableFile,
+  ScanConfig,
+  ScanProgress,
+  ScanStatus
+} from '../../shared/types'
+
+/**
+ * Part of the scan range carved by one worker, and how far it got.
+ * Ranges are saved with the session so an unfinished scan can carry on
+ * from where each worker stopped.
+ */
+export interface CarvingRange {
+  start: bigint
+  /** null: to the end of the source. */
+  end: bigint | null
+  /** Offset up to which the range is carved and its files saved. */
+  next: bigint
+  done: boolean
+}
+
+/** A scan session as saved in session.json. */
+export interface SessionRecord {
+  id: string
+  config: ScanConfig
+  status: ScanStatus
+  progress: ScanProgress
+  startedAt: number
+  completedAt?: number
+  error?: string
+  filesFound: number
+  ranges: CarvingRange[]
+}
+
+/** A page of found files read back from a session. */
+export interface SessionFilesPage {
+  files: RecoverableFile[]
+  /** Position to read the next page from; null at the end. */
+  next: number | null
+}
+
+/** Session IDs are UUIDs; anything else never names a session directory. */
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** How long found files are buffered before being appended. */
+const FILE_FLUSH_INTERVAL_MS = 1000
+
+/** Bytes of the file index read per page. */
+const FILE_PAGE_BYTES = 4 * 1024 * 1024
+
+export class SessionStore {
+  /** Pending writes per session, chained so they land in order. */
+  private queues = new Map<string, Promise<void>>()
+  /** Found files waiting to be appended, as JSON lines. */
+  private pendingFiles = new Map<string, string[]>()
+  private flushTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+  constructor(private readonly root: string) {}
+
+  /**
+   * Save a session's record. Files passed to {@link appendFiles} before
+   * the call are written first.
+   */
+  save(record: SessionRecord): Promise<void> {
+    const json = stringify(record)
+    const dir = this.sessionDir(record.id)
+    this.flushFiles(record.id)
+    return this.enqueue(record.id, async () => {
+      await fs.mkdir(dir, { recursive: true })
+      const target = path.join(dir, 'session.json')
+      await fs.writeFile(`${target}.tmp`, json, 'utf8')
+      await fs.rename(`${target}.tmp`, target)
+    })
+  }
+
+  /** Queue found files to be appended to the session's file index. */
+  appendFiles(sessionId: string, files: RecoverableFile[]): void {
+    if (files.length === 0) return
+    let lines = this.pendingFiles.get(sessionId)
+    if (!lines) {
+      lines = []
+      this.pendingFiles.set(sessionId, lines)
+    }
+    for (const file of files) lines.push(stringify(file))
+
+    if (!this.flushTimers.has(sessionId)) {
+      this.flushTimers.set(sessionId, setTimeout(() => this.flushFiles(sessionId), FILE_FLUSH_INTERVAL_MS))
+    }
+  }
+
+  /** Append the offsets of unreadable sectors to the session's list. */
+  appendBadSectors(sessionId: string, offsets: bigint[]): void {
+    if (offsets.length === 0) return
+    const text = offsets.map((offset) => `${offset}\n`).join('')
+    const target = path.join(this.sessionDir(sessionId), 'bad-sectors')
+    this.enqueue(sessionId, () => fs.appendFile(target, text, 'utf8'))
+  }
+
+  /** Load a session's record, or null if there is no such session. */
+  async load(sessionId: string): Promise<SessionRecord | null> {
+    let text: string
+    try {
+      text = await fs.readFile(path.join(this.sessionDir(sessionId), 'session.json'), 'utf8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw err
+    }
+    return decodeRecord(JSON.parse(text))
+  }
+
+  /** All saved sessions, most recent first. Unreadable ones are skipped. */
+  async list(): Promise<SessionRecord[]> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(this.root)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw err
+    }
+
+    const records: SessionRecord[] = []
+    for (const entry of entries) {
+      if (!SESSION_ID_PATTERN.test(entry)) continue
+      try {
+        const record = await this.load(entry)
+        if (record) records.push(record)
+      } catch (err) {
+        console.warn(`[sessions] Skipping unreadable session ${entry}:`, err instanceof Error ? err.message : err)
+      }
+    }
+    return records.sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  /**
+   * Read a page of the session's found files, starting at `position` (0
+   * for the first page). Pending writes are waited for first.
+   */
+  async readFiles(sessionId: string, position: number): Promise<SessionFilesPage> {
+    await this.settle(sessionId)
+
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(path.join(this.sessionDir(sessionId), 'files.ndjson'), 'r')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { files: [], next: null }
+      throw err
+    }
+
+    try {
+      let buffer = Buffer.alloc(FILE_PAGE_BYTES)
+      let { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+      let end = buffer.subarray(0, bytesRead).lastIndexOf(0x0a)
+      // A line longer than the page: keep reading until it ends
+      while (end < 0 && bytesRead === buffer.length) {
+        const more = Buffer.alloc(buffer.length * 2)
+        buffer.copy(more)
+        const result = await handle.read(more, bytesRead, more.length - bytesRead, position + bytesRead)
+        bytesRead += result.bytesRead
+        buffer = more
+        end = buffer.subarray(0, bytesRead).lastIndexOf(0x0a)
+      }
+      // Nothing but a partial last line, left by a crash mid-append
+      if (end < 0) return { files: [], next: null }
+
+      const files: RecoverableFile[] = []
+      for (const line of buffer.toString('utf8', 0, end).split('\n')) {
+        if (!line) continue
+        try {
+          files.push(decodeFile(JSON.parse(line)))
+        } catch {
+          console.warn(`[sessions] Skipping a corrupt entry in the file index of ${sessionId}`)
+        }
+      }
+      const next = position + end + 1
+      return { files, next: bytesRead === end + 1 && bytesRead < buffer.length ? null : next }
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /**
+   * Drop a partial last line from the file index, left by a crash
+   * mid-append, so appends made when the scan is resumed start on a line
+   * of their own.
+   */
+  async trimFiles(sessionId: string): Promise<void> {
+    await this.settle(sessionId)
+    const target = path.join(this.sessionDir(sessionId), 'files.ndjson')
+
+    let handle: fs.FileHandle
+    try {
+      handle = await fs.open(target, 'r+')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return
+      throw err
+    }
+
+    try {
+      const { size } = await handle.stat()
+      const tail = Buffer.alloc(Math.min(size, FILE_PAGE_BYTES))
+      let end = size
+      while (end > 0) {
+        const start = Math.max(0, end - tail.length)
+        await handle.read(tail, 0, end - start, start)
+        const newline = tail.subarray(0, end - start).lastIndexOf(0x0a)
+        if (newline >= 0) {
+          end = start + newline + 1
+          break
+        }
+        end = start
+      }
+      if (end < size) await handle.truncate(end)
+    } finally {
+      await handle.close()
+    }
+  }
+
+  /** Delete a session and everything saved with it. */
+  async remove(sessionId: string): Promise<void> {
+    const dir = this.sessionDir(sessionId)
+    const timer = this.flushTimers.get(sessionId)
+    if (timer) clearTimeout(timer)
+    this.flushTimers.delete(sessionId)
+    this.pendingFiles.delete(sessionId)
+    await this.settle(sessionId)
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+
+  // ─── Private ──────────────────────────────────────────────────
+
+  private sessionDir(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid scan session ID: ${sessionId}`)
+    }
+    return path.join(this.root, sessionId)
+  }
+
+  /** Write out the session's buffered files. */
+  private flushFiles(sessionId: string): void {
+    const timer = this.flushTimers.get(sessionId)
+    if (timer) clearTimeout(timer)
+    this.flushTimers.delete(sessionId)
+
+    const lines = this.pendingFiles.get(sessionId)
+    if (!lines || lines.length === 0) return
+    this.pendingFiles.delete(sessionId)
+
+    const text = lines.join('\n') + '\n'
+    const target = path.join(this.sessionDir(sessionId), 'files.ndjson')
+    this.enqueue(sessionId, () => fs.appendFile(target, text, 'utf8'))
+  }
+
+  /** Flush buffered files and wait for every queued write of a session. */
+  private async settle(sessionId: string): Promise<void> {
+    this.flushFiles(sessionId)
+    await this.queues.get(sessionId)
+  }
+
+  private enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const queued = (this.queues.get(sessionId) ?? Promise.resolve())
+      .then(task)
+      .catch((err) => {
+        console.error(`[sessions] Cannot save session ${sessionId}:`, err instanceof Error ? err.message : err)
+      })
+    this.queues.set(sessionId, queued)
+    queued.then(() => {
+      if (this.queues.get(sessionId) === queued) this.queues.delete(sessionId)
+    })
+    return queued
+  }
+}
+
+// ─── Encoding ─────────────────────────────────────────────────
+
+/** JSON with bigints written as decimal strings. */
+function stringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v))
+}
+
+function optionalBigInt(value: unknown): bigint | undefined {
+  return value == null ? undefined : BigInt(value as string)
+}
+
+function optionalDate(value: unknown): Date | undefined {
+  return value == null ? undefined : new Date(value as string)
+}
+
+function decodeRecord(raw: Record<string, unknown>): SessionRecord {
+  const config = raw.config as Record<string, unknown>
+  const progress = raw.progress as Record<string, unknown>
+  const ranges = raw.ranges as Record<string, unknown>[]
+
+  return {
+    ...(raw as unknown as SessionRecord),
+    config: {
+      ...(config as unknown as ScanConfig),
+      deviceSize: optionalBigInt(config.deviceSize),
+      startOffset: optionalBigInt(config.startOffset),
+      endOffset: optionalBigInt(config.endOffset)
+    },
+    progress: {
+      ...(progress as unknown as ScanProgress),
+      bytesScanned: BigInt(progress.bytesScanned as string),
+      totalBytes: BigInt(progress.totalBytes as string),
+      currentSector: BigInt(progress.currentSector as string)
+    },
+    ranges: ranges.map((range) => ({
+      start: BigInt(range.start as string),
+      end: range.end == null ? null : BigInt(range.end as string),
+      next: BigInt(range.next as string),
+      done: range.done === true
+    }))
+  }
+}
+
+function decodeFile(raw: Record<string, unknown>): RecoverableFile {
+  const file = raw as unknown as RecoverableFile
+  const metadata = raw.metadata as Record<string, unknown> | undefined
+  const fragments = raw.fragments as Record<string, unknown>[] | undefined
+
+  return {
+    ...file,
+    offset: BigInt(raw.offset as string),
+    size: BigInt(raw.size as string),
+    fragments: fragments?.map((fragment) => ({
+      ...fragment,
+      offset: BigInt(fragment.offset as string),
+      size: BigInt(fragment.size as string)
+    })),
+    metadata: metadata && {
+      ...(metadata as FileMetadata),
+      createdAt: optionalDate(metadata.createdAt),
+      modifiedAt: optionalDate(metadata.modifiedAt),
+      history: file.metadata?.history?.map((event) => ({
+        ...event,
+        timestamp: optionalDate(event.timestamp)
+      }))
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Imaging worker thread - Copies a device to an image file, ddrescue-style.
+ *
+ * Runs a {@link DeviceImager} against the device and keeps its rescue map
+ * next to the image. If the map already exists the job resumes from it,
+ * so areas that were already rescued (or already known to be bad) are not
+ * read again.
+ *
+ * Communication protocol (parentPort):
+ *   Worker -> Main: { type: 'progress', jobId, data: ImagingProgress }
+ *   Worker -> Main: { type: 'complete', jobId, data: { cancelled: boolean } }
+ *   Worker -> Main: { type: 'error', jobId, data: { error: string } }
+ *   Main -> Worker: { type: 'pause' | 'resume' | 'cancel' }
+ *
+ * workerData shape:
+ *   {
+ *     jobId: string,
+ *     devicePath: string,
+ *     deviceSize: string,   // bigint as string (0 = use reported size)
+ *     imagePath: string,
+ *     mapfilePath: string
+ *   }
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import * as fs from 'node:fs/promises'
+import type { FileHandle } from 'node:fs/promises'
+import { BlockReader } from '../../core/io/block-reader'
+import { DeviceImager } from '../../core/imaging/device-imager'
+import { RescueMap, readMapfile } from '../../core/imaging/mapfile'
+import type { ImagingProgress } from '../../shared/types'
+
+if (!parentPort) {
+  throw new Error('imaging.worker.ts must be run as a worker thread')
+}
+
+const port = parentPort
+
+// ─── Worker configuration from workerData ───────────────────────
+
+interface ImagingWorkerData {
+  jobId: string
+  devicePath: string
+  deviceSize: string
+  imagePath: string
+  mapfilePath: string
+}
+
+const config = workerData as ImagingWorkerData
+const jobId = config.jobId
+
+let imager: DeviceImager | null = null
+
+port.on('message', (msg: { type: string }) => {
+  switch (msg.type) {
+    case 'pause':
+      imager?.pause()
+      break
+    case 'resume':
+      imager?.resume()
+      break
+    case 'cancel':
+      imager?.cancel()
+      break
+  }
+})
+
+// ─── Helpers ────────────────────────────────────────────────────
+
+/**
+ * Open the destination for in-place writes, creating it if needed. The
+ * file is extended to the full device size up front so unread areas are
+ * holes rather than a short file.
+ */
+async function openOutput(imagePath: string, size: bigint): Promise<FileHandle> {
+  let handle: FileHandle
+  try {
+    handle = await fs.open(imagePath, 'r+')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    handle = await fs.open(imagePath, 'w+')
+  }
+
+  const stat = await handle.stat()
+  if (BigInt(stat.size) < size) {
+    await handle.truncate(Number(size))
+  }
+  return handle
+}
+
+// ─── Main imaging loop ──────────────────────────────────────────
+
+async function runImaging(): Promise<void> {
+  const reader = new BlockReader()
+  await reader.open(config.devicePath)
+
+  let output: FileHandle | null = null
+  let cancelled = false
+  try {
+    const requestedSize = BigInt(config.deviceSize || '0')
+    const size = requestedSize > 0n ? requestedSize : reader.size
+    if (size <= 0n) {
+      throw new Error(`Cannot determine the size of ${config.devicePath}`)
+    }
+
+    const existing = await readMapfile(config.mapfilePath, size)
+    const map = existing ?? new RescueMap(size)
+
+    output = await openOutput(config.imagePath, size)
+
+    imager = new DeviceImager(reader, output, map, {
+      mapfilePath: config.mapfilePath,
+      resumed: existing !== null
+    })
+
+    imager.on('progress', (progress: ImagingProgress) => {
+      port.postMessage({ type: 'progress', jobId, data: progress })
+    })
+    imager.on('complete', (result: { cancelled: boolean }) => {
+      cancelled = result.cancelled
+    })
+
+    await imager.run()
+    await output.sync()
+  } finally {
+    await output?.close()
+    await reader.close()
+  }
+
+  // Only report completion once the image is flushed and closed, so the
+  // main thread can hand it straight to a scan.
+  port.postMessage({ type: 'complete', jobId, data: { cancelled } })
+}
+
+// ─── Entry point ────────────────────────────────────────────────
+
+runImaging().catch((err) => {
+  port.postMessage({
+    type: 'error',
+    jobId,
+    data: { error: err instanceof Error ? err.message : String(err) }
+  })
+})
@@ -3,11 +3,13 @@
  *
  * This worker attempts to read and parse filesystem structures (superblocks,
  * directory entries, inode tables, FAT, MFT) to find files that may still be
- * referenced in the filesystem metadata even after deletion.
+ * referenced in the filesystem metadata even after deletion. Detection and
+ * parsing are delegated to core/filesystem; see `getParser()` for the
+ * supported filesystems.
  *
  * Communication protocol (parentPort):
  *   Worker -> Main: { type: 'progress', sessionId, data: ScanProgress }
- *   Worker -> Main: { type: 'file-found', sessionId, data: RecoverableFile }
+ *   Worker -> Main: { type: 'files-batch', sessionId, data: RecoverableFile[] }
  *   Worker -> Main: { type: 'complete', sessionId }
  *   Worker -> Main: { type: 'error', sessionId, data: { error: string } }
  *   Main -> Worker: { type: 'pause' | 'resume' | 'cancel' }
@@ -15,16 +17,17 @@
  * workerData shape:
  *   {
  *     sessionId: string,
- *     devicePath: string,
+ *     devicePath: string,     // device, partition or disk image
  *     fileCategories: FileCategory[],
- *     filesystemType?: FilesystemType
+ *     fileTypes?: FileType[], // overrides fileCategories when non-empty
+ *     startOffset?: string,   // bigint as string; scan only this window
+ *     endOffset?: string,     // bigint as string (0 = to end of device)
+ *     filesystemType?: FilesystemType,
+ *     virtualSources?: VirtualSources  // when devicePath is a virtual source
  *   }
  */
 
 import { parentPort, workerData } from 'worker_threads'
-import * as fs from 'fs'
-import { promisify } from 'util'
-import { v4 as uuidv4 } from 'uuid'
 import { SECTOR_SIZE } from '../../shared/constants/file-signatures'
 import type {
   FileCategory,
@@ -33,10 +36,16 @@ import type {
   RecoverableFile,
   ScanProgress
 } from '../../shared/types'
-
-const fsOpen = promisify(fs.open)
-const fsRead = promisify(fs.read)
-const fsClose = promisify(fs.close)
+import {
+  openSourceReader,
+  registerVirtualSources,
+  SliceReader
+} from '../../core/io/images'
+import type { SourceReader, VirtualSources } from '../../core/io/images'
+import { BlockReader } from '../../core/io/block-reader'
+import { readPartitionTable } from '../../core/partition'
+import { detectFilesystem } from '../../core/filesystem/fs-detector'
+import { getParser, getSupportedFilesystems } from '../../core/filesystem/parsers'
 
 if (!parentPort) {
   throw new Error('metadata.worker.ts must be run as a worker thread')
@@ -52,13 +61,20 @@ interface MetadataWorkerData {
   fileCategories: FileCategory[]
   fileTypes?: FileType[]
   deviceSize: string
+  startOffset?: string
+  endOffset?: string
   filesystemType?: FilesystemType
   scanPartitions?: boolean
+  virtualSources?: VirtualSources
 }
 
 const config = workerData as MetadataWorkerData
 const sessionId = config.sessionId
 
+if (config.virtualSources) {
+  registerVirtualSources(config.virtualSources)
+}
+
 // ─── Control state ──────────────────────────────────────────────
 
 let paused = false
@@ -95,472 +111,179 @@ function waitIfPaused(): Promise<void> {
   })
 }
 
-// ─── Filesystem detection ───────────────────────────────────────
-
-/** Well-known magic bytes for filesystem detection. */
-const FS_SIGNATURES: Array<{
-  type: FilesystemType
-  offset: number
-  magic: Buffer
-}> = [
-  // FAT32: "FAT32   " at offset 82 in the BPB
-  { type: 'fat32', offset: 82, magic: Buffer.from('FAT32   ') },
-  // exFAT: "EXFAT   " at offset 3
-  { type: 'exfat', offset: 3, magic: Buffer.from('EXFAT   ') },
-  // NTFS: "NTFS    " at offset 3
-  { type: 'ntfs', offset: 3, magic: Buffer.from('NTFS    ') },
-  // ext4: magic number 0xEF53 at offset 1080 (superblock at 1024 + 56)
-  { type: 'ext4', offset: 1080, magic: Buffer.from([0x53, 0xef]) },
-  // HFS+: magic 'H+' at offset 1024
-  { type: 'hfs+', offset: 1024, magic: Buffer.from('H+') },
-  // APFS: magic 'NXSB' at offset 32
-  { type: 'apfs', offset: 32, magic: Buffer.from('NXSB') }
-]
+// ─── Progress ───────────────────────────────────────────────────
 
-/**
- * Detect the filesystem type by reading signature bytes from the device.
- */
-async function detectFilesystem(fd: number): Promise<FilesystemType> {
-  // We need to read enough bytes to cover all possible signature offsets.
-  const maxOffset = Math.max(...FS_SIGNATURES.map((s) => s.offset + s.magic.length))
-  const buffer = Buffer.alloc(maxOffset + 64)
+/** Minimum interval between progress messages, in milliseconds. */
+const PROGRESS_INTERVAL_MS = 250
 
-  try {
-    await fsRead(fd, buffer, 0, buffer.length, 0)
-  } catch {
-    return 'unknown'
-  }
+/** Running totals across every window of the scan. */
+interface ScanTotals {
+  /** Combined length of all windows; the progress denominator. */
+  totalBytes: bigint
+  /** Length of the windows already finished. */
+  doneBytes: bigint
+  filesFound: number
+}
 
-  for (const sig of FS_SIGNATURES) {
-    const slice = buffer.subarray(sig.offset, sig.offset + sig.magic.length)
-    if (slice.equals(sig.magic)) {
-      return sig.type
-    }
+function postProgress(totals: ScanTotals, scanned: bigint, position: bigint): void {
+  // Files counted in the progress are posted ahead of it
+  flushFiles()
+  const bytesScanned = totals.totalBytes > 0n && scanned > totals.totalBytes
+    ? totals.totalBytes
+    : scanned
+  const progress: ScanProgress = {
+    bytesScanned,
+    totalBytes: totals.totalBytes,
+    percentage: totals.totalBytes > 0n
+      ? Number((bytesScanned * 100n) / totals.totalBytes)
+      : 0,
+    filesFound: totals.filesFound,
+    currentSector: position / BigInt(SECTOR_SIZE),
+    sectorsWithErrors: 0
   }
-
-  return 'unknown'
+  port.postMessage({ type: 'progress', sessionId, data: progress })
 }
 
-// ─── File extension to type mapping ─────────────────────────────
-
-const EXTENSION_TO_TYPE: Record<string, { type: FileType; category: FileCategory }> = {
-  jpg: { type: 'jpeg', category: 'photo' },
-  jpeg: { type: 'jpeg', category: 'photo' },
-  png: { type: 'png', category: 'photo' },
-  heic: { type: 'heic', category: 'photo' },
-  cr2: { type: 'cr2', category: 'photo' },
-  nef: { type: 'nef', category: 'photo' },
-  arw: { type: 'arw', category: 'photo' },
-  mp4: { type: 'mp4', category: 'video' },
-  mov: { type: 'mov', category: 'video' },
-  avi: { type: 'avi', category: 'video' },
-  pdf: { type: 'pdf', category: 'document' },
-  docx: { type: 'docx', category: 'document' },
-  xlsx: { type: 'xlsx', category: 'document' },
-  rtf: { type: 'rtf', category: 'document' },
-  pptx: { type: 'pptx', category: 'document' },
-  gif: { type: 'gif', category: 'photo' },
-  webp: { type: 'webp', category: 'photo' },
-  psd: { type: 'psd', category: 'photo' },
-  mkv: { type: 'mkv', category: 'video' },
-  webm: { type: 'mkv', category: 'video' },
-  flv: { type: 'flv', category: 'video' },
-  wmv: { type: 'wmv', category: 'video' },
-  mp3: { type: 'mp3', category: 'audio' },
-  wav: { type: 'wav', category: 'audio' },
-  flac: { type: 'flac', category: 'audio' },
-  ogg: { type: 'ogg', category: 'audio' },
-  m4a: { type: 'm4a', category: 'audio' },
-  zip: { type: 'zip', category: 'archive' },
-  rar: { type: 'rar', category: 'archive' },
-  '7z': { type: '7z', category: 'archive' },
-  gz: { type: 'gz', category: 'archive' },
-  bz2: { type: 'bz2', category: 'archive' },
-  xz: { type: 'xz', category: 'archive' },
-  tar: { type: 'tar', category: 'archive' },
-  sqlite: { type: 'sqlite', category: 'database' },
-  db: { type: 'sqlite', category: 'database' },
-  dat: { type: 'bdb', category: 'database' }
-}
+// ─── Found files ────────────────────────────────────────────────
 
-// ─── FAT32 metadata parser ──────────────────────────────────────
+/** Most files posted in one message. */
+const FILE_BATCH_SIZE = 256
 
 /**
- * Parse FAT32 directory entries to find deleted files.
- *
- * In FAT32, a deleted file's directory entry has its first byte set to 0xE5.
- * The rest of the entry (name, extension, size, start cluster) remains intact.
+ * Found files not yet posted. They go out in 'files-batch' messages once a
+ * batch fills up or progress is posted, so a volume with many deleted
+ * entries costs few messages and results still show while it is parsed.
  */
-async function parseFat32(
-  fd: number,
-  categories: Set<FileCategory>,
-  fileTypes?: Set<FileType>
-): Promise<RecoverableFile[]> {
-  const files: RecoverableFile[] = []
-
-  // Read the boot sector to get filesystem geometry.
-  const bootSector = Buffer.alloc(512)
-  await fsRead(fd, bootSector, 0, 512, 0)
-
-  const bytesPerSector = bootSector.readUInt16LE(11)
-  const sectorsPerCluster = bootSector[13]
-  const reservedSectors = bootSector.readUInt16LE(14)
-  const numberOfFats = bootSector[16]
-  const fatSize32 = bootSector.readUInt32LE(36)
-  const rootCluster = bootSector.readUInt32LE(44)
-
-  if (bytesPerSector === 0 || sectorsPerCluster === 0) {
-    return files
-  }
-
-  const bytesPerCluster = bytesPerSector * sectorsPerCluster
-  const fatStart = reservedSectors * bytesPerSector
-  const dataStart =
-    (reservedSectors + numberOfFats * fatSize32) * bytesPerSector
-
-  /**
-   * Convert a cluster number to a byte offset.
-   */
-  function clusterToOffset(cluster: number): bigint {
-    return BigInt(dataStart) + BigInt(cluster - 2) * BigInt(bytesPerCluster)
-  }
-
-  /**
-   * Scan a directory cluster for deleted entries.
-   */
-  async function scanDirectoryCluster(clusterOffset: bigint): Promise<void> {
-    const dirBuffer = Buffer.alloc(bytesPerCluster)
-    try {
-      await fsRead(fd, dirBuffer, 0, bytesPerCluster, Number(clusterOffset))
-    } catch {
-      return
-    }
+let pendingFiles: RecoverableFile[] = []
 
-    // Each directory entry is 32 bytes.
-    for (let i = 0; i < bytesPerCluster; i += 32) {
-      if (cancelled) return
-      await waitIfPaused()
-      if (cancelled) return
-
-      const firstByte = dirBuffer[i]
-
-      // 0x00 = no more entries.
-      if (firstByte === 0x00) break
-
-      // 0xE5 = deleted entry.
-      if (firstByte !== 0xe5) continue
-
-      // Read the 8.3 filename (skip LFN entries where byte 11 == 0x0F).
-      const attributes = dirBuffer[i + 11]
-      if (attributes === 0x0f) continue // Long filename entry
-      if (attributes & 0x10) continue // Directory
-      if (attributes & 0x08) continue // Volume label
-
-      // Extract name and extension.
-      const nameBytes = dirBuffer.subarray(i + 1, i + 8)
-      const extBytes = dirBuffer.subarray(i + 8, i + 11)
-      const name = nameBytes.toString('ascii').trimEnd()
-      const ext = extBytes.toString('ascii').trimEnd().toLowerCase()
-
-      const mapping = EXTENSION_TO_TYPE[ext]
-      if (!mapping) continue
-      if (fileTypes) {
-        if (!fileTypes.has(mapping.type)) continue
-      } else {
-        if (!categories.has(mapping.category)) continue
-      }
-
-      // File size.
-      const fileSize = dirBuffer.readUInt32LE(i + 28)
-      if (fileSize === 0) continue
-
-      // Start cluster (high 16 bits at offset 20, low 16 bits at offset 26).
-      const startClusterHigh = dirBuffer.readUInt16LE(i + 20)
-      const startClusterLow = dirBuffer.readUInt16LE(i + 26)
-      const startCluster = (startClusterHigh << 16) | startClusterLow
-
-      if (startCluster < 2) continue
-
-      const fileOffset = clusterToOffset(startCluster)
-
-      files.push({
-        id: uuidv4(),
-        type: mapping.type,
-        category: mapping.category,
-        offset: fileOffset,
-        size: BigInt(fileSize),
-        sizeEstimated: false,
-        name: `_${name}.${ext}`, // Leading underscore replaces the 0xE5 marker
-        extension: ext,
-        recoverability: 'partial', // Deleted files may be partially overwritten
-        source: 'metadata'
-      })
-    }
-  }
-
-  // Read the FAT to follow cluster chains for the root directory.
-  const fatBuffer = Buffer.alloc(fatSize32 * bytesPerSector)
-  try {
-    await fsRead(fd, fatBuffer, 0, fatBuffer.length, fatStart)
-  } catch {
-    // If we cannot read the FAT, just scan the root directory cluster.
-    await scanDirectoryCluster(clusterToOffset(rootCluster))
-    return files
-  }
-
-  // Walk the root directory cluster chain.
-  let cluster = rootCluster
-  const visited = new Set<number>()
-
-  while (cluster >= 2 && cluster < 0x0ffffff8 && !visited.has(cluster)) {
-    if (cancelled) break
-    visited.add(cluster)
+function queueFile(file: RecoverableFile, totals: ScanTotals): void {
+  pendingFiles.push(file)
+  totals.filesFound++
+  if (pendingFiles.length >= FILE_BATCH_SIZE) flushFiles()
+}
 
-    const offset = clusterToOffset(cluster)
-    await scanDirectoryCluster(offset)
+function flushFiles(): void {
+  if (pendingFiles.length === 0) return
+  port.postMessage({ type: 'files-batch', sessionId, data: pendingFiles })
+  pendingFiles = []
+}
 
-    // Read next cluster from FAT.
-    const fatEntryOffset = cluster * 4
-    if (fatEntryOffset + 4 > fatBuffer.length) break
-    cluster = fatBuffer.readUInt32LE(fatEntryOffset) & 0x0fffffff
+/** Thrown from a read once the scan is cancelled, to unwind the parser. */
+class ScanCancelledError extends Error {
+  constructor() {
+    super('Scan cancelled')
+    this.name = 'ScanCancelledError'
   }
-
-  return files
 }
 
-// ─── NTFS metadata parser ───────────────────────────────────────
-
 /**
- * Parse NTFS MFT (Master File Table) for deleted file records.
- *
- * In NTFS, each file has an MFT record. Deleted files have their
- * in-use flag (bit 0 of the flags field) cleared but the record
- * otherwise remains intact until overwritten.
+ * Reader handed to the filesystem parsers. Each read waits while the scan
+ * is paused and throws once it is cancelled, so the parsers honour the
+ * control messages without knowing about them. Metadata is read mostly
+ * front to back, so the furthest offset read stands in for progress.
  */
-async function parseNtfs(
-  fd: number,
-  categories: Set<FileCategory>,
-  fileTypes?: Set<FileType>
-): Promise<RecoverableFile[]> {
-  const files: RecoverableFile[] = []
-
-  // Read the boot sector.
-  const bootSector = Buffer.alloc(512)
-  await fsRead(fd, bootSector, 0, 512, 0)
-
-  const bytesPerSector = bootSector.readUInt16LE(11)
-  const sectorsPerCluster = bootSector[13]
-
-  // MFT record size: if byte at offset 64 > 0, it is the log2 of the record size.
-  const mftRecordSizeRaw = bootSector.readInt8(64)
-  const mftRecordSize =
-    mftRecordSizeRaw > 0
-      ? mftRecordSizeRaw * bytesPerSector * sectorsPerCluster
-      : 1 << -mftRecordSizeRaw
-
-  // MFT start cluster.
-  const mftClusterNumber = Number(bootSector.readBigUInt64LE(48))
-  const bytesPerCluster = bytesPerSector * sectorsPerCluster
-  const mftOffset = BigInt(mftClusterNumber) * BigInt(bytesPerCluster)
-
-  // Scan the first 4096 MFT records (covers most small-to-medium volumes).
-  const maxRecords = 4096
-  const recordBuffer = Buffer.alloc(mftRecordSize)
-
-  for (let i = 0; i < maxRecords; i++) {
-    if (cancelled) break
-    await waitIfPaused()
-    if (cancelled) break
-
-    const recordOffset = mftOffset + BigInt(i) * BigInt(mftRecordSize)
+class ControlledReader implements SourceReader {
+  readonly path: string
+  readonly size: bigint
+  private inner: SourceReader
+  private base: bigint
+  private totals: ScanTotals
+  private furthest = 0n
+  private lastProgressAt = 0
 
-    try {
-      await fsRead(fd, recordBuffer, 0, mftRecordSize, Number(recordOffset))
-    } catch {
-      continue
-    }
-
-    // Check MFT record magic "FILE".
-    if (recordBuffer.toString('ascii', 0, 4) !== 'FILE') continue
-
-    // Flags at offset 22: bit 0 = in-use, bit 1 = directory.
-    const flags = recordBuffer.readUInt16LE(22)
-    const inUse = (flags & 0x01) !== 0
-    const isDirectory = (flags & 0x02) !== 0
-
-    // We want deleted files (not in use, not directories).
-    if (inUse || isDirectory) continue
-
-    // Parse attributes to find $FILE_NAME and $DATA.
-    const firstAttributeOffset = recordBuffer.readUInt16LE(20)
-    let attrOffset = firstAttributeOffset
-    let fileName: string | undefined
-    let fileSize = 0n
-    let dataOffset = 0n
-
-    while (attrOffset + 4 < mftRecordSize) {
-      const attrType = recordBuffer.readUInt32LE(attrOffset)
-
-      // End marker.
-      if (attrType === 0xffffffff || attrType === 0) break
-
-      const attrLength = recordBuffer.readUInt32LE(attrOffset + 4)
-      if (attrLength === 0 || attrOffset + attrLength > mftRecordSize) break
-
-      // $FILE_NAME attribute (type 0x30).
-      if (attrType === 0x30) {
-        const nonResident = recordBuffer[attrOffset + 8]
-        if (nonResident === 0) {
-          // Resident attribute.
-          const contentOffset = recordBuffer.readUInt16LE(attrOffset + 20)
-          const nameStart = attrOffset + contentOffset + 66
-          const nameLength = recordBuffer[attrOffset + contentOffset + 64]
-          if (nameStart + nameLength * 2 <= mftRecordSize) {
-            fileName = recordBuffer
-              .subarray(nameStart, nameStart + nameLength * 2)
-              .toString('utf16le')
-          }
-        }
-      }
+  /**
+   * @param inner - Volume reader. Not closed by this reader.
+   * @param base - Absolute offset of the volume, for `currentSector`.
+   * @param totals - Shared totals the progress messages are computed from.
+   */
+  constructor(inner: SourceReader, base: bigint, totals: ScanTotals) {
+    this.inner = inner
+    this.path = inner.path
+    this.size = inner.size
+    this.base = base
+    this.totals = totals
+  }
 
-      // $DATA attribute (type 0x80).
-      if (attrType === 0x80) {
-        const nonResident = recordBuffer[attrOffset + 8]
-        if (nonResident === 1) {
-          // Non-resident: real size is at offset 48 within the attribute.
-          fileSize = recordBuffer.readBigUInt64LE(attrOffset + 48)
-          // Data run starts - first cluster can be extracted from data runs.
-          const dataRunOffset = recordBuffer.readUInt16LE(attrOffset + 32)
-          const runStart = attrOffset + dataRunOffset
-          if (runStart + 1 < mftRecordSize) {
-            const header = recordBuffer[runStart]
-            const lengthSize = header & 0x0f
-            const offsetSize = (header >> 4) & 0x0f
-            if (offsetSize > 0 && runStart + 1 + lengthSize + offsetSize <= mftRecordSize) {
-              let clusterOffset = 0n
-              for (let b = 0; b < offsetSize; b++) {
-                clusterOffset |= BigInt(recordBuffer[runStart + 1 + lengthSize + b]) << BigInt(b * 8)
-              }
-              // Sign-extend if necessary.
-              if (recordBuffer[runStart + 1 + lengthSize + offsetSize - 1] & 0x80) {
-                clusterOffset -= 1n << BigInt(offsetSize * 8)
-              }
-              dataOffset = clusterOffset * BigInt(bytesPerCluster)
-            }
-          }
-        } else {
-          // Resident data: size from content size field.
-          fileSize = BigInt(recordBuffer.readUInt32LE(attrOffset + 16))
-        }
-      }
+  async read(offset: bigint, length: number): Promise<Buffer> {
+    await waitIfPaused()
+    if (cancelled) throw new ScanCancelledError()
 
-      attrOffset += attrLength
+    const end = offset + BigInt(length)
+    if (end > this.furthest) {
+      this.furthest = this.size > 0n && end > this.size ? this.size : end
     }
 
-    if (!fileName || fileSize === 0n) continue
-
-    // Determine file type from extension.
-    const extMatch = fileName.match(/\.([^.]+)$/)
-    if (!extMatch) continue
-    const ext = extMatch[1].toLowerCase()
-    const mapping = EXTENSION_TO_TYPE[ext]
-    if (!mapping) continue
-    if (fileTypes) {
-      if (!fileTypes.has(mapping.type)) continue
-    } else {
-      if (!categories.has(mapping.category)) continue
+    const now = Date.now()
+    if (now - this.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      this.lastProgressAt = now
+      postProgress(this.totals, this.totals.doneBytes + this.furthest, this.base + offset)
     }
 
-    files.push({
-      id: uuidv4(),
-      type: mapping.type,
-      category: mapping.category,
-      offset: dataOffset > 0n ? dataOffset : recordOffset,
-      size: fileSize,
-      sizeEstimated: dataOffset === 0n,
-      name: fileName,
-      extension: ext,
-      recoverability: dataOffset > 0n ? 'partial' : 'poor',
-      source: 'metadata'
-    })
-
-    // Emit progress every 256 records.
-    if (i > 0 && i % 256 === 0) {
-      const progress: ScanProgress = {
-        bytesScanned: BigInt(i) * BigInt(mftRecordSize),
-        totalBytes: BigInt(maxRecords) * BigInt(mftRecordSize),
-        percentage: Math.round((i / maxRecords) * 100),
-        filesFound: files.length,
-        currentSector: recordOffset / BigInt(SECTOR_SIZE),
-        sectorsWithErrors: 0
-      }
-      port.postMessage({ type: 'progress', sessionId, data: progress })
-    }
+    return this.inner.read(offset, length)
   }
 
-  return files
+  /** The caller owns the underlying source, so this is a no-op. */
+  async close(): Promise<void> {
+    // Nothing to release.
+  }
 }
 
-// ─── Generic metadata scan (fallback) ───────────────────────────
+// ─── Main entry point ───────────────────────────────────────────
 
-/**
- * For filesystems without a dedicated parser, report that metadata scanning
- * is not available and complete immediately.
- */
-async function parseGeneric(
-  _fd: number,
-  _categories: Set<FileCategory>
-): Promise<RecoverableFile[]> {
-  // No generic metadata recovery is possible without a filesystem parser.
-  return []
+/** A byte range of the source to treat as its own volume. */
+interface ScanWindow {
+  start: bigint
+  length: bigint
 }
 
-// ─── Main entry point ───────────────────────────────────────────
-
 /**
- * Discover partition device paths for a given block device.
- * E.g., /dev/nvme0n1 -> [/dev/nvme0n1p1, /dev/nvme0n1p2, ...]
- * E.g., /dev/sda -> [/dev/sda1, /dev/sda2, ...]
+ * Discover partitions by reading the MBR/GPT of the device or image.
+ * Returns one window per partition; partitions are scanned by offset, so
+ * no per-partition device node is needed.
  */
-async function discoverPartitions(devicePath: string): Promise<string[]> {
-  const partitions: string[] = []
-  const { readdirSync } = await import('fs')
-  const { basename } = await import('path')
-
-  const devName = basename(devicePath)
+async function discoverPartitions(devicePath: string): Promise<ScanWindow[]> {
+  const reader = new BlockReader()
   try {
-    const entries = readdirSync(`/sys/block/${devName}/`, { withFileTypes: true })
-    for (const entry of entries) {
-      if (entry.isDirectory() && entry.name.startsWith(devName)) {
-        partitions.push(`/dev/${entry.name}`)
-      }
+    await reader.open(devicePath, BigInt(config.deviceSize || '0'))
+    const table = await readPartitionTable(reader)
+    for (const warning of table?.warnings ?? []) {
+      console.warn(`[metadata] ${devicePath}: ${warning}`)
     }
+    return (table?.partitions ?? []).map((p) => ({ start: p.offset, length: p.size }))
   } catch {
-    // Not a block device or /sys not available. Try numbered suffixes.
-    for (let i = 1; i <= 16; i++) {
-      const suffix = devicePath.includes('nvme') || devicePath.includes('mmcblk')
-        ? `p${i}`
-        : `${i}`
-      const partPath = `${devicePath}${suffix}`
-      try {
-        const fsStat = await import('fs')
-        fsStat.accessSync(partPath, fsStat.constants.R_OK)
-        partitions.push(partPath)
-      } catch {
-        break
-      }
-    }
+    return []
+  } finally {
+    await reader.close()
   }
-  return partitions
 }
 
-/** Filesystems that have a quick scan parser implemented. */
-const SUPPORTED_QUICK_SCAN: Set<FilesystemType> = new Set(['fat32', 'ntfs'])
+/**
+ * Translate offsets found inside a window back to absolute source offsets.
+ */
+function shiftToAbsolute(file: RecoverableFile, base: bigint): RecoverableFile {
+  if (base === 0n) return file
+  return {
+    ...file,
+    offset: file.offset + base,
+    fragments: file.fragments?.map((f) => ({ ...f, offset: f.offset + base }))
+  }
+}
 
-async function scanDevice(devicePath: string, categories: Set<FileCategory>, fileTypes?: Set<FileType>): Promise<{ files: RecoverableFile[]; fsType: FilesystemType }> {
-  let fd: number
+/**
+ * Detect the filesystem of one volume, run its parser and post the files
+ * that match the selected types. Files a parser reports while it runs are
+ * posted as they are found; the rest once it returns.
+ */
+async function scanDevice(
+  devicePath: string,
+  categories: Set<FileCategory>,
+  fileTypes: Set<FileType> | undefined,
+  totals: ScanTotals,
+  window?: ScanWindow
+): Promise<FilesystemType> {
+  let source: SourceReader
   try {
-    fd = await fsOpen(devicePath, 'r')
+    source = await openSourceReader(devicePath, { sizeHint: BigInt(config.deviceSize || '0') })
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err)
     port.postMessage({
@@ -568,49 +291,59 @@ async function scanDevice(devicePath: string, categories: Set<FileCategory>, fil
       sessionId,
       data: { error: `Cannot open ${devicePath}: ${msg}` }
     })
-    return { files: [], fsType: 'unknown' }
-  }
-
-  let fsType = config.filesystemType
-  if (!fsType) {
-    fsType = await detectFilesystem(fd)
+    return 'unknown'
   }
 
-  console.log(`[metadata] ${devicePath}: detected filesystem ${fsType}`)
+  const reader = window ? new SliceReader(source, window.start, window.length) : source
+  const base = window?.start ?? 0n
+  const label = window ? `${devicePath}@${window.start}` : devicePath
+  if (totals.totalBytes === 0n) totals.totalBytes = reader.size
 
-  let files: RecoverableFile[] = []
+  try {
+    const fsType = config.filesystemType ?? await detectFilesystem(reader)
+    console.log(`[metadata] ${label}: detected filesystem ${fsType}`)
 
-  if (!SUPPORTED_QUICK_SCAN.has(fsType)) {
-    console.log(`[metadata] ${devicePath}: quick scan not supported for ${fsType}, skipping`)
-    await fsClose(fd)
-    return { files: [], fsType }
-  }
+    const parser = getParser(fsType)
+    if (!parser) {
+      console.log(`[metadata] ${label}: quick scan not supported for ${fsType}, skipping`)
+      return fsType
+    }
 
-  try {
-    switch (fsType) {
-      case 'fat32':
-        files = await parseFat32(fd, categories, fileTypes)
-        break
+    // Parsers report every deleted entry; keep the ones the user asked for.
+    const selected = (file: RecoverableFile): boolean =>
+      fileTypes ? fileTypes.has(file.type) : categories.has(file.category)
+    const reported = new Set<RecoverableFile>()
+    const onFile = (file: RecoverableFile): void => {
+      reported.add(file)
+      if (!cancelled && selected(file)) queueFile(shiftToAbsolute(file, base), totals)
+    }
 
-      case 'ntfs':
-        files = await parseNtfs(fd, categories, fileTypes)
-        break
+    let files: RecoverableFile[] = []
+    try {
+      files = await parser.parse(new ControlledReader(reader, base, totals), onFile)
+    } catch (err: unknown) {
+      if (err instanceof ScanCancelledError) return fsType
+      const message =
+        err instanceof Error ? err.message : 'Unknown metadata scan error'
+      port.postMessage({
+        type: 'error',
+        sessionId,
+        data: { error: `Metadata scan failed for ${fsType} on ${label}: ${message}` }
+      })
+    }
 
-      default:
-        break
+    for (const file of files) {
+      if (cancelled) break
+      if (!reported.has(file) && selected(file)) queueFile(shiftToAbsolute(file, base), totals)
     }
-  } catch (err: unknown) {
-    const message =
-      err instanceof Error ? err.message : 'Unknown metadata scan error'
-    port.postMessage({
-      type: 'error',
-      sessionId,
-      data: { error: `Metadata scan failed for ${fsType} on ${devicePath}: ${message}` }
-    })
-  }
 
-  await fsClose(fd)
-  return { files, fsType }
+    return fsType
+  } finally {
+    flushFiles()
+    totals.doneBytes += reader.size
+    if (!cancelled) postProgress(totals, totals.doneBytes, base + reader.size)
+    await source.close()
+  }
 }
 
 async function runMetadataScan(): Promise<void> {
@@ -618,50 +351,58 @@ async function runMetadataScan(): Promise<void> {
   const fileTypes = config.fileTypes && config.fileTypes.length > 0
     ? new Set(config.fileTypes)
     : undefined
-  let allFiles: RecoverableFile[] = []
   const detectedFilesystems: FilesystemType[] = []
-
-  if (config.scanPartitions) {
-    const partitions = await discoverPartitions(config.devicePath)
-    console.log(`[metadata] Scanning ${partitions.length} partitions on ${config.devicePath}:`, partitions)
-
-    for (const partPath of partitions) {
+  const totals: ScanTotals = { totalBytes: 0n, doneBytes: 0n, filesFound: 0 }
+
+  const startOffset = BigInt(config.startOffset || '0')
+  const endOffset = BigInt(config.endOffset || '0')
+
+  if (startOffset > 0n || endOffset > 0n) {
+    // Explicit offset window, e.g. a partition inside a disk image.
+    const windowEnd = endOffset > 0n ? endOffset : BigInt(config.deviceSize || '0')
+    const length = windowEnd - startOffset
+    totals.totalBytes = length
+    detectedFilesystems.push(
+      await scanDevice(config.devicePath, categories, fileTypes, totals, { start: startOffset, length })
+    )
+  } else if (config.scanPartitions) {
+    const windows = await discoverPartitions(config.devicePath)
+    console.log(`[metadata] Scanning ${windows.length} partitions on ${config.devicePath}`)
+    totals.totalBytes = windows.reduce((sum, w) => sum + w.length, 0n)
+
+    for (const window of windows) {
       if (cancelled) break
-      const { files, fsType } = await scanDevice(partPath, categories, fileTypes)
-      allFiles.push(...files)
-      detectedFilesystems.push(fsType)
+      detectedFilesystems.push(
+        await scanDevice(config.devicePath, categories, fileTypes, totals, window)
+      )
     }
 
-    if (partitions.length === 0) {
-      const { files, fsType } = await scanDevice(config.devicePath, categories, fileTypes)
-      allFiles.push(...files)
-      detectedFilesystems.push(fsType)
+    if (windows.length === 0) {
+      detectedFilesystems.push(
+        await scanDevice(config.devicePath, categories, fileTypes, totals)
+      )
     }
   } else {
-    const { files, fsType } = await scanDevice(config.devicePath, categories, fileTypes)
-    allFiles.push(...files)
-    detectedFilesystems.push(fsType)
+    detectedFilesystems.push(
+      await scanDevice(config.devicePath, categories, fileTypes, totals)
+    )
   }
 
   // If no files found and filesystems are unsupported, send informative error
-  if (allFiles.length === 0) {
-    const unsupported = detectedFilesystems.filter(fs => !SUPPORTED_QUICK_SCAN.has(fs) && fs !== 'unknown')
+  if (totals.filesFound === 0 && !cancelled) {
+    const unsupported = detectedFilesystems.filter(fs => !getParser(fs) && fs !== 'unknown')
     if (unsupported.length > 0) {
+      const supported = getSupportedFilesystems().map((fs) => fs.toUpperCase()).join(', ')
       port.postMessage({
         type: 'error',
         sessionId,
         data: {
-          error: `Quick scan found ${unsupported.join(', ').toUpperCase()} filesystem(s). Quick scan only supports FAT32 and NTFS. Use Deep Scan to recover files from ${unsupported.join('/')} partitions.`
+          error: `Quick scan found ${unsupported.join(', ').toUpperCase()} filesystem(s). Quick scan supports ${supported}. Use Deep Scan to recover files from ${unsupported.join('/')} partitions.`
         }
       })
     }
   }
 
-  for (const file of allFiles) {
-    if (cancelled) break
-    port.postMessage({ type: 'file-found', sessionId, data: file })
-  }
-
   port.postMessage({ type: 'complete', sessionId })
 }
 
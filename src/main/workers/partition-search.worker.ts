@@ -0,0 +1,103 @@
+/**
+ * Partition search worker thread - Looks for lost partitions on a device.
+ *
+ * Runs a {@link LostPartitionFinder} over the whole device, reporting
+ * progress per chunk and the resolved candidates once the walk finishes
+ * or is stopped.
+ *
+ * Communication protocol (parentPort):
+ *   Worker -> Main: { type: 'progress', searchId, data: PartitionSearchProgress }
+ *   Worker -> Main: { type: 'complete', searchId, data: { candidates, cancelled } }
+ *   Worker -> Main: { type: 'error', searchId, data: { error: string } }
+ *   Main -> Worker: { type: 'pause' | 'resume' | 'cancel' }
+ *
+ * workerData shape:
+ *   {
+ *     searchId: string,
+ *     devicePath: string,
+ *     deviceSize: string,   // bigint as string (0 = use reported size)
+ *     virtualSources?: VirtualSources  // when devicePath is a virtual source
+ *   }
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import { BlockReader } from '../../core/io/block-reader'
+import { registerVirtualSources } from '../../core/io/images'
+import type { VirtualSources } from '../../core/io/images'
+import { LostPartitionFinder } from '../../core/partition/lost-partitions'
+import type { PartitionSearchProgress } from '../../shared/types'
+
+if (!parentPort) {
+  throw new Error('partition-search.worker.ts must be run as a worker thread')
+}
+
+const port = parentPort
+
+// ─── Worker configuration from workerData ───────────────────────
+
+interface PartitionSearchWorkerData {
+  searchId: string
+  devicePath: string
+  deviceSize: string
+  virtualSources?: VirtualSources
+}
+
+const config = workerData as PartitionSearchWorkerData
+const searchId = config.searchId
+
+if (config.virtualSources) {
+  registerVirtualSources(config.virtualSources)
+}
+
+let finder: LostPartitionFinder | null = null
+
+port.on('message', (msg: { type: string }) => {
+  switch (msg.type) {
+    case 'pause':
+      finder?.pause()
+      break
+    case 'resume':
+      finder?.resume()
+      break
+    case 'cancel':
+      finder?.cancel()
+      break
+  }
+})
+
+// ─── Main search ────────────────────────────────────────────────
+
+async function runSearch(): Promise<void> {
+  const requestedSize = BigInt(config.deviceSize || '0')
+  const reader = new BlockReader()
+  await reader.open(config.devicePath, requestedSize > 0n ? requestedSize : undefined)
+
+  try {
+    const size = requestedSize > 0n ? requestedSize : reader.size
+    if (size <= 0n) {
+      throw new Error(`Cannot determine the size of ${config.devicePath}`)
+    }
+
+    finder = new LostPartitionFinder(reader)
+    finder.on('progress', (progress: PartitionSearchProgress) => {
+      port.postMessage({ type: 'progress', searchId, data: progress })
+    })
+    finder.on('complete', (result) => {
+      port.postMessage({ type: 'complete', searchId, data: result })
+    })
+
+    await finder.search(size)
+  } finally {
+    await reader.close()
+  }
+}
+
+// ─── Entry point ────────────────────────────────────────────────
+
+runSearch().catch((err) => {
+  port.postMessage({
+    type: 'error',
+    searchId,
+    data: { error: err instanceof Error ? err.message : String(err) }
+  })
+})
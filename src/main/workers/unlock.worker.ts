@@ -0,0 +1,74 @@
+/**
+ * Unlock worker thread - Recovers the master key of a LUKS volume.
+ *
+ * Key derivation is deliberately slow (PBKDF2 with hundreds of thousands
+ * of iterations, or memory-hard Argon2), so it runs here rather than on
+ * the main thread. The worker handles a single passphrase and exits.
+ *
+ * Communication protocol (parentPort):
+ *   Worker -> Main: { type: 'complete', data: { volume: SerializedUnlockedVolume | null } }
+ *   Worker -> Main: { type: 'error', data: { error: string } }
+ *
+ * workerData shape:
+ *   {
+ *     sourcePath: string,  // device, partition or disk image
+ *     offset: string,      // bigint as string
+ *     size: string,        // bigint as string
+ *     passphrase: string,
+ *     virtualSources?: VirtualSources  // when sourcePath is a virtual source
+ *   }
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import { openSourceReader, registerVirtualSources } from '../../core/io/images'
+import type { VirtualSources } from '../../core/io/images'
+import { serializeUnlockedVolume, unlockVolume } from '../../core/encryption'
+
+if (!parentPort) {
+  throw new Error('unlock.worker.ts must be run as a worker thread')
+}
+
+const port = parentPort
+
+// ─── Worker configuration from workerData ───────────────────────
+
+interface UnlockWorkerData {
+  sourcePath: string
+  offset: string
+  size: string
+  passphrase: string
+  virtualSources?: VirtualSources
+}
+
+const config = workerData as UnlockWorkerData
+
+if (config.virtualSources) {
+  registerVirtualSources(config.virtualSources)
+}
+
+// ─── Main unlock ────────────────────────────────────────────────
+
+async function runUnlock(): Promise<void> {
+  const volume = await unlockVolume(
+    config.sourcePath,
+    BigInt(config.offset),
+    BigInt(config.size),
+    config.passphrase,
+    openSourceReader
+  )
+
+  port.postMessage({
+    type: 'complete',
+    data: { volume: volume ? serializeUnlockedVolume(volume) : null }
+  })
+  volume?.masterKey.fill(0)
+}
+
+// ─── Entry point ────────────────────────────────────────────────
+
+runUnlock().catch((err) => {
+  port.postMessage({
+    type: 'error',
+    data: { error: err instanceof Error ? err.message : String(err) }
+  })
+})
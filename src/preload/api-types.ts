@@ -24,13 +24,14 @@ export interface SerializedDeviceInfo {
   name: string
   path: string
   size: string
-  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'unknown'
+  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'image' | 'unknown'
   model: string
   removable: boolean
   readOnly: boolean
   mountPoints: { path: string; filesystem: string }[]
   filesystem?: string
   partitions: SerializedPartitionInfo[]
+  storedHashes?: { md5?: string; sha1?: string }
 }
 
 export interface SerializedScanConfig {
@@ -42,6 +43,7 @@ export interface SerializedScanConfig {
   deviceSize?: string
   startOffset?: string
   endOffset?: string
+  carvingWorkers?: number
 }
 
 export interface SerializedRecoverableFile {
@@ -57,7 +59,11 @@ export interface SerializedRecoverableFile {
   metadata?: Record<string, unknown>
   recoverability: 'good' | 'partial' | 'poor'
   source: 'carving' | 'metadata'
-  fragments?: { offset: string; size: string }[]
+  fragments?: { offset: string; size: string; sparse?: boolean }[]
+  compressed?: boolean
+  compression?: { format: 'lznt1'; unitSize: number }
+  dataLost?: boolean
+  location?: { folders: string[]; orphaned: boolean }
 }
 
 export interface SerializedScanProgress {
@@ -70,6 +76,22 @@ export interface SerializedScanProgress {
   sectorsWithErrors: number
 }
 
+export interface SerializedSavedScanSession {
+  id: string
+  config: SerializedScanConfig
+  /** Last saved status; 'scanning' or 'paused' when the app closed mid-scan */
+  status: 'idle' | 'scanning' | 'paused' | 'completed' | 'cancelled' | 'error'
+  progress: SerializedScanProgress
+  startedAt: number
+  completedAt?: number
+  error?: string
+  filesFound: number
+  /** The scan is running in this app session */
+  running: boolean
+  /** The scan stopped before the end and can continue from its last checkpoint */
+  resumable: boolean
+}
+
 export interface SerializedRecoveryConfig {
   files: SerializedRecoverableFile[]
   destinationPath: string
@@ -88,6 +110,92 @@ export interface SerializedRecoveryProgress {
   errors: { fileId: string; fileName: string; error: string }[]
 }
 
+export interface SerializedImagingConfig {
+  devicePath: string
+  deviceSize: string
+  imagePath: string
+  mapfilePath?: string
+}
+
+export interface SerializedImagingProgress {
+  phase: 'copying' | 'trimming' | 'scraping' | 'retrying' | 'finished'
+  pass: number
+  currentPosition: string
+  totalBytes: string
+  rescuedBytes: string
+  nonTriedBytes: string
+  nonTrimmedBytes: string
+  nonScrapedBytes: string
+  badBytes: string
+  badAreas: number
+  percentage: number
+  readRate: number
+  resumed: boolean
+}
+
+export interface SerializedUnlockVolumeRequest {
+  sourcePath: string
+  offset: string
+  size: string
+  passphrase: string
+}
+
+export interface SerializedRaidMember {
+  path: string
+  start: string
+  dataOffset: string
+  dataSize: string
+}
+
+export interface SerializedRaidConfig {
+  level: 0 | 1 | 5
+  layout: 'left-asymmetric' | 'right-asymmetric' | 'left-symmetric' | 'right-symmetric'
+  chunkSize: number
+  members: (SerializedRaidMember | null)[]
+  name?: string
+}
+
+export interface SerializedLvmSegment {
+  start: string
+  size: string
+  stripeSize: number
+  stripes: { source: { path: string; start: string } | null; offset: string }[]
+}
+
+export interface SerializedLogicalVolume {
+  vgName: string
+  name: string
+  id: string
+  seqno: number
+  deleted: boolean
+  segments: SerializedLvmSegment[]
+}
+
+export interface SerializedPartitionSearchConfig {
+  devicePath: string
+  deviceSize: string
+}
+
+export interface SerializedPartitionSearchProgress {
+  bytesScanned: string
+  totalBytes: string
+  percentage: number
+  signaturesFound: number
+  estimatedTimeRemaining?: number
+  sectorsWithErrors: number
+}
+
+export interface SerializedLostPartitionCandidate {
+  id: string
+  offset: string
+  size: string
+  filesystem: string
+  label?: string
+  confidence: number
+  evidence: string[]
+  inPartitionTable: boolean
+}
+
 // ─── IPC Result wrappers ─────────────────────────────────────
 
 export interface IpcResult<T = void> {
@@ -110,6 +218,24 @@ export interface ElectronAPI {
   devices: {
     list(): Promise<DeviceListResult>
     refresh(): Promise<DeviceListResult>
+    /**
+     * Register a disk image as a device. Without a path, a file picker is
+     * shown first.
+     */
+    openImage(imagePath?: string): Promise<SerializedDeviceInfo | null>
+    /**
+     * Unlock a LUKS volume and register its decrypted view as a device.
+     * Resolves to null when the passphrase is wrong.
+     */
+    unlock(request: SerializedUnlockVolumeRequest): Promise<SerializedDeviceInfo | null>
+    /** Find md RAID arrays from the superblocks on all listed devices. */
+    detectRaid(): Promise<SerializedRaidConfig[]>
+    /** Assemble a virtual RAID array and register it as a device. */
+    assembleRaid(config: SerializedRaidConfig): Promise<SerializedDeviceInfo>
+    /** Find current and removed LVM logical volumes on all listed devices. */
+    detectLvm(): Promise<SerializedLogicalVolume[]>
+    /** Map a logical volume and register it as a device. */
+    openLvm(volume: SerializedLogicalVolume): Promise<SerializedDeviceInfo>
   }
 
   scan: {
@@ -123,6 +249,20 @@ export interface ElectronAPI {
     onError(cb: (sessionId: string, error: string) => void): Unsubscribe
   }
 
+  /** Scan sessions saved to disk. */
+  sessions: {
+    /** Saved sessions, most recent first. */
+    list(): Promise<SerializedSavedScanSession[]>
+    /**
+     * Read a page of a session's found files from `position` (0 for the
+     * first page); `next` is null after the last page.
+     */
+    files(sessionId: string, position: number): Promise<{ files: SerializedRecoverableFile[]; next: number | null }>
+    /** Carry on with an unfinished scan from its last checkpoint. */
+    resume(sessionId: string): Promise<void>
+    remove(sessionId: string): Promise<void>
+  }
+
   recovery: {
     start(config: SerializedRecoveryConfig): Promise<IpcResult & { recoveryId?: string }>
     pause(recoveryId: string): Promise<IpcResult>
@@ -133,6 +273,28 @@ export interface ElectronAPI {
     onError(cb: (recoveryId: string, error: string) => void): Unsubscribe
   }
 
+  imaging: {
+    start(config: SerializedImagingConfig): Promise<{ jobId: string }>
+    pause(jobId: string): Promise<void>
+    resume(jobId: string): Promise<void>
+    cancel(jobId: string): Promise<void>
+    onProgress(cb: (data: { jobId: string; progress: SerializedImagingProgress }) => void): Unsubscribe
+    onComplete(cb: (data: { jobId: string; imagePath: string; cancelled: boolean }) => void): Unsubscribe
+    onError(cb: (data: { jobId: string; message: string }) => void): Unsubscribe
+  }
+
+  partitionSearch: {
+    start(config: SerializedPartitionSearchConfig): Promise<{ searchId: string }>
+    pause(searchId: string): Promise<void>
+    resume(searchId: string): Promise<void>
+    cancel(searchId: string): Promise<void>
+    onProgress(cb: (data: { searchId: string; progress: SerializedPartitionSearchProgress }) => void): Unsubscribe
+    onComplete(
+      cb: (data: { searchId: string; candidates: SerializedLostPartitionCandidate[]; cancelled: boolean }) => void,
+    ): Unsubscribe
+    onError(cb: (data: { searchId: string; message: string }) => void): Unsubscribe
+  }
+
   privilege: {
     check(): Promise<IpcResult & { status?: PrivilegeStatus }>
     request(): Promise<IpcResult & { elevated?: boolean }>
@@ -155,13 +317,7 @@ export interface ElectronAPI {
   dialog: {
     selectDirectory(): Promise<IpcResult & { path?: string | null }>
     getDefaultRecoveryPath(): Promise<string | null>
-  }
-}
-
-// ─── Window augmentation ─────────────────────────────────────
-
-declare global {
-  interface Window {
-    api: ElectronAPI
+    /** Show a save dialog for a device image; resolves to null if cancelled. */
+    selectImageDestination(defaultName?: string): Promise<string | null>
   }
 }
@@ -1,6 +1,16 @@
 import { contextBridge, ipcRenderer } from 'electron'
 import { IpcChannels } from '../shared/types'
-import type { ElectronAPI, Unsubscribe, SerializedScanConfig, SerializedRecoveryConfig } from './api-types'
+import type {
+  ElectronAPI,
+  Unsubscribe,
+  SerializedScanConfig,
+  SerializedRecoveryConfig,
+  SerializedImagingConfig,
+  SerializedPartitionSearchConfig,
+  SerializedUnlockVolumeRequest,
+  SerializedRaidConfig,
+  SerializedLogicalVolume,
+} from './api-types'
 
 // ─── Helpers ─────────────────────────────────────────────────
 
@@ -37,6 +47,36 @@ const api: ElectronAPI = {
       if (!result.success) throw new Error(result.error ?? 'Failed to refresh devices')
       return result.devices
     },
+    async openImage(imagePath?: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_OPEN_IMAGE, imagePath)
+      if (!result.success) throw new Error(result.error ?? 'Failed to open disk image')
+      return result.device ?? null
+    },
+    async unlock(request: SerializedUnlockVolumeRequest) {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_UNLOCK, request)
+      if (!result.success) throw new Error(result.error ?? 'Failed to unlock volume')
+      return result.device ?? null
+    },
+    async detectRaid() {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_DETECT_RAID)
+      if (!result.success) throw new Error(result.error ?? 'Failed to detect RAID arrays')
+      return result.arrays
+    },
+    async assembleRaid(config: SerializedRaidConfig) {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_ASSEMBLE_RAID, config)
+      if (!result.success) throw new Error(result.error ?? 'Failed to assemble RAID array')
+      return result.device
+    },
+    async detectLvm() {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_DETECT_LVM)
+      if (!result.success) throw new Error(result.error ?? 'Failed to detect logical volumes')
+      return result.volumes
+    },
+    async openLvm(volume: SerializedLogicalVolume) {
+      const result = await ipcRenderer.invoke(IpcChannels.DEVICE_OPEN_LVM, volume)
+      if (!result.success) throw new Error(result.error ?? 'Failed to open logical volume')
+      return result.device
+    },
   },
 
   // ── Scan ─────────────────────────────────────────────────
@@ -72,6 +112,28 @@ const api: ElectronAPI = {
     },
   },
 
+  // ── Saved sessions ───────────────────────────────────────
+  sessions: {
+    async list() {
+      const result = await ipcRenderer.invoke(IpcChannels.SESSIONS_LIST)
+      if (!result.success) throw new Error(result.error ?? 'Failed to list scan sessions')
+      return result.sessions
+    },
+    async files(sessionId: string, position: number) {
+      const result = await ipcRenderer.invoke(IpcChannels.SESSIONS_FILES, sessionId, position)
+      if (!result.success) throw new Error(result.error ?? 'Failed to read scan results')
+      return { files: result.files, next: result.next }
+    },
+    async resume(sessionId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.SESSIONS_RESUME, sessionId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to resume scan')
+    },
+    async remove(sessionId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.SESSIONS_DELETE, sessionId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to delete scan session')
+    },
+  },
+
   // ── Recovery ─────────────────────────────────────────────
   recovery: {
     start(config: SerializedRecoveryConfig) {
@@ -98,6 +160,66 @@ const api: ElectronAPI = {
     },
   },
 
+  // ── Imaging ──────────────────────────────────────────────
+  imaging: {
+    async start(config: SerializedImagingConfig) {
+      const result = await ipcRenderer.invoke(IpcChannels.IMAGING_START, config)
+      if (!result.success) throw new Error(result.error ?? 'Failed to start imaging')
+      return { jobId: result.jobId }
+    },
+    async pause(jobId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.IMAGING_PAUSE, jobId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to pause imaging')
+    },
+    async resume(jobId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.IMAGING_RESUME, jobId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to resume imaging')
+    },
+    async cancel(jobId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.IMAGING_CANCEL, jobId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to stop imaging')
+    },
+    onProgress(cb) {
+      return onEvent(IpcChannels.IMAGING_PROGRESS, cb)
+    },
+    onComplete(cb) {
+      return onEvent(IpcChannels.IMAGING_COMPLETE, cb)
+    },
+    onError(cb) {
+      return onEvent(IpcChannels.IMAGING_ERROR, cb)
+    },
+  },
+
+  // ── Lost partition search ────────────────────────────────
+  partitionSearch: {
+    async start(config: SerializedPartitionSearchConfig) {
+      const result = await ipcRenderer.invoke(IpcChannels.PARTITION_SEARCH_START, config)
+      if (!result.success) throw new Error(result.error ?? 'Failed to start partition search')
+      return { searchId: result.searchId }
+    },
+    async pause(searchId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.PARTITION_SEARCH_PAUSE, searchId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to pause partition search')
+    },
+    async resume(searchId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.PARTITION_SEARCH_RESUME, searchId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to resume partition search')
+    },
+    async cancel(searchId: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.PARTITION_SEARCH_CANCEL, searchId)
+      if (!result.success) throw new Error(result.error ?? 'Failed to stop partition search')
+    },
+    onProgress(cb) {
+      return onEvent(IpcChannels.PARTITION_SEARCH_PROGRESS, cb)
+    },
+    onComplete(cb) {
+      return onEvent(IpcChannels.PARTITION_SEARCH_COMPLETE, cb)
+    },
+    onError(cb) {
+      return onEvent(IpcChannels.PARTITION_SEARCH_ERROR, cb)
+    },
+  },
+
   // ── Privilege ────────────────────────────────────────────
   privilege: {
     async check() {
@@ -141,9 +263,23 @@ const api: ElectronAPI = {
       const result = await ipcRenderer.invoke(IpcChannels.DIALOG_DEFAULT_RECOVERY_PATH)
       return result?.path ?? null
     },
+    async selectImageDestination(defaultName?: string) {
+      const result = await ipcRenderer.invoke(IpcChannels.DIALOG_SELECT_IMAGE_DESTINATION, defaultName)
+      return result?.path ?? null
+    },
   },
 }
 
 // ─── Expose via context bridge ───────────────────────────────
 
 contextBridge.exposeInMainWorld('api', api)
+
+// ─── Window augmentation ─────────────────────────────────────
+// Declared here rather than in api-types.ts, so the renderer can import
+// the API types without also taking on this declaration of window.api.
+
+declare global {
+  interface Window {
+    api: ElectronAPI
+  }
+}
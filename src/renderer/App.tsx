@@ -6,6 +6,9 @@ import ScanConfigPage from './pages/ScanConfigPage'
 import ScanProgressPage from './pages/ScanProgressPage'
 import FileSelectionPage from './pages/FileSelectionPage'
 import RecoveryPage from './pages/RecoveryPage'
+import ImagingPage from './pages/ImagingPage'
+import LostPartitionsPage from './pages/LostPartitionsPage'
+import RecentSessionsPage from './pages/RecentSessionsPage'
 import { AlertTriangle, X } from 'lucide-react'
 
 export default function App() {
@@ -60,6 +63,9 @@ export default function App() {
           <Route path="/scanning" element={<ScanProgressPage />} />
           <Route path="/files" element={<FileSelectionPage />} />
           <Route path="/recovery" element={<RecoveryPage />} />
+          <Route path="/imaging" element={<ImagingPage />} />
+          <Route path="/lost-partitions" element={<LostPartitionsPage />} />
+          <Route path="/sessions" element={<RecentSessionsPage />} />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </main>
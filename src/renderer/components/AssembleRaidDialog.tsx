@@ -0,0 +1,346 @@
+import { useEffect, useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { ArrowDown, ArrowUp, Layers, RefreshCw, X } from 'lucide-react'
+import type { RaidLayout, RaidLevel } from '../../shared/types'
+import type { SerializedDeviceInfo, SerializedRaidConfig } from '../store'
+
+/** A device, partition or image that can be a member of an array. */
+interface MemberSource {
+  label: string
+  path: string
+  start: string
+  size: string
+  /** From an md superblock; otherwise taken from the form */
+  dataOffset?: string
+  dataSize?: string
+}
+
+const RAID_LAYOUTS: RaidLayout[] = ['left-symmetric', 'left-asymmetric', 'right-symmetric', 'right-asymmetric']
+
+const CHUNK_SIZES_KIB = [4, 8, 16, 32, 64, 128, 256, 512, 1024]
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+/**
+ * Whole devices and their partitions. Partitions inside disk images share
+ * the image path and are addressed by offset. Arrays, decrypted volumes and
+ * logical volumes are not offered as members.
+ */
+function memberSources(devices: SerializedDeviceInfo[]): MemberSource[] {
+  const sources: MemberSource[] = []
+  for (const device of devices) {
+    if (/^(raid|luks|lvm):/.test(device.path)) continue
+    sources.push({ label: device.name, path: device.path, start: '0', size: device.size })
+    for (const partition of device.partitions) {
+      const byOffset = partition.path === device.path
+      sources.push({
+        label: `${device.name} › ${partition.label}`,
+        path: partition.path,
+        start: byOffset ? partition.offset : '0',
+        size: partition.size,
+      })
+    }
+  }
+  return sources
+}
+
+interface AssembleRaidDialogProps {
+  devices: SerializedDeviceInfo[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onAssemble: (config: SerializedRaidConfig) => Promise<SerializedDeviceInfo>
+  onAssembled: (device: SerializedDeviceInfo) => void
+}
+
+/**
+ * Puts a RAID array back together from loose member disks, either from
+ * the md superblocks found on them or from a geometry entered by hand.
+ */
+export default function AssembleRaidDialog({
+  devices,
+  open,
+  onOpenChange,
+  onAssemble,
+  onAssembled,
+}: AssembleRaidDialogProps) {
+  const sources = memberSources(devices)
+
+  const [members, setMembers] = useState<(MemberSource | null)[]>([])
+  const [level, setLevel] = useState<RaidLevel>(5)
+  const [layout, setLayout] = useState<RaidLayout>('left-symmetric')
+  const [chunkKiB, setChunkKiB] = useState(64)
+  const [dataOffsetSectors, setDataOffsetSectors] = useState(0)
+  const [name, setName] = useState<string | undefined>(undefined)
+  const [detected, setDetected] = useState<SerializedRaidConfig[] | null>(null)
+  const [busy, setBusy] = useState<'detecting' | 'assembling' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setMembers([])
+    setDetected(null)
+    setName(undefined)
+    setError(null)
+  }, [open])
+
+  const handleDetect = async () => {
+    setBusy('detecting')
+    setError(null)
+    try {
+      setDetected(await window.api.devices.detectRaid())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect RAID arrays')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  /** Fill the form from a detected array. */
+  const applyDetected = (config: SerializedRaidConfig) => {
+    setLevel(config.level)
+    setLayout(config.layout)
+    if (config.chunkSize > 0) setChunkKiB(config.chunkSize / 1024)
+    setName(config.name)
+    setMembers(
+      config.members.map((m) => {
+        if (!m) return null
+        const source = sources.find((s) => s.path === m.path && s.start === m.start)
+        return {
+          label: source?.label ?? m.path,
+          path: m.path,
+          start: m.start,
+          size: source?.size ?? (BigInt(m.dataOffset) + BigInt(m.dataSize)).toString(),
+          dataOffset: m.dataOffset,
+          dataSize: m.dataSize,
+        }
+      })
+    )
+  }
+
+  const handleAdd = (value: string) => {
+    if (value === '') return
+    setName(undefined)
+    setMembers([...members, value === 'missing' ? null : sources[Number(value)]])
+  }
+
+  const move = (index: number, delta: number) => {
+    const next = [...members]
+    const [member] = next.splice(index, 1)
+    next.splice(index + delta, 0, member)
+    setMembers(next)
+  }
+
+  const handleAssemble = async () => {
+    const dataOffset = BigInt(dataOffsetSectors) * 512n
+    const config: SerializedRaidConfig = {
+      level,
+      layout,
+      chunkSize: chunkKiB * 1024,
+      name,
+      members: members.map((m) => {
+        if (!m) return null
+        const offset = m.dataOffset !== undefined ? BigInt(m.dataOffset) : dataOffset
+        const size = m.dataSize !== undefined ? BigInt(m.dataSize) : BigInt(m.size) - offset
+        return { path: m.path, start: m.start, dataOffset: offset.toString(), dataSize: size.toString() }
+      }),
+    }
+
+    setBusy('assembling')
+    setError(null)
+    try {
+      const device = await onAssemble(config)
+      onAssembled(device)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to assemble RAID array')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const minMembers = level === 5 ? 3 : level === 1 ? 1 : 2
+  const selectClass =
+    'rounded-lg border border-gray-700 bg-surface px-2 py-1.5 text-sm text-gray-300 focus:border-primary-500 focus:outline-none'
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black/60" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[85vh] w-full max-w-lg -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl border border-gray-800 bg-surface-light p-6 shadow-xl">
+          <div className="mb-4 flex items-start justify-between">
+            <div className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-primary-400" />
+              <Dialog.Title className="text-base font-semibold text-white">
+                Assemble RAID array
+              </Dialog.Title>
+            </div>
+            <Dialog.Close
+              disabled={!!busy}
+              className="rounded p-1 text-gray-500 transition-colors hover:text-gray-300 disabled:opacity-40"
+            >
+              <X className="h-4 w-4" />
+            </Dialog.Close>
+          </div>
+
+          <Dialog.Description className="mb-4 text-xs text-gray-400">
+            Combine member disks or images into a virtual, read-only array.
+            Linux md arrays can be detected from their superblocks; others
+            need the level, disk order and chunk size of the original array.
+          </Dialog.Description>
+
+          {/* md detection */}
+          <div className="mb-4">
+            <button
+              onClick={handleDetect}
+              disabled={!!busy}
+              className="flex items-center gap-2 rounded-lg bg-surface-lighter px-3 py-1.5 text-sm text-gray-300 transition-colors hover:bg-surface disabled:opacity-40"
+            >
+              <RefreshCw className={`h-4 w-4 ${busy === 'detecting' ? 'animate-spin' : ''}`} />
+              Detect md arrays
+            </button>
+            {detected && detected.length === 0 && (
+              <p className="mt-2 text-xs text-gray-500">No md superblocks found.</p>
+            )}
+            {detected?.map((config, i) => (
+              <button
+                key={i}
+                onClick={() => applyDetected(config)}
+                className="mt-2 block w-full rounded-lg border border-gray-700 px-3 py-2 text-left text-sm text-gray-300 transition-colors hover:border-primary-500"
+              >
+                {config.name ?? 'md array'} — RAID{config.level},{' '}
+                {config.members.filter((m) => m !== null).length}/{config.members.length} disks
+              </button>
+            ))}
+          </div>
+
+          {/* Geometry */}
+          <div className="mb-4 grid grid-cols-2 gap-3 text-xs text-gray-400">
+            <label className="flex flex-col gap-1">
+              Level
+              <select
+                value={level}
+                onChange={(e) => setLevel(Number(e.target.value) as RaidLevel)}
+                className={selectClass}
+              >
+                <option value={0}>RAID0 (striping)</option>
+                <option value={1}>RAID1 (mirroring)</option>
+                <option value={5}>RAID5 (striping with parity)</option>
+              </select>
+            </label>
+            {level === 5 && (
+              <label className="flex flex-col gap-1">
+                Parity layout
+                <select
+                  value={layout}
+                  onChange={(e) => setLayout(e.target.value as RaidLayout)}
+                  className={selectClass}
+                >
+                  {RAID_LAYOUTS.map((l) => (
+                    <option key={l} value={l}>{l}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {level !== 1 && (
+              <label className="flex flex-col gap-1">
+                Chunk size
+                <select
+                  value={chunkKiB}
+                  onChange={(e) => setChunkKiB(Number(e.target.value))}
+                  className={selectClass}
+                >
+                  {CHUNK_SIZES_KIB.map((size) => (
+                    <option key={size} value={size}>{size} KiB</option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex flex-col gap-1">
+              Data offset (sectors)
+              <input
+                type="number"
+                min={0}
+                value={dataOffsetSectors}
+                onChange={(e) => setDataOffsetSectors(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                className={selectClass}
+              />
+            </label>
+          </div>
+
+          {/* Members in disk order */}
+          <div className="mb-4 space-y-1.5">
+            {members.map((member, i) => (
+              <div
+                key={i}
+                className="flex items-center gap-2 rounded-lg bg-surface px-3 py-1.5 text-sm text-gray-300"
+              >
+                <span className="w-12 shrink-0 text-xs text-gray-500">Disk {i}</span>
+                <span className="flex-1 truncate">
+                  {member ? member.label : <em className="text-gray-500">missing</em>}
+                </span>
+                {member && <span className="text-xs text-gray-500">{formatBytes(member.size)}</span>}
+                <button
+                  onClick={() => move(i, -1)}
+                  disabled={i === 0}
+                  className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                >
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => move(i, 1)}
+                  disabled={i === members.length - 1}
+                  className="text-gray-500 hover:text-gray-300 disabled:opacity-30"
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  onClick={() => {
+                    setName(undefined)
+                    setMembers(members.filter((_, j) => j !== i))
+                  }}
+                  className="text-gray-500 hover:text-red-400"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            ))}
+            <select value="" onChange={(e) => handleAdd(e.target.value)} className={`${selectClass} w-full`}>
+              <option value="">Add member…</option>
+              {sources.map((source, i) => (
+                <option key={`${source.path}@${source.start}`} value={i}>
+                  {source.label} ({formatBytes(source.size)})
+                </option>
+              ))}
+              <option value="missing">Missing disk</option>
+            </select>
+          </div>
+
+          {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <Dialog.Close
+              disabled={!!busy}
+              className="rounded-lg bg-surface-lighter px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface disabled:opacity-40"
+            >
+              Cancel
+            </Dialog.Close>
+            <button
+              onClick={handleAssemble}
+              disabled={members.length < minMembers || !!busy}
+              className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              {busy === 'assembling' ? 'Assembling…' : 'Assemble'}
+            </button>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
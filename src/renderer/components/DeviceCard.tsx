@@ -1,4 +1,4 @@
-import { HardDrive, Usb, MemoryStick } from 'lucide-react'
+import { HardDrive, Usb, MemoryStick, FileBox } from 'lucide-react'
 import type { SerializedDeviceInfo } from '../store'
 
 function formatBytes(sizeStr: string): string {
@@ -21,6 +21,8 @@ function DeviceIcon({
       return <Usb className={cls} />
     case 'sd':
       return <MemoryStick className={cls} />
+    case 'image':
+      return <FileBox className={cls} />
     case 'hdd':
     case 'ssd':
     case 'unknown':
@@ -98,6 +100,18 @@ export default function DeviceCard({
             )}
           </div>
 
+          {/* Acquisition hashes stored in evidence containers */}
+          {device.storedHashes && (device.storedHashes.md5 || device.storedHashes.sha1) && (
+            <div className="mt-2 space-y-0.5 font-mono text-[10px] text-gray-500">
+              {device.storedHashes.md5 && (
+                <p className="truncate">MD5 {device.storedHashes.md5}</p>
+              )}
+              {device.storedHashes.sha1 && (
+                <p className="truncate">SHA1 {device.storedHashes.sha1}</p>
+              )}
+            </div>
+          )}
+
           {/* Partitions summary */}
           {device.partitions.length > 0 && (
             <div className="mt-2 flex flex-wrap gap-1.5">
@@ -212,12 +212,21 @@ export default function FilePreview() {
             <InfoRow label="Offset" value={file.offset} />
             <InfoRow label="Source" value={file.source} />
             <InfoRow label="Recoverability" value={file.recoverability} />
+            {file.dataLost && (
+              <InfoRow label="Data" value="Known deleted, data lost" />
+            )}
             {file.fragments && (
               <InfoRow
                 label="Fragments"
                 value={String(file.fragments.length)}
               />
             )}
+            {file.compressed && (
+              <InfoRow label="Compressed" value="Yes (not recovered)" />
+            )}
+            {file.compression && (
+              <InfoRow label="Compressed" value="Yes (LZNT1)" />
+            )}
             {file.metadata?.width && file.metadata?.height && (
               <InfoRow
                 label="Dimensions"
@@ -239,6 +248,27 @@ export default function FilePreview() {
                 value={file.metadata.originalName}
               />
             )}
+            {file.location && (
+              <InfoRow
+                label="Path"
+                value={
+                  file.location.orphaned
+                    ? ['$Orphans', ...file.location.folders].join('/')
+                    : `/${file.location.folders.join('/')}`
+                }
+              />
+            )}
+            {file.metadata?.history?.map((event, i) => (
+              <InfoRow
+                key={i}
+                label={`${event.action[0].toUpperCase()}${event.action.slice(1)}`}
+                value={
+                  event.timestamp
+                    ? `${event.name} (${new Date(event.timestamp).toLocaleString()})`
+                    : event.name
+                }
+              />
+            ))}
           </div>
         </Tabs.Content>
       </Tabs.Root>
@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { Boxes, RefreshCw, X } from 'lucide-react'
+import type { SerializedDeviceInfo, SerializedLogicalVolume } from '../store'
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+function volumeSize(volume: SerializedLogicalVolume): string {
+  return volume.segments.reduce((total, s) => total + BigInt(s.size), 0n).toString()
+}
+
+function volumeLayout(volume: SerializedLogicalVolume): string {
+  const stripes = Math.max(...volume.segments.map((s) => s.stripes.length))
+  return stripes > 1 ? `striped ×${stripes}` : 'linear'
+}
+
+function hasMissingPv(volume: SerializedLogicalVolume): boolean {
+  return volume.segments.some((s) => s.stripes.some((st) => st.source === null))
+}
+
+interface LogicalVolumesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onOpenVolume: (volume: SerializedLogicalVolume) => Promise<SerializedDeviceInfo>
+  onOpened: (device: SerializedDeviceInfo) => void
+}
+
+/**
+ * Lists the LVM logical volumes found on the listed devices, including
+ * volumes only left in older metadata generations, and opens one as a
+ * device of its own.
+ */
+export default function LogicalVolumesDialog({
+  open,
+  onOpenChange,
+  onOpenVolume,
+  onOpened,
+}: LogicalVolumesDialogProps) {
+  const [volumes, setVolumes] = useState<SerializedLogicalVolume[] | null>(null)
+  const [busy, setBusy] = useState<'detecting' | number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const detect = async () => {
+    setBusy('detecting')
+    setError(null)
+    try {
+      setVolumes(await window.api.devices.detectLvm())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to detect logical volumes')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setVolumes(null)
+    detect()
+  }, [open])
+
+  const handleOpen = async (index: number) => {
+    setBusy(index)
+    setError(null)
+    try {
+      const device = await onOpenVolume(volumes![index])
+      onOpened(device)
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open logical volume')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(next) => busy === null && onOpenChange(next)}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black/60" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 max-h-[85vh] w-full max-w-lg -translate-x-1/2 -translate-y-1/2 overflow-y-auto rounded-xl border border-gray-800 bg-surface-light p-6 shadow-xl">
+          <div className="mb-4 flex items-start justify-between">
+            <div className="flex items-center gap-2">
+              <Boxes className="h-5 w-5 text-primary-400" />
+              <Dialog.Title className="text-base font-semibold text-white">
+                LVM logical volumes
+              </Dialog.Title>
+            </div>
+            <Dialog.Close
+              disabled={busy !== null}
+              className="rounded p-1 text-gray-500 transition-colors hover:text-gray-300 disabled:opacity-40"
+            >
+              <X className="h-4 w-4" />
+            </Dialog.Close>
+          </div>
+
+          <Dialog.Description className="mb-4 text-xs text-gray-400">
+            Volumes mapped from the LVM2 metadata on the listed devices,
+            arrays and unlocked volumes. Deleted volumes come from older
+            metadata generations; their space may since have been reused.
+          </Dialog.Description>
+
+          <div className="mb-4 space-y-1.5">
+            {volumes?.length === 0 && (
+              <p className="text-xs text-gray-500">No LVM physical volumes found.</p>
+            )}
+            {volumes?.map((volume, i) => (
+              <div
+                key={`${volume.id}@${volume.seqno}`}
+                className="flex items-center gap-3 rounded-lg bg-surface px-3 py-2 text-sm text-gray-300"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">
+                    {volume.vgName}/{volume.name}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatBytes(volumeSize(volume))}, {volumeLayout(volume)}
+                    {volume.deleted && (
+                      <span className="ml-2 text-amber-400">deleted (generation {volume.seqno})</span>
+                    )}
+                    {hasMissingPv(volume) && (
+                      <span className="ml-2 text-red-400">physical volume missing</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleOpen(i)}
+                  disabled={busy !== null}
+                  className="shrink-0 rounded-lg bg-primary-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                  {busy === i ? 'Opening…' : 'Open'}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={detect}
+              disabled={busy !== null}
+              className="flex items-center gap-2 rounded-lg bg-surface-lighter px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface disabled:opacity-40"
+            >
+              <RefreshCw className={`h-4 w-4 ${busy === 'detecting' ? 'animate-spin' : ''}`} />
+              Rescan
+            </button>
+            <Dialog.Close
+              disabled={busy !== null}
+              className="rounded-lg bg-surface-lighter px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface disabled:opacity-40"
+            >
+              Close
+            </Dialog.Close>
+          </div>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react'
+import * as Dialog from '@radix-ui/react-dialog'
+import { Lock, X } from 'lucide-react'
+import type { SerializedDeviceInfo } from '../store'
+
+/** An encrypted volume on a device, addressed the way the unlock call expects. */
+export interface EncryptedVolumeTarget {
+  id: string
+  label: string
+  sourcePath: string
+  offset: string
+  size: string
+}
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+/**
+ * The LUKS volumes of a device: the device itself, or its partitions.
+ * Partitions inside disk images share the image path and are addressed by
+ * offset; partitions of physical disks have their own device node.
+ */
+export function encryptedVolumesOf(device: SerializedDeviceInfo): EncryptedVolumeTarget[] {
+  const targets: EncryptedVolumeTarget[] = []
+
+  if (device.filesystem === 'luks') {
+    targets.push({
+      id: device.id,
+      label: device.name,
+      sourcePath: device.path,
+      offset: '0',
+      size: device.size,
+    })
+  }
+
+  for (const partition of device.partitions) {
+    if (partition.filesystem !== 'luks') continue
+    const byOffset = partition.path === device.path
+    targets.push({
+      id: partition.id,
+      label: partition.label,
+      sourcePath: partition.path,
+      offset: byOffset ? partition.offset : '0',
+      size: partition.size,
+    })
+  }
+
+  return targets
+}
+
+interface UnlockVolumeDialogProps {
+  device: SerializedDeviceInfo
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Resolves to the decrypted device, or null for a wrong passphrase. */
+  onUnlock: (
+    sourcePath: string,
+    offset: string,
+    size: string,
+    passphrase: string
+  ) => Promise<SerializedDeviceInfo | null>
+  onUnlocked: (device: SerializedDeviceInfo) => void
+}
+
+/**
+ * Asks for the passphrase of a LUKS volume. The passphrase only lives in
+ * this dialog's state until it is submitted and is cleared right after.
+ */
+export default function UnlockVolumeDialog({
+  device,
+  open,
+  onOpenChange,
+  onUnlock,
+  onUnlocked,
+}: UnlockVolumeDialogProps) {
+  const targets = encryptedVolumesOf(device)
+  const [targetId, setTargetId] = useState<string | null>(null)
+  const [passphrase, setPassphrase] = useState('')
+  const [unlocking, setUnlocking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const target = targets.find((t) => t.id === targetId) ?? targets[0]
+
+  // Start from a clean form every time the dialog opens or closes
+  useEffect(() => {
+    setPassphrase('')
+    setError(null)
+    setTargetId(null)
+  }, [open, device.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!target || !passphrase) return
+
+    setUnlocking(true)
+    setError(null)
+    const attempt = passphrase
+    setPassphrase('')
+    try {
+      const unlocked = await onUnlock(target.sourcePath, target.offset, target.size, attempt)
+      if (unlocked) {
+        onUnlocked(unlocked)
+        onOpenChange(false)
+      } else {
+        setError('Wrong passphrase. No key slot could be opened with it.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock volume')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(next) => !unlocking && onOpenChange(next)}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black/60" />
+        <Dialog.Content className="fixed left-1/2 top-1/2 z-50 w-full max-w-md -translate-x-1/2 -translate-y-1/2 rounded-xl border border-gray-800 bg-surface-light p-6 shadow-xl">
+          <div className="mb-4 flex items-start justify-between">
+            <div className="flex items-center gap-2">
+              <Lock className="h-5 w-5 text-primary-400" />
+              <Dialog.Title className="text-base font-semibold text-white">
+                Unlock encrypted volume
+              </Dialog.Title>
+            </div>
+            <Dialog.Close
+              disabled={unlocking}
+              className="rounded p-1 text-gray-500 transition-colors hover:text-gray-300 disabled:opacity-40"
+            >
+              <X className="h-4 w-4" />
+            </Dialog.Close>
+          </div>
+
+          <Dialog.Description className="mb-4 text-xs text-gray-400">
+            The volume is decrypted on the fly and scanned read-only. The
+            passphrase is only used to derive the key and is never saved.
+          </Dialog.Description>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {targets.length > 1 && (
+              <div className="space-y-1.5">
+                {targets.map((t) => (
+                  <label
+                    key={t.id}
+                    className="flex cursor-pointer items-center gap-2 text-sm text-gray-300"
+                  >
+                    <input
+                      type="radio"
+                      name="luks-volume"
+                      checked={t.id === target?.id}
+                      onChange={() => setTargetId(t.id)}
+                      disabled={unlocking}
+                    />
+                    {t.label}
+                    <span className="text-xs text-gray-500">{formatBytes(t.size)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <input
+              type="password"
+              autoFocus
+              autoComplete="off"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={unlocking}
+              placeholder="Passphrase"
+              className="w-full rounded-lg border border-gray-700 bg-surface px-3 py-2 text-sm text-white placeholder-gray-600 focus:border-primary-500 focus:outline-none"
+            />
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <Dialog.Close
+                disabled={unlocking}
+                className="rounded-lg bg-surface-lighter px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface disabled:opacity-40"
+              >
+                Cancel
+              </Dialog.Close>
+              <button
+                type="submit"
+                disabled={!target || !passphrase || unlocking}
+                className="rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+              >
+                {unlocking ? 'Unlocking…' : 'Unlock'}
+              </button>
+            </div>
+          </form>
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  )
+}
@@ -1,6 +1,11 @@
 import { useCallback, useEffect, useState } from 'react'
 import { useAppStore } from '../store'
-import type { SerializedDeviceInfo } from '../store'
+import type {
+  SerializedDeviceInfo,
+  SerializedLogicalVolume,
+  SerializedRaidConfig
+} from '../store'
+import type { ElectronAPI } from '../../preload/api-types'
 
 declare global {
   interface Window {
@@ -8,6 +13,17 @@ declare global {
       devices: {
         list(): Promise<SerializedDeviceInfo[]>
         refresh(): Promise<SerializedDeviceInfo[]>
+        openImage(imagePath?: string): Promise<SerializedDeviceInfo | null>
+        unlock(request: {
+          sourcePath: string
+          offset: string
+          size: string
+          passphrase: string
+        }): Promise<SerializedDeviceInfo | null>
+        detectRaid(): Promise<SerializedRaidConfig[]>
+        assembleRaid(config: SerializedRaidConfig): Promise<SerializedDeviceInfo>
+        detectLvm(): Promise<SerializedLogicalVolume[]>
+        openLvm(volume: SerializedLogicalVolume): Promise<SerializedDeviceInfo>
       }
       scan: {
         start(config: unknown): Promise<{ sessionId: string }>
@@ -19,6 +35,7 @@ declare global {
         onComplete(cb: (result: unknown) => void): () => void
         onError(cb: (error: unknown) => void): () => void
       }
+      sessions: ElectronAPI['sessions']
       recovery: {
         start(config: unknown): Promise<void>
         pause(): Promise<void>
@@ -28,6 +45,24 @@ declare global {
         onComplete(cb: (result: unknown) => void): () => void
         onError(cb: (error: unknown) => void): () => void
       }
+      imaging: {
+        start(config: unknown): Promise<{ jobId: string }>
+        pause(jobId: string): Promise<void>
+        resume(jobId: string): Promise<void>
+        cancel(jobId: string): Promise<void>
+        onProgress(cb: (data: unknown) => void): () => void
+        onComplete(cb: (result: unknown) => void): () => void
+        onError(cb: (error: unknown) => void): () => void
+      }
+      partitionSearch: {
+        start(config: unknown): Promise<{ searchId: string }>
+        pause(searchId: string): Promise<void>
+        resume(searchId: string): Promise<void>
+        cancel(searchId: string): Promise<void>
+        onProgress(cb: (data: unknown) => void): () => void
+        onComplete(cb: (result: unknown) => void): () => void
+        onError(cb: (error: unknown) => void): () => void
+      }
       privilege: {
         check(): Promise<{
           elevated: boolean
@@ -50,6 +85,7 @@ declare global {
       }
       dialog: {
         selectDirectory(): Promise<string | null>
+        selectImageDestination(defaultName?: string): Promise<string | null>
       }
     }
   }
@@ -92,9 +128,75 @@ export function useDevices() {
     }
   }, [setDevices, setDevicesLoading])
 
+  /** Open a disk image, from `imagePath` or via a file picker. */
+  const openImage = useCallback(async (imagePath?: string) => {
+    setError(null)
+    try {
+      const image = await window.api.devices.openImage(imagePath)
+      if (!image) return null
+      const current = useAppStore.getState().devices
+      setDevices([...current.filter((d) => d.path !== image.path), image])
+      return image
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to open disk image'
+      setError(message)
+      return null
+    }
+  }, [setDevices])
+
+  /**
+   * Unlock an encrypted volume and add its decrypted view to the device
+   * list. Resolves to null when the passphrase is wrong; other failures
+   * are thrown for the caller to show next to the passphrase field.
+   */
+  const unlockVolume = useCallback(async (
+    sourcePath: string,
+    offset: string,
+    size: string,
+    passphrase: string
+  ) => {
+    const volume = await window.api.devices.unlock({ sourcePath, offset, size, passphrase })
+    if (!volume) return null
+    const current = useAppStore.getState().devices
+    setDevices([...current.filter((d) => d.path !== volume.path), volume])
+    return volume
+  }, [setDevices])
+
+  /**
+   * Assemble a virtual RAID array and add it to the device list. Failures
+   * are thrown for the caller to show next to the array settings.
+   */
+  const assembleRaid = useCallback(async (config: SerializedRaidConfig) => {
+    const array = await window.api.devices.assembleRaid(config)
+    const current = useAppStore.getState().devices
+    setDevices([...current.filter((d) => d.path !== array.path), array])
+    return array
+  }, [setDevices])
+
+  /**
+   * Map an LVM logical volume and add it to the device list. Failures are
+   * thrown for the caller to show next to the volume list.
+   */
+  const openLogicalVolume = useCallback(async (volume: SerializedLogicalVolume) => {
+    const device = await window.api.devices.openLvm(volume)
+    const current = useAppStore.getState().devices
+    setDevices([...current.filter((d) => d.path !== device.path), device])
+    return device
+  }, [setDevices])
+
   useEffect(() => {
     fetchDevices()
   }, [fetchDevices])
 
-  return { devices, loading: devicesLoading, error, refresh }
+  return {
+    devices,
+    loading: devicesLoading,
+    error,
+    refresh,
+    openImage,
+    unlockVolume,
+    assembleRaid,
+    openLogicalVolume,
+  }
 }
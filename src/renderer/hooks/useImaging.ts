@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useAppStore } from '../store'
+import type { SerializedImagingProgress } from '../store'
+
+export function useImaging() {
+  const imagingStatus = useAppStore((s) => s.imagingStatus)
+  const imagingProgress = useAppStore((s) => s.imagingProgress)
+  const imagingJobId = useAppStore((s) => s.imagingJobId)
+  const imagingImagePath = useAppStore((s) => s.imagingImagePath)
+  const imagingError = useAppStore((s) => s.imagingError)
+  const selectedDevice = useAppStore((s) => s.selectedDevice)
+
+  const setImagingStatus = useAppStore((s) => s.setImagingStatus)
+  const updateImagingProgress = useAppStore((s) => s.updateImagingProgress)
+  const setImagingJobId = useAppStore((s) => s.setImagingJobId)
+  const setImagingError = useAppStore((s) => s.setImagingError)
+
+  const cleanupRef = useRef<(() => void)[]>([])
+
+  // Set up IPC event listeners
+  useEffect(() => {
+    const unsubProgress = window.api.imaging.onProgress((data: unknown) => {
+      const { progress } = data as { jobId: string; progress: SerializedImagingProgress }
+      updateImagingProgress(progress)
+    })
+
+    const unsubComplete = window.api.imaging.onComplete((result: unknown) => {
+      const res = result as { jobId: string; imagePath: string; cancelled: boolean }
+      setImagingStatus(res.cancelled ? 'cancelled' : 'completed')
+    })
+
+    const unsubError = window.api.imaging.onError((error: unknown) => {
+      const err = error as { message?: string; jobId?: string }
+      setImagingError(err.message || 'Imaging failed with an unknown error')
+      setImagingStatus('error')
+    })
+
+    cleanupRef.current = [unsubProgress, unsubComplete, unsubError]
+
+    return () => {
+      cleanupRef.current.forEach((unsub) => unsub())
+      cleanupRef.current = []
+    }
+  }, [updateImagingProgress, setImagingStatus, setImagingError])
+
+  const start = useCallback(async () => {
+    if (!selectedDevice || !imagingImagePath) return
+
+    const config = {
+      devicePath: selectedDevice.path,
+      deviceSize: selectedDevice.size,
+      imagePath: imagingImagePath
+    }
+
+    try {
+      setImagingError(null)
+      setImagingStatus('imaging')
+      const { jobId } = await window.api.imaging.start(config)
+      setImagingJobId(jobId)
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to start imaging'
+      setImagingError(message)
+      setImagingStatus('error')
+    }
+  }, [
+    selectedDevice,
+    imagingImagePath,
+    setImagingStatus,
+    setImagingJobId,
+    setImagingError
+  ])
+
+  const pause = useCallback(async () => {
+    if (!imagingJobId) return
+    try {
+      await window.api.imaging.pause(imagingJobId)
+      setImagingStatus('paused')
+    } catch {
+      /* ignore */
+    }
+  }, [imagingJobId, setImagingStatus])
+
+  const resume = useCallback(async () => {
+    if (!imagingJobId) return
+    try {
+      await window.api.imaging.resume(imagingJobId)
+      setImagingStatus('imaging')
+    } catch {
+      /* ignore */
+    }
+  }, [imagingJobId, setImagingStatus])
+
+  // The status flips to 'cancelled' once the worker has saved its map
+  // file and reported completion.
+  const cancel = useCallback(async () => {
+    if (!imagingJobId) return
+    try {
+      await window.api.imaging.cancel(imagingJobId)
+    } catch {
+      /* ignore */
+    }
+  }, [imagingJobId])
+
+  return {
+    start,
+    pause,
+    resume,
+    cancel,
+    progress: imagingProgress,
+    status: imagingStatus,
+    imagePath: imagingImagePath,
+    error: imagingError
+  }
+}
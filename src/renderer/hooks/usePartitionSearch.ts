@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useAppStore } from '../store'
+import type {
+  SerializedLostPartitionCandidate,
+  SerializedPartitionSearchProgress
+} from '../store'
+
+export function usePartitionSearch() {
+  const partitionSearchStatus = useAppStore((s) => s.partitionSearchStatus)
+  const partitionSearchProgress = useAppStore((s) => s.partitionSearchProgress)
+  const partitionSearchId = useAppStore((s) => s.partitionSearchId)
+  const lostPartitions = useAppStore((s) => s.lostPartitions)
+  const partitionSearchError = useAppStore((s) => s.partitionSearchError)
+  const selectedDevice = useAppStore((s) => s.selectedDevice)
+
+  const setPartitionSearchStatus = useAppStore((s) => s.setPartitionSearchStatus)
+  const updatePartitionSearchProgress = useAppStore(
+    (s) => s.updatePartitionSearchProgress
+  )
+  const setPartitionSearchId = useAppStore((s) => s.setPartitionSearchId)
+  const setLostPartitions = useAppStore((s) => s.setLostPartitions)
+  const setPartitionSearchError = useAppStore((s) => s.setPartitionSearchError)
+
+  const cleanupRef = useRef<(() => void)[]>([])
+
+  // Set up IPC event listeners
+  useEffect(() => {
+    const unsubProgress = window.api.partitionSearch.onProgress(
+      (data: unknown) => {
+        const { progress } = data as {
+          searchId: string
+          progress: SerializedPartitionSearchProgress
+        }
+        updatePartitionSearchProgress(progress)
+      }
+    )
+
+    const unsubComplete = window.api.partitionSearch.onComplete(
+      (result: unknown) => {
+        const res = result as {
+          searchId: string
+          candidates: SerializedLostPartitionCandidate[]
+          cancelled: boolean
+        }
+        setLostPartitions(res.candidates)
+        setPartitionSearchStatus(res.cancelled ? 'cancelled' : 'completed')
+      }
+    )
+
+    const unsubError = window.api.partitionSearch.onError((error: unknown) => {
+      const err = error as { message?: string; searchId?: string }
+      setPartitionSearchError(
+        err.message || 'Partition search failed with an unknown error'
+      )
+      setPartitionSearchStatus('error')
+    })
+
+    cleanupRef.current = [unsubProgress, unsubComplete, unsubError]
+
+    return () => {
+      cleanupRef.current.forEach((unsub) => unsub())
+      cleanupRef.current = []
+    }
+  }, [
+    updatePartitionSearchProgress,
+    setLostPartitions,
+    setPartitionSearchStatus,
+    setPartitionSearchError
+  ])
+
+  const start = useCallback(async () => {
+    if (!selectedDevice) return
+
+    const config = {
+      devicePath: selectedDevice.path,
+      deviceSize: selectedDevice.size
+    }
+
+    try {
+      setPartitionSearchError(null)
+      setLostPartitions([])
+      setPartitionSearchStatus('searching')
+      const { searchId } = await window.api.partitionSearch.start(config)
+      setPartitionSearchId(searchId)
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : 'Failed to start partition search'
+      setPartitionSearchError(message)
+      setPartitionSearchStatus('error')
+    }
+  }, [
+    selectedDevice,
+    setPartitionSearchStatus,
+    setPartitionSearchId,
+    setLostPartitions,
+    setPartitionSearchError
+  ])
+
+  const pause = useCallback(async () => {
+    if (!partitionSearchId) return
+    try {
+      await window.api.partitionSearch.pause(partitionSearchId)
+      setPartitionSearchStatus('paused')
+    } catch {
+      /* ignore */
+    }
+  }, [partitionSearchId, setPartitionSearchStatus])
+
+  const resume = useCallback(async () => {
+    if (!partitionSearchId) return
+    try {
+      await window.api.partitionSearch.resume(partitionSearchId)
+      setPartitionSearchStatus('searching')
+    } catch {
+      /* ignore */
+    }
+  }, [partitionSearchId, setPartitionSearchStatus])
+
+  // The status flips to 'cancelled' once the worker has turned what it
+  // found so far into candidates.
+  const cancel = useCallback(async () => {
+    if (!partitionSearchId) return
+    try {
+      await window.api.partitionSearch.cancel(partitionSearchId)
+    } catch {
+      /* ignore */
+    }
+  }, [partitionSearchId])
+
+  return {
+    start,
+    pause,
+    resume,
+    cancel,
+    progress: partitionSearchProgress,
+    status: partitionSearchStatus,
+    candidates: lostPartitions,
+    error: partitionSearchError
+  }
+}
@@ -15,7 +15,9 @@ export function useScan() {
   const fileCategories = useAppStore((s) => s.fileCategories)
   const selectedFileTypes = useAppStore((s) => s.selectedFileTypes)
   const selectedPartition = useAppStore((s) => s.selectedPartition)
+  const carvingWorkers = useAppStore((s) => s.carvingWorkers)
   const scanSessionId = useAppStore((s) => s.scanSessionId)
+  const resumeSessionId = useAppStore((s) => s.resumeSessionId)
 
   const setScanStatus = useAppStore((s) => s.setScanStatus)
   const updateScanProgress = useAppStore((s) => s.updateScanProgress)
@@ -23,6 +25,7 @@ export function useScan() {
   const setScanSessionId = useAppStore((s) => s.setScanSessionId)
   const setScanStartedAt = useAppStore((s) => s.setScanStartedAt)
   const setScanError = useAppStore((s) => s.setScanError)
+  const setResumeSessionId = useAppStore((s) => s.setResumeSessionId)
 
   const cleanupRef = useRef<(() => void)[]>([])
 
@@ -80,15 +83,50 @@ export function useScan() {
   const start = useCallback(async () => {
     if (!selectedDevice) return
 
-    const config = {
-      devicePath: selectedDevice.path,
-      partitionPath: selectedPartition?.path,
-      scanType,
-      fileCategories,
-      fileTypes: selectedFileTypes,
-      deviceSize: selectedPartition?.size ?? selectedDevice.size
+    // Carry on with a saved session from its checkpoint
+    if (resumeSessionId) {
+      try {
+        setScanStatus('scanning')
+        setScanStartedAt(Date.now())
+        setScanError(null)
+        await window.api.sessions.resume(resumeSessionId)
+        setScanSessionId(resumeSessionId)
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : 'Failed to resume scan'
+        setScanError(message)
+        setScanStatus('error')
+      } finally {
+        setResumeSessionId(null)
+      }
+      return
     }
 
+    // Partitions inside disk images have no device node of their own; they
+    // share the image path and are addressed by an offset window instead.
+    const byOffset = selectedPartition?.path === selectedDevice.path
+
+    const config = byOffset && selectedPartition
+      ? {
+          devicePath: selectedDevice.path,
+          scanType,
+          fileCategories,
+          fileTypes: selectedFileTypes,
+          deviceSize: selectedDevice.size,
+          startOffset: selectedPartition.offset,
+          endOffset: (BigInt(selectedPartition.offset) + BigInt(selectedPartition.size)).toString(),
+          carvingWorkers: carvingWorkers ?? undefined
+        }
+      : {
+          devicePath: selectedDevice.path,
+          partitionPath: selectedPartition?.path,
+          scanType,
+          fileCategories,
+          fileTypes: selectedFileTypes,
+          deviceSize: selectedPartition?.size ?? selectedDevice.size,
+          carvingWorkers: carvingWorkers ?? undefined
+        }
+
     try {
       setScanStatus('scanning')
       setScanStartedAt(Date.now())
@@ -107,10 +145,13 @@ export function useScan() {
     scanType,
     fileCategories,
     selectedFileTypes,
+    carvingWorkers,
+    resumeSessionId,
     setScanStatus,
     setScanStartedAt,
     setScanError,
-    setScanSessionId
+    setScanSessionId,
+    setResumeSessionId
   ])
 
   const pause = useCallback(async () => {
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useAppStore } from '../store'
+import type {
+  SerializedDeviceInfo,
+  SerializedPartitionInfo,
+  SerializedRecoverableFile
+} from '../store'
+import type { SerializedSavedScanSession } from '../../preload/api-types'
+
+/** Path prefixes of decrypted volumes, assembled arrays and logical volumes */
+const VIRTUAL_SOURCE_PREFIXES = ['luks:', 'raid:', 'lvm:']
+
+function isVirtualSource(path: string): boolean {
+  return VIRTUAL_SOURCE_PREFIXES.some((prefix) => path.startsWith(prefix))
+}
+
+function isDevicePath(path: string): boolean {
+  return path.startsWith('/dev/') || path.startsWith('\\\\.\\')
+}
+
+export function useSessions() {
+  const selectDevice = useAppStore((s) => s.selectDevice)
+  const setSelectedPartition = useAppStore((s) => s.setSelectedPartition)
+  const resetScan = useAppStore((s) => s.resetScan)
+  const addFoundFiles = useAppStore((s) => s.addFoundFiles)
+  const updateScanProgress = useAppStore((s) => s.updateScanProgress)
+  const setScanSessionId = useAppStore((s) => s.setScanSessionId)
+  const setScanStatus = useAppStore((s) => s.setScanStatus)
+  const setResumeSessionId = useAppStore((s) => s.setResumeSessionId)
+  const setSavedFilesPosition = useAppStore((s) => s.setSavedFilesPosition)
+  const setDevices = useAppStore((s) => s.setDevices)
+
+  const [sessions, setSessions] = useState<SerializedSavedScanSession[]>([])
+  const [loading, setLoading] = useState(false)
+  const [busySessionId, setBusySessionId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      setSessions(await window.api.sessions.list())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to list scan sessions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /**
+   * Select the device and partition a session scanned. A disk image is
+   * opened again if needed; a device must be connected, and a decrypted
+   * volume, array or logical volume opened again from the device list.
+   */
+  const selectSource = useCallback(async (session: SerializedSavedScanSession) => {
+    const { config } = session
+    let device: SerializedDeviceInfo | null | undefined =
+      useAppStore.getState().devices.find((d) => d.path === config.devicePath)
+
+    if (!device && isVirtualSource(config.devicePath)) {
+      throw new Error('Open the volume this session scanned again (unlock, assemble or map it) from the device list first.')
+    }
+    if (!device && isDevicePath(config.devicePath)) {
+      throw new Error(`${config.devicePath} is not connected.`)
+    }
+    if (!device) {
+      device = await window.api.devices.openImage(config.devicePath)
+      if (!device) throw new Error(`Cannot open ${config.devicePath}.`)
+      const current = useAppStore.getState().devices
+      setDevices([...current.filter((d) => d.path !== device!.path), device])
+    }
+
+    // A partition window, such as a lost partition, is added back to the
+    // device like the lost partition search does.
+    let partition: SerializedPartitionInfo | null = null
+    if (config.partitionPath) {
+      partition = device.partitions.find((p) => p.path === config.partitionPath) ?? null
+      if (!partition) throw new Error(`${config.partitionPath} is not connected.`)
+    } else if (config.startOffset !== undefined && config.endOffset !== undefined) {
+      const size = (BigInt(config.endOffset) - BigInt(config.startOffset)).toString()
+      partition =
+        device.partitions.find((p) => p.offset === config.startOffset && p.size === size) ?? {
+          id: `${device.id}-session-${config.startOffset}`,
+          path: device.path,
+          label: `Partition at byte ${config.startOffset}`,
+          size,
+          offset: config.startOffset
+        }
+      if (!device.partitions.some((p) => p.id === partition!.id)) {
+        device = { ...device, partitions: [...device.partitions, partition] }
+      }
+    }
+
+    selectDevice(device)
+    setSelectedPartition(partition)
+  }, [selectDevice, setSelectedPartition, setDevices])
+
+  /**
+   * Load the first page of a session's found files into the store. A deep
+   * scan can save millions of files, so the rest are loaded on demand from
+   * the file list (see useSavedFiles).
+   */
+  const loadFiles = useCallback(async (sessionId: string) => {
+    const page = await window.api.sessions.files(sessionId, 0)
+    addFoundFiles(page.files as SerializedRecoverableFile[])
+    setSavedFilesPosition(page.next)
+  }, [addFoundFiles, setSavedFilesPosition])
+
+  /**
+   * Reopen a session's results. Resolves to false if its source could not
+   * be opened or its files could not be read.
+   */
+  const open = useCallback(async (session: SerializedSavedScanSession) => {
+    setBusySessionId(session.id)
+    setError(null)
+    try {
+      resetScan()
+      await selectSource(session)
+      await loadFiles(session.id)
+      updateScanProgress(session.progress)
+      setScanSessionId(session.id)
+      setScanStatus(session.status === 'completed' ? 'completed' : 'cancelled')
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open scan session')
+      return false
+    } finally {
+      setBusySessionId(null)
+    }
+  }, [resetScan, selectSource, loadFiles, updateScanProgress, setScanSessionId, setScanStatus])
+
+  /**
+   * Prepare to carry on with an unfinished session: its files are loaded
+   * and the scan page resumes it from its checkpoint instead of starting
+   * a new scan.
+   */
+  const resume = useCallback(async (session: SerializedSavedScanSession) => {
+    setBusySessionId(session.id)
+    setError(null)
+    try {
+      resetScan()
+      await selectSource(session)
+      await loadFiles(session.id)
+      updateScanProgress(session.progress)
+      setResumeSessionId(session.id)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume scan session')
+      return false
+    } finally {
+      setBusySessionId(null)
+    }
+  }, [resetScan, selectSource, loadFiles, updateScanProgress, setResumeSessionId])
+
+  const remove = useCallback(async (sessionId: string) => {
+    setError(null)
+    try {
+      await window.api.sessions.remove(sessionId)
+      setSessions((current) => current.filter((s) => s.id !== sessionId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scan session')
+    }
+  }, [])
+
+  return {
+    sessions,
+    loading,
+    busySessionId,
+    error,
+    refresh,
+    open,
+    resume,
+    remove
+  }
+}
+
+/**
+ * Load more of a reopened session's saved files, a page at a time.
+ * `hasMore` is false for a scan started in this app session, whose files
+ * all arrive as it runs.
+ */
+export function useSavedFiles() {
+  const scanSessionId = useAppStore((s) => s.scanSessionId)
+  const savedFilesPosition = useAppStore((s) => s.savedFilesPosition)
+  const addFoundFiles = useAppStore((s) => s.addFoundFiles)
+  const setSavedFilesPosition = useAppStore((s) => s.setSavedFilesPosition)
+
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadMore = useCallback(async () => {
+    if (!scanSessionId || savedFilesPosition === null) return
+    setLoading(true)
+    setError(null)
+    try {
+      const page = await window.api.sessions.files(scanSessionId, savedFilesPosition)
+      // A resumed scan saves the files it finds as well as sending them to
+      // the list, so later pages can hold files that are already loaded.
+      const loaded = new Set(useAppStore.getState().foundFiles.map((f) => f.id))
+      addFoundFiles(
+        (page.files as SerializedRecoverableFile[]).filter((f) => !loaded.has(f.id))
+      )
+      setSavedFilesPosition(page.next)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read scan results')
+    } finally {
+      setLoading(false)
+    }
+  }, [scanSessionId, savedFilesPosition, addFoundFiles, setSavedFilesPosition])
+
+  return {
+    hasMore: scanSessionId !== null && savedFilesPosition !== null,
+    loading,
+    error,
+    loadMore
+  }
+}
@@ -1,21 +1,39 @@
 import { useEffect, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { RefreshCw, ShieldAlert, ChevronRight } from 'lucide-react'
+import { RefreshCw, ShieldAlert, ChevronRight, FilePlus, HardDriveDownload, ScanSearch, Lock, Layers, Boxes, History } from 'lucide-react'
 import { useDevices } from '../hooks/useDevices'
 import { useAppStore } from '../store'
 import DeviceCard from '../components/DeviceCard'
+import UnlockVolumeDialog, { encryptedVolumesOf } from '../components/UnlockVolumeDialog'
+import AssembleRaidDialog from '../components/AssembleRaidDialog'
+import LogicalVolumesDialog from '../components/LogicalVolumesDialog'
 
 export default function DeviceSelectionPage() {
   const navigate = useNavigate()
-  const { devices, loading, error, refresh } = useDevices()
+  const {
+    devices,
+    loading,
+    error,
+    refresh,
+    openImage,
+    unlockVolume,
+    assembleRaid,
+    openLogicalVolume,
+  } = useDevices()
   const selectedDevice = useAppStore((s) => s.selectedDevice)
   const selectDevice = useAppStore((s) => s.selectDevice)
   const setCurrentStep = useAppStore((s) => s.setCurrentStep)
   const privilege = useAppStore((s) => s.privilege)
   const setPrivilege = useAppStore((s) => s.setPrivilege)
   const addError = useAppStore((s) => s.addError)
+  const resetPartitionSearch = useAppStore((s) => s.resetPartitionSearch)
 
   const [elevating, setElevating] = useState(false)
+  const [unlockOpen, setUnlockOpen] = useState(false)
+  const [raidOpen, setRaidOpen] = useState(false)
+  const [lvmOpen, setLvmOpen] = useState(false)
+
+  const hasEncryptedVolume = !!selectedDevice && encryptedVolumesOf(selectedDevice).length > 0
 
   // Set step on mount
   useEffect(() => {
@@ -51,19 +69,40 @@ export default function DeviceSelectionPage() {
     }
   }
 
+  const handleOpenImage = async () => {
+    const image = await openImage()
+    if (image) selectDevice(image)
+  }
+
   const handleNext = () => {
     if (!selectedDevice) return
     navigate('/scan-config')
   }
 
+  const handleFindPartitions = () => {
+    if (!selectedDevice) return
+    resetPartitionSearch()
+    navigate('/lost-partitions')
+  }
+
   return (
     <div className="mx-auto max-w-4xl px-6 py-8">
       {/* Page header */}
-      <div className="mb-6">
-        <h2 className="text-xl font-bold text-white">Select Device</h2>
-        <p className="mt-1 text-sm text-gray-400">
-          Choose a device to scan for recoverable files
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-white">Select Device</h2>
+          <p className="mt-1 text-sm text-gray-400">
+            Choose a device to scan for recoverable files
+          </p>
+        </div>
+        <button
+          onClick={() => navigate('/sessions')}
+          title="Reopen the results of an earlier scan, or resume an unfinished one."
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+        >
+          <History className="h-4 w-4" />
+          Recent sessions
+        </button>
       </div>
 
       {/* Privilege warning */}
@@ -94,16 +133,39 @@ export default function DeviceSelectionPage() {
         <span className="text-sm text-gray-500">
           {devices.length} device{devices.length !== 1 ? 's' : ''} found
         </span>
-        <button
-          onClick={refresh}
-          disabled={loading}
-          className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:opacity-50"
-        >
-          <RefreshCw
-            className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`}
-          />
-          Refresh
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleOpenImage}
+            className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+          >
+            <FilePlus className="h-4 w-4" />
+            Open image…
+          </button>
+          <button
+            onClick={() => setRaidOpen(true)}
+            className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+          >
+            <Layers className="h-4 w-4" />
+            Assemble RAID…
+          </button>
+          <button
+            onClick={() => setLvmOpen(true)}
+            className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+          >
+            <Boxes className="h-4 w-4" />
+            LVM volumes…
+          </button>
+          <button
+            onClick={refresh}
+            disabled={loading}
+            className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:opacity-50"
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`}
+            />
+            Refresh
+          </button>
+        </div>
       </div>
 
       {/* Error state */}
@@ -143,7 +205,34 @@ export default function DeviceSelectionPage() {
       </div>
 
       {/* Footer actions */}
-      <div className="mt-8 flex justify-end">
+      <div className="mt-8 flex justify-end gap-3">
+        <button
+          onClick={() => navigate('/imaging')}
+          disabled={!selectedDevice || selectedDevice.type === 'image'}
+          title="Copy the device to an image file first, then scan the image. Recommended for failing devices."
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <HardDriveDownload className="h-4 w-4" />
+          Image device…
+        </button>
+        <button
+          onClick={() => setUnlockOpen(true)}
+          disabled={!hasEncryptedVolume}
+          title="Decrypt a LUKS volume with its passphrase so its files can be scanned."
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <Lock className="h-4 w-4" />
+          Unlock…
+        </button>
+        <button
+          onClick={handleFindPartitions}
+          disabled={!selectedDevice}
+          title="Search the whole device for filesystems the partition table no longer lists."
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:cursor-not-allowed disabled:opacity-40"
+        >
+          <ScanSearch className="h-4 w-4" />
+          Find lost partitions…
+        </button>
         <button
           onClick={handleNext}
           disabled={!selectedDevice}
@@ -153,6 +242,31 @@ export default function DeviceSelectionPage() {
           <ChevronRight className="h-4 w-4" />
         </button>
       </div>
+
+      {selectedDevice && (
+        <UnlockVolumeDialog
+          device={selectedDevice}
+          open={unlockOpen}
+          onOpenChange={setUnlockOpen}
+          onUnlock={unlockVolume}
+          onUnlocked={selectDevice}
+        />
+      )}
+
+      <AssembleRaidDialog
+        devices={devices}
+        open={raidOpen}
+        onOpenChange={setRaidOpen}
+        onAssemble={assembleRaid}
+        onAssembled={selectDevice}
+      />
+
+      <LogicalVolumesDialog
+        open={lvmOpen}
+        onOpenChange={setLvmOpen}
+        onOpenVolume={openLogicalVolume}
+        onOpened={selectDevice}
+      />
     </div>
   )
 }
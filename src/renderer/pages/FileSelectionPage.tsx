@@ -13,9 +13,11 @@ import {
   FileText,
   Music,
   Archive,
-  Database
+  Database,
+  RefreshCw
 } from 'lucide-react'
 import { useAppStore } from '../store'
+import { useSavedFiles } from '../hooks/useSessions'
 import type { SerializedRecoverableFile } from '../store'
 import type { FileCategory } from '../../shared/types'
 import FileTable from '../components/FileTable'
@@ -51,6 +53,7 @@ export default function FileSelectionPage() {
   const setPreviewFileId = useAppStore((s) => s.setPreviewFileId)
   const previewFileId = useAppStore((s) => s.previewFileId)
   const setCurrentStep = useAppStore((s) => s.setCurrentStep)
+  const savedFiles = useSavedFiles()
 
   const [viewMode, setViewMode] = useState<ViewMode>('table')
   const [categoryFilter, setCategoryFilter] = useState<FileCategory | 'all'>(
@@ -121,7 +124,7 @@ export default function FileSelectionPage() {
               <h2 className="text-xl font-bold text-white">Select Files</h2>
               <p className="mt-1 text-sm text-gray-400">
                 {foundFiles.length} file{foundFiles.length !== 1 ? 's' : ''}{' '}
-                found
+                {savedFiles.hasMore ? 'loaded from the saved session' : 'found'}
               </p>
             </div>
             <div className="flex items-center gap-2">
@@ -245,6 +248,23 @@ export default function FileSelectionPage() {
               onFileClick={handleFileClick}
             />
           )}
+
+          {/* Saved session results not loaded yet */}
+          {savedFiles.hasMore && (
+            <div className="mt-4 flex flex-col items-center gap-2">
+              <button
+                onClick={savedFiles.loadMore}
+                disabled={savedFiles.loading}
+                className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:opacity-50"
+              >
+                <RefreshCw className={`h-4 w-4 ${savedFiles.loading ? 'animate-spin' : ''}`} />
+                Load more results
+              </button>
+              {savedFiles.error && (
+                <p className="text-xs text-red-400">{savedFiles.error}</p>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
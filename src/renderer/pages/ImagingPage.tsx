@@ -0,0 +1,341 @@
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  HardDriveDownload,
+  ChevronLeft,
+  Pause,
+  Play,
+  Square,
+  CheckCircle2,
+  XCircle,
+  Search
+} from 'lucide-react'
+import { useImaging } from '../hooks/useImaging'
+import { useDevices } from '../hooks/useDevices'
+import { useAppStore } from '../store'
+import type { ImagingPhase } from '../../shared/types'
+import ProgressBar from '../components/ProgressBar'
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+const PHASE_LABELS: Record<ImagingPhase, string> = {
+  copying: 'Copying',
+  trimming: 'Trimming',
+  scraping: 'Scraping',
+  retrying: 'Retrying bad sectors',
+  finished: 'Finished'
+}
+
+/** Suggested image file name for a device, e.g. "SanDisk_Ultra.img". */
+function defaultImageName(deviceName: string): string {
+  const base = deviceName.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '')
+  return `${base || 'device'}.img`
+}
+
+export default function ImagingPage() {
+  const navigate = useNavigate()
+  const { start, pause, resume, cancel, progress, status, imagePath, error } =
+    useImaging()
+  const { openImage } = useDevices()
+
+  const selectedDevice = useAppStore((s) => s.selectedDevice)
+  const selectDevice = useAppStore((s) => s.selectDevice)
+  const setImagingImagePath = useAppStore((s) => s.setImagingImagePath)
+  const resetImaging = useAppStore((s) => s.resetImaging)
+  const resetScan = useAppStore((s) => s.resetScan)
+  const setCurrentStep = useAppStore((s) => s.setCurrentStep)
+  const addError = useAppStore((s) => s.addError)
+
+  useEffect(() => {
+    setCurrentStep(1)
+  }, [setCurrentStep])
+
+  // Nothing to image without a device
+  useEffect(() => {
+    if (!selectedDevice) navigate('/')
+  }, [selectedDevice, navigate])
+
+  const handleSelectDestination = async () => {
+    if (!selectedDevice) return
+    try {
+      const file = await window.api.dialog.selectImageDestination(
+        defaultImageName(selectedDevice.name)
+      )
+      if (file) setImagingImagePath(file)
+    } catch (err) {
+      addError(
+        err instanceof Error ? err.message : 'Failed to select destination'
+      )
+    }
+  }
+
+  const handleBack = () => {
+    resetImaging()
+    navigate('/')
+  }
+
+  // Open the finished image as a device and continue with a scan of it,
+  // so the failing source is not read again.
+  const handleScanImage = async () => {
+    if (!imagePath) return
+    const image = await openImage(imagePath)
+    if (!image) {
+      addError('Failed to open the image file')
+      return
+    }
+    selectDevice(image)
+    resetScan()
+    resetImaging()
+    navigate('/scan-config')
+  }
+
+  const isConfiguring = status === 'idle'
+  const isRunning = status === 'imaging' || status === 'paused'
+  const isDone =
+    status === 'completed' || status === 'cancelled' || status === 'error'
+
+  const percentage = progress?.percentage ?? 0
+
+  const stats = progress
+    ? [
+        { label: 'Rescued', value: formatBytes(progress.rescuedBytes) },
+        { label: 'Not tried', value: formatBytes(progress.nonTriedBytes) },
+        { label: 'Not trimmed', value: formatBytes(progress.nonTrimmedBytes) },
+        { label: 'Not scraped', value: formatBytes(progress.nonScrapedBytes) },
+        {
+          label: 'Bad areas',
+          value: `${progress.badAreas} (${formatBytes(progress.badBytes)})`
+        },
+        { label: 'Read rate', value: `${formatBytes(String(progress.readRate))}/s` }
+      ]
+    : []
+
+  return (
+    <div className="mx-auto max-w-3xl px-6 py-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-white">
+          {isConfiguring
+            ? 'Image Device'
+            : isDone
+              ? status === 'completed'
+                ? 'Imaging Complete'
+                : status === 'cancelled'
+                  ? 'Imaging Stopped'
+                  : 'Imaging Failed'
+              : 'Imaging Device'}
+        </h2>
+        <p className="mt-1 text-sm text-gray-400">
+          {selectedDevice
+            ? `${selectedDevice.name} (${formatBytes(selectedDevice.size)})`
+            : ''}
+        </p>
+      </div>
+
+      {/* ─── Configuration ────────────────────────────────────── */}
+      {isConfiguring && (
+        <>
+          <section className="mb-6">
+            <h3 className="mb-2 text-sm font-semibold text-gray-300">
+              Image File
+            </h3>
+            <div className="flex items-center gap-3">
+              <div className="flex min-w-0 flex-1 items-center gap-2 rounded-lg border border-surface-lighter bg-surface-light px-4 py-2.5">
+                <HardDriveDownload className="h-4 w-4 shrink-0 text-gray-500" />
+                <span
+                  className={`truncate text-sm ${imagePath ? 'text-gray-200' : 'text-gray-600'}`}
+                >
+                  {imagePath || 'No file selected'}
+                </span>
+              </div>
+              <button
+                onClick={handleSelectDestination}
+                className="shrink-0 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+              >
+                Browse...
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              The device is copied in passes: readable areas first, then the
+              edges of damaged areas, then what is left, one sector at a time.
+              Progress is kept in a GNU ddrescue-compatible map file next to
+              the image
+              {imagePath && (
+                <>
+                  {' '}(<span className="font-mono">{imagePath}.map</span>)
+                </>
+              )}
+              ; choosing an image that already has one resumes the job.
+            </p>
+          </section>
+
+          <div className="flex justify-between">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </button>
+            <button
+              onClick={start}
+              disabled={!imagePath || !selectedDevice}
+              className="rounded-lg bg-primary-600 px-6 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              Start Imaging
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ─── Imaging In Progress ─────────────────────────────── */}
+      {isRunning && (
+        <>
+          <div className="mb-6">
+            <div className="mb-2 flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-200">
+                {progress
+                  ? `${PHASE_LABELS[progress.phase]} (pass ${progress.pass})`
+                  : 'Starting...'}
+                {status === 'paused' && (
+                  <span className="ml-2 text-amber-400">Paused</span>
+                )}
+              </span>
+              {progress?.resumed && (
+                <span className="text-xs text-gray-500">
+                  Resumed from map file
+                </span>
+              )}
+            </div>
+            <ProgressBar value={percentage} size="lg" />
+            <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+              <span>
+                Position {formatBytes(progress?.currentPosition ?? '0')}
+              </span>
+              <span>
+                {formatBytes(progress?.rescuedBytes ?? '0')} /{' '}
+                {formatBytes(progress?.totalBytes ?? selectedDevice?.size ?? '0')}
+              </span>
+            </div>
+          </div>
+
+          <ImagingStats stats={stats} />
+
+          <div className="flex items-center justify-center gap-3">
+            {status === 'imaging' ? (
+              <button
+                onClick={pause}
+                className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+              >
+                <Pause className="h-4 w-4" />
+                Pause
+              </button>
+            ) : (
+              <button
+                onClick={resume}
+                className="flex items-center gap-2 rounded-lg bg-primary-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+              >
+                <Play className="h-4 w-4" />
+                Resume
+              </button>
+            )}
+            <button
+              onClick={cancel}
+              className="flex items-center gap-2 rounded-lg bg-red-500/10 px-5 py-2.5 text-sm text-red-300 transition-colors hover:bg-red-500/20"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ─── Imaging Done ─────────────────────────────────────── */}
+      {isDone && (
+        <>
+          <div className="mb-6 flex flex-col items-center gap-4 py-8">
+            {status === 'completed' ? (
+              <CheckCircle2 className="h-16 w-16 text-green-400" />
+            ) : status === 'cancelled' ? (
+              <Square className="h-16 w-16 text-amber-400" />
+            ) : (
+              <XCircle className="h-16 w-16 text-red-400" />
+            )}
+            <div className="text-center">
+              <p className="text-sm text-gray-400">
+                {status === 'completed'
+                  ? progress && progress.badAreas > 0
+                    ? `${formatBytes(progress.badBytes)} in ${progress.badAreas} bad area${progress.badAreas !== 1 ? 's' : ''} could not be read and ${progress.badAreas !== 1 ? 'are' : 'is'} zero-filled in the image.`
+                    : 'The whole device was copied without errors.'
+                  : status === 'cancelled'
+                    ? 'Imaging can be resumed later from the map file.'
+                    : error}
+              </p>
+              {imagePath && (
+                <p className="mt-1 truncate font-mono text-xs text-gray-500">
+                  {imagePath}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <ImagingStats stats={stats} />
+
+          <div className="flex items-center justify-center gap-3">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Back to Devices
+            </button>
+            {status === 'cancelled' && (
+              <button
+                onClick={start}
+                className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+              >
+                <Play className="h-4 w-4" />
+                Resume Imaging
+              </button>
+            )}
+            {status !== 'error' && (
+              <button
+                onClick={handleScanImage}
+                className="flex items-center gap-2 rounded-lg bg-primary-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+              >
+                <Search className="h-4 w-4" />
+                Scan Image
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function ImagingStats({ stats }: { stats: { label: string; value: string }[] }) {
+  if (stats.length === 0) return null
+
+  return (
+    <div className="mb-6 grid grid-cols-3 gap-3">
+      {stats.map((stat) => (
+        <div
+          key={stat.label}
+          className="rounded-lg border border-surface-lighter bg-surface-light px-4 py-3"
+        >
+          <p className="text-xs text-gray-500">{stat.label}</p>
+          <p className="mt-0.5 text-sm font-medium text-gray-200">
+            {stat.value}
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  ScanSearch,
+  ChevronLeft,
+  Pause,
+  Play,
+  Square,
+  Search,
+  Clock
+} from 'lucide-react'
+import { usePartitionSearch } from '../hooks/usePartitionSearch'
+import { useAppStore } from '../store'
+import type {
+  SerializedLostPartitionCandidate,
+  SerializedPartitionInfo
+} from '../store'
+import ProgressBar from '../components/ProgressBar'
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+function formatTime(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`
+  if (seconds < 3600) {
+    const m = Math.floor(seconds / 60)
+    const s = Math.round(seconds % 60)
+    return `${m}m ${s}s`
+  }
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  return `${h}h ${m}m`
+}
+
+const FILESYSTEM_LABELS: Record<string, string> = {
+  fat32: 'FAT32',
+  exfat: 'exFAT',
+  ntfs: 'NTFS',
+  ext4: 'ext2/3/4',
+  'hfs+': 'HFS+'
+}
+
+function confidenceClass(confidence: number): string {
+  if (confidence >= 80) return 'bg-green-500/10 text-green-300'
+  if (confidence >= 50) return 'bg-amber-500/10 text-amber-300'
+  return 'bg-red-500/10 text-red-300'
+}
+
+export default function LostPartitionsPage() {
+  const navigate = useNavigate()
+  const { start, pause, resume, cancel, progress, status, candidates, error } =
+    usePartitionSearch()
+
+  const selectedDevice = useAppStore((s) => s.selectedDevice)
+  const selectDevice = useAppStore((s) => s.selectDevice)
+  const setSelectedPartition = useAppStore((s) => s.setSelectedPartition)
+  const setScanType = useAppStore((s) => s.setScanType)
+  const resetScan = useAppStore((s) => s.resetScan)
+  const resetPartitionSearch = useAppStore((s) => s.resetPartitionSearch)
+  const setCurrentStep = useAppStore((s) => s.setCurrentStep)
+
+  useEffect(() => {
+    setCurrentStep(1)
+  }, [setCurrentStep])
+
+  // Nothing to search without a device
+  useEffect(() => {
+    if (!selectedDevice) navigate('/')
+  }, [selectedDevice, navigate])
+
+  const handleBack = () => {
+    if (status === 'searching' || status === 'paused') cancel()
+    resetPartitionSearch()
+    navigate('/')
+  }
+
+  // Add the candidate to the device as an offset window, so the quick
+  // scan reads it with the filesystem parsers like any other partition.
+  const handleOpen = (candidate: SerializedLostPartitionCandidate) => {
+    if (!selectedDevice) return
+    const fsName = FILESYSTEM_LABELS[candidate.filesystem] ?? candidate.filesystem
+    const partition: SerializedPartitionInfo = {
+      id: `${selectedDevice.id}-lost-${candidate.offset}`,
+      path: selectedDevice.path,
+      label: `${candidate.label ?? fsName} at ${formatBytes(candidate.offset)}`,
+      size: candidate.size,
+      offset: candidate.offset,
+      filesystem: candidate.filesystem
+    }
+    selectDevice({
+      ...selectedDevice,
+      partitions: [
+        ...selectedDevice.partitions.filter((p) => p.id !== partition.id),
+        partition
+      ]
+    })
+    resetScan()
+    setScanType('quick')
+    setSelectedPartition(partition)
+    navigate('/scan-config')
+  }
+
+  const isIdle = status === 'idle'
+  const isRunning = status === 'searching' || status === 'paused'
+  const isDone =
+    status === 'completed' || status === 'cancelled' || status === 'error'
+
+  return (
+    <div className="mx-auto max-w-3xl px-6 py-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-white">
+          {isDone
+            ? status === 'error'
+              ? 'Partition Search Failed'
+              : 'Lost Partitions'
+            : 'Find Lost Partitions'}
+        </h2>
+        <p className="mt-1 text-sm text-gray-400">
+          {selectedDevice
+            ? `${selectedDevice.name} (${formatBytes(selectedDevice.size)})`
+            : ''}
+        </p>
+      </div>
+
+      {/* ─── Start ────────────────────────────────────────────── */}
+      {isIdle && (
+        <>
+          <p className="mb-6 text-sm text-gray-400">
+            Reads the whole device looking for FAT32, exFAT and NTFS boot
+            sectors, ext2/3/4 superblocks and HFS+ volume headers, including
+            their backup copies. Use this when a card was repartitioned or its
+            partition table was wiped and a quick scan finds nothing.
+          </p>
+          <div className="flex justify-between">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Back
+            </button>
+            <button
+              onClick={start}
+              disabled={!selectedDevice}
+              className="flex items-center gap-2 rounded-lg bg-primary-600 px-6 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <ScanSearch className="h-4 w-4" />
+              Start Search
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ─── Search In Progress ───────────────────────────────── */}
+      {isRunning && (
+        <>
+          <div className="mb-6">
+            <div className="mb-2 flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-200">
+                {progress
+                  ? `${progress.signaturesFound} signature${progress.signaturesFound !== 1 ? 's' : ''} found`
+                  : 'Starting...'}
+                {status === 'paused' && (
+                  <span className="ml-2 text-amber-400">Paused</span>
+                )}
+              </span>
+              {progress?.estimatedTimeRemaining != null && (
+                <span className="flex items-center gap-1 text-xs text-gray-500">
+                  <Clock className="h-3.5 w-3.5" />
+                  {formatTime(progress.estimatedTimeRemaining)} remaining
+                </span>
+              )}
+            </div>
+            <ProgressBar value={progress?.percentage ?? 0} size="lg" />
+            <div className="mt-2 flex items-center justify-between text-xs text-gray-500">
+              <span>
+                {progress && progress.sectorsWithErrors > 0
+                  ? `${progress.sectorsWithErrors} unreadable sectors`
+                  : ''}
+              </span>
+              <span>
+                {formatBytes(progress?.bytesScanned ?? '0')} /{' '}
+                {formatBytes(progress?.totalBytes ?? selectedDevice?.size ?? '0')}
+              </span>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-center gap-3">
+            {status === 'searching' ? (
+              <button
+                onClick={pause}
+                className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+              >
+                <Pause className="h-4 w-4" />
+                Pause
+              </button>
+            ) : (
+              <button
+                onClick={resume}
+                className="flex items-center gap-2 rounded-lg bg-primary-600 px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+              >
+                <Play className="h-4 w-4" />
+                Resume
+              </button>
+            )}
+            <button
+              onClick={cancel}
+              className="flex items-center gap-2 rounded-lg bg-red-500/10 px-5 py-2.5 text-sm text-red-300 transition-colors hover:bg-red-500/20"
+            >
+              <Square className="h-4 w-4" />
+              Stop
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* ─── Results ──────────────────────────────────────────── */}
+      {isDone && (
+        <>
+          {status === 'error' ? (
+            <p className="mb-6 text-sm text-red-300">{error}</p>
+          ) : (
+            <>
+              <p className="mb-4 text-sm text-gray-400">
+                {candidates.length === 0
+                  ? 'No filesystems were found on this device.'
+                  : `${candidates.length} filesystem${candidates.length !== 1 ? 's' : ''} found. Scan one to recover its files.`}
+                {status === 'cancelled' &&
+                  ' The search was stopped early, so later partitions may be missing.'}
+              </p>
+              <div className="mb-6 space-y-2">
+                {candidates.map((candidate) => (
+                  <CandidateRow
+                    key={candidate.id}
+                    candidate={candidate}
+                    onOpen={() => handleOpen(candidate)}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="flex items-center justify-center gap-3">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Back to Devices
+            </button>
+            <button
+              onClick={start}
+              className="flex items-center gap-2 rounded-lg bg-surface-light px-5 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+            >
+              <ScanSearch className="h-4 w-4" />
+              Search Again
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+// ─── Internal components ────────────────────────────────────
+
+function CandidateRow({
+  candidate,
+  onOpen
+}: {
+  candidate: SerializedLostPartitionCandidate
+  onOpen: () => void
+}) {
+  return (
+    <div className="flex items-center gap-4 rounded-lg border border-surface-lighter bg-surface-light px-4 py-3">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-200">
+            {FILESYSTEM_LABELS[candidate.filesystem] ?? candidate.filesystem}
+          </span>
+          {candidate.label && (
+            <span className="truncate text-sm text-gray-400">
+              {candidate.label}
+            </span>
+          )}
+          <span
+            className={`rounded px-1.5 py-0.5 text-xs ${confidenceClass(candidate.confidence)}`}
+          >
+            {candidate.confidence}%
+          </span>
+          {candidate.inPartitionTable && (
+            <span className="rounded bg-surface-lighter px-1.5 py-0.5 text-xs text-gray-400">
+              In partition table
+            </span>
+          )}
+        </div>
+        <p className="mt-0.5 text-xs text-gray-500">
+          Start {formatBytes(candidate.offset)} (byte {candidate.offset}) ·
+          Size {formatBytes(candidate.size)}
+        </p>
+        <p className="mt-0.5 truncate text-xs text-gray-600">
+          {candidate.evidence.join(' · ')}
+        </p>
+      </div>
+      <button
+        onClick={onOpen}
+        className="flex shrink-0 items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500"
+      >
+        <Search className="h-4 w-4" />
+        Scan
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import {
+  ChevronLeft,
+  FolderOpen,
+  History,
+  Play,
+  RefreshCw,
+  Trash2
+} from 'lucide-react'
+import { useSessions } from '../hooks/useSessions'
+import { useAppStore } from '../store'
+import type { SerializedSavedScanSession } from '../../preload/api-types'
+import ProgressBar from '../components/ProgressBar'
+
+function formatBytes(sizeStr: string): string {
+  const bytes = Number(sizeStr)
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(1024))
+  const value = bytes / Math.pow(1024, i)
+  return `${value.toFixed(i === 0 ? 0 : 1)} ${units[i]}`
+}
+
+function statusBadge(session: SerializedSavedScanSession): { label: string; className: string } {
+  if (session.running) return { label: 'Running', className: 'bg-primary-500/10 text-primary-300' }
+  if (session.status === 'completed') return { label: 'Completed', className: 'bg-green-500/10 text-green-300' }
+  if (session.status === 'error') return { label: 'Failed', className: 'bg-red-500/10 text-red-300' }
+  // Cancelled, or still scanning when the app was closed
+  return { label: 'Unfinished', className: 'bg-amber-500/10 text-amber-300' }
+}
+
+export default function RecentSessionsPage() {
+  const navigate = useNavigate()
+  const { sessions, loading, busySessionId, error, refresh, open, resume, remove } =
+    useSessions()
+  const setCurrentStep = useAppStore((s) => s.setCurrentStep)
+
+  useEffect(() => {
+    setCurrentStep(1)
+  }, [setCurrentStep])
+
+  const handleOpen = async (session: SerializedSavedScanSession) => {
+    if (await open(session)) navigate('/files')
+  }
+
+  const handleResume = async (session: SerializedSavedScanSession) => {
+    if (await resume(session)) navigate('/scanning')
+  }
+
+  return (
+    <div className="mx-auto max-w-3xl px-6 py-8">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold text-white">Recent Sessions</h2>
+        <p className="mt-1 text-sm text-gray-400">
+          Scans are saved as they run. Reopen their results, or carry on with
+          an unfinished scan from where it stopped.
+        </p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="mb-4 flex items-center justify-between">
+        <span className="text-sm text-gray-500">
+          {sessions.length} session{sessions.length !== 1 ? 's' : ''}
+        </span>
+        <button
+          onClick={refresh}
+          disabled={loading}
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-3 py-2 text-sm text-gray-300 transition-colors hover:bg-surface-lighter disabled:opacity-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-lg border border-red-500/30 bg-red-500/10 px-4 py-3 text-sm text-red-300">
+          {error}
+        </div>
+      )}
+
+      {!loading && sessions.length === 0 && (
+        <div className="flex flex-col items-center gap-3 py-16">
+          <History className="h-8 w-8 text-gray-600" />
+          <p className="text-gray-400">No saved sessions</p>
+        </div>
+      )}
+
+      <div className="mb-6 space-y-2">
+        {sessions.map((session) => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            busy={busySessionId !== null}
+            onOpen={() => handleOpen(session)}
+            onResume={() => handleResume(session)}
+            onDelete={() => remove(session.id)}
+          />
+        ))}
+      </div>
+
+      <div className="flex justify-between">
+        <button
+          onClick={() => navigate('/')}
+          className="flex items-center gap-2 rounded-lg bg-surface-light px-4 py-2.5 text-sm text-gray-300 transition-colors hover:bg-surface-lighter"
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Back to Devices
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// ─── Internal components ────────────────────────────────────
+
+function SessionRow({
+  session,
+  busy,
+  onOpen,
+  onResume,
+  onDelete
+}: {
+  session: SerializedSavedScanSession
+  busy: boolean
+  onOpen: () => void
+  onResume: () => void
+  onDelete: () => void
+}) {
+  const { config, progress } = session
+  const badge = statusBadge(session)
+
+  return (
+    <div className="rounded-lg border border-surface-lighter bg-surface-light px-4 py-3">
+      <div className="flex items-center gap-4">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="truncate text-sm font-medium text-gray-200">
+              {config.partitionPath ?? config.devicePath}
+            </span>
+            <span className="rounded bg-surface-lighter px-1.5 py-0.5 text-xs text-gray-400">
+              {config.scanType === 'quick' ? 'Quick Scan' : 'Deep Scan'}
+            </span>
+            <span className={`rounded px-1.5 py-0.5 text-xs ${badge.className}`}>
+              {badge.label}
+            </span>
+          </div>
+          <p className="mt-0.5 text-xs text-gray-500">
+            {new Date(session.startedAt).toLocaleString()} ·{' '}
+            {session.filesFound.toLocaleString()} file
+            {session.filesFound !== 1 ? 's' : ''} found ·{' '}
+            {formatBytes(progress.bytesScanned)} of {formatBytes(progress.totalBytes)} scanned
+            {progress.sectorsWithErrors > 0 &&
+              ` · ${progress.sectorsWithErrors} unreadable sectors`}
+          </p>
+          {session.error && (
+            <p className="mt-0.5 truncate text-xs text-red-400">{session.error}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {session.resumable && (
+            <button
+              onClick={onResume}
+              disabled={busy}
+              title="Carry on scanning from the last checkpoint"
+              className="flex items-center gap-2 rounded-lg bg-primary-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-primary-500 disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <Play className="h-4 w-4" />
+              Resume
+            </button>
+          )}
+          <button
+            onClick={onOpen}
+            disabled={busy || session.running || session.filesFound === 0}
+            className="flex items-center gap-2 rounded-lg bg-surface-lighter px-4 py-2 text-sm text-gray-300 transition-colors hover:bg-surface disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <FolderOpen className="h-4 w-4" />
+            Open
+          </button>
+          <button
+            onClick={onDelete}
+            disabled={busy || session.running}
+            title="Delete this session and its saved results"
+            className="rounded-lg p-2 text-gray-500 transition-colors hover:bg-red-500/10 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-40"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      {session.status !== 'completed' && (
+        <div className="mt-2">
+          <ProgressBar value={progress.percentage} size="sm" />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -36,6 +36,8 @@ export default function RecoveryPage() {
   const setDestinationPath = useAppStore((s) => s.setDestinationPath)
   const conflictStrategy = useAppStore((s) => s.conflictStrategy)
   const setConflictStrategy = useAppStore((s) => s.setConflictStrategy)
+  const preserveStructure = useAppStore((s) => s.preserveStructure)
+  const setPreserveStructure = useAppStore((s) => s.setPreserveStructure)
   const setCurrentStep = useAppStore((s) => s.setCurrentStep)
   const addError = useAppStore((s) => s.addError)
 
@@ -214,6 +216,44 @@ export default function RecoveryPage() {
             </div>
           </section>
 
+          {/* Folder layout */}
+          <section className="mb-6">
+            <h3 className="mb-2 text-sm font-semibold text-gray-300">
+              Folder Layout
+            </h3>
+            <div className="flex gap-2">
+              {(
+                [
+                  {
+                    value: false,
+                    label: 'By Category',
+                    desc: 'Photos, videos, documents...'
+                  },
+                  {
+                    value: true,
+                    label: 'Original Folders',
+                    desc: 'Lost parents go to $Orphans'
+                  }
+                ] as const
+              ).map((opt) => (
+                <button
+                  key={opt.label}
+                  onClick={() => setPreserveStructure(opt.value)}
+                  className={`flex-1 rounded-lg border p-3 text-left transition-colors ${
+                    preserveStructure === opt.value
+                      ? 'border-primary-500 bg-primary-500/10'
+                      : 'border-surface-lighter bg-surface-light hover:border-gray-600'
+                  }`}
+                >
+                  <p className="text-sm font-medium text-gray-200">
+                    {opt.label}
+                  </p>
+                  <p className="mt-0.5 text-xs text-gray-500">{opt.desc}</p>
+                </button>
+              ))}
+            </div>
+          </section>
+
           {/* Actions */}
           <div className="flex justify-between">
             <button
@@ -104,16 +104,21 @@ const fileTypeGroups: FileTypeGroup[] = [
   }
 ]
 
+/** Carving worker counts offered; null lets the app pick from the CPU count */
+const CARVING_WORKER_OPTIONS: (number | null)[] = [null, 1, 2, 4, 8]
+
 export default function ScanConfigPage() {
   const navigate = useNavigate()
   const selectedDevice = useAppStore((s) => s.selectedDevice)
   const scanType = useAppStore((s) => s.scanType)
   const selectedFileTypes = useAppStore((s) => s.selectedFileTypes)
   const selectedPartition = useAppStore((s) => s.selectedPartition)
+  const carvingWorkers = useAppStore((s) => s.carvingWorkers)
   const setScanType = useAppStore((s) => s.setScanType)
   const toggleFileCategory = useAppStore((s) => s.toggleFileCategory)
   const toggleFileType = useAppStore((s) => s.toggleFileType)
   const setSelectedPartition = useAppStore((s) => s.setSelectedPartition)
+  const setCarvingWorkers = useAppStore((s) => s.setCarvingWorkers)
   const setCurrentStep = useAppStore((s) => s.setCurrentStep)
 
   useEffect(() => {
@@ -173,7 +178,7 @@ export default function ScanConfigPage() {
       </section>
 
       {/* Partition selector */}
-      {partitions.length > 1 && (
+      {(partitions.length > 1 || selectedPartition) && (
         <section className="mb-8">
           <h3 className="mb-3 text-sm font-semibold text-gray-300">
             Partition
@@ -209,6 +214,32 @@ export default function ScanConfigPage() {
         </section>
       )}
 
+      {/* Carving worker count */}
+      <section className="mb-8">
+        <h3 className="mb-1 text-sm font-semibold text-gray-300">
+          Carving Workers
+        </h3>
+        <p className="mb-3 text-xs text-gray-500">
+          Splits file carving across CPU cores. More workers speed up fast
+          drives; slow or failing drives are better scanned with one.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {CARVING_WORKER_OPTIONS.map((count) => (
+            <button
+              key={count ?? 'auto'}
+              onClick={() => setCarvingWorkers(count)}
+              className={`rounded-lg border px-4 py-2 text-sm transition-colors ${
+                carvingWorkers === count
+                  ? 'border-primary-500 bg-primary-500/10 text-primary-300'
+                  : 'border-surface-lighter bg-surface-light text-gray-400 hover:border-gray-600'
+              }`}
+            >
+              {count ?? 'Auto'}
+            </button>
+          ))}
+        </div>
+      </section>
+
       {/* File type filter */}
       <section className="mb-8">
         <h3 className="mb-3 text-sm font-semibold text-gray-300">
@@ -325,6 +356,12 @@ export default function ScanConfigPage() {
                 : 'Entire Device'}
             </span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Carving Workers</span>
+            <span className="text-gray-200">
+              {carvingWorkers ?? 'Auto'}
+            </span>
+          </div>
           <div className="flex justify-between">
             <span className="text-gray-400">File Types</span>
             <span className="text-gray-200">
@@ -4,7 +4,12 @@ import {
   ALL_FILE_TYPES,
   type FileCategory,
   type FileType,
+  type ImagingPhase,
+  type ImagingStatus,
+  type PartitionSearchStatus,
   type PrivilegeStatus,
+  type RaidLayout,
+  type RaidLevel,
   type RecoveryError,
   type RecoveryStatus,
   type ScanStatus,
@@ -19,13 +24,14 @@ export interface SerializedDeviceInfo {
   name: string
   path: string
   size: string
-  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'unknown'
+  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'image' | 'unknown'
   model: string
   removable: boolean
   readOnly: boolean
   mountPoints: { path: string; filesystem: string }[]
   filesystem?: string
   partitions: SerializedPartitionInfo[]
+  storedHashes?: { md5?: string; sha1?: string }
 }
 
 export interface SerializedPartitionInfo {
@@ -38,6 +44,35 @@ export interface SerializedPartitionInfo {
   mountPoint?: string
 }
 
+/** RaidConfig with bigint fields serialized as strings across IPC */
+export interface SerializedRaidConfig {
+  level: RaidLevel
+  layout: RaidLayout
+  chunkSize: number
+  /** Members in disk order; null marks a missing disk */
+  members: ({ path: string; start: string; dataOffset: string; dataSize: string } | null)[]
+  name?: string
+}
+
+/** LogicalVolume with bigint fields serialized as strings across IPC */
+export interface SerializedLogicalVolume {
+  vgName: string
+  name: string
+  id: string
+  /** Metadata generation the layout was taken from */
+  seqno: number
+  /** Only found in older metadata generations */
+  deleted: boolean
+  segments: {
+    start: string
+    size: string
+    /** Stripe unit in bytes; 0 for a linear segment */
+    stripeSize: number
+    /** A null source marks a physical volume that was not found */
+    stripes: { source: { path: string; start: string } | null; offset: string }[]
+  }[]
+}
+
 export interface SerializedRecoverableFile {
   id: string
   type: FileType
@@ -56,10 +91,22 @@ export interface SerializedRecoverableFile {
     modifiedAt?: string
     cameraModel?: string
     originalName?: string
+    history?: {
+      action: 'created' | 'renamed' | 'deleted' | 'modified'
+      name: string
+      parentRecord?: number
+      timestamp?: string
+      reasons: string[]
+      source: 'usn-journal' | 'logfile'
+    }[]
   }
   recoverability: 'good' | 'partial' | 'poor'
   source: 'carving' | 'metadata'
-  fragments?: { offset: string; size: string }[]
+  fragments?: { offset: string; size: string; sparse?: boolean }[]
+  compressed?: boolean
+  compression?: { format: 'lznt1'; unitSize: number }
+  dataLost?: boolean
+  location?: { folders: string[]; orphaned: boolean }
 }
 
 export interface SerializedScanProgress {
@@ -82,6 +129,42 @@ export interface SerializedRecoveryProgress {
   errors: RecoveryError[]
 }
 
+export interface SerializedImagingProgress {
+  phase: ImagingPhase
+  pass: number
+  currentPosition: string
+  totalBytes: string
+  rescuedBytes: string
+  nonTriedBytes: string
+  nonTrimmedBytes: string
+  nonScrapedBytes: string
+  badBytes: string
+  badAreas: number
+  percentage: number
+  readRate: number
+  resumed: boolean
+}
+
+export interface SerializedPartitionSearchProgress {
+  bytesScanned: string
+  totalBytes: string
+  percentage: number
+  signaturesFound: number
+  estimatedTimeRemaining?: number
+  sectorsWithErrors: number
+}
+
+export interface SerializedLostPartitionCandidate {
+  id: string
+  offset: string
+  size: string
+  filesystem: string
+  label?: string
+  confidence: number
+  evidence: string[]
+  inPartitionTable: boolean
+}
+
 // ─── Store state ─────────────────────────────────────────────
 
 interface DeviceSlice {
@@ -95,12 +178,21 @@ interface ScanSlice {
   fileCategories: FileCategory[]
   selectedFileTypes: FileType[]
   selectedPartition: SerializedPartitionInfo | null
+  /** Carving workers for the scan; null leaves the count to the CPU count */
+  carvingWorkers: number | null
   scanStatus: ScanStatus
   scanProgress: SerializedScanProgress | null
   foundFiles: SerializedRecoverableFile[]
   scanSessionId: string | null
   scanStartedAt: number | null
   scanError: string | null
+  /** Saved session to carry on with instead of starting a new scan */
+  resumeSessionId: string | null
+  /**
+   * Where the next page of a reopened session's saved files starts; null
+   * once they are all loaded
+   */
+  savedFilesPosition: number | null
 }
 
 interface RecoverySlice {
@@ -112,6 +204,22 @@ interface RecoverySlice {
   recoveryErrors: RecoveryError[]
 }
 
+interface ImagingSlice {
+  imagingStatus: ImagingStatus
+  imagingProgress: SerializedImagingProgress | null
+  imagingJobId: string | null
+  imagingImagePath: string | null
+  imagingError: string | null
+}
+
+interface PartitionSearchSlice {
+  partitionSearchStatus: PartitionSearchStatus
+  partitionSearchProgress: SerializedPartitionSearchProgress | null
+  partitionSearchId: string | null
+  lostPartitions: SerializedLostPartitionCandidate[]
+  partitionSearchError: string | null
+}
+
 interface PrivilegeSlice {
   privilege: PrivilegeStatus | null
 }
@@ -127,6 +235,8 @@ export interface AppState
   extends DeviceSlice,
     ScanSlice,
     RecoverySlice,
+    ImagingSlice,
+    PartitionSearchSlice,
     PrivilegeSlice,
     UiSlice {
   // Device actions
@@ -141,6 +251,7 @@ export interface AppState
   toggleFileType: (fileType: FileType) => void
   setSelectedFileTypes: (types: FileType[]) => void
   setSelectedPartition: (partition: SerializedPartitionInfo | null) => void
+  setCarvingWorkers: (count: number | null) => void
 
   // Scan lifecycle actions
   setScanStatus: (status: ScanStatus) => void
@@ -149,6 +260,8 @@ export interface AppState
   setScanSessionId: (id: string) => void
   setScanStartedAt: (ts: number) => void
   setScanError: (error: string | null) => void
+  setResumeSessionId: (id: string | null) => void
+  setSavedFilesPosition: (position: number | null) => void
   resetScan: () => void
 
   // Recovery actions
@@ -160,6 +273,22 @@ export interface AppState
   addRecoveryError: (error: RecoveryError) => void
   resetRecovery: () => void
 
+  // Imaging actions
+  setImagingStatus: (status: ImagingStatus) => void
+  updateImagingProgress: (progress: SerializedImagingProgress) => void
+  setImagingJobId: (id: string | null) => void
+  setImagingImagePath: (path: string | null) => void
+  setImagingError: (error: string | null) => void
+  resetImaging: () => void
+
+  // Lost partition search actions
+  setPartitionSearchStatus: (status: PartitionSearchStatus) => void
+  updatePartitionSearchProgress: (progress: SerializedPartitionSearchProgress) => void
+  setPartitionSearchId: (id: string | null) => void
+  setLostPartitions: (candidates: SerializedLostPartitionCandidate[]) => void
+  setPartitionSearchError: (error: string | null) => void
+  resetPartitionSearch: () => void
+
   // Privilege actions
   setPrivilege: (status: PrivilegeStatus) => void
 
@@ -189,12 +318,15 @@ const initialScanState: ScanSlice = {
   fileCategories: ['photo', 'video', 'document', 'audio', 'archive', 'database'],
   selectedFileTypes: [...ALL_FILE_TYPES],
   selectedPartition: null,
+  carvingWorkers: null,
   scanStatus: 'idle',
   scanProgress: null,
   foundFiles: [],
   scanSessionId: null,
   scanStartedAt: null,
-  scanError: null
+  scanError: null,
+  resumeSessionId: null,
+  savedFilesPosition: null
 }
 
 const initialRecoveryState: RecoverySlice = {
@@ -206,6 +338,22 @@ const initialRecoveryState: RecoverySlice = {
   recoveryErrors: []
 }
 
+const initialImagingState: ImagingSlice = {
+  imagingStatus: 'idle',
+  imagingProgress: null,
+  imagingJobId: null,
+  imagingImagePath: null,
+  imagingError: null
+}
+
+const initialPartitionSearchState: PartitionSearchSlice = {
+  partitionSearchStatus: 'idle',
+  partitionSearchProgress: null,
+  partitionSearchId: null,
+  lostPartitions: [],
+  partitionSearchError: null
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
   // ─── Initial state ───────────────────────────────────────
   devices: [],
@@ -216,6 +364,10 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   ...initialRecoveryState,
 
+  ...initialImagingState,
+
+  ...initialPartitionSearchState,
+
   privilege: null,
 
   currentStep: 1,
@@ -275,6 +427,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
   setSelectedFileTypes: (selectedFileTypes) => set({ selectedFileTypes }),
   setSelectedPartition: (partition) => set({ selectedPartition: partition }),
+  setCarvingWorkers: (carvingWorkers) => set({ carvingWorkers }),
 
   // ─── Scan lifecycle actions ──────────────────────────────
   setScanStatus: (scanStatus) => set({ scanStatus }),
@@ -284,6 +437,8 @@ export const useAppStore = create<AppState>((set, get) => ({
   setScanSessionId: (scanSessionId) => set({ scanSessionId }),
   setScanStartedAt: (scanStartedAt) => set({ scanStartedAt }),
   setScanError: (scanError) => set({ scanError }),
+  setResumeSessionId: (resumeSessionId) => set({ resumeSessionId }),
+  setSavedFilesPosition: (savedFilesPosition) => set({ savedFilesPosition }),
   resetScan: () =>
     set({
       ...initialScanState,
@@ -303,6 +458,22 @@ export const useAppStore = create<AppState>((set, get) => ({
     })),
   resetRecovery: () => set(initialRecoveryState),
 
+  // ─── Imaging actions ─────────────────────────────────────
+  setImagingStatus: (imagingStatus) => set({ imagingStatus }),
+  updateImagingProgress: (imagingProgress) => set({ imagingProgress }),
+  setImagingJobId: (imagingJobId) => set({ imagingJobId }),
+  setImagingImagePath: (imagingImagePath) => set({ imagingImagePath }),
+  setImagingError: (imagingError) => set({ imagingError }),
+  resetImaging: () => set(initialImagingState),
+
+  // ─── Lost partition search actions ───────────────────────
+  setPartitionSearchStatus: (partitionSearchStatus) => set({ partitionSearchStatus }),
+  updatePartitionSearchProgress: (partitionSearchProgress) => set({ partitionSearchProgress }),
+  setPartitionSearchId: (partitionSearchId) => set({ partitionSearchId }),
+  setLostPartitions: (lostPartitions) => set({ lostPartitions }),
+  setPartitionSearchError: (partitionSearchError) => set({ partitionSearchError }),
+  resetPartitionSearch: () => set(initialPartitionSearchState),
+
   // ─── Privilege actions ───────────────────────────────────
   setPrivilege: (privilege) => set({ privilege }),
 
@@ -588,6 +588,24 @@ export function getSignaturesByTypes(types: FileType[]): FileSignature[] {
   return FILE_SIGNATURES.filter((s) => typeSet.has(s.type));
 }
 
+/**
+ * Map each file type to one of its signatures: for types with several
+ * variants (JPEG has 4), the one with the largest maxSize, so sizing uses
+ * the most permissive bounds.
+ */
+export function getLargestSignatureByType(
+  signatures: readonly FileSignature[] = FILE_SIGNATURES,
+): Map<FileType, FileSignature> {
+  const map = new Map<FileType, FileSignature>();
+  for (const sig of signatures) {
+    const existing = map.get(sig.type);
+    if (!existing || sig.maxSize > existing.maxSize) {
+      map.set(sig.type, sig);
+    }
+  }
+  return map;
+}
+
 /** Sector size constant */
 export const SECTOR_SIZE = 512;
 
@@ -5,13 +5,15 @@ export interface DeviceInfo {
   name: string
   path: string
   size: bigint
-  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'unknown'
+  type: 'sd' | 'hdd' | 'ssd' | 'usb' | 'image' | 'unknown'
   model: string
   removable: boolean
   readOnly: boolean
   mountPoints: MountPoint[]
   filesystem?: FilesystemType
   partitions: PartitionInfo[]
+  /** Acquisition hashes recorded inside an evidence container (E01/Ex01). */
+  storedHashes?: { md5?: string; sha1?: string }
 }
 
 export interface PartitionInfo {
@@ -29,7 +31,92 @@ export interface MountPoint {
   filesystem: string
 }
 
-export type FilesystemType = 'fat32' | 'exfat' | 'ntfs' | 'ext4' | 'hfs+' | 'apfs' | 'unknown'
+/** A device, partition or image as a byte range of the path that holds it. */
+export interface SourceWindow {
+  path: string
+  /** Byte offset of the window inside `path` (partitions in images). */
+  start: bigint
+  size: bigint
+}
+
+export type FilesystemType = 'fat12' | 'fat16' | 'fat32' | 'exfat' | 'ntfs' | 'ext4' | 'hfs+' | 'apfs' | 'btrfs' | 'xfs' | 'f2fs' | 'iso9660' | 'udf' | 'luks' | 'lvm2' | 'unknown'
+
+/**
+ * A LUKS volume to unlock. The passphrase is only used to recover the
+ * volume's master key and is never stored.
+ */
+export interface UnlockVolumeRequest {
+  /** Device, partition or disk image holding the volume. */
+  sourcePath: string
+  /** Byte offset of the volume inside the source (partitions in images). */
+  offset: bigint
+  /** Byte length of the volume. */
+  size: bigint
+  passphrase: string
+}
+
+// ─── RAID Types ───────────────────────────────────────────────
+
+export type RaidLevel = 0 | 1 | 5
+
+/** RAID5 parity rotation, named as in mdadm. */
+export type RaidLayout = 'left-asymmetric' | 'right-asymmetric' | 'left-symmetric' | 'right-symmetric'
+
+/** A member of a virtual RAID array: a window of a device, partition or image. */
+export interface RaidMember {
+  path: string
+  /** Byte offset of the member inside `path` (partitions in images). */
+  start: bigint
+  /** Byte offset of the array data inside the member. */
+  dataOffset: bigint
+  /** Bytes of array data on the member. */
+  dataSize: bigint
+}
+
+export interface RaidConfig {
+  level: RaidLevel
+  /** Parity rotation; only used by RAID5. */
+  layout: RaidLayout
+  /** Chunk (stripe unit) size in bytes. */
+  chunkSize: number
+  /** Members in disk order; null marks a missing disk. */
+  members: (RaidMember | null)[]
+  /** Array name from the md superblock, when detected. */
+  name?: string
+}
+
+// ─── LVM Types ────────────────────────────────────────────────
+
+/** One physical volume's share of a logical volume segment. */
+export interface LvmStripe {
+  /** Window holding the physical volume; null if it was not found. */
+  source: Omit<SourceWindow, 'size'> | null
+  /** Byte offset of the stripe's first extent inside the physical volume. */
+  offset: bigint
+}
+
+/** A contiguous run of logical extents, mapped linearly or striped. */
+export interface LvmSegment {
+  /** Byte offset of the segment inside the logical volume. */
+  start: bigint
+  size: bigint
+  /** Stripe unit in bytes; 0 for a linear segment. */
+  stripeSize: number
+  stripes: LvmStripe[]
+}
+
+/** A logical volume as recorded in one generation of its volume group's metadata. */
+export interface LogicalVolume {
+  vgName: string
+  name: string
+  /** LVM uuid of the volume. */
+  id: string
+  /** Metadata generation the layout was taken from. */
+  seqno: number
+  /** Missing from the newest metadata generation: the volume was removed. */
+  deleted: boolean
+  segments: LvmSegment[]
+}
 
 // ─── Scan Types ───────────────────────────────────────────────
 
@@ -48,6 +135,8 @@ export interface ScanConfig {
   deviceSize?: bigint
   startOffset?: bigint
   endOffset?: bigint
+  /** Carving workers to split the scan range across; defaults from the CPU count. */
+  carvingWorkers?: number
 }
 
 export interface ScanSession {
@@ -63,6 +152,23 @@ export interface ScanSession {
 
 export type ScanStatus = 'idle' | 'scanning' | 'paused' | 'completed' | 'cancelled' | 'error'
 
+/** A scan session saved to disk, as listed on the Recent Sessions screen. */
+export interface SavedScanSession {
+  id: string
+  config: ScanConfig
+  /** Last saved status; 'scanning' or 'paused' when the app closed mid-scan */
+  status: ScanStatus
+  progress: ScanProgress
+  startedAt: number
+  completedAt?: number
+  error?: string
+  filesFound: number
+  /** The scan is running in this app session */
+  running: boolean
+  /** The scan stopped before the end and can continue from its last checkpoint */
+  resumable: boolean
+}
+
 export interface ScanProgress {
   bytesScanned: bigint
   totalBytes: bigint
@@ -113,11 +219,39 @@ export interface RecoverableFile {
   recoverability: 'good' | 'partial' | 'poor'
   source: 'carving' | 'metadata'
   fragments?: FileFragment[]
+  /** Some of the file's data is stored compressed and was left out of `fragments`. */
+  compressed?: boolean
+  /** `fragments` hold compressed data that recovery decompresses. */
+  compression?: FileCompression
+  /** Known only from filesystem history; the file's data can no longer be located. */
+  dataLost?: boolean
+  /** Where the file sat in the original directory tree, when the filesystem records it */
+  location?: FileLocation
+}
+
+/** A file's place in its volume's directory tree. */
+export interface FileLocation {
+  /** Folder names from the volume root down to the file's parent */
+  folders: string[]
+  /** A directory in the chain is lost; `folders` holds the part below the break */
+  orphaned: boolean
 }
 
 export interface FileFragment {
   offset: bigint
   size: bigint
+  /** A hole in the file: `size` zero bytes with no location on disk. */
+  sparse?: boolean
+}
+
+export interface FileCompression {
+  /**
+   * NTFS LZNT1. The fragments are split into compression units; a unit
+   * with a sparse part is compressed, a fully allocated one is stored raw.
+   */
+  format: 'lznt1'
+  /** Uncompressed size of one compression unit, in bytes */
+  unitSize: number
 }
 
 export interface FileMetadata {
@@ -128,6 +262,20 @@ export interface FileMetadata {
   modifiedAt?: Date
   cameraModel?: string
   originalName?: string
+  /** Changes recorded by the filesystem's journals, oldest first */
+  history?: FileHistoryEvent[]
+}
+
+export interface FileHistoryEvent {
+  action: 'created' | 'renamed' | 'deleted' | 'modified'
+  /** File name at the time of the event */
+  name: string
+  /** MFT record number of the parent directory */
+  parentRecord?: number
+  timestamp?: Date
+  /** USN reason flags, or the $LogFile operation that recorded the event */
+  reasons: string[]
+  source: 'usn-journal' | 'logfile'
 }
 
 // ─── Recovery Types ───────────────────────────────────────────
@@ -158,6 +306,82 @@ export interface RecoveryError {
 
 export type RecoveryStatus = 'idle' | 'recovering' | 'paused' | 'completed' | 'cancelled' | 'error'
 
+// ─── Imaging Types ────────────────────────────────────────────
+
+export interface ImagingConfig {
+  devicePath: string
+  /** Device size in bytes (block devices report 0 via stat). */
+  deviceSize: bigint
+  /** Destination raw image file. */
+  imagePath: string
+  /** ddrescue-compatible map file. Default: `<imagePath>.map`. */
+  mapfilePath?: string
+}
+
+export type ImagingPhase = 'copying' | 'trimming' | 'scraping' | 'retrying' | 'finished'
+
+export interface ImagingProgress {
+  phase: ImagingPhase
+  /** 1-based pass number within the current phase. */
+  pass: number
+  currentPosition: bigint
+  totalBytes: bigint
+  rescuedBytes: bigint
+  nonTriedBytes: bigint
+  nonTrimmedBytes: bigint
+  nonScrapedBytes: bigint
+  badBytes: bigint
+  /** Number of contiguous bad areas. */
+  badAreas: number
+  /** Rescued bytes as a percentage of the device size. */
+  percentage: number
+  /** Current read rate in bytes per second. */
+  readRate: number
+  /** Whether this run continued from an existing map file. */
+  resumed: boolean
+}
+
+export type ImagingStatus = 'idle' | 'imaging' | 'paused' | 'completed' | 'cancelled' | 'error'
+
+// ─── Lost Partition Search Types ─────────────────────────────
+
+export interface PartitionSearchConfig {
+  devicePath: string
+  /** Device size in bytes (block devices report 0 via stat). */
+  deviceSize: bigint
+}
+
+export interface PartitionSearchProgress {
+  bytesScanned: bigint
+  totalBytes: bigint
+  percentage: number
+  /** Boot sectors, superblocks and volume headers seen so far. */
+  signaturesFound: number
+  /** Seconds. */
+  estimatedTimeRemaining?: number
+  sectorsWithErrors: number
+}
+
+/** A filesystem found on the device that may be a lost partition. */
+export interface LostPartitionCandidate {
+  id: string
+  /** Absolute byte offset of the first sector. */
+  offset: bigint
+  /** Length in bytes, as recorded by the filesystem. */
+  size: bigint
+  filesystem: FilesystemType
+  /** Volume label, where the boot sector or superblock carries one. */
+  label?: string
+  /** 0-100: how strongly the evidence supports a filesystem at `offset`. */
+  confidence: number
+  /** What was found, e.g. "Boot sector" or "Backup superblock (group 3)". */
+  evidence: string[]
+  /** Whether the current partition table already lists this partition. */
+  inPartitionTable: boolean
+}
+
+export type PartitionSearchStatus = 'idle' | 'searching' | 'paused' | 'completed' | 'cancelled' | 'error'
+
 // ─── Privilege Types ──────────────────────────────────────────
 
 export interface PrivilegeStatus {
@@ -172,6 +396,12 @@ export const IpcChannels = {
   // Device
   DEVICE_LIST: 'device:list',
   DEVICE_REFRESH: 'device:refresh',
+  DEVICE_OPEN_IMAGE: 'device:open-image',
+  DEVICE_UNLOCK: 'device:unlock',
+  DEVICE_DETECT_RAID: 'device:detect-raid',
+  DEVICE_ASSEMBLE_RAID: 'device:assemble-raid',
+  DEVICE_DETECT_LVM: 'device:detect-lvm',
+  DEVICE_OPEN_LVM: 'device:open-lvm',
 
   // Scan
   SCAN_START: 'scan:start',
@@ -183,6 +413,12 @@ export const IpcChannels = {
   SCAN_COMPLETE: 'scan:complete',
   SCAN_ERROR: 'scan:error',
 
+  // Saved scan sessions
+  SESSIONS_LIST: 'sessions:list',
+  SESSIONS_FILES: 'sessions:files',
+  SESSIONS_RESUME: 'sessions:resume',
+  SESSIONS_DELETE: 'sessions:delete',
+
   // Recovery
   RECOVERY_START: 'recovery:start',
   RECOVERY_PAUSE: 'recovery:pause',
@@ -192,6 +428,24 @@ export const IpcChannels = {
   RECOVERY_COMPLETE: 'recovery:complete',
   RECOVERY_ERROR: 'recovery:error',
 
+  // Imaging
+  IMAGING_START: 'imaging:start',
+  IMAGING_PAUSE: 'imaging:pause',
+  IMAGING_RESUME: 'imaging:resume',
+  IMAGING_CANCEL: 'imaging:cancel',
+  IMAGING_PROGRESS: 'imaging:progress',
+  IMAGING_COMPLETE: 'imaging:complete',
+  IMAGING_ERROR: 'imaging:error',
+
+  // Lost partition search
+  PARTITION_SEARCH_START: 'partition-search:start',
+  PARTITION_SEARCH_PAUSE: 'partition-search:pause',
+  PARTITION_SEARCH_RESUME: 'partition-search:resume',
+  PARTITION_SEARCH_CANCEL: 'partition-search:cancel',
+  PARTITION_SEARCH_PROGRESS: 'partition-search:progress',
+  PARTITION_SEARCH_COMPLETE: 'partition-search:complete',
+  PARTITION_SEARCH_ERROR: 'partition-search:error',
+
   // Privilege
   PRIVILEGE_CHECK: 'privilege:check',
   PRIVILEGE_REQUEST: 'privilege:request',
@@ -203,19 +457,34 @@ export const IpcChannels = {
 
   // Dialog
   DIALOG_SELECT_DIRECTORY: 'dialog:select-directory',
-  DIALOG_DEFAULT_RECOVERY_PATH: 'dialog:default-recovery-path'
+  DIALOG_DEFAULT_RECOVERY_PATH: 'dialog:default-recovery-path',
+  DIALOG_SELECT_IMAGE_DESTINATION: 'dialog:select-image-destination'
 } as const
 
 // ─── IPC Payload Types ────────────────────────────────────────
 
 export interface IpcPayloads {
   [IpcChannels.DEVICE_LIST]: { devices: DeviceInfo[] }
+  [IpcChannels.DEVICE_OPEN_IMAGE]: { device: DeviceInfo | null }
+  [IpcChannels.DEVICE_UNLOCK]: UnlockVolumeRequest
+  [IpcChannels.DEVICE_DETECT_RAID]: { arrays: RaidConfig[] }
+  [IpcChannels.DEVICE_ASSEMBLE_RAID]: RaidConfig
+  [IpcChannels.DEVICE_DETECT_LVM]: { volumes: LogicalVolume[] }
+  [IpcChannels.DEVICE_OPEN_LVM]: LogicalVolume
   [IpcChannels.SCAN_START]: ScanConfig
   [IpcChannels.SCAN_PROGRESS]: ScanProgress
   [IpcChannels.SCAN_FILE_FOUND]: RecoverableFile
   [IpcChannels.SCAN_COMPLETE]: { sessionId: string; filesFound: number }
+  [IpcChannels.SESSIONS_LIST]: { sessions: SavedScanSession[] }
+  [IpcChannels.SESSIONS_FILES]: { files: RecoverableFile[]; next: number | null }
   [IpcChannels.RECOVERY_START]: RecoveryConfig
   [IpcChannels.RECOVERY_PROGRESS]: RecoveryProgress
+  [IpcChannels.IMAGING_START]: ImagingConfig
+  [IpcChannels.IMAGING_PROGRESS]: { jobId: string; progress: ImagingProgress }
+  [IpcChannels.IMAGING_COMPLETE]: { jobId: string; imagePath: string; cancelled: boolean }
+  [IpcChannels.PARTITION_SEARCH_START]: PartitionSearchConfig
+  [IpcChannels.PARTITION_SEARCH_PROGRESS]: { searchId: string; progress: PartitionSearchProgress }
+  [IpcChannels.PARTITION_SEARCH_COMPLETE]: { searchId: string; candidates: LostPartitionCandidate[]; cancelled: boolean }
   [IpcChannels.PRIVILEGE_STATUS]: PrivilegeStatus
   [IpcChannels.PREVIEW_GENERATE]: { fileId: string; offset: bigint; size: bigint }
   [IpcChannels.PREVIEW_HEX]: { offset: bigint; length: number }